@@ -4,6 +4,7 @@ import { Toaster } from 'sonner';
 import AppTopBar, { type AppTopBarBreadcrumb } from './components/AppTopBar';
 import CalibrationProfileManagementModal from './components/calibration/CalibrationProfileManagementModal';
 import ConnectionSettingsContent from './components/ConnectionSettingsContent';
+import LibraryBundleModal from './components/LibraryBundleModal';
 import MobileNavigationDrawer from './components/MobileNavigationDrawer';
 import Modal from './components/Modal';
 import {
@@ -30,6 +31,7 @@ import { AnimationProvider } from './context/AnimationContext';
 import { CalibrationProvider } from './context/CalibrationContext';
 import { CommandTrackerProvider } from './context/CommandTrackerContext';
 import { LogProvider } from './context/LogContext';
+import { MotorPowerProvider } from './context/MotorPowerContext';
 import { MqttProvider } from './context/MqttContext';
 import { PatternProvider } from './context/PatternContext';
 import { StatusProvider } from './context/StatusContext';
@@ -91,6 +93,7 @@ const App: React.FC = () => {
     const [isMobileNavOpen, setIsMobileNavOpen] = useState(false);
     const [isConnectionModalOpen, setIsConnectionModalOpen] = useState(false);
     const [isProfileManagementModalOpen, setIsProfileManagementModalOpen] = useState(false);
+    const [isLibraryModalOpen, setIsLibraryModalOpen] = useState(false);
 
     // Grid state and persistence (extracted to hook)
     const {
@@ -344,71 +347,82 @@ const App: React.FC = () => {
             <CommandTrackerProvider>
                 <StatusProvider>
                     <LogProvider>
-                        <CalibrationProvider>
-                            <PatternProvider>
-                                <AnimationProvider>
-                                    <div className="flex h-screen min-h-screen overflow-hidden bg-gray-900 font-sans text-gray-200">
-                                        <NavigationRail
-                                            items={navigationItems}
-                                            legacyItems={legacyNavigationItems}
-                                            activePage={effectiveNavPage}
-                                            collapsed={isRailCollapsed}
-                                            onToggleCollapse={() =>
-                                                setIsRailCollapsed((prev) => !prev)
-                                            }
-                                            onNavigate={navigateTo}
-                                        />
-                                        <MobileNavigationDrawer
-                                            open={isMobileNavOpen}
-                                            onClose={() => setIsMobileNavOpen(false)}
-                                            items={navigationItems}
-                                            legacyItems={legacyNavigationItems}
-                                            activePage={effectiveNavPage}
-                                            onNavigate={navigateTo}
-                                        />
-                                        <div className="flex h-full flex-1 flex-col overflow-hidden">
-                                            <AppTopBar
-                                                onMenuClick={() => setIsMobileNavOpen(true)}
-                                                onOpenSettings={() =>
-                                                    setIsConnectionModalOpen(true)
+                        <MotorPowerProvider>
+                            <CalibrationProvider>
+                                <PatternProvider>
+                                    <AnimationProvider>
+                                        <div className="flex h-screen min-h-screen overflow-hidden bg-gray-900 font-sans text-gray-200">
+                                            <NavigationRail
+                                                items={navigationItems}
+                                                legacyItems={legacyNavigationItems}
+                                                activePage={effectiveNavPage}
+                                                collapsed={isRailCollapsed}
+                                                onToggleCollapse={() =>
+                                                    setIsRailCollapsed((prev) => !prev)
                                                 }
-                                                onOpenProfileManagement={() =>
-                                                    setIsProfileManagementModalOpen(true)
+                                                onNavigate={navigateTo}
+                                            />
+                                            <MobileNavigationDrawer
+                                                open={isMobileNavOpen}
+                                                onClose={() => setIsMobileNavOpen(false)}
+                                                items={navigationItems}
+                                                legacyItems={legacyNavigationItems}
+                                                activePage={effectiveNavPage}
+                                                onNavigate={navigateTo}
+                                            />
+                                            <div className="flex h-full flex-1 flex-col overflow-hidden">
+                                                <AppTopBar
+                                                    onMenuClick={() => setIsMobileNavOpen(true)}
+                                                    onOpenSettings={() =>
+                                                        setIsConnectionModalOpen(true)
+                                                    }
+                                                    onOpenProfileManagement={() =>
+                                                        setIsProfileManagementModalOpen(true)
+                                                    }
+                                                    onOpenLibrary={() =>
+                                                        setIsLibraryModalOpen(true)
+                                                    }
+                                                    pageTitle={pageTitle}
+                                                    breadcrumbs={breadcrumbs}
+                                                    gridSize={gridSize}
+                                                    mirrorConfig={mirrorConfig}
+                                                />
+                                                <main
+                                                    data-testid="app-root"
+                                                    className="flex-1 overflow-auto px-4 py-6 md:px-8"
+                                                >
+                                                    <div className="w-full">{renderPage()}</div>
+                                                </main>
+                                            </div>
+                                            <Modal
+                                                open={isConnectionModalOpen}
+                                                onClose={() => setIsConnectionModalOpen(false)}
+                                                title="Connection Settings"
+                                            >
+                                                <ConnectionSettingsContent />
+                                            </Modal>
+                                            <CalibrationProfileManagementModal
+                                                open={isProfileManagementModalOpen}
+                                                onClose={() =>
+                                                    setIsProfileManagementModalOpen(false)
                                                 }
-                                                pageTitle={pageTitle}
-                                                breadcrumbs={breadcrumbs}
                                                 gridSize={gridSize}
                                                 mirrorConfig={mirrorConfig}
                                             />
-                                            <main
-                                                data-testid="app-root"
-                                                className="flex-1 overflow-auto px-4 py-6 md:px-8"
-                                            >
-                                                <div className="w-full">{renderPage()}</div>
-                                            </main>
+                                            <LibraryBundleModal
+                                                open={isLibraryModalOpen}
+                                                onClose={() => setIsLibraryModalOpen(false)}
+                                            />
+                                            <Toaster
+                                                position="bottom-right"
+                                                richColors
+                                                expand={false}
+                                            />
                                         </div>
-                                        <Modal
-                                            open={isConnectionModalOpen}
-                                            onClose={() => setIsConnectionModalOpen(false)}
-                                            title="Connection Settings"
-                                        >
-                                            <ConnectionSettingsContent />
-                                        </Modal>
-                                        <CalibrationProfileManagementModal
-                                            open={isProfileManagementModalOpen}
-                                            onClose={() => setIsProfileManagementModalOpen(false)}
-                                            gridSize={gridSize}
-                                            mirrorConfig={mirrorConfig}
-                                        />
-                                        <Toaster
-                                            position="bottom-right"
-                                            richColors
-                                            expand={false}
-                                        />
-                                    </div>
-                                </AnimationProvider>
-                            </PatternProvider>
-                        </CalibrationProvider>
+                                    </AnimationProvider>
+                                </PatternProvider>
+                            </CalibrationProvider>
+                        </MotorPowerProvider>
                     </LogProvider>
                 </StatusProvider>
             </CommandTrackerProvider>
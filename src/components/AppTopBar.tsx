@@ -21,6 +21,7 @@ interface AppTopBarProps {
     onMenuClick: () => void;
     onOpenSettings: () => void;
     onOpenProfileManagement?: () => void;
+    onOpenLibrary?: () => void;
     pageTitle: string;
     breadcrumbs?: AppTopBarBreadcrumb[];
     showProfileSelector?: boolean;
@@ -32,6 +33,7 @@ const AppTopBar: React.FC<AppTopBarProps> = ({
     onMenuClick,
     onOpenSettings,
     onOpenProfileManagement,
+    onOpenLibrary,
     pageTitle,
     breadcrumbs = [],
     showProfileSelector = true,
@@ -56,8 +58,8 @@ const AppTopBar: React.FC<AppTopBarProps> = ({
     );
     const offline = isConnectionOffline(state);
     const connectionLabel = useMemo(() => {
-        if (settings.scheme === 'mock') {
-            return 'mock';
+        if (settings.scheme === 'mock' || settings.scheme === 'replay') {
+            return settings.scheme;
         }
         try {
             const parsed = new URL(connectionUrl);
@@ -148,6 +150,16 @@ const AppTopBar: React.FC<AppTopBarProps> = ({
                             />
                         </>
                     )}
+                    {onOpenLibrary && (
+                        <button
+                            type="button"
+                            onClick={onOpenLibrary}
+                            className="rounded-md border border-gray-700 px-3 py-1 text-xs font-medium text-gray-300 transition hover:border-gray-500 hover:text-gray-100"
+                            title="Export or import patterns, sequences and animations"
+                        >
+                            Library
+                        </button>
+                    )}
                     <button
                         type="button"
                         onClick={onOpenSettings}
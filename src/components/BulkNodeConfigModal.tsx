@@ -0,0 +1,414 @@
+import React, { useEffect, useMemo, useState } from 'react';
+
+import { useStatusStore } from '../context/StatusContext';
+import { useMotorCommands } from '../hooks/useMotorCommands';
+import {
+    executeBulkConfigApply,
+    getMirrorConfigNodeMacs,
+    planBulkConfigApply,
+    rollbackBulkConfig,
+    type BulkConfigNodeInput,
+    type BulkConfigNodeStatus,
+    type BulkConfigReport,
+} from '../services/bulkNodeConfig';
+import {
+    configMessageToValues,
+    isMicrostepMode,
+    isThermalMode,
+    MICROSTEP_MODES,
+    NODE_CONFIG_FIELD_LABELS,
+    NODE_CONFIG_FIELDS,
+    validateNodeConfigValue,
+    type NodeConfigField,
+    type NodeConfigValues,
+} from '../services/nodeConfig';
+
+import Modal from './Modal';
+
+import type { MirrorConfig } from '../types';
+
+interface BulkNodeConfigModalProps {
+    open: boolean;
+    onClose: () => void;
+    mirrorConfig: MirrorConfig;
+}
+
+type TargetDraft = Record<NodeConfigField, { include: boolean; value: string }>;
+
+const createEmptyDraft = (): TargetDraft => ({
+    SPEED: { include: false, value: '' },
+    ACCEL: { include: false, value: '' },
+    DECEL: { include: false, value: '' },
+    THERMAL_LIMITING: { include: false, value: 'ON' },
+    MICROSTEP: { include: false, value: 'FULL' },
+});
+
+type TargetParsers = {
+    [F in NodeConfigField]: (raw: string) => NodeConfigValues[F] | undefined;
+};
+
+const parseNumberTarget = (raw: string): number | undefined => {
+    const trimmed = raw.trim();
+    return trimmed.length > 0 ? Number(trimmed) : undefined;
+};
+
+const TARGET_PARSERS: TargetParsers = {
+    SPEED: parseNumberTarget,
+    ACCEL: parseNumberTarget,
+    DECEL: parseNumberTarget,
+    THERMAL_LIMITING: (raw) => (isThermalMode(raw) ? raw : undefined),
+    MICROSTEP: (raw) => (isMicrostepMode(raw) ? raw : undefined),
+};
+
+const assignTargetValue = <F extends NodeConfigField>(
+    values: Partial<NodeConfigValues>,
+    field: F,
+    raw: string,
+) => {
+    const parsed = TARGET_PARSERS[field](raw);
+    if (parsed !== undefined) {
+        values[field] = parsed;
+    }
+};
+
+const STATUS_STYLES: Record<BulkConfigNodeStatus, string> = {
+    success: 'text-emerald-300',
+    unchanged: 'text-gray-400',
+    skipped: 'text-amber-300',
+    failed: 'text-red-300',
+};
+
+type Phase = 'editing' | 'applying' | 'applied' | 'rolling-back' | 'rolled-back';
+
+const BulkNodeConfigModal: React.FC<BulkNodeConfigModalProps> = ({
+    open,
+    onClose,
+    mirrorConfig,
+}) => {
+    const { drivers } = useStatusStore();
+    const { getNodeConfig, setNodeConfig } = useMotorCommands();
+    const [draft, setDraft] = useState<TargetDraft>(createEmptyDraft);
+    const [fetchedValues, setFetchedValues] = useState<Record<string, Partial<NodeConfigValues>>>(
+        {},
+    );
+    const [phase, setPhase] = useState<Phase>('editing');
+    const [report, setReport] = useState<BulkConfigReport | null>(null);
+    const [rollbackReport, setRollbackReport] = useState<BulkConfigReport | null>(null);
+
+    const nodeMacs = useMemo(() => getMirrorConfigNodeMacs(mirrorConfig), [mirrorConfig]);
+
+    const nodeInputs = useMemo<BulkConfigNodeInput[]>(
+        () =>
+            nodeMacs.map((mac) => {
+                const driver = drivers.find((entry) => entry.topicMac === mac);
+                const current = driver?.config
+                    ? configMessageToValues(driver.config)
+                    : fetchedValues[mac];
+                return {
+                    mac,
+                    current,
+                    motors: Object.values(driver?.snapshot.motors ?? {}),
+                };
+            }),
+        [drivers, fetchedValues, nodeMacs],
+    );
+
+    // Nodes without a retained config payload are read once with GET ALL
+    const missingMacs = useMemo(
+        () => nodeInputs.filter((node) => !node.current).map((node) => node.mac),
+        [nodeInputs],
+    );
+    const missingKey = missingMacs.join(',');
+    useEffect(() => {
+        if (!open || missingKey.length === 0) {
+            return;
+        }
+        let cancelled = false;
+        missingKey.split(',').forEach((mac) => {
+            getNodeConfig({ mac })
+                .then((report) => {
+                    if (!cancelled) {
+                        setFetchedValues((prev) => ({ ...prev, [mac]: report.values }));
+                    }
+                })
+                .catch((error) => {
+                    console.warn('Failed to read node config', mac, error);
+                });
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [getNodeConfig, missingKey, open]);
+
+    const target = useMemo<Partial<NodeConfigValues>>(() => {
+        const values: Partial<NodeConfigValues> = {};
+        for (const field of NODE_CONFIG_FIELDS) {
+            const entry = draft[field];
+            if (!entry.include) {
+                continue;
+            }
+            assignTargetValue(values, field, entry.value);
+        }
+        return values;
+    }, [draft]);
+
+    const validationErrors = NODE_CONFIG_FIELDS.filter((field) => draft[field].include)
+        .map((field) => validateNodeConfigValue(field, target[field]))
+        .filter((message): message is string => message !== null);
+
+    const plans = useMemo(() => planBulkConfigApply(nodeInputs, target), [nodeInputs, target]);
+    const totalChanges = plans.reduce((sum, plan) => sum + plan.changes.length, 0);
+    const includedFields = NODE_CONFIG_FIELDS.filter((field) => draft[field].include);
+
+    const handleApply = async () => {
+        setPhase('applying');
+        setRollbackReport(null);
+        const result = await executeBulkConfigApply(plans, setNodeConfig);
+        setReport(result);
+        setPhase('applied');
+    };
+
+    const handleRollback = async () => {
+        if (!report) {
+            return;
+        }
+        setPhase('rolling-back');
+        const result = await rollbackBulkConfig(report, setNodeConfig);
+        setRollbackReport(result);
+        setPhase('rolled-back');
+    };
+
+    const handleClose = () => {
+        if (phase === 'applying' || phase === 'rolling-back') {
+            return;
+        }
+        setPhase('editing');
+        setReport(null);
+        setRollbackReport(null);
+        onClose();
+    };
+
+    const updateDraft = (field: NodeConfigField, patch: Partial<TargetDraft[NodeConfigField]>) => {
+        setDraft((prev) => ({ ...prev, [field]: { ...prev[field], ...patch } }));
+    };
+
+    const inputClass =
+        'w-full rounded-md border border-gray-700 bg-gray-800 px-2 py-1 font-mono text-sm text-gray-100 focus:border-emerald-500 focus:outline-none disabled:opacity-50';
+
+    const isEditing = phase === 'editing';
+    const activeReport = rollbackReport ?? report;
+
+    return (
+        <Modal
+            open={open}
+            onClose={handleClose}
+            title="Fleet Configuration"
+            contentClassName="max-w-4xl"
+            disableOverlayClose
+        >
+            <div className="flex flex-col gap-4 text-sm text-gray-300">
+                <p className="text-xs text-gray-400">
+                    Apply one profile to the {nodeMacs.length} node
+                    {nodeMacs.length === 1 ? '' : 's'} referenced by the current array config.
+                    Values are sent one SET at a time; previous values are captured for rollback.
+                </p>
+
+                <div className="grid gap-3 sm:grid-cols-5">
+                    {NODE_CONFIG_FIELDS.map((field) => (
+                        <div key={field} className="flex flex-col gap-1">
+                            <label className="flex items-center gap-2 text-xs text-gray-400">
+                                <input
+                                    type="checkbox"
+                                    checked={draft[field].include}
+                                    disabled={!isEditing}
+                                    onChange={(event) =>
+                                        updateDraft(field, { include: event.target.checked })
+                                    }
+                                    data-testid={`bulk-config-include-${field.toLowerCase()}`}
+                                />
+                                {NODE_CONFIG_FIELD_LABELS[field]}
+                            </label>
+                            {field === 'THERMAL_LIMITING' || field === 'MICROSTEP' ? (
+                                <select
+                                    value={draft[field].value}
+                                    disabled={!isEditing || !draft[field].include}
+                                    onChange={(event) =>
+                                        updateDraft(field, { value: event.target.value })
+                                    }
+                                    className={inputClass}
+                                    aria-label={NODE_CONFIG_FIELD_LABELS[field]}
+                                >
+                                    {(field === 'MICROSTEP' ? MICROSTEP_MODES : ['ON', 'OFF']).map(
+                                        (option) => (
+                                            <option key={option} value={option}>
+                                                {option}
+                                            </option>
+                                        ),
+                                    )}
+                                </select>
+                            ) : (
+                                <input
+                                    type="number"
+                                    min={field === 'DECEL' ? 0 : 1}
+                                    step={1}
+                                    value={draft[field].value}
+                                    disabled={!isEditing || !draft[field].include}
+                                    onChange={(event) =>
+                                        updateDraft(field, { value: event.target.value })
+                                    }
+                                    className={inputClass}
+                                    aria-label={NODE_CONFIG_FIELD_LABELS[field]}
+                                    data-testid={`bulk-config-value-${field.toLowerCase()}`}
+                                />
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                {validationErrors.length > 0 && (
+                    <ul className="list-disc pl-5 text-xs text-red-200">
+                        {validationErrors.map((message) => (
+                            <li key={message}>{message}</li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="max-h-80 overflow-auto rounded-md border border-gray-800">
+                    <table className="w-full text-left text-xs" data-testid="bulk-config-diff">
+                        <thead className="bg-gray-950/60 text-gray-500">
+                            <tr>
+                                <th className="px-3 py-2 font-medium">Node</th>
+                                {includedFields.map((field) => (
+                                    <th key={field} className="px-3 py-2 font-medium">
+                                        {field}
+                                    </th>
+                                ))}
+                                <th className="px-3 py-2 font-medium">Result</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {plans.map((plan) => {
+                                const node = nodeInputs.find((entry) => entry.mac === plan.mac);
+                                const nodeReport = activeReport?.nodes.find(
+                                    (entry) => entry.mac === plan.mac,
+                                );
+                                return (
+                                    <tr key={plan.mac} className="border-t border-gray-800">
+                                        <td className="px-3 py-2 font-mono text-gray-200">
+                                            {plan.mac.toUpperCase().slice(-5)}
+                                        </td>
+                                        {includedFields.map((field) => {
+                                            const change = plan.changes.find(
+                                                (entry) => entry.field === field,
+                                            );
+                                            const currentValue = node?.current?.[field];
+                                            return (
+                                                <td key={field} className="px-3 py-2 font-mono">
+                                                    {change ? (
+                                                        <span className="text-amber-200">
+                                                            {String(change.from ?? '—')} →{' '}
+                                                            {String(change.to)}
+                                                        </span>
+                                                    ) : (
+                                                        <span className="text-gray-500">
+                                                            {currentValue !== undefined
+                                                                ? String(currentValue)
+                                                                : '—'}
+                                                        </span>
+                                                    )}
+                                                </td>
+                                            );
+                                        })}
+                                        <td className="px-3 py-2">
+                                            {nodeReport ? (
+                                                <span className={STATUS_STYLES[nodeReport.status]}>
+                                                    {nodeReport.status}
+                                                    {nodeReport.error &&
+                                                        ` — ${nodeReport.failedField ? `${nodeReport.failedField}: ` : ''}${nodeReport.error}`}
+                                                    {nodeReport.errorCode &&
+                                                        ` (${nodeReport.errorCode})`}
+                                                </span>
+                                            ) : plan.blocker ? (
+                                                <span className="text-amber-300">
+                                                    {plan.blocker}
+                                                </span>
+                                            ) : (
+                                                <span className="text-gray-500">
+                                                    {plan.changes.length} change
+                                                    {plan.changes.length === 1 ? '' : 's'}
+                                                </span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {plans.length === 0 && (
+                                <tr>
+                                    <td
+                                        className="px-3 py-6 text-center text-gray-500"
+                                        colSpan={includedFields.length + 2}
+                                    >
+                                        No motors are assigned in the current array config.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                {report && (
+                    <p
+                        className={`text-xs ${report.hasFailures ? 'text-amber-200' : 'text-emerald-200'}`}
+                    >
+                        {rollbackReport
+                            ? rollbackReport.hasFailures
+                                ? 'Rollback finished with errors. Check the affected nodes manually.'
+                                : 'Rollback complete. Captured values restored.'
+                            : report.hasFailures
+                              ? 'Some nodes were not updated. Roll back to restore the captured values.'
+                              : 'All nodes updated.'}
+                    </p>
+                )}
+
+                <div className="flex flex-wrap items-center justify-end gap-3 text-xs">
+                    <button
+                        type="button"
+                        onClick={handleClose}
+                        disabled={phase === 'applying' || phase === 'rolling-back'}
+                        className="rounded-md border border-gray-600 px-3 py-1.5 text-gray-300 transition-colors hover:border-gray-400 disabled:opacity-50"
+                    >
+                        Close
+                    </button>
+                    {report && !rollbackReport && (
+                        <button
+                            type="button"
+                            onClick={() => void handleRollback()}
+                            disabled={phase !== 'applied'}
+                            className="rounded-md border border-amber-600/70 bg-amber-900/40 px-3 py-1.5 font-semibold text-amber-200 transition-colors hover:bg-amber-700/40 disabled:opacity-50"
+                            data-testid="bulk-config-rollback"
+                        >
+                            Roll back
+                        </button>
+                    )}
+                    {isEditing && (
+                        <button
+                            type="button"
+                            onClick={() => void handleApply()}
+                            disabled={totalChanges === 0 || validationErrors.length > 0}
+                            className="rounded-md border border-emerald-600/70 bg-emerald-900/40 px-3 py-1.5 font-semibold text-emerald-200 transition-colors hover:bg-emerald-700/40 disabled:opacity-50"
+                            data-testid="bulk-config-apply"
+                        >
+                            Apply {totalChanges > 0 ? `(${totalChanges} changes)` : ''}
+                        </button>
+                    )}
+                    {phase === 'applying' && <span className="text-sky-200">Applying…</span>}
+                    {phase === 'rolling-back' && (
+                        <span className="text-sky-200">Rolling back…</span>
+                    )}
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+export default BulkNodeConfigModal;
@@ -3,13 +3,34 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useMqtt, type ConnectionSettings } from '../context/MqttContext';
 import { formatRetryCountdown, getConnectionStatusLabel } from '../utils/connectionStatus';
 
-const schemeOptions: Array<Exclude<ConnectionSettings['scheme'], 'mock'>> = ['ws', 'wss'];
+import MockFaultPanel from './MockFaultPanel';
+import NodeNetworkWizard from './NodeNetworkWizard';
+import SessionRecorderControls from './SessionRecorderControls';
+import SessionReplayPanel from './SessionReplayPanel';
+
+type BrokerScheme = Exclude<ConnectionSettings['scheme'], 'mock' | 'replay'>;
+
+const schemeOptions: BrokerScheme[] = ['ws', 'wss'];
+
+const MODE_OPTIONS: Array<{ id: 'broker' | 'mock' | 'replay'; label: string }> = [
+    { id: 'broker', label: 'MQTT Broker' },
+    { id: 'mock', label: 'Mock Transport' },
+    { id: 'replay', label: 'Session Replay' },
+];
 
 const ConnectionSettingsContent: React.FC = () => {
-    const { settings, updateSettings, state, connect, disconnect, manualReconnect, connectionUrl } =
-        useMqtt();
+    const {
+        settings,
+        updateSettings,
+        state,
+        connect,
+        disconnect,
+        manualReconnect,
+        connectionUrl,
+        getMockTransport,
+    } = useMqtt();
     const [heartbeat, setHeartbeat] = useState(() => Date.now());
-    const lastBrokerSchemeRef = useRef<Exclude<ConnectionSettings['scheme'], 'mock'>>('ws');
+    const lastBrokerSchemeRef = useRef<BrokerScheme>('ws');
 
     useEffect(() => {
         if (!state.nextRetryTimestamp) {
@@ -20,7 +41,7 @@ const ConnectionSettingsContent: React.FC = () => {
     }, [state.nextRetryTimestamp]);
 
     useEffect(() => {
-        if (settings.scheme !== 'mock') {
+        if (settings.scheme === 'ws' || settings.scheme === 'wss') {
             lastBrokerSchemeRef.current = settings.scheme;
         }
     }, [settings.scheme]);
@@ -33,6 +54,9 @@ const ConnectionSettingsContent: React.FC = () => {
     const isConnected = state.status === 'connected';
     const isBusy = state.status === 'connecting' || state.status === 'reconnecting';
     const isMock = settings.scheme === 'mock';
+    const isReplay = settings.scheme === 'replay';
+    const mode = isMock ? 'mock' : isReplay ? 'replay' : 'broker';
+    const mockTransport = isMock && isConnected ? getMockTransport() : null;
 
     const handleChange =
         <Key extends keyof ConnectionSettings>(field: Key) =>
@@ -48,9 +72,9 @@ const ConnectionSettingsContent: React.FC = () => {
             updateSettings({ [field]: value } as Pick<ConnectionSettings, Key>);
         };
 
-    const handleModeSelect = (mode: 'mock' | 'broker') => {
-        if (mode === 'mock') {
-            updateSettings({ scheme: 'mock' });
+    const handleModeSelect = (nextMode: 'mock' | 'replay' | 'broker') => {
+        if (nextMode !== 'broker') {
+            updateSettings({ scheme: nextMode });
             return;
         }
         const nextScheme = lastBrokerSchemeRef.current ?? 'ws';
@@ -81,31 +105,31 @@ const ConnectionSettingsContent: React.FC = () => {
                 <div>
                     <span className="text-gray-400">Mode:</span>{' '}
                     <span className="font-medium text-gray-200">
-                        {isMock ? 'Mock transport (in-memory)' : connectionUrl}
+                        {isMock
+                            ? 'Mock transport (in-memory)'
+                            : isReplay
+                              ? 'Session replay'
+                              : connectionUrl}
                     </span>
                 </div>
             </div>
 
             <div className="flex flex-wrap items-center gap-2">
                 <div className="inline-flex rounded-md border border-gray-700 bg-gray-900 p-1 text-xs font-medium text-gray-300">
-                    <button
-                        type="button"
-                        onClick={() => handleModeSelect('broker')}
-                        className={`rounded px-3 py-1 transition ${
-                            isMock ? 'hover:text-emerald-300' : 'bg-emerald-500 text-gray-900'
-                        }`}
-                    >
-                        MQTT Broker
-                    </button>
-                    <button
-                        type="button"
-                        onClick={() => handleModeSelect('mock')}
-                        className={`rounded px-3 py-1 transition ${
-                            isMock ? 'bg-emerald-500 text-gray-900' : 'hover:text-emerald-300'
-                        }`}
-                    >
-                        Mock Transport
-                    </button>
+                    {MODE_OPTIONS.map((option) => (
+                        <button
+                            key={option.id}
+                            type="button"
+                            onClick={() => handleModeSelect(option.id)}
+                            className={`rounded px-3 py-1 transition ${
+                                mode === option.id
+                                    ? 'bg-emerald-500 text-gray-900'
+                                    : 'hover:text-emerald-300'
+                            }`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
                 </div>
             </div>
 
@@ -135,7 +159,9 @@ const ConnectionSettingsContent: React.FC = () => {
                 </button>
             </div>
 
-            {isMock ? (
+            {isReplay ? (
+                <SessionReplayPanel />
+            ) : isMock ? (
                 <div className="rounded-md border border-gray-700 bg-gray-900/60 px-3 py-4 text-sm text-gray-300">
                     Mock transport bypasses the network and simulates MQTT messages locally. No
                     broker configuration is required.
@@ -207,6 +233,24 @@ const ConnectionSettingsContent: React.FC = () => {
                     </label>
                 </form>
             )}
+
+            {isConnected && !isReplay && (
+                <div className="border-t border-gray-800 pt-6">
+                    <SessionRecorderControls />
+                </div>
+            )}
+
+            {isConnected && !isReplay && (
+                <div className="border-t border-gray-800 pt-6">
+                    <NodeNetworkWizard currentBrokerHost={isMock ? '' : settings.host} />
+                </div>
+            )}
+
+            {mockTransport && (
+                <div className="border-t border-gray-800 pt-6">
+                    <MockFaultPanel transport={mockTransport} />
+                </div>
+            )}
         </div>
     );
 };
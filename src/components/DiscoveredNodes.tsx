@@ -82,6 +82,8 @@ interface DiscoveredNodesProps {
     onNodeSelect: (mac: string | null) => void;
     onClearNodeAssignments: (mac: string) => void;
     onNudgeMotor?: (motor: Motor, currentPosition: number) => void;
+    /** Open the device configuration panel for a node. */
+    onOpenConfig?: (mac: string) => void;
     emptyMessage?: string;
 }
 
@@ -92,6 +94,7 @@ const DiscoveredNodes: React.FC<DiscoveredNodesProps> = ({
     onNodeSelect,
     onClearNodeAssignments,
     onNudgeMotor,
+    onOpenConfig,
     emptyMessage = 'No nodes match the current filter',
 }) => {
     if (nodes.length === 0) {
@@ -161,6 +164,30 @@ const DiscoveredNodes: React.FC<DiscoveredNodesProps> = ({
                                         />
                                     </svg>
                                 </button>
+                                {onOpenConfig && (
+                                    <button
+                                        type="button"
+                                        onClick={(event) => {
+                                            event.stopPropagation();
+                                            onOpenConfig(node.macAddress);
+                                        }}
+                                        className="rounded p-0.5 text-gray-500 transition-colors hover:bg-gray-700/60 hover:text-gray-200"
+                                        title="Device configuration"
+                                        data-testid={`node-config-${node.macAddress}`}
+                                    >
+                                        <svg
+                                            className="size-3.5"
+                                            viewBox="0 0 20 20"
+                                            fill="currentColor"
+                                        >
+                                            <path
+                                                fillRule="evenodd"
+                                                d="M11.49 3.17c-.38-1.56-2.6-1.56-2.98 0a1.532 1.532 0 01-2.286.948c-1.372-.836-2.942.734-2.106 2.106.54.886.061 2.042-.947 2.287-1.561.379-1.561 2.6 0 2.978a1.532 1.532 0 01.947 2.287c-.836 1.372.734 2.942 2.106 2.106a1.532 1.532 0 012.287.947c.379 1.561 2.6 1.561 2.978 0a1.533 1.533 0 012.287-.947c1.372.836 2.942-.734 2.106-2.106a1.533 1.533 0 01.947-2.287c1.561-.379 1.561-2.6 0-2.978a1.532 1.532 0 01-.947-2.287c.836-1.372-.734-2.942-2.106-2.106a1.532 1.532 0 01-2.287-.947zM10 13a3 3 0 100-6 3 3 0 000 6z"
+                                                clipRule="evenodd"
+                                            />
+                                        </svg>
+                                    </button>
+                                )}
                                 <NodeCommandBar mac={node.macAddress} />
                             </div>
                         </div>
@@ -4,11 +4,17 @@ import { showCommandErrorToast } from '@/components/common/StyledToast';
 import { DEFAULT_STAGING_POSITION } from '@/constants/calibration';
 import { MOTOR_MAX_POSITION_STEPS, MOTOR_MIN_POSITION_STEPS } from '@/constants/control';
 import { useCalibrationContext } from '@/context/CalibrationContext';
+import { useMotorPower } from '@/context/MotorPowerContext';
 import { useCommandFeedback } from '@/hooks/useCommandFeedback';
 import { useMotorCommands } from '@/hooks/useMotorCommands';
 import { computePoseTargets, type StagingConfig } from '@/services/calibration';
 import type { CalibrationRunSummary } from '@/services/calibration/types';
 import { profileToRunSummary } from '@/services/calibrationProfileStorage';
+import {
+    executePowerCommands,
+    MAX_IDLE_SLEEP_SECONDS,
+    MIN_IDLE_SLEEP_SECONDS,
+} from '@/services/motorPower';
 import type { MirrorConfig, Motor } from '@/types';
 import type { CommandErrorDetail } from '@/types/commandError';
 import { extractCommandErrorDetail } from '@/utils/commandErrors';
@@ -117,11 +123,15 @@ interface GlobalMoveDropdownProps {
 const GlobalMoveDropdown: React.FC<GlobalMoveDropdownProps> = ({ gridSize, mirrorConfig }) => {
     const [isOpen, setIsOpen] = useState(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
-    const { moveMotor, homeAll } = useMotorCommands();
+    const { moveMotor, homeAll, wakeMotor, sleepMotor } = useMotorCommands();
     const calibratedHomeFeedback = useCommandFeedback();
     const physicalHomeFeedback = useCommandFeedback();
     const stagingFeedback = useCommandFeedback();
     const homeAllFeedback = useCommandFeedback();
+    const powerFeedback = useCommandFeedback();
+    const { policy, updatePolicy, sleepScheduledAt } = useMotorPower();
+    // Idle seconds are committed on blur so typing is not clamped keystroke by keystroke
+    const [idleSecondsDraft, setIdleSecondsDraft] = useState<string | null>(null);
 
     const { selectedProfile } = useCalibrationContext();
 
@@ -197,6 +207,8 @@ const GlobalMoveDropdown: React.FC<GlobalMoveDropdownProps> = ({ gridSize, mirro
         stagingAxisTargets.length === 0 || stagingFeedback.feedback.state === 'pending';
     const homeAllButtonDisabled =
         uniqueMacAddresses.length === 0 || homeAllFeedback.feedback.state === 'pending';
+    const powerButtonDisabled =
+        uniqueMacAddresses.length === 0 || powerFeedback.feedback.state === 'pending';
 
     // Close dropdown when clicking outside
     useEffect(() => {
@@ -312,12 +324,39 @@ const GlobalMoveDropdown: React.FC<GlobalMoveDropdownProps> = ({ gridSize, mirro
         }
     }, [uniqueMacAddresses, homeAll, homeAllFeedback]);
 
+    const handleArrayPower = useCallback(
+        async (awake: boolean) => {
+            if (uniqueMacAddresses.length === 0) {
+                powerFeedback.fail('No motors available.');
+                return;
+            }
+            const action = awake ? 'WAKE' : 'SLEEP';
+            powerFeedback.begin(awake ? 'Waking all motors…' : 'Putting all motors to sleep…');
+            setIsOpen(false);
+
+            const targets = uniqueMacAddresses.map((mac) => ({ mac, motorId: 'ALL' as const }));
+            const errors = await executePowerCommands(targets, awake ? wakeMotor : sleepMotor);
+            if (errors.length > 0) {
+                powerFeedback.fail(`${errors.length} nodes failed ${action}`);
+                showCommandErrorToast({
+                    title: awake ? 'Wake all' : 'Sleep all',
+                    totalCount: targets.length,
+                    errors,
+                });
+            } else {
+                powerFeedback.succeed(awake ? 'All motors awake.' : 'All motors asleep.');
+            }
+        },
+        [powerFeedback, sleepMotor, uniqueMacAddresses, wakeMotor],
+    );
+
     const activeFeedback = useMemo(() => {
         const feedbacks = [
             calibratedHomeFeedback.feedback,
             physicalHomeFeedback.feedback,
             stagingFeedback.feedback,
             homeAllFeedback.feedback,
+            powerFeedback.feedback,
         ];
         // Show the most recently updated feedback (by timestamp)
         return feedbacks
@@ -328,6 +367,7 @@ const GlobalMoveDropdown: React.FC<GlobalMoveDropdownProps> = ({ gridSize, mirro
         physicalHomeFeedback.feedback,
         stagingFeedback.feedback,
         homeAllFeedback.feedback,
+        powerFeedback.feedback,
     ]);
 
     // Don't render if no motors are configured
@@ -426,6 +466,75 @@ const GlobalMoveDropdown: React.FC<GlobalMoveDropdownProps> = ({ gridSize, mirro
                         </svg>
                         Home all motors
                     </button>
+
+                    <div className="my-1 border-t border-gray-700" />
+
+                    <button
+                        type="button"
+                        onClick={() => void handleArrayPower(true)}
+                        disabled={powerButtonDisabled}
+                        className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs text-gray-200 transition hover:bg-gray-800 disabled:cursor-not-allowed disabled:opacity-50"
+                        title="Power up every motor driver"
+                    >
+                        <span className="size-2 rounded-full bg-amber-400" />
+                        Wake all motors
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => void handleArrayPower(false)}
+                        disabled={powerButtonDisabled}
+                        className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs text-gray-200 transition hover:bg-gray-800 disabled:cursor-not-allowed disabled:opacity-50"
+                        title="Cut holding current on every motor driver"
+                    >
+                        <span className="size-2 rounded-full bg-slate-500" />
+                        Sleep all motors
+                    </button>
+
+                    <div className="flex flex-col gap-1.5 border-t border-gray-700 px-3 pt-2 pb-1 text-xs text-gray-300">
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={policy.enabled}
+                                onChange={(event) =>
+                                    updatePolicy({ enabled: event.target.checked })
+                                }
+                                data-testid="idle-sleep-enabled"
+                            />
+                            Auto-sleep after
+                            <input
+                                type="number"
+                                min={MIN_IDLE_SLEEP_SECONDS}
+                                max={MAX_IDLE_SLEEP_SECONDS}
+                                value={idleSecondsDraft ?? String(policy.idleSeconds)}
+                                disabled={!policy.enabled}
+                                onChange={(event) => setIdleSecondsDraft(event.target.value)}
+                                onBlur={() => {
+                                    if (idleSecondsDraft !== null) {
+                                        updatePolicy({ idleSeconds: Number(idleSecondsDraft) });
+                                        setIdleSecondsDraft(null);
+                                    }
+                                }}
+                                className="w-16 rounded border border-gray-700 bg-gray-800 px-1 py-0.5 font-mono text-gray-100 disabled:opacity-50"
+                                data-testid="idle-sleep-seconds"
+                            />
+                            s idle
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={policy.preWake}
+                                onChange={(event) =>
+                                    updatePolicy({ preWake: event.target.checked })
+                                }
+                            />
+                            Wake motors before playback
+                        </label>
+                        {sleepScheduledAt !== null && (
+                            <span className="text-[10px] text-gray-500">
+                                Sleeping at {new Date(sleepScheduledAt).toLocaleTimeString()}
+                            </span>
+                        )}
+                    </div>
                 </div>
             )}
 
@@ -0,0 +1,354 @@
+import React, { useMemo, useState } from 'react';
+
+import Modal from '@/components/Modal';
+import {
+    buildLibraryBundle,
+    bundleItemKey,
+    findBundleConflicts,
+    importLibraryBundle,
+    loadLibraryContents,
+    parseLibraryBundle,
+    resolveBundleDependencies,
+    type BundleConflictResolution,
+    type LibraryBundle,
+    type LibraryContents,
+    type LibraryItemKind,
+    type LibrarySelection,
+} from '@/services/libraryBundle';
+
+interface LibraryBundleModalProps {
+    open: boolean;
+    onClose: () => void;
+}
+
+interface Feedback {
+    type: 'success' | 'error';
+    message: string;
+}
+
+const SECTIONS: Array<{
+    kind: LibraryItemKind;
+    label: string;
+    listKey: keyof LibraryContents;
+    selectionKey: keyof LibrarySelection;
+}> = [
+    { kind: 'pattern', label: 'Patterns', listKey: 'patterns', selectionKey: 'patternIds' },
+    { kind: 'sequence', label: 'Sequences', listKey: 'sequences', selectionKey: 'sequenceIds' },
+    { kind: 'animation', label: 'Animations', listKey: 'animations', selectionKey: 'animationIds' },
+];
+
+const RESOLUTION_LABELS: Record<BundleConflictResolution, string> = {
+    rename: 'Import as copy',
+    replace: 'Replace local',
+    skip: 'Skip',
+};
+
+const EMPTY_SELECTION: LibrarySelection = { patternIds: [], sequenceIds: [], animationIds: [] };
+
+const buildBundleFileName = (exportedAt: string): string =>
+    `mirror-library-${exportedAt.slice(0, 10) || 'export'}.json`;
+
+const downloadJson = (json: string, fileName: string) => {
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+const LibraryBundleForm: React.FC<{ storage: Storage | undefined }> = ({ storage }) => {
+    const [library, setLibrary] = useState(() => loadLibraryContents(storage));
+    const [selection, setSelection] = useState<LibrarySelection>(EMPTY_SELECTION);
+    const [pending, setPending] = useState<{ fileName: string; bundle: LibraryBundle } | null>(
+        null,
+    );
+    const [resolutions, setResolutions] = useState<Record<string, BundleConflictResolution>>({});
+    const [feedback, setFeedback] = useState<Feedback | null>(null);
+
+    const resolvedSelection = useMemo(
+        () => resolveBundleDependencies(library, selection),
+        [library, selection],
+    );
+    const dependencyCount = resolvedSelection.patternIds.length - selection.patternIds.length;
+    const selectedCount =
+        resolvedSelection.patternIds.length +
+        resolvedSelection.sequenceIds.length +
+        resolvedSelection.animationIds.length;
+
+    const conflicts = useMemo(
+        () => (pending ? findBundleConflicts(pending.bundle, library) : []),
+        [pending, library],
+    );
+
+    const toggleItem = (key: keyof LibrarySelection, id: string) => {
+        setSelection((prev) => ({
+            ...prev,
+            [key]: prev[key].includes(id)
+                ? prev[key].filter((entry) => entry !== id)
+                : [...prev[key], id],
+        }));
+    };
+
+    const toggleAll = (key: keyof LibrarySelection, ids: string[]) => {
+        setSelection((prev) => ({
+            ...prev,
+            [key]: prev[key].length === ids.length ? [] : ids,
+        }));
+    };
+
+    const handleExport = () => {
+        if (typeof document === 'undefined') {
+            setFeedback({ type: 'error', message: 'Export is unavailable' });
+            return;
+        }
+        try {
+            const bundle = buildLibraryBundle(library, selection);
+            downloadJson(JSON.stringify(bundle, null, 2), buildBundleFileName(bundle.exportedAt));
+            setFeedback({ type: 'success', message: `Exported ${selectedCount} items` });
+        } catch {
+            setFeedback({ type: 'error', message: 'Export failed' });
+        }
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0] ?? null;
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const { bundle, error } = parseLibraryBundle(await file.text());
+            if (!bundle) {
+                setPending(null);
+                setFeedback({ type: 'error', message: error ?? 'Import failed' });
+                return;
+            }
+            setPending({ fileName: file.name, bundle });
+            setResolutions({});
+            setFeedback(null);
+        } catch {
+            setFeedback({ type: 'error', message: 'Failed to read file' });
+        }
+    };
+
+    const handleImport = () => {
+        if (!pending) return;
+        const result = importLibraryBundle(storage, pending.bundle, resolutions);
+        setLibrary(result.library);
+        setPending(null);
+        const parts = [
+            `${result.added} added`,
+            result.renamed > 0 ? `${result.renamed} copied` : null,
+            result.replaced > 0 ? `${result.replaced} replaced` : null,
+            result.skipped > 0 ? `${result.skipped} skipped` : null,
+        ].filter(Boolean);
+        setFeedback({
+            type: 'success',
+            message: `Imported ${pending.fileName}: ${parts.join(', ')}`,
+        });
+    };
+
+    return (
+        <div className="flex flex-col gap-6 text-sm text-gray-300">
+            <section className="flex flex-col gap-3">
+                <h3 className="text-xs font-semibold tracking-wide text-gray-400 uppercase">
+                    Export
+                </h3>
+                <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+                    {SECTIONS.map(({ kind, label, listKey, selectionKey }) => {
+                        const items = library[listKey];
+                        const ids = items.map((item) => item.id);
+                        return (
+                            <div
+                                key={kind}
+                                className="flex flex-col gap-1 rounded-md border border-gray-800 p-2"
+                            >
+                                <label className="flex items-center gap-2 text-xs font-semibold text-gray-200">
+                                    <input
+                                        type="checkbox"
+                                        checked={
+                                            items.length > 0 &&
+                                            selection[selectionKey].length === items.length
+                                        }
+                                        disabled={items.length === 0}
+                                        onChange={() => toggleAll(selectionKey, ids)}
+                                    />
+                                    {label} ({items.length})
+                                </label>
+                                <div className="flex max-h-40 flex-col gap-1 overflow-y-auto pl-5">
+                                    {items.map((item) => {
+                                        const isDependency =
+                                            !selection[selectionKey].includes(item.id) &&
+                                            resolvedSelection[selectionKey].includes(item.id);
+                                        return (
+                                            <label
+                                                key={item.id}
+                                                className="flex items-center gap-2 text-xs text-gray-400"
+                                                title={
+                                                    isDependency
+                                                        ? 'Included because a selected sequence plays it'
+                                                        : undefined
+                                                }
+                                            >
+                                                <input
+                                                    type="checkbox"
+                                                    checked={resolvedSelection[
+                                                        selectionKey
+                                                    ].includes(item.id)}
+                                                    disabled={isDependency}
+                                                    onChange={() =>
+                                                        toggleItem(selectionKey, item.id)
+                                                    }
+                                                />
+                                                <span className="truncate">{item.name}</span>
+                                            </label>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+                <div className="flex items-center justify-end gap-3 text-xs">
+                    {dependencyCount > 0 && (
+                        <span className="text-gray-500">
+                            Includes {dependencyCount} pattern{dependencyCount === 1 ? '' : 's'}{' '}
+                            used by the selected sequences
+                        </span>
+                    )}
+                    <button
+                        type="button"
+                        onClick={handleExport}
+                        disabled={selectedCount === 0}
+                        className="rounded-md bg-cyan-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-cyan-500 disabled:cursor-not-allowed disabled:bg-gray-700 disabled:text-gray-400"
+                    >
+                        Export {selectedCount > 0 ? selectedCount : ''}
+                    </button>
+                </div>
+            </section>
+
+            <section className="flex flex-col gap-3 border-t border-gray-800 pt-4">
+                <h3 className="text-xs font-semibold tracking-wide text-gray-400 uppercase">
+                    Import
+                </h3>
+                <label className="w-fit cursor-pointer rounded-md border border-gray-600 px-3 py-1.5 text-xs text-gray-300 transition-colors hover:border-gray-400 hover:text-gray-100">
+                    {pending ? `Replace ${pending.fileName}` : 'Choose bundle'}
+                    <input
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={handleFileChange}
+                        className="hidden"
+                    />
+                </label>
+                {pending && (
+                    <div className="flex flex-col gap-3">
+                        <p className="text-xs text-gray-400">
+                            {pending.bundle.patterns.length} patterns ·{' '}
+                            {pending.bundle.sequences.length} sequences ·{' '}
+                            {pending.bundle.animations.length} animations
+                        </p>
+                        {conflicts.length > 0 && (
+                            <div className="flex flex-col gap-2">
+                                <p className="text-xs text-amber-300">
+                                    {conflicts.length} item{conflicts.length === 1 ? '' : 's'}{' '}
+                                    already exist locally:
+                                </p>
+                                <ul className="flex max-h-48 flex-col gap-1 overflow-y-auto">
+                                    {conflicts.map((conflict) => {
+                                        const key = bundleItemKey(conflict.kind, conflict.id);
+                                        return (
+                                            <li
+                                                key={key}
+                                                className="flex items-center justify-between gap-3 rounded border border-gray-800 px-2 py-1 text-xs"
+                                            >
+                                                <span className="min-w-0 truncate">
+                                                    <span className="text-gray-500 capitalize">
+                                                        {conflict.kind}
+                                                    </span>{' '}
+                                                    {conflict.name}
+                                                    {conflict.existingName !== conflict.name && (
+                                                        <span className="text-gray-500">
+                                                            {' '}
+                                                            (local: {conflict.existingName})
+                                                        </span>
+                                                    )}
+                                                </span>
+                                                <select
+                                                    value={resolutions[key] ?? 'rename'}
+                                                    onChange={(e) =>
+                                                        setResolutions((prev) => ({
+                                                            ...prev,
+                                                            [key]: e.target
+                                                                .value as BundleConflictResolution,
+                                                        }))
+                                                    }
+                                                    className="rounded-md border border-gray-700 bg-gray-800 px-2 py-1 text-xs text-gray-200 focus:border-cyan-500 focus:outline-none"
+                                                >
+                                                    {(
+                                                        Object.keys(
+                                                            RESOLUTION_LABELS,
+                                                        ) as BundleConflictResolution[]
+                                                    ).map((resolution) => (
+                                                        <option key={resolution} value={resolution}>
+                                                            {RESOLUTION_LABELS[resolution]}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            </div>
+                        )}
+                        <div className="flex justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={() => setPending(null)}
+                                className="rounded-md border border-gray-600 px-3 py-1.5 text-sm font-medium text-gray-300 hover:border-gray-500 hover:text-white"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleImport}
+                                className="rounded-md bg-cyan-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-cyan-500"
+                            >
+                                Import
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </section>
+
+            {feedback && (
+                <div
+                    className={`rounded-md border px-3 py-2 text-xs ${
+                        feedback.type === 'success'
+                            ? 'border-emerald-500/50 bg-emerald-500/5 text-emerald-200'
+                            : 'border-rose-500/50 bg-rose-500/5 text-rose-200'
+                    }`}
+                >
+                    {feedback.message}
+                </div>
+            )}
+        </div>
+    );
+};
+
+/** Export and import patterns, sequences and animations as a bundle file. */
+const LibraryBundleModal: React.FC<LibraryBundleModalProps> = ({ open, onClose }) => {
+    const storage = useMemo(
+        () => (typeof window !== 'undefined' ? window.localStorage : undefined),
+        [],
+    );
+    return (
+        <Modal open={open} onClose={onClose} title="Library Bundles" contentClassName="max-w-3xl">
+            {/* Mounted only while open so the lists reflect the current library */}
+            {open ? <LibraryBundleForm storage={storage} /> : null}
+        </Modal>
+    );
+};
+
+export default LibraryBundleModal;
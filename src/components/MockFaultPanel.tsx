@@ -0,0 +1,223 @@
+import React, { useState, useSyncExternalStore } from 'react';
+
+import {
+    DEFAULT_FAULT_DELAY_MS,
+    DEFAULT_FAULT_DRIFT_STEPS,
+    describeFaultTarget,
+    MOCK_FAULT_DESCRIPTIONS,
+    MOCK_FAULT_KINDS,
+    MOCK_FAULT_LABELS,
+    PER_COMMAND_FAULT_KINDS,
+    type MockFaultKind,
+} from '../services/mockFaults';
+
+import type { MockMqttTransport } from '../services/mockTransport';
+
+interface MockFaultPanelProps {
+    transport: MockMqttTransport;
+}
+
+const inputClass =
+    'rounded border border-gray-700 bg-gray-900 px-2 py-1 text-xs focus:border-emerald-500 focus:outline-none';
+
+const parseOptionalCount = (value: string): number | null => {
+    const parsed = Number.parseInt(value, 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const MockFaultPanel: React.FC<MockFaultPanelProps> = ({ transport }) => {
+    const faults = useSyncExternalStore(transport.subscribeFaults, transport.getFaults);
+    const nodes = transport.describeNodes();
+
+    const [kind, setKind] = useState<MockFaultKind>('drop-ack');
+    const [selectedMac, setSelectedMac] = useState<string | null>(null);
+    const [motor, setMotor] = useState('all');
+    const [count, setCount] = useState('');
+    const [delayMs, setDelayMs] = useState(String(DEFAULT_FAULT_DELAY_MS));
+    const [driftSteps, setDriftSteps] = useState(String(DEFAULT_FAULT_DRIFT_STEPS));
+
+    const mac = selectedMac ?? nodes[0]?.mac ?? null;
+    const node = nodes.find((entry) => entry.mac === mac) ?? null;
+    const perCommand = PER_COMMAND_FAULT_KINDS.has(kind);
+
+    const handleInject = () => {
+        if (!mac) {
+            return;
+        }
+        transport.injectFault({
+            kind,
+            mac,
+            motorId: motor === 'all' ? null : Number(motor),
+            count: parseOptionalCount(count),
+            delayMs: Number(delayMs) || DEFAULT_FAULT_DELAY_MS,
+            driftSteps: Number(driftSteps) || DEFAULT_FAULT_DRIFT_STEPS,
+        });
+    };
+
+    return (
+        <div className="flex flex-col gap-3 text-sm text-gray-300" data-testid="mock-fault-panel">
+            <div className="flex flex-wrap items-center gap-3">
+                <span className="text-base font-semibold text-gray-100">Fault injection</span>
+                <span className="text-xs text-gray-500">
+                    Simulated firmware misbehaviour for testing timeouts and recovery.
+                </span>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-3 text-xs">
+                <label className="flex flex-col gap-1">
+                    <span className="text-gray-400">Fault</span>
+                    <select
+                        value={kind}
+                        onChange={(event) => setKind(event.target.value as MockFaultKind)}
+                        className={inputClass}
+                        data-testid="mock-fault-kind"
+                    >
+                        {MOCK_FAULT_KINDS.map((entry) => (
+                            <option key={entry} value={entry}>
+                                {MOCK_FAULT_LABELS[entry]}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                    <span className="text-gray-400">Node</span>
+                    <select
+                        value={mac ?? ''}
+                        onChange={(event) => {
+                            setSelectedMac(event.target.value);
+                            setMotor('all');
+                        }}
+                        className={`${inputClass} font-mono`}
+                    >
+                        {nodes.map((entry) => (
+                            <option key={entry.mac} value={entry.mac}>
+                                {entry.mac}
+                                {entry.online ? '' : ' (offline)'}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                {kind !== 'offline' && (
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-400">Motor</span>
+                        <select
+                            value={motor}
+                            onChange={(event) => setMotor(event.target.value)}
+                            className={inputClass}
+                        >
+                            <option value="all">All motors</option>
+                            {node?.motorIds.map((id) => (
+                                <option key={id} value={String(id)}>
+                                    Motor {id}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                {perCommand && (
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-400">Times (blank = until cleared)</span>
+                        <input
+                            type="number"
+                            min={1}
+                            value={count}
+                            onChange={(event) => setCount(event.target.value)}
+                            className={`${inputClass} w-24`}
+                        />
+                    </label>
+                )}
+                {kind === 'delay-completion' && (
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-400">Extra delay (ms)</span>
+                        <input
+                            type="number"
+                            min={0}
+                            value={delayMs}
+                            onChange={(event) => setDelayMs(event.target.value)}
+                            className={`${inputClass} w-28`}
+                        />
+                    </label>
+                )}
+                {kind === 'position-drift' && (
+                    <label className="flex flex-col gap-1">
+                        <span className="text-gray-400">Max steps / s</span>
+                        <input
+                            type="number"
+                            min={1}
+                            value={driftSteps}
+                            onChange={(event) => setDriftSteps(event.target.value)}
+                            className={`${inputClass} w-24`}
+                        />
+                    </label>
+                )}
+                <button
+                    type="button"
+                    onClick={handleInject}
+                    disabled={!mac}
+                    className="rounded-md bg-amber-500 px-3 py-1 font-semibold text-gray-900 transition-colors hover:bg-amber-400 disabled:opacity-50"
+                    data-testid="mock-fault-inject"
+                >
+                    Inject
+                </button>
+            </div>
+            <p className="text-xs text-gray-500">{MOCK_FAULT_DESCRIPTIONS[kind]}</p>
+
+            {faults.length > 0 ? (
+                <div className="flex flex-col gap-2">
+                    <ul className="flex flex-col gap-1 text-xs" data-testid="mock-fault-list">
+                        {faults.map((fault) => (
+                            <li
+                                key={fault.id}
+                                className="flex items-center justify-between gap-3 rounded border border-amber-900/60 bg-amber-950/30 px-3 py-1"
+                            >
+                                <span>
+                                    <span className="font-semibold text-amber-200">
+                                        {MOCK_FAULT_LABELS[fault.kind]}
+                                    </span>
+                                    <span className="ml-2 font-mono text-gray-300">
+                                        {describeFaultTarget(fault)}
+                                    </span>
+                                    {fault.remaining !== null && (
+                                        <span className="ml-2 text-gray-500">
+                                            {fault.remaining} left
+                                        </span>
+                                    )}
+                                    {fault.kind === 'delay-completion' && (
+                                        <span className="ml-2 text-gray-500">
+                                            +{fault.delayMs} ms
+                                        </span>
+                                    )}
+                                    {fault.kind === 'position-drift' && (
+                                        <span className="ml-2 text-gray-500">
+                                            ±{fault.driftSteps} steps/s
+                                        </span>
+                                    )}
+                                </span>
+                                <button
+                                    type="button"
+                                    onClick={() => transport.clearFault(fault.id)}
+                                    className="text-gray-400 transition-colors hover:text-gray-100"
+                                >
+                                    Clear
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="flex justify-end">
+                        <button
+                            type="button"
+                            onClick={() => transport.clearAllFaults()}
+                            className="rounded-md border border-gray-600 px-2 py-1 text-xs text-gray-300 transition-colors hover:border-gray-400 hover:text-gray-100"
+                        >
+                            Clear all faults
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <p className="text-xs text-gray-500">No faults active.</p>
+            )}
+        </div>
+    );
+};
+
+export default MockFaultPanel;
@@ -0,0 +1,345 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+import CalibrationPreview from '@/components/calibration/CalibrationPreview';
+import Modal from '@/components/Modal';
+import { DEFAULT_CALIBRATION_RUNNER_SETTINGS } from '@/constants/calibration';
+import { useCalibrationSettingsController } from '@/hooks/useCalibrationSettingsController';
+import { useCameraPipeline } from '@/hooks/useCameraPipeline';
+import { useDetectionSettingsController } from '@/hooks/useDetectionSettingsController';
+import { useMotorCommands } from '@/hooks/useMotorCommands';
+import {
+    buildAssignmentProposal,
+    findMovedBlob,
+    type BlobPoint,
+    type MotorAssignmentProposal,
+    type MotorJogObservation,
+} from '@/services/motorAutoAssignment';
+import type { MirrorConfig, Motor } from '@/types';
+import { centeredToView } from '@/utils/coordinates';
+
+interface MotorAssignmentWizardModalProps {
+    open: boolean;
+    onClose: () => void;
+    gridSize: { rows: number; cols: number };
+    /** Motors to probe, normally every motor on an online node */
+    motors: Motor[];
+    onApply: (config: MirrorConfig) => void;
+}
+
+type WizardPhase = 'idle' | 'running' | 'review';
+
+/** Smallest centered-coordinate movement treated as the jogged reflection */
+const MIN_BLOB_MOVEMENT = 0.02;
+/** Search radius around the coarse position when re-measuring the moved blob */
+const REFINE_MAX_DISTANCE = 0.05;
+
+const formatMotor = (motor: Motor) =>
+    `${motor.nodeMac.slice(-5).toUpperCase()} · M${motor.motorIndex}`;
+
+const MotorAssignmentWizard: React.FC<Omit<MotorAssignmentWizardModalProps, 'open'>> = ({
+    onClose,
+    gridSize,
+    motors,
+    onApply,
+}) => {
+    const {
+        detectionSettingsLoaded,
+        selectedDeviceId,
+        brightness,
+        contrast,
+        rotationDegrees,
+        claheClipLimit,
+        claheTileGridSize,
+        roi,
+        setRoi,
+        blobParams,
+        useWasmDetector,
+        resolvedResolution,
+        handleNativeDetectorAvailability,
+        setLastCaptureDimensions,
+    } = useDetectionSettingsController();
+    const { arrayRotation, deltaSteps } = useCalibrationSettingsController();
+    const { moveMotor } = useMotorCommands();
+
+    const {
+        previewMode,
+        setPreviewMode,
+        roiViewEnabled,
+        toggleRoiView,
+        roiEditingMode,
+        videoDimensions,
+        opencvStatus,
+        opencvError,
+        detectionReady,
+        detectedBlobCount,
+        captureBlobMeasurement,
+        captureBlobPositions,
+        previewRefs,
+        overlayHandlers,
+        resetRoi,
+        blobsOverlayEnabled,
+        setBlobsOverlayEnabled,
+    } = useCameraPipeline({
+        detectionSettingsLoaded,
+        selectedDeviceId,
+        resolvedResolution,
+        brightness,
+        contrast,
+        rotationDegrees,
+        claheClipLimit,
+        claheTileGridSize,
+        roi,
+        setRoi,
+        blobParams,
+        useWasmDetector,
+        onNativeDetectorAvailability: handleNativeDetectorAvailability,
+        onVideoDimensionsChange: setLastCaptureDimensions,
+    });
+
+    const [jogSteps, setJogSteps] = useState(deltaSteps);
+    const [phase, setPhase] = useState<WizardPhase>('idle');
+    const [progress, setProgress] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [proposal, setProposal] = useState<MotorAssignmentProposal | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const runWizard = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const { signal } = controller;
+        const timeoutMs = DEFAULT_CALIBRATION_RUNNER_SETTINGS.sampleTimeoutMs;
+        const moveTo = (motor: Motor, positionSteps: number) =>
+            moveMotor({ mac: motor.nodeMac, motorId: motor.motorIndex, positionSteps });
+
+        setPhase('running');
+        setError(null);
+        setProposal(null);
+        // Motor currently away from home, returned there if the run stops early
+        let jogged: Motor | null = null;
+        try {
+            setProgress('Moving every motor home…');
+            await Promise.all(motors.map((motor) => moveTo(motor, 0)));
+            setProgress('Surveying reflections…');
+            const survey = await captureBlobPositions({ timeoutMs, signal });
+            if (!survey || survey.length === 0) {
+                throw new Error('No reflections detected with every motor at home');
+            }
+
+            const observations: MotorJogObservation[] = [];
+            for (const [index, motor] of motors.entries()) {
+                if (signal.aborted) {
+                    throw new Error('Wizard cancelled');
+                }
+                setProgress(`Jogging ${formatMotor(motor)} (${index + 1}/${motors.length})…`);
+                jogged = motor;
+                await moveTo(motor, jogSteps);
+                const after = await captureBlobPositions({ timeoutMs, signal });
+                const moved = after ? findMovedBlob(survey, after, MIN_BLOB_MOVEMENT) : null;
+                let to: BlobPoint | null = moved?.to ?? null;
+                if (to) {
+                    // Re-measure over several frames for a stable displacement
+                    const measurement = await captureBlobMeasurement({
+                        timeoutMs,
+                        signal,
+                        expectedPosition: { x: centeredToView(to.x), y: centeredToView(to.y) },
+                        maxDistance: REFINE_MAX_DISTANCE,
+                    });
+                    if (measurement) {
+                        to = { x: measurement.x, y: measurement.y };
+                    }
+                }
+                observations.push({ motor, from: moved?.from ?? null, to });
+                await moveTo(motor, 0);
+                jogged = null;
+            }
+
+            setProposal(buildAssignmentProposal({ survey, observations, gridSize, arrayRotation }));
+            setPhase('review');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Wizard failed');
+        } finally {
+            const stranded: Motor | null = jogged;
+            if (stranded) {
+                setProgress(`Returning ${formatMotor(stranded)} home…`);
+                await moveTo(stranded, 0).catch(() => {
+                    setError((prev) =>
+                        [prev, `Could not return ${formatMotor(stranded)} home`]
+                            .filter(Boolean)
+                            .join('. '),
+                    );
+                });
+            }
+            abortRef.current = null;
+            setProgress(null);
+            setPhase((current) => (current === 'running' ? 'idle' : current));
+        }
+    };
+
+    const reversedCount = proposal?.entries.filter((entry) => entry.polarity === 'reversed').length;
+
+    return (
+        <div className="flex flex-col gap-4 text-sm text-gray-300">
+            <p className="text-xs text-gray-400">
+                Every motor is moved home, then jogged by {jogSteps} steps one at a time while the
+                calibration camera watches which reflection moves. Uses the camera and detection
+                settings from the Calibration page at {arrayRotation}° array rotation.
+            </p>
+            <CalibrationPreview
+                previewMode={previewMode}
+                onPreviewModeChange={setPreviewMode}
+                roi={roi}
+                roiViewEnabled={roiViewEnabled}
+                onToggleRoiView={toggleRoiView}
+                onResetRoi={resetRoi}
+                previewRefs={previewRefs}
+                overlayHandlers={overlayHandlers}
+                rotationDegrees={rotationDegrees}
+                rotationOverlayVisible={false}
+                roiEditingMode={roiEditingMode}
+                opencvStatus={opencvStatus}
+                opencvError={opencvError}
+                videoDimensions={videoDimensions}
+                blobsOverlayEnabled={blobsOverlayEnabled}
+                onToggleBlobsOverlay={() => setBlobsOverlayEnabled(!blobsOverlayEnabled)}
+                alignmentOverlayEnabled={false}
+                alignmentOverlayAvailable={false}
+                onToggleAlignmentOverlay={() => {}}
+                tileBoundsOverlayEnabled={false}
+                tileBoundsOverlayAvailable={false}
+                onToggleTileBoundsOverlay={() => {}}
+            />
+
+            <div className="flex flex-wrap items-end gap-3 text-xs">
+                <label className="flex flex-col gap-1 text-gray-400">
+                    Jog steps
+                    <input
+                        type="number"
+                        min={50}
+                        max={4000}
+                        step={50}
+                        value={jogSteps}
+                        disabled={phase === 'running'}
+                        onChange={(e) => {
+                            const value = Number(e.target.value);
+                            if (Number.isFinite(value) && value > 0) {
+                                setJogSteps(Math.round(value));
+                            }
+                        }}
+                        className="w-24 rounded border border-gray-700 bg-gray-800 px-2 py-1 text-xs text-gray-200 focus:border-cyan-500 focus:outline-none"
+                    />
+                </label>
+                <span className="text-gray-500">
+                    {motors.length} motors · {detectedBlobCount} blobs in view
+                </span>
+                <span className="ml-auto flex gap-2">
+                    {phase === 'running' ? (
+                        <button
+                            type="button"
+                            onClick={() => abortRef.current?.abort()}
+                            className="rounded-md border border-gray-600 px-3 py-1.5 text-sm font-medium text-gray-300 hover:border-gray-500 hover:text-white"
+                        >
+                            Stop
+                        </button>
+                    ) : (
+                        <button
+                            type="button"
+                            onClick={() => void runWizard()}
+                            disabled={!detectionReady || motors.length === 0}
+                            className="rounded-md bg-cyan-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-cyan-500 disabled:cursor-not-allowed disabled:bg-gray-700 disabled:text-gray-400"
+                        >
+                            {phase === 'review' ? 'Run again' : 'Start'}
+                        </button>
+                    )}
+                </span>
+            </div>
+
+            {progress && <p className="text-xs text-cyan-200">{progress}</p>}
+            {error && (
+                <div className="rounded-md border border-rose-500/50 bg-rose-500/5 px-3 py-2 text-xs text-rose-200">
+                    {error}
+                </div>
+            )}
+
+            {phase === 'review' && proposal && (
+                <section className="flex flex-col gap-3 border-t border-gray-800 pt-4">
+                    <h3 className="text-xs font-semibold tracking-wide text-gray-400 uppercase">
+                        Proposed assignment
+                    </h3>
+                    <ul className="flex max-h-56 flex-col gap-1 overflow-y-auto text-xs">
+                        {proposal.entries.map((entry) => (
+                            <li
+                                key={`${entry.motor.nodeMac}-${entry.motor.motorIndex}`}
+                                className="flex items-center justify-between gap-3 rounded border border-gray-800 px-2 py-1"
+                            >
+                                <span className="font-mono text-gray-200">
+                                    {formatMotor(entry.motor)}
+                                </span>
+                                <span className="flex items-center gap-2">
+                                    [{entry.position.row},{entry.position.col}]{' '}
+                                    {entry.axis.toUpperCase()}
+                                    {entry.polarity === 'reversed' && (
+                                        <span className="rounded bg-amber-500/20 px-1.5 text-amber-200">
+                                            reversed
+                                        </span>
+                                    )}
+                                </span>
+                            </li>
+                        ))}
+                        {proposal.unresolved.map(({ motor, reason }) => (
+                            <li
+                                key={`${motor.nodeMac}-${motor.motorIndex}`}
+                                className="flex items-center justify-between gap-3 rounded border border-gray-800 px-2 py-1 text-gray-500"
+                            >
+                                <span className="font-mono">{formatMotor(motor)}</span>
+                                <span>{reason}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    {reversedCount ? (
+                        <p className="text-xs text-amber-300">
+                            {reversedCount} motor{reversedCount === 1 ? '' : 's'} moved against the
+                            calibration jog direction. Check the wiring or array rotation before
+                            calibrating.
+                        </p>
+                    ) : null}
+                    <div className="flex justify-end gap-3">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="rounded-md border border-gray-600 px-3 py-1.5 text-sm font-medium text-gray-300 hover:border-gray-500 hover:text-white"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => {
+                                onApply(proposal.config);
+                                onClose();
+                            }}
+                            disabled={proposal.entries.length === 0}
+                            className="rounded-md bg-cyan-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-cyan-500 disabled:cursor-not-allowed disabled:bg-gray-700 disabled:text-gray-400"
+                        >
+                            Replace assignments
+                        </button>
+                    </div>
+                </section>
+            )}
+        </div>
+    );
+};
+
+/** Camera-assisted wizard that proposes a motor-to-tile assignment. */
+const MotorAssignmentWizardModal: React.FC<MotorAssignmentWizardModalProps> = ({
+    open,
+    onClose,
+    ...rest
+}) => (
+    <Modal open={open} onClose={onClose} title="Auto-Assign Motors" contentClassName="max-w-4xl">
+        {/* Mounted only while open so the camera runs just for the wizard */}
+        {open ? <MotorAssignmentWizard onClose={onClose} {...rest} /> : null}
+    </Modal>
+);
+
+export default MotorAssignmentWizardModal;
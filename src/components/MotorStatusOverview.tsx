@@ -1,12 +1,14 @@
 import React, { useMemo, useState } from 'react';
 
 import { STEPS_SINCE_HOME_CRITICAL, STEPS_SINCE_HOME_WARNING } from '../constants/control';
-import { useCommandFeedback } from '../hooks/useCommandFeedback';
+import { useCommandFeedback, type CommandFeedback } from '../hooks/useCommandFeedback';
 import { useMotorCommands } from '../hooks/useMotorCommands';
 import { useMotorController } from '../hooks/useMotorController';
+import { executePowerCommands, type PowerCommandTarget } from '../services/motorPower';
 import { normalizeCommandError } from '../utils/commandErrors';
 import { convertStepsToDegrees } from '../utils/motorSteps';
 
+import { showCommandErrorToast } from './common/StyledToast';
 import MotorActionButtons from './MotorActionButtons';
 
 import type { DriverPresence, DriverView } from '../context/StatusContext';
@@ -42,6 +44,58 @@ interface SelectedMotorState {
     motor: Motor;
 }
 
+const POWER_BUTTON_CLASS =
+    'rounded-md border border-gray-600 px-2 py-0.5 text-[11px] text-gray-300 transition-colors hover:border-gray-400 hover:text-gray-100 disabled:cursor-not-allowed disabled:opacity-50';
+
+const FeedbackText: React.FC<{ feedback: CommandFeedback }> = ({ feedback }) =>
+    feedback.state !== 'idle' && feedback.message ? (
+        <span
+            className={`text-xs ${
+                feedback.state === 'error'
+                    ? 'text-red-200'
+                    : feedback.state === 'pending'
+                      ? 'text-sky-200'
+                      : 'text-emerald-200'
+            }`}
+        >
+            {feedback.message}
+            {feedback.code && (
+                <span className="ml-1 text-[10px] text-gray-400">({feedback.code})</span>
+            )}
+        </span>
+    ) : null;
+
+/**
+ * Send WAKE or SLEEP to the given targets with shared feedback/toast handling.
+ */
+const usePowerCommand = () => {
+    const { wakeMotor, sleepMotor } = useMotorCommands();
+    const powerFeedback = useCommandFeedback();
+    const { begin, succeed, fail } = powerFeedback;
+
+    const sendPower = async (targets: PowerCommandTarget[], awake: boolean, label: string) => {
+        if (targets.length === 0) {
+            fail('No drivers available');
+            return;
+        }
+        const action = awake ? 'WAKE' : 'SLEEP';
+        begin(`${awake ? 'Waking' : 'Sleeping'} ${label}…`);
+        const failures = await executePowerCommands(targets, awake ? wakeMotor : sleepMotor);
+        if (failures.length > 0) {
+            fail(`${failures.length}/${targets.length} ${action} failed`, failures[0].errorCode);
+            showCommandErrorToast({
+                title: `${action} ${label}`,
+                totalCount: targets.length,
+                errors: failures,
+            });
+            return;
+        }
+        succeed(`${label} ${awake ? 'awake' : 'asleep'}`);
+    };
+
+    return { sendPower, feedback: powerFeedback.feedback };
+};
+
 const SelectedMotorPanel: React.FC<{
     selection: SelectedMotorState;
     telemetry?: MotorTelemetry;
@@ -49,6 +103,12 @@ const SelectedMotorPanel: React.FC<{
     onClear: () => void;
 }> = ({ selection, telemetry, indicator, onClear }) => {
     const controller = useMotorController(selection.motor, telemetry);
+    const { sendPower, feedback: powerFeedback } = usePowerCommand();
+    const powerTarget: PowerCommandTarget = {
+        mac: selection.motor.nodeMac,
+        motorId: selection.motor.motorIndex,
+    };
+    const powerPending = powerFeedback.state === 'pending';
     const positionSteps = typeof telemetry?.position === 'number' ? telemetry.position : null;
     const inferredAngleDeg = positionSteps === null ? null : convertStepsToDegrees(positionSteps);
     const axisLabel = selection.axis === 'x' ? 'Yaw' : 'Pitch';
@@ -117,6 +177,37 @@ const SelectedMotorPanel: React.FC<{
                     controller={controller}
                     dataTestIdPrefix={`overview-${selection.key}`}
                 />
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                    <span>
+                        Driver:{' '}
+                        <span className="text-gray-200">
+                            {telemetry?.awake === undefined
+                                ? 'Unknown'
+                                : telemetry.awake
+                                  ? 'Awake'
+                                  : 'Asleep'}
+                        </span>
+                    </span>
+                    <button
+                        type="button"
+                        onClick={() => void sendPower([powerTarget], true, 'motor')}
+                        disabled={powerPending}
+                        className={POWER_BUTTON_CLASS}
+                        data-testid={`overview-${selection.key}-wake`}
+                    >
+                        Wake
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => void sendPower([powerTarget], false, 'motor')}
+                        disabled={powerPending}
+                        className={POWER_BUTTON_CLASS}
+                        data-testid={`overview-${selection.key}-sleep`}
+                    >
+                        Sleep
+                    </button>
+                    <FeedbackText feedback={powerFeedback} />
+                </div>
             </div>
         </div>
     );
@@ -170,6 +261,26 @@ const MotorStatusOverview: React.FC<MotorStatusOverviewProps> = ({
 }) => {
     const { homeAll } = useMotorCommands();
     const homeFeedback = useCommandFeedback();
+    const { sendPower, feedback: powerFeedback } = usePowerCommand();
+    const powerPending = powerFeedback.state === 'pending';
+
+    const nodePower = useMemo(
+        () =>
+            drivers.map((driver) => {
+                const motors = Object.values(driver.snapshot.motors);
+                return {
+                    mac: driver.snapshot.topicMac,
+                    presence: driver.presence,
+                    total: motors.length,
+                    awake: motors.filter((motor) => motor.awake).length,
+                };
+            }),
+        [drivers],
+    );
+    const allNodeTargets = nodePower.map<PowerCommandTarget>((node) => ({
+        mac: node.mac,
+        motorId: 'ALL',
+    }));
 
     const motorStatus = useMemo(() => {
         const map = new Map<
@@ -255,6 +366,9 @@ const MotorStatusOverview: React.FC<MotorStatusOverviewProps> = ({
                     if (status?.telemetry?.homed === false) {
                         statusNotes.push('Not homed');
                     }
+                    if (status?.telemetry?.awake === false) {
+                        statusNotes.push('Asleep');
+                    }
                     const label = statusNotes.join(' • ');
                     const homingRingClass = resolveHomingRingClass(status?.telemetry);
                     return {
@@ -307,24 +421,26 @@ const MotorStatusOverview: React.FC<MotorStatusOverviewProps> = ({
                     >
                         Home All
                     </button>
-                    {homeFeedback.feedback.state !== 'idle' && homeFeedback.feedback.message && (
-                        <span
-                            className={`text-xs ${
-                                homeFeedback.feedback.state === 'error'
-                                    ? 'text-red-200'
-                                    : homeFeedback.feedback.state === 'pending'
-                                      ? 'text-sky-200'
-                                      : 'text-emerald-200'
-                            }`}
-                        >
-                            {homeFeedback.feedback.message}
-                            {homeFeedback.feedback.code && (
-                                <span className="ml-1 text-[10px] text-gray-400">
-                                    ({homeFeedback.feedback.code})
-                                </span>
-                            )}
-                        </span>
-                    )}
+                    <FeedbackText feedback={homeFeedback.feedback} />
+                    <button
+                        type="button"
+                        onClick={() => void sendPower(allNodeTargets, true, 'all motors')}
+                        disabled={powerPending}
+                        className={POWER_BUTTON_CLASS}
+                        data-testid="overview-wake-all"
+                    >
+                        Wake All
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => void sendPower(allNodeTargets, false, 'all motors')}
+                        disabled={powerPending}
+                        className={POWER_BUTTON_CLASS}
+                        data-testid="overview-sleep-all"
+                    >
+                        Sleep All
+                    </button>
+                    <FeedbackText feedback={powerFeedback} />
                 </div>
                 <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
                     <span className="flex items-center gap-1">
@@ -401,6 +517,52 @@ const MotorStatusOverview: React.FC<MotorStatusOverviewProps> = ({
                     </div>
                 ))}
             </div>
+            {nodePower.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-2 text-xs text-gray-400">
+                    {nodePower.map((node) => (
+                        <div
+                            key={node.mac}
+                            className="flex items-center gap-2 rounded-md border border-gray-700 bg-gray-900/60 px-2 py-1"
+                            data-testid={`overview-node-${node.mac}`}
+                        >
+                            <span className="font-mono text-gray-300">
+                                {node.mac.toUpperCase()}
+                            </span>
+                            <span title="Awake motors">
+                                {node.awake}/{node.total} awake
+                            </span>
+                            <button
+                                type="button"
+                                onClick={() =>
+                                    void sendPower(
+                                        [{ mac: node.mac, motorId: 'ALL' }],
+                                        true,
+                                        node.mac.toUpperCase(),
+                                    )
+                                }
+                                disabled={powerPending || node.presence === 'offline'}
+                                className={POWER_BUTTON_CLASS}
+                            >
+                                Wake
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() =>
+                                    void sendPower(
+                                        [{ mac: node.mac, motorId: 'ALL' }],
+                                        false,
+                                        node.mac.toUpperCase(),
+                                    )
+                                }
+                                disabled={powerPending || node.presence === 'offline'}
+                                className={POWER_BUTTON_CLASS}
+                            >
+                                Sleep
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
             {selectedMotor && (
                 <SelectedMotorPanel
                     selection={selectedMotor}
@@ -0,0 +1,335 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { useStatusStore } from '../context/StatusContext';
+import { useCommandFeedback } from '../hooks/useCommandFeedback';
+import { useMotorCommands } from '../hooks/useMotorCommands';
+import {
+    configMessageToValues,
+    diffNodeConfigValues,
+    getMicrostepChangeBlocker,
+    MICROSTEP_MODES,
+    NODE_CONFIG_FIELD_LABELS,
+    validateNodeConfigValue,
+    type NodeConfigField,
+    type NodeConfigReport,
+    type NodeConfigValues,
+} from '../services/nodeConfig';
+import { extractCommandErrorDetail } from '../utils/commandErrors';
+
+import { showSingleCommandErrorToast } from './common/StyledToast';
+
+interface NodeConfigPanelProps {
+    /** Topic MAC of the node (as used in `devices/<mac>/...`). */
+    mac: string;
+}
+
+type DraftValues = Record<NodeConfigField, string>;
+
+const NUMERIC_FIELDS = ['SPEED', 'ACCEL', 'DECEL'] as const;
+
+const toDraft = (values: Partial<NodeConfigValues>): DraftValues => ({
+    SPEED: values.SPEED !== undefined ? String(values.SPEED) : '',
+    ACCEL: values.ACCEL !== undefined ? String(values.ACCEL) : '',
+    DECEL: values.DECEL !== undefined ? String(values.DECEL) : '',
+    THERMAL_LIMITING: values.THERMAL_LIMITING ?? '',
+    MICROSTEP: values.MICROSTEP ?? '',
+});
+
+const fromDraft = (draft: DraftValues): Partial<NodeConfigValues> => {
+    const values: Partial<NodeConfigValues> = {};
+    for (const field of NUMERIC_FIELDS) {
+        const raw = draft[field].trim();
+        if (raw.length > 0) {
+            values[field] = Number(raw);
+        }
+    }
+    if (draft.THERMAL_LIMITING === 'ON' || draft.THERMAL_LIMITING === 'OFF') {
+        values.THERMAL_LIMITING = draft.THERMAL_LIMITING;
+    }
+    const microstep = MICROSTEP_MODES.find((mode) => mode === draft.MICROSTEP);
+    if (microstep) {
+        values.MICROSTEP = microstep;
+    }
+    return values;
+};
+
+const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ mac }) => {
+    const { drivers } = useStatusStore();
+    const { getNodeConfig, setNodeConfig } = useMotorCommands();
+    const refreshFeedback = useCommandFeedback({ successAutoResetMs: 0 });
+    const applyFeedback = useCommandFeedback();
+
+    const driver = useMemo(
+        () => drivers.find((entry) => entry.topicMac === mac) ?? null,
+        [drivers, mac],
+    );
+    const [report, setReport] = useState<NodeConfigReport | null>(null);
+
+    // Retained config topic wins over the GET snapshot since it is republished on every SET
+    const liveConfig = driver?.config ?? null;
+    const currentValues = useMemo<Partial<NodeConfigValues>>(() => {
+        if (liveConfig) {
+            return configMessageToValues(liveConfig);
+        }
+        return report?.values ?? {};
+    }, [liveConfig, report]);
+
+    // Only user-edited fields are held locally so untouched fields track live config updates
+    const [edits, setEdits] = useState<Partial<DraftValues>>({});
+    const draft: DraftValues = { ...toDraft(currentValues), ...edits };
+    const isDirty = Object.keys(edits).length > 0;
+
+    const motors = useMemo(() => Object.values(driver?.snapshot.motors ?? {}), [driver]);
+    const microstepBlocker = getMicrostepChangeBlocker(motors);
+
+    const { begin: beginRefresh, reset: resetRefresh, fail: failRefresh } = refreshFeedback;
+
+    const refresh = useCallback(async () => {
+        beginRefresh('Reading configuration…');
+        try {
+            const next = await getNodeConfig({ mac });
+            setReport(next);
+            resetRefresh();
+        } catch (error) {
+            const details = extractCommandErrorDetail(error, { controller: mac });
+            failRefresh(details.errorMessage ?? 'GET failed', details.errorCode);
+        }
+    }, [beginRefresh, failRefresh, getNodeConfig, mac, resetRefresh]);
+
+    useEffect(() => {
+        let cancelled = false;
+        getNodeConfig({ mac })
+            .then((next) => {
+                if (!cancelled) {
+                    setReport(next);
+                }
+            })
+            .catch((error) => {
+                if (!cancelled) {
+                    const details = extractCommandErrorDetail(error, { controller: mac });
+                    failRefresh(details.errorMessage ?? 'GET failed', details.errorCode);
+                }
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [failRefresh, getNodeConfig, mac]);
+
+    const draftValues = fromDraft(draft);
+    const changedFields = diffNodeConfigValues(currentValues, draftValues);
+    const validationErrors = changedFields
+        .map((field) => validateNodeConfigValue(field, draftValues[field]))
+        .filter((message): message is string => message !== null);
+    const microstepChangeBlocked = changedFields.includes('MICROSTEP') && microstepBlocker;
+
+    const updateDraft = (field: NodeConfigField, value: string) => {
+        setEdits((prev) => ({ ...prev, [field]: value }));
+    };
+
+    const handleApply = async () => {
+        if (changedFields.length === 0 || validationErrors.length > 0) {
+            return;
+        }
+        if (microstepChangeBlocked) {
+            applyFeedback.fail(microstepBlocker);
+            return;
+        }
+        // SET accepts a single field per request, so apply changes one at a time
+        for (const field of changedFields) {
+            applyFeedback.begin(`Setting ${field}…`);
+            try {
+                await setNodeConfig({ mac, field, value: draftValues[field]! });
+            } catch (error) {
+                const details = extractCommandErrorDetail(error, { controller: mac });
+                applyFeedback.fail(
+                    details.errorMessage ?? `SET ${field} failed`,
+                    details.errorCode,
+                );
+                showSingleCommandErrorToast(`Set ${field}`, details);
+                return;
+            }
+        }
+        setEdits({});
+        applyFeedback.succeed(
+            `Updated ${changedFields.length} setting${changedFields.length === 1 ? '' : 's'}`,
+        );
+    };
+
+    const handleReset = () => {
+        setEdits({});
+        applyFeedback.reset();
+    };
+
+    const maxBudgetSeconds = liveConfig?.maxBudgetSeconds ?? report?.maxBudgetSeconds ?? null;
+
+    const inputClass =
+        'w-full rounded-md border border-gray-700 bg-gray-800 px-2 py-1 font-mono text-sm text-gray-100 focus:border-emerald-500 focus:outline-none disabled:opacity-50';
+
+    const renderFeedback = (feedback: ReturnType<typeof useCommandFeedback>['feedback']) =>
+        feedback.state !== 'idle' && feedback.message ? (
+            <span
+                className={
+                    feedback.state === 'error'
+                        ? 'text-red-200'
+                        : feedback.state === 'pending'
+                          ? 'text-sky-200'
+                          : 'text-emerald-200'
+                }
+            >
+                {feedback.message}
+                {feedback.code && (
+                    <span className="ml-1 text-[10px] text-gray-400">({feedback.code})</span>
+                )}
+            </span>
+        ) : null;
+
+    return (
+        <div className="flex flex-col gap-4 text-sm text-gray-300" data-testid="node-config-panel">
+            <div className="grid grid-cols-2 gap-3 rounded-md border border-gray-800 bg-gray-950/40 p-3 text-xs">
+                <div>
+                    <p className="text-gray-500">Firmware</p>
+                    <p className="font-mono text-gray-200">
+                        {report?.firmwareVersion ?? '—'}
+                        {report?.firmwareDate && (
+                            <span className="ml-2 text-gray-500">{report.firmwareDate}</span>
+                        )}
+                    </p>
+                </div>
+                <div>
+                    <p className="text-gray-500">Max thermal budget</p>
+                    <p className="font-mono text-gray-200">
+                        {maxBudgetSeconds !== null ? `${maxBudgetSeconds} s` : '—'}
+                    </p>
+                </div>
+                <div>
+                    <p className="text-gray-500">Free heap</p>
+                    <p className="font-mono text-gray-200">
+                        {report?.freeHeapBytes != null
+                            ? `${report.freeHeapBytes.toLocaleString()} B`
+                            : '—'}
+                    </p>
+                </div>
+                <div className="flex items-end justify-end gap-2">
+                    {renderFeedback(refreshFeedback.feedback)}
+                    <button
+                        type="button"
+                        onClick={() => void refresh()}
+                        className="rounded-md border border-gray-600 px-2 py-1 text-gray-300 transition-colors hover:border-gray-400 hover:text-gray-100"
+                    >
+                        Refresh
+                    </button>
+                </div>
+            </div>
+
+            {!liveConfig && (
+                <p className="text-xs text-amber-200">
+                    No retained config received on devices/{mac}/config yet. Showing GET values.
+                </p>
+            )}
+
+            <div className="grid gap-3 sm:grid-cols-2">
+                {NUMERIC_FIELDS.map((field) => (
+                    <label key={field} className="flex flex-col gap-1">
+                        <span className="text-xs text-gray-400">
+                            {NODE_CONFIG_FIELD_LABELS[field]}
+                        </span>
+                        <input
+                            type="number"
+                            min={field === 'DECEL' ? 0 : 1}
+                            step={1}
+                            value={draft[field]}
+                            onChange={(event) => updateDraft(field, event.target.value)}
+                            className={inputClass}
+                            data-testid={`node-config-${field.toLowerCase()}`}
+                        />
+                    </label>
+                ))}
+                <label className="flex flex-col gap-1">
+                    <span className="text-xs text-gray-400">
+                        {NODE_CONFIG_FIELD_LABELS.THERMAL_LIMITING}
+                    </span>
+                    <select
+                        value={draft.THERMAL_LIMITING}
+                        onChange={(event) => updateDraft('THERMAL_LIMITING', event.target.value)}
+                        className={inputClass}
+                        data-testid="node-config-thermal_limiting"
+                    >
+                        <option value="" disabled>
+                            Unknown
+                        </option>
+                        <option value="ON">ON</option>
+                        <option value="OFF">OFF</option>
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1 sm:col-span-2">
+                    <span className="text-xs text-gray-400">
+                        {NODE_CONFIG_FIELD_LABELS.MICROSTEP}
+                        {liveConfig && (
+                            <span className="ml-1 text-gray-500">
+                                (×{liveConfig.microstepMultiplier})
+                            </span>
+                        )}
+                    </span>
+                    <select
+                        value={draft.MICROSTEP}
+                        onChange={(event) => updateDraft('MICROSTEP', event.target.value)}
+                        className={inputClass}
+                        disabled={Boolean(microstepBlocker)}
+                        title={microstepBlocker ?? undefined}
+                        data-testid="node-config-microstep"
+                    >
+                        <option value="" disabled>
+                            Unknown
+                        </option>
+                        {MICROSTEP_MODES.map((mode) => (
+                            <option key={mode} value={mode}>
+                                {mode}
+                            </option>
+                        ))}
+                    </select>
+                    {microstepBlocker && (
+                        <span className="text-xs text-gray-500">
+                            Microstepping locked: {microstepBlocker}.
+                        </span>
+                    )}
+                </label>
+            </div>
+
+            {validationErrors.length > 0 && (
+                <ul className="list-disc pl-5 text-xs text-red-200">
+                    {validationErrors.map((message) => (
+                        <li key={message}>{message}</li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex flex-wrap items-center justify-end gap-3 text-xs">
+                {renderFeedback(applyFeedback.feedback)}
+                <button
+                    type="button"
+                    onClick={handleReset}
+                    disabled={!isDirty}
+                    className="rounded-md border border-gray-600 px-3 py-1.5 text-gray-300 transition-colors hover:border-gray-400 disabled:opacity-50"
+                >
+                    Reset
+                </button>
+                <button
+                    type="button"
+                    onClick={() => void handleApply()}
+                    disabled={
+                        changedFields.length === 0 ||
+                        validationErrors.length > 0 ||
+                        Boolean(microstepChangeBlocked) ||
+                        applyFeedback.feedback.state === 'pending'
+                    }
+                    className="rounded-md border border-emerald-600/70 bg-emerald-900/40 px-3 py-1.5 font-semibold text-emerald-200 transition-colors hover:bg-emerald-700/40 disabled:opacity-50"
+                    data-testid="node-config-apply"
+                >
+                    Apply {changedFields.length > 0 ? `(${changedFields.length})` : ''}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default NodeConfigPanel;
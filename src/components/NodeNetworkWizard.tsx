@@ -0,0 +1,657 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { useStatusStore } from '../context/StatusContext';
+import { useCommandFeedback, type CommandFeedback } from '../hooks/useCommandFeedback';
+import { useMotorCommands } from '../hooks/useMotorCommands';
+import {
+    describeNetError,
+    startReconnectWatch,
+    updateReconnectWatch,
+    validateBrokerConfig,
+    validateWifiCredentials,
+    type MqttBrokerConfig,
+    type NetStatusReport,
+    type ReconnectDriverSample,
+    type ReconnectWatchState,
+    type WifiNetwork,
+} from '../services/netOnboarding';
+import { extractCommandErrorDetail } from '../utils/commandErrors';
+
+interface NodeNetworkWizardProps {
+    /** Broker host the UI is connected to; used to warn when a node is moved elsewhere. */
+    currentBrokerHost: string;
+}
+
+type WizardStep = 'current' | 'wifi' | 'broker' | 'watch';
+
+interface NodeNetworkReport {
+    mac: string;
+    net: NetStatusReport | null;
+    mqtt: MqttBrokerConfig | null;
+}
+
+interface BrokerDraft {
+    host: string;
+    port: string;
+    user: string;
+    pass: string;
+}
+
+interface WatchTarget {
+    mac: string;
+    label: string;
+    /** False when the node was sent to a broker this UI is not connected to. */
+    expectReturn: boolean;
+}
+
+const WATCH_TICK_MS = 500;
+
+const STEPS: Array<{ id: WizardStep; label: string }> = [
+    { id: 'current', label: '1. Current settings' },
+    { id: 'wifi', label: '2a. Wi-Fi' },
+    { id: 'broker', label: '2b. Broker' },
+    { id: 'watch', label: '3. Reconnect' },
+];
+
+const inputClass =
+    'w-full rounded-md border border-gray-700 bg-gray-800 px-2 py-1 font-mono text-sm text-gray-100 focus:border-emerald-500 focus:outline-none disabled:opacity-50';
+
+const toBrokerDraft = (config: MqttBrokerConfig | null): BrokerDraft => ({
+    host: config?.host ?? '',
+    port: config?.port != null ? String(config.port) : '',
+    user: config?.user ?? '',
+    pass: config?.pass ?? '',
+});
+
+const fromBrokerDraft = (draft: BrokerDraft): MqttBrokerConfig => {
+    const port = draft.port.trim().length > 0 ? Number(draft.port) : null;
+    return {
+        host: draft.host.trim(),
+        port: port !== null && Number.isFinite(port) ? port : null,
+        user: draft.user,
+        pass: draft.pass,
+    };
+};
+
+/** Prefer the plain-language explanation for NET_* / MQTT_* codes. */
+const describeFailure = (error: unknown, mac: string, fallback: string) => {
+    const details = extractCommandErrorDetail(error, { controller: mac });
+    return {
+        message: describeNetError(details.errorCode) ?? details.errorMessage ?? fallback,
+        code: details.errorCode,
+        kind: details.reason,
+    };
+};
+
+const renderFeedback = (feedback: CommandFeedback) =>
+    feedback.state !== 'idle' && feedback.message ? (
+        <span
+            className={
+                feedback.state === 'error'
+                    ? 'text-red-200'
+                    : feedback.state === 'pending'
+                      ? 'text-sky-200'
+                      : 'text-emerald-200'
+            }
+        >
+            {feedback.message}
+            {feedback.code && (
+                <span className="ml-1 text-[10px] text-gray-400">({feedback.code})</span>
+            )}
+        </span>
+    ) : null;
+
+const NodeNetworkWizard: React.FC<NodeNetworkWizardProps> = ({ currentBrokerHost }) => {
+    const { drivers } = useStatusStore();
+    const {
+        getNetStatus,
+        getMqttConfig,
+        listNetworks,
+        setWifiCredentials,
+        setMqttConfig,
+        resetNetwork,
+    } = useMotorCommands();
+    const loadFeedback = useCommandFeedback({ successAutoResetMs: 0 });
+    const scanFeedback = useCommandFeedback({ successAutoResetMs: 0 });
+    const applyFeedback = useCommandFeedback({ successAutoResetMs: 0 });
+
+    const [selectedMac, setSelectedMac] = useState<string | null>(null);
+    const mac = selectedMac ?? drivers[0]?.topicMac ?? null;
+    const driver = useMemo(
+        () => drivers.find((entry) => entry.topicMac === mac) ?? null,
+        [drivers, mac],
+    );
+
+    const [step, setStep] = useState<WizardStep>('current');
+    const [report, setReport] = useState<NodeNetworkReport | null>(null);
+    const [networks, setNetworks] = useState<WifiNetwork[] | null>(null);
+    const [wifiDraft, setWifiDraft] = useState({ ssid: '', pass: '' });
+    const [brokerEdits, setBrokerEdits] = useState<Partial<BrokerDraft>>({});
+    const [watchTarget, setWatchTarget] = useState<WatchTarget | null>(null);
+    const [watch, setWatch] = useState<ReconnectWatchState | null>(null);
+
+    const currentReport = report?.mac === mac ? report : null;
+    const brokerDraft: BrokerDraft = {
+        ...toBrokerDraft(currentReport?.mqtt ?? null),
+        ...brokerEdits,
+    };
+    const wifiErrors = validateWifiCredentials(wifiDraft);
+    const brokerErrors = validateBrokerConfig(fromBrokerDraft(brokerDraft));
+    const isApplying = applyFeedback.feedback.state === 'pending';
+
+    const { begin: beginLoad, reset: resetLoad, fail: failLoad } = loadFeedback;
+
+    const fetchSettings = useCallback(
+        async (targetMac: string) => {
+            // Read both independently so a missing MQTT:GET_CONFIG still shows Wi-Fi state
+            const [net, mqtt] = await Promise.allSettled([
+                getNetStatus({ mac: targetMac }),
+                getMqttConfig({ mac: targetMac }),
+            ]);
+            const failed = [net, mqtt].find(
+                (result): result is PromiseRejectedResult => result.status === 'rejected',
+            );
+            return {
+                report: {
+                    mac: targetMac,
+                    net: net.status === 'fulfilled' ? net.value : null,
+                    mqtt: mqtt.status === 'fulfilled' ? mqtt.value : null,
+                },
+                failure: failed
+                    ? describeFailure(failed.reason, targetMac, 'Could not read network settings')
+                    : null,
+            };
+        },
+        [getMqttConfig, getNetStatus],
+    );
+
+    const loadSettings = useCallback(
+        (targetMac: string) => {
+            let cancelled = false;
+            void fetchSettings(targetMac).then(({ report: next, failure }) => {
+                if (cancelled) {
+                    return;
+                }
+                setReport(next);
+                if (failure) {
+                    failLoad(failure.message, failure.code);
+                } else {
+                    resetLoad();
+                }
+            });
+            return () => {
+                cancelled = true;
+            };
+        },
+        [failLoad, fetchSettings, resetLoad],
+    );
+
+    useEffect(() => {
+        if (!mac) {
+            return;
+        }
+        return loadSettings(mac);
+    }, [loadSettings, mac]);
+
+    const handleRefresh = () => {
+        if (!mac) {
+            return;
+        }
+        beginLoad('Reading network settings…');
+        loadSettings(mac);
+    };
+
+    const handleSelectNode = (nextMac: string) => {
+        setSelectedMac(nextMac);
+        setStep('current');
+        setNetworks(null);
+        setBrokerEdits({});
+        setWifiDraft({ ssid: '', pass: '' });
+        scanFeedback.reset();
+        applyFeedback.reset();
+    };
+
+    const handleScan = async () => {
+        if (!mac) {
+            return;
+        }
+        scanFeedback.begin('Scanning for access points…');
+        try {
+            const found = await listNetworks({ mac });
+            setNetworks(found);
+            scanFeedback.succeed(
+                found.length > 0
+                    ? `Found ${found.length} network${found.length === 1 ? '' : 's'}`
+                    : 'No networks found',
+            );
+        } catch (error) {
+            const { message, code } = describeFailure(error, mac, 'Scan failed');
+            scanFeedback.fail(message, code);
+        }
+    };
+
+    // ------------------------------------------------------------------------
+    // Reconnect watch
+    // ------------------------------------------------------------------------
+
+    const sampleRef = useRef<ReconnectDriverSample | null>(null);
+    useEffect(() => {
+        sampleRef.current = driver
+            ? { lastSeenAt: driver.lastSeenAt, presence: driver.presence }
+            : null;
+    }, [driver]);
+
+    const beginWatch = useCallback((target: WatchTarget) => {
+        setWatchTarget(target);
+        setWatch(startReconnectWatch(Date.now(), sampleRef.current));
+        setStep('watch');
+    }, []);
+
+    const watchActive = watch !== null && (watch.phase === 'waiting' || watch.phase === 'dropped');
+
+    useEffect(() => {
+        if (!watchActive) {
+            return;
+        }
+        const interval = window.setInterval(() => {
+            setWatch((prev) =>
+                prev ? updateReconnectWatch(prev, sampleRef.current, Date.now()) : prev,
+            );
+        }, WATCH_TICK_MS);
+        return () => window.clearInterval(interval);
+    }, [watchActive]);
+
+    const watchPhase = watch?.phase ?? null;
+    const watchMac = watchTarget?.mac ?? null;
+    useEffect(() => {
+        if (watchPhase === 'returned' && watchMac) {
+            // Confirm the node actually landed on the new settings
+            return loadSettings(watchMac);
+        }
+        return undefined;
+    }, [loadSettings, watchMac, watchPhase]);
+
+    // ------------------------------------------------------------------------
+    // Apply
+    // ------------------------------------------------------------------------
+
+    const handleApplyWifi = async () => {
+        if (!mac || wifiErrors.length > 0) {
+            return;
+        }
+        applyFeedback.begin(`Sending new Wi-Fi credentials for "${wifiDraft.ssid}"…`);
+        try {
+            await setWifiCredentials({ mac, ...wifiDraft });
+            applyFeedback.succeed('Credentials stored. The node is reconnecting.');
+            beginWatch({ mac, label: `Wi-Fi "${wifiDraft.ssid}"`, expectReturn: true });
+            setWifiDraft({ ssid: '', pass: '' });
+        } catch (error) {
+            const { message, code } = describeFailure(error, mac, 'NET:SET failed');
+            applyFeedback.fail(message, code);
+        }
+    };
+
+    const applyBroker = async (reset: boolean) => {
+        if (!mac || (!reset && brokerErrors.length > 0)) {
+            return;
+        }
+        const config = fromBrokerDraft(brokerDraft);
+        applyFeedback.begin(reset ? 'Restoring default broker…' : `Moving node to ${config.host}…`);
+        try {
+            const stored = reset
+                ? await setMqttConfig({ mac, reset: true })
+                : await setMqttConfig({
+                      mac,
+                      host: config.host,
+                      port: config.port ?? 1883,
+                      user: config.user,
+                      pass: config.pass,
+                  });
+            const host = stored.host || config.host;
+            const expectReturn = host.length === 0 || host === currentBrokerHost;
+            applyFeedback.succeed(
+                expectReturn
+                    ? 'Broker settings stored. The node is reconnecting.'
+                    : `Broker settings stored. The node will now report to ${host}.`,
+            );
+            setBrokerEdits({});
+            beginWatch({
+                mac,
+                label: reset ? 'default broker' : `broker ${host}:${stored.port ?? config.port}`,
+                expectReturn,
+            });
+        } catch (error) {
+            const { message, code } = describeFailure(error, mac, 'MQTT:SET_CONFIG failed');
+            applyFeedback.fail(message, code);
+        }
+    };
+
+    const handleResetToAp = async () => {
+        if (!mac) {
+            return;
+        }
+        if (
+            !window.confirm(
+                `Clear Wi-Fi credentials on ${mac}? The node leaves the broker and starts its setup access point.`,
+            )
+        ) {
+            return;
+        }
+        applyFeedback.begin('Clearing credentials…');
+        try {
+            const status = await resetNetwork({ mac });
+            applyFeedback.succeed(
+                `Setup access point ${status.ssid ?? ''} is up${status.ip ? ` at ${status.ip}` : ''}. ` +
+                    'Join it to scan for networks and enter new credentials.',
+            );
+        } catch (error) {
+            const { message, code, kind } = describeFailure(error, mac, 'NET:RESET failed');
+            // The node often drops off the broker before it can publish the completion
+            applyFeedback.fail(
+                kind === 'completion-timeout'
+                    ? 'No completion received - the node most likely switched to its setup access point already.'
+                    : message,
+                code,
+            );
+        }
+    };
+
+    if (drivers.length === 0 || !mac) {
+        return (
+            <p className="text-sm text-gray-500">
+                No nodes are reporting on this broker yet. Connect a node to configure its network.
+            </p>
+        );
+    }
+
+    const net = currentReport?.net ?? null;
+    const mqtt = currentReport?.mqtt ?? null;
+
+    return (
+        <div
+            className="flex flex-col gap-4 text-sm text-gray-300"
+            data-testid="node-network-wizard"
+        >
+            <div className="flex flex-wrap items-center gap-3">
+                <span className="text-base font-semibold text-gray-100">Node network setup</span>
+                <select
+                    value={mac}
+                    onChange={(event) => handleSelectNode(event.target.value)}
+                    disabled={watchActive}
+                    className="rounded border border-gray-700 bg-gray-900 px-3 py-1 font-mono text-xs focus:border-emerald-500 focus:outline-none"
+                    data-testid="node-network-select"
+                >
+                    {drivers.map((entry) => (
+                        <option key={entry.topicMac} value={entry.topicMac}>
+                            {entry.topicMac} ({entry.presence})
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="flex flex-wrap gap-1 text-xs">
+                {STEPS.map((entry) => (
+                    <button
+                        key={entry.id}
+                        type="button"
+                        onClick={() => setStep(entry.id)}
+                        disabled={entry.id === 'watch' ? watch === null : watchActive}
+                        className={`rounded px-3 py-1 transition disabled:opacity-40 ${
+                            step === entry.id
+                                ? 'bg-emerald-500 text-gray-900'
+                                : 'border border-gray-700 text-gray-300 hover:text-emerald-300'
+                        }`}
+                    >
+                        {entry.label}
+                    </button>
+                ))}
+            </div>
+
+            {step === 'current' && (
+                <div className="flex flex-col gap-3">
+                    <div className="grid grid-cols-2 gap-3 rounded-md border border-gray-800 bg-gray-950/40 p-3 text-xs">
+                        <div>
+                            <p className="text-gray-500">Wi-Fi</p>
+                            <p className="font-mono text-gray-200">
+                                {net?.ssid ?? '—'}
+                                {net?.state && (
+                                    <span className="ml-2 text-gray-500">{net.state}</span>
+                                )}
+                            </p>
+                        </div>
+                        <div>
+                            <p className="text-gray-500">IP / signal</p>
+                            <p className="font-mono text-gray-200">
+                                {net?.ip ?? '—'}
+                                {net?.rssi != null && (
+                                    <span className="ml-2 text-gray-500">{net.rssi} dBm</span>
+                                )}
+                            </p>
+                        </div>
+                        <div>
+                            <p className="text-gray-500">Broker</p>
+                            <p className="font-mono text-gray-200">
+                                {mqtt ? `${mqtt.host}:${mqtt.port ?? '—'}` : '—'}
+                            </p>
+                        </div>
+                        <div>
+                            <p className="text-gray-500">Broker user</p>
+                            <p className="font-mono text-gray-200">{mqtt?.user || '—'}</p>
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap items-center justify-end gap-3 text-xs">
+                        {renderFeedback(loadFeedback.feedback)}
+                        <button
+                            type="button"
+                            onClick={handleRefresh}
+                            className="rounded-md border border-gray-600 px-2 py-1 text-gray-300 transition-colors hover:border-gray-400 hover:text-gray-100"
+                        >
+                            Refresh
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {step === 'wifi' && (
+                <div className="flex flex-col gap-3">
+                    <div className="flex flex-wrap items-center gap-3 text-xs">
+                        <button
+                            type="button"
+                            onClick={() => void handleScan()}
+                            disabled={scanFeedback.feedback.state === 'pending'}
+                            className="rounded-md border border-gray-600 px-2 py-1 text-gray-300 transition-colors hover:border-gray-400 hover:text-gray-100 disabled:opacity-50"
+                        >
+                            Scan networks
+                        </button>
+                        {renderFeedback(scanFeedback.feedback)}
+                    </div>
+                    {networks && networks.length > 0 && (
+                        <ul className="flex max-h-40 flex-col gap-1 overflow-y-auto text-xs">
+                            {networks.map((network) => (
+                                <li key={network.ssid}>
+                                    <button
+                                        type="button"
+                                        onClick={() =>
+                                            setWifiDraft((prev) => ({
+                                                ...prev,
+                                                ssid: network.ssid,
+                                            }))
+                                        }
+                                        className={`flex w-full justify-between rounded px-2 py-1 text-left transition ${
+                                            wifiDraft.ssid === network.ssid
+                                                ? 'bg-emerald-900/40 text-emerald-200'
+                                                : 'hover:bg-gray-800'
+                                        }`}
+                                    >
+                                        <span className="font-mono">{network.ssid}</span>
+                                        <span className="text-gray-500">
+                                            {network.secure === false ? 'open · ' : ''}
+                                            {network.rssi != null ? `${network.rssi} dBm` : ''}
+                                        </span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <div className="grid gap-3 sm:grid-cols-2">
+                        <label className="flex flex-col gap-1">
+                            <span className="text-xs text-gray-400">SSID</span>
+                            <input
+                                type="text"
+                                value={wifiDraft.ssid}
+                                onChange={(event) =>
+                                    setWifiDraft((prev) => ({ ...prev, ssid: event.target.value }))
+                                }
+                                className={inputClass}
+                                data-testid="node-network-ssid"
+                            />
+                        </label>
+                        <label className="flex flex-col gap-1">
+                            <span className="text-xs text-gray-400">Password</span>
+                            <input
+                                type="password"
+                                value={wifiDraft.pass}
+                                onChange={(event) =>
+                                    setWifiDraft((prev) => ({ ...prev, pass: event.target.value }))
+                                }
+                                className={inputClass}
+                            />
+                        </label>
+                    </div>
+                    {wifiDraft.ssid.length > 0 && wifiErrors.length > 0 && (
+                        <ul className="list-disc pl-5 text-xs text-red-200">
+                            {wifiErrors.map((message) => (
+                                <li key={message}>{message}</li>
+                            ))}
+                        </ul>
+                    )}
+                    <div className="flex flex-wrap items-center justify-end gap-3 text-xs">
+                        {renderFeedback(applyFeedback.feedback)}
+                        <button
+                            type="button"
+                            onClick={() => void handleResetToAp()}
+                            disabled={isApplying}
+                            className="rounded-md border border-red-700/70 px-3 py-1.5 text-red-200 transition-colors hover:bg-red-900/40 disabled:opacity-50"
+                        >
+                            Reset to setup AP
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => void handleApplyWifi()}
+                            disabled={wifiErrors.length > 0 || isApplying}
+                            className="rounded-md border border-emerald-600/70 bg-emerald-900/40 px-3 py-1.5 font-semibold text-emerald-200 transition-colors hover:bg-emerald-700/40 disabled:opacity-50"
+                        >
+                            Apply Wi-Fi
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {step === 'broker' && (
+                <div className="flex flex-col gap-3">
+                    <div className="grid gap-3 sm:grid-cols-2">
+                        {(['host', 'port', 'user', 'pass'] as const).map((field) => (
+                            <label key={field} className="flex flex-col gap-1">
+                                <span className="text-xs text-gray-400">
+                                    {field === 'pass'
+                                        ? 'Password'
+                                        : field[0].toUpperCase() + field.slice(1)}
+                                </span>
+                                <input
+                                    type={
+                                        field === 'port'
+                                            ? 'number'
+                                            : field === 'pass'
+                                              ? 'password'
+                                              : 'text'
+                                    }
+                                    value={brokerDraft[field]}
+                                    onChange={(event) =>
+                                        setBrokerEdits((prev) => ({
+                                            ...prev,
+                                            [field]: event.target.value,
+                                        }))
+                                    }
+                                    className={inputClass}
+                                    data-testid={`node-network-broker-${field}`}
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    {brokerErrors.length > 0 && (
+                        <ul className="list-disc pl-5 text-xs text-red-200">
+                            {brokerErrors.map((message) => (
+                                <li key={message}>{message}</li>
+                            ))}
+                        </ul>
+                    )}
+                    {brokerDraft.host.trim().length > 0 &&
+                        brokerDraft.host.trim() !== currentBrokerHost && (
+                            <p className="text-xs text-amber-200">
+                                This UI is connected to {currentBrokerHost || 'another broker'}.
+                                After the change the node will only be visible on{' '}
+                                {brokerDraft.host.trim()}.
+                            </p>
+                        )}
+                    <div className="flex flex-wrap items-center justify-end gap-3 text-xs">
+                        {renderFeedback(applyFeedback.feedback)}
+                        <button
+                            type="button"
+                            onClick={() => void applyBroker(true)}
+                            disabled={isApplying}
+                            className="rounded-md border border-gray-600 px-3 py-1.5 text-gray-300 transition-colors hover:border-gray-400 disabled:opacity-50"
+                        >
+                            Restore defaults
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => void applyBroker(false)}
+                            disabled={brokerErrors.length > 0 || isApplying}
+                            className="rounded-md border border-emerald-600/70 bg-emerald-900/40 px-3 py-1.5 font-semibold text-emerald-200 transition-colors hover:bg-emerald-700/40 disabled:opacity-50"
+                        >
+                            Apply broker
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {step === 'watch' && watch && watchTarget && (
+                <div
+                    className="flex flex-col gap-2 rounded-md border border-gray-800 bg-gray-950/40 p-3 text-xs"
+                    data-testid="node-network-watch"
+                >
+                    <p className="text-gray-400">
+                        Watching devices/{watchTarget.mac}/status after switching to{' '}
+                        {watchTarget.label}.
+                    </p>
+                    {watch.phase === 'waiting' && (
+                        <p className="text-sky-200">Waiting for the node to disconnect…</p>
+                    )}
+                    {watch.phase === 'dropped' && (
+                        <p className="text-sky-200">
+                            {watchTarget.expectReturn
+                                ? 'Node went offline. Waiting for it to come back…'
+                                : 'Node left this broker. Connect the UI to the new broker to see it.'}
+                        </p>
+                    )}
+                    {watch.phase === 'returned' && (
+                        <p className="text-emerald-200">
+                            Node is back online
+                            {net?.ssid ? ` on "${net.ssid}"` : ''}
+                            {net?.ip ? ` (${net.ip})` : ''}.
+                        </p>
+                    )}
+                    {watch.phase === 'timed-out' && (
+                        <p className={watchTarget.expectReturn ? 'text-red-200' : 'text-gray-300'}>
+                            {watchTarget.expectReturn
+                                ? `The node did not come back. ${describeNetError('NET_CONNECT_FAILED')} If it cannot join, it falls back to its setup access point.`
+                                : 'The node has not reappeared here, which is expected after moving it to another broker.'}
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default NodeNetworkWizard;
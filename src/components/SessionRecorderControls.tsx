@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+
+import { useMqtt } from '../context/MqttContext';
+import {
+    buildSessionFileName,
+    serializeSessionRecording,
+    type SessionRecording,
+} from '../services/sessionRecording';
+
+const downloadRecording = (recording: SessionRecording): void => {
+    const blob = new Blob([serializeSessionRecording(recording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = buildSessionFileName(recording);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+/** Start/stop capturing MQTT traffic and download it as a replayable session file. */
+const SessionRecorderControls: React.FC = () => {
+    const { isRecording, startRecording, stopRecording } = useMqtt();
+    const [lastSummary, setLastSummary] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleStop = () => {
+        const recording = stopRecording();
+        if (!recording) {
+            return;
+        }
+        try {
+            downloadRecording(recording);
+            setError(null);
+            setLastSummary(`Saved ${recording.entries.length} messages.`);
+        } catch (downloadError) {
+            console.error('Failed to download session recording', downloadError);
+            setError('Unable to download the session recording.');
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+            <span className="text-base font-semibold text-gray-100">Session recording</span>
+            {isRecording ? (
+                <>
+                    <span className="flex items-center gap-2 text-xs text-red-300">
+                        <span className="size-2 animate-pulse rounded-full bg-red-500" />
+                        Recording all MQTT traffic
+                    </span>
+                    <button
+                        type="button"
+                        onClick={handleStop}
+                        className="rounded-md border border-gray-600 px-2 py-1 text-xs text-gray-300 transition-colors hover:border-gray-400 hover:text-gray-100"
+                    >
+                        Stop &amp; download
+                    </button>
+                </>
+            ) : (
+                <button
+                    type="button"
+                    onClick={() => {
+                        setLastSummary(null);
+                        startRecording();
+                    }}
+                    className="rounded-md border border-gray-600 px-2 py-1 text-xs text-gray-300 transition-colors hover:border-gray-400 hover:text-gray-100"
+                >
+                    Start recording
+                </button>
+            )}
+            {lastSummary && <span className="text-xs text-emerald-200">{lastSummary}</span>}
+            {error && <span className="text-xs text-red-200">{error}</span>}
+        </div>
+    );
+};
+
+export default SessionRecorderControls;
@@ -0,0 +1,128 @@
+import React, { useState, useSyncExternalStore } from 'react';
+
+import { useMqtt } from '../context/MqttContext';
+import { getSessionDurationMs, parseSessionRecording } from '../services/sessionRecording';
+
+import type { ReplayMqttTransport } from '../services/replayTransport';
+
+const SPEED_OPTIONS = [1, 2, 5, 10, 50];
+
+const formatClock = (ms: number): string => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const ReplayProgressBar: React.FC<{ transport: ReplayMqttTransport }> = ({ transport }) => {
+    const progress = useSyncExternalStore(transport.subscribeProgress, transport.getProgress);
+    const percent =
+        progress.durationMs > 0
+            ? Math.min(100, (progress.offsetMs / progress.durationMs) * 100)
+            : progress.finished
+              ? 100
+              : 0;
+    return (
+        <div className="flex flex-col gap-1 text-xs text-gray-400" data-testid="replay-progress">
+            <div className="h-1.5 overflow-hidden rounded bg-gray-800">
+                <div className="h-full bg-emerald-500" style={{ width: `${percent}%` }} />
+            </div>
+            <span>
+                {formatClock(progress.offsetMs)} / {formatClock(progress.durationMs)} ·{' '}
+                {progress.position} of {progress.total} messages
+                {progress.finished ? ' · finished' : ''}
+            </span>
+        </div>
+    );
+};
+
+/** Load a recorded session file and control its playback for the `replay` scheme. */
+const SessionReplayPanel: React.FC = () => {
+    const {
+        state,
+        connect,
+        replaySession,
+        loadReplaySession,
+        replaySpeed,
+        setReplaySpeed,
+        getReplayTransport,
+    } = useMqtt();
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const transport = state.status === 'connected' ? getReplayTransport() : null;
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0] ?? null;
+        event.target.value = '';
+        if (!file) {
+            return;
+        }
+        try {
+            const recording = parseSessionRecording(await file.text());
+            setFileName(file.name);
+            setLoadError(null);
+            loadReplaySession(recording);
+        } catch (error) {
+            setLoadError(error instanceof Error ? error.message : 'Unable to read session file.');
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-3 rounded-md border border-gray-700 bg-gray-900/60 px-3 py-4 text-sm text-gray-300">
+            <p>
+                Session replay feeds a recorded file back through the same message handlers, so
+                status, command tracking and logs behave as they did when it was recorded. Commands
+                sent while replaying are dropped.
+            </p>
+            <div className="flex flex-wrap items-center gap-3 text-xs">
+                <label className="cursor-pointer rounded-md border border-gray-600 px-2 py-1 text-gray-300 transition-colors hover:border-gray-400 hover:text-gray-100">
+                    Load session file
+                    <input
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={(event) => void handleFileChange(event)}
+                        className="hidden"
+                        data-testid="replay-file-input"
+                    />
+                </label>
+                <label className="flex items-center gap-2">
+                    <span className="text-gray-400">Speed</span>
+                    <select
+                        value={replaySpeed}
+                        onChange={(event) => setReplaySpeed(Number(event.target.value))}
+                        className="rounded border border-gray-700 bg-gray-900 px-2 py-1 text-xs focus:border-emerald-500 focus:outline-none"
+                    >
+                        {SPEED_OPTIONS.map((speed) => (
+                            <option key={speed} value={speed}>
+                                {speed === 1 ? 'Real time' : `${speed}×`}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    type="button"
+                    onClick={() => connect()}
+                    disabled={!replaySession}
+                    className="rounded-md border border-gray-600 px-2 py-1 text-gray-300 transition-colors hover:border-gray-400 hover:text-gray-100 disabled:opacity-50"
+                >
+                    Restart
+                </button>
+                {loadError && <span className="text-red-200">{loadError}</span>}
+            </div>
+            {replaySession ? (
+                <p className="text-xs text-gray-400">
+                    <span className="font-mono text-gray-200">{fileName ?? 'Session'}</span> ·
+                    recorded {replaySession.recordedAt || 'at an unknown time'}
+                    {replaySession.source ? ` from ${replaySession.source}` : ''} ·{' '}
+                    {replaySession.entries.length} messages over{' '}
+                    {formatClock(getSessionDurationMs(replaySession))}
+                </p>
+            ) : (
+                <p className="text-xs text-gray-500">No session loaded.</p>
+            )}
+            {transport && <ReplayProgressBar transport={transport} />}
+        </div>
+    );
+};
+
+export default SessionReplayPanel;
@@ -7,6 +7,8 @@ interface AnimationMirrorAssignmentsProps {
     paths: AnimationPath[];
     gridSize: { rows: number; cols: number };
     onChange: (config: IndependentModeConfig) => void;
+    /** Replaces the round-robin auto-assign, e.g. with a calibration-aware one */
+    onAutoAssign?: () => void;
     disabled?: boolean;
 }
 
@@ -15,6 +17,7 @@ const AnimationMirrorAssignments: React.FC<AnimationMirrorAssignmentsProps> = ({
     paths,
     gridSize,
     onChange,
+    onAutoAssign,
     disabled = false,
 }) => {
     const assignments = config?.assignments ?? [];
@@ -86,7 +89,7 @@ const AnimationMirrorAssignments: React.FC<AnimationMirrorAssignmentsProps> = ({
                 <div className="flex gap-2">
                     <button
                         type="button"
-                        onClick={handleAutoAssign}
+                        onClick={onAutoAssign ?? handleAutoAssign}
                         disabled={disabled || paths.length === 0}
                         className="rounded px-2 py-1 text-xs font-medium text-cyan-400 hover:bg-cyan-600/20 disabled:cursor-not-allowed disabled:opacity-50"
                     >
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+
+import {
+    ARC_CURVE,
+    CURVE_LABELS,
+    createArcWaypoints,
+    createCircleWaypoints,
+    resolveCurveResolution,
+} from '@/services/animationCurves';
+import type { AnimationCurveType, AnimationPath } from '@/types/animation';
+import {
+    DEFAULT_CURVE_RESOLUTION,
+    MAX_CURVE_RESOLUTION,
+    MIN_CURVE_RESOLUTION,
+} from '@/types/animation';
+
+interface AnimationPathCurvePanelProps {
+    path: AnimationPath;
+    onUpdatePath: (path: AnimationPath) => void;
+    disabled?: boolean;
+}
+
+interface PrimitiveDraft {
+    centerX: number;
+    centerY: number;
+    radius: number;
+    startDeg: number;
+    sweepDeg: number;
+}
+
+const CURVE_TYPES = Object.keys(CURVE_LABELS) as AnimationCurveType[];
+
+const PRIMITIVE_FIELDS: { key: keyof PrimitiveDraft; label: string; step: number }[] = [
+    { key: 'centerX', label: 'Center X', step: 0.05 },
+    { key: 'centerY', label: 'Center Y', step: 0.05 },
+    { key: 'radius', label: 'Radius', step: 0.05 },
+    { key: 'startDeg', label: 'Start°', step: 15 },
+    { key: 'sweepDeg', label: 'Sweep°', step: 15 },
+];
+
+const DEFAULT_PRIMITIVE: PrimitiveDraft = {
+    centerX: 0,
+    centerY: 0,
+    radius: 0.4,
+    startDeg: 180,
+    sweepDeg: 180,
+};
+
+const inputClassName =
+    'w-16 rounded border border-gray-700 bg-gray-800 px-1 py-1 text-xs text-gray-200 focus:border-cyan-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50';
+
+const buttonClassName =
+    'rounded bg-gray-700 px-3 py-1 text-xs font-medium text-gray-300 transition-colors hover:bg-gray-600 disabled:cursor-not-allowed disabled:opacity-50';
+
+const AnimationPathCurvePanel: React.FC<AnimationPathCurvePanelProps> = ({
+    path,
+    onUpdatePath,
+    disabled = false,
+}) => {
+    const [primitive, setPrimitive] = useState<PrimitiveDraft>(DEFAULT_PRIMITIVE);
+    const curveType = path.curve?.type ?? 'polyline';
+    const hasHandles = path.waypoints.some((w) => w.handleIn || w.handleOut);
+
+    const handleCurveTypeChange = (type: AnimationCurveType) => {
+        onUpdatePath({
+            ...path,
+            curve: type === 'polyline' ? undefined : { ...path.curve, type },
+        });
+    };
+
+    const handleResolutionChange = (value: string) => {
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed) || !path.curve) return;
+        const resolution = Math.max(
+            MIN_CURVE_RESOLUTION,
+            Math.min(MAX_CURVE_RESOLUTION, Math.round(parsed)),
+        );
+        onUpdatePath({ ...path, curve: { ...path.curve, resolution } });
+    };
+
+    const handleResetHandles = () => {
+        onUpdatePath({
+            ...path,
+            waypoints: path.waypoints.map((waypoint) => {
+                const next = { ...waypoint };
+                delete next.handleIn;
+                delete next.handleOut;
+                return next;
+            }),
+        });
+    };
+
+    const handleInsertCircle = () => {
+        onUpdatePath({
+            ...path,
+            waypoints: createCircleWaypoints(
+                { x: primitive.centerX, y: primitive.centerY },
+                primitive.radius,
+            ),
+            curve: { ...ARC_CURVE, resolution: path.curve?.resolution },
+        });
+    };
+
+    const handleInsertArc = () => {
+        onUpdatePath({
+            ...path,
+            waypoints: createArcWaypoints({
+                center: { x: primitive.centerX, y: primitive.centerY },
+                radius: primitive.radius,
+                startDeg: primitive.startDeg,
+                sweepDeg: primitive.sweepDeg,
+            }),
+            curve: { ...ARC_CURVE, resolution: path.curve?.resolution },
+        });
+    };
+
+    return (
+        <div className="flex flex-col gap-3 rounded-md bg-gray-800/50 p-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <label htmlFor="path-curve-select" className="text-xs font-medium text-gray-400">
+                    Curve
+                </label>
+                <select
+                    id="path-curve-select"
+                    value={curveType}
+                    onChange={(e) => handleCurveTypeChange(e.target.value as AnimationCurveType)}
+                    disabled={disabled}
+                    className="rounded-md border border-gray-700 bg-gray-800 px-2 py-1 text-xs text-gray-200 focus:border-cyan-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                    {CURVE_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                            {CURVE_LABELS[type]}
+                        </option>
+                    ))}
+                </select>
+                {curveType !== 'polyline' && (
+                    <label className="flex items-center gap-1 text-xs text-gray-500">
+                        Samples / segment
+                        <input
+                            type="number"
+                            min={MIN_CURVE_RESOLUTION}
+                            max={MAX_CURVE_RESOLUTION}
+                            value={path.curve?.resolution ?? DEFAULT_CURVE_RESOLUTION}
+                            onChange={(e) => handleResolutionChange(e.target.value)}
+                            disabled={disabled}
+                            className={inputClassName}
+                        />
+                    </label>
+                )}
+                {curveType === 'bezier' && (
+                    <button
+                        type="button"
+                        onClick={handleResetHandles}
+                        disabled={disabled || !hasHandles}
+                        className={buttonClassName}
+                        title="Drag handles in Move mode; reset returns them to the spline shape"
+                    >
+                        Reset handles
+                    </button>
+                )}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-2">
+                {PRIMITIVE_FIELDS.map(({ key, label, step }) => (
+                    <label key={key} className="flex flex-col gap-1 text-xs text-gray-500">
+                        {label}
+                        <input
+                            type="number"
+                            step={step}
+                            value={primitive[key]}
+                            onChange={(e) => {
+                                const value = Number(e.target.value);
+                                if (Number.isFinite(value)) {
+                                    setPrimitive((prev) => ({ ...prev, [key]: value }));
+                                }
+                            }}
+                            disabled={disabled}
+                            className={inputClassName}
+                        />
+                    </label>
+                ))}
+                <button
+                    type="button"
+                    onClick={handleInsertCircle}
+                    disabled={disabled || primitive.radius <= 0}
+                    className={buttonClassName}
+                >
+                    Circle
+                </button>
+                <button
+                    type="button"
+                    onClick={handleInsertArc}
+                    disabled={disabled || primitive.radius <= 0 || primitive.sweepDeg === 0}
+                    className={buttonClassName}
+                >
+                    Arc
+                </button>
+            </div>
+            <p className="text-xs text-gray-500">
+                Circle and Arc replace this path&apos;s waypoints.{' '}
+                {curveType !== 'polyline' &&
+                    `Each segment is planned as ${resolveCurveResolution(path)} sub-moves, and every sample is checked against the calibrated bounds.`}
+            </p>
+        </div>
+    );
+};
+
+export default AnimationPathCurvePanel;
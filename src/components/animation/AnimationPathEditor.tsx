@@ -2,10 +2,19 @@
 import React, { useCallback, useRef, useState } from 'react';
 
 import TransformToolbar from '@/components/common/TransformToolbar';
+import {
+    getBezierHandles,
+    isCurvedPath,
+    pointAtSegmentProgress,
+    sampleAnimationPath,
+} from '@/services/animationCurves';
 import { createWaypointId } from '@/services/animationStorage';
 import type { AnimationPath, AnimationWaypoint } from '@/types/animation';
 import { centeredToView, viewToCentered, centeredDeltaToView } from '@/utils/coordinates';
 
+import AnimationPathCurvePanel from './AnimationPathCurvePanel';
+import AnimationPathTimingPanel from './AnimationPathTimingPanel';
+
 export interface TileBound {
     id: string;
     xMin: number;
@@ -49,8 +58,22 @@ interface AnimationPathEditorProps {
 
 type EditMode = 'add' | 'move' | 'delete';
 
+interface HandleDrag {
+    waypointId: string;
+    side: 'handleIn' | 'handleOut';
+}
+
+/** Curve samples per segment used for drawing (finer than planning). */
+const DISPLAY_CURVE_RESOLUTION = 24;
+
 const clampUnit = (value: number): number => Math.max(0, Math.min(1, value));
 
+/** SVG polyline points for a path, following its curve. */
+const buildPathPoints = (path: AnimationPath): string =>
+    sampleAnimationPath(path, isCurvedPath(path) ? DISPLAY_CURVE_RESOLUTION : 1)
+        .map((sample) => `${centeredToView(sample.x)},${centeredToView(sample.y)}`)
+        .join(' ');
+
 const AnimationPathEditor: React.FC<AnimationPathEditorProps> = ({
     path,
     allPaths,
@@ -74,6 +97,7 @@ const AnimationPathEditor: React.FC<AnimationPathEditorProps> = ({
     const containerRef = useRef<HTMLDivElement | null>(null);
     const [editMode, setEditMode] = useState<EditMode>('add');
     const [draggingWaypointId, setDraggingWaypointId] = useState<string | null>(null);
+    const [draggingHandle, setDraggingHandle] = useState<HandleDrag | null>(null);
     const [hoveredWaypointId, setHoveredWaypointId] = useState<string | null>(null);
 
     const getMousePosition = useCallback(
@@ -138,13 +162,34 @@ const AnimationPathEditor: React.FC<AnimationPathEditorProps> = ({
         [disabled, editMode],
     );
 
+    const handleHandleMouseDown = useCallback(
+        (event: React.MouseEvent, drag: HandleDrag) => {
+            event.stopPropagation();
+            if (disabled || editMode !== 'move') return;
+            setDraggingHandle(drag);
+        },
+        [disabled, editMode],
+    );
+
     const handleMouseMove = useCallback(
         (event: React.MouseEvent) => {
-            if (!draggingWaypointId || !path) return;
+            if ((!draggingWaypointId && !draggingHandle) || !path) return;
 
             const pos = getMousePosition(event);
             if (!pos) return;
 
+            if (draggingHandle) {
+                onUpdatePath({
+                    ...path,
+                    waypoints: path.waypoints.map((w) =>
+                        w.id === draggingHandle.waypointId
+                            ? { ...w, [draggingHandle.side]: { x: pos.x - w.x, y: pos.y - w.y } }
+                            : w,
+                    ),
+                });
+                return;
+            }
+
             onUpdatePath({
                 ...path,
                 waypoints: path.waypoints.map((w) =>
@@ -152,15 +197,17 @@ const AnimationPathEditor: React.FC<AnimationPathEditorProps> = ({
                 ),
             });
         },
-        [draggingWaypointId, path, getMousePosition, onUpdatePath],
+        [draggingWaypointId, draggingHandle, path, getMousePosition, onUpdatePath],
     );
 
     const handleMouseUp = useCallback(() => {
         setDraggingWaypointId(null);
+        setDraggingHandle(null);
     }, []);
 
     const handleMouseLeave = useCallback(() => {
         setDraggingWaypointId(null);
+        setDraggingHandle(null);
         setHoveredWaypointId(null);
     }, []);
 
@@ -343,36 +390,32 @@ const AnimationPathEditor: React.FC<AnimationPathEditorProps> = ({
 
                         return (
                             <g key={p.id} opacity={opacity}>
-                                {/* Path lines */}
-                                {p.waypoints.length > 1 &&
-                                    p.waypoints.slice(0, -1).map((wp, i) => {
-                                        const next = p.waypoints[i + 1];
-                                        return (
-                                            <line
-                                                key={`line-${wp.id}-${next.id}`}
-                                                x1={centeredToView(wp.x)}
-                                                y1={centeredToView(wp.y)}
-                                                x2={centeredToView(next.x)}
-                                                y2={centeredToView(next.y)}
-                                                stroke={color}
-                                                strokeWidth={0.004}
-                                                strokeLinecap="round"
-                                                pointerEvents="none"
-                                            />
-                                        );
-                                    })}
-
-                                {/* Direction arrows on lines */}
+                                {/* Path line, following the curve */}
+                                {p.waypoints.length > 1 && (
+                                    <polyline
+                                        points={buildPathPoints(p)}
+                                        fill="none"
+                                        stroke={color}
+                                        strokeWidth={0.004}
+                                        strokeLinecap="round"
+                                        strokeLinejoin="round"
+                                        pointerEvents="none"
+                                    />
+                                )}
+
+                                {/* Direction arrows at segment midpoints */}
                                 {isSelected &&
                                     p.waypoints.length > 1 &&
                                     p.waypoints.slice(0, -1).map((wp, i) => {
-                                        const next = p.waypoints[i + 1];
-                                        const midX =
-                                            (centeredToView(wp.x) + centeredToView(next.x)) / 2;
-                                        const midY =
-                                            (centeredToView(wp.y) + centeredToView(next.y)) / 2;
-                                        const dx = centeredToView(next.x) - centeredToView(wp.x);
-                                        const dy = centeredToView(next.y) - centeredToView(wp.y);
+                                        const mid = pointAtSegmentProgress(p, i, 0.5);
+                                        const ahead = pointAtSegmentProgress(p, i, 0.55);
+                                        const behind = pointAtSegmentProgress(p, i, 0.45);
+                                        const midX = centeredToView(mid.x);
+                                        const midY = centeredToView(mid.y);
+                                        const dx =
+                                            centeredToView(ahead.x) - centeredToView(behind.x);
+                                        const dy =
+                                            centeredToView(ahead.y) - centeredToView(behind.y);
                                         const angle = Math.atan2(dy, dx) * (180 / Math.PI);
 
                                         return (
@@ -388,6 +431,57 @@ const AnimationPathEditor: React.FC<AnimationPathEditorProps> = ({
                                         );
                                     })}
 
+                                {/* Bezier handles */}
+                                {isSelected &&
+                                    p.curve?.type === 'bezier' &&
+                                    p.waypoints.map((wp, index) => {
+                                        const handles = getBezierHandles(p.waypoints, index);
+                                        return (['handleIn', 'handleOut'] as const).map((side) => {
+                                            const handle =
+                                                side === 'handleIn'
+                                                    ? handles.handleIn
+                                                    : handles.handleOut;
+                                            if (!handle) return null;
+                                            const hx = centeredToView(wp.x + handle.x);
+                                            const hy = centeredToView(wp.y + handle.y);
+                                            return (
+                                                <g key={`${side}-${wp.id}`}>
+                                                    <line
+                                                        x1={centeredToView(wp.x)}
+                                                        y1={centeredToView(wp.y)}
+                                                        x2={hx}
+                                                        y2={hy}
+                                                        stroke="rgba(226, 232, 240, 0.5)"
+                                                        strokeWidth={0.002}
+                                                        pointerEvents="none"
+                                                    />
+                                                    <rect
+                                                        x={hx - 0.008}
+                                                        y={hy - 0.008}
+                                                        width={0.016}
+                                                        height={0.016}
+                                                        fill={wp[side] ? color : 'rgb(15,23,42)'}
+                                                        stroke={color}
+                                                        strokeWidth={0.002}
+                                                        style={{
+                                                            cursor:
+                                                                editMode === 'move'
+                                                                    ? 'grab'
+                                                                    : 'default',
+                                                        }}
+                                                        onMouseDown={(e) =>
+                                                            handleHandleMouseDown(e, {
+                                                                waypointId: wp.id,
+                                                                side,
+                                                            })
+                                                        }
+                                                        onClick={(e) => e.stopPropagation()}
+                                                    />
+                                                </g>
+                                            );
+                                        });
+                                    })}
+
                                 {/* Waypoints */}
                                 {p.waypoints.map((wp, index) => {
                                     const viewX = centeredToView(wp.x);
@@ -492,6 +586,22 @@ const AnimationPathEditor: React.FC<AnimationPathEditorProps> = ({
                     End
                 </span>
             </div>
+
+            {/* Curve, easing and waypoint timing */}
+            {path && (
+                <AnimationPathCurvePanel
+                    path={path}
+                    onUpdatePath={onUpdatePath}
+                    disabled={disabled}
+                />
+            )}
+            {path && (
+                <AnimationPathTimingPanel
+                    path={path}
+                    onUpdatePath={onUpdatePath}
+                    disabled={disabled}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,177 @@
+import React from 'react';
+
+import { EASING_LABELS, createEasing } from '@/services/animationEasing';
+import type {
+    AnimationEasing,
+    AnimationEasingType,
+    AnimationPath,
+    AnimationWaypoint,
+} from '@/types/animation';
+import { MAX_WAYPOINT_TIME_MS } from '@/types/animation';
+
+interface AnimationPathTimingPanelProps {
+    path: AnimationPath;
+    onUpdatePath: (path: AnimationPath) => void;
+    disabled?: boolean;
+}
+
+type BezierKey = 'x1' | 'y1' | 'x2' | 'y2';
+
+const EASING_TYPES = Object.keys(EASING_LABELS) as AnimationEasingType[];
+const BEZIER_KEYS: BezierKey[] = ['x1', 'y1', 'x2', 'y2'];
+
+const inputClassName =
+    'w-20 rounded border border-gray-700 bg-gray-800 px-2 py-1 text-xs text-gray-200 focus:border-cyan-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50';
+
+/** Parse a millisecond input; empty clears the value. */
+const parseTimeInput = (value: string): number | undefined => {
+    if (value.trim() === '') return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) return undefined;
+    return Math.max(0, Math.min(MAX_WAYPOINT_TIME_MS, Math.round(parsed)));
+};
+
+const AnimationPathTimingPanel: React.FC<AnimationPathTimingPanelProps> = ({
+    path,
+    onUpdatePath,
+    disabled = false,
+}) => {
+    const easing: AnimationEasing = path.easing ?? { type: 'linear' };
+
+    const updateWaypoint = (
+        waypointId: string,
+        field: 'arrivalMs' | 'dwellMs',
+        value: number | undefined,
+    ) => {
+        onUpdatePath({
+            ...path,
+            waypoints: path.waypoints.map((waypoint): AnimationWaypoint => {
+                if (waypoint.id !== waypointId) return waypoint;
+                const next = { ...waypoint };
+                if (value === undefined) {
+                    delete next[field];
+                } else {
+                    next[field] = value;
+                }
+                return next;
+            }),
+        });
+    };
+
+    const updateBezier = (key: BezierKey, value: string) => {
+        if (easing.type !== 'cubic-bezier') return;
+        const parsed = Number(value);
+        if (!Number.isFinite(parsed)) return;
+        const clamped = key.startsWith('x') ? Math.max(0, Math.min(1, parsed)) : parsed;
+        onUpdatePath({ ...path, easing: { ...easing, [key]: clamped } });
+    };
+
+    return (
+        <div className="flex flex-col gap-3 rounded-md bg-gray-800/50 p-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <label htmlFor="path-easing-select" className="text-xs font-medium text-gray-400">
+                    Easing
+                </label>
+                <select
+                    id="path-easing-select"
+                    value={easing.type}
+                    onChange={(e) =>
+                        onUpdatePath({
+                            ...path,
+                            easing: createEasing(e.target.value as AnimationEasingType),
+                        })
+                    }
+                    disabled={disabled}
+                    className="rounded-md border border-gray-700 bg-gray-800 px-2 py-1 text-xs text-gray-200 focus:border-cyan-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                    {EASING_TYPES.map((type) => (
+                        <option key={type} value={type}>
+                            {EASING_LABELS[type]}
+                        </option>
+                    ))}
+                </select>
+                {easing.type === 'cubic-bezier' &&
+                    BEZIER_KEYS.map((key) => (
+                        <label key={key} className="flex items-center gap-1 text-xs text-gray-500">
+                            {key}
+                            <input
+                                type="number"
+                                step={0.05}
+                                min={key.startsWith('x') ? 0 : undefined}
+                                max={key.startsWith('x') ? 1 : undefined}
+                                value={easing[key]}
+                                onChange={(e) => updateBezier(key, e.target.value)}
+                                disabled={disabled}
+                                className="w-16 rounded border border-gray-700 bg-gray-800 p-1 text-xs text-gray-200 focus:border-cyan-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+                            />
+                        </label>
+                    ))}
+            </div>
+
+            {path.waypoints.length > 0 && (
+                <table className="w-full text-left text-xs">
+                    <thead className="text-gray-500">
+                        <tr>
+                            <th className="py-1 pr-3 font-normal">#</th>
+                            <th className="py-1 pr-3 font-normal">Arrival (ms)</th>
+                            <th className="py-1 font-normal">Dwell (ms)</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {path.waypoints.map((waypoint, index) => (
+                            <tr key={waypoint.id} className="border-t border-gray-700/50">
+                                <td className="py-1 pr-3 text-gray-400">{index + 1}</td>
+                                <td className="py-1 pr-3">
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={MAX_WAYPOINT_TIME_MS}
+                                        step={50}
+                                        placeholder={index === 0 ? '—' : 'auto'}
+                                        aria-label={`Arrival time for waypoint ${index + 1}`}
+                                        value={waypoint.arrivalMs ?? ''}
+                                        onChange={(e) =>
+                                            updateWaypoint(
+                                                waypoint.id,
+                                                'arrivalMs',
+                                                parseTimeInput(e.target.value),
+                                            )
+                                        }
+                                        disabled={disabled || index === 0}
+                                        className={inputClassName}
+                                    />
+                                </td>
+                                <td className="py-1">
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={MAX_WAYPOINT_TIME_MS}
+                                        step={50}
+                                        placeholder="0"
+                                        aria-label={`Dwell time for waypoint ${index + 1}`}
+                                        value={waypoint.dwellMs ?? ''}
+                                        onChange={(e) =>
+                                            updateWaypoint(
+                                                waypoint.id,
+                                                'dwellMs',
+                                                parseTimeInput(e.target.value),
+                                            )
+                                        }
+                                        disabled={disabled}
+                                        className={inputClassName}
+                                    />
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            <p className="text-xs text-gray-500">
+                Arrival is the travel time from the previous waypoint; leave it empty to follow the
+                animation speed. Segments are stretched when motors cannot keep up.
+            </p>
+        </div>
+    );
+};
+
+export default AnimationPathTimingPanel;
@@ -6,6 +6,8 @@ interface AnimationSequentialConfigProps {
     config: SequentialModeConfig | undefined;
     paths: AnimationPath[];
     gridSize: { rows: number; cols: number };
+    /** Planned duration of one pass including the stagger; null when it cannot be planned */
+    estimatedDurationMs?: number | null;
     onChange: (config: SequentialModeConfig) => void;
     disabled?: boolean;
 }
@@ -20,6 +22,7 @@ const AnimationSequentialConfig: React.FC<AnimationSequentialConfigProps> = ({
     config,
     paths,
     gridSize,
+    estimatedDurationMs = null,
     onChange,
     disabled = false,
 }) => {
@@ -47,9 +50,6 @@ const AnimationSequentialConfig: React.FC<AnimationSequentialConfigProps> = ({
     };
 
     const selectedPath = paths.find((p) => p.id === config?.pathId);
-    const estimatedDuration = selectedPath
-        ? (selectedPath.waypoints.length - 1) * 500 + totalMirrors * (config?.offsetMs ?? 100)
-        : 0;
 
     return (
         <div className="flex flex-col gap-4">
@@ -167,7 +167,9 @@ const AnimationSequentialConfig: React.FC<AnimationSequentialConfigProps> = ({
                     </p>
                     <p className="text-gray-300">
                         <span className="text-gray-500">Est. Duration:</span>{' '}
-                        {estimatedDuration > 0 ? `~${(estimatedDuration / 1000).toFixed(1)}s` : '-'}
+                        {estimatedDurationMs !== null && estimatedDurationMs > 0
+                            ? `~${(estimatedDurationMs / 1000).toFixed(1)}s`
+                            : '-'}
                     </p>
                 </div>
             </div>
@@ -1,7 +1,9 @@
 export { default as AnimationMirrorAssignments } from './AnimationMirrorAssignments';
 export { default as AnimationModeSelector } from './AnimationModeSelector';
+export { default as AnimationPathCurvePanel } from './AnimationPathCurvePanel';
 export { default as AnimationPathEditor } from './AnimationPathEditor';
 export type { TileBound } from './AnimationPathEditor';
+export { default as AnimationPathTimingPanel } from './AnimationPathTimingPanel';
 export { default as AnimationPathLibrary } from './AnimationPathLibrary';
 export { default as AnimationPlaybackControls } from './AnimationPlaybackControls';
 export { default as AnimationPreview } from './AnimationPreview';
@@ -0,0 +1,247 @@
+import React, { useMemo, useState } from 'react';
+
+import Modal from '@/components/Modal';
+import {
+    compareCalibrationProfiles,
+    type RecalibrationAdvice,
+    type TileDriftReason,
+    type ValueDelta,
+} from '@/services/calibration/profileDiff';
+import type { CalibrationProfile } from '@/types';
+
+import { formatDecimal, formatPercent } from './calibrationMetricsFormatters';
+
+interface CalibrationProfileDiffModalProps {
+    open: boolean;
+    onClose: () => void;
+    profiles: CalibrationProfile[];
+    /** Profile used as the "before" side when the modal opens. */
+    initialBaseId: string | null;
+}
+
+const REASON_LABELS: Record<TileDriftReason, string> = {
+    'home-drift': 'Home drift',
+    'home-outlier': 'Drift outlier',
+    'step-scale': 'Step scale',
+    bounds: 'Bounds',
+    'blob-size': 'Blob size',
+    status: 'Status',
+};
+
+const ADVICE_STYLES: Record<RecalibrationAdvice, { className: string; message: string }> = {
+    none: {
+        className: 'border-emerald-500/50 bg-emerald-500/5 text-emerald-200',
+        message: 'No tile drifted beyond the thresholds.',
+    },
+    tiles: {
+        className: 'border-amber-500/50 bg-amber-500/10 text-amber-200',
+        message: 'Some tiles drifted; recalibrating those tiles should be enough.',
+    },
+    full: {
+        className: 'border-rose-500/50 bg-rose-500/5 text-rose-200',
+        message: 'The array changed significantly; run a full calibration.',
+    },
+};
+
+const formatRelative = (delta: ValueDelta): string =>
+    formatPercent(delta.relative, { signed: true });
+
+const ProfileSelect: React.FC<{
+    id: string;
+    label: string;
+    value: string;
+    profiles: CalibrationProfile[];
+    onChange: (value: string) => void;
+}> = ({ id, label, value, profiles, onChange }) => (
+    <div className="flex-1">
+        <label htmlFor={id} className="mb-1 block text-xs text-gray-400">
+            {label}
+        </label>
+        <select
+            id={id}
+            value={value}
+            onChange={(event) => onChange(event.target.value)}
+            className="w-full rounded-md border border-gray-700 bg-gray-900/60 px-3 py-2 text-sm text-gray-100"
+        >
+            {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                </option>
+            ))}
+        </select>
+    </div>
+);
+
+const CalibrationProfileDiffModal: React.FC<CalibrationProfileDiffModalProps> = ({
+    open,
+    onClose,
+    profiles,
+    initialBaseId,
+}) => {
+    const [beforeId, setBeforeId] = useState(() => initialBaseId ?? profiles[0]?.id ?? '');
+    const [afterId, setAfterId] = useState(
+        () => profiles.find((profile) => profile.id !== beforeId)?.id ?? beforeId,
+    );
+
+    const before = profiles.find((profile) => profile.id === beforeId) ?? null;
+    const after = profiles.find((profile) => profile.id === afterId) ?? null;
+
+    const report = useMemo(
+        () => (before && after ? compareCalibrationProfiles(before, after) : null),
+        [after, before],
+    );
+
+    return (
+        <Modal
+            open={open}
+            onClose={onClose}
+            title="Compare Profiles"
+            contentClassName="w-auto max-w-4xl"
+        >
+            <div className="flex max-h-[70vh] flex-col gap-4 overflow-y-auto text-sm text-gray-300">
+                <div className="flex items-end gap-3">
+                    <ProfileSelect
+                        id="diff-before"
+                        label="Before"
+                        value={beforeId}
+                        profiles={profiles}
+                        onChange={setBeforeId}
+                    />
+                    <ProfileSelect
+                        id="diff-after"
+                        label="After"
+                        value={afterId}
+                        profiles={profiles}
+                        onChange={setAfterId}
+                    />
+                </div>
+
+                {!report ? (
+                    <p className="text-xs text-gray-500">Select two profiles to compare.</p>
+                ) : (
+                    <>
+                        <div
+                            className={`rounded-md border px-3 py-2 text-xs ${ADVICE_STYLES[report.advice].className}`}
+                        >
+                            <p>{ADVICE_STYLES[report.advice].message}</p>
+                            {report.flaggedTileKeys.length > 0 && (
+                                <p className="mt-1">
+                                    {report.flaggedTileKeys.length} of {report.tiles.length} tiles
+                                    flagged.
+                                </p>
+                            )}
+                            {report.warnings.map((warning) => (
+                                <p key={warning} className="mt-1">
+                                    {warning}
+                                </p>
+                            ))}
+                        </div>
+
+                        <section className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs sm:grid-cols-4">
+                            <span className="text-gray-400">Footprint</span>
+                            <span className="font-mono text-gray-100">
+                                {report.blueprint
+                                    ? `${formatRelative(report.blueprint.footprintWidth)} × ${formatRelative(report.blueprint.footprintHeight)}`
+                                    : '—'}
+                            </span>
+                            <span className="text-gray-400">Tile gap</span>
+                            <span className="font-mono text-gray-100">
+                                {report.blueprint
+                                    ? `${formatRelative(report.blueprint.tileGapX)} × ${formatRelative(report.blueprint.tileGapY)}`
+                                    : '—'}
+                            </span>
+                            <span className="text-gray-400">Grid origin shift</span>
+                            <span className="font-mono text-gray-100">
+                                {report.blueprint
+                                    ? `${formatDecimal(report.blueprint.gridOriginShift.dx, { signed: true })}, ${formatDecimal(report.blueprint.gridOriginShift.dy, { signed: true })}`
+                                    : '—'}
+                            </span>
+                            <span className="text-gray-400">Common shift</span>
+                            <span className="font-mono text-gray-100">
+                                {report.commonShift
+                                    ? `${formatDecimal(report.commonShift.dx, { signed: true })}, ${formatDecimal(report.commonShift.dy, { signed: true })}`
+                                    : '—'}
+                            </span>
+                            <span className="text-gray-400">Median residual</span>
+                            <span className="font-mono text-gray-100">
+                                {report.residualDriftStats.count > 0
+                                    ? formatPercent(report.residualDriftStats.median)
+                                    : '—'}
+                            </span>
+                        </section>
+
+                        <table className="w-full text-left text-xs">
+                            <thead className="text-gray-400">
+                                <tr>
+                                    <th className="py-1 pr-3 font-normal">Tile</th>
+                                    <th className="py-1 pr-3 font-normal">Home shift</th>
+                                    <th className="py-1 pr-3 font-normal">Residual</th>
+                                    <th className="py-1 pr-3 font-normal">Step X</th>
+                                    <th className="py-1 pr-3 font-normal">Step Y</th>
+                                    <th className="py-1 pr-3 font-normal">Bounds</th>
+                                    <th className="py-1 pr-3 font-normal">Blob size</th>
+                                    <th className="py-1 font-normal">Flags</th>
+                                </tr>
+                            </thead>
+                            <tbody className="font-mono">
+                                {report.tiles.map((tile) => {
+                                    const flagged = tile.reasons.length > 0;
+                                    return (
+                                        <tr
+                                            key={tile.key}
+                                            className={`border-t border-gray-800 ${
+                                                flagged ? 'bg-rose-500/5 text-rose-200' : ''
+                                            }`}
+                                        >
+                                            <td className="py-1 pr-3">
+                                                [{tile.row},{tile.col}]
+                                            </td>
+                                            <td className="py-1 pr-3">
+                                                {tile.homeShift
+                                                    ? formatDecimal(tile.homeShift.magnitude)
+                                                    : '—'}
+                                            </td>
+                                            <td className="py-1 pr-3">
+                                                {formatPercent(tile.residualDrift)}
+                                            </td>
+                                            <td className="py-1 pr-3">
+                                                {formatRelative(tile.stepToDisplacement.x)}
+                                            </td>
+                                            <td className="py-1 pr-3">
+                                                {formatRelative(tile.stepToDisplacement.y)}
+                                            </td>
+                                            <td className="py-1 pr-3">
+                                                {formatPercent(tile.boundsShift)}
+                                            </td>
+                                            <td className="py-1 pr-3">
+                                                {formatRelative(tile.blobSize)}
+                                            </td>
+                                            <td className="py-1 font-sans">
+                                                {tile.reasons.length > 0
+                                                    ? tile.reasons
+                                                          .map((reason) => REASON_LABELS[reason])
+                                                          .join(', ')
+                                                    : tile.statusAfter === null
+                                                      ? 'Missing after'
+                                                      : tile.statusBefore === null
+                                                        ? 'New'
+                                                        : ''}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                        <p className="text-[11px] text-gray-500">
+                            Residual is the home shift minus the common shift; residual and bounds
+                            are fractions of the tile footprint. Step and blob columns are relative
+                            changes.
+                        </p>
+                    </>
+                )}
+            </div>
+        </Modal>
+    );
+};
+
+export default CalibrationProfileDiffModal;
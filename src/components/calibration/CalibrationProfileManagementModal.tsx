@@ -13,6 +13,8 @@ import type { CalibrationProfile, MirrorConfig } from '@/types';
 
 import DropdownMenu from '../common/DropdownMenu';
 
+import CalibrationProfileDiffModal from './CalibrationProfileDiffModal';
+
 interface CalibrationProfileManagementModalProps {
     open: boolean;
     onClose: () => void;
@@ -61,6 +63,7 @@ const CalibrationProfileManagementModal: React.FC<CalibrationProfileManagementMo
         profileId: string;
         profileName: string;
     } | null>(null);
+    const [compareBaseId, setCompareBaseId] = useState<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement | null>(null);
 
     const resolvedStorage = useMemo(
@@ -454,6 +457,25 @@ const CalibrationProfileManagementModal: React.FC<CalibrationProfileManagementMo
                                                     ),
                                                     onClick: () => handleExportProfile(profile),
                                                 },
+                                                {
+                                                    label: 'Compare…',
+                                                    icon: (
+                                                        <svg
+                                                            fill="none"
+                                                            viewBox="0 0 24 24"
+                                                            stroke="currentColor"
+                                                        >
+                                                            <path
+                                                                strokeLinecap="round"
+                                                                strokeLinejoin="round"
+                                                                strokeWidth={2}
+                                                                d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"
+                                                            />
+                                                        </svg>
+                                                    ),
+                                                    onClick: () => setCompareBaseId(profile.id),
+                                                    disabled: sortedProfiles.length < 2,
+                                                },
                                                 {
                                                     label: 'Delete',
                                                     icon: (
@@ -487,6 +509,15 @@ const CalibrationProfileManagementModal: React.FC<CalibrationProfileManagementMo
                 )}
             </div>
 
+            {compareBaseId !== null && (
+                <CalibrationProfileDiffModal
+                    open
+                    onClose={() => setCompareBaseId(null)}
+                    profiles={sortedProfiles}
+                    initialBaseId={compareBaseId}
+                />
+            )}
+
             {/* Delete Confirmation Modal */}
             <Modal
                 open={deleteConfirmation !== null}
@@ -64,6 +64,8 @@ const CalibrationRunnerPanel: React.FC<CalibrationRunnerPanelProps> = ({
                     onFirstTileToleranceChange={settingsController.setFirstTileTolerance}
                     tileTolerance={settingsController.tileTolerance}
                     onTileToleranceChange={settingsController.setTileTolerance}
+                    stepResponseSamples={settingsController.stepResponseSamples}
+                    onStepResponseSamplesChange={settingsController.setStepResponseSamples}
                     disabled={isCalibrationActive}
                     isDefaultSettings={settingsController.isDefaultSettings}
                     onResetToDefaults={settingsController.resetToDefaults}
@@ -81,6 +83,11 @@ const CalibrationRunnerPanel: React.FC<CalibrationRunnerPanelProps> = ({
                     detectionReady={detectionReady}
                     pendingDecision={controller.pendingDecision}
                     onStart={onStart}
+                    onVerifyRepair={
+                        runnerState.summary?.gridBlueprint
+                            ? controller.startVerifyAndRepair
+                            : undefined
+                    }
                     onPause={onPause}
                     onResume={onResume}
                     onAbort={onAbort}
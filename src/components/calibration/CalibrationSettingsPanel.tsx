@@ -6,6 +6,7 @@ import {
     STAGING_POSITION_LABELS,
     GRID_GAP_MIN_PERCENT,
     GRID_GAP_MAX_PERCENT,
+    MAX_STEP_RESPONSE_SAMPLES,
 } from '@/constants/calibration';
 import { useEditableInput } from '@/hooks/useEditableInput';
 import type { ArrayRotation, StagingPosition } from '@/types';
@@ -26,6 +27,8 @@ interface CalibrationSettingsPanelProps {
     onFirstTileToleranceChange: (value: number) => void;
     tileTolerance: number;
     onTileToleranceChange: (value: number) => void;
+    stepResponseSamples: number;
+    onStepResponseSamplesChange: (value: number) => void;
     disabled?: boolean;
     isDefaultSettings?: boolean;
     onResetToDefaults?: () => void;
@@ -51,6 +54,8 @@ const CalibrationSettingsPanel: React.FC<CalibrationSettingsPanelProps> = ({
     onFirstTileToleranceChange,
     tileTolerance,
     onTileToleranceChange,
+    stepResponseSamples,
+    onStepResponseSamplesChange,
     disabled = false,
     isDefaultSettings = true,
     onResetToDefaults,
@@ -142,6 +147,22 @@ const CalibrationSettingsPanel: React.FC<CalibrationSettingsPanelProps> = ({
         },
     });
 
+    const stepResponseSamplesInput = useEditableInput({
+        value: stepResponseSamples,
+        onChange: onStepResponseSamplesChange,
+        format: (v) => v.toString(),
+        parse: (s) => {
+            const n = Number(s);
+            return Number.isNaN(n) ? null : Math.round(n);
+        },
+        validateInput: (s) => INTEGER_PATTERN.test(s),
+        transformOnBlur: true,
+        transform: (value) => {
+            const clamped = Math.min(Math.max(value, 0), MAX_STEP_RESPONSE_SAMPLES);
+            return [clamped, clamped.toString()];
+        },
+    });
+
     const rotationLabel = arrayRotation === 0 ? 'Normal' : `${arrayRotation}°`;
     const stagingLabel = STAGING_POSITION_LABELS[stagingPosition];
     const gapPercent = (gridGapNormalized * 100).toFixed(1);
@@ -313,7 +334,7 @@ const CalibrationSettingsPanel: React.FC<CalibrationSettingsPanelProps> = ({
                 </div>
 
                 {/* Tolerance Settings */}
-                <div className="grid gap-4 sm:grid-cols-2">
+                <div className="grid gap-4 sm:grid-cols-3">
                     <label className="text-sm text-gray-300">
                         <span className="mb-1 block text-xs tracking-wide text-gray-500 uppercase">
                             1st Tile Tolerance (%)
@@ -348,6 +369,23 @@ const CalibrationSettingsPanel: React.FC<CalibrationSettingsPanelProps> = ({
                             title="Tolerance for full step tests and subsequent tiles"
                         />
                     </label>
+                    <label className="text-sm text-gray-300">
+                        <span className="mb-1 block text-xs tracking-wide text-gray-500 uppercase">
+                            Response Samples
+                        </span>
+                        <input
+                            type="text"
+                            inputMode="numeric"
+                            pattern="[0-9]*"
+                            value={stepResponseSamplesInput.displayValue}
+                            onFocus={stepResponseSamplesInput.onFocus}
+                            onBlur={stepResponseSamplesInput.onBlur}
+                            onChange={stepResponseSamplesInput.onChange}
+                            disabled={disabled}
+                            className="w-full rounded-md border border-gray-700 bg-gray-900 px-3 py-2 text-gray-100 focus:border-emerald-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
+                            title={`Extra step positions sampled per direction to fit a non-linear step response (0 = linear only, max ${MAX_STEP_RESPONSE_SAMPLES})`}
+                        />
+                    </label>
                 </div>
             </div>
         </CollapsibleSection>
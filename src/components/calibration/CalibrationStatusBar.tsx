@@ -21,6 +21,8 @@ interface CalibrationStatusBarProps {
     /** Pending decision for user (retry/skip/abort) */
     pendingDecision: PendingDecision | null;
     onStart: () => void;
+    /** Verify the loaded profile and recalibrate drifted tiles; omitted when there is no profile */
+    onVerifyRepair?: () => void;
     onPause: () => void;
     onResume: () => void;
     onAbort: () => void;
@@ -78,6 +80,7 @@ const CalibrationStatusBar: React.FC<CalibrationStatusBarProps> = ({
     detectionReady,
     pendingDecision,
     onStart,
+    onVerifyRepair,
     onPause,
     onResume,
     onAbort,
@@ -286,6 +289,21 @@ const CalibrationStatusBar: React.FC<CalibrationStatusBarProps> = ({
                             Start
                         </button>
                     )}
+                    {!isActive && onVerifyRepair && (
+                        <button
+                            type="button"
+                            className={`rounded-md border px-3 py-2 text-sm transition-colors ${
+                                canStart && detectionReady
+                                    ? 'border-sky-500/60 bg-sky-500/10 text-sky-100 hover:border-sky-400'
+                                    : 'border-gray-800 text-gray-500'
+                            }`}
+                            disabled={!canStart || !detectionReady}
+                            onClick={onVerifyRepair}
+                            title="Check every tile against the loaded profile and recalibrate only the ones that drifted"
+                        >
+                            Verify &amp; repair
+                        </button>
+                    )}
                     {isActive && mode === 'step' && (
                         <>
                             <button
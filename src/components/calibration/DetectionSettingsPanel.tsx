@@ -7,8 +7,11 @@ import {
 } from '@/constants/calibration';
 import type { CameraStatus, PreviewMode } from '@/hooks/useCameraPipeline';
 import type { BlobDetectorParams, OpenCvWorkerStatus } from '@/services/opencvWorkerClient';
+import { RECORDED_CAMERA_DEVICE_ID } from '@/services/recordedCamera';
 import type { NormalizedRoi } from '@/types';
 
+import RecordedCameraControls from './RecordedCameraControls';
+
 interface DetectionSettingsPanelProps {
     devices: MediaDeviceInfo[];
     selectedDeviceId: string;
@@ -153,6 +156,10 @@ const DetectionSettingsPanel: React.FC<DetectionSettingsPanelProps> = ({
                             ))}
                         </select>
                     </label>
+                    <RecordedCameraControls
+                        selected={selectedDeviceId === RECORDED_CAMERA_DEVICE_ID}
+                        onSelect={() => onSelectDevice(RECORDED_CAMERA_DEVICE_ID)}
+                    />
                 </div>
                 <div className="mt-4 grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-400">
                     <div>
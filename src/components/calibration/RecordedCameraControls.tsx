@@ -0,0 +1,182 @@
+import React, { useState, useSyncExternalStore } from 'react';
+
+import {
+    configureRecordedCamera,
+    DEFAULT_RECORDING_FPS,
+    getRecordedCameraSource,
+    RECORDED_CAMERA_CHANGED_EVENT,
+    RecordedCameraSource,
+} from '@/services/recordedCamera';
+
+interface RecordedCameraControlsProps {
+    /** Whether the recording is the selected camera device */
+    selected: boolean;
+    onSelect: () => void;
+}
+
+const subscribeToRecording = (listener: () => void) => {
+    window.addEventListener(RECORDED_CAMERA_CHANGED_EVENT, listener);
+    return () => window.removeEventListener(RECORDED_CAMERA_CHANGED_EVENT, listener);
+};
+
+const buttonClass =
+    'rounded-md border border-gray-600 px-2 py-1 text-gray-300 transition-colors hover:border-gray-400 hover:text-gray-100 disabled:opacity-50';
+
+const RecordingPlayback: React.FC<{ source: RecordedCameraSource }> = ({ source }) => {
+    const { frameIndex, frameCount, playing, error } = useSyncExternalStore(
+        source.subscribe,
+        source.getState,
+    );
+    const atEnd = frameIndex >= frameCount - 1;
+
+    return (
+        <div className="flex flex-col gap-2" data-testid="recorded-camera-playback">
+            <div className="flex flex-wrap items-center gap-2">
+                <button
+                    type="button"
+                    onClick={() => void source.step(-1)}
+                    disabled={playing || frameIndex === 0}
+                    className={buttonClass}
+                    title="Previous frame"
+                >
+                    ◀
+                </button>
+                <button
+                    type="button"
+                    onClick={() => source.setPlaying(!playing)}
+                    disabled={!playing && atEnd}
+                    className={buttonClass}
+                >
+                    {playing ? 'Pause' : 'Play'}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => void source.step(1)}
+                    disabled={playing || atEnd}
+                    className={buttonClass}
+                    title="Next frame"
+                >
+                    ▶
+                </button>
+                <span className="ml-auto font-mono text-gray-400">
+                    {frameIndex + 1} / {frameCount}
+                </span>
+            </div>
+            <input
+                type="range"
+                min={0}
+                max={Math.max(0, frameCount - 1)}
+                value={frameIndex}
+                disabled={playing}
+                onChange={(event) => void source.seek(Number(event.target.value))}
+                aria-label="Recording frame"
+            />
+            {error && <span className="text-red-300">{error}</span>}
+        </div>
+    );
+};
+
+/**
+ * Load a recorded video or folder of stills as a camera device, for replaying a
+ * calibration session through detection without the installation.
+ */
+const RecordedCameraControls: React.FC<RecordedCameraControlsProps> = ({ selected, onSelect }) => {
+    const source = useSyncExternalStore(subscribeToRecording, getRecordedCameraSource);
+    const [videoFps, setVideoFps] = useState(DEFAULT_RECORDING_FPS);
+    const [loading, setLoading] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        if (files.length === 0) {
+            return;
+        }
+        setLoading(true);
+        try {
+            configureRecordedCamera(await RecordedCameraSource.load(files, { fps: videoFps }));
+            setLoadError(null);
+            onSelect();
+        } catch (error) {
+            setLoadError(error instanceof Error ? error.message : 'Unable to load the recording.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-2 rounded-md border border-gray-800 bg-gray-900/60 p-3 text-xs text-gray-300">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-gray-400">Recording</span>
+                <label className={`cursor-pointer ${buttonClass}`}>
+                    Video file
+                    <input
+                        type="file"
+                        accept="video/*"
+                        disabled={loading}
+                        onChange={(event) => void handleFiles(event)}
+                        className="hidden"
+                        data-testid="recorded-camera-video-input"
+                    />
+                </label>
+                <label className={`cursor-pointer ${buttonClass}`}>
+                    Image folder
+                    <input
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        // Non-standard folder picker; not part of React's input typings
+                        {...{ webkitdirectory: '' }}
+                        disabled={loading}
+                        onChange={(event) => void handleFiles(event)}
+                        className="hidden"
+                        data-testid="recorded-camera-folder-input"
+                    />
+                </label>
+                <label className="flex items-center gap-1 text-gray-400">
+                    FPS
+                    <input
+                        type="number"
+                        min={1}
+                        max={240}
+                        value={videoFps}
+                        onChange={(event) => {
+                            const value = Number(event.target.value);
+                            if (Number.isFinite(value) && value > 0) {
+                                setVideoFps(value);
+                            }
+                        }}
+                        className="w-14 rounded border border-gray-700 bg-gray-900 px-1 py-0.5 text-gray-100"
+                    />
+                </label>
+                {source && (
+                    <button
+                        type="button"
+                        onClick={() => configureRecordedCamera(null)}
+                        className={`ml-auto ${buttonClass}`}
+                    >
+                        Unload
+                    </button>
+                )}
+            </div>
+            {loading && <span className="text-gray-400">Loading recording…</span>}
+            {loadError && <span className="text-red-300">{loadError}</span>}
+            {source ? (
+                <>
+                    <p className="text-gray-400">
+                        <span className="font-mono text-gray-200">{source.name}</span> ·{' '}
+                        {source.width}×{source.height}
+                        {selected ? '' : ' · select it as the camera device to replay'}
+                    </p>
+                    {selected && <RecordingPlayback source={source} />}
+                </>
+            ) : (
+                <p className="text-gray-500">
+                    Replay a recorded session to tune detection offline.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default RecordedCameraControls;
@@ -0,0 +1,267 @@
+import React, { useState } from 'react';
+
+import Modal from '@/components/Modal';
+import { DEFAULT_CALIBRATION_RUNNER_SETTINGS } from '@/constants/calibration';
+import { buildWallHomography, orderQuadCorners } from '@/services/calibration';
+import type { CaptureBlobPositions } from '@/services/calibration/types';
+import type { WallHomography } from '@/types';
+
+interface WallHomographyPanelProps {
+    wallHomography: WallHomography | null;
+    onChange: (next: WallHomography | null) => void;
+    /** Frame the detector sees, used as the backdrop for picking points */
+    getFrameSource: () => HTMLCanvasElement | HTMLVideoElement | null;
+    captureBlobPositions: CaptureBlobPositions;
+    videoDimensions: { width: number; height: number };
+    disabled?: boolean;
+}
+
+type Point = { x: number; y: number };
+
+const CORNER_LABELS = ['top-left', 'top-right', 'bottom-right', 'bottom-left'];
+
+const snapshotFrame = (source: HTMLCanvasElement | HTMLVideoElement): string | null => {
+    const width = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+    const height = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+    if (!width || !height) {
+        return null;
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(source, 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+};
+
+const PointPicker: React.FC<{
+    frameUrl: string;
+    onComplete: (points: Point[]) => void;
+    onCancel: () => void;
+}> = ({ frameUrl, onComplete, onCancel }) => {
+    const [points, setPoints] = useState<Point[]>([]);
+
+    const handleClick = (event: React.MouseEvent<HTMLButtonElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        // Clicks are recorded in centered coords (-1 to 1, +y down)
+        const next = [
+            ...points,
+            {
+                x: ((event.clientX - rect.left) / rect.width) * 2 - 1,
+                y: ((event.clientY - rect.top) / rect.height) * 2 - 1,
+            },
+        ];
+        setPoints(next);
+        if (next.length === 4) {
+            onComplete(next);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-3 text-sm text-gray-300">
+            <p className="text-xs text-gray-400">
+                Click the four corners of the reference rectangle on the wall, in any order (
+                {points.length}/4).
+            </p>
+            <button
+                type="button"
+                className="relative block w-full cursor-crosshair overflow-hidden rounded border border-gray-700 p-0"
+                onClick={handleClick}
+                data-testid="wall-homography-picker"
+            >
+                <img src={frameUrl} alt="Camera frame" className="block w-full select-none" />
+                {points.map((point, index) => (
+                    <span
+                        key={index}
+                        className="pointer-events-none absolute size-3 -translate-1/2 rounded-full border-2 border-cyan-300 bg-cyan-500/40"
+                        style={{
+                            left: `${((point.x + 1) / 2) * 100}%`,
+                            top: `${((point.y + 1) / 2) * 100}%`,
+                        }}
+                    />
+                ))}
+            </button>
+            <div className="flex justify-end gap-2">
+                <button
+                    type="button"
+                    onClick={() => setPoints([])}
+                    disabled={points.length === 0}
+                    className="rounded-md border border-gray-600 px-3 py-1.5 text-xs text-gray-300 hover:border-gray-500 hover:text-white disabled:opacity-50"
+                >
+                    Clear points
+                </button>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="rounded-md border border-gray-600 px-3 py-1.5 text-xs text-gray-300 hover:border-gray-500 hover:text-white"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Perspective correction between the camera image and the wall plane. The four
+ * corners of a rectangle of known size are picked on a frame or detected as
+ * bright fiducial markers; calibration then rectifies every measurement.
+ */
+const WallHomographyPanel: React.FC<WallHomographyPanelProps> = ({
+    wallHomography,
+    onChange,
+    getFrameSource,
+    captureBlobPositions,
+    videoDimensions,
+    disabled = false,
+}) => {
+    const [referenceWidth, setReferenceWidth] = useState(
+        wallHomography?.referenceSize.width ?? 100,
+    );
+    const [referenceHeight, setReferenceHeight] = useState(
+        wallHomography?.referenceSize.height ?? 100,
+    );
+    const [frameUrl, setFrameUrl] = useState<string | null>(null);
+    const [detecting, setDetecting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const applyCorners = (corners: Point[] | null, method: WallHomography['method']) => {
+        const ordered = corners ? orderQuadCorners(corners) : null;
+        const next = ordered
+            ? buildWallHomography(
+                  ordered,
+                  { width: referenceWidth, height: referenceHeight },
+                  { sourceWidth: videoDimensions.width, sourceHeight: videoDimensions.height },
+                  method,
+              )
+            : null;
+        if (!next) {
+            setError('The reference corners do not form a usable quadrilateral.');
+            return;
+        }
+        setError(null);
+        onChange(next);
+    };
+
+    const openPicker = () => {
+        const source = getFrameSource();
+        const url = source ? snapshotFrame(source) : null;
+        if (!url) {
+            setError('No camera frame is available yet.');
+            return;
+        }
+        setError(null);
+        setFrameUrl(url);
+    };
+
+    const detectMarkers = async () => {
+        setDetecting(true);
+        try {
+            const blobs = await captureBlobPositions({
+                timeoutMs: DEFAULT_CALIBRATION_RUNNER_SETTINGS.sampleTimeoutMs,
+            });
+            if (!blobs || blobs.length < 4) {
+                setError(`Found ${blobs?.length ?? 0} markers; four are needed.`);
+                return;
+            }
+            applyCorners(blobs, 'fiducials');
+        } finally {
+            setDetecting(false);
+        }
+    };
+
+    const sizeInput = (label: string, value: number, setValue: (next: number) => void) => (
+        <label className="flex items-center gap-1 text-gray-400">
+            {label}
+            <input
+                type="number"
+                min={1}
+                value={value}
+                disabled={disabled}
+                onChange={(event) => {
+                    const next = Number(event.target.value);
+                    if (Number.isFinite(next) && next > 0) {
+                        setValue(next);
+                    }
+                }}
+                className="w-16 rounded border border-gray-700 bg-gray-900 px-1 py-0.5 text-gray-100"
+            />
+        </label>
+    );
+
+    const hasFrame = videoDimensions.width > 0 && videoDimensions.height > 0;
+
+    return (
+        <section className="rounded-lg border border-gray-800 bg-gray-950 p-4 shadow-lg">
+            <h2 className="text-lg font-semibold text-gray-100">Wall Perspective</h2>
+            <div className="mt-3 flex flex-col gap-3 text-xs text-gray-300">
+                <p className="text-gray-400">
+                    {wallHomography
+                        ? `Rectifying with a ${wallHomography.referenceSize.width}×${wallHomography.referenceSize.height} reference (${wallHomography.method === 'manual' ? 'picked' : 'fiducials'}).`
+                        : 'Off. Measurements use the camera image as-is.'}
+                </p>
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-gray-400">Reference</span>
+                    {sizeInput('W', referenceWidth, setReferenceWidth)}
+                    {sizeInput('H', referenceHeight, setReferenceHeight)}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <button
+                        type="button"
+                        onClick={openPicker}
+                        disabled={disabled || !hasFrame}
+                        className="rounded-md border border-gray-600 px-2 py-1 text-gray-300 hover:border-gray-400 hover:text-gray-100 disabled:opacity-50"
+                    >
+                        Pick corners…
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => void detectMarkers()}
+                        disabled={disabled || !hasFrame || detecting}
+                        className="rounded-md border border-gray-600 px-2 py-1 text-gray-300 hover:border-gray-400 hover:text-gray-100 disabled:opacity-50"
+                    >
+                        {detecting ? 'Detecting…' : 'Detect markers'}
+                    </button>
+                    {wallHomography && (
+                        <button
+                            type="button"
+                            onClick={() => onChange(null)}
+                            disabled={disabled}
+                            className="rounded-md border border-gray-600 px-2 py-1 text-gray-300 hover:border-gray-400 hover:text-gray-100 disabled:opacity-50"
+                        >
+                            Clear
+                        </button>
+                    )}
+                </div>
+                {wallHomography && (
+                    <ul className="grid grid-cols-2 gap-x-3 font-mono text-[11px] text-gray-500">
+                        {wallHomography.cameraPoints.map((point, index) => (
+                            <li key={CORNER_LABELS[index]}>
+                                {CORNER_LABELS[index]}: {point.x.toFixed(3)}, {point.y.toFixed(3)}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {error && <p className="text-red-300">{error}</p>}
+            </div>
+            <Modal
+                open={frameUrl !== null}
+                onClose={() => setFrameUrl(null)}
+                title="Pick Reference Corners"
+                contentClassName="max-w-4xl"
+            >
+                {frameUrl ? (
+                    <PointPicker
+                        frameUrl={frameUrl}
+                        onComplete={(points) => {
+                            setFrameUrl(null);
+                            applyCorners(points, 'manual');
+                        }}
+                        onCancel={() => setFrameUrl(null)}
+                    />
+                ) : null}
+            </Modal>
+        </section>
+    );
+};
+
+export default WallHomographyPanel;
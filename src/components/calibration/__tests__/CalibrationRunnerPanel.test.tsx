@@ -128,6 +128,7 @@ const createMockController = (
     runToEnd: noop,
     submitDecision: noop,
     startSingleTileRecalibration: noop,
+    startVerifyAndRepair: noop,
     ...overrides,
 });
 
@@ -141,6 +142,8 @@ const createMockSettingsController = (): CalibrationSettingsController => ({
     setFirstTileInterimStepDelta: noop,
     setFirstTileTolerance: noop,
     setTileTolerance: noop,
+    setStepResponseSamples: noop,
+    setWallHomography: noop,
     isDefaultSettings: true,
     resetToDefaults: noop,
 });
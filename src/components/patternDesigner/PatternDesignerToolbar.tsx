@@ -30,6 +30,10 @@ export interface PatternDesignerToolbarProps {
     onShowBoundsChange: (show: boolean) => void;
     canShowBounds: boolean;
 
+    // Shape generator panel toggle
+    generatorOpen: boolean;
+    onGeneratorToggle: () => void;
+
     // Step size reference
     blobRadius: number;
 
@@ -57,6 +61,8 @@ const PatternDesignerToolbar: React.FC<PatternDesignerToolbarProps> = ({
     showBounds,
     onShowBoundsChange,
     canShowBounds,
+    generatorOpen,
+    onGeneratorToggle,
     blobRadius,
     placedSpots,
     availableSpots,
@@ -115,6 +121,16 @@ const PatternDesignerToolbar: React.FC<PatternDesignerToolbarProps> = ({
                 >
                     Show Bounds
                 </button>
+                <button
+                    type="button"
+                    onClick={onGeneratorToggle}
+                    disabled={disabled}
+                    aria-pressed={generatorOpen}
+                    className={`${buttonBase} ${generatorOpen ? buttonActive : buttonInactive}`}
+                    title="Generate grids, rings, spirals, polygons, stars or random fills"
+                >
+                    Generate
+                </button>
 
                 {/* Spots count and hover hint */}
                 <span className="ml-auto flex items-center gap-3">
@@ -0,0 +1,179 @@
+import React from 'react';
+
+import {
+    PATTERN_GENERATOR_LABELS,
+    type PatternGeneratorKind,
+    type PatternGeneratorParams,
+} from '@/utils/patternGenerators';
+
+export interface PatternGeneratorPanelProps {
+    params: PatternGeneratorParams;
+    onParamsChange: (params: PatternGeneratorParams) => void;
+    /** Replace the pattern's points instead of appending to them */
+    replaceExisting: boolean;
+    onReplaceExistingChange: (replace: boolean) => void;
+    /** Number of points currently previewed on the canvas */
+    previewCount: number;
+    /** Maximum number of points, normally the calibrated tile count */
+    pointBudget: number;
+    onApply: () => void;
+    onCancel: () => void;
+}
+
+type NumericParam = Exclude<keyof PatternGeneratorParams, 'kind'>;
+
+interface FieldSpec {
+    key: NumericParam;
+    label: string;
+    min: number;
+    max: number;
+    step?: number;
+}
+
+const GENERATOR_KINDS = Object.keys(PATTERN_GENERATOR_LABELS) as PatternGeneratorKind[];
+
+const inputClassName =
+    'w-16 rounded border border-gray-700 bg-gray-800 px-2 py-1 text-xs text-gray-200 focus:border-cyan-500 focus:outline-none';
+
+const getFields = (kind: PatternGeneratorKind, pointBudget: number): FieldSpec[] => {
+    const count: FieldSpec = { key: 'count', label: 'Points', min: 1, max: pointBudget };
+    const rotation: FieldSpec = {
+        key: 'rotationDeg',
+        label: 'Rotate °',
+        min: -180,
+        max: 180,
+        step: 5,
+    };
+    switch (kind) {
+        case 'grid':
+            return [
+                { key: 'rows', label: 'Rows', min: 1, max: pointBudget },
+                { key: 'cols', label: 'Columns', min: 1, max: pointBudget },
+                rotation,
+            ];
+        case 'ring':
+            return [count, rotation];
+        case 'spiral':
+            return [
+                count,
+                { key: 'turns', label: 'Turns', min: 0.25, max: 10, step: 0.25 },
+                rotation,
+            ];
+        case 'polygon':
+            return [count, { key: 'sides', label: 'Sides', min: 3, max: 12 }, rotation];
+        case 'star':
+            return [
+                count,
+                { key: 'sides', label: 'Arms', min: 3, max: 12 },
+                { key: 'innerRatio', label: 'Inner', min: 0.1, max: 0.9, step: 0.05 },
+                rotation,
+            ];
+        case 'poisson':
+            return [count, { key: 'seed', label: 'Seed', min: 1, max: 9999 }];
+    }
+};
+
+/** Parameter panel for the procedural shape generators. */
+const PatternGeneratorPanel: React.FC<PatternGeneratorPanelProps> = ({
+    params,
+    onParamsChange,
+    replaceExisting,
+    onReplaceExistingChange,
+    previewCount,
+    pointBudget,
+    onApply,
+    onCancel,
+}) => {
+    const budget = Math.max(1, pointBudget);
+    const overBudget = previewCount > budget;
+
+    const setParam = (key: NumericParam, value: number) => {
+        onParamsChange({ ...params, [key]: value });
+    };
+
+    return (
+        <div className="mt-3 flex flex-wrap items-end gap-3 border-t border-gray-800 pt-3 text-xs">
+            <label className="flex flex-col gap-1 text-gray-400">
+                Shape
+                <select
+                    value={params.kind}
+                    onChange={(e) =>
+                        onParamsChange({ ...params, kind: e.target.value as PatternGeneratorKind })
+                    }
+                    className="rounded-md border border-gray-700 bg-gray-800 px-2 py-1 text-xs text-gray-200 focus:border-cyan-500 focus:outline-none"
+                >
+                    {GENERATOR_KINDS.map((kind) => (
+                        <option key={kind} value={kind}>
+                            {PATTERN_GENERATOR_LABELS[kind]}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            {getFields(params.kind, budget).map((field) => (
+                <label key={field.key} className="flex flex-col gap-1 text-gray-400">
+                    {field.label}
+                    <input
+                        type="number"
+                        min={field.min}
+                        max={field.max}
+                        step={field.step ?? 1}
+                        value={params[field.key]}
+                        onChange={(e) => {
+                            const value = Number(e.target.value);
+                            if (Number.isFinite(value)) {
+                                setParam(
+                                    field.key,
+                                    Math.max(field.min, Math.min(field.max, value)),
+                                );
+                            }
+                        }}
+                        className={inputClassName}
+                    />
+                </label>
+            ))}
+            <label className="flex flex-col gap-1 text-gray-400">
+                Size {Math.round(params.size * 100)}%
+                <input
+                    type="range"
+                    min={0.1}
+                    max={1}
+                    step={0.05}
+                    value={params.size}
+                    onChange={(e) => setParam('size', Number(e.target.value))}
+                />
+            </label>
+            <label className="flex items-center gap-2 text-gray-400">
+                <input
+                    type="checkbox"
+                    checked={replaceExisting}
+                    onChange={(e) => onReplaceExistingChange(e.target.checked)}
+                />
+                Replace points
+            </label>
+            <span className="ml-auto flex items-center gap-2">
+                <span
+                    className={`tabular-nums ${overBudget ? 'font-semibold text-red-300' : 'text-gray-400'}`}
+                >
+                    {previewCount} / {budget} preview
+                </span>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="rounded px-2 py-1 font-semibold text-gray-300 hover:bg-gray-700/50 hover:text-white"
+                >
+                    Cancel
+                </button>
+                <button
+                    type="button"
+                    onClick={onApply}
+                    disabled={previewCount === 0}
+                    className="rounded bg-cyan-600 px-2 py-1 font-semibold text-white hover:bg-cyan-500 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                    Apply
+                </button>
+            </span>
+        </div>
+    );
+};
+
+export default PatternGeneratorPanel;
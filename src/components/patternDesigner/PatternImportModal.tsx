@@ -0,0 +1,224 @@
+import React, { useMemo, useState } from 'react';
+
+import Modal from '@/components/Modal';
+import {
+    buildImportedPatternPoints,
+    createImageMask,
+    extractSvgPolylines,
+    readImagePixels,
+    sampleAlongPolylines,
+    sampleInsideMask,
+    type ImportPolyline,
+} from '@/services/patternImport';
+import type { CalibrationProfile, PatternPoint } from '@/types';
+
+type SvgSampling = 'outline' | 'fill';
+
+interface ImportSource {
+    name: string;
+    /** Outline polylines; null for raster images */
+    polylines: ImportPolyline[] | null;
+    /** Decoded pixels; null when the browser could not rasterise the file */
+    pixels: ImageData | null;
+}
+
+export interface PatternImportModalProps {
+    open: boolean;
+    onClose: () => void;
+    profile: CalibrationProfile | null;
+    /** Maximum number of points, normally the calibrated tile count */
+    pointBudget: number;
+    onImport: (name: string, points: PatternPoint[]) => void;
+}
+
+const ACCEPTED_TYPES = '.svg,.png,.jpg,.jpeg,image/svg+xml,image/png,image/jpeg';
+
+const inputClassName =
+    'w-20 rounded border border-gray-700 bg-gray-800 px-2 py-1 text-xs text-gray-200 focus:border-cyan-500 focus:outline-none';
+
+const isSvgFile = (file: File): boolean =>
+    file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
+
+const stripExtension = (name: string): string => name.replace(/\.[^.]+$/, '') || name;
+
+const PatternImportForm: React.FC<Omit<PatternImportModalProps, 'open'>> = ({
+    onClose,
+    profile,
+    pointBudget,
+    onImport,
+}) => {
+    const [source, setSource] = useState<ImportSource | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [svgSampling, setSvgSampling] = useState<SvgSampling>('outline');
+    const [pointCount, setPointCount] = useState(pointBudget);
+    const [threshold, setThreshold] = useState(128);
+    const [invert, setInvert] = useState(false);
+
+    const budget = Math.max(1, pointBudget);
+    const count = Math.max(1, Math.min(budget, pointCount));
+    const usesOutline = Boolean(source?.polylines) && svgSampling === 'outline';
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0] ?? null;
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const polylines = isSvgFile(file) ? extractSvgPolylines(await file.text()) : null;
+            const pixels = await readImagePixels(file).catch(() => null);
+            if (!polylines && !pixels) {
+                throw new Error('Unable to decode image.');
+            }
+            setSource({ name: stripExtension(file.name), polylines, pixels });
+            setSvgSampling(polylines && polylines.length > 0 ? 'outline' : 'fill');
+            setLoadError(null);
+        } catch (error) {
+            setSource(null);
+            setLoadError(error instanceof Error ? error.message : 'Unable to read file.');
+        }
+    };
+
+    const result = useMemo(() => {
+        if (!source) return null;
+        const samples = usesOutline
+            ? sampleAlongPolylines(source.polylines ?? [], count)
+            : source.pixels
+              ? sampleInsideMask(createImageMask(source.pixels, threshold, invert), count)
+              : [];
+        return buildImportedPatternPoints(samples, profile, (index) => `import-${index}`);
+    }, [source, usesOutline, count, threshold, invert, profile]);
+
+    const handleImport = () => {
+        if (!source || !result || result.points.length === 0) return;
+        onImport(source.name, result.points);
+    };
+
+    return (
+        <div className="flex flex-col gap-4 text-sm text-gray-300">
+            <p className="text-xs text-gray-400">
+                Import an SVG outline or a PNG/JPEG silhouette. Points are sampled up to the
+                calibrated tile count and fitted inside the tile bounds.
+            </p>
+
+            <label className="w-fit cursor-pointer rounded-md border border-gray-600 px-3 py-1.5 text-xs text-gray-300 transition-colors hover:border-gray-400 hover:text-gray-100">
+                {source ? `Replace ${source.name}` : 'Choose file'}
+                <input
+                    type="file"
+                    accept={ACCEPTED_TYPES}
+                    onChange={handleFileChange}
+                    className="hidden"
+                />
+            </label>
+            {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+
+            {source && (
+                <div className="flex flex-wrap items-end gap-4 text-xs">
+                    {source.polylines && (
+                        <label className="flex flex-col gap-1 text-gray-400">
+                            Sample
+                            <select
+                                value={svgSampling}
+                                onChange={(e) => setSvgSampling(e.target.value as SvgSampling)}
+                                className="rounded-md border border-gray-700 bg-gray-800 px-2 py-1 text-xs text-gray-200 focus:border-cyan-500 focus:outline-none"
+                            >
+                                <option value="outline">Along outline</option>
+                                <option value="fill" disabled={!source.pixels}>
+                                    Inside shape
+                                </option>
+                            </select>
+                        </label>
+                    )}
+                    <label className="flex flex-col gap-1 text-gray-400">
+                        Points (max {budget})
+                        <input
+                            type="number"
+                            min={1}
+                            max={budget}
+                            value={count}
+                            onChange={(e) => {
+                                const value = Number(e.target.value);
+                                if (Number.isFinite(value)) setPointCount(Math.round(value));
+                            }}
+                            className={inputClassName}
+                        />
+                    </label>
+                    {!usesOutline && (
+                        <>
+                            <label className="flex flex-col gap-1 text-gray-400">
+                                Threshold {threshold}
+                                <input
+                                    type="range"
+                                    min={1}
+                                    max={254}
+                                    value={threshold}
+                                    onChange={(e) => setThreshold(Number(e.target.value))}
+                                />
+                            </label>
+                            <label className="flex items-center gap-2 text-gray-400">
+                                <input
+                                    type="checkbox"
+                                    checked={invert}
+                                    onChange={(e) => setInvert(e.target.checked)}
+                                />
+                                Light shape
+                            </label>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {result && (
+                <div className="flex flex-col gap-2">
+                    <svg
+                        viewBox="-1 -1 2 2"
+                        className="aspect-square w-full max-w-xs self-center rounded bg-gray-950"
+                        role="img"
+                        aria-label="Import preview"
+                    >
+                        {result.points.map((point) => (
+                            <circle
+                                key={point.id}
+                                cx={point.x}
+                                cy={point.y}
+                                r={0.025}
+                                fill="rgb(34, 211, 238)"
+                            />
+                        ))}
+                    </svg>
+                    <p className="text-xs text-gray-400">
+                        {result.points.length} point{result.points.length === 1 ? '' : 's'}
+                        {result.droppedCount > 0 &&
+                            ` · ${result.droppedCount} outside the tile bounds dropped`}
+                    </p>
+                </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+                <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md border border-gray-600 px-4 py-2 text-sm font-medium text-gray-300 hover:border-gray-500 hover:text-white"
+                >
+                    Cancel
+                </button>
+                <button
+                    type="button"
+                    onClick={handleImport}
+                    disabled={!result || result.points.length === 0}
+                    className="rounded-md bg-cyan-600 px-4 py-2 text-sm font-semibold text-white hover:bg-cyan-500 disabled:cursor-not-allowed disabled:bg-gray-700 disabled:text-gray-400"
+                >
+                    Import
+                </button>
+            </div>
+        </div>
+    );
+};
+
+/** Create a pattern from an SVG or raster image. */
+const PatternImportModal: React.FC<PatternImportModalProps> = ({ open, ...props }) => (
+    <Modal open={open} onClose={props.onClose} title="Import Pattern">
+        {/* Mounted only while open so every import starts from a clean form */}
+        {open ? <PatternImportForm {...props} /> : null}
+    </Modal>
+);
+
+export default PatternImportModal;
@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+
+import Modal from '@/components/Modal';
+import { PATTERN_FONT_LABELS, type PatternFontId } from '@/constants/patternFonts';
+import { buildImportedPatternPoints, getPatternImportBounds } from '@/services/patternImport';
+import { layoutTextPattern } from '@/services/patternText';
+import type { CalibrationProfile, PatternPoint } from '@/types';
+
+export interface PatternTextModalProps {
+    open: boolean;
+    onClose: () => void;
+    profile: CalibrationProfile | null;
+    /** Maximum number of points, normally the calibrated tile count */
+    pointBudget: number;
+    onCreate: (name: string, points: PatternPoint[]) => void;
+}
+
+const FONT_IDS = Object.keys(PATTERN_FONT_LABELS) as PatternFontId[];
+
+const DEFAULT_POINTS_PER_GLYPH = 8;
+const MAX_POINTS_PER_GLYPH = 40;
+const MAX_LETTER_SPACING = 4;
+
+const fieldClassName =
+    'rounded-md border border-gray-700 bg-gray-800 px-2 py-1 text-xs text-gray-200 focus:border-cyan-500 focus:outline-none';
+
+const PatternTextForm: React.FC<Omit<PatternTextModalProps, 'open'>> = ({
+    onClose,
+    profile,
+    pointBudget,
+    onCreate,
+}) => {
+    const [text, setText] = useState('');
+    const [font, setFont] = useState<PatternFontId>('stroke');
+    const [letterSpacing, setLetterSpacing] = useState(1);
+    const [pointsPerGlyph, setPointsPerGlyph] = useState(DEFAULT_POINTS_PER_GLYPH);
+
+    const preview = useMemo(() => {
+        const bounds = getPatternImportBounds(profile);
+        const layout = layoutTextPattern({
+            text,
+            font,
+            letterSpacing,
+            pointsPerGlyph,
+            budget: pointBudget,
+            targetAspect: (bounds.xMax - bounds.xMin) / (bounds.yMax - bounds.yMin),
+        });
+        const fitted = buildImportedPatternPoints(
+            layout.points,
+            profile,
+            (index) => `text-${index}`,
+        );
+        return { layout, ...fitted };
+    }, [text, font, letterSpacing, pointsPerGlyph, pointBudget, profile]);
+
+    const { layout, points, droppedCount } = preview;
+    const name = text.trim().replace(/\s+/g, ' ');
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        if (points.length === 0) return;
+        onCreate(name, points);
+    };
+
+    return (
+        <form className="flex flex-col gap-4 text-sm text-gray-300" onSubmit={handleSubmit}>
+            <label className="flex flex-col gap-1 text-xs text-gray-400">
+                Text
+                <textarea
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    rows={2}
+                    placeholder="HELLO"
+                    className="rounded-md border border-gray-700 bg-gray-800 px-3 py-2 text-sm text-gray-100 uppercase focus:border-cyan-500 focus:outline-none"
+                />
+            </label>
+
+            <div className="flex flex-wrap items-end gap-4 text-xs">
+                <label className="flex flex-col gap-1 text-gray-400">
+                    Font
+                    <select
+                        value={font}
+                        onChange={(e) => setFont(e.target.value as PatternFontId)}
+                        className={fieldClassName}
+                    >
+                        {FONT_IDS.map((id) => (
+                            <option key={id} value={id}>
+                                {PATTERN_FONT_LABELS[id]}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col gap-1 text-gray-400">
+                    Letter spacing
+                    <input
+                        type="number"
+                        min={0}
+                        max={MAX_LETTER_SPACING}
+                        step={0.5}
+                        value={letterSpacing}
+                        onChange={(e) => {
+                            const value = Number(e.target.value);
+                            if (Number.isFinite(value)) {
+                                setLetterSpacing(Math.max(0, Math.min(MAX_LETTER_SPACING, value)));
+                            }
+                        }}
+                        className={`w-20 ${fieldClassName}`}
+                    />
+                </label>
+                <label className="flex flex-col gap-1 text-gray-400">
+                    Points per glyph
+                    <input
+                        type="number"
+                        min={1}
+                        max={MAX_POINTS_PER_GLYPH}
+                        value={pointsPerGlyph}
+                        onChange={(e) => {
+                            const value = Math.round(Number(e.target.value));
+                            if (Number.isFinite(value)) {
+                                setPointsPerGlyph(
+                                    Math.max(1, Math.min(MAX_POINTS_PER_GLYPH, value)),
+                                );
+                            }
+                        }}
+                        className={`w-20 ${fieldClassName}`}
+                    />
+                </label>
+            </div>
+
+            <svg
+                viewBox="-1 -1 2 2"
+                className="aspect-square w-full max-w-xs self-center rounded bg-gray-950"
+                role="img"
+                aria-label="Text preview"
+            >
+                {points.map((point) => (
+                    <circle
+                        key={point.id}
+                        cx={point.x}
+                        cy={point.y}
+                        r={0.025}
+                        fill="rgb(34, 211, 238)"
+                    />
+                ))}
+            </svg>
+            <div className="flex flex-col gap-1 text-xs text-gray-400">
+                <p>
+                    {points.length} of {pointBudget} points
+                    {layout.pointsPerGlyph > 0 &&
+                        layout.pointsPerGlyph < pointsPerGlyph &&
+                        ` · ${layout.pointsPerGlyph} per glyph to fit the tiles`}
+                    {droppedCount > 0 && ` · ${droppedCount} outside the tile bounds dropped`}
+                </p>
+                {layout.truncated && (
+                    <p className="text-amber-400">
+                        More letters than tiles; the text is cut short.
+                    </p>
+                )}
+                {layout.unsupported.length > 0 && (
+                    <p className="text-amber-400">
+                        No glyph for {layout.unsupported.join(' ')}; skipped.
+                    </p>
+                )}
+            </div>
+
+            <div className="flex justify-end gap-3">
+                <button
+                    type="button"
+                    onClick={onClose}
+                    className="rounded-md border border-gray-600 px-4 py-2 text-sm font-medium text-gray-300 hover:border-gray-500 hover:text-white"
+                >
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={points.length === 0}
+                    className="rounded-md bg-cyan-600 px-4 py-2 text-sm font-semibold text-white hover:bg-cyan-500 disabled:cursor-not-allowed disabled:bg-gray-700 disabled:text-gray-400"
+                >
+                    Create
+                </button>
+            </div>
+        </form>
+    );
+};
+
+/** Create a pattern that spells a short text. */
+const PatternTextModal: React.FC<PatternTextModalProps> = ({ open, ...props }) => (
+    <Modal open={open} onClose={props.onClose} title="Text Pattern">
+        {/* Mounted only while open so every text starts from a clean form */}
+        {open ? <PatternTextForm {...props} /> : null}
+    </Modal>
+);
+
+export default PatternTextModal;
@@ -28,15 +28,32 @@ import Modal from '@/components/Modal';
 import SequencePreview from '@/components/SequencePreview';
 import { useLogStore } from '@/context/LogContext';
 import { usePlaybackDispatch } from '@/hooks/usePlaybackDispatch';
+import { LIBRARY_CHANGED_EVENT } from '@/services/libraryBundle';
 import {
+    createSequenceEntry,
     loadPlaybackSequences,
     persistPlaybackSequences,
     removePlaybackSequence,
 } from '@/services/playbackSequenceStorage';
-import { planProfilePlayback } from '@/services/profilePlaybackPlanner';
-import type { CalibrationProfile, MirrorConfig, Pattern, PlaybackSequence } from '@/types';
-
-import SortableItem, { type QueuedPattern, type SequenceValidationResult } from './SortableItem';
+import {
+    planProfilePlayback,
+    type ProfilePlaybackPlanResult,
+} from '@/services/profilePlaybackPlanner';
+import { resolveShowKeyframes } from '@/services/showScheduler';
+import type {
+    CalibrationProfile,
+    MirrorConfig,
+    Pattern,
+    PlaybackLoopMode,
+    PlaybackSequence,
+    PlaybackSequenceEntry,
+} from '@/types';
+
+import SortableItem, {
+    type QueuedPattern,
+    type QueuedPatternTiming,
+    type SequenceValidationResult,
+} from './SortableItem';
 
 export type { QueuedPattern };
 
@@ -61,6 +78,26 @@ export interface PlaybackSequenceManagerHandle {
     addPatternById: (patternId: string) => void;
 }
 
+const toSequenceEntries = (items: QueuedPattern[]): PlaybackSequenceEntry[] =>
+    items.map((item) => ({
+        patternId: item.patternId,
+        transition: item.transition,
+        transitionMs: item.transitionMs,
+        staggerMs: item.staggerMs,
+        holdMs: item.holdMs,
+    }));
+
+const areEntriesEqual = (a: PlaybackSequenceEntry[], b: PlaybackSequenceEntry[]): boolean =>
+    a.length === b.length &&
+    a.every(
+        (entry, index) =>
+            entry.patternId === b[index].patternId &&
+            entry.transition === b[index].transition &&
+            entry.transitionMs === b[index].transitionMs &&
+            entry.staggerMs === b[index].staggerMs &&
+            entry.holdMs === b[index].holdMs,
+    );
+
 const PlaybackSequenceManager = React.forwardRef<
     PlaybackSequenceManagerHandle,
     PlaybackSequenceManagerProps
@@ -78,8 +115,12 @@ const PlaybackSequenceManager = React.forwardRef<
         ref,
     ) => {
         const { logInfo } = useLogStore();
-        const { playPatternSequence, isPlaying } = usePlaybackDispatch({ gridSize, mirrorConfig });
+        const { playPatternSequence, stopSequence, isPlaying } = usePlaybackDispatch({
+            gridSize,
+            mirrorConfig,
+        });
         const [sequence, setSequence] = useState<QueuedPattern[]>([]);
+        const [loopMode, setLoopMode] = useState<PlaybackLoopMode>('once');
         const [savedSequences, setSavedSequences] = useState<PlaybackSequence[]>(() =>
             loadPlaybackSequences(storage),
         );
@@ -127,37 +168,45 @@ const PlaybackSequenceManager = React.forwardRef<
         }, [activeSavedSequenceId, activeSequence?.name, isEditMode, onEditStateChange]);
 
         const validationResults = useMemo(() => {
-            const list: SequenceValidationResult[] = sequence.map((entry) => {
+            const list: SequenceValidationResult[] = [];
+            // Plan each entry from the one before it, matching how playback assigns tiles
+            let previousPlan: ProfilePlaybackPlanResult | null = null;
+            for (const entry of sequence) {
                 const pattern = patternLookup.get(entry.patternId);
                 if (!pattern) {
-                    return {
+                    list.push({
                         itemId: entry.id,
                         status: 'missing',
                         message: 'This pattern no longer exists.',
-                    };
+                    });
+                    continue;
                 }
                 if (!selectedProfile) {
-                    return {
+                    list.push({
                         itemId: entry.id,
                         status: 'blocked',
                         message: 'Select a calibration profile to validate.',
-                    };
+                    });
+                    continue;
                 }
                 const plan = planProfilePlayback({
                     gridSize,
                     mirrorConfig,
                     profile: selectedProfile,
                     pattern,
+                    previousPlan,
                 });
                 if (plan.errors.length === 0) {
-                    return { itemId: entry.id, status: 'ok' };
+                    previousPlan = plan;
+                    list.push({ itemId: entry.id, status: 'ok' });
+                } else {
+                    list.push({
+                        itemId: entry.id,
+                        status: 'error',
+                        message: plan.errors[0].message,
+                    });
                 }
-                return {
-                    itemId: entry.id,
-                    status: 'error',
-                    message: plan.errors[0].message,
-                };
-            });
+            }
             return {
                 list,
                 byItemId: new Map(list.map((result) => [result.itemId, result])),
@@ -186,6 +235,13 @@ const PlaybackSequenceManager = React.forwardRef<
             return null;
         }, [selectedProfile, sequence.length, validationResults.list]);
 
+        // Pick up sequences added by a library import
+        useEffect(() => {
+            const handleLibraryChange = () => setSavedSequences(loadPlaybackSequences(storage));
+            window.addEventListener(LIBRARY_CHANGED_EVENT, handleLibraryChange);
+            return () => window.removeEventListener(LIBRARY_CHANGED_EVENT, handleLibraryChange);
+        }, [storage]);
+
         const generateItemId = useCallback(() => {
             sequenceIdRef.current += 1;
             return `queued-${Date.now()}-${sequenceIdRef.current}`;
@@ -205,17 +261,18 @@ const PlaybackSequenceManager = React.forwardRef<
                 const activeSequence = savedSequences.find((s) => s.id === activeSavedSequenceId);
                 if (!activeSequence) return;
 
-                const currentPatternIds = sequence.map((entry) => entry.patternId);
+                const currentEntries = toSequenceEntries(sequence);
                 // Only save if changed
                 const isChanged =
-                    activeSequence.patternIds.length !== currentPatternIds.length ||
-                    activeSequence.patternIds.some((id, index) => id !== currentPatternIds[index]);
+                    activeSequence.loopMode !== loopMode ||
+                    !areEntriesEqual(activeSequence.entries, currentEntries);
 
                 if (isChanged) {
                     const updatedSequence: PlaybackSequence = {
                         ...activeSequence,
                         updatedAt: new Date().toISOString(),
-                        patternIds: currentPatternIds,
+                        entries: currentEntries,
+                        loopMode,
                     };
                     const nextSaved = savedSequences.map((s) =>
                         s.id === activeSavedSequenceId ? updatedSequence : s,
@@ -231,7 +288,7 @@ const PlaybackSequenceManager = React.forwardRef<
                     clearTimeout(autosaveTimeoutRef.current);
                 }
             };
-        }, [sequence, activeSavedSequenceId, savedSequences, storage, logInfo]);
+        }, [sequence, loopMode, activeSavedSequenceId, savedSequences, storage, logInfo]);
 
         const persistSequencePayload = useCallback(
             (sequenceId: string, name: string, existing?: PlaybackSequence) => {
@@ -241,7 +298,8 @@ const PlaybackSequenceManager = React.forwardRef<
                     name,
                     createdAt: existing?.createdAt ?? now,
                     updatedAt: now,
-                    patternIds: sequence.map((entry) => entry.patternId),
+                    entries: toSequenceEntries(sequence),
+                    loopMode,
                 };
                 const next = existing
                     ? savedSequences.map((entry) => (entry.id === sequenceId ? payload : entry))
@@ -256,7 +314,7 @@ const PlaybackSequenceManager = React.forwardRef<
                         : `Saved playback sequence as "${name}".`,
                 );
             },
-            [savedSequences, sequence, storage],
+            [loopMode, savedSequences, sequence, storage],
         );
 
         const addPatternById = useCallback(
@@ -270,7 +328,7 @@ const PlaybackSequenceManager = React.forwardRef<
 
                 const newItem: QueuedPattern = {
                     id: generateItemId(),
-                    patternId,
+                    ...createSequenceEntry(patternId),
                 };
 
                 setSequence((prev) => [...prev, newItem]);
@@ -294,6 +352,12 @@ const PlaybackSequenceManager = React.forwardRef<
             setRunMessage(null);
         };
 
+        const handleUpdateEntry = (itemId: string, changes: QueuedPatternTiming) => {
+            setSequence((prev) =>
+                prev.map((item) => (item.id === itemId ? { ...item, ...changes } : item)),
+            );
+        };
+
         const handleDragEnd = (event: DragEndEvent) => {
             const { active, over } = event;
             setDragOverId(null);
@@ -329,11 +393,9 @@ const PlaybackSequenceManager = React.forwardRef<
         const handlePlaySequence = useCallback(async () => {
             if (!canPlaySequence || !selectedProfile) return;
 
-            const patternsToPlay = sequence
-                .map((entry) => patternLookup.get(entry.patternId))
-                .filter((p): p is Pattern => Boolean(p));
+            const keyframes = resolveShowKeyframes(toSequenceEntries(sequence), patternLookup);
 
-            if (patternsToPlay.length === 0) {
+            if (keyframes.length === 0) {
                 setRunStatus('error');
                 setRunMessage('No valid patterns in sequence.');
                 return;
@@ -342,18 +404,25 @@ const PlaybackSequenceManager = React.forwardRef<
             setRunStatus('running');
             setRunMessage(null);
 
-            const result = await playPatternSequence(patternsToPlay, selectedProfile);
+            const result = await playPatternSequence(keyframes, selectedProfile, loopMode);
             setRunStatus(result.success ? 'success' : 'error');
             setRunMessage(result.message);
 
             if (!result.success && result.failures && result.failures.length > 0) {
                 showCommandErrorToast({
-                    title: patternsToPlay[0]?.name ?? 'Pattern playback',
+                    title: keyframes[0]?.pattern.name ?? 'Pattern playback',
                     totalCount: result.axisCount ?? result.failures.length,
                     errors: result.failures,
                 });
             }
-        }, [canPlaySequence, patternLookup, playPatternSequence, selectedProfile, sequence]);
+        }, [
+            canPlaySequence,
+            loopMode,
+            patternLookup,
+            playPatternSequence,
+            selectedProfile,
+            sequence,
+        ]);
 
         const handlePlaySavedSequence = useCallback(
             async (seq: PlaybackSequence) => {
@@ -363,11 +432,9 @@ const PlaybackSequenceManager = React.forwardRef<
                     return;
                 }
 
-                const patternsToPlay = seq.patternIds
-                    .map((id) => patternLookup.get(id))
-                    .filter((p): p is Pattern => Boolean(p));
+                const keyframes = resolveShowKeyframes(seq.entries, patternLookup);
 
-                if (patternsToPlay.length === 0) {
+                if (keyframes.length === 0) {
                     setRunStatus('error');
                     setRunMessage('No valid patterns in this sequence.');
                     return;
@@ -376,13 +443,13 @@ const PlaybackSequenceManager = React.forwardRef<
                 setRunStatus('running');
                 setRunMessage(null);
 
-                const result = await playPatternSequence(patternsToPlay, selectedProfile);
+                const result = await playPatternSequence(keyframes, selectedProfile, seq.loopMode);
                 setRunStatus(result.success ? 'success' : 'error');
                 setRunMessage(result.message);
 
                 if (!result.success && result.failures && result.failures.length > 0) {
                     showCommandErrorToast({
-                        title: patternsToPlay[0]?.name ?? 'Pattern playback',
+                        title: keyframes[0]?.pattern.name ?? 'Pattern playback',
                         totalCount: result.axisCount ?? result.failures.length,
                         errors: result.failures,
                     });
@@ -408,6 +475,7 @@ const PlaybackSequenceManager = React.forwardRef<
             const name = deriveDefaultSequenceName();
             const newId = `seq-${Date.now().toString(36)}`;
             setSequence([]);
+            setLoopMode('once');
             persistSequencePayload(newId, name);
             setRunStatus('success');
             setRunMessage(`Created "${name}". Add patterns to begin.`);
@@ -416,7 +484,7 @@ const PlaybackSequenceManager = React.forwardRef<
         const handleEditSequence = useCallback(
             (seq: PlaybackSequence) => {
                 // Load sequence into queue
-                const filtered = seq.patternIds.filter((id) => patternLookup.has(id));
+                const filtered = seq.entries.filter((entry) => patternLookup.has(entry.patternId));
                 if (filtered.length === 0) {
                     setRunStatus('error');
                     setRunMessage(
@@ -426,14 +494,15 @@ const PlaybackSequenceManager = React.forwardRef<
                     setActiveSavedSequenceId(null);
                     return;
                 }
-                const queuedItems: QueuedPattern[] = filtered.map((pid) => ({
+                const queuedItems: QueuedPattern[] = filtered.map((entry) => ({
                     id: generateItemId(),
-                    patternId: pid,
+                    ...entry,
                 }));
                 setSequence(queuedItems);
+                setLoopMode(seq.loopMode);
                 setActiveSavedSequenceId(seq.id);
                 if (onSelectPatternId) {
-                    onSelectPatternId(filtered[0]); // Select the first pattern in the sequence
+                    onSelectPatternId(filtered[0].patternId); // Select the first pattern in the sequence
                 }
                 setRunStatus('idle');
                 setRunMessage(null);
@@ -513,6 +582,15 @@ const PlaybackSequenceManager = React.forwardRef<
                         )}
                     </div>
                     <div className="flex items-center gap-2">
+                        {isPlaying && (
+                            <button
+                                type="button"
+                                onClick={stopSequence}
+                                className="rounded-md border border-red-500/60 px-3 py-2 text-sm font-semibold text-red-100 hover:bg-red-900/40"
+                            >
+                                Stop
+                            </button>
+                        )}
                         {isEditMode && (
                             <button
                                 type="button"
@@ -561,7 +639,9 @@ const PlaybackSequenceManager = React.forwardRef<
                         <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border border-cyan-800/60 bg-cyan-950/30 p-3">
                             <div className="flex items-center gap-3">
                                 <SequencePreview
-                                    patternIds={activeSequence.patternIds}
+                                    patternIds={activeSequence.entries.map(
+                                        (entry) => entry.patternId,
+                                    )}
                                     patterns={patterns}
                                     className="h-12 w-24 flex-none rounded border border-cyan-500/40 bg-gray-950"
                                 />
@@ -575,6 +655,17 @@ const PlaybackSequenceManager = React.forwardRef<
                                 </div>
                             </div>
                             <div className="flex flex-wrap items-center gap-2">
+                                <label className="flex items-center gap-2 text-xs font-semibold text-gray-200">
+                                    <input
+                                        type="checkbox"
+                                        checked={loopMode === 'loop'}
+                                        onChange={(e) =>
+                                            setLoopMode(e.target.checked ? 'loop' : 'once')
+                                        }
+                                        className="accent-cyan-500"
+                                    />
+                                    Loop
+                                </label>
                                 <button
                                     type="button"
                                     onClick={handlePlaySequence}
@@ -681,6 +772,7 @@ const PlaybackSequenceManager = React.forwardRef<
                                                             pattern={pattern}
                                                             validation={validation}
                                                             onRemove={handleRemoveFromSequence}
+                                                            onUpdate={handleUpdateEntry}
                                                             isDropTarget={isDropTarget}
                                                         />
                                                     </React.Fragment>
@@ -716,7 +808,7 @@ const PlaybackSequenceManager = React.forwardRef<
                             ) : (
                                 <div className="space-y-2">
                                     {savedSequences.map((entry) => {
-                                        const patternCount = entry.patternIds.length;
+                                        const patternCount = entry.entries.length;
                                         const isActive = entry.id === activeSavedSequenceId;
                                         return (
                                             <div
@@ -729,7 +821,9 @@ const PlaybackSequenceManager = React.forwardRef<
                                             >
                                                 <div className="flex flex-1 items-center gap-3 overflow-hidden">
                                                     <SequencePreview
-                                                        patternIds={entry.patternIds}
+                                                        patternIds={entry.entries.map(
+                                                            (item) => item.patternId,
+                                                        )}
                                                         patterns={patterns}
                                                         className="h-12 w-24 flex-none rounded border border-gray-700/50 bg-gray-950"
                                                     />
@@ -746,7 +840,10 @@ const PlaybackSequenceManager = React.forwardRef<
                                                         </div>
                                                         <span className="truncate text-xs text-gray-400">
                                                             {patternCount} pattern
-                                                            {patternCount === 1 ? '' : 's'} ·
+                                                            {patternCount === 1 ? '' : 's'} ·{' '}
+                                                            {entry.loopMode === 'loop'
+                                                                ? 'Loop · '
+                                                                : ''}
                                                             Updated{' '}
                                                             {new Date(
                                                                 entry.updatedAt,
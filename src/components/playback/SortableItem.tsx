@@ -3,13 +3,15 @@ import { CSS } from '@dnd-kit/utilities';
 import React from 'react';
 
 import PatternPreview from '@/components/PatternPreview';
-import type { Pattern } from '@/types';
+import { MAX_SEQUENCE_TIME_MS, PLAYBACK_TRANSITION_LABELS } from '@/constants/playback';
+import type { Pattern, PlaybackSequenceEntry, PlaybackTransitionType } from '@/types';
 
-export interface QueuedPattern {
+export interface QueuedPattern extends PlaybackSequenceEntry {
     id: string;
-    patternId: string;
 }
 
+export type QueuedPatternTiming = Partial<Omit<PlaybackSequenceEntry, 'patternId'>>;
+
 export interface SequenceValidationResult {
     itemId: string;
     status: 'ok' | 'error' | 'missing' | 'blocked';
@@ -23,9 +25,17 @@ interface SortableItemProps {
     pattern: Pattern | undefined;
     validation: SequenceValidationResult | undefined;
     onRemove: (id: string) => void;
+    onUpdate: (id: string, changes: QueuedPatternTiming) => void;
     isDropTarget: boolean;
 }
 
+type TimingField = 'transitionMs' | 'staggerMs' | 'holdMs';
+
+const TRANSITION_TYPES = Object.keys(PLAYBACK_TRANSITION_LABELS) as PlaybackTransitionType[];
+
+const timingInputClassName =
+    'w-20 rounded border border-gray-700 bg-gray-800 px-2 py-1 text-xs text-gray-200 focus:border-cyan-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-40';
+
 const SortableItem: React.FC<SortableItemProps> = ({
     entry,
     index,
@@ -33,6 +43,7 @@ const SortableItem: React.FC<SortableItemProps> = ({
     pattern,
     validation,
     onRemove,
+    onUpdate,
     isDropTarget,
 }) => {
     const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
@@ -53,6 +64,20 @@ const SortableItem: React.FC<SortableItemProps> = ({
               ? 'text-amber-200'
               : 'text-red-200';
 
+    const handleTimingChange = (field: TimingField, value: string) => {
+        const parsed = Number(value);
+        if (value.trim() === '' || !Number.isFinite(parsed)) return;
+        onUpdate(entry.id, {
+            [field]: Math.max(0, Math.min(MAX_SEQUENCE_TIME_MS, Math.round(parsed))),
+        });
+    };
+
+    const timingFields: { field: TimingField; label: string; disabled: boolean }[] = [
+        { field: 'transitionMs', label: 'Travel', disabled: entry.transition === 'direct' },
+        { field: 'staggerMs', label: 'Stagger', disabled: entry.transition !== 'wave' },
+        { field: 'holdMs', label: 'Hold', disabled: false },
+    ];
+
     return (
         <li
             ref={setNodeRef}
@@ -103,6 +128,44 @@ const SortableItem: React.FC<SortableItemProps> = ({
                     <span className="text-xs text-gray-400">
                         Step {index + 1} of {sequenceLength}
                     </span>
+                    <div className="flex flex-wrap items-end gap-2">
+                        <label className="flex flex-col gap-0.5 text-xs text-gray-500">
+                            Transition
+                            <select
+                                value={entry.transition}
+                                onChange={(e) =>
+                                    onUpdate(entry.id, {
+                                        transition: e.target.value as PlaybackTransitionType,
+                                    })
+                                }
+                                className="rounded border border-gray-700 bg-gray-800 px-2 py-1 text-xs text-gray-200 focus:border-cyan-500 focus:outline-none"
+                            >
+                                {TRANSITION_TYPES.map((type) => (
+                                    <option key={type} value={type}>
+                                        {PLAYBACK_TRANSITION_LABELS[type]}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        {timingFields.map(({ field, label, disabled }) => (
+                            <label
+                                key={field}
+                                className="flex flex-col gap-0.5 text-xs text-gray-500"
+                            >
+                                {label} (ms)
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={MAX_SEQUENCE_TIME_MS}
+                                    step={50}
+                                    value={entry[field]}
+                                    onChange={(e) => handleTimingChange(field, e.target.value)}
+                                    disabled={disabled}
+                                    className={timingInputClassName}
+                                />
+                            </label>
+                        ))}
+                    </div>
                     {validation && (
                         <div className={`flex items-start gap-2 text-xs ${validationTone}`}>
                             <span aria-hidden>{validation.status === 'ok' ? '✓' : '⚠'}</span>
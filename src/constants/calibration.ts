@@ -1,4 +1,4 @@
-import type { NormalizedRoi, StagingPosition } from '@/types';
+import type { NormalizedRoi, StagingPosition, WallHomography } from '@/types';
 
 export interface ResolutionOption {
     id: string;
@@ -101,11 +101,21 @@ export interface CalibrationRunnerSettings {
      * After this interim step, the full deltaSteps step test follows.
      */
     firstTileInterimStepDelta: number;
+    /**
+     * Extended step test: extra step positions sampled per direction on each axis
+     * to fit a non-linear response curve. 0 keeps the single linear step test.
+     */
+    stepResponseSamples: number;
     /**
      * Configuration for robust tile sizing (outlier detection).
      * When enabled, outlier measurements are excluded from tile footprint calculation.
      */
     robustTileSize: RobustTileSizeConfig;
+    /**
+     * Optional camera-to-wall perspective correction. Measurements are rectified
+     * before the grid blueprint and bounds are computed.
+     */
+    wallHomography: WallHomography | null;
 }
 
 /** Default first tile tolerance - larger radius for initial detection (25% of frame dimension). */
@@ -117,6 +127,12 @@ export const DEFAULT_TILE_TOLERANCE = 0.15;
 /** Default interim step delta for first tile X/Y tests (smaller since we use home as expected center). */
 export const DEFAULT_FIRST_TILE_INTERIM_STEP_DELTA = 300;
 
+/** Default extended step test samples per direction (off). */
+export const DEFAULT_STEP_RESPONSE_SAMPLES = 0;
+
+/** Maximum extended step test samples per direction. */
+export const MAX_STEP_RESPONSE_SAMPLES = 8;
+
 /** Default MAD threshold for outlier detection (3 MADs from median). */
 export const DEFAULT_OUTLIER_MAD_THRESHOLD = 3.0;
 
@@ -135,5 +151,7 @@ export const DEFAULT_CALIBRATION_RUNNER_SETTINGS: CalibrationRunnerSettings = {
     firstTileTolerance: DEFAULT_FIRST_TILE_TOLERANCE,
     tileTolerance: DEFAULT_TILE_TOLERANCE,
     firstTileInterimStepDelta: DEFAULT_FIRST_TILE_INTERIM_STEP_DELTA,
+    stepResponseSamples: DEFAULT_STEP_RESPONSE_SAMPLES,
     robustTileSize: DEFAULT_ROBUST_TILE_SIZE_CONFIG,
+    wallHomography: null,
 };
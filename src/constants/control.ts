@@ -12,3 +12,21 @@ export const MOVE_ACTION = 'MOVE';
 
 export const STEPS_SINCE_HOME_WARNING = 5_000;
 export const STEPS_SINCE_HOME_CRITICAL = 10_000;
+export const GET_ACTION = 'GET';
+export const SET_ACTION = 'SET';
+export const WAKE_ACTION = 'WAKE';
+export const SLEEP_ACTION = 'SLEEP';
+export const NET_STATUS_ACTION = 'NET:STATUS';
+export const NET_SET_ACTION = 'NET:SET';
+export const NET_RESET_ACTION = 'NET:RESET';
+export const NET_LIST_ACTION = 'NET:LIST';
+export const MQTT_GET_CONFIG_ACTION = 'MQTT:GET_CONFIG';
+export const MQTT_SET_CONFIG_ACTION = 'MQTT:SET_CONFIG';
+
+/** Actions the firmware acknowledges before completion; all others only report `done`/`error`. */
+export const ACK_EXPECTED_ACTIONS: ReadonlySet<string> = new Set([
+    HOME_ACTION,
+    MOVE_ACTION,
+    NET_LIST_ACTION,
+    NET_RESET_ACTION,
+]);
@@ -0,0 +1,111 @@
+export type PatternFontId = 'stroke' | 'dot-matrix';
+
+export const PATTERN_FONT_LABELS: Record<PatternFontId, string> = {
+    stroke: 'Single stroke',
+    'dot-matrix': 'Dot matrix',
+};
+
+/** Glyph cell of both built-in fonts: x 0..4 left to right, y 0..6 top to bottom. */
+export const GLYPH_WIDTH = 4;
+export const GLYPH_HEIGHT = 6;
+/** Blank rows between wrapped lines, in glyph units. */
+export const GLYPH_LINE_GAP = 2;
+
+/**
+ * Single-stroke glyphs. Strokes are separated by `|`; each stroke is a list of
+ * `x,y` grid points joined by straight lines.
+ */
+export const STROKE_FONT: Record<string, string> = {
+    A: '0,6 0,2 2,0 4,2 4,6 | 0,3 4,3',
+    B: '0,0 0,6 3,6 4,5 4,4 3,3 0,3 | 0,0 3,0 4,1 4,2 3,3',
+    C: '4,1 3,0 1,0 0,1 0,5 1,6 3,6 4,5',
+    D: '0,0 0,6 2,6 4,4 4,2 2,0 0,0',
+    E: '4,0 0,0 0,6 4,6 | 0,3 3,3',
+    F: '4,0 0,0 0,6 | 0,3 3,3',
+    G: '4,1 3,0 1,0 0,1 0,5 1,6 3,6 4,5 4,3 2,3',
+    H: '0,0 0,6 | 4,0 4,6 | 0,3 4,3',
+    I: '1,0 3,0 | 2,0 2,6 | 1,6 3,6',
+    J: '1,0 4,0 | 3,0 3,5 2,6 1,6 0,5',
+    K: '0,0 0,6 | 4,0 0,4 | 1,3 4,6',
+    L: '0,0 0,6 4,6',
+    M: '0,6 0,0 2,3 4,0 4,6',
+    N: '0,6 0,0 4,6 4,0',
+    O: '1,0 3,0 4,1 4,5 3,6 1,6 0,5 0,1 1,0',
+    P: '0,6 0,0 3,0 4,1 4,2 3,3 0,3',
+    Q: '1,0 3,0 4,1 4,5 3,6 1,6 0,5 0,1 1,0 | 2,4 4,6',
+    R: '0,6 0,0 3,0 4,1 4,2 3,3 0,3 | 2,3 4,6',
+    S: '4,1 3,0 1,0 0,1 0,2 1,3 3,3 4,4 4,5 3,6 1,6 0,5',
+    T: '0,0 4,0 | 2,0 2,6',
+    U: '0,0 0,5 1,6 3,6 4,5 4,0',
+    V: '0,0 2,6 4,0',
+    W: '0,0 1,6 2,3 3,6 4,0',
+    X: '0,0 4,6 | 4,0 0,6',
+    Y: '0,0 2,3 4,0 | 2,3 2,6',
+    Z: '0,0 4,0 0,6 4,6',
+    '0': '1,0 3,0 4,1 4,5 3,6 1,6 0,5 0,1 1,0 | 0,5 4,1',
+    '1': '1,1 2,0 2,6 | 1,6 3,6',
+    '2': '0,1 1,0 3,0 4,1 4,2 0,6 4,6',
+    '3': '0,1 1,0 3,0 4,1 4,2 3,3 4,4 4,5 3,6 1,6 0,5 | 1,3 3,3',
+    '4': '3,6 3,0 0,4 4,4',
+    '5': '4,0 0,0 0,3 3,3 4,4 4,5 3,6 0,6',
+    '6': '3,0 1,0 0,1 0,5 1,6 3,6 4,5 4,4 3,3 0,3',
+    '7': '0,0 4,0 1,6',
+    '8': '1,3 0,2 0,1 1,0 3,0 4,1 4,2 3,3 1,3 0,4 0,5 1,6 3,6 4,5 4,4 3,3',
+    '9': '4,3 1,3 0,2 0,1 1,0 3,0 4,1 4,5 3,6 1,6',
+    '-': '1,3 3,3',
+    '+': '2,1 2,5 | 0,3 4,3',
+    '/': '0,6 4,0',
+    '.': '2,5.5 2,6',
+    ':': '2,1.5 2,2 | 2,4.5 2,5',
+    '!': '2,0 2,4 | 2,5.5 2,6',
+    '?': '0,1 1,0 3,0 4,1 4,2 2,3 2,4 | 2,5.5 2,6',
+    "'": '2,0 2,1.5',
+};
+
+/** 5×7 dot-matrix glyphs, one string of `#` (lit) and `.` per row. */
+export const DOT_MATRIX_FONT: Record<string, string[]> = {
+    A: ['.###.', '#...#', '#...#', '#####', '#...#', '#...#', '#...#'],
+    B: ['####.', '#...#', '#...#', '####.', '#...#', '#...#', '####.'],
+    C: ['.###.', '#...#', '#....', '#....', '#....', '#...#', '.###.'],
+    D: ['###..', '#..#.', '#...#', '#...#', '#...#', '#..#.', '###..'],
+    E: ['#####', '#....', '#....', '####.', '#....', '#....', '#####'],
+    F: ['#####', '#....', '#....', '####.', '#....', '#....', '#....'],
+    G: ['.###.', '#...#', '#....', '#.###', '#...#', '#...#', '.####'],
+    H: ['#...#', '#...#', '#...#', '#####', '#...#', '#...#', '#...#'],
+    I: ['.###.', '..#..', '..#..', '..#..', '..#..', '..#..', '.###.'],
+    J: ['..###', '...#.', '...#.', '...#.', '...#.', '#..#.', '.##..'],
+    K: ['#...#', '#..#.', '#.#..', '##...', '#.#..', '#..#.', '#...#'],
+    L: ['#....', '#....', '#....', '#....', '#....', '#....', '#####'],
+    M: ['#...#', '##.##', '#.#.#', '#.#.#', '#...#', '#...#', '#...#'],
+    N: ['#...#', '#...#', '##..#', '#.#.#', '#..##', '#...#', '#...#'],
+    O: ['.###.', '#...#', '#...#', '#...#', '#...#', '#...#', '.###.'],
+    P: ['####.', '#...#', '#...#', '####.', '#....', '#....', '#....'],
+    Q: ['.###.', '#...#', '#...#', '#...#', '#.#.#', '#..#.', '.##.#'],
+    R: ['####.', '#...#', '#...#', '####.', '#.#..', '#..#.', '#...#'],
+    S: ['.####', '#....', '#....', '.###.', '....#', '....#', '####.'],
+    T: ['#####', '..#..', '..#..', '..#..', '..#..', '..#..', '..#..'],
+    U: ['#...#', '#...#', '#...#', '#...#', '#...#', '#...#', '.###.'],
+    V: ['#...#', '#...#', '#...#', '#...#', '#...#', '.#.#.', '..#..'],
+    W: ['#...#', '#...#', '#...#', '#.#.#', '#.#.#', '#.#.#', '.#.#.'],
+    X: ['#...#', '#...#', '.#.#.', '..#..', '.#.#.', '#...#', '#...#'],
+    Y: ['#...#', '#...#', '.#.#.', '..#..', '..#..', '..#..', '..#..'],
+    Z: ['#####', '....#', '...#.', '..#..', '.#...', '#....', '#####'],
+    '0': ['.###.', '#...#', '#..##', '#.#.#', '##..#', '#...#', '.###.'],
+    '1': ['..#..', '.##..', '..#..', '..#..', '..#..', '..#..', '.###.'],
+    '2': ['.###.', '#...#', '....#', '...#.', '..#..', '.#...', '#####'],
+    '3': ['#####', '...#.', '..#..', '...#.', '....#', '#...#', '.###.'],
+    '4': ['...#.', '..##.', '.#.#.', '#..#.', '#####', '...#.', '...#.'],
+    '5': ['#####', '#....', '####.', '....#', '....#', '#...#', '.###.'],
+    '6': ['..##.', '.#...', '#....', '####.', '#...#', '#...#', '.###.'],
+    '7': ['#####', '....#', '...#.', '..#..', '.#...', '.#...', '.#...'],
+    '8': ['.###.', '#...#', '#...#', '.###.', '#...#', '#...#', '.###.'],
+    '9': ['.###.', '#...#', '#...#', '.####', '....#', '...#.', '.##..'],
+    '-': ['.....', '.....', '.....', '.###.', '.....', '.....', '.....'],
+    '+': ['.....', '..#..', '..#..', '#####', '..#..', '..#..', '.....'],
+    '/': ['....#', '....#', '...#.', '..#..', '.#...', '#....', '#....'],
+    '.': ['.....', '.....', '.....', '.....', '.....', '.....', '..#..'],
+    ':': ['.....', '..#..', '.....', '.....', '.....', '..#..', '.....'],
+    '!': ['..#..', '..#..', '..#..', '..#..', '..#..', '.....', '..#..'],
+    '?': ['.###.', '#...#', '....#', '...#.', '..#..', '.....', '..#..'],
+    "'": ['..#..', '..#..', '.....', '.....', '.....', '.....', '.....'],
+};
@@ -0,0 +1,12 @@
+import type { PlaybackTransitionType } from '@/types';
+
+export const DEFAULT_SEQUENCE_HOLD_MS = 500;
+export const DEFAULT_SEQUENCE_TRANSITION_MS = 1_000;
+export const DEFAULT_WAVE_STAGGER_MS = 120;
+export const MAX_SEQUENCE_TIME_MS = 60_000;
+
+export const PLAYBACK_TRANSITION_LABELS: Record<PlaybackTransitionType, string> = {
+    direct: 'Direct',
+    wave: 'Wave',
+    morph: 'Morph',
+};
@@ -7,6 +7,7 @@ import {
     createEmptyAnimation,
     createEmptyPath,
 } from '@/services/animationStorage';
+import { LIBRARY_CHANGED_EVENT } from '@/services/libraryBundle';
 import type { Animation, AnimationMode, AnimationPath } from '@/types/animation';
 
 // ============================================================================
@@ -63,15 +64,20 @@ export const AnimationProvider: React.FC<AnimationProviderProps> = ({ children }
     const [animations, setAnimations] = useState<Animation[]>(() => loadAnimations(storage));
     const [selectedAnimationId, setSelectedAnimationId] = useState<string | null>(null);
 
-    // Sync with storage on external changes (e.g., other tabs)
+    // Sync with storage on external changes (e.g., other tabs, library imports)
     useEffect(() => {
         const handleStorageChange = (event: StorageEvent) => {
             if (event.key === 'mirror:animations') {
                 setAnimations(loadAnimations(storage));
             }
         };
+        const handleLibraryChange = () => setAnimations(loadAnimations(storage));
         window.addEventListener('storage', handleStorageChange);
-        return () => window.removeEventListener('storage', handleStorageChange);
+        window.addEventListener(LIBRARY_CHANGED_EVENT, handleLibraryChange);
+        return () => {
+            window.removeEventListener('storage', handleStorageChange);
+            window.removeEventListener(LIBRARY_CHANGED_EVENT, handleLibraryChange);
+        };
     }, [storage]);
 
     // Derived: selected animation
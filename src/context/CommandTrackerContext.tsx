@@ -1,11 +1,14 @@
 import React, { createContext, useCallback, useContext, useEffect, useMemo } from 'react';
 
+import { showSingleCommandErrorToast } from '../components/common/StyledToast';
+import { ACK_EXPECTED_ACTIONS } from '../constants/control';
 import {
     PendingCommandTracker,
     type CommandCompletionResult,
     type CommandFailureReason,
     type CommandResponsePayload,
 } from '../services/pendingCommandTracker';
+import { extractCommandErrorDetail } from '../utils/commandErrors';
 
 import { useMqtt } from './MqttContext';
 
@@ -71,12 +74,35 @@ const parseResponsePayload = (payload: Uint8Array): CommandResponsePayload | nul
     }
 };
 
+/** Recorded outbound command replayed on `devices/<mac>/cmd`. */
+const parseReplayedCommand = (
+    topic: string,
+    payload: Uint8Array,
+): { cmdId: string; action: string; mac: string } | null => {
+    const mac = /^devices\/([^/]+)\/cmd$/.exec(topic)?.[1];
+    if (!mac) {
+        return null;
+    }
+    try {
+        const parsed: unknown = JSON.parse(decoder.decode(payload));
+        if (!isRecord(parsed) || typeof parsed['cmd_id'] !== 'string') {
+            return null;
+        }
+        const action = typeof parsed['action'] === 'string' ? parsed['action'] : 'UNKNOWN';
+        return { cmdId: parsed['cmd_id'], action: action.toUpperCase(), mac };
+    } catch {
+        return null;
+    }
+};
+
 export interface CommandTrackerContextValue {
     register: (
         cmdId: string,
         options?: { expectAck?: boolean; mac?: string },
     ) => Promise<CommandCompletionResult>;
     cancel: (cmdId: string, reason?: CommandFailureReason) => void;
+    /** True while a command sent to the node is still in flight */
+    hasPendingCommands: (mac: string) => boolean;
 }
 
 const CommandTrackerContext = createContext<CommandTrackerContextValue | undefined>(undefined);
@@ -86,7 +112,8 @@ interface ProviderProps {
 }
 
 export const CommandTrackerProvider: React.FC<ProviderProps> = ({ children }) => {
-    const { subscribe } = useMqtt();
+    const { subscribe, settings } = useMqtt();
+    const isReplay = settings.scheme === 'replay';
 
     // Use ref to hold the tracker - this survives StrictMode double-mounting
     // and allows us to properly handle cleanup without disposal issues
@@ -123,6 +150,32 @@ export const CommandTrackerProvider: React.FC<ProviderProps> = ({ children }) =>
         };
     }, [getTracker, subscribe]);
 
+    // During replay nobody publishes the recorded commands, so register them as they
+    // pass by; their recorded responses then settle them the same way live ones did
+    useEffect(() => {
+        if (!isReplay) {
+            return;
+        }
+        const tracker = getTracker();
+        return subscribe('devices/+/cmd', (topic, payload) => {
+            const command = parseReplayedCommand(topic, payload);
+            if (!command) {
+                return;
+            }
+            tracker
+                .register(command.cmdId, {
+                    expectAck: ACK_EXPECTED_ACTIONS.has(command.action),
+                    mac: command.mac,
+                })
+                .catch((error: unknown) => {
+                    showSingleCommandErrorToast(
+                        'Replayed command failed',
+                        extractCommandErrorDetail(error, { controller: command.mac }),
+                    );
+                });
+        });
+    }, [getTracker, isReplay, subscribe]);
+
     const register = useCallback(
         (cmdId: string, options?: { expectAck?: boolean; mac?: string }) => {
             return getTracker().register(cmdId, options);
@@ -137,12 +190,18 @@ export const CommandTrackerProvider: React.FC<ProviderProps> = ({ children }) =>
         [getTracker],
     );
 
+    const hasPendingCommands = useCallback(
+        (mac: string) => getTracker().hasPendingForMac(mac),
+        [getTracker],
+    );
+
     const value: CommandTrackerContextValue = useMemo(
         () => ({
             register,
             cancel,
+            hasPendingCommands,
         }),
-        [register, cancel],
+        [register, cancel, hasPendingCommands],
     );
 
     return (
@@ -0,0 +1,250 @@
+import React, {
+    createContext,
+    useCallback,
+    useContext,
+    useEffect,
+    useMemo,
+    useRef,
+    useState,
+} from 'react';
+
+import { useCommandTracker } from '@/context/CommandTrackerContext';
+import { useLogStore } from '@/context/LogContext';
+import { useStatusStore, type DriverView } from '@/context/StatusContext';
+import { useMotorCommands } from '@/hooks/useMotorCommands';
+import { normalizeMacForTopic } from '@/services/motorControl';
+import {
+    clampIdleSeconds,
+    loadIdleSleepPolicy,
+    persistIdleSleepPolicy,
+    selectMotorsToWake,
+    type IdleSleepPolicy,
+} from '@/services/motorPower';
+import type { Motor } from '@/types';
+import { extractCommandErrorDetail } from '@/utils/commandErrors';
+
+// ============================================================================
+// Context Types
+// ============================================================================
+
+interface MotorPowerContextValue {
+    /** Current idle auto-sleep policy */
+    policy: IdleSleepPolicy;
+    /** Update and persist policy fields */
+    updatePolicy: (patch: Partial<IdleSleepPolicy>) => void;
+    /**
+     * Call before dispatching planned moves. Cancels any pending auto-sleep and,
+     * when pre-wake is enabled, wakes sleeping motors. WAKE failures are logged
+     * but never block the move.
+     */
+    beginMotion: (motors: Motor[]) => Promise<void>;
+    /** Call once playback/animation finishes; arms the idle timer when nothing else runs. */
+    endMotion: (motors: Motor[]) => void;
+    /** Epoch ms when the pending auto-sleep fires, or null when none is scheduled */
+    sleepScheduledAt: number | null;
+}
+
+// ============================================================================
+// Context
+// ============================================================================
+
+const MotorPowerContext = createContext<MotorPowerContextValue | null>(null);
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+interface MotorPowerProviderProps {
+    children: React.ReactNode;
+}
+
+const isNodeMoving = (driver: DriverView | undefined): boolean =>
+    Boolean(driver && Object.values(driver.snapshot.motors).some((motor) => motor.moving));
+
+export const MotorPowerProvider: React.FC<MotorPowerProviderProps> = ({ children }) => {
+    const storage = useMemo(
+        () => (typeof window !== 'undefined' ? window.localStorage : undefined),
+        [],
+    );
+    const { wakeMotor, sleepMotor } = useMotorCommands();
+    const { hasPendingCommands } = useCommandTracker();
+    const { drivers } = useStatusStore();
+    const { logInfo, logWarning } = useLogStore();
+
+    const [policy, setPolicy] = useState<IdleSleepPolicy>(() => loadIdleSleepPolicy(storage));
+    const [sleepScheduledAt, setSleepScheduledAt] = useState<number | null>(null);
+
+    // Refs so timers and async callbacks see the latest values
+    const driversRef = useRef<DriverView[]>(drivers);
+    const policyRef = useRef(policy);
+    const activeMotionsRef = useRef(0);
+    const touchedNodesRef = useRef<Set<string>>(new Set());
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    useEffect(() => {
+        driversRef.current = drivers;
+    }, [drivers]);
+
+    useEffect(() => {
+        policyRef.current = policy;
+    }, [policy]);
+
+    const cancelScheduledSleep = useCallback(() => {
+        if (timerRef.current !== null) {
+            clearTimeout(timerRef.current);
+            timerRef.current = null;
+        }
+        setSleepScheduledAt(null);
+    }, []);
+
+    useEffect(() => cancelScheduledSleep, [cancelScheduledSleep]);
+
+    const runAutoSleep = useCallback(async () => {
+        timerRef.current = null;
+        setSleepScheduledAt(null);
+        if (activeMotionsRef.current > 0 || !policyRef.current.enabled) {
+            return;
+        }
+
+        const macs = Array.from(touchedNodesRef.current);
+        // Nodes moved or commanded by something else (manual jog, calibration) are left awake
+        const idleMacs = macs.filter(
+            (mac) =>
+                !isNodeMoving(driversRef.current.find((driver) => driver.topicMac === mac)) &&
+                !hasPendingCommands(normalizeMacForTopic(mac)),
+        );
+        const settled = await Promise.allSettled(
+            idleMacs.map((mac) => sleepMotor({ mac, motorId: 'ALL' })),
+        );
+
+        let failed = 0;
+        settled.forEach((result, index) => {
+            if (result.status === 'fulfilled') {
+                touchedNodesRef.current.delete(idleMacs[index]);
+                return;
+            }
+            failed += 1;
+            const detail = extractCommandErrorDetail(result.reason, {
+                controller: idleMacs[index],
+            });
+            logWarning(
+                'Power',
+                `Auto-sleep failed on ${idleMacs[index]}: ${detail.errorMessage ?? detail.reason}`,
+            );
+        });
+        if (idleMacs.length > failed) {
+            logInfo('Power', `Auto-sleep: ${idleMacs.length - failed} node(s) put to sleep.`);
+        }
+    }, [hasPendingCommands, logInfo, logWarning, sleepMotor]);
+
+    const scheduleSleep = useCallback(() => {
+        cancelScheduledSleep();
+        const current = policyRef.current;
+        if (!current.enabled || touchedNodesRef.current.size === 0) {
+            return;
+        }
+        const delayMs = current.idleSeconds * 1000;
+        timerRef.current = setTimeout(() => {
+            void runAutoSleep();
+        }, delayMs);
+        setSleepScheduledAt(Date.now() + delayMs);
+    }, [cancelScheduledSleep, runAutoSleep]);
+
+    const beginMotion = useCallback(
+        async (motors: Motor[]) => {
+            activeMotionsRef.current += 1;
+            cancelScheduledSleep();
+            for (const motor of motors) {
+                touchedNodesRef.current.add(motor.nodeMac);
+            }
+            if (!policyRef.current.preWake) {
+                return;
+            }
+
+            const toWake = selectMotorsToWake(motors, (mac, motorId) => {
+                const driver = driversRef.current.find((entry) => entry.topicMac === mac);
+                return driver?.snapshot.motors[String(motorId)]?.awake;
+            });
+            if (toWake.length === 0) {
+                return;
+            }
+            const settled = await Promise.allSettled(
+                toWake.map((motor) => wakeMotor({ mac: motor.nodeMac, motorId: motor.motorIndex })),
+            );
+            settled.forEach((result, index) => {
+                if (result.status === 'rejected') {
+                    const motor = toWake[index];
+                    const detail = extractCommandErrorDetail(result.reason, {
+                        controller: motor.nodeMac,
+                        motorId: motor.motorIndex,
+                    });
+                    logWarning(
+                        'Power',
+                        `Pre-wake failed for ${motor.nodeMac}:${motor.motorIndex}` +
+                            `${detail.errorCode ? ` (${detail.errorCode})` : ''}: ` +
+                            `${detail.errorMessage ?? detail.reason}`,
+                    );
+                }
+            });
+        },
+        [cancelScheduledSleep, logWarning, wakeMotor],
+    );
+
+    const endMotion = useCallback(
+        (motors: Motor[]) => {
+            activeMotionsRef.current = Math.max(0, activeMotionsRef.current - 1);
+            for (const motor of motors) {
+                touchedNodesRef.current.add(motor.nodeMac);
+            }
+            if (activeMotionsRef.current === 0) {
+                scheduleSleep();
+            }
+        },
+        [scheduleSleep],
+    );
+
+    const updatePolicy = useCallback(
+        (patch: Partial<IdleSleepPolicy>) => {
+            const next: IdleSleepPolicy = {
+                ...policyRef.current,
+                ...patch,
+                idleSeconds: clampIdleSeconds(patch.idleSeconds ?? policyRef.current.idleSeconds),
+            };
+            policyRef.current = next;
+            setPolicy(next);
+            persistIdleSleepPolicy(storage, next);
+            if (!next.enabled) {
+                cancelScheduledSleep();
+            } else if (timerRef.current !== null) {
+                // Re-arm with the new delay
+                scheduleSleep();
+            }
+        },
+        [cancelScheduledSleep, scheduleSleep, storage],
+    );
+
+    const value = useMemo<MotorPowerContextValue>(
+        () => ({
+            policy,
+            updatePolicy,
+            beginMotion,
+            endMotion,
+            sleepScheduledAt,
+        }),
+        [policy, updatePolicy, beginMotion, endMotion, sleepScheduledAt],
+    );
+
+    return <MotorPowerContext.Provider value={value}>{children}</MotorPowerContext.Provider>;
+};
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+export const useMotorPower = (): MotorPowerContextValue => {
+    const context = useContext(MotorPowerContext);
+    if (!context) {
+        throw new Error('useMotorPower must be used within a MotorPowerProvider');
+    }
+    return context;
+};
@@ -17,7 +17,11 @@ import {
     type SubscriptionOptions,
 } from '../services/mqttClient';
 
-export type ConnectionScheme = 'ws' | 'wss' | 'mock';
+import type { MockMqttTransport } from '../services/mockTransport';
+import type { ReplayMqttTransport } from '../services/replayTransport';
+import type { SessionRecording } from '../services/sessionRecording';
+
+export type ConnectionScheme = 'ws' | 'wss' | 'mock' | 'replay';
 
 export interface ConnectionSettings {
     scheme: ConnectionScheme;
@@ -40,7 +44,7 @@ const DEFAULT_SETTINGS: ConnectionSettings = {
 export const MQTT_SETTINGS_STORAGE_KEY = 'mirror:mqtt:settings';
 
 const isScheme = (value: unknown): value is ConnectionScheme =>
-    value === 'ws' || value === 'wss' || value === 'mock';
+    value === 'ws' || value === 'wss' || value === 'mock' || value === 'replay';
 
 const ensureLeadingSlash = (path: string): string => {
     if (!path) {
@@ -119,6 +123,19 @@ export interface MqttContextValue {
         options?: SubscriptionOptions,
     ) => () => void;
     publish: (topic: string, payload: string, options?: PublishOptions) => Promise<void>;
+    /** Simulator behind a `mock://` connection; null for real brokers. */
+    getMockTransport: () => MockMqttTransport | null;
+    /** Player behind a `replay://` connection; null otherwise. */
+    getReplayTransport: () => ReplayMqttTransport | null;
+    /** Session file played back when the scheme is `replay`. */
+    replaySession: SessionRecording | null;
+    loadReplaySession: (recording: SessionRecording | null) => void;
+    replaySpeed: number;
+    setReplaySpeed: (speed: number) => void;
+    isRecording: boolean;
+    startRecording: () => void;
+    /** Stop capturing and return the recorded session, or null when none was running. */
+    stopRecording: () => SessionRecording | null;
 }
 
 const MqttContext = createContext<MqttContextValue | undefined>(undefined);
@@ -143,6 +160,11 @@ export const MqttProvider: React.FC<ProviderProps> = ({
     );
     const [state, setState] = useState<ConnectionState>({ status: 'disconnected', attempt: 0 });
     const manualDisconnectRef = useRef(false);
+    const [replaySession, setReplaySession] = useState<SessionRecording | null>(null);
+    const [replaySpeed, setReplaySpeedState] = useState(1);
+    // Speed changes apply to the running replay without restarting it
+    const replaySpeedRef = useRef(1);
+    const [isRecording, setIsRecording] = useState(false);
 
     useEffect(() => {
         const unsubscribe = client.onStateChange((nextState) => {
@@ -165,8 +187,12 @@ export const MqttProvider: React.FC<ProviderProps> = ({
             url: buildUrl(settings),
             username: settings.username,
             password: settings.password,
+            replay:
+                settings.scheme === 'replay' && replaySession
+                    ? { recording: replaySession, speed: replaySpeedRef.current }
+                    : undefined,
         });
-    }, [client, settings]);
+    }, [client, replaySession, settings]);
 
     useEffect(() => {
         if (manualDisconnectRef.current) {
@@ -212,6 +238,35 @@ export const MqttProvider: React.FC<ProviderProps> = ({
         [client],
     );
 
+    const getMockTransport = useCallback(() => client.getMockTransport(), [client]);
+
+    const getReplayTransport = useCallback(() => client.getReplayTransport(), [client]);
+
+    const loadReplaySession = useCallback((recording: SessionRecording | null) => {
+        manualDisconnectRef.current = false;
+        setReplaySession(recording);
+    }, []);
+
+    const setReplaySpeed = useCallback(
+        (speed: number) => {
+            replaySpeedRef.current = speed;
+            setReplaySpeedState(speed);
+            client.getReplayTransport()?.setSpeed(speed);
+        },
+        [client],
+    );
+
+    const startRecording = useCallback(() => {
+        client.startRecording();
+        setIsRecording(true);
+    }, [client]);
+
+    const stopRecording = useCallback(() => {
+        const recording = client.stopRecording();
+        setIsRecording(false);
+        return recording;
+    }, [client]);
+
     const connectionUrl = useMemo(() => buildUrl(settings), [settings]);
 
     const value: MqttContextValue = useMemo(
@@ -227,17 +282,35 @@ export const MqttProvider: React.FC<ProviderProps> = ({
             connectionUrl,
             subscribe,
             publish,
+            getMockTransport,
+            getReplayTransport,
+            replaySession,
+            loadReplaySession,
+            replaySpeed,
+            setReplaySpeed,
+            isRecording,
+            startRecording,
+            stopRecording,
         }),
         [
             connect,
             connectionUrl,
             createCommandId,
             disconnect,
+            getMockTransport,
+            getReplayTransport,
+            isRecording,
+            loadReplaySession,
             manualReconnect,
             publish,
             replaceSettings,
+            replaySession,
+            replaySpeed,
+            setReplaySpeed,
             settings,
+            startRecording,
             state,
+            stopRecording,
             subscribe,
             updateSettings,
         ],
@@ -1,5 +1,6 @@
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
 
+import { LIBRARY_CHANGED_EVENT } from '@/services/libraryBundle';
 import {
     loadLastSelectedPatternId,
     loadPatterns,
@@ -104,7 +105,11 @@ export const PatternProvider: React.FC<{ children: React.ReactNode }> = ({ child
             }
         };
         window.addEventListener('storage', handleStorage);
-        return () => window.removeEventListener('storage', handleStorage);
+        window.addEventListener(LIBRARY_CHANGED_EVENT, refreshPatterns);
+        return () => {
+            window.removeEventListener('storage', handleStorage);
+            window.removeEventListener(LIBRARY_CHANGED_EVENT, refreshPatterns);
+        };
     }, [refreshPatterns]);
 
     const value = useMemo(
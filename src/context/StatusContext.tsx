@@ -12,7 +12,9 @@ import { toast } from 'sonner';
 
 import { STEPS_SINCE_HOME_CRITICAL, STEPS_SINCE_HOME_WARNING } from '../constants/control';
 import {
+    parseConfigMessage,
     parseStatusMessage,
+    type NormalizedConfigMessage,
     type NormalizedStatusMessage,
     type StatusParseError,
 } from '../services/statusParser';
@@ -39,6 +41,8 @@ interface TileDriverRecord {
 export type DriverPresence = 'ready' | 'stale' | 'offline';
 
 export interface DriverView extends TileDriverRecord {
+    /** Latest retained config payload for this node, if one has been received. */
+    config: NormalizedConfigMessage | null;
     presence: DriverPresence;
     staleForMs: number;
     brokerDisconnected: boolean;
@@ -89,6 +93,7 @@ const extractMacFromTopic = (topic: string): string => {
 export const StatusProvider: React.FC<PropsWithChildren> = ({ children }) => {
     const { subscribe, state: connectionState, settings } = useMqtt();
     const [records, setRecords] = useState<Map<string, TileDriverRecord>>(new Map());
+    const [configs, setConfigs] = useState<Map<string, NormalizedConfigMessage>>(new Map());
     const [schemaError, setSchemaError] = useState<StatusParseError | null>(null);
     const [heartbeat, setHeartbeat] = useState(() => Date.now());
 
@@ -173,6 +178,31 @@ export const StatusProvider: React.FC<PropsWithChildren> = ({ children }) => {
         };
     }, [handleStatusMessage, subscribe]);
 
+    const handleConfigMessage = useCallback(
+        (topic: string, payload: Uint8Array) => {
+            const result = parseConfigMessage(topic, payload);
+            if (!result.ok) {
+                // Config is informational; a bad payload must not disturb status discovery
+                console.warn('Failed to parse MQTT config payload', topic, result.error);
+                return;
+            }
+            const recordKey = createRecordKey(activeSource, result.value.topicMac);
+            setConfigs((prev) => {
+                const next = new Map(prev);
+                next.set(recordKey, result.value);
+                return next;
+            });
+        },
+        [activeSource],
+    );
+
+    useEffect(() => {
+        const unsubscribe = subscribe('devices/+/config', handleConfigMessage, { qos: 0 });
+        return () => {
+            unsubscribe();
+        };
+    }, [handleConfigMessage, subscribe]);
+
     const drivers = useMemo<DriverView[]>(() => {
         const dedupedByTopic = new Map<string, TileDriverRecord>();
         for (const record of records.values()) {
@@ -203,13 +233,14 @@ export const StatusProvider: React.FC<PropsWithChildren> = ({ children }) => {
 
                 return {
                     ...record,
+                    config: configs.get(createRecordKey(record.source, record.topicMac)) ?? null,
                     presence,
                     staleForMs,
                     brokerDisconnected: !brokerConnected,
                 };
             })
             .sort((a, b) => a.firstSeenAt - b.firstSeenAt);
-    }, [activeSource, brokerConnected, heartbeat, records]);
+    }, [activeSource, brokerConnected, configs, heartbeat, records]);
 
     const counts = useMemo<StatusCounts>(() => {
         if (drivers.length === 0) {
@@ -0,0 +1,183 @@
+import React, { act, useEffect } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from 'vitest';
+
+import { planAnimation } from '@/services/animationPlanner';
+import type { CalibrationProfile } from '@/types';
+import type {
+    Animation,
+    AnimationPlaybackPlan,
+    AnimationScheduleEvent,
+    SegmentAxisMove,
+} from '@/types/animation';
+
+import { useAnimationPlayback } from '../useAnimationPlayback';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const MOVE_MS = 1_000;
+const moveMotor = vi.fn(() => new Promise<void>((resolve) => setTimeout(resolve, MOVE_MS)));
+
+vi.mock('@/services/animationPlanner', () => ({
+    planAnimation: vi.fn(),
+    assessAnimationThermalBudget: () => ({
+        motors: [],
+        status: 'ok',
+        waitMs: 0,
+        blockedKeys: new Set(),
+    }),
+    excludeThermalBlockedMotors: (plan: unknown) => plan,
+}));
+
+vi.mock('@/hooks/useMotorCommands', () => ({
+    useMotorCommands: () => ({ moveMotor }),
+}));
+
+vi.mock('@/components/common/StyledToast', () => ({
+    showCommandErrorToast: vi.fn(),
+}));
+
+vi.mock('@/context/LogContext', () => ({
+    useLogStore: () => ({
+        logInfo: vi.fn(),
+        logError: vi.fn(),
+        logWarning: vi.fn(),
+    }),
+}));
+
+vi.mock('@/context/StatusContext', () => ({
+    useStatusStore: () => ({ drivers: [] }),
+}));
+
+vi.mock('@/context/MotorPowerContext', () => ({
+    useMotorPower: () => ({
+        beginMotion: vi.fn(async () => undefined),
+        endMotion: vi.fn(),
+    }),
+}));
+
+const createMove = (fromSteps: number, targetSteps: number): SegmentAxisMove => ({
+    key: '0-0:x:aa:0',
+    mirrorId: '0-0',
+    row: 0,
+    col: 0,
+    axis: 'x',
+    motor: { nodeMac: 'aa', motorIndex: 0 },
+    fromSteps,
+    targetSteps,
+    distanceSteps: Math.abs(targetSteps - fromSteps),
+    normalizedFrom: fromSteps / 1000,
+    normalizedTarget: targetSteps / 1000,
+    speedSps: 4000,
+});
+
+const createEvent = (
+    atMs: number,
+    segmentIndex: number | null,
+    move: SegmentAxisMove,
+): AnimationScheduleEvent => ({
+    atMs,
+    mirrorId: '0-0',
+    segmentIndex,
+    subStepIndex: 0,
+    durationMs: 100,
+    axisMoves: [move],
+});
+
+// One 100 ms move out and a 100 ms seam back, far shorter than the motor takes
+const outMove = createMove(0, 400);
+const createPlan = (): AnimationPlaybackPlan => ({
+    animationId: 'anim-1',
+    segments: [
+        {
+            segmentIndex: 0,
+            axisMoves: [outMove],
+            subSteps: [{ index: 0, startMs: 0, durationMs: 100, axisMoves: [outMove] }],
+            maxDistanceSteps: 400,
+            durationMs: 100,
+            dwellMs: 0,
+            speedSps: 4000,
+            speedClamped: false,
+            errors: [],
+        },
+    ],
+    totalDurationMs: 100,
+    errors: [],
+    warnings: [],
+    mode: 'independent',
+    schedule: {
+        events: [createEvent(0, 0, outMove)],
+        seamEvents: [createEvent(100, null, createMove(400, 0))],
+        mirrorStartMs: { '0-0': 0 },
+        loopPeriodMs: 200,
+    },
+});
+
+const animation = { id: 'anim-1', name: 'Animation' } as Animation;
+const profile = {} as CalibrationProfile;
+
+type Playback = ReturnType<typeof useAnimationPlayback>;
+
+const Harness: React.FC<{ onReady: (playback: Playback) => void }> = ({ onReady }) => {
+    const playback = useAnimationPlayback({
+        gridSize: { rows: 1, cols: 1 },
+        mirrorConfig: new Map(),
+    });
+    useEffect(() => {
+        onReady(playback);
+    }, [playback, onReady]);
+    return null;
+};
+
+describe('useAnimationPlayback', () => {
+    let root: Root;
+    let playback: Playback;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        moveMotor.mockClear();
+        (planAnimation as Mock).mockReturnValue(createPlan());
+        const container = document.createElement('div');
+        root = createRoot(container);
+        act(() => {
+            root.render(
+                <Harness
+                    onReady={(value) => {
+                        playback = value;
+                    }}
+                />,
+            );
+        });
+    });
+
+    afterEach(() => {
+        act(() => root.unmount());
+        vi.useRealTimers();
+    });
+
+    it('holds looped passes back while slow moves finish', async () => {
+        act(() => playback.setLoopEnabled(true));
+
+        let result: Awaited<ReturnType<Playback['playAnimation']>> | undefined;
+        await act(async () => {
+            void playback.playAnimation(animation, profile).then((value) => {
+                result = value;
+            });
+            await vi.advanceTimersByTimeAsync(10_000);
+        });
+
+        // Two moves per pass, one second each; passes wait instead of queueing
+        const callsWhileLooping = moveMotor.mock.calls.length;
+        expect(callsWhileLooping).toBeGreaterThanOrEqual(9);
+        expect(callsWhileLooping).toBeLessThanOrEqual(11);
+
+        // Turning loop off only finishes the pass that is already running
+        act(() => playback.setLoopEnabled(false));
+        await act(async () => {
+            await vi.advanceTimersByTimeAsync(3 * MOVE_MS);
+        });
+
+        expect(result?.finalState).toBe('completed');
+        expect(moveMotor.mock.calls.length).toBeLessThanOrEqual(callsWhileLooping + 2);
+    });
+});
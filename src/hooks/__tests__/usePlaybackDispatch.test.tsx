@@ -0,0 +1,211 @@
+import React, { act, useEffect } from 'react';
+import { createRoot, type Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from 'vitest';
+
+import {
+    planProfilePlayback,
+    type ProfilePlaybackAxisTarget,
+    type ProfilePlaybackPlanResult,
+} from '@/services/profilePlaybackPlanner';
+import type { ShowKeyframe } from '@/services/showScheduler';
+import type { CalibrationProfile, Pattern } from '@/types';
+
+import { usePlaybackDispatch } from '../usePlaybackDispatch';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const moveMotor = vi.fn(async () => undefined);
+const beginMotion = vi.fn(async () => undefined);
+
+vi.mock('@/services/profilePlaybackPlanner', () => ({
+    planProfilePlayback: vi.fn(),
+}));
+
+vi.mock('@/hooks/useMotorCommands', () => ({
+    useMotorCommands: () => ({ moveMotor }),
+}));
+
+vi.mock('@/context/LogContext', () => ({
+    useLogStore: () => ({
+        logInfo: vi.fn(),
+        logError: vi.fn(),
+        logWarning: vi.fn(),
+    }),
+}));
+
+vi.mock('@/context/StatusContext', () => ({
+    useStatusStore: () => ({ drivers: [] }),
+}));
+
+vi.mock('@/context/MotorPowerContext', () => ({
+    useMotorPower: () => ({
+        beginMotion,
+        endMotion: vi.fn(),
+    }),
+}));
+
+const createTarget = (
+    axis: 'x' | 'y',
+    motorIndex: number,
+    targetSteps = 400,
+): ProfilePlaybackAxisTarget => ({
+    key: `0-0-${axis}`,
+    mirrorId: 'mirror-0-0',
+    row: 0,
+    col: 0,
+    axis,
+    motor: { nodeMac: 'aa', motorIndex },
+    patternPointId: 'point-1',
+    normalizedTarget: targetSteps / 2000,
+    targetSteps,
+});
+
+const createPlan = (waitMs: number, targetSteps = 400): ProfilePlaybackPlanResult => ({
+    patternId: 'pattern-1',
+    tiles: [],
+    playableAxisTargets: [createTarget('x', 0, targetSteps), createTarget('y', 1, targetSteps)],
+    errors: [],
+    thermal: { motors: [], status: 'delay', waitMs, blockedKeys: new Set() },
+});
+
+const pattern = { id: 'pattern-1', name: 'Pattern 1' } as Pattern;
+const profile = {} as CalibrationProfile;
+const keyframe: ShowKeyframe = {
+    entry: {
+        patternId: 'pattern-1',
+        transition: 'direct',
+        transitionMs: 0,
+        staggerMs: 0,
+        holdMs: 0,
+    },
+    pattern,
+};
+
+type Dispatch = ReturnType<typeof usePlaybackDispatch>;
+
+const Harness: React.FC<{ onReady: (dispatch: Dispatch) => void }> = ({ onReady }) => {
+    const dispatch = usePlaybackDispatch({
+        gridSize: { rows: 1, cols: 1 },
+        mirrorConfig: new Map(),
+    });
+    useEffect(() => {
+        onReady(dispatch);
+    }, [dispatch, onReady]);
+    return null;
+};
+
+describe('usePlaybackDispatch', () => {
+    let root: Root;
+    let dispatch: Dispatch;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        moveMotor.mockClear();
+        beginMotion.mockReset();
+        beginMotion.mockResolvedValue(undefined);
+        (planProfilePlayback as Mock).mockReset();
+        const container = document.createElement('div');
+        root = createRoot(container);
+        act(() => {
+            root.render(
+                <Harness
+                    onReady={(value) => {
+                        dispatch = value;
+                    }}
+                />,
+            );
+        });
+    });
+
+    afterEach(() => {
+        act(() => root.unmount());
+        vi.useRealTimers();
+    });
+
+    it('stops during a thermal cooldown without sending moves', async () => {
+        (planProfilePlayback as Mock).mockReturnValue(createPlan(10_000));
+
+        let result: Awaited<ReturnType<Dispatch['playPatternSequence']>> | undefined;
+        await act(async () => {
+            void dispatch.playPatternSequence([keyframe], profile).then((value) => {
+                result = value;
+            });
+            await vi.advanceTimersByTimeAsync(1_000);
+            dispatch.stopSequence();
+            await vi.advanceTimersByTimeAsync(100);
+        });
+
+        expect(result).toEqual({ success: true, message: 'Sequence stopped.' });
+        expect(moveMotor).not.toHaveBeenCalled();
+    });
+
+    it('sends moves once the cooldown has elapsed', async () => {
+        (planProfilePlayback as Mock).mockReturnValue(createPlan(500));
+
+        let result: Awaited<ReturnType<Dispatch['playSinglePattern']>> | undefined;
+        await act(async () => {
+            void dispatch.playSinglePattern(pattern, profile).then((value) => {
+                result = value;
+            });
+            await vi.advanceTimersByTimeAsync(600);
+        });
+
+        expect(result?.success).toBe(true);
+        expect(moveMotor).toHaveBeenCalledTimes(2);
+    });
+
+    it('checks for a stop before sending morph moves', async () => {
+        (planProfilePlayback as Mock)
+            .mockReturnValueOnce(createPlan(0, 400))
+            .mockReturnValueOnce(createPlan(0, -400));
+        // Stop while the morph into the second keyframe is waking its motors
+        beginMotion.mockResolvedValueOnce(undefined).mockImplementationOnce(async () => {
+            dispatch.stopSequence();
+        });
+        const morph: ShowKeyframe = {
+            entry: { ...keyframe.entry, transition: 'morph', transitionMs: 1000 },
+            pattern,
+        };
+
+        let result: Awaited<ReturnType<Dispatch['playPatternSequence']>> | undefined;
+        await act(async () => {
+            result = await dispatch.playPatternSequence([keyframe, morph], profile);
+        });
+
+        expect(result).toEqual({ success: true, message: 'Sequence stopped.' });
+        expect(moveMotor).toHaveBeenCalledTimes(2);
+        // The second keyframe starts from the positions the first one reached
+        const { startSteps } = (planProfilePlayback as Mock).mock.calls[1][0];
+        expect(Array.from(startSteps.values())).toEqual([400, 400]);
+    });
+
+    it('yields to timers between looped passes of empty morphs', async () => {
+        // Stop after many passes so a loop that never yields still ends
+        (planProfilePlayback as Mock).mockImplementation(() => {
+            if ((planProfilePlayback as Mock).mock.calls.length >= 1_000) {
+                dispatch.stopSequence();
+            }
+            return createPlan(0, 400);
+        });
+        const morph: ShowKeyframe = {
+            entry: { ...keyframe.entry, transition: 'morph', transitionMs: 1000 },
+            pattern,
+        };
+
+        let result: Awaited<ReturnType<Dispatch['playPatternSequence']>> | undefined;
+        await act(async () => {
+            void dispatch.playPatternSequence([morph, morph], profile, 'loop').then((value) => {
+                result = value;
+            });
+            await vi.advanceTimersByTimeAsync(500);
+            dispatch.stopSequence();
+            await vi.advanceTimersByTimeAsync(100);
+        });
+
+        expect(result).toEqual({ success: true, message: 'Sequence stopped.' });
+        // One pass of two keyframes per 50 ms timer tick
+        expect((planProfilePlayback as Mock).mock.calls.length).toBeLessThanOrEqual(2 * 12);
+        // Only the first keyframe moves; the rest are already in place
+        expect(moveMotor).toHaveBeenCalledTimes(2);
+    });
+});
@@ -1,43 +1,68 @@
-import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState, type RefObject } from 'react';
 
 import { showCommandErrorToast } from '@/components/common/StyledToast';
 import { useLogStore } from '@/context/LogContext';
+import { useMotorPower } from '@/context/MotorPowerContext';
+import { useStatusStore } from '@/context/StatusContext';
 import { useMotorCommands } from '@/hooks/useMotorCommands';
-import { planAnimation } from '@/services/animationPlanner';
+import {
+    assessAnimationThermalBudget,
+    excludeThermalBlockedMotors,
+    planAnimation,
+} from '@/services/animationPlanner';
+import { buildThermalTelemetryIndex, type ThermalTelemetryIndex } from '@/services/thermalBudget';
 import type { CalibrationProfile, MirrorConfig } from '@/types';
 import type {
     Animation,
     AnimationPlaybackPlan,
     AnimationPlaybackResult,
     AnimationPlaybackState,
-    AnimationSegmentPlan,
+    AnimationSchedule,
+    AnimationScheduleEvent,
     SegmentAxisMove,
 } from '@/types/animation';
+import { MIN_MOTOR_SPEED_SPS } from '@/types/animation';
 import type { CommandErrorDetail } from '@/types/commandError';
 import { extractCommandErrorDetail } from '@/utils/commandErrors';
 
-// Helper to wait with stop check
-const delay = (ms: number, stopRef: RefObject<boolean | null>): Promise<boolean> => {
+// How often a wait re-checks the stop flag
+const STOP_CHECK_MS = 50;
+
+// Wait until a `performance.now()` time; resolves false when stop is requested first
+const waitUntil = (timeMs: number, stopRef: RefObject<boolean | null>): Promise<boolean> => {
     return new Promise((resolve) => {
-        const checkInterval = 50;
-        let elapsed = 0;
-        const interval = setInterval(() => {
-            elapsed += checkInterval;
+        const check = () => {
             if (stopRef.current) {
-                clearInterval(interval);
                 resolve(false);
-            } else if (elapsed >= ms) {
-                clearInterval(interval);
+                return;
+            }
+            const remainingMs = timeMs - performance.now();
+            if (remainingMs <= 0) {
                 resolve(true);
+                return;
             }
-        }, checkInterval);
+            setTimeout(check, Math.min(remainingMs, STOP_CHECK_MS));
+        };
+        check();
     });
 };
 
+// Helper to wait with stop check
+const delay = (ms: number, stopRef: RefObject<boolean | null>): Promise<boolean> =>
+    waitUntil(performance.now() + ms, stopRef);
+
 // ============================================================================
 // Types
 // ============================================================================
 
+interface ScheduleRunResult {
+    outcome: 'completed' | 'stopped' | 'error';
+    message?: string;
+    failures: CommandErrorDetail[];
+    /** Motor commands issued */
+    moveCount: number;
+}
+
 interface AnimationPlaybackConfig {
     gridSize: { rows: number; cols: number };
     mirrorConfig: MirrorConfig;
@@ -74,6 +99,8 @@ export interface AnimationPlaybackAPI {
 export function useAnimationPlayback(config: AnimationPlaybackConfig): AnimationPlaybackAPI {
     const { moveMotor } = useMotorCommands();
     const { logInfo, logError, logWarning } = useLogStore();
+    const { drivers } = useStatusStore();
+    const { beginMotion, endMotion } = useMotorPower();
 
     const [playbackState, setPlaybackState] = useState<AnimationPlaybackState>('idle');
     const [currentSegment, setCurrentSegment] = useState<number | null>(null);
@@ -85,13 +112,22 @@ export function useAnimationPlayback(config: AnimationPlaybackConfig): Animation
     // Ref for loop state (to access current value in async loop without stale closure)
     const loopEnabledRef = useRef(false);
 
+    // Live thermal telemetry, read through a ref so each loop iteration sees fresh budgets
+    const thermalTelemetry = useMemo(() => buildThermalTelemetryIndex(drivers), [drivers]);
+    const thermalTelemetryRef = useRef<ThermalTelemetryIndex>(thermalTelemetry);
+
     // Keep ref in sync with state
     useEffect(() => {
         loopEnabledRef.current = loopEnabled;
     }, [loopEnabled]);
 
+    useEffect(() => {
+        thermalTelemetryRef.current = thermalTelemetry;
+    }, [thermalTelemetry]);
+
     /**
-     * Execute motor moves for given axis moves.
+     * Execute motor moves for given axis moves. Moves carrying their own speed
+     * and accel (eased sub-steps) override the fallback speed.
      */
     const executeMoves = useCallback(
         async (
@@ -107,7 +143,8 @@ export function useAnimationPlayback(config: AnimationPlaybackConfig): Animation
                     mac: move.motor.nodeMac,
                     motorId: move.motor.motorIndex,
                     positionSteps: move.targetSteps,
-                    speedSps,
+                    speedSps: move.speedSps ?? speedSps,
+                    accelSps2: move.accelSps2,
                 }),
             );
 
@@ -132,142 +169,144 @@ export function useAnimationPlayback(config: AnimationPlaybackConfig): Animation
     );
 
     /**
-     * Execute all motor moves for a segment (parallel execution).
-     */
-    const executeSegment = useCallback(
-        async (
-            segment: AnimationSegmentPlan,
-        ): Promise<{ success: boolean; failureCount: number; failures: CommandErrorDetail[] }> => {
-            const result = await executeMoves(segment.axisMoves, segment.speedSps);
-            return {
-                success: result.success,
-                failureCount: result.failures.length,
-                failures: result.failures,
-            };
-        },
-        [executeMoves],
-    );
-
-    /**
-     * Run a single mirror through all segments continuously.
-     * Used for sequential mode staggered playback.
-     * moveMotor already waits for firmware DONE, so no artificial delay needed.
+     * Run the plan's schedule. Each pass issues its events when they fall due;
+     * a mirror's events are chained, so a move that is due while the previous
+     * one is still running waits for its DONE. Looping passes start one loop
+     * period apart with the seam in between, so a staggered mirror may still be
+     * finishing one pass while the first mirrors begin the next. Moves that were
+     * due to finish by the next pass start must have finished before it begins;
+     * when they run late the pass starts once they are done, so slow moves never
+     * build up a backlog.
      */
-    const runMirrorPath = useCallback(
+    const playSchedule = useCallback(
         async (
-            mirrorId: string,
             plan: AnimationPlaybackPlan,
-        ): Promise<{ success: boolean; failures: CommandErrorDetail[] }> => {
-            const allFailures: CommandErrorDetail[] = [];
-
-            for (let i = 0; i < plan.segments.length; i++) {
-                if (stopRequestedRef.current) break;
-
-                const segment = plan.segments[i];
-                const mirrorMoves = segment.axisMoves.filter((m) => m.mirrorId === mirrorId);
-
-                if (mirrorMoves.length === 0) continue;
-
-                // Execute moves - resolves when firmware sends DONE
-                const result = await executeMoves(mirrorMoves, segment.speedSps);
-                allFailures.push(...result.failures);
-
-                // No delay needed - DONE means motor arrived, proceed immediately
-            }
-
-            return { success: allFailures.length === 0, failures: allFailures };
-        },
-        [executeMoves],
-    );
-
-    /**
-     * Execute sequential mode with staggered starts.
-     * Phase 1: Move all mirrors to starting position simultaneously.
-     * Phase 2: Each mirror runs its complete path, starting offsetMs apart.
-     */
-    const playSequentialAnimation = useCallback(
-        async (
-            plan: AnimationPlaybackPlan,
-        ): Promise<{ success: boolean; failures: CommandErrorDetail[] }> => {
-            if (!plan.mirrorOrder || plan.mirrorOrder.length === 0) {
-                return { success: false, failures: [] };
-            }
-
-            const allFailures: CommandErrorDetail[] = [];
-
-            // PHASE 1: Move all mirrors to starting position (first waypoint)
-            const startSegment = plan.segments[0];
-            if (startSegment && startSegment.axisMoves.length > 0) {
-                // Move all mirrors to their starting positions simultaneously
-                const startingMoves = startSegment.axisMoves.map((move) => ({
-                    ...move,
-                    targetSteps: move.fromSteps, // Move to starting position (waypoint 0)
-                }));
-                const startResult = await executeMoves(startingMoves, startSegment.speedSps);
-                allFailures.push(...startResult.failures);
-            }
+            schedule: AnimationSchedule,
+            animationName: string,
+        ): Promise<ScheduleRunResult> => {
+            const failures: CommandErrorDetail[] = [];
+            const mirrorChains = new Map<string, Promise<void>>();
+            // Time each mirror's last queued move should finish
+            const mirrorDueMs = new Map<string, number>();
+            const passes: Promise<void>[] = [];
+            const counts = { moves: 0 };
+
+            const runPass = async (events: AnimationScheduleEvent[], originMs: number) => {
+                for (const event of events) {
+                    const due = await waitUntil(originMs + event.atMs, stopRequestedRef);
+                    if (!due) return;
+                    if (event.segmentIndex !== null) {
+                        setCurrentSegment(event.segmentIndex);
+                    }
+                    counts.moves += event.axisMoves.length;
+                    mirrorDueMs.set(event.mirrorId, originMs + event.atMs + event.durationMs);
+                    const previous = mirrorChains.get(event.mirrorId) ?? Promise.resolve();
+                    mirrorChains.set(
+                        event.mirrorId,
+                        previous.then(async () => {
+                            if (stopRequestedRef.current) return;
+                            // Scheduled moves carry their own speed and accel
+                            const result = await executeMoves(event.axisMoves, MIN_MOTOR_SPEED_SPS);
+                            failures.push(...result.failures);
+                        }),
+                    );
+                }
+            };
 
-            if (stopRequestedRef.current) {
-                return { success: false, failures: allFailures };
-            }
+            const settle = async (outcome: ScheduleRunResult['outcome'], message?: string) => {
+                await Promise.all(passes);
+                await Promise.all(mirrorChains.values());
+                return { outcome, message, failures, moveCount: counts.moves };
+            };
 
-            // PHASE 2: Staggered animation through all segments
-            const offsetMs = plan.offsetMs ?? 0;
-            const mirrorPromises: Promise<{ success: boolean; failures: CommandErrorDetail[] }>[] =
-                [];
+            let originMs = performance.now();
+            for (let iteration = 1; ; iteration++) {
+                if (iteration > 1) {
+                    setCurrentSegment(0);
+                    logInfo('Animation', `Looping "${animationName}" (iteration ${iteration})`);
+                }
 
-            // Launch each mirror's path with staggered starts
-            for (let i = 0; i < plan.mirrorOrder.length; i++) {
-                if (stopRequestedRef.current) break;
+                // Re-check thermal budgets before every pass so loops are throttled
+                // while motors cool down instead of failing with E11 mid-run
+                const thermal =
+                    iteration === 1 && plan.thermal
+                        ? plan.thermal
+                        : assessAnimationThermalBudget(plan, thermalTelemetryRef.current);
+
+                if (thermal.waitMs > 0) {
+                    logWarning(
+                        'Animation',
+                        `Throttling "${animationName}": waiting ${Math.ceil(thermal.waitMs / 1000)}s for thermal cooldown`,
+                    );
+                    const continued = await delay(thermal.waitMs, stopRequestedRef);
+                    if (!continued) {
+                        return settle('stopped');
+                    }
+                    originMs = Math.max(originMs, performance.now());
+                }
 
-                const mirrorId = plan.mirrorOrder[i];
+                if (iteration > 1) {
+                    for (const motor of thermal.motors) {
+                        if (motor.status === 'block' && motor.message) {
+                            logWarning('Animation', motor.message);
+                        }
+                    }
+                }
 
-                // Start this mirror's complete path animation
-                mirrorPromises.push(runMirrorPath(mirrorId, plan));
+                const passPlan = excludeThermalBlockedMotors(plan, thermal.blockedKeys);
+                const passSchedule = passPlan.schedule ?? schedule;
+                if (thermal.blockedKeys.size > 0 && passSchedule.events.length === 0) {
+                    return settle('error', 'All animation motors are over their thermal budget.');
+                }
 
-                // Wait offset before starting next mirror (except for last one)
-                if (i < plan.mirrorOrder.length - 1 && offsetMs > 0) {
-                    const continued = await delay(offsetMs, stopRequestedRef);
-                    if (!continued) break;
+                // Sequential mode first brings every mirror to its first waypoint together
+                const startSegment = passPlan.segments[0];
+                if (iteration === 1 && plan.mode === 'sequential' && startSegment) {
+                    const startingMoves = startSegment.axisMoves.map((move) => ({
+                        ...move,
+                        targetSteps: move.fromSteps,
+                        speedSps: undefined,
+                        accelSps2: undefined,
+                    }));
+                    const startResult = await executeMoves(startingMoves, startSegment.speedSps);
+                    failures.push(...startResult.failures);
+                    counts.moves += startingMoves.length;
+                    if (stopRequestedRef.current) {
+                        return settle('stopped');
+                    }
+                    originMs = performance.now();
                 }
-            }
 
-            // Wait for all mirrors to complete
-            const results = await Promise.allSettled(mirrorPromises);
-            results.forEach((result) => {
-                if (result.status === 'fulfilled') {
-                    allFailures.push(...result.value.failures);
+                const looping = loopEnabledRef.current;
+                const events = looping
+                    ? [...passSchedule.events, ...passSchedule.seamEvents].sort(
+                          (a, b) => a.atMs - b.atMs,
+                      )
+                    : passSchedule.events;
+                passes.push(runPass(events, originMs));
+
+                if (!looping) break;
+                originMs += schedule.loopPeriodMs;
+                const continued = await waitUntil(originMs, stopRequestedRef);
+                if (!continued) {
+                    return settle('stopped');
                 }
-            });
+                const overdue = Array.from(mirrorChains)
+                    .filter(([mirrorId]) => (mirrorDueMs.get(mirrorId) ?? 0) <= originMs)
+                    .map(([, chain]) => chain);
+                await Promise.all(overdue);
+                if (stopRequestedRef.current) {
+                    return settle('stopped');
+                }
+                originMs = Math.max(originMs, performance.now());
+                if (!loopEnabledRef.current) break;
+            }
 
-            return { success: allFailures.length === 0, failures: allFailures };
+            return settle(stopRequestedRef.current ? 'stopped' : 'completed');
         },
-        [runMirrorPath, executeMoves],
+        [executeMoves, logInfo, logWarning],
     );
 
-    /**
-     * Wait for segment completion (estimated duration + buffer).
-     * Returns early if stop is requested.
-     */
-    const waitForSegmentCompletion = useCallback((durationMs: number): Promise<boolean> => {
-        return new Promise((resolve) => {
-            const checkInterval = 50; // Check stop flag every 50ms
-            let elapsed = 0;
-
-            const interval = setInterval(() => {
-                elapsed += checkInterval;
-
-                if (stopRequestedRef.current) {
-                    clearInterval(interval);
-                    resolve(false); // Stopped
-                } else if (elapsed >= durationMs) {
-                    clearInterval(interval);
-                    resolve(true); // Completed
-                }
-            }, checkInterval);
-        });
-    }, []);
-
     /**
      * Execute animation playback.
      */
@@ -285,6 +324,7 @@ export function useAnimationPlayback(config: AnimationPlaybackConfig): Animation
                 gridSize: config.gridSize,
                 mirrorConfig: config.mirrorConfig,
                 profile,
+                thermalTelemetry: thermalTelemetryRef.current,
             });
 
             // Check for planning errors
@@ -299,7 +339,7 @@ export function useAnimationPlayback(config: AnimationPlaybackConfig): Animation
                 };
             }
 
-            if (plan.segments.length === 0) {
+            if (plan.segments.length === 0 || !plan.schedule) {
                 const message = 'Animation has no playable segments.';
                 logError('Animation', message);
                 setPlaybackState('error');
@@ -325,154 +365,49 @@ export function useAnimationPlayback(config: AnimationPlaybackConfig): Animation
                 `Playing "${animation.name}" (${plan.segments.length} segments, ~${Math.round(plan.totalDurationMs / 1000)}s)`,
             );
 
-            try {
-                let iterationCount = 0;
-
-                // Loop execution while loop mode is enabled
-                do {
-                    iterationCount++;
-
-                    // Reset segment for new iteration (except first)
-                    if (iterationCount > 1) {
-                        setCurrentSegment(0);
-                        logInfo(
-                            'Animation',
-                            `Looping "${animation.name}" (iteration ${iterationCount})`,
-                        );
-                    }
-
-                    // Sequential mode with offset: use staggered starts
-                    if (
-                        plan.mode === 'sequential' &&
-                        plan.mirrorOrder &&
-                        plan.mirrorOrder.length > 0
-                    ) {
-                        const result = await playSequentialAnimation(plan);
-
-                        if (stopRequestedRef.current) {
-                            logInfo('Animation', 'Stopped by user');
-                            setPlaybackState('stopped');
-                            setCurrentSegment(null);
-                            setTotalSegments(null);
-                            return {
-                                success: false,
-                                message: 'Animation stopped by user.',
-                                finalState: 'stopped',
-                            };
-                        }
-
-                        if (!result.success && result.failures.length > 0) {
-                            showCommandErrorToast({
-                                title: 'Animation playback',
-                                totalCount: plan.mirrorOrder.length * plan.segments.length,
-                                errors: result.failures,
-                            });
-                        }
-
-                        // Check if we should loop
-                        if (loopEnabledRef.current && !stopRequestedRef.current) {
-                            continue; // Start next iteration
-                        }
-
-                        logInfo('Animation', `Completed "${animation.name}"`);
-                        setPlaybackState('completed');
-                        setCurrentSegment(null);
-                        setTotalSegments(null);
-
-                        return {
-                            success: true,
-                            message: `Animation "${animation.name}" completed.`,
-                            segmentsCompleted: plan.segments.length,
-                            totalSegments: plan.segments.length,
-                            finalState: 'completed',
-                        };
-                    }
-
-                    // Independent mode: segment-by-segment execution
-                    for (let i = 0; i < plan.segments.length; i++) {
-                        // Check for stop request
-                        if (stopRequestedRef.current) {
-                            logInfo(
-                                'Animation',
-                                `Stopped at segment ${i + 1}/${plan.segments.length}`,
-                            );
-                            setPlaybackState('stopped');
-                            setCurrentSegment(null);
-                            setTotalSegments(null);
-                            return {
-                                success: false,
-                                message: 'Animation stopped by user.',
-                                segmentsCompleted: i,
-                                totalSegments: plan.segments.length,
-                                finalState: 'stopped',
-                            };
-                        }
+            // Wake motors up front and hand them back to the idle auto-sleep policy when done
+            const planMotors = plan.segments.flatMap((segment) =>
+                segment.axisMoves.map((move) => move.motor),
+            );
+            await beginMotion(planMotors);
 
-                        setCurrentSegment(i);
-                        const segment = plan.segments[i];
-
-                        // Execute segment
-                        const result = await executeSegment(segment);
-
-                        if (!result.success) {
-                            logError(
-                                'Animation',
-                                `Segment ${i + 1} failed: ${result.failureCount} motor commands failed`,
-                            );
-                            showCommandErrorToast({
-                                title: `Animation segment ${i + 1}`,
-                                totalCount: segment.axisMoves.length,
-                                errors: result.failures,
-                            });
-                            // Continue anyway - partial execution is better than stopping
-                        }
+            try {
+                const result = await playSchedule(plan, plan.schedule, animation.name);
 
-                        // Wait for segment to complete (unless it's the last one)
-                        if (i < plan.segments.length - 1) {
-                            const completed = await waitForSegmentCompletion(segment.durationMs);
-                            if (!completed) {
-                                // Stopped during wait
-                                logInfo('Animation', `Stopped during segment ${i + 1}`);
-                                setPlaybackState('stopped');
-                                setCurrentSegment(null);
-                                setTotalSegments(null);
-                                return {
-                                    success: false,
-                                    message: 'Animation stopped by user.',
-                                    segmentsCompleted: i + 1,
-                                    totalSegments: plan.segments.length,
-                                    finalState: 'stopped',
-                                };
-                            }
-                        }
-                    }
+                if (result.failures.length > 0) {
+                    logError(
+                        'Animation',
+                        `${result.failures.length} of ${result.moveCount} motor commands failed`,
+                    );
+                    showCommandErrorToast({
+                        title: 'Animation playback',
+                        totalCount: result.moveCount,
+                        errors: result.failures,
+                    });
+                }
 
-                    // Check if we should loop (for independent mode)
-                    if (loopEnabledRef.current && !stopRequestedRef.current) {
-                        continue; // Start next iteration
-                    }
+                setCurrentSegment(null);
+                setTotalSegments(null);
 
-                    // Success - no looping or loop disabled
-                    logInfo('Animation', `Completed "${animation.name}"`);
-                    setPlaybackState('completed');
-                    setCurrentSegment(null);
-                    setTotalSegments(null);
+                if (result.outcome === 'error') {
+                    const message = result.message ?? 'Animation playback failed';
+                    logError('Animation', message);
+                    setPlaybackState('error');
+                    return { success: false, message, finalState: 'error' };
+                }
 
+                if (result.outcome === 'stopped') {
+                    logInfo('Animation', 'Stopped by user');
+                    setPlaybackState('stopped');
                     return {
-                        success: true,
-                        message: `Animation "${animation.name}" completed.`,
-                        segmentsCompleted: plan.segments.length,
-                        totalSegments: plan.segments.length,
-                        finalState: 'completed',
+                        success: false,
+                        message: 'Animation stopped by user.',
+                        finalState: 'stopped',
                     };
-                } while (loopEnabledRef.current && !stopRequestedRef.current);
+                }
 
-                // Loop was disabled mid-playback
                 logInfo('Animation', `Completed "${animation.name}"`);
                 setPlaybackState('completed');
-                setCurrentSegment(null);
-                setTotalSegments(null);
-
                 return {
                     success: true,
                     message: `Animation "${animation.name}" completed.`,
@@ -495,14 +430,16 @@ export function useAnimationPlayback(config: AnimationPlaybackConfig): Animation
                     totalSegments: plan.segments.length,
                     finalState: 'error',
                 };
+            } finally {
+                endMotion(planMotors);
             }
         },
         [
             config.gridSize,
             config.mirrorConfig,
-            executeSegment,
-            playSequentialAnimation,
-            waitForSegmentCompletion,
+            beginMotion,
+            endMotion,
+            playSchedule,
             logInfo,
             logError,
             logWarning,
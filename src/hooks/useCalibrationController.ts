@@ -15,6 +15,10 @@ import {
     singleTileRecalibrationScript,
     type SingleTileRecalibrationConfig,
 } from '@/services/calibration/script/singleTileScript';
+import {
+    verifyAndRepairScript,
+    type VerifyRepairConfig,
+} from '@/services/calibration/script/verifyRepairScript';
 import {
     type CalibrationCommandLogEntry,
     type CalibrationRunnerState,
@@ -114,6 +118,8 @@ export interface CalibrationController {
     submitDecision: (decision: DecisionOption) => void;
     /** Start single-tile recalibration (requires existing profile) */
     startSingleTileRecalibration: (tile: TileAddress) => void;
+    /** Verify every tile against the profile and recalibrate the drifted ones */
+    startVerifyAndRepair: () => void;
 }
 
 export const useCalibrationController = ({
@@ -384,6 +390,79 @@ export const useCalibrationController = ({
         ],
     );
 
+    const startVerifyAndRepair = useCallback(() => {
+        if (!runnerState.summary?.gridBlueprint) {
+            setRunnerState((prev) => ({
+                ...prev,
+                error: 'No calibration profile available to verify. Run full calibration first.',
+            }));
+            return;
+        }
+
+        if (!detectionReady) {
+            setRunnerState((prev) => ({
+                ...prev,
+                error: 'Camera stream and detector must be ready before verification can start.',
+            }));
+            return;
+        }
+
+        executorRef.current?.abort();
+        executorRef.current = null;
+
+        errorToastRef.current.clear();
+        errorToastRef.current = createAccumulatingErrorToast('Verify & repair');
+
+        const adapters = createAdapters(motorApi, captureMeasurement);
+
+        const verifyConfig: VerifyRepairConfig = {
+            gridSize,
+            mirrorConfig,
+            settings: runnerSettings,
+            arrayRotation,
+            stagingPosition,
+            roi,
+            mode,
+            existingProfile: runnerState.summary,
+        };
+
+        const executor = new CalibrationExecutor(verifyConfig, adapters, {
+            onStateChange: setRunnerState,
+            onStepStateChange: setStepState,
+            onCommandLog: appendLogEntry,
+            onCommandError: showCommandErrorToast,
+            onTileError: (row, col, message) => {
+                errorToastRef.current.addError({ row, col, message });
+            },
+            onExpectedPositionChange,
+            onPendingDecision: setPendingDecision,
+        });
+        executorRef.current = executor;
+        setCommandLog([]);
+        setStepState(null);
+        setPendingDecision(null);
+
+        executor
+            .run(() => verifyAndRepairScript(verifyConfig))
+            .catch((err) => {
+                console.error('Verify & repair failed:', err);
+            });
+    }, [
+        appendLogEntry,
+        arrayRotation,
+        captureMeasurement,
+        detectionReady,
+        gridSize,
+        mirrorConfig,
+        mode,
+        motorApi,
+        onExpectedPositionChange,
+        roi,
+        runnerSettings,
+        runnerState.summary,
+        stagingPosition,
+    ]);
+
     const tileEntries = useMemo(
         () =>
             Object.values(runnerState.tiles).sort((a, b) => {
@@ -476,6 +555,7 @@ export const useCalibrationController = ({
         runToEnd,
         submitDecision,
         startSingleTileRecalibration,
+        startVerifyAndRepair,
     };
 };
 
@@ -7,7 +7,7 @@ import {
     persistCalibrationSettings,
     type CalibrationUISettings,
 } from '@/services/calibrationSettingsStorage';
-import type { ArrayRotation, StagingPosition } from '@/types';
+import type { ArrayRotation, StagingPosition, WallHomography } from '@/types';
 
 const getLocalStorage = (): Storage | undefined =>
     typeof window !== 'undefined' ? window.localStorage : undefined;
@@ -21,6 +21,8 @@ export interface CalibrationSettingsController {
     firstTileInterimStepDelta: number;
     firstTileTolerance: number;
     tileTolerance: number;
+    stepResponseSamples: number;
+    wallHomography: WallHomography | null;
 
     // Setters
     setArrayRotation: (value: ArrayRotation) => void;
@@ -30,6 +32,8 @@ export interface CalibrationSettingsController {
     setFirstTileInterimStepDelta: (value: number) => void;
     setFirstTileTolerance: (value: number) => void;
     setTileTolerance: (value: number) => void;
+    setStepResponseSamples: (value: number) => void;
+    setWallHomography: (value: WallHomography | null) => void;
 
     // Aggregated settings object
     currentSettings: CalibrationUISettings;
@@ -64,6 +68,12 @@ export const useCalibrationSettingsController = (): CalibrationSettingsControlle
     const [tileTolerance, setTileTolerance] = useState<number>(
         storedSettings?.tileTolerance ?? DEFAULT_CALIBRATION_UI_SETTINGS.tileTolerance,
     );
+    const [stepResponseSamples, setStepResponseSamples] = useState<number>(
+        storedSettings?.stepResponseSamples ?? DEFAULT_CALIBRATION_UI_SETTINGS.stepResponseSamples,
+    );
+    const [wallHomography, setWallHomography] = useState<WallHomography | null>(
+        storedSettings?.wallHomography ?? DEFAULT_CALIBRATION_UI_SETTINGS.wallHomography,
+    );
 
     const currentSettings = useMemo<CalibrationUISettings>(
         () => ({
@@ -74,6 +84,8 @@ export const useCalibrationSettingsController = (): CalibrationSettingsControlle
             firstTileInterimStepDelta,
             firstTileTolerance,
             tileTolerance,
+            stepResponseSamples,
+            wallHomography,
         }),
         [
             arrayRotation,
@@ -83,6 +95,8 @@ export const useCalibrationSettingsController = (): CalibrationSettingsControlle
             firstTileInterimStepDelta,
             firstTileTolerance,
             tileTolerance,
+            stepResponseSamples,
+            wallHomography,
         ],
     );
 
@@ -101,6 +115,8 @@ export const useCalibrationSettingsController = (): CalibrationSettingsControlle
         setFirstTileInterimStepDelta(DEFAULT_CALIBRATION_UI_SETTINGS.firstTileInterimStepDelta);
         setFirstTileTolerance(DEFAULT_CALIBRATION_UI_SETTINGS.firstTileTolerance);
         setTileTolerance(DEFAULT_CALIBRATION_UI_SETTINGS.tileTolerance);
+        setStepResponseSamples(DEFAULT_CALIBRATION_UI_SETTINGS.stepResponseSamples);
+        setWallHomography(DEFAULT_CALIBRATION_UI_SETTINGS.wallHomography);
     }, []);
 
     return {
@@ -111,6 +127,8 @@ export const useCalibrationSettingsController = (): CalibrationSettingsControlle
         firstTileInterimStepDelta,
         firstTileTolerance,
         tileTolerance,
+        stepResponseSamples,
+        wallHomography,
         setArrayRotation,
         setStagingPosition,
         setDeltaSteps,
@@ -118,6 +136,8 @@ export const useCalibrationSettingsController = (): CalibrationSettingsControlle
         setFirstTileInterimStepDelta,
         setFirstTileTolerance,
         setTileTolerance,
+        setStepResponseSamples,
+        setWallHomography,
         currentSettings,
         isDefaultSettings,
         resetToDefaults,
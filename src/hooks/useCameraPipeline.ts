@@ -18,7 +18,11 @@ import {
     renderOverlays,
     type OverlayProjection,
 } from '@/overlays';
-import type { CalibrationRunSummary, CaptureBlobMeasurement } from '@/services/calibration/types';
+import type {
+    CalibrationRunSummary,
+    CaptureBlobMeasurement,
+    CaptureBlobPositions,
+} from '@/services/calibration/types';
 import type {
     BlobDetectorParams,
     DetectedBlob,
@@ -27,7 +31,20 @@ import type {
     OpenCvWorkerStatus,
 } from '@/services/opencvWorkerClient';
 import { getOpenCvWorkerClient } from '@/services/openCvWorkerSingleton';
-import type { CalibrationProfileBounds, NormalizedRoi } from '@/types';
+import {
+    createRecordedCameraDeviceInfo,
+    getRecordedCameraSource,
+    RECORDED_CAMERA_CHANGED_EVENT,
+    RECORDED_CAMERA_DEVICE_ID,
+} from '@/services/recordedCamera';
+import {
+    createSyntheticCameraDeviceInfo,
+    getSyntheticCameraSource,
+    startSyntheticCameraStream,
+    SYNTHETIC_CAMERA_CHANGED_EVENT,
+    SYNTHETIC_CAMERA_DEVICE_ID,
+} from '@/services/syntheticCamera';
+import type { CalibrationProfileBounds, NormalizedRoi, WallHomography } from '@/types';
 import { buildLetterboxTransform } from '@/utils/letterbox';
 
 import type React from 'react';
@@ -47,6 +64,8 @@ export interface OverlayCameraOriginOffset {
 export interface TileBoundsOverlayPayload {
     entries: TileBoundsOverlayEntry[];
     cameraOriginOffset: OverlayCameraOriginOffset;
+    /** Set when the bounds were computed in rectified wall space */
+    wallHomography?: WallHomography | null;
 }
 
 export type {
@@ -54,6 +73,9 @@ export type {
     RoiEditingMode,
 } from '@/hooks/useRoiOverlayInteractions';
 
+/** Frame size for the synthetic camera when the resolution is left on auto */
+const SYNTHETIC_FRAME_SIZE = { width: 1280, height: 720 };
+
 export type CameraStatus = 'idle' | 'loading' | 'ready' | 'error';
 export type PreviewMode = 'raw' | 'processed';
 
@@ -103,6 +125,7 @@ export interface CameraPipelineController {
     opencvInfo: OpenCvReadyMessage | null;
     detectionReady: boolean;
     captureBlobMeasurement: CaptureBlobMeasurement;
+    captureBlobPositions: CaptureBlobPositions;
     previewRefs: CameraPreviewRefs;
     overlayHandlers: CameraPipelineOverlayHandlers;
     resetRoi: () => void;
@@ -339,6 +362,33 @@ export const useCameraPipeline = ({
         onExpectedPositionChange: setExpectedBlobPosition,
     });
 
+    const captureBlobPositions = useCallback<CaptureBlobPositions>(
+        async ({ timeoutMs, signal }) => {
+            const start = performance.now();
+            const baselineSequence = detectionSequenceRef.current;
+            while (performance.now() - start < timeoutMs) {
+                if (signal?.aborted) {
+                    throw new Error('Blob capture aborted');
+                }
+                const meta = processedFrameMetaRef.current;
+                if (
+                    detectionSequenceRef.current !== baselineSequence &&
+                    meta?.sourceWidth &&
+                    meta.sourceHeight
+                ) {
+                    // Same viewport normalization as readBestBlobMeasurement, then centered
+                    return detectionResultsRef.current.map((blob) => ({
+                        x: (blob.x / meta.sourceWidth) * 2 - 1,
+                        y: (blob.y / meta.sourceHeight) * 2 - 1,
+                    }));
+                }
+                await new Promise((resolve) => setTimeout(resolve, 50));
+            }
+            return null;
+        },
+        [],
+    );
+
     useEffect(() => {
         roiRef.current = roi;
     }, [roi]);
@@ -367,6 +417,43 @@ export const useCameraPipeline = ({
         setCameraStatus('loading');
         setCameraError(null);
         try {
+            if (
+                selectedDeviceId === SYNTHETIC_CAMERA_DEVICE_ID ||
+                selectedDeviceId === RECORDED_CAMERA_DEVICE_ID
+            ) {
+                const startVirtualStream = (): MediaStream | null => {
+                    if (selectedDeviceId === RECORDED_CAMERA_DEVICE_ID) {
+                        // Recordings keep their own frame size
+                        return getRecordedCameraSource()?.startStream() ?? null;
+                    }
+                    const source = getSyntheticCameraSource();
+                    return source
+                        ? startSyntheticCameraStream(source, {
+                              width: resolvedResolution.width ?? SYNTHETIC_FRAME_SIZE.width,
+                              height: resolvedResolution.height ?? SYNTHETIC_FRAME_SIZE.height,
+                          })
+                        : null;
+                };
+                stopCurrentStream();
+                const stream = startVirtualStream();
+                if (!stream) {
+                    setCameraStatus('error');
+                    setCameraError(
+                        selectedDeviceId === RECORDED_CAMERA_DEVICE_ID
+                            ? 'Load a video file or image folder to replay.'
+                            : 'The synthetic camera needs a mock transport connection.',
+                    );
+                    return;
+                }
+                streamRef.current = stream;
+                const video = videoRef.current;
+                if (video) {
+                    video.srcObject = stream;
+                    await video.play().catch(() => undefined);
+                }
+                setCameraStatus('ready');
+                return;
+            }
             const constraints = {
                 audio: false,
                 video: {
@@ -406,20 +493,33 @@ export const useCameraPipeline = ({
             }
             try {
                 const mediaDevices = await navigator.mediaDevices.enumerateDevices();
-                setDevices(mediaDevices.filter((device) => device.kind === 'videoinput'));
+                const cameras = mediaDevices.filter((device) => device.kind === 'videoinput');
+                const recording = getRecordedCameraSource();
+                setDevices([
+                    ...cameras,
+                    ...(getSyntheticCameraSource() ? [createSyntheticCameraDeviceInfo()] : []),
+                    ...(recording ? [createRecordedCameraDeviceInfo(recording)] : []),
+                ]);
             } catch (error) {
                 console.error('Failed to enumerate devices', error);
             }
         };
 
         syncDevices();
+        window.addEventListener(SYNTHETIC_CAMERA_CHANGED_EVENT, syncDevices);
+        window.addEventListener(RECORDED_CAMERA_CHANGED_EVENT, syncDevices);
+        const removeVirtualListeners = () => {
+            window.removeEventListener(SYNTHETIC_CAMERA_CHANGED_EVENT, syncDevices);
+            window.removeEventListener(RECORDED_CAMERA_CHANGED_EVENT, syncDevices);
+        };
         if (typeof navigator !== 'undefined' && navigator.mediaDevices) {
             navigator.mediaDevices.addEventListener('devicechange', syncDevices);
             return () => {
+                removeVirtualListeners();
                 navigator.mediaDevices.removeEventListener('devicechange', syncDevices);
             };
         }
-        return () => {};
+        return removeVirtualListeners;
     }, []);
 
     useEffect(() => {
@@ -443,6 +543,24 @@ export const useCameraPipeline = ({
         };
     }, [detectionSettingsLoaded, startStream, stopCurrentStream]);
 
+    // Restart when the selected virtual camera's source is swapped out
+    useEffect(() => {
+        const changeEvent =
+            selectedDeviceId === RECORDED_CAMERA_DEVICE_ID
+                ? RECORDED_CAMERA_CHANGED_EVENT
+                : selectedDeviceId === SYNTHETIC_CAMERA_DEVICE_ID
+                  ? SYNTHETIC_CAMERA_CHANGED_EVENT
+                  : null;
+        if (!detectionSettingsLoaded || !changeEvent) {
+            return undefined;
+        }
+        const restart = () => {
+            void startStream();
+        };
+        window.addEventListener(changeEvent, restart);
+        return () => window.removeEventListener(changeEvent, restart);
+    }, [detectionSettingsLoaded, selectedDeviceId, startStream]);
+
     useEffect(() => {
         const video = videoRef.current;
         if (!video) {
@@ -653,6 +771,7 @@ export const useCameraPipeline = ({
                     ? {
                           entries: tileBoundsPayload!.entries,
                           cameraOriginOffset: tileBoundsPayload!.cameraOriginOffset,
+                          wallHomography: tileBoundsPayload!.wallHomography,
                       }
                     : undefined,
             });
@@ -1128,6 +1247,7 @@ export const useCameraPipeline = ({
         opencvInfo,
         detectionReady,
         captureBlobMeasurement,
+        captureBlobPositions,
         previewRefs: {
             overlayRef,
             videoRef,
@@ -1,9 +1,38 @@
 import { useCallback } from 'react';
 
-import { HOME_ACTION, MOVE_ACTION } from '../constants/control';
+import {
+    ACK_EXPECTED_ACTIONS,
+    GET_ACTION,
+    HOME_ACTION,
+    MOVE_ACTION,
+    MQTT_GET_CONFIG_ACTION,
+    MQTT_SET_CONFIG_ACTION,
+    NET_LIST_ACTION,
+    NET_RESET_ACTION,
+    NET_SET_ACTION,
+    NET_STATUS_ACTION,
+    SET_ACTION,
+    SLEEP_ACTION,
+    WAKE_ACTION,
+} from '../constants/control';
 import { useCommandTracker } from '../context/CommandTrackerContext';
 import { useMqtt } from '../context/MqttContext';
 import { computeNudgeTargets, normalizeMacForTopic } from '../services/motorControl';
+import {
+    parseMqttConfigResult,
+    parseNetStatusResult,
+    parseNetworkList,
+    type MqttBrokerConfig,
+    type NetStatusReport,
+    type WifiCredentials,
+    type WifiNetwork,
+} from '../services/netOnboarding';
+import {
+    parseNodeConfigReport,
+    type NodeConfigField,
+    type NodeConfigReport,
+    type NodeConfigValues,
+} from '../services/nodeConfig';
 import {
     type CommandCompletionResult,
     type CommandFailure,
@@ -14,7 +43,6 @@ interface PublishCommandParams {
     action: string;
     params: Record<string, unknown>;
     cmdId?: string;
-    expectAck?: boolean;
 }
 
 export interface NudgeMotorArgs {
@@ -54,8 +82,38 @@ export interface MoveMotorArgs {
     cmdId?: string;
     /** Motor speed in steps per second. Firmware range: 500-4000. If omitted, firmware uses default. */
     speedSps?: number;
+    /** Acceleration in steps per second squared. If omitted, firmware uses its configured accel. */
+    accelSps2?: number;
+}
+
+export interface GetNodeConfigArgs {
+    mac: string;
+}
+
+export interface SetNodeConfigArgs<F extends NodeConfigField = NodeConfigField> {
+    mac: string;
+    field: F;
+    value: NodeConfigValues[F];
+}
+
+export interface MotorPowerArgs {
+    mac: string;
+    /** Single motor index, or `'ALL'` for every motor on the node. */
+    motorId: number | 'ALL';
+}
+
+export interface NodeNetworkArgs {
+    mac: string;
 }
 
+export interface SetWifiCredentialsArgs extends WifiCredentials {
+    mac: string;
+}
+
+export type SetMqttConfigArgs =
+    | ({ mac: string } & Omit<MqttBrokerConfig, 'port'> & { port: number })
+    | { mac: string; reset: true };
+
 const isCommandFailure = (value: unknown): value is CommandFailure =>
     Boolean(value) &&
     value instanceof Error &&
@@ -67,17 +125,43 @@ export interface MotorCommandApi {
     homeMotor: (args: HomeMotorArgs) => Promise<HomeCommandResult>;
     homeAll: (args: HomeAllArgs) => Promise<HomeCommandResult[]>;
     moveMotor: (args: MoveMotorArgs) => Promise<CommandCompletionResult>;
+    /** Request `GET ALL` from a node. GET completes without an ack. */
+    getNodeConfig: (args: GetNodeConfigArgs) => Promise<NodeConfigReport>;
+    /** Send a single-field `SET`. Firmware only accepts one field per request. */
+    setNodeConfig: (args: SetNodeConfigArgs) => Promise<CommandCompletionResult>;
+    /** Power up motor driver(s). WAKE completes without an ack. */
+    wakeMotor: (args: MotorPowerArgs) => Promise<CommandCompletionResult>;
+    /** Put motor driver(s) to sleep. SLEEP completes without an ack. */
+    sleepMotor: (args: MotorPowerArgs) => Promise<CommandCompletionResult>;
+    /** Read Wi-Fi state via `NET:STATUS` (completion only). */
+    getNetStatus: (args: NodeNetworkArgs) => Promise<NetStatusReport>;
+    /** Scan access points via `NET:LIST`. Firmware only allows this in AP mode. */
+    listNetworks: (args: NodeNetworkArgs) => Promise<WifiNetwork[]>;
+    /** Store new Wi-Fi credentials and reconnect via `NET:SET` (completion only). */
+    setWifiCredentials: (args: SetWifiCredentialsArgs) => Promise<CommandCompletionResult>;
+    /** Clear stored credentials and start the setup access point via `NET:RESET`. */
+    resetNetwork: (args: NodeNetworkArgs) => Promise<NetStatusReport>;
+    /** Read the broker settings via `MQTT:GET_CONFIG`. */
+    getMqttConfig: (args: NodeNetworkArgs) => Promise<MqttBrokerConfig>;
+    /** Update (or reset) the broker settings via `MQTT:SET_CONFIG`. */
+    setMqttConfig: (args: SetMqttConfigArgs) => Promise<MqttBrokerConfig>;
 }
 
+const findDoneResult = (completion: CommandCompletionResult) =>
+    completion.responses.find((response) => response.status === 'done')?.result;
+
 export const useMotorCommands = (): MotorCommandApi => {
     const { publish, createCommandId } = useMqtt();
     const { register, cancel } = useCommandTracker();
 
     const publishCommand = useCallback(
-        async ({ mac, action, params, cmdId, expectAck = true }: PublishCommandParams) => {
+        async ({ mac, action, params, cmdId }: PublishCommandParams) => {
             const resolvedCmdId = cmdId ?? createCommandId();
             const normalizedMac = normalizeMacForTopic(mac);
-            const completionPromise = register(resolvedCmdId, { expectAck, mac: normalizedMac });
+            const completionPromise = register(resolvedCmdId, {
+                expectAck: ACK_EXPECTED_ACTIONS.has(action),
+                mac: normalizedMac,
+            });
             const topic = `devices/${normalizedMac}/cmd`;
 
             try {
@@ -191,6 +275,7 @@ export const useMotorCommands = (): MotorCommandApi => {
             positionSteps,
             cmdId,
             speedSps,
+            accelSps2,
         }: MoveMotorArgs): Promise<CommandCompletionResult> => {
             const completion = await publishCommand({
                 mac,
@@ -199,6 +284,7 @@ export const useMotorCommands = (): MotorCommandApi => {
                     target_ids: motorId,
                     position_steps: positionSteps,
                     ...(speedSps !== undefined && { speed: speedSps }),
+                    ...(accelSps2 !== undefined && { accel: accelSps2 }),
                 },
                 cmdId,
             });
@@ -207,10 +293,137 @@ export const useMotorCommands = (): MotorCommandApi => {
         [publishCommand],
     );
 
+    const getNodeConfig = useCallback(
+        async ({ mac }: GetNodeConfigArgs): Promise<NodeConfigReport> => {
+            const completion = await publishCommand({
+                mac,
+                action: GET_ACTION,
+                params: { resource: 'ALL' },
+            });
+            const done = completion.responses.find((response) => response.status === 'done');
+            return parseNodeConfigReport(done?.result);
+        },
+        [publishCommand],
+    );
+
+    const setNodeConfig = useCallback(
+        async ({ mac, field, value }: SetNodeConfigArgs): Promise<CommandCompletionResult> =>
+            publishCommand({
+                mac,
+                action: SET_ACTION,
+                params: { [field]: value },
+            }),
+        [publishCommand],
+    );
+
+    const wakeMotor = useCallback(
+        async ({ mac, motorId }: MotorPowerArgs): Promise<CommandCompletionResult> =>
+            publishCommand({
+                mac,
+                action: WAKE_ACTION,
+                params: { target_ids: motorId },
+            }),
+        [publishCommand],
+    );
+
+    const sleepMotor = useCallback(
+        async ({ mac, motorId }: MotorPowerArgs): Promise<CommandCompletionResult> =>
+            publishCommand({
+                mac,
+                action: SLEEP_ACTION,
+                params: { target_ids: motorId },
+            }),
+        [publishCommand],
+    );
+
+    const getNetStatus = useCallback(
+        async ({ mac }: NodeNetworkArgs): Promise<NetStatusReport> => {
+            const completion = await publishCommand({
+                mac,
+                action: NET_STATUS_ACTION,
+                params: {},
+            });
+            return parseNetStatusResult(findDoneResult(completion));
+        },
+        [publishCommand],
+    );
+
+    const listNetworks = useCallback(
+        async ({ mac }: NodeNetworkArgs): Promise<WifiNetwork[]> => {
+            const completion = await publishCommand({
+                mac,
+                action: NET_LIST_ACTION,
+                params: {},
+            });
+            return parseNetworkList(findDoneResult(completion));
+        },
+        [publishCommand],
+    );
+
+    const setWifiCredentials = useCallback(
+        async ({ mac, ssid, pass }: SetWifiCredentialsArgs): Promise<CommandCompletionResult> =>
+            publishCommand({
+                mac,
+                action: NET_SET_ACTION,
+                params: { ssid, pass },
+            }),
+        [publishCommand],
+    );
+
+    const resetNetwork = useCallback(
+        async ({ mac }: NodeNetworkArgs): Promise<NetStatusReport> => {
+            const completion = await publishCommand({
+                mac,
+                action: NET_RESET_ACTION,
+                params: {},
+            });
+            return parseNetStatusResult(findDoneResult(completion));
+        },
+        [publishCommand],
+    );
+
+    const getMqttConfig = useCallback(
+        async ({ mac }: NodeNetworkArgs): Promise<MqttBrokerConfig> => {
+            const completion = await publishCommand({
+                mac,
+                action: MQTT_GET_CONFIG_ACTION,
+                params: {},
+            });
+            return parseMqttConfigResult(findDoneResult(completion));
+        },
+        [publishCommand],
+    );
+
+    const setMqttConfig = useCallback(
+        async (args: SetMqttConfigArgs): Promise<MqttBrokerConfig> => {
+            const params =
+                'reset' in args
+                    ? { reset: true }
+                    : { host: args.host, port: args.port, user: args.user, pass: args.pass };
+            const completion = await publishCommand({
+                mac: args.mac,
+                action: MQTT_SET_CONFIG_ACTION,
+                params,
+            });
+            return parseMqttConfigResult(findDoneResult(completion));
+        },
+        [publishCommand],
+    );
+
     return {
         nudgeMotor,
         homeMotor,
         homeAll,
         moveMotor,
+        getNodeConfig,
+        setNodeConfig,
+        wakeMotor,
+        sleepMotor,
+        getNetStatus,
+        listNetworks,
+        setWifiCredentials,
+        resetNetwork,
+        getMqttConfig,
+        setMqttConfig,
     };
 };
@@ -1,14 +1,32 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState, type RefObject } from 'react';
 
 import { useLogStore } from '@/context/LogContext';
+import { useMotorPower } from '@/context/MotorPowerContext';
+import { useStatusStore } from '@/context/StatusContext';
 import { useMotorCommands } from '@/hooks/useMotorCommands';
 import type { CommandFailure } from '@/services/pendingCommandTracker';
 import {
     planProfilePlayback,
     type ProfilePlaybackAxisTarget,
+    type ProfilePlaybackPlanResult,
 } from '@/services/profilePlaybackPlanner';
-import type { CalibrationProfile, MirrorConfig, Pattern } from '@/types';
+import {
+    planShowTransition,
+    readTelemetryPositions,
+    recordKeyframePositions,
+    toStartSteps,
+    type ShowKeyframe,
+    type ShowTransitionPlan,
+} from '@/services/showScheduler';
+import {
+    buildThermalTelemetryIndex,
+    getThermalIssues,
+    getThermalMotorKey,
+    type ThermalTelemetryIndex,
+} from '@/services/thermalBudget';
+import type { CalibrationProfile, MirrorConfig, Pattern, PlaybackLoopMode } from '@/types';
 import type { CommandErrorDetail } from '@/types/commandError';
+import { extractCommandErrorDetail } from '@/utils/commandErrors';
 
 export interface PlaybackResult {
     success: boolean;
@@ -17,24 +35,132 @@ export interface PlaybackResult {
     failures?: CommandErrorDetail[];
 }
 
+interface ThermalGateResult {
+    targets: ProfilePlaybackAxisTarget[];
+    blocked: CommandErrorDetail[];
+    /** True when a stop was requested while waiting for the cooldown */
+    stopped: boolean;
+}
+
+interface DispatchResult {
+    failures: CommandErrorDetail[];
+    /** Targets whose moves were sent and completed */
+    reached: ProfilePlaybackAxisTarget[];
+    stopped: boolean;
+}
+
 interface PlaybackConfig {
     gridSize: { rows: number; cols: number };
     mirrorConfig: MirrorConfig;
 }
 
+/** Wait for a duration; resolves false as soon as a stop is requested. */
+const delay = (ms: number, stopRef: RefObject<boolean>): Promise<boolean> =>
+    new Promise((resolve) => {
+        const checkInterval = 50;
+        let elapsed = 0;
+        const interval = setInterval(() => {
+            elapsed += checkInterval;
+            if (stopRef.current) {
+                clearInterval(interval);
+                resolve(false);
+            } else if (elapsed >= ms) {
+                clearInterval(interval);
+                resolve(true);
+            }
+        }, checkInterval);
+    });
+
 export function usePlaybackDispatch(config: PlaybackConfig) {
     const { moveMotor } = useMotorCommands();
-    const { logInfo, logError } = useLogStore();
+    const { logInfo, logError, logWarning } = useLogStore();
+    const { drivers } = useStatusStore();
+    const { beginMotion, endMotion } = useMotorPower();
     const [isPlaying, setIsPlaying] = useState(false);
+    const stopRequestedRef = useRef(false);
 
-    const dispatchTargets = useCallback(
+    // Sequences plan each pattern right before it plays, so read the latest budgets via ref
+    const thermalTelemetry = useMemo(() => buildThermalTelemetryIndex(drivers), [drivers]);
+    const thermalTelemetryRef = useRef<ThermalTelemetryIndex>(thermalTelemetry);
+    useEffect(() => {
+        thermalTelemetryRef.current = thermalTelemetry;
+    }, [thermalTelemetry]);
+
+    /**
+     * Apply the plan's thermal assessment: log warnings, wait out cooldowns and
+     * report blocked motors as failures instead of letting firmware reject them.
+     * The cooldown ends early when a stop is requested.
+     */
+    const applyThermalGate = useCallback(
         async (
-            targets: ProfilePlaybackAxisTarget[],
+            plan: ProfilePlaybackPlanResult,
             patternName: string,
-        ): Promise<{ failures: CommandErrorDetail[] }> => {
-            if (targets.length === 0) {
+        ): Promise<ThermalGateResult> => {
+            const thermal = plan.thermal;
+            if (!thermal) {
+                return { targets: plan.playableAxisTargets, blocked: [], stopped: false };
+            }
+            for (const issue of getThermalIssues(thermal)) {
+                if (issue.status === 'warn' && issue.message) {
+                    logWarning('Playback', issue.message);
+                }
+            }
+            if (thermal.waitMs > 0) {
+                logWarning(
+                    'Playback',
+                    `Waiting ${Math.ceil(thermal.waitMs / 1000)}s for thermal cooldown before "${patternName}".`,
+                );
+                if (!(await delay(thermal.waitMs, stopRequestedRef))) {
+                    logInfo('Playback', `Stopped during thermal cooldown before "${patternName}".`);
+                    return { targets: [], blocked: [], stopped: true };
+                }
+            }
+
+            const targets: ProfilePlaybackAxisTarget[] = [];
+            const blocked: CommandErrorDetail[] = [];
+            for (const target of plan.playableAxisTargets) {
+                const key = getThermalMotorKey(target.motor.nodeMac, target.motor.motorIndex);
+                const assessment = thermal.blockedKeys.has(key)
+                    ? thermal.motors.find((motor) => motor.key === key)
+                    : undefined;
+                if (!assessment) {
+                    targets.push(target);
+                    continue;
+                }
+                blocked.push({
+                    cmdId: 'thermal-precheck',
+                    controller: target.motor.nodeMac,
+                    motorId: target.motor.motorIndex,
+                    row: target.row,
+                    col: target.col,
+                    axis: target.axis,
+                    reason: 'thermal',
+                    errorCode: assessment.errorCode ?? undefined,
+                    errorMessage: assessment.message ?? undefined,
+                });
+            }
+            if (blocked.length > 0) {
+                logError(
+                    'Playback',
+                    `Skipped ${blocked.length} axis moves for "${patternName}" to stay within thermal budget.`,
+                );
+            }
+            return { targets, blocked, stopped: false };
+        },
+        [logError, logInfo, logWarning],
+    );
+
+    const dispatchTargets = useCallback(
+        async (plan: ProfilePlaybackPlanResult, patternName: string): Promise<DispatchResult> => {
+            if (plan.playableAxisTargets.length === 0) {
                 throw new Error('No playable motors found for this pattern.');
             }
+            const { targets, blocked, stopped } = await applyThermalGate(plan, patternName);
+            if (stopped) {
+                return { failures: [], reached: [], stopped };
+            }
+            const motors = targets.map((target) => target.motor);
+            await beginMotion(motors);
             const settled = await Promise.allSettled(
                 targets.map((target) =>
                     moveMotor({
@@ -44,8 +170,10 @@ export function usePlaybackDispatch(config: PlaybackConfig) {
                     }),
                 ),
             );
+            endMotion(motors);
 
-            const failures: CommandErrorDetail[] = [];
+            const reached = targets.filter((_, index) => settled[index].status === 'fulfilled');
+            const failures: CommandErrorDetail[] = [...blocked];
             settled.forEach((result, index) => {
                 if (result.status === 'rejected') {
                     const target = targets[index];
@@ -65,15 +193,110 @@ export function usePlaybackDispatch(config: PlaybackConfig) {
             });
 
             if (failures.length > 0) {
-                const message = `${failures.length}/${targets.length} motor commands failed for "${patternName}".`;
+                const message = `${failures.length}/${plan.playableAxisTargets.length} motor commands failed for "${patternName}".`;
                 logError('Playback', message);
             } else {
                 logInfo('Playback', `Sent ${targets.length} axis moves for "${patternName}".`);
             }
 
-            return { failures };
+            return { failures, reached, stopped: false };
+        },
+        [applyThermalGate, beginMotion, endMotion, logError, logInfo, moveMotor],
+    );
+
+    /**
+     * Run a planned transition: each mirror waits for its start delay, then
+     * steps through the segment's sub-steps with the planned speeds.
+     */
+    const dispatchTransition = useCallback(
+        async (
+            plan: ProfilePlaybackPlanResult,
+            transition: ShowTransitionPlan,
+            patternName: string,
+        ): Promise<DispatchResult> => {
+            const segment = transition.segment;
+            if (!segment) {
+                return dispatchTargets(plan, patternName);
+            }
+            if (plan.playableAxisTargets.length === 0) {
+                throw new Error('No playable motors found for this pattern.');
+            }
+            const { targets, blocked, stopped } = await applyThermalGate(plan, patternName);
+            if (stopped) {
+                return { failures: [], reached: [], stopped };
+            }
+            const allowedKeys = new Set(targets.map((target) => target.key));
+            const mirrorIds = Array.from(new Set(targets.map((target) => target.mirrorId)));
+            const motors = targets.map((target) => target.motor);
+            const failures: CommandErrorDetail[] = [...blocked];
+            const completedMirrors = new Set<string>();
+
+            const runMirror = async (mirrorId: string) => {
+                const startMs = transition.mirrorStartMs.get(mirrorId) ?? 0;
+                if (startMs > 0 && !(await delay(startMs, stopRequestedRef))) {
+                    return;
+                }
+                for (const subStep of segment.subSteps) {
+                    if (stopRequestedRef.current) {
+                        return;
+                    }
+                    const moves = subStep.axisMoves.filter(
+                        (move) => move.mirrorId === mirrorId && allowedKeys.has(move.key),
+                    );
+                    const settled = await Promise.allSettled(
+                        moves.map((move) =>
+                            moveMotor({
+                                mac: move.motor.nodeMac,
+                                motorId: move.motor.motorIndex,
+                                positionSteps: move.targetSteps,
+                                speedSps: move.speedSps,
+                                accelSps2: move.accelSps2,
+                            }),
+                        ),
+                    );
+                    const rejected = settled.flatMap((result, index) =>
+                        result.status === 'rejected' ? [{ move: moves[index], result }] : [],
+                    );
+                    for (const { move, result } of rejected) {
+                        failures.push(
+                            extractCommandErrorDetail(result.reason, {
+                                controller: move.motor.nodeMac,
+                                motorId: move.motor.motorIndex,
+                                row: move.row,
+                                col: move.col,
+                                axis: move.axis,
+                            }),
+                        );
+                    }
+                    if (rejected.length > 0) {
+                        return;
+                    }
+                }
+                completedMirrors.add(mirrorId);
+            };
+
+            await beginMotion(motors);
+            try {
+                await Promise.all(mirrorIds.map(runMirror));
+            } finally {
+                endMotion(motors);
+            }
+
+            if (failures.length > 0) {
+                logError(
+                    'Playback',
+                    `${failures.length}/${plan.playableAxisTargets.length} motor commands failed for "${patternName}".`,
+                );
+            } else {
+                logInfo(
+                    'Playback',
+                    `${transition.transition === 'wave' ? 'Waved' : 'Morphed'} ${targets.length} axes into "${patternName}".`,
+                );
+            }
+            const reached = targets.filter((target) => completedMirrors.has(target.mirrorId));
+            return { failures, reached, stopped: false };
         },
-        [logError, logInfo, moveMotor],
+        [applyThermalGate, beginMotion, dispatchTargets, endMotion, logError, logInfo, moveMotor],
     );
 
     const playSinglePattern = useCallback(
@@ -83,6 +306,7 @@ export function usePlaybackDispatch(config: PlaybackConfig) {
                 mirrorConfig: config.mirrorConfig,
                 profile,
                 pattern,
+                thermalTelemetry: thermalTelemetryRef.current,
             });
 
             if (plan.errors.length > 0) {
@@ -91,8 +315,12 @@ export function usePlaybackDispatch(config: PlaybackConfig) {
             }
 
             try {
+                stopRequestedRef.current = false;
                 setIsPlaying(true);
-                const { failures } = await dispatchTargets(plan.playableAxisTargets, pattern.name);
+                const { failures, stopped } = await dispatchTargets(plan, pattern.name);
+                if (stopped) {
+                    return { success: true, message: `Stopped "${pattern.name}".` };
+                }
                 if (failures.length > 0) {
                     return {
                         success: false,
@@ -116,49 +344,93 @@ export function usePlaybackDispatch(config: PlaybackConfig) {
         [config.gridSize, config.mirrorConfig, dispatchTargets, logError],
     );
 
+    /**
+     * Play a sequence timeline: transition into each keyframe, hold it, then
+     * move on. Loop mode repeats until `stopSequence` is called; the hold after
+     * the last keyframe only applies when looping.
+     */
     const playPatternSequence = useCallback(
         async (
-            patterns: Pattern[],
+            keyframes: ShowKeyframe[],
             profile: CalibrationProfile,
-            delayMs = 500,
+            loopMode: PlaybackLoopMode = 'once',
         ): Promise<PlaybackResult> => {
-            if (patterns.length === 0) {
+            if (keyframes.length === 0) {
                 return { success: false, message: 'No patterns in sequence.' };
             }
 
+            stopRequestedRef.current = false;
             setIsPlaying(true);
+            let positions = readTelemetryPositions(thermalTelemetryRef.current);
+            // Each keyframe is assigned relative to the last so the formation morphs
+            let previousPlan: ProfilePlaybackPlanResult | null = null;
             try {
-                for (let i = 0; i < patterns.length; i++) {
-                    const pattern = patterns[i];
-                    const plan = planProfilePlayback({
-                        gridSize: config.gridSize,
-                        mirrorConfig: config.mirrorConfig,
-                        profile,
-                        pattern,
-                    });
+                do {
+                    for (let i = 0; i < keyframes.length; i++) {
+                        if (stopRequestedRef.current) {
+                            return { success: true, message: 'Sequence stopped.' };
+                        }
+                        const { entry, pattern } = keyframes[i];
+                        const plan = planProfilePlayback({
+                            gridSize: config.gridSize,
+                            mirrorConfig: config.mirrorConfig,
+                            profile,
+                            pattern,
+                            thermalTelemetry: thermalTelemetryRef.current,
+                            startSteps: toStartSteps(positions),
+                            previousPlan,
+                        });
 
-                    if (plan.errors.length > 0) {
-                        throw new Error(`Pattern "${pattern.name}": ${plan.errors[0].message}`);
-                    }
+                        if (plan.errors.length > 0) {
+                            throw new Error(`Pattern "${pattern.name}": ${plan.errors[0].message}`);
+                        }
 
-                    const { failures } = await dispatchTargets(
-                        plan.playableAxisTargets,
-                        pattern.name,
-                    );
-                    if (failures.length > 0) {
-                        return {
-                            success: false,
-                            message: `${failures.length}/${plan.playableAxisTargets.length} motor commands failed for "${pattern.name}".`,
-                            axisCount: plan.playableAxisTargets.length,
-                            failures,
-                        };
-                    }
+                        const transition = planShowTransition({
+                            entry,
+                            targets: plan.playableAxisTargets,
+                            positions,
+                            gridSize: config.gridSize,
+                        });
+                        if (transition.fellBack) {
+                            logWarning(
+                                'Playback',
+                                `Mirror positions are unknown; moving directly into "${pattern.name}" instead of a ${entry.transition}.`,
+                            );
+                        }
 
-                    if (i < patterns.length - 1) {
-                        await new Promise((resolve) => setTimeout(resolve, delayMs));
+                        const { failures, reached, stopped } = await dispatchTransition(
+                            plan,
+                            transition,
+                            pattern.name,
+                        );
+                        if (stopped) {
+                            return { success: true, message: 'Sequence stopped.' };
+                        }
+                        if (failures.length > 0) {
+                            return {
+                                success: false,
+                                message: `${failures.length}/${plan.playableAxisTargets.length} motor commands failed for "${pattern.name}".`,
+                                axisCount: plan.playableAxisTargets.length,
+                                failures,
+                            };
+                        }
+                        positions = recordKeyframePositions(positions, reached);
+                        previousPlan = plan;
+
+                        const isLast = i === keyframes.length - 1;
+                        if ((loopMode === 'loop' || !isLast) && entry.holdMs > 0) {
+                            await delay(entry.holdMs, stopRequestedRef);
+                        } else if (loopMode === 'loop' && isLast) {
+                            // Empty transitions settle on microtasks alone, so wait a
+                            // timer tick per pass or a loop without holds freezes the page
+                            await delay(0, stopRequestedRef);
+                        }
                     }
-                }
-                return { success: true, message: 'Sequence completed successfully.' };
+                } while (loopMode === 'loop' && !stopRequestedRef.current);
+
+                return stopRequestedRef.current
+                    ? { success: true, message: 'Sequence stopped.' }
+                    : { success: true, message: 'Sequence completed successfully.' };
             } catch (error) {
                 const message = error instanceof Error ? error.message : 'Sequence playback failed';
                 logError('Playback', message);
@@ -167,12 +439,21 @@ export function usePlaybackDispatch(config: PlaybackConfig) {
                 setIsPlaying(false);
             }
         },
-        [config.gridSize, config.mirrorConfig, dispatchTargets, logError],
+        [config.gridSize, config.mirrorConfig, dispatchTransition, logError, logWarning],
     );
 
+    /**
+     * Stop a running sequence after the current keyframe's moves complete.
+     * A pending thermal cooldown is cancelled without sending its moves.
+     */
+    const stopSequence = useCallback(() => {
+        stopRequestedRef.current = true;
+    }, []);
+
     return {
         playSinglePattern,
         playPatternSequence,
+        stopSequence,
         isPlaying,
     };
 }
@@ -4,6 +4,7 @@
 import { describe, expect, it } from 'vitest';
 
 import type { CalibrationRunSummary } from '@/services/calibration/types';
+import type { WallHomography } from '@/types';
 
 import {
     buildAlignmentGridOverlay,
@@ -12,6 +13,14 @@ import {
     buildTileBoundsOverlays,
 } from '../builders';
 
+// Rectified coordinates are twice the camera coordinates
+const doublingHomography: WallHomography = {
+    matrix: [2, 0, 0, 0, 2, 0, 0, 0, 1],
+    cameraPoints: [],
+    referenceSize: { width: 1, height: 1 },
+    method: 'manual',
+};
+
 describe('buildBlobOverlays', () => {
     it('converts detected blobs to circle overlays', () => {
         const result = buildBlobOverlays({
@@ -180,6 +189,24 @@ describe('buildAlignmentGridOverlay', () => {
         expect(result!.gapY).toBe(0);
         // With gap=0, tile spacing = tile dimensions, so tiles touch edge-to-edge
     });
+
+    it('maps a rectified summary back to camera space', () => {
+        const summary = createMockSummary({ tileGapX: 0.02 });
+        summary.tiles['0,0'].homeMeasurement!.x = 0.2;
+        summary.tiles['0,0'].homeMeasurement!.y = -0.1;
+
+        const rectified = buildAlignmentGridOverlay({ summary })!;
+        const result = buildAlignmentGridOverlay({
+            summary: { ...summary, wallHomography: doublingHomography },
+        })!;
+
+        expect(result.tiles[0].measurement!.x).toBeCloseTo(0.1);
+        expect(result.tiles[0].measurement!.y).toBeCloseTo(-0.05);
+        expect(result.origin.x).toBeCloseTo(rectified.origin.x / 2);
+        expect(result.origin.y).toBeCloseTo(rectified.origin.y / 2);
+        expect(result.tileWidth).toBeCloseTo(rectified.tileWidth / 2);
+        expect(result.gapX).toBeCloseTo(0.01);
+    });
 });
 
 describe('buildTileBoundsOverlays', () => {
@@ -235,4 +262,24 @@ describe('buildTileBoundsOverlays', () => {
         expect(result[0].bounds.maxX).toBeCloseTo(0.3);
         expect(result[0].bounds.maxY).toBeCloseTo(0.25);
     });
+
+    it('maps rectified bounds back to camera space', () => {
+        const result = buildTileBoundsOverlays({
+            entries: [
+                {
+                    key: '0,0',
+                    row: 0,
+                    col: 0,
+                    bounds: { x: { min: 0, max: 0.2 }, y: { min: 0, max: 0.2 } },
+                },
+            ],
+            cameraOriginOffset: { x: 0.1, y: 0.05 },
+            wallHomography: doublingHomography,
+        });
+
+        expect(result[0].bounds.minX).toBeCloseTo(0.05);
+        expect(result[0].bounds.minY).toBeCloseTo(0.025);
+        expect(result[0].bounds.maxX).toBeCloseTo(0.15);
+        expect(result[0].bounds.maxY).toBeCloseTo(0.125);
+    });
 });
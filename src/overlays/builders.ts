@@ -11,9 +11,10 @@ import {
     computeGridOrigin,
     computeImpliedOrigin,
 } from '@/services/calibration/math/gridBlueprintMath';
+import { unrectifyPoint } from '@/services/calibration/math/wallHomography';
 import type { CalibrationRunSummary } from '@/services/calibration/types';
 import type { DetectedBlob } from '@/services/opencvWorkerClient';
-import type { CalibrationProfileBounds } from '@/types';
+import type { CalibrationProfileBounds, WallHomography } from '@/types';
 
 import type {
     CenteredPoint,
@@ -170,7 +171,9 @@ const ALIGNMENT_TEAL_LABEL = 'rgba(16, 185, 129, 0.95)';
  * Build a grid overlay for the alignment grid visualization.
  *
  * Uses pitch-derived spacing for alignment, while rendering tiles as pixel-square
- * using the isotropic blob size when available.
+ * using the isotropic blob size when available. A summary rectified with a wall
+ * homography is mapped back to camera space: measurements and the grid corners
+ * land exactly, and the spacing between the corners is scaled linearly.
  */
 export const buildAlignmentGridOverlay = (
     params: AlignmentGridOverlayParams,
@@ -219,19 +222,37 @@ export const buildAlignmentGridOverlay = (
         : blueprint.gridOrigin;
 
     // Grid origin in centered coords (already in centered space from blueprint)
-    const origin: CenteredPoint = {
+    const rectifiedOrigin = {
         x: displayOrigin.x + offsetX,
         y: displayOrigin.y + offsetY,
     };
+    const homography = summary.wallHomography ?? null;
+    const toCamera = (point: { x: number; y: number }) =>
+        homography ? unrectifyPoint(point, homography) : point;
+    const origin = toCamera(rectifiedOrigin) as CenteredPoint;
+
+    // Scale the spacing so the far grid corner lands where it does in camera space
+    let scaleX = 1;
+    let scaleY = 1;
+    if (homography) {
+        const cols = Math.max(...tileEntries.map((entry) => entry.tile.col)) + 1;
+        const rows = Math.max(...tileEntries.map((entry) => entry.tile.row)) + 1;
+        const farCorner = toCamera({
+            x: rectifiedOrigin.x + cols * spacingX,
+            y: rectifiedOrigin.y + rows * spacingY,
+        });
+        scaleX = spacingX > 0 ? (farCorner.x - origin.x) / (cols * spacingX) : 1;
+        scaleY = spacingY > 0 ? (farCorner.y - origin.y) / (rows * spacingY) : 1;
+    }
 
     // Build tile entries
     const tiles: TileEntry[] = tileEntries.map((entry) => {
         const measurement = entry.homeMeasurement
             ? (() => {
-                  const raw = {
+                  const raw = toCamera({
                       x: entry.homeMeasurement.x + offsetX,
                       y: entry.homeMeasurement.y + offsetY,
-                  };
+                  });
                   const rotated = rotatePoint ? rotatePoint(raw) : raw;
                   return rotated as CenteredPoint;
               })()
@@ -248,10 +269,10 @@ export const buildAlignmentGridOverlay = (
     return {
         type: 'grid' as const,
         origin,
-        tileWidth,
-        tileHeight,
-        gapX,
-        gapY,
+        tileWidth: tileWidth * scaleX,
+        tileHeight: tileHeight * scaleY,
+        gapX: gapX * scaleX,
+        gapY: gapY * scaleY,
         renderTileWidth,
         renderTileHeight,
         tileSizing: 'isotropic' as const,
@@ -280,15 +301,18 @@ export interface TileBoundsOverlayEntry {
 export interface TileBoundsOverlayParams {
     entries: TileBoundsOverlayEntry[];
     cameraOriginOffset: { x: number; y: number };
+    /** Set when the bounds were computed in rectified wall space */
+    wallHomography?: WallHomography | null;
 }
 
 const TILE_BOUNDS_COLORS = ['#fb7185', '#38bdf8', '#c084fc', '#facc15', '#4ade80', '#f472b6'];
 
 /**
- * Build rectangle overlays for tile bounds visualization.
+ * Build rectangle overlays for tile bounds visualization. Rectified bounds are
+ * drawn as the camera-space box around their unrectified corners.
  */
 export const buildTileBoundsOverlays = (params: TileBoundsOverlayParams): RectOverlay[] => {
-    const { entries, cameraOriginOffset } = params;
+    const { entries, cameraOriginOffset, wallHomography } = params;
 
     return entries
         .filter((entry) => {
@@ -298,10 +322,22 @@ export const buildTileBoundsOverlays = (params: TileBoundsOverlayParams): RectOv
         })
         .map((entry, index) => {
             // Bounds are already in centered coords [-1, 1]
-            const minX = entry.bounds.x.min + cameraOriginOffset.x;
-            const minY = entry.bounds.y.min + cameraOriginOffset.y;
-            const maxX = entry.bounds.x.max + cameraOriginOffset.x;
-            const maxY = entry.bounds.y.max + cameraOriginOffset.y;
+            let minX = entry.bounds.x.min + cameraOriginOffset.x;
+            let minY = entry.bounds.y.min + cameraOriginOffset.y;
+            let maxX = entry.bounds.x.max + cameraOriginOffset.x;
+            let maxY = entry.bounds.y.max + cameraOriginOffset.y;
+            if (wallHomography) {
+                const corners = [
+                    { x: minX, y: minY },
+                    { x: maxX, y: minY },
+                    { x: maxX, y: maxY },
+                    { x: minX, y: maxY },
+                ].map((corner) => unrectifyPoint(corner, wallHomography));
+                minX = Math.min(...corners.map((corner) => corner.x));
+                minY = Math.min(...corners.map((corner) => corner.y));
+                maxX = Math.max(...corners.map((corner) => corner.x));
+                maxY = Math.max(...corners.map((corner) => corner.y));
+            }
 
             const color = TILE_BOUNDS_COLORS[index % TILE_BOUNDS_COLORS.length];
 
@@ -14,9 +14,13 @@ import { showSimpleErrorToast } from '@/components/common/StyledToast';
 import Modal from '@/components/Modal';
 import { useAnimationContext } from '@/context/AnimationContext';
 import { useCalibrationContext } from '@/context/CalibrationContext';
+import { useStatusStore } from '@/context/StatusContext';
 import { useAnimationPlayback } from '@/hooks/useAnimationPlayback';
-import { validateWaypointsInProfile } from '@/services/boundsValidation';
+import { assignPathsToMirrors, planAnimation } from '@/services/animationPlanner';
+import { validateAnimationPathInProfile } from '@/services/boundsValidation';
 import { loadGridState } from '@/services/gridStorage';
+import { readTelemetryPositions, toStartSteps } from '@/services/showScheduler';
+import { buildThermalTelemetryIndex } from '@/services/thermalBudget';
 import type { MirrorConfig } from '@/types';
 import type {
     Animation,
@@ -93,6 +97,7 @@ const AnimationPage: React.FC<AnimationPageProps> = ({
     } = useAnimationContext();
 
     const { selectedProfile: selectedCalibrationProfile } = useCalibrationContext();
+    const { drivers } = useStatusStore();
 
     // Playback
     const {
@@ -179,6 +184,20 @@ const AnimationPage: React.FC<AnimationPageProps> = ({
         return selectedAnimation.paths.some((p) => p.waypoints.length >= 2);
     }, [selectedAnimation]);
 
+    // Planned pass duration, including the stagger, for the sequential summary
+    const sequentialDurationMs = useMemo(() => {
+        if (selectedAnimation?.mode !== 'sequential' || !selectedCalibrationProfile) {
+            return null;
+        }
+        const plan = planAnimation({
+            animation: selectedAnimation,
+            gridSize,
+            mirrorConfig,
+            profile: selectedCalibrationProfile,
+        });
+        return plan.segments.length > 0 ? plan.totalDurationMs : null;
+    }, [selectedAnimation, selectedCalibrationProfile, gridSize, mirrorConfig]);
+
     // Calculate calibration tile bounds for the path editor
     const calibrationTileBounds = useMemo(() => {
         if (!selectedCalibrationProfile) {
@@ -206,10 +225,10 @@ const AnimationPage: React.FC<AnimationPageProps> = ({
 
     const canShowBounds = Boolean(selectedCalibrationProfile) && calibrationTileBounds.length > 0;
 
-    // Validate waypoints for the selected path
+    // Validate waypoints (and curve samples) for the selected path
     const invalidWaypointIds = useMemo(() => {
         if (!selectedPath || !selectedCalibrationProfile) return new Set<string>();
-        const result = validateWaypointsInProfile(selectedPath.waypoints, {
+        const result = validateAnimationPathInProfile(selectedPath, {
             profile: selectedCalibrationProfile,
         });
         return result.invalidPointIds;
@@ -408,6 +427,24 @@ const AnimationPage: React.FC<AnimationPageProps> = ({
         saveAnimation({ ...selectedAnimation, independentConfig: config });
     };
 
+    // Hand paths to the tiles closest to their start so the animation continues the
+    // formation the mirrors are showing now
+    const handleAutoAssignPaths = () => {
+        if (!selectedAnimation || !selectedCalibrationProfile) return;
+        const { assignments, errors } = assignPathsToMirrors({
+            paths: selectedAnimation.paths,
+            gridSize,
+            mirrorConfig,
+            profile: selectedCalibrationProfile,
+            startSteps: toStartSteps(readTelemetryPositions(buildThermalTelemetryIndex(drivers))),
+        });
+        if (assignments.length === 0 && errors.length > 0) {
+            showSimpleErrorToast('Auto-assign failed', errors[0].message);
+            return;
+        }
+        handleIndependentConfigChange({ assignments });
+    };
+
     const handleSequentialConfigChange = (config: SequentialModeConfig) => {
         if (!selectedAnimation) return;
         saveAnimation({ ...selectedAnimation, sequentialConfig: config });
@@ -600,6 +637,11 @@ const AnimationPage: React.FC<AnimationPageProps> = ({
                                         paths={selectedAnimation.paths}
                                         gridSize={gridSize}
                                         onChange={handleIndependentConfigChange}
+                                        onAutoAssign={
+                                            selectedCalibrationProfile
+                                                ? handleAutoAssignPaths
+                                                : undefined
+                                        }
                                         disabled={isPlaying}
                                     />
                                 ) : (
@@ -607,6 +649,7 @@ const AnimationPage: React.FC<AnimationPageProps> = ({
                                         config={selectedAnimation.sequentialConfig}
                                         paths={selectedAnimation.paths}
                                         gridSize={gridSize}
+                                        estimatedDurationMs={sequentialDurationMs}
                                         onChange={handleSequentialConfigChange}
                                         disabled={isPlaying}
                                     />
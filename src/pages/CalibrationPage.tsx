@@ -6,8 +6,11 @@ import CalibrationRunnerPanel from '@/components/calibration/CalibrationRunnerPa
 import DetectionProfileManager from '@/components/calibration/DetectionProfileManager';
 import DetectionSettingsPanel from '@/components/calibration/DetectionSettingsPanel';
 import TileStatusesPanel from '@/components/calibration/TileStatusesPanel';
+import WallHomographyPanel from '@/components/calibration/WallHomographyPanel';
 import { DEFAULT_CALIBRATION_RUNNER_SETTINGS } from '@/constants/calibration';
 import { useCalibrationContext } from '@/context/CalibrationContext';
+import { useMotorPower } from '@/context/MotorPowerContext';
+import { useMqtt } from '@/context/MqttContext';
 import { useStatusStore } from '@/context/StatusContext';
 import { useCalibrationController } from '@/hooks/useCalibrationController';
 import { useCalibrationProfilesController } from '@/hooks/useCalibrationProfilesController';
@@ -25,6 +28,7 @@ import {
 } from '@/services/calibrationProfileStorage';
 import { DRAFT_PROFILE_ID, saveDraftProfile } from '@/services/draftProfileService';
 import { getGridStateFingerprint, type GridStateSnapshot } from '@/services/gridStorage';
+import { configureSyntheticCamera, createSyntheticCameraModel } from '@/services/syntheticCamera';
 import type { CalibrationCameraResolution, MirrorConfig, Motor } from '@/types';
 
 interface CalibrationPageProps {
@@ -139,6 +143,21 @@ const CalibrationPage: React.FC<CalibrationPageProps> = ({ gridSize, mirrorConfi
     const calibrationSettingsController = useCalibrationSettingsController();
     const { arrayRotation, stagingPosition } = calibrationSettingsController;
 
+    const { state: mqttState, getMockTransport } = useMqtt();
+    const mockTransport = mqttState.status === 'connected' ? getMockTransport() : null;
+
+    // Offer the synthetic camera, driven by simulated motor positions, while on mock://
+    useEffect(() => {
+        if (!mockTransport) {
+            return undefined;
+        }
+        configureSyntheticCamera({
+            model: createSyntheticCameraModel(gridSize, mirrorConfig),
+            readPosition: (mac, motorId) => mockTransport.getMotorPosition(mac, motorId),
+        });
+        return () => configureSyntheticCamera(null);
+    }, [gridSize, mirrorConfig, mockTransport]);
+
     const cameraPipeline = useCameraPipeline({
         detectionSettingsLoaded,
         selectedDeviceId,
@@ -173,6 +192,7 @@ const CalibrationPage: React.FC<CalibrationPageProps> = ({ gridSize, mirrorConfi
         opencvError,
         detectionReady,
         captureBlobMeasurement,
+        captureBlobPositions,
         previewRefs,
         overlayHandlers,
         resetRoi,
@@ -242,6 +262,8 @@ const CalibrationPage: React.FC<CalibrationPageProps> = ({ gridSize, mirrorConfi
             firstTileInterimStepDelta: calibrationSettingsController.firstTileInterimStepDelta,
             firstTileTolerance: calibrationSettingsController.firstTileTolerance,
             tileTolerance: calibrationSettingsController.tileTolerance,
+            stepResponseSamples: calibrationSettingsController.stepResponseSamples,
+            wallHomography: calibrationSettingsController.wallHomography,
         }),
         [
             calibrationSettingsController.deltaSteps,
@@ -249,6 +271,8 @@ const CalibrationPage: React.FC<CalibrationPageProps> = ({ gridSize, mirrorConfi
             calibrationSettingsController.firstTileInterimStepDelta,
             calibrationSettingsController.firstTileTolerance,
             calibrationSettingsController.tileTolerance,
+            calibrationSettingsController.stepResponseSamples,
+            calibrationSettingsController.wallHomography,
         ],
     );
 
@@ -353,6 +377,16 @@ const CalibrationPage: React.FC<CalibrationPageProps> = ({ gridSize, mirrorConfi
         runnerState.phase,
     );
 
+    // Keep idle auto-sleep off while a run is active, including pauses between moves
+    const { beginMotion, endMotion } = useMotorPower();
+    useEffect(() => {
+        if (!isCalibrationActive) {
+            return;
+        }
+        void beginMotion([]);
+        return () => endMotion([]);
+    }, [beginMotion, endMotion, isCalibrationActive]);
+
     // Handler to home both axes of a tile
     const handleHomeTile = useCallback(
         (_tile: TileAddress, motors: { x: Motor | null; y: Motor | null }) => {
@@ -481,6 +515,12 @@ const CalibrationPage: React.FC<CalibrationPageProps> = ({ gridSize, mirrorConfi
         return activeProfile?.gridBlueprint?.cameraOriginOffset ?? null;
     }, [isCalibrationActive, runnerState.summary, activeProfile]);
 
+    // Bounds follow the same source, so they share its wall rectification
+    const activeWallHomography =
+        isCalibrationActive && runnerState.summary
+            ? (runnerState.summary.wallHomography ?? null)
+            : (activeProfile?.wallHomography ?? null);
+
     const currentCameraResolution: CalibrationCameraResolution | null = useMemo(() => {
         if (videoDimensions.width > 0 && videoDimensions.height > 0) {
             return {
@@ -550,12 +590,14 @@ const CalibrationPage: React.FC<CalibrationPageProps> = ({ gridSize, mirrorConfi
                 ? {
                       entries: activeTileBounds,
                       cameraOriginOffset: activeCameraOriginOffset,
+                      wallHomography: activeWallHomography,
                   }
                 : null,
         );
     }, [
         activeCameraOriginOffset,
         activeTileBounds,
+        activeWallHomography,
         displayedTileBoundsOverlayEnabled,
         setTileBoundsOverlayEntries,
     ]);
@@ -650,6 +692,19 @@ const CalibrationPage: React.FC<CalibrationPageProps> = ({ gridSize, mirrorConfi
                         onToggleUseWasmDetector={setUseWasmDetector}
                         nativeBlobDetectorAvailable={nativeBlobDetectorAvailable}
                     />
+                    <WallHomographyPanel
+                        wallHomography={calibrationSettingsController.wallHomography}
+                        onChange={calibrationSettingsController.setWallHomography}
+                        // Pick on the full processed frame, where detection coordinates live
+                        getFrameSource={() =>
+                            previewMode === 'processed' && !roiViewEnabled
+                                ? previewRefs.processedCanvasRef.current
+                                : previewRefs.videoRef.current
+                        }
+                        captureBlobPositions={captureBlobPositions}
+                        videoDimensions={videoDimensions}
+                        disabled={isCalibrationBusy}
+                    />
                 </div>
                 <div className="flex min-w-0 flex-1 flex-col gap-4">
                     <CalibrationPreview
@@ -1,10 +1,14 @@
 import React, { useCallback, useMemo, useState } from 'react';
 
 import ArrayPersistenceControls from '../components/ArrayPersistenceControls';
+import BulkNodeConfigModal from '../components/BulkNodeConfigModal';
 import DiscoveredNodes, { type DiscoveredNode } from '../components/DiscoveredNodes';
 import GridConfigurator from '../components/GridConfigurator';
 import { analyzeMirrorCell } from '../components/MirrorCell';
 import MirrorGrid from '../components/MirrorGrid';
+import Modal from '../components/Modal';
+import MotorAssignmentWizardModal from '../components/MotorAssignmentWizardModal';
+import NodeConfigPanel from '../components/NodeConfigPanel';
 import TileInfoModal from '../components/TileInfoModal';
 import { useStatusStore } from '../context/StatusContext';
 import { useMotorCommands } from '../hooks/useMotorCommands';
@@ -96,6 +100,9 @@ const ConfiguratorPage: React.FC<ConfiguratorPageProps> = ({
     const [gridViewMode, setGridViewMode] = useState<'mirror' | 'projection'>('mirror');
     const [tileInfoModalPosition, setTileInfoModalPosition] = useState<GridPosition | null>(null);
     const [isNodesDropHovering, setIsNodesDropHovering] = useState(false);
+    const [configNodeMac, setConfigNodeMac] = useState<string | null>(null);
+    const [isBulkConfigOpen, setIsBulkConfigOpen] = useState(false);
+    const [isAutoAssignOpen, setIsAutoAssignOpen] = useState(false);
 
     const assignmentMetrics = useMemo(() => {
         let assignedAxes = 0;
@@ -377,6 +384,14 @@ const ConfiguratorPage: React.FC<ConfiguratorPageProps> = ({
         return map;
     }, [drivers]);
 
+    const onlineMotors = useMemo(
+        () =>
+            discoveredNodes
+                .filter((node) => node.presence !== 'offline')
+                .flatMap((node) => node.motors),
+        [discoveredNodes],
+    );
+
     const selectedNodeMacEffective = useMemo(() => {
         if (!selectedNodeMac) {
             return null;
@@ -550,6 +565,28 @@ const ConfiguratorPage: React.FC<ConfiguratorPageProps> = ({
                 </div>
             )}
 
+            <Modal
+                open={configNodeMac !== null}
+                onClose={() => setConfigNodeMac(null)}
+                title={configNodeMac ? `Device Configuration • ${configNodeMac.toUpperCase()}` : ''}
+            >
+                {configNodeMac && <NodeConfigPanel mac={configNodeMac} />}
+            </Modal>
+
+            <BulkNodeConfigModal
+                open={isBulkConfigOpen}
+                onClose={() => setIsBulkConfigOpen(false)}
+                mirrorConfig={mirrorConfig}
+            />
+
+            <MotorAssignmentWizardModal
+                open={isAutoAssignOpen}
+                onClose={() => setIsAutoAssignOpen(false)}
+                gridSize={gridSize}
+                motors={onlineMotors}
+                onApply={setMirrorConfig}
+            />
+
             {/* Tile Info Modal */}
             <TileInfoModal
                 open={Boolean(tileInfoModalPosition)}
@@ -582,6 +619,25 @@ const ConfiguratorPage: React.FC<ConfiguratorPageProps> = ({
                             onLoad={handleLoadSnapshotRequest}
                         />
                         <div className="flex flex-wrap items-center justify-end gap-3">
+                            <button
+                                type="button"
+                                onClick={() => setIsAutoAssignOpen(true)}
+                                disabled={onlineMotors.length === 0}
+                                className="rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-sm text-gray-200 transition-colors hover:border-gray-400 disabled:cursor-not-allowed disabled:opacity-50"
+                                title="Jog each motor and detect its tile and axis with the calibration camera"
+                                data-testid="open-auto-assign"
+                            >
+                                Auto-Assign
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setIsBulkConfigOpen(true)}
+                                className="rounded-md border border-gray-600 bg-gray-800 px-4 py-2 text-sm text-gray-200 transition-colors hover:border-gray-400"
+                                title="Apply one device configuration to every assigned node"
+                                data-testid="open-bulk-config"
+                            >
+                                Fleet Config
+                            </button>
                             <button
                                 onClick={handleResetAll}
                                 className="flex items-center gap-2 rounded-md border border-red-600/80 bg-red-800/70 px-4 py-2 text-sm text-red-200 transition-colors hover:bg-red-700/80"
@@ -716,6 +772,7 @@ const ConfiguratorPage: React.FC<ConfiguratorPageProps> = ({
                                 onNodeSelect={handleNodeSelect}
                                 onClearNodeAssignments={handleClearNodeAssignments}
                                 onNudgeMotor={handleNudgeMotor}
+                                onOpenConfig={setConfigNodeMac}
                                 emptyMessage={
                                     drivers.length === 0
                                         ? 'Waiting for MQTT status snapshots…'
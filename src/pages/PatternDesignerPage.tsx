@@ -4,6 +4,9 @@ import { showCommandErrorToast, showSimpleErrorToast } from '@/components/common
 import Modal from '@/components/Modal';
 import PatternDesignerDebugPanel from '@/components/patternDesigner/PatternDesignerDebugPanel';
 import PatternDesignerToolbar from '@/components/patternDesigner/PatternDesignerToolbar';
+import PatternGeneratorPanel from '@/components/patternDesigner/PatternGeneratorPanel';
+import PatternImportModal from '@/components/patternDesigner/PatternImportModal';
+import PatternTextModal from '@/components/patternDesigner/PatternTextModal';
 import type {
     DesignerCoordinate,
     HoverValidationStatus,
@@ -14,6 +17,7 @@ import { useCalibrationContext } from '@/context/CalibrationContext';
 import { usePatternContext } from '@/context/PatternContext';
 import { usePlaybackDispatch } from '@/hooks/usePlaybackDispatch';
 import { loadGridState } from '@/services/gridStorage';
+import { getPatternImportBounds } from '@/services/patternImport';
 import { planProfilePlayback } from '@/services/profilePlaybackPlanner';
 import { centeredBoundsToPattern, getSpaceParams } from '@/services/spaceConversion';
 import type { MirrorConfig, Pattern, PatternPoint } from '@/types';
@@ -25,6 +29,11 @@ import {
     undoHistorySnapshot,
     type HistoryStacks,
 } from '@/utils/history';
+import {
+    DEFAULT_GENERATOR_PARAMS,
+    generatePatternPoints,
+    type PatternGeneratorParams,
+} from '@/utils/patternGenerators';
 import {
     transformPatternRotate,
     transformPatternScale,
@@ -63,6 +72,8 @@ interface PatternDesignerCanvasProps {
     invalidPointIds: Set<string>;
     maxOverlapCount: number;
     viewBox: string;
+    /** Generator output shown as dashed outlines until it is applied */
+    previewPoints: PatternPoint[];
 }
 
 interface RenameDialogState {
@@ -106,6 +117,7 @@ const PatternDesignerCanvas: React.FC<PatternDesignerCanvasProps> = ({
     invalidPointIds,
     maxOverlapCount,
     viewBox,
+    previewPoints,
 }) => {
     const containerRef = useRef<HTMLDivElement | null>(null);
     const dragStateRef = useRef<{
@@ -406,6 +418,24 @@ const PatternDesignerCanvas: React.FC<PatternDesignerCanvasProps> = ({
                             />
                         );
                     })}
+                    {previewPoints.map((point) => {
+                        const halfSize = centeredDeltaToView(blobRadius);
+                        return (
+                            <rect
+                                key={`preview-${point.id}`}
+                                x={centeredToView(point.x) - halfSize}
+                                y={centeredToView(point.y) - halfSize}
+                                width={halfSize * 2}
+                                height={halfSize * 2}
+                                fill="#22d3ee"
+                                fillOpacity={0.2}
+                                stroke="#22d3ee"
+                                strokeWidth={0.002 * viewBoxScale}
+                                strokeDasharray={`${0.01 * viewBoxScale} ${0.01 * viewBoxScale}`}
+                                pointerEvents="none"
+                            />
+                        );
+                    })}
                     {editMode === 'placement' &&
                         hoverPoint &&
                         (() => {
@@ -532,6 +562,12 @@ const PatternDesignerPage: React.FC<PatternDesignerPageProps> = ({
     const [editMode, setEditMode] = useState<PatternEditMode>('placement');
     const [hoveredPatternPointId, setHoveredPatternPointId] = useState<string | null>(null);
     const [renameState, setRenameState] = useState<RenameDialogState | null>(null);
+    const [importOpen, setImportOpen] = useState(false);
+    const [textOpen, setTextOpen] = useState(false);
+    const [generatorOpen, setGeneratorOpen] = useState(false);
+    const [generatorParams, setGeneratorParams] =
+        useState<PatternGeneratorParams>(DEFAULT_GENERATOR_PARAMS);
+    const [generatorReplaces, setGeneratorReplaces] = useState(false);
     const mainColumnRef = useRef<HTMLDivElement | null>(null);
     const toolbarRef = useRef<HTMLDivElement | null>(null);
     const debugPanelRef = useRef<HTMLDivElement | null>(null);
@@ -838,6 +874,49 @@ const PatternDesignerPage: React.FC<PatternDesignerPageProps> = ({
         return new Set(hoverValidation.occupiedTileIds);
     }, [hoverValidation]);
 
+    // Live preview of the shape generator, restricted to calibrated tile bounds
+    const generatorPreviewPoints = useMemo((): PatternPoint[] => {
+        if (!generatorOpen || !selectedPattern) return [];
+        const contains =
+            calibrationTileBounds.length > 0
+                ? (point: DesignerCoordinate) =>
+                      calibrationTileBounds.some(
+                          (bounds) =>
+                              point.x >= bounds.xMin &&
+                              point.x <= bounds.xMax &&
+                              point.y >= bounds.yMin &&
+                              point.y <= bounds.yMax,
+                      )
+                : undefined;
+        return generatePatternPoints(
+            generatorParams,
+            getPatternImportBounds(selectedCalibrationProfile),
+            (index) => `preview-${index}`,
+            contains,
+        );
+    }, [
+        generatorOpen,
+        selectedPattern,
+        generatorParams,
+        selectedCalibrationProfile,
+        calibrationTileBounds,
+    ]);
+
+    const handleApplyGenerator = useCallback(() => {
+        if (!selectedPattern || generatorPreviewPoints.length === 0) return;
+        recordSnapshot(selectedPattern);
+        const generated = generatorPreviewPoints.map((point) => ({
+            ...point,
+            id: createPointId(),
+        }));
+        updatePattern({
+            ...selectedPattern,
+            updatedAt: new Date().toISOString(),
+            points: generatorReplaces ? generated : [...selectedPattern.points, ...generated],
+        });
+        setGeneratorOpen(false);
+    }, [selectedPattern, generatorPreviewPoints, generatorReplaces, recordSnapshot, updatePattern]);
+
     const maxOverlapCount = useMemo(() => {
         if (!selectedPattern) return 0;
         return calculateMaxOverlapCount(selectedPattern.points, calibratedBlobRadius);
@@ -1010,6 +1089,30 @@ const PatternDesignerPage: React.FC<PatternDesignerPageProps> = ({
         addPattern(newPattern);
     };
 
+    const addGeneratedPattern = (name: string, points: PatternPoint[]) => {
+        const now = new Date().toISOString();
+        addPattern({
+            id: `pattern-${globalThis.crypto.randomUUID()}`,
+            name,
+            points: points.map((point) => ({ ...point, id: createPointId() })),
+            createdAt: now,
+            updatedAt: now,
+        });
+    };
+
+    const generatedPointBudget =
+        availableSpotCount > 0 ? availableSpotCount : gridSize.rows * gridSize.cols;
+
+    const handleImportPattern = (name: string, points: PatternPoint[]) => {
+        addGeneratedPattern(name, points);
+        setImportOpen(false);
+    };
+
+    const handleTextPattern = (name: string, points: PatternPoint[]) => {
+        addGeneratedPattern(name, points);
+        setTextOpen(false);
+    };
+
     const handlePatternChange = useCallback(
         (updatedPattern: Pattern, pushToHistory: boolean = true) => {
             if (pushToHistory && selectedPattern) {
@@ -1084,13 +1187,31 @@ const PatternDesignerPage: React.FC<PatternDesignerPageProps> = ({
             <div className="flex w-80 flex-none flex-col gap-4 rounded-lg bg-gray-900/50 p-4">
                 <div className="flex items-center justify-between">
                     <h2 className="text-lg font-semibold text-gray-100">Patterns</h2>
-                    <button
-                        type="button"
-                        onClick={handleCreatePattern}
-                        className="rounded-md bg-cyan-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-cyan-500 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-cyan-600"
-                    >
-                        New
-                    </button>
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={() => setImportOpen(true)}
+                            className="rounded-md border border-gray-600 px-3 py-1.5 text-sm font-semibold text-gray-300 hover:border-gray-500 hover:text-white"
+                            title="Create a pattern from an SVG, PNG or JPEG"
+                        >
+                            Import
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setTextOpen(true)}
+                            className="rounded-md border border-gray-600 px-3 py-1.5 text-sm font-semibold text-gray-300 hover:border-gray-500 hover:text-white"
+                            title="Create a pattern that spells a text"
+                        >
+                            Text
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleCreatePattern}
+                            className="rounded-md bg-cyan-600 px-3 py-1.5 text-sm font-semibold text-white shadow-sm hover:bg-cyan-500 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-cyan-600"
+                        >
+                            New
+                        </button>
+                    </div>
                 </div>
 
                 <PatternLibraryList
@@ -1125,12 +1246,26 @@ const PatternDesignerPage: React.FC<PatternDesignerPageProps> = ({
                         showBounds={showBounds}
                         onShowBoundsChange={handleShowBoundsChange}
                         canShowBounds={showSpotSummary}
+                        generatorOpen={generatorOpen}
+                        onGeneratorToggle={() => setGeneratorOpen((open) => !open)}
                         blobRadius={calibratedBlobRadius}
                         placedSpots={showSpotSummary ? placedSpotCount : undefined}
                         availableSpots={showSpotSummary ? availableSpotCount : undefined}
                         hoverHint={hoverHintMessage}
                         disabled={!selectedPattern}
                     />
+                    {generatorOpen && selectedPattern && (
+                        <PatternGeneratorPanel
+                            params={generatorParams}
+                            onParamsChange={setGeneratorParams}
+                            replaceExisting={generatorReplaces}
+                            onReplaceExistingChange={setGeneratorReplaces}
+                            previewCount={generatorPreviewPoints.length}
+                            pointBudget={generatedPointBudget}
+                            onApply={handleApplyGenerator}
+                            onCancel={() => setGeneratorOpen(false)}
+                        />
+                    )}
                 </div>
 
                 {/* Canvas - sized by viewBox aspect ratio, limited by available height */}
@@ -1163,6 +1298,7 @@ const PatternDesignerPage: React.FC<PatternDesignerPageProps> = ({
                                 invalidPointIds={invalidPointIds}
                                 maxOverlapCount={maxOverlapCount}
                                 viewBox={autoZoomViewBox}
+                                previewPoints={generatorPreviewPoints}
                             />
                         ) : (
                             <div className="flex size-full items-center justify-center">
@@ -1186,6 +1322,22 @@ const PatternDesignerPage: React.FC<PatternDesignerPageProps> = ({
                 </div>
             </div>
 
+            <PatternImportModal
+                open={importOpen}
+                onClose={() => setImportOpen(false)}
+                profile={selectedCalibrationProfile}
+                pointBudget={generatedPointBudget}
+                onImport={handleImportPattern}
+            />
+
+            <PatternTextModal
+                open={textOpen}
+                onClose={() => setTextOpen(false)}
+                profile={selectedCalibrationProfile}
+                pointBudget={generatedPointBudget}
+                onCreate={handleTextPattern}
+            />
+
             <Modal
                 open={Boolean(renameState)}
                 onClose={handleCloseRenameModal}
@@ -33,6 +33,20 @@ vi.mock('@/context/CalibrationContext', () => ({
     }),
 }));
 
+vi.mock('@/context/MotorPowerContext', () => ({
+    useMotorPower: () => ({
+        beginMotion: vi.fn(async () => undefined),
+        endMotion: vi.fn(),
+    }),
+}));
+
+vi.mock('@/context/MqttContext', () => ({
+    useMqtt: () => ({
+        state: { status: 'disconnected' },
+        getMockTransport: () => null,
+    }),
+}));
+
 vi.mock('@/context/StatusContext', () => ({
     useStatusStore: () => ({
         drivers: [],
@@ -27,6 +27,20 @@ vi.mock('@/context/LogContext', () => ({
     useLogStore: () => ({
         logInfo: vi.fn(),
         logError: vi.fn(),
+        logWarning: vi.fn(),
+    }),
+}));
+
+vi.mock('@/context/StatusContext', () => ({
+    useStatusStore: () => ({
+        drivers: [],
+    }),
+}));
+
+vi.mock('@/context/MotorPowerContext', () => ({
+    useMotorPower: () => ({
+        beginMotion: vi.fn(async () => undefined),
+        endMotion: vi.fn(),
     }),
 }));
 
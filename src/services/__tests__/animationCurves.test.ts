@@ -0,0 +1,104 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import {
+    createArcWaypoints,
+    createCircleWaypoints,
+    evaluateSegmentPoint,
+    getBezierHandles,
+    pointAtSegmentProgress,
+    sampleAnimationPath,
+} from '../animationCurves';
+
+import type { AnimationPath, AnimationPathCurve, AnimationWaypoint } from '../../types/animation';
+
+const createPath = (
+    points: Array<Omit<AnimationWaypoint, 'id'>>,
+    curve?: AnimationPathCurve,
+): AnimationPath => ({
+    id: 'path-1',
+    name: 'Path',
+    waypoints: points.map((point, index) => ({ id: `wp-${index}`, ...point })),
+    curve,
+});
+
+const radiusOf = (point: { x: number; y: number }): number => Math.hypot(point.x, point.y);
+
+describe('animationCurves', () => {
+    it('keeps straight paths as their waypoints', () => {
+        const path = createPath([
+            { x: 0, y: 0 },
+            { x: 0.5, y: 0 },
+            { x: 0.5, y: 0.5 },
+        ]);
+        expect(sampleAnimationPath(path).map((sample) => sample.id)).toEqual([
+            'wp-0',
+            'wp-1',
+            'wp-2',
+        ]);
+        // Straight segments extrapolate for overshooting easing
+        expect(pointAtSegmentProgress(path, 0, 1.1).x).toBeCloseTo(0.55);
+    });
+
+    it('passes splines through every waypoint', () => {
+        const path = createPath(
+            [
+                { x: -0.5, y: 0 },
+                { x: 0, y: 0.4 },
+                { x: 0.5, y: 0 },
+            ],
+            { type: 'catmull-rom', resolution: 4 },
+        );
+        const end = evaluateSegmentPoint(path, 0, 1);
+        expect(end.x).toBeCloseTo(0);
+        expect(end.y).toBeCloseTo(0.4);
+        const samples = sampleAnimationPath(path);
+        expect(samples).toHaveLength(3 + 2 * 3);
+        const interior = samples.filter((sample) => sample.interior);
+        expect(interior.every((sample) => sample.waypointId !== 'wp-2')).toBe(true);
+        // The spline bulges above the chord between the first two waypoints
+        const mid = pointAtSegmentProgress(path, 0, 0.5);
+        expect(mid.y).toBeGreaterThan(0.2);
+    });
+
+    it('shapes bezier segments with explicit handles', () => {
+        const path = createPath(
+            [
+                { x: 0, y: 0, handleOut: { x: 0, y: 0.3 } },
+                { x: 0.6, y: 0, handleIn: { x: 0, y: 0.3 } },
+            ],
+            { type: 'bezier' },
+        );
+        expect(evaluateSegmentPoint(path, 0, 0.5)).toEqual({ x: 0.3, y: expect.closeTo(0.225) });
+        expect(getBezierHandles(path.waypoints, 0)).toEqual({
+            handleIn: null,
+            handleOut: { x: 0, y: 0.3 },
+        });
+    });
+
+    it('follows the circle through neighbouring waypoints for arcs', () => {
+        const path = createPath(createCircleWaypoints({ x: 0, y: 0 }, 0.5), { type: 'arc' });
+        expect(path.waypoints).toHaveLength(5);
+        for (const sample of sampleAnimationPath(path, 6)) {
+            expect(radiusOf(sample)).toBeCloseTo(0.5, 6);
+        }
+        // Quarter circle from (0.5, 0) to (0, 0.5) passes 45 degrees halfway
+        const mid = pointAtSegmentProgress(path, 0, 0.5);
+        expect(mid.x).toBeCloseTo(Math.SQRT1_2 * 0.5, 3);
+        expect(mid.y).toBeCloseTo(Math.SQRT1_2 * 0.5, 3);
+    });
+
+    it('builds arcs in the requested direction', () => {
+        const waypoints = createArcWaypoints({
+            center: { x: 0, y: 0 },
+            radius: 0.4,
+            startDeg: 180,
+            sweepDeg: -180,
+            count: 3,
+        });
+        expect(waypoints[1].x).toBeCloseTo(0);
+        expect(waypoints[1].y).toBeCloseTo(0.4);
+        const path = createPath(waypoints, { type: 'arc' });
+        expect(pointAtSegmentProgress(path, 1, 0.5).y).toBeGreaterThan(0.2);
+    });
+});
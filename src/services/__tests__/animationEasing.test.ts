@@ -0,0 +1,52 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import {
+    createEasing,
+    evaluateCubicBezier,
+    evaluateEasing,
+    isLinearEasing,
+} from '../animationEasing';
+
+describe('animationEasing', () => {
+    it('keeps linear progress unchanged and clamps the input', () => {
+        expect(evaluateEasing(undefined, 0.3)).toBe(0.3);
+        expect(evaluateEasing({ type: 'linear' }, 0.7)).toBe(0.7);
+        expect(evaluateEasing({ type: 'linear' }, 1.5)).toBe(1);
+        expect(isLinearEasing(undefined)).toBe(true);
+        expect(isLinearEasing({ type: 'ease-in-out' })).toBe(false);
+    });
+
+    it('eases in and out symmetrically', () => {
+        const easing = createEasing('ease-in-out');
+        expect(evaluateEasing(easing, 0)).toBe(0);
+        expect(evaluateEasing(easing, 1)).toBe(1);
+        expect(evaluateEasing(easing, 0.5)).toBeCloseTo(0.5, 5);
+        expect(evaluateEasing(easing, 0.1)).toBeLessThan(0.1);
+        expect(evaluateEasing(easing, 0.9)).toBeGreaterThan(0.9);
+        expect(evaluateEasing(easing, 0.2) + evaluateEasing(easing, 0.8)).toBeCloseTo(1, 5);
+    });
+
+    it('is monotonic for the default curves', () => {
+        for (const type of ['ease-in-out', 'cubic-bezier'] as const) {
+            const easing = createEasing(type);
+            let previous = 0;
+            for (let i = 1; i <= 20; i++) {
+                const value = evaluateEasing(easing, i / 20);
+                expect(value).toBeGreaterThanOrEqual(previous);
+                previous = value;
+            }
+        }
+    });
+
+    it('solves CSS cubic bezier curves', () => {
+        // The diagonal curve is the identity
+        expect(evaluateCubicBezier(0.37, 1 / 3, 1 / 3, 2 / 3, 2 / 3)).toBeCloseTo(0.37, 5);
+        // CSS `ease` is well ahead of linear early on
+        expect(evaluateCubicBezier(0.25, 0.25, 0.1, 0.25, 1)).toBeCloseTo(0.41, 2);
+        // Control points above 1 overshoot the target
+        const overshoot = { type: 'cubic-bezier' as const, x1: 0.3, y1: 0, x2: 0.6, y2: 1.6 };
+        expect(evaluateEasing(overshoot, 0.8)).toBeGreaterThan(1);
+        expect(evaluateEasing(overshoot, 1)).toBe(1);
+    });
+});
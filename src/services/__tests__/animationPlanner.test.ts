@@ -0,0 +1,326 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import {
+    assignPathsToMirrors,
+    excludeThermalBlockedMotors,
+    planAnimation,
+} from '../animationPlanner';
+import { estimateMoveSeconds, getThermalMotorKey } from '../thermalBudget';
+
+import type { CalibrationProfile, MirrorConfig, TileCalibrationResults } from '../../types';
+import type {
+    Animation,
+    AnimationEasing,
+    AnimationPathCurve,
+    AnimationWaypoint,
+} from '../../types/animation';
+
+const MAC = 'AA:BB:CC:DD:EE:FF';
+
+const mirrorConfig: MirrorConfig = new Map([
+    ['0-0', { x: { nodeMac: MAC, motorIndex: 0 }, y: { nodeMac: MAC, motorIndex: 1 } }],
+]);
+
+const tile: TileCalibrationResults = {
+    key: '0-0',
+    row: 0,
+    col: 0,
+    status: 'completed',
+    error: null,
+    adjustedHome: { x: 0, y: 0, stepsX: 0, stepsY: 0 },
+    homeOffset: { dx: 0, dy: 0, stepsX: 0, stepsY: 0 },
+    homeMeasurement: null,
+    stepToDisplacement: { x: 0.001, y: -0.001 },
+    sizeDeltaAtStepTest: 0,
+    axes: {
+        x: { stepRange: { minSteps: -1_200, maxSteps: 1_200 }, stepScale: 1_000 },
+        y: { stepRange: { minSteps: -1_200, maxSteps: 1_200 }, stepScale: -1_000 },
+    },
+    combinedBounds: { x: { min: -1, max: 1 }, y: { min: -1, max: 1 } },
+};
+
+const profile: CalibrationProfile = {
+    id: 'profile-1',
+    schemaVersion: 3,
+    name: 'Profile',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T01:00:00.000Z',
+    arrayRotation: 0,
+    calibrationCameraAspect: 1,
+    gridSize: { rows: 1, cols: 1 },
+    gridBlueprint: {
+        adjustedTileFootprint: { width: 0.2, height: 0.2 },
+        tileGap: { x: 0.05, y: 0.05 },
+        gridOrigin: { x: -0.5, y: -0.5 },
+        cameraOriginOffset: { x: 0, y: 0 },
+    },
+    stepTestSettings: { deltaSteps: 400 },
+    gridStateFingerprint: {
+        hash: 'fingerprint',
+        snapshot: { version: 1, gridSize: { rows: 1, cols: 1 }, assignments: {} },
+    },
+    calibrationSpace: { blobStats: null },
+    tiles: { '0-0': tile },
+    metrics: { totalTiles: 1, completedTiles: 1, failedTiles: 0, skippedTiles: 0 },
+};
+
+const createAnimation = (
+    waypoints: Array<Omit<AnimationWaypoint, 'id'>>,
+    easing?: AnimationEasing,
+    curve?: AnimationPathCurve,
+): Animation => ({
+    id: 'anim-1',
+    name: 'Animation',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    mode: 'independent',
+    paths: [
+        {
+            id: 'path-1',
+            name: 'Path',
+            waypoints: waypoints.map((waypoint, index) => ({ id: `wp-${index}`, ...waypoint })),
+            easing,
+            curve,
+        },
+    ],
+    independentConfig: {
+        assignments: [{ mirrorId: '0-0', row: 0, col: 0, pathId: 'path-1' }],
+    },
+    defaultSpeedSps: 2000,
+});
+
+const plan = (animation: Animation) =>
+    planAnimation({ animation, gridSize: { rows: 1, cols: 1 }, mirrorConfig, profile });
+
+describe('animationPlanner', () => {
+    it('plans linear segments as one move with speed and accel', () => {
+        const result = plan(
+            createAnimation([
+                { x: 0, y: 0 },
+                { x: 0.4, y: 0 },
+            ]),
+        );
+
+        expect(result.errors).toEqual([]);
+        const [segment] = result.segments;
+        expect(segment.subSteps).toHaveLength(1);
+        // 400 steps cruising at 2000 sps between the accel ramps, plus the buffer
+        expect(segment.durationMs).toBe(317);
+        expect(segment.speedSps).toBe(2000);
+        const [move] = segment.subSteps[0].axisMoves;
+        expect(move).toMatchObject({ axis: 'x', fromSteps: 0, targetSteps: 400, speedSps: 2000 });
+        expect(move.accelSps2).toBeGreaterThan(0);
+        expect(segment.axisMoves).toEqual(segment.subSteps[0].axisMoves);
+    });
+
+    it('subdivides eased segments along the curve', () => {
+        const result = plan(
+            createAnimation(
+                [
+                    { x: 0, y: 0 },
+                    { x: 0.4, y: 0, arrivalMs: 1200 },
+                ],
+                { type: 'ease-in-out' },
+            ),
+        );
+
+        const [segment] = result.segments;
+        expect(segment.durationMs).toBe(1250);
+        expect(segment.subSteps).toHaveLength(8);
+
+        const moves = segment.subSteps.map((step) => step.axisMoves[0]);
+        expect(moves.at(-1)?.targetSteps).toBe(400);
+        for (let i = 1; i < moves.length; i++) {
+            expect(moves[i].fromSteps).toBe(moves[i - 1].targetSteps);
+        }
+        // Slow at the ends, fastest in the middle
+        const speeds = moves.map((move) => move.speedSps ?? 0);
+        expect(speeds[0]).toBeLessThan(speeds[3]);
+        expect(speeds[7]).toBeLessThan(speeds[4]);
+        expect(segment.speedSps).toBe(Math.max(...speeds));
+        expect(segment.subSteps[4].startMs).toBe(600);
+    });
+
+    it('keeps slow axes in sync with the rest of the slice', () => {
+        const result = plan(
+            createAnimation([
+                { x: 0, y: 0 },
+                { x: 0.4, y: 0.01, arrivalMs: 1000 },
+            ]),
+        );
+
+        const [step] = result.segments[0].subSteps;
+        expect(step.axisMoves.map((move) => move.speedSps)).toEqual([533, 10]);
+        for (const move of step.axisMoves) {
+            const moveSeconds = estimateMoveSeconds(
+                move.distanceSteps,
+                move.speedSps ?? 1,
+                move.accelSps2 ?? 1,
+            );
+            // Whole-step speeds leave a little rounding on very short moves
+            expect(Math.abs(moveSeconds * 1000 - step.durationMs)).toBeLessThan(
+                step.durationMs * 0.02,
+            );
+        }
+    });
+
+    it('sizes every slice move so its accel ramps fit in the slice', () => {
+        const result = plan(
+            createAnimation(
+                [
+                    { x: 0, y: 0 },
+                    { x: 0.4, y: 0.2, arrivalMs: 1200 },
+                    { x: 0, y: 0 },
+                ],
+                { type: 'ease-in-out' },
+            ),
+        );
+
+        const moves = result.segments.flatMap((segment) =>
+            segment.subSteps.flatMap((step) =>
+                step.axisMoves.map((move) => ({ move, sliceMs: step.durationMs })),
+            ),
+        );
+        expect(moves.length).toBeGreaterThan(8);
+        for (const { move, sliceMs } of moves) {
+            const moveMs =
+                estimateMoveSeconds(move.distanceSteps, move.speedSps ?? 1, move.accelSps2 ?? 1) *
+                1000;
+            expect(Math.abs(moveMs - sliceMs)).toBeLessThan(sliceMs * 0.02 + 1);
+        }
+    });
+
+    it('stretches segments whose arrival time exceeds the motor limit', () => {
+        const result = plan(
+            createAnimation(
+                [
+                    { x: 0, y: 0 },
+                    { x: 0.4, y: 0, arrivalMs: 50 },
+                ],
+                { type: 'ease-in-out' },
+            ),
+        );
+
+        const [segment] = result.segments;
+        expect(segment.speedClamped).toBe(true);
+        expect(segment.speedSps).toBeLessThanOrEqual(3600);
+        expect(segment.durationMs).toBeGreaterThan(400 / 3.6);
+        expect(result.warnings.map((warning) => warning.code)).toContain('speed_exceeds_limit');
+    });
+
+    it('adds waypoint dwell to the total duration', () => {
+        const result = plan(
+            createAnimation([
+                { x: 0, y: 0 },
+                { x: 0.4, y: 0, dwellMs: 500 },
+                { x: 0, y: 0 },
+            ]),
+        );
+
+        expect(result.segments.map((segment) => segment.dwellMs)).toEqual([500, 0]);
+        expect(result.totalDurationMs).toBe(317 + 500 + 317);
+    });
+
+    it('drops thermally blocked motors from every sub-step', () => {
+        const result = plan(
+            createAnimation(
+                [
+                    { x: 0, y: 0 },
+                    { x: 0.4, y: 0.2, arrivalMs: 1000 },
+                ],
+                { type: 'ease-in-out' },
+            ),
+        );
+
+        const filtered = excludeThermalBlockedMotors(result, new Set([getThermalMotorKey(MAC, 0)]));
+        const remaining = filtered.segments[0].subSteps.flatMap((step) => step.axisMoves);
+        expect(remaining.length).toBeGreaterThan(0);
+        expect(remaining.every((move) => move.axis === 'y')).toBe(true);
+        expect(filtered.segments[0].axisMoves.map((move) => move.axis)).toEqual(['y']);
+        const scheduled = filtered.schedule?.events.flatMap((event) => event.axisMoves) ?? [];
+        expect(scheduled).toEqual(remaining);
+    });
+
+    it('follows curved paths through the sampled sub-steps', () => {
+        const result = plan(
+            createAnimation(
+                [
+                    { x: 0, y: 0, handleOut: { x: 0, y: 0.2 } },
+                    { x: 0.4, y: 0, handleIn: { x: 0, y: 0.2 } },
+                ],
+                undefined,
+                { type: 'bezier', resolution: 4 },
+            ),
+        );
+
+        const [segment] = result.segments;
+        expect(segment.subSteps).toHaveLength(4);
+        const yMoves = segment.subSteps.flatMap((step) =>
+            step.axisMoves.filter((move) => move.axis === 'y'),
+        );
+        // The curve bows away from the chord and returns, although y starts and ends at 0
+        expect(yMoves.length).toBeGreaterThan(0);
+        expect(Math.min(...yMoves.map((move) => move.targetSteps))).toBeLessThan(0);
+        expect(yMoves.at(-1)?.targetSteps).toBe(0);
+    });
+
+    it('assigns a path to every playable mirror from its first waypoint', () => {
+        const animation = createAnimation([
+            { x: 0.2, y: 0 },
+            { x: 0.4, y: 0 },
+        ]);
+        const result = assignPathsToMirrors({
+            paths: animation.paths,
+            gridSize: { rows: 1, cols: 1 },
+            mirrorConfig,
+            profile,
+            startSteps: new Map([[getThermalMotorKey(MAC, 0), 0]]),
+        });
+
+        expect(result.errors).toEqual([]);
+        expect(result.assignments).toEqual([{ mirrorId: '0-0', row: 0, col: 0, pathId: 'path-1' }]);
+    });
+
+    it('schedules staggered sequential starts and the loop seam', () => {
+        const sequentialConfig: MirrorConfig = new Map([
+            ...mirrorConfig,
+            ['0-1', { x: { nodeMac: MAC, motorIndex: 2 }, y: { nodeMac: MAC, motorIndex: 3 } }],
+        ]);
+        const result = planAnimation({
+            animation: {
+                ...createAnimation([
+                    { x: 0, y: 0 },
+                    { x: 0.4, y: 0 },
+                ]),
+                mode: 'sequential',
+                sequentialConfig: { pathId: 'path-1', offsetMs: 100, orderBy: 'row-major' },
+            },
+            gridSize: { rows: 1, cols: 2 },
+            mirrorConfig: sequentialConfig,
+            profile: {
+                ...profile,
+                tiles: { '0-0': tile, '0-1': { ...tile, key: '0-1', col: 1 } },
+            },
+        });
+
+        expect(result.errors).toEqual([]);
+        const schedule = result.schedule!;
+        expect(schedule.mirrorStartMs).toEqual({ '0-0': 0, '0-1': 100 });
+        expect(schedule.events.map((event) => [event.mirrorId, event.atMs])).toEqual([
+            ['0-0', 0],
+            ['0-1', 100],
+        ]);
+        expect(result.totalDurationMs).toBe(317 + 100);
+
+        // The seam drives x back from 400 to 0 steps at the default speed
+        expect(schedule.seamEvents.map((event) => [event.mirrorId, event.atMs])).toEqual([
+            ['0-0', 317],
+            ['0-1', 417],
+        ]);
+        expect(schedule.seamEvents[0].axisMoves).toMatchObject([
+            { axis: 'x', fromSteps: 400, targetSteps: 0, speedSps: 2000 },
+        ]);
+        expect(schedule.loopPeriodMs).toBe(317 + 317);
+    });
+});
@@ -1,10 +1,14 @@
 // @vitest-environment node
 import { describe, expect, it } from 'vitest';
 
-import { validatePatternInProfile, validateWaypointsInProfile } from '../boundsValidation';
+import {
+    validateAnimationPathInProfile,
+    validatePatternInProfile,
+    validateWaypointsInProfile,
+} from '../boundsValidation';
 
 import type { CalibrationProfile, PatternPoint, TileCalibrationResults } from '../../types';
-import type { AnimationWaypoint } from '../../types/animation';
+import type { AnimationPath, AnimationWaypoint } from '../../types/animation';
 
 // Test helpers
 const createTileWithBounds = (
@@ -340,4 +344,44 @@ describe('boundsValidation', () => {
             expect(result.errors).toHaveLength(0);
         });
     });
+
+    describe('validateAnimationPathInProfile', () => {
+        const tiles = {
+            '0-0': createTileWithBounds('0-0', 0, 0, {
+                x: { min: -1, max: 1 },
+                y: { min: -0.3, max: 0.3 },
+            }),
+        };
+        // Three points on a circle of radius ~0.32; the arcs between them pass y = ±0.32
+        const createPath = (curve?: AnimationPath['curve']): AnimationPath => ({
+            id: 'path-1',
+            name: 'Path',
+            waypoints: [
+                waypoint('w1', 0.3, 0.1),
+                waypoint('w2', -0.3, 0.1),
+                waypoint('w3', 0.3, -0.1),
+            ],
+            curve,
+        });
+
+        it('accepts straight paths whose waypoints are in bounds', () => {
+            const result = validateAnimationPathInProfile(createPath(), {
+                profile: createProfile(tiles),
+            });
+            expect(result.isValid).toBe(true);
+        });
+
+        it('flags the waypoint whose outgoing curve leaves the bounds', () => {
+            const path = createPath({ type: 'arc', resolution: 8 });
+            const result = validateAnimationPathInProfile(path, {
+                profile: createProfile(tiles),
+            });
+
+            expect(result.isValid).toBe(false);
+            expect(result.invalidPointIds.has('w1')).toBe(true);
+            expect(result.invalidPointIds.has('w2')).toBe(true);
+            expect(result.invalidPointIds.has('w3')).toBe(false);
+            expect(result.errors[0].message).toContain('Curve after waypoint "w1"');
+        });
+    });
 });
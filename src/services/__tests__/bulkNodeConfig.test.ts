@@ -0,0 +1,140 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+    executeBulkConfigApply,
+    getMirrorConfigNodeMacs,
+    planBulkConfigApply,
+    rollbackBulkConfig,
+    type SetNodeConfigFn,
+} from '../bulkNodeConfig';
+
+import type { MirrorConfig } from '../../types';
+import type { NormalizedMotorStatus } from '../statusParser';
+
+const sleepingMotor: NormalizedMotorStatus = {
+    id: 0,
+    position: 0,
+    moving: false,
+    awake: false,
+    homed: true,
+    stepsSinceHome: 0,
+    budgetSeconds: 90,
+    ttfcSeconds: 0,
+    speed: 4000,
+    accel: 16000,
+    estMs: 0,
+    startedMs: 0,
+    actualMs: 0,
+    raw: {},
+};
+
+describe('getMirrorConfigNodeMacs', () => {
+    it('returns unique node MACs across both axes', () => {
+        const config: MirrorConfig = new Map([
+            [
+                '0-0',
+                {
+                    x: { nodeMac: 'aa', motorIndex: 0 },
+                    y: { nodeMac: 'aa', motorIndex: 1 },
+                },
+            ],
+            ['0-1', { x: { nodeMac: 'bb', motorIndex: 0 }, y: null }],
+        ]);
+        expect(getMirrorConfigNodeMacs(config)).toEqual(['aa', 'bb']);
+    });
+});
+
+describe('planBulkConfigApply', () => {
+    it('diffs each node and captures previous values', () => {
+        const plans = planBulkConfigApply(
+            [
+                { mac: 'aa', current: { SPEED: 4000, ACCEL: 16000 }, motors: [] },
+                { mac: 'bb', current: { SPEED: 3000, ACCEL: 8000 }, motors: [] },
+            ],
+            { SPEED: 4000, ACCEL: 8000 },
+        );
+        expect(plans[0].changes).toEqual([{ field: 'ACCEL', from: 16000, to: 8000 }]);
+        expect(plans[1].changes).toEqual([{ field: 'SPEED', from: 3000, to: 4000 }]);
+    });
+
+    it('blocks nodes with unknown config or awake motors for microstep changes', () => {
+        const plans = planBulkConfigApply(
+            [
+                { mac: 'aa', current: undefined, motors: [] },
+                {
+                    mac: 'bb',
+                    current: { MICROSTEP: 'FULL' },
+                    motors: [{ ...sleepingMotor, awake: true }],
+                },
+                { mac: 'cc', current: { MICROSTEP: 'FULL' }, motors: [sleepingMotor] },
+            ],
+            { MICROSTEP: '1/8' },
+        );
+        expect(plans[0].blocker).not.toBeNull();
+        expect(plans[1].blocker).toContain('asleep');
+        expect(plans[2].blocker).toBeNull();
+    });
+});
+
+describe('executeBulkConfigApply', () => {
+    it('sends one SET per field and reports per-node results', async () => {
+        const setNodeConfig = vi.fn<SetNodeConfigFn>(async ({ mac, field }) => {
+            if (mac === 'bb' && field === 'ACCEL') {
+                throw Object.assign(new Error('busy'), {
+                    kind: 'error',
+                    command: { cmdId: 'set-accel', responses: [] },
+                    errorCode: 'E04',
+                });
+            }
+        });
+        const plans = planBulkConfigApply(
+            [
+                { mac: 'aa', current: { SPEED: 3000, ACCEL: 8000 }, motors: [] },
+                { mac: 'bb', current: { SPEED: 3000, ACCEL: 8000 }, motors: [] },
+                { mac: 'cc', current: { SPEED: 4000, ACCEL: 16000 }, motors: [] },
+            ],
+            { SPEED: 4000, ACCEL: 16000 },
+        );
+
+        const report = await executeBulkConfigApply(plans, setNodeConfig);
+
+        expect(setNodeConfig).toHaveBeenCalledTimes(4);
+        expect(report.hasFailures).toBe(true);
+        expect(report.nodes.map((node) => node.status)).toEqual(['success', 'failed', 'unchanged']);
+        expect(report.nodes[1]).toMatchObject({
+            failedField: 'ACCEL',
+            errorCode: 'E04',
+            applied: [{ field: 'SPEED', from: 3000, to: 4000 }],
+        });
+    });
+
+    it('rolls back applied changes in reverse order', async () => {
+        const calls: Array<{ mac: string; field: string; value: unknown }> = [];
+        const setNodeConfig: SetNodeConfigFn = async (args) => {
+            calls.push(args);
+        };
+        const report = await executeBulkConfigApply(
+            planBulkConfigApply(
+                [
+                    {
+                        mac: 'aa',
+                        current: { SPEED: 3000, MICROSTEP: 'FULL' },
+                        motors: [sleepingMotor],
+                    },
+                ],
+                { SPEED: 4000, MICROSTEP: '1/4' },
+            ),
+            setNodeConfig,
+        );
+        calls.length = 0;
+
+        const rollback = await rollbackBulkConfig(report, setNodeConfig);
+
+        expect(rollback.hasFailures).toBe(false);
+        expect(calls).toEqual([
+            { mac: 'aa', field: 'MICROSTEP', value: 'FULL' },
+            { mac: 'aa', field: 'SPEED', value: 3000 },
+        ]);
+    });
+});
@@ -0,0 +1,208 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import type { Pattern, PlaybackSequence } from '@/types';
+import type { Animation } from '@/types/animation';
+
+import { loadAnimations } from '../animationStorage';
+import {
+    buildLibraryBundle,
+    bundleItemKey,
+    findBundleConflicts,
+    importLibraryBundle,
+    LIBRARY_BUNDLE_TYPE,
+    mergeLibraryBundle,
+    parseLibraryBundle,
+    type LibraryContents,
+} from '../libraryBundle';
+import { loadPatterns, persistPatterns } from '../patternStorage';
+import { createSequenceEntry, loadPlaybackSequences } from '../playbackSequenceStorage';
+
+class MemoryStorage implements Storage {
+    private store = new Map<string, string>();
+
+    get length(): number {
+        return this.store.size;
+    }
+
+    clear(): void {
+        this.store.clear();
+    }
+
+    getItem(key: string): string | null {
+        return this.store.has(key) ? (this.store.get(key) ?? null) : null;
+    }
+
+    key(index: number): string | null {
+        return Array.from(this.store.keys())[index] ?? null;
+    }
+
+    removeItem(key: string): void {
+        this.store.delete(key);
+    }
+
+    setItem(key: string, value: string): void {
+        this.store.set(key, value);
+    }
+}
+
+const TIMESTAMP = '2025-01-01T00:00:00.000Z';
+
+const createPattern = (id: string, name = id): Pattern => ({
+    id,
+    name,
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+    points: [{ id: `${id}-pt`, x: 0.1, y: -0.2 }],
+});
+
+const createSequence = (id: string, patternIds: string[]): PlaybackSequence => ({
+    id,
+    name: id,
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+    entries: patternIds.map((patternId) => createSequenceEntry(patternId)),
+    loopMode: 'once',
+});
+
+const createAnimation = (id: string): Animation => ({
+    id,
+    name: id,
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+    mode: 'independent',
+    paths: [],
+    defaultSpeedSps: 1200,
+    independentConfig: { assignments: [] },
+});
+
+const createLibrary = (): LibraryContents => ({
+    patterns: [createPattern('p1'), createPattern('p2'), createPattern('p3')],
+    sequences: [createSequence('s1', ['p1', 'p2', 'missing'])],
+    animations: [createAnimation('a1')],
+});
+
+const sequentialIds = () => {
+    let next = 0;
+    return (kind: string) => `${kind}-new-${++next}`;
+};
+
+describe('libraryBundle', () => {
+    it('exports the selection plus the patterns its sequences play', () => {
+        const bundle = buildLibraryBundle(
+            createLibrary(),
+            { patternIds: [], sequenceIds: ['s1'], animationIds: ['a1'] },
+            new Date(TIMESTAMP),
+        );
+
+        expect(bundle.type).toBe(LIBRARY_BUNDLE_TYPE);
+        expect(bundle.exportedAt).toBe(TIMESTAMP);
+        expect(bundle.patterns.map((pattern) => pattern.id)).toEqual(['p1', 'p2']);
+        expect(bundle.sequences.map((sequence) => sequence.id)).toEqual(['s1']);
+        expect(bundle.animations.map((animation) => animation.id)).toEqual(['a1']);
+    });
+
+    it('round-trips a bundle through JSON', () => {
+        const bundle = buildLibraryBundle(createLibrary(), {
+            patternIds: ['p3'],
+            sequenceIds: ['s1'],
+            animationIds: ['a1'],
+        });
+        const { bundle: parsed, error } = parseLibraryBundle(JSON.stringify(bundle));
+
+        expect(error).toBeUndefined();
+        expect(parsed).toEqual(bundle);
+    });
+
+    it('rejects files that are not current bundles', () => {
+        expect(parseLibraryBundle('not json').error).toMatch(/JSON/);
+        expect(parseLibraryBundle(JSON.stringify({ patterns: [] })).error).toMatch(
+            /not a library bundle/,
+        );
+        expect(
+            parseLibraryBundle(JSON.stringify({ type: LIBRARY_BUNDLE_TYPE, version: 99 })).error,
+        ).toMatch(/Unsupported bundle version 99/);
+        expect(
+            parseLibraryBundle(
+                JSON.stringify({ type: LIBRARY_BUNDLE_TYPE, version: 1, patterns: [{}] }),
+            ).error,
+        ).toMatch(/any items/);
+    });
+
+    it('reports items whose ids already exist locally', () => {
+        const library = createLibrary();
+        const bundle: LibraryContents = {
+            patterns: [createPattern('p1', 'Imported p1'), createPattern('p9')],
+            sequences: [],
+            animations: [createAnimation('a1')],
+        };
+
+        expect(findBundleConflicts(bundle, library)).toEqual([
+            { kind: 'pattern', id: 'p1', name: 'Imported p1', existingName: 'p1' },
+            { kind: 'animation', id: 'a1', name: 'a1', existingName: 'a1' },
+        ]);
+    });
+
+    it('applies rename, replace and skip per conflicting item', () => {
+        const library = createLibrary();
+        const bundle: LibraryContents = {
+            patterns: [
+                createPattern('p1', 'Remote p1'),
+                createPattern('p2', 'Remote p2'),
+                createPattern('p3', 'Remote p3'),
+                createPattern('p9'),
+            ],
+            sequences: [createSequence('s2', ['p1', 'p2', 'p3', 'p9'])],
+            animations: [],
+        };
+
+        const result = mergeLibraryBundle(
+            library,
+            bundle,
+            {
+                [bundleItemKey('pattern', 'p2')]: 'replace',
+                [bundleItemKey('pattern', 'p3')]: 'skip',
+            },
+            sequentialIds(),
+        );
+
+        expect(result).toMatchObject({ added: 2, renamed: 1, replaced: 1, skipped: 1 });
+        const names = Object.fromEntries(
+            result.library.patterns.map((pattern) => [pattern.id, pattern.name]),
+        );
+        expect(names).toEqual({
+            p1: 'p1',
+            p2: 'Remote p2',
+            p3: 'p3',
+            p9: 'p9',
+            'pattern-new-1': 'Remote p1 (imported)',
+        });
+        // The imported sequence follows the renamed pattern and keeps the others
+        const imported = result.library.sequences.find((sequence) => sequence.id === 's2');
+        expect(imported?.entries.map((entry) => entry.patternId)).toEqual([
+            'pattern-new-1',
+            'p2',
+            'p3',
+            'p9',
+        ]);
+    });
+
+    it('persists an import to every store', () => {
+        const storage = new MemoryStorage();
+        persistPatterns(storage, [createPattern('p1')]);
+        const bundle = buildLibraryBundle(createLibrary(), {
+            patternIds: [],
+            sequenceIds: ['s1'],
+            animationIds: ['a1'],
+        });
+
+        const result = importLibraryBundle(storage, bundle, {
+            [bundleItemKey('pattern', 'p1')]: 'skip',
+        });
+
+        expect(result).toMatchObject({ added: 3, skipped: 1 });
+        expect(loadPatterns(storage).map((pattern) => pattern.id)).toEqual(['p1', 'p2']);
+        expect(loadPlaybackSequences(storage).map((sequence) => sequence.id)).toEqual(['s1']);
+        expect(loadAnimations(storage).map((animation) => animation.id)).toEqual(['a1']);
+    });
+});
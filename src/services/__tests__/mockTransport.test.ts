@@ -1,7 +1,13 @@
 // @vitest-environment node
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
-import { MockMqttTransport, getMockNodes, getMockTileDrivers } from '../mockTransport';
+import {
+    MOCK_RECONNECT_DELAY_MS,
+    MockMqttTransport,
+    getMockNodes,
+    getMockTileDrivers,
+} from '../mockTransport';
+import { PendingCommandTracker, type CommandFailure } from '../pendingCommandTracker';
 
 import type { MockTileDriver } from '../mockTransport';
 
@@ -140,3 +146,309 @@ describe('MockMqttTransport messaging', () => {
         expect(state.position).toBe(0);
     });
 });
+
+describe('MockMqttTransport firmware simulation', () => {
+    const MAC = 'AA:11:BB:22:CC:33';
+    let transport: MockMqttTransport;
+    const messages: Array<{ topic: string; payload: Record<string, unknown> }> = [];
+
+    const send = (action: string, params: Record<string, unknown> = {}, cmdId = action) =>
+        transport.publish(`devices/${MAC}/cmd`, JSON.stringify({ action, cmd_id: cmdId, params }));
+
+    const responsesFor = (cmdId: string) =>
+        messages.filter(
+            (entry) => entry.topic.endsWith('/cmd/resp') && entry.payload.cmd_id === cmdId,
+        );
+
+    const errorCodeFor = (cmdId: string) => {
+        const error = responsesFor(cmdId).find((entry) => entry.payload.status === 'error');
+        const errors = (error?.payload.errors ?? []) as Array<Record<string, unknown>>;
+        return errors[0]?.code;
+    };
+
+    const statusCount = () =>
+        messages.filter((entry) => entry.topic === `devices/${MAC}/status`).length;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        messages.length = 0;
+        transport = new MockMqttTransport(getMockTileDrivers());
+        transport.connect((message) => {
+            messages.push({ topic: message.topic, payload: decodePayload(message.payload) });
+        });
+    });
+
+    afterEach(() => {
+        transport.disconnect();
+        vi.useRealTimers();
+    });
+
+    it('publishes retained config on connect and the offline node Last Will', () => {
+        expect(
+            messages.find((entry) => entry.topic === `devices/${MAC}/config`)?.payload,
+        ).toMatchObject({
+            thermal_limiting: 'ON',
+            max_budget_s: 90,
+            microstep: 'FULL',
+            microstep_mult: 1,
+        });
+        expect(
+            messages.find((entry) => entry.topic === 'devices/77:88:99:AA:BB:CC/status')?.payload,
+        ).toEqual({ node_state: 'offline', motors: {} });
+        expect(transport.getRetainedMessages().map((entry) => entry.topic)).toContain(
+            `devices/${MAC}/config`,
+        );
+    });
+
+    it('publishes status at 1 Hz idle and 5 Hz while moving', async () => {
+        messages.length = 0;
+        vi.advanceTimersByTime(2_000);
+        expect(statusCount()).toBe(2);
+
+        messages.length = 0;
+        await send('MOVE', { target_ids: 0, position_steps: 1_200 });
+        vi.advanceTimersByTime(400);
+        // Immediate publish on motion start plus 200 ms cadence
+        expect(statusCount()).toBeGreaterThanOrEqual(3);
+    });
+
+    it('rejects positions outside the travel range with E07', async () => {
+        await send('MOVE', { target_ids: 0, position_steps: 1_201 });
+        expect(errorCodeFor('MOVE')).toBe('E07');
+        expect(readDrivers(transport)[0].motors[0].moving).toBe(false);
+    });
+
+    it('drains budget while awake and rejects moves without budget (E11)', async () => {
+        const motor = readDrivers(transport)[0].motors[0];
+        motor.budgetSeconds = 0.1;
+        await send('MOVE', { target_ids: 0, position_steps: 1_200 });
+        expect(errorCodeFor('MOVE')).toBe('E11');
+        const error = responsesFor('MOVE')[0].payload.errors as Array<Record<string, unknown>>;
+        expect(error[0]).toMatchObject({ reason: 'THERMAL_NO_BUDGET', id: 0 });
+    });
+
+    it('recovers budget while asleep', () => {
+        const motor = readDrivers(transport)[0].motors[0];
+        motor.budgetSeconds = 10;
+        vi.advanceTimersByTime(10_000);
+        expect(motor.budgetSeconds).toBeCloseTo(15);
+    });
+
+    it('runs over-budget moves with warnings when thermal limiting is OFF', async () => {
+        await send('SET', { THERMAL_LIMITING: 'OFF' }, 'set-thermal');
+        readDrivers(transport)[0].motors[0].budgetSeconds = 0;
+        await send('MOVE', { target_ids: 0, position_steps: 1_200 });
+        const ack = responsesFor('MOVE').find((entry) => entry.payload.status === 'ack');
+        expect(ack?.payload.warnings).toEqual([
+            expect.objectContaining({ code: 'THERMAL_NO_BUDGET', id: 0 }),
+        ]);
+    });
+
+    it('tracks awake state from WAKE/SLEEP and sleeps after un-held moves', async () => {
+        const motors = readDrivers(transport)[0].motors;
+        await send('MOVE', { target_ids: 1, position_steps: 300 });
+        expect(motors[1].awake).toBe(true);
+        vi.advanceTimersByTime(1_000);
+        expect(motors[1].awake).toBe(false);
+
+        await send('WAKE', { target_ids: 'ALL' });
+        expect(motors.every((motor) => motor.awake)).toBe(true);
+        await send('MOVE', { target_ids: 1, position_steps: 0 }, 'move-held');
+        vi.advanceTimersByTime(1_000);
+        expect(motors[1].awake).toBe(true);
+
+        await send('SLEEP', { target_ids: 1 });
+        expect(responsesFor('SLEEP')[0].payload.status).toBe('done');
+        expect(motors[1].awake).toBe(false);
+    });
+
+    it('blocks WAKE with E12 when the budget is exhausted', async () => {
+        readDrivers(transport)[0].motors[2].budgetSeconds = 0;
+        await send('WAKE', { target_ids: 2 });
+        expect(errorCodeFor('WAKE')).toBe('E12');
+    });
+
+    it('answers GET and republishes config after SET', async () => {
+        await send('GET', { resource: 'ALL' });
+        expect(responsesFor('GET')[0].payload.result).toMatchObject({
+            SPEED: 4_000,
+            THERMAL_LIMITING: 'ON',
+            max_budget_s: 90,
+        });
+
+        messages.length = 0;
+        await send('SET', { SPEED: 2_500 });
+        expect(responsesFor('SET')[0].payload.result).toEqual({ SPEED: 2_500 });
+        expect(
+            messages.find((entry) => entry.topic === `devices/${MAC}/config`)?.payload,
+        ).toMatchObject({ speed: 2_500 });
+
+        await send('SET', { SPEED: 1, ACCEL: 2 }, 'set-two');
+        expect(errorCodeFor('set-two')).toBe('E03');
+    });
+
+    it('refuses SET MICROSTEP while motors are awake', async () => {
+        await send('WAKE', { target_ids: 0 });
+        await send('SET', { MICROSTEP: '1/16' });
+        expect(errorCodeFor('SET')).toBe('E04');
+
+        await send('SLEEP', { target_ids: 'ALL' });
+        await send('SET', { MICROSTEP: '1/16' }, 'set-ok');
+        expect(responsesFor('set-ok')[0].payload.result).toEqual({
+            MICROSTEP: '1/16',
+            multiplier: 16,
+        });
+    });
+
+    it('replays cached responses for a duplicate cmd_id without re-executing', async () => {
+        await send('MOVE', { target_ids: 0, position_steps: 600 }, 'dup');
+        vi.advanceTimersByTime(1_000);
+        const before = responsesFor('dup').length;
+        await send('MOVE', { target_ids: 0, position_steps: -600 }, 'dup');
+        expect(responsesFor('dup')).toHaveLength(before * 2);
+        expect(readDrivers(transport)[0].motors[0].position).toBe(600);
+    });
+
+    it('goes quiet while reconnecting after NET:SET', async () => {
+        await send('NET:SET', { ssid: 'NewNet', pass: 'password123' });
+        expect(responsesFor('NET:SET')[0].payload.status).toBe('done');
+        messages.length = 0;
+        vi.advanceTimersByTime(MOCK_RECONNECT_DELAY_MS - 100);
+        expect(statusCount()).toBe(0);
+        vi.advanceTimersByTime(1_100);
+        expect(statusCount()).toBeGreaterThan(0);
+
+        await send('NET:STATUS');
+        expect(responsesFor('NET:STATUS')[0].payload.result).toMatchObject({
+            ssid: '"NewNet"',
+        });
+        await send('NET:LIST');
+        expect(errorCodeFor('NET:LIST')).toBe('NET_SCAN_AP_ONLY');
+    });
+
+    it('rejects unknown actions with E01', async () => {
+        await send('DANCE');
+        expect(errorCodeFor('DANCE')).toBe('E01');
+    });
+});
+
+describe('MockMqttTransport fault injection', () => {
+    const MAC = 'AA:11:BB:22:CC:33';
+    let transport: MockMqttTransport;
+    let tracker: PendingCommandTracker;
+    const messages: Array<{ topic: string; payload: Record<string, unknown> }> = [];
+
+    const send = (action: string, params: Record<string, unknown> = {}, cmdId = action) =>
+        transport.publish(`devices/${MAC}/cmd`, JSON.stringify({ action, cmd_id: cmdId, params }));
+
+    const statusesFor = (cmdId: string) =>
+        messages
+            .filter((entry) => entry.topic.endsWith('/cmd/resp') && entry.payload.cmd_id === cmdId)
+            .map((entry) => entry.payload.status);
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        messages.length = 0;
+        tracker = new PendingCommandTracker({ ackTimeoutMs: 1_000, completionTimeoutMs: 5_000 });
+        transport = new MockMqttTransport(getMockTileDrivers(), { random: () => 1 });
+        transport.connect((message) => {
+            const payload = decodePayload(message.payload);
+            messages.push({ topic: message.topic, payload });
+            if (message.topic.endsWith('/cmd/resp')) {
+                tracker.handleResponse({
+                    cmdId: payload.cmd_id as string,
+                    action: payload.action as string,
+                    status: payload.status as 'ack' | 'done' | 'error',
+                });
+            }
+        });
+    });
+
+    afterEach(() => {
+        transport.disconnect();
+        tracker.dispose();
+        vi.useRealTimers();
+    });
+
+    it('drops acks and delays completions until the tracker times out', async () => {
+        transport.injectFault({ kind: 'drop-ack', mac: MAC, motorId: 0, count: 1 });
+        transport.injectFault({ kind: 'delay-completion', mac: MAC, delayMs: 2_000 });
+        const pending = tracker.register('slow').catch((error: CommandFailure) => error.kind);
+        await send('MOVE', { target_ids: 0, position_steps: 300 }, 'slow');
+
+        expect(statusesFor('slow')).toEqual([]);
+        // The per-command drop-ack fault was used up; delay-completion persists
+        expect(transport.getFaults().map((fault) => fault.kind)).toEqual(['delay-completion']);
+        vi.advanceTimersByTime(1_000);
+        await expect(pending).resolves.toBe('ack-timeout');
+        vi.advanceTimersByTime(2_000);
+        expect(statusesFor('slow')).toEqual(['done']);
+    });
+
+    it('leaves motors stuck moving until the fault is cleared', async () => {
+        const fault = transport.injectFault({ kind: 'stuck-moving', mac: MAC, motorId: 1 });
+        const pending = tracker.register('stuck').catch((error: CommandFailure) => error.kind);
+        await send('MOVE', { target_ids: 1, position_steps: 200 }, 'stuck');
+        vi.advanceTimersByTime(5_000);
+        await expect(pending).resolves.toBe('completion-timeout');
+        expect(readDrivers(transport)[0].motors[1].moving).toBe(true);
+
+        await send('MOVE', { target_ids: 1, position_steps: 0 }, 'busy');
+        expect(statusesFor('busy')).toEqual(['error']);
+
+        transport.clearFault(fault.id);
+        expect(statusesFor('stuck')).toEqual(['ack', 'done']);
+        expect(readDrivers(transport)[0].motors[1]).toMatchObject({ moving: false, position: 200 });
+    });
+
+    it('fails homing once and then homes normally', async () => {
+        transport.injectFault({ kind: 'home-failure', mac: MAC, count: 1 });
+        await send('HOME', { target_ids: 2 }, 'home-1');
+        vi.advanceTimersByTime(2_000);
+        expect(statusesFor('home-1')).toEqual(['ack', 'error']);
+        expect(readDrivers(transport)[0].motors[2].homed).toBe(false);
+
+        await send('HOME', { target_ids: 2 }, 'home-2');
+        vi.advanceTimersByTime(2_000);
+        expect(statusesFor('home-2')).toEqual(['ack', 'done']);
+        expect(readDrivers(transport)[0].motors[2]).toMatchObject({ homed: true, position: 0 });
+    });
+
+    it('takes a node offline through its Last Will and restores it', async () => {
+        const fault = transport.injectFault({ kind: 'offline', mac: MAC });
+        expect(messages.at(-1)).toEqual({
+            topic: `devices/${MAC}/status`,
+            payload: { node_state: 'offline', motors: {} },
+        });
+        await send('GET', {}, 'ignored');
+        expect(statusesFor('ignored')).toEqual([]);
+
+        messages.length = 0;
+        transport.clearFault(fault.id);
+        expect(messages.map((entry) => entry.topic)).toEqual([
+            `devices/${MAC}/config`,
+            `devices/${MAC}/status`,
+        ]);
+        expect(transport.describeNodes()[0].online).toBe(true);
+    });
+
+    it('drifts idle motor positions', () => {
+        transport.injectFault({ kind: 'position-drift', mac: MAC, motorId: 0, driftSteps: 5 });
+        vi.advanceTimersByTime(3_000);
+        const [driftedMotor, steadyMotor] = readDrivers(transport)[0].motors;
+        expect(driftedMotor.position).toBe(15);
+        expect(driftedMotor.stepsSinceHome).toBe(15);
+        expect(steadyMotor.position).toBe(75);
+    });
+
+    it('notifies subscribers and rejects unknown nodes', () => {
+        const listener = vi.fn();
+        const unsubscribe = transport.subscribeFaults(listener);
+        transport.injectFault({ kind: 'drop-ack', mac: MAC });
+        transport.clearAllFaults();
+        expect(listener).toHaveBeenCalledTimes(2);
+        expect(transport.getFaults()).toEqual([]);
+        unsubscribe();
+        expect(() => transport.injectFault({ kind: 'offline', mac: 'nope' })).toThrow();
+    });
+});
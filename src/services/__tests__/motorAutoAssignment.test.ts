@@ -0,0 +1,134 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import type { Motor } from '@/types';
+
+import {
+    buildAssignmentProposal,
+    classifyJogDisplacement,
+    clusterByGaps,
+    findMovedBlob,
+    locateSurveyCells,
+    type BlobPoint,
+    type MotorJogObservation,
+} from '../motorAutoAssignment';
+
+const motor = (motorIndex: number): Motor => ({ nodeMac: 'aa:bb', motorIndex });
+
+// 2 rows × 3 cols of home reflections, deliberately listed out of order
+const SURVEY: BlobPoint[] = [
+    { x: 0.41, y: 0.3 },
+    { x: -0.4, y: -0.3 },
+    { x: 0.0, y: 0.31 },
+    { x: 0.39, y: -0.29 },
+    { x: 0.01, y: -0.3 },
+    { x: -0.41, y: 0.29 },
+];
+
+const jog = (index: number, from: BlobPoint, dx: number, dy: number): MotorJogObservation => ({
+    motor: motor(index),
+    from,
+    to: { x: from.x + dx, y: from.y + dy },
+});
+
+describe('motorAutoAssignment', () => {
+    it('finds the reflection that moved between snapshots', () => {
+        const after = SURVEY.map((point, index) =>
+            index === 2 ? { x: point.x + 0.1, y: point.y } : { x: point.x + 0.002, y: point.y },
+        );
+        expect(findMovedBlob(SURVEY, after, 0.03)).toEqual({
+            from: SURVEY[2],
+            to: { x: 0.1, y: 0.31 },
+        });
+        expect(findMovedBlob(SURVEY, SURVEY, 0.03)).toBeNull();
+        expect(findMovedBlob(SURVEY, SURVEY.slice(1), 0.03)).toEqual({
+            from: SURVEY[0],
+            to: null,
+        });
+    });
+
+    it('splits values into clusters at the largest gaps', () => {
+        expect(clusterByGaps([0.9, 0.1, 0.52, 0.12, 0.5], 3)).toEqual([2, 0, 1, 0, 1]);
+        expect(clusterByGaps([0.1], 2)).toBeNull();
+    });
+
+    it('maps camera cells back to logical tiles for the array rotation', () => {
+        expect(locateSurveyCells(SURVEY, { rows: 2, cols: 3 }, 0)).toEqual([
+            { row: 1, col: 2 },
+            { row: 0, col: 0 },
+            { row: 1, col: 1 },
+            { row: 0, col: 2 },
+            { row: 0, col: 1 },
+            { row: 1, col: 0 },
+        ]);
+        // At 180° the camera's top-left reflection is the last logical tile
+        expect(locateSurveyCells(SURVEY, { rows: 2, cols: 3 }, 180)?.[1]).toEqual({
+            row: 1,
+            col: 2,
+        });
+        // A 3×2 array turned 90° shows up as 2 camera rows of 3
+        expect(locateSurveyCells(SURVEY, { rows: 3, cols: 2 }, 90)?.[1]).toEqual({
+            row: 2,
+            col: 0,
+        });
+        expect(locateSurveyCells(SURVEY.slice(0, 2), { rows: 2, cols: 3 }, 0)).toBeNull();
+    });
+
+    it('derives axis and polarity from the calibration jog direction', () => {
+        // At 0° positive X steps move the reflection left and positive Y steps move it down
+        expect(classifyJogDisplacement({ x: -0.1, y: 0.01 }, 0)).toEqual({
+            axis: 'x',
+            polarity: 'normal',
+        });
+        expect(classifyJogDisplacement({ x: 0.1, y: 0.01 }, 0)).toEqual({
+            axis: 'x',
+            polarity: 'reversed',
+        });
+        expect(classifyJogDisplacement({ x: 0.01, y: 0.1 }, 0)).toEqual({
+            axis: 'y',
+            polarity: 'normal',
+        });
+        // At 90° the X motor drives the vertical direction
+        expect(classifyJogDisplacement({ x: 0, y: -0.1 }, 90).axis).toBe('x');
+    });
+
+    it('proposes a full config and reports motors it could not place', () => {
+        const proposal = buildAssignmentProposal({
+            survey: SURVEY,
+            observations: [
+                jog(0, SURVEY[1], -0.1, 0),
+                jog(1, SURVEY[1], 0, 0.1),
+                jog(2, SURVEY[0], 0.08, 0),
+                jog(3, SURVEY[0], -0.12, 0),
+                { motor: motor(4), from: null, to: null },
+                { motor: motor(5), from: SURVEY[4], to: null },
+            ],
+            gridSize: { rows: 2, cols: 3 },
+            arrayRotation: 0,
+        });
+
+        expect(proposal.config.get('0-0')).toEqual({ x: motor(0), y: motor(1) });
+        expect(proposal.config.get('1-2')).toEqual({ x: motor(3), y: null });
+        expect(proposal.entries.map((entry) => entry.polarity)).toEqual([
+            'normal',
+            'normal',
+            'normal',
+        ]);
+        expect(proposal.unresolved).toEqual([
+            { motor: motor(2), reason: 'Also moved [1,2] X' },
+            { motor: motor(4), reason: 'No reflection moved' },
+            { motor: motor(5), reason: 'Reflection left the camera view' },
+        ]);
+    });
+
+    it('leaves every motor unresolved when the survey cannot fill the grid', () => {
+        const proposal = buildAssignmentProposal({
+            survey: SURVEY.slice(0, 2),
+            observations: [jog(0, SURVEY[1], -0.1, 0)],
+            gridSize: { rows: 2, cols: 3 },
+            arrayRotation: 0,
+        });
+        expect(proposal.config.size).toBe(0);
+        expect(proposal.unresolved[0].reason).toMatch(/too few for a 2×3 grid/);
+    });
+});
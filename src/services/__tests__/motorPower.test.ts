@@ -0,0 +1,101 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+    DEFAULT_IDLE_SLEEP_POLICY,
+    executePowerCommands,
+    groupMotorsByNode,
+    loadIdleSleepPolicy,
+    persistIdleSleepPolicy,
+    selectMotorsToWake,
+} from '../motorPower';
+
+const createStorage = (): Storage => {
+    const data = new Map<string, string>();
+    return {
+        get length() {
+            return data.size;
+        },
+        clear: () => data.clear(),
+        getItem: (key: string) => data.get(key) ?? null,
+        key: (index: number) => Array.from(data.keys())[index] ?? null,
+        removeItem: (key: string) => {
+            data.delete(key);
+        },
+        setItem: (key: string, value: string) => {
+            data.set(key, value);
+        },
+    };
+};
+
+describe('idle sleep policy storage', () => {
+    it('returns defaults when nothing is stored', () => {
+        expect(loadIdleSleepPolicy(createStorage())).toEqual(DEFAULT_IDLE_SLEEP_POLICY);
+        expect(loadIdleSleepPolicy(undefined)).toEqual(DEFAULT_IDLE_SLEEP_POLICY);
+    });
+
+    it('round-trips and clamps the idle delay', () => {
+        const storage = createStorage();
+        persistIdleSleepPolicy(storage, { enabled: false, idleSeconds: 1, preWake: false });
+        expect(loadIdleSleepPolicy(storage)).toEqual({
+            enabled: false,
+            idleSeconds: 5,
+            preWake: false,
+        });
+    });
+});
+
+describe('motor targeting', () => {
+    it('groups motors by node without duplicates', () => {
+        const grouped = groupMotorsByNode([
+            { nodeMac: 'aa', motorIndex: 3 },
+            { nodeMac: 'bb', motorIndex: 0 },
+            { nodeMac: 'aa', motorIndex: 1 },
+            { nodeMac: 'aa', motorIndex: 3 },
+        ]);
+        expect(Array.from(grouped.entries())).toEqual([
+            ['aa', [1, 3]],
+            ['bb', [0]],
+        ]);
+    });
+
+    it('wakes motors that are asleep or have no telemetry', () => {
+        const awake = new Map([
+            ['aa:0', true],
+            ['aa:1', false],
+        ]);
+        const result = selectMotorsToWake(
+            [
+                { nodeMac: 'aa', motorIndex: 0 },
+                { nodeMac: 'aa', motorIndex: 1 },
+                { nodeMac: 'bb', motorIndex: 2 },
+            ],
+            (mac, motorId) => awake.get(`${mac}:${motorId}`),
+        );
+        expect(result).toEqual([
+            { nodeMac: 'aa', motorIndex: 1 },
+            { nodeMac: 'bb', motorIndex: 2 },
+        ]);
+    });
+});
+
+describe('executePowerCommands', () => {
+    it('collects failures per target', async () => {
+        const send = vi.fn(async ({ mac }: { mac: string }) => {
+            if (mac === 'bb') {
+                throw new Error('WAKE blocked');
+            }
+            return undefined;
+        });
+        const failures = await executePowerCommands(
+            [
+                { mac: 'aa', motorId: 'ALL' },
+                { mac: 'bb', motorId: 4 },
+            ],
+            send,
+        );
+        expect(send).toHaveBeenCalledTimes(2);
+        expect(failures).toHaveLength(1);
+        expect(failures[0]).toMatchObject({ controller: 'bb', motorId: 4 });
+    });
+});
@@ -95,6 +95,69 @@ describe('MirrorMqttClient', () => {
         expect(factory).toHaveBeenCalledTimes(2);
     });
 
+    it('records inbound and outbound messages while recording', async () => {
+        vi.useFakeTimers();
+        client.connect(connectRequest);
+        fake.emit('connect');
+        client.startRecording();
+        vi.advanceTimersByTime(250);
+        fake.emit('message', 'devices/abc/status', new TextEncoder().encode('{"a":1}'), null);
+        await client.publish('devices/abc/cmd', '{"action":"HELP"}');
+        const recording = client.stopRecording();
+
+        expect(client.isRecording()).toBe(false);
+        expect(recording?.source).toBe('ws://localhost:9001');
+        expect(recording?.entries).toEqual([
+            { offsetMs: 250, direction: 'in', topic: 'devices/abc/status', payload: '{"a":1}' },
+            {
+                offsetMs: 250,
+                direction: 'out',
+                topic: 'devices/abc/cmd',
+                payload: '{"action":"HELP"}',
+            },
+        ]);
+    });
+
+    it('replays a recorded session through subscriptions', () => {
+        vi.useFakeTimers();
+        const received: string[] = [];
+        client.subscribe('devices/+/status', (topic) => received.push(topic));
+        client.connect({
+            url: 'replay://localhost:9001/',
+            replay: {
+                speed: 2,
+                recording: {
+                    version: 1,
+                    recordedAt: '2025-01-01T00:00:00.000Z',
+                    source: 'ws://broker',
+                    entries: [
+                        {
+                            offsetMs: 1_000,
+                            direction: 'in',
+                            topic: 'devices/a/status',
+                            payload: '{}',
+                        },
+                    ],
+                },
+            },
+        });
+
+        expect(client.getState().status).toBe('connected');
+        expect(factory).not.toHaveBeenCalled();
+        vi.advanceTimersByTime(499);
+        expect(received).toEqual([]);
+        vi.advanceTimersByTime(1);
+        expect(received).toEqual(['devices/a/status']);
+    });
+
+    it('refuses replay connections without a loaded session', () => {
+        client.connect({ url: 'replay://localhost:9001/' });
+        expect(client.getState()).toMatchObject({
+            status: 'disconnected',
+            lastError: 'No session recording loaded',
+        });
+    });
+
     it('resets attempts after manual reconnect', () => {
         vi.useFakeTimers();
         const states: ConnectionState[] = [];
@@ -0,0 +1,139 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import {
+    describeNetError,
+    parseMqttConfigResult,
+    parseNetStatusResult,
+    parseNetworkList,
+    RECONNECT_GAP_MS,
+    startReconnectWatch,
+    unquoteFirmwareString,
+    updateReconnectWatch,
+    validateBrokerConfig,
+    validateWifiCredentials,
+} from '../netOnboarding';
+
+describe('parsers', () => {
+    it('unwraps the quotes firmware adds to stored strings', () => {
+        expect(unquoteFirmwareString('"HomeNetwork"')).toBe('HomeNetwork');
+        expect(unquoteFirmwareString('192.168.1.8')).toBe('192.168.1.8');
+        expect(unquoteFirmwareString(42)).toBeNull();
+    });
+
+    it('parses NET:STATUS results', () => {
+        expect(
+            parseNetStatusResult({
+                sub_action: 'STATUS',
+                state: 'CONNECTED',
+                rssi: -55,
+                ssid: '"HomeNetwork"',
+                ip: '192.168.1.8',
+            }),
+        ).toEqual({ state: 'CONNECTED', ssid: 'HomeNetwork', ip: '192.168.1.8', rssi: -55 });
+        expect(parseNetStatusResult(undefined)).toEqual({
+            state: null,
+            ssid: null,
+            ip: null,
+            rssi: null,
+        });
+    });
+
+    it('parses MQTT:GET_CONFIG results with quoted values and string ports', () => {
+        expect(
+            parseMqttConfigResult({
+                host: '"192.168.1.25"',
+                port: '1883',
+                user: '"mirror"',
+                pass: '"steelthread"',
+            }),
+        ).toEqual({ host: '192.168.1.25', port: 1883, user: 'mirror', pass: 'steelthread' });
+    });
+
+    it('de-duplicates scanned networks and sorts by signal', () => {
+        const networks = parseNetworkList({
+            networks: [
+                { ssid: '"Cafe"', rssi: -80, enc: 'OPEN' },
+                { ssid: 'Home', rssi: -60, secure: true },
+                { ssid: 'Home', rssi: -40, secure: true },
+                { rssi: -30 },
+            ],
+        });
+        expect(networks).toEqual([
+            { ssid: 'Home', rssi: -40, secure: true },
+            { ssid: 'Cafe', rssi: -80, secure: false },
+        ]);
+        expect(parseNetworkList({ aps: ['"Lab"'] })).toEqual([
+            { ssid: 'Lab', rssi: null, secure: null },
+        ]);
+    });
+});
+
+describe('validation', () => {
+    it('checks Wi-Fi credential lengths and quotes', () => {
+        expect(validateWifiCredentials({ ssid: 'Home', pass: 'password123' })).toEqual([]);
+        expect(validateWifiCredentials({ ssid: 'Open', pass: '' })).toEqual([]);
+        expect(validateWifiCredentials({ ssid: '', pass: 'short' })).toHaveLength(2);
+        expect(validateWifiCredentials({ ssid: 'a"b', pass: '' })).toHaveLength(1);
+    });
+
+    it('checks broker host and port', () => {
+        expect(
+            validateBrokerConfig({ host: 'broker.local', port: 1884, user: '', pass: '' }),
+        ).toEqual([]);
+        expect(validateBrokerConfig({ host: ' ', port: 0, user: '', pass: '' })).toHaveLength(2);
+        expect(validateBrokerConfig({ host: 'a b', port: 1.5, user: '', pass: '' })).toHaveLength(
+            2,
+        );
+    });
+});
+
+describe('describeNetError', () => {
+    it('explains NET_* and MQTT_* codes in plain language', () => {
+        expect(describeNetError('NET_SCAN_AP_ONLY')).toMatch(/setup access point/);
+        expect(describeNetError('net_connect_failed')).toMatch(/could not join/);
+        expect(describeNetError('MQTT_BAD_PARAM')).toMatch(/broker settings/);
+    });
+
+    it('returns null for unknown or missing codes', () => {
+        expect(describeNetError('E04')).toBeNull();
+        expect(describeNetError(undefined)).toBeNull();
+    });
+});
+
+describe('reconnect watch', () => {
+    const startedAt = 10_000;
+
+    it('waits while the node keeps reporting without a gap', () => {
+        const watch = startReconnectWatch(startedAt, { lastSeenAt: 9_500, presence: 'ready' });
+        const next = updateReconnectWatch(watch, { lastSeenAt: 10_500, presence: 'ready' }, 10_600);
+        expect(next.phase).toBe('waiting');
+    });
+
+    it('returns after the node goes offline and reports again', () => {
+        let watch = startReconnectWatch(startedAt, { lastSeenAt: 9_500, presence: 'ready' });
+        watch = updateReconnectWatch(watch, { lastSeenAt: 9_500, presence: 'offline' }, 12_000);
+        expect(watch.phase).toBe('dropped');
+        watch = updateReconnectWatch(watch, { lastSeenAt: 15_000, presence: 'ready' }, 15_100);
+        expect(watch.phase).toBe('returned');
+    });
+
+    it('treats a long gap between status messages as a reconnect', () => {
+        const watch = startReconnectWatch(startedAt, { lastSeenAt: 9_500, presence: 'ready' });
+        const next = updateReconnectWatch(
+            watch,
+            { lastSeenAt: 9_500 + RECONNECT_GAP_MS + 1, presence: 'ready' },
+            13_100,
+        );
+        expect(next.phase).toBe('returned');
+    });
+
+    it('times out when the node never comes back', () => {
+        const watch = startReconnectWatch(startedAt, null);
+        const next = updateReconnectWatch(watch, null, startedAt + 1_001, 1_000);
+        expect(next.phase).toBe('timed-out');
+        expect(updateReconnectWatch(next, { lastSeenAt: 20_000, presence: 'ready' }, 20_000)).toBe(
+            next,
+        );
+    });
+});
@@ -0,0 +1,107 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import {
+    diffNodeConfigValues,
+    getMicrostepChangeBlocker,
+    parseNodeConfigReport,
+    validateNodeConfigValue,
+} from '../nodeConfig';
+
+import type { NormalizedMotorStatus } from '../statusParser';
+
+const createMotor = (overrides: Partial<NormalizedMotorStatus> = {}): NormalizedMotorStatus => ({
+    id: 0,
+    position: 0,
+    moving: false,
+    awake: false,
+    homed: true,
+    stepsSinceHome: 0,
+    budgetSeconds: 90,
+    ttfcSeconds: 0,
+    speed: 4000,
+    accel: 16000,
+    estMs: 0,
+    startedMs: 0,
+    actualMs: 0,
+    raw: {},
+    ...overrides,
+});
+
+describe('validateNodeConfigValue', () => {
+    it('accepts values within the firmware ranges', () => {
+        expect(validateNodeConfigValue('SPEED', 5000)).toBeNull();
+        expect(validateNodeConfigValue('DECEL', 0)).toBeNull();
+        expect(validateNodeConfigValue('THERMAL_LIMITING', 'OFF')).toBeNull();
+        expect(validateNodeConfigValue('MICROSTEP', '1/8')).toBeNull();
+    });
+
+    it('rejects out-of-range values', () => {
+        expect(validateNodeConfigValue('SPEED', 0)).not.toBeNull();
+        expect(validateNodeConfigValue('ACCEL', 12.5)).not.toBeNull();
+        expect(validateNodeConfigValue('DECEL', -1)).not.toBeNull();
+        expect(validateNodeConfigValue('THERMAL_LIMITING', 'MAYBE')).not.toBeNull();
+        expect(validateNodeConfigValue('MICROSTEP', '1/64')).not.toBeNull();
+    });
+});
+
+describe('getMicrostepChangeBlocker', () => {
+    it('allows the change when every motor is asleep and stopped', () => {
+        expect(getMicrostepChangeBlocker([createMotor(), createMotor({ id: 1 })])).toBeNull();
+    });
+
+    it('blocks while any motor is moving or awake', () => {
+        expect(getMicrostepChangeBlocker([createMotor({ moving: true, awake: true })])).toContain(
+            'moving',
+        );
+        expect(
+            getMicrostepChangeBlocker([createMotor(), createMotor({ id: 3, awake: true })]),
+        ).toContain('awake: 3');
+    });
+
+    it('blocks when no telemetry is available', () => {
+        expect(getMicrostepChangeBlocker([])).not.toBeNull();
+    });
+});
+
+describe('parseNodeConfigReport', () => {
+    it('normalizes a GET ALL result', () => {
+        const report = parseNodeConfigReport({
+            SPEED: 4000,
+            ACCEL: 16000,
+            DECEL: 16000,
+            MICROSTEP: '1/32',
+            THERMAL_LIMITING: 'ON',
+            max_budget_s: 90,
+            free_heap_bytes: 51264,
+            firmware_version: '41a147e',
+            firmware_date: '2025-11-29T04:20:26Z',
+        });
+        expect(report.values).toEqual({
+            SPEED: 4000,
+            ACCEL: 16000,
+            DECEL: 16000,
+            MICROSTEP: '1/32',
+            THERMAL_LIMITING: 'ON',
+        });
+        expect(report.firmwareVersion).toBe('41a147e');
+        expect(report.maxBudgetSeconds).toBe(90);
+        expect(report.freeHeapBytes).toBe(51264);
+    });
+
+    it('tolerates a missing result', () => {
+        const report = parseNodeConfigReport(undefined);
+        expect(report.values).toEqual({});
+        expect(report.firmwareVersion).toBeNull();
+    });
+});
+
+describe('diffNodeConfigValues', () => {
+    it('lists changed fields in SET order', () => {
+        const changed = diffNodeConfigValues(
+            { SPEED: 4000, ACCEL: 16000, MICROSTEP: 'FULL' },
+            { MICROSTEP: '1/4', SPEED: 5000, ACCEL: 16000 },
+        );
+        expect(changed).toEqual(['SPEED', 'MICROSTEP']);
+    });
+});
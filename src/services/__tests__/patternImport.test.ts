@@ -0,0 +1,174 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import {
+    buildImportedPatternPoints,
+    createImageMask,
+    fitPointsToBounds,
+    getPatternImportBounds,
+    parseSvgPathData,
+    parseSvgTransform,
+    sampleAlongPolylines,
+    sampleInsideMask,
+    type ImportMask,
+} from '../patternImport';
+
+import type { CalibrationProfile, TileCalibrationResults } from '../../types';
+
+const createTile = (
+    key: string,
+    bounds: TileCalibrationResults['combinedBounds'],
+): TileCalibrationResults => ({
+    key,
+    row: 0,
+    col: 0,
+    status: 'completed',
+    error: null,
+    adjustedHome: { x: 0, y: 0, stepsX: 0, stepsY: 0 },
+    homeOffset: { dx: 0, dy: 0, stepsX: 0, stepsY: 0 },
+    homeMeasurement: null,
+    stepToDisplacement: { x: 0.001, y: -0.001 },
+    sizeDeltaAtStepTest: 0,
+    axes: {
+        x: { stepRange: { minSteps: -1200, maxSteps: 1200 }, stepScale: 1000 },
+        y: { stepRange: { minSteps: -1200, maxSteps: 1200 }, stepScale: -1000 },
+    },
+    combinedBounds: bounds,
+});
+
+const createProfile = (tiles: Record<string, TileCalibrationResults>): CalibrationProfile =>
+    ({
+        id: 'profile',
+        schemaVersion: 1,
+        name: 'Profile',
+        createdAt: '',
+        updatedAt: '',
+        arrayRotation: 0,
+        gridSize: { rows: 1, cols: 2 },
+        gridBlueprint: null,
+        stepTestSettings: { deltaSteps: 100 },
+        gridStateFingerprint: { hash: 'test', snapshot: { version: 1 } },
+        calibrationCameraAspect: 1,
+        calibrationSpace: { blobStats: null },
+        tiles,
+        metrics: { totalTiles: 2, completedTiles: 2, failedTiles: 0, skippedTiles: 0 },
+    }) as CalibrationProfile;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+describe('patternImport', () => {
+    it('flattens lines, relative commands and closed subpaths', () => {
+        const [square, tick] = parseSvgPathData('M0 0 H10 v10 L0 10 z m20 0 l5 5');
+        expect(square.closed).toBe(true);
+        expect(square.points).toEqual([
+            { x: 0, y: 0 },
+            { x: 10, y: 0 },
+            { x: 10, y: 10 },
+            { x: 0, y: 10 },
+        ]);
+        // The relative moveto continues from the closed subpath's start
+        expect(tick).toEqual({
+            points: [
+                { x: 20, y: 0 },
+                { x: 25, y: 5 },
+            ],
+            closed: false,
+        });
+    });
+
+    it('flattens curves and arcs ending on their endpoints', () => {
+        const [curve] = parseSvgPathData('M0 0 C0 10 10 10 10 0 S20 -10 20 0');
+        expect(curve.points.at(-1)).toEqual({ x: 20, y: 0 });
+        expect(Math.max(...curve.points.map((point) => point.y))).toBeCloseTo(7.5);
+
+        const [arc] = parseSvgPathData('M0 0 A5 5 0 0 1 10 0');
+        expect(arc.points.at(-1)).toEqual({ x: 10, y: 0 });
+        // Sweeping clockwise from the left end passes over the top (negative y)
+        expect(Math.min(...arc.points.map((point) => round(point.y)))).toBe(-5);
+    });
+
+    it('composes transform lists', () => {
+        expect(parseSvgTransform('translate(10 5) scale(2)')).toEqual([2, 0, 0, 2, 10, 5]);
+        expect(parseSvgTransform(null)).toEqual([1, 0, 0, 1, 0, 0]);
+    });
+
+    it('spaces outline samples evenly by arc length', () => {
+        const samples = sampleAlongPolylines(
+            [
+                {
+                    points: [
+                        { x: 0, y: 0 },
+                        { x: 4, y: 0 },
+                        { x: 4, y: 4 },
+                        { x: 0, y: 4 },
+                    ],
+                    closed: true,
+                },
+            ],
+            8,
+        );
+        expect(samples).toHaveLength(8);
+        expect(samples.slice(0, 3)).toEqual([
+            { x: 1, y: 0 },
+            { x: 3, y: 0 },
+            { x: 4, y: 1 },
+        ]);
+        expect(samples.at(-1)).toEqual({ x: 0, y: 1 });
+    });
+
+    it('samples inside a thresholded mask without exceeding the budget', () => {
+        // 10x10 image, dark square in the top-left 5x5 corner on a white background
+        const pixels = new Uint8ClampedArray(10 * 10 * 4).fill(255);
+        for (let y = 0; y < 5; y++) {
+            for (let x = 0; x < 5; x++) {
+                pixels.set([0, 0, 0, 255], (y * 10 + x) * 4);
+            }
+        }
+        const mask: ImportMask = createImageMask({ width: 10, height: 10, data: pixels }, 128);
+        expect(mask.data.reduce((sum, value) => sum + value, 0)).toBe(25);
+        expect(createImageMask({ width: 10, height: 10, data: pixels }, 128, true).data[99]).toBe(
+            1,
+        );
+
+        const samples = sampleInsideMask(mask, 4);
+        expect(samples.length).toBeGreaterThan(0);
+        expect(samples.length).toBeLessThanOrEqual(4);
+        expect(samples.every((point) => point.x <= 5 && point.y <= 5)).toBe(true);
+    });
+
+    it('fits points into bounds keeping their aspect ratio', () => {
+        const fitted = fitPointsToBounds(
+            [
+                { x: 0, y: 0 },
+                { x: 200, y: 100 },
+            ],
+            { xMin: -1, xMax: 1, yMin: -1, yMax: 1 },
+        );
+        expect(fitted.map((point) => ({ x: round(point.x), y: round(point.y) }))).toEqual([
+            { x: -0.9, y: -0.45 },
+            { x: 0.9, y: 0.45 },
+        ]);
+    });
+
+    it('shrinks the fit and drops samples no tile can reach', () => {
+        const profile = createProfile({
+            left: createTile('left', { x: { min: -1, max: -0.2 }, y: { min: -1, max: 1 } }),
+            right: createTile('right', { x: { min: 0.2, max: 1 }, y: { min: -1, max: 1 } }),
+        });
+        expect(getPatternImportBounds(profile)).toEqual({ xMin: -1, xMax: 1, yMin: -1, yMax: 1 });
+
+        const result = buildImportedPatternPoints(
+            [
+                { x: 0, y: 0 },
+                { x: 5, y: 0 },
+                { x: 10, y: 0 },
+            ],
+            profile,
+            (index) => `pt-${index}`,
+        );
+        // The middle sample sits in the gap between the tiles at every scale
+        expect(result.droppedCount).toBe(1);
+        expect(result.points.map((point) => point.id)).toEqual(['pt-0', 'pt-1']);
+        expect(result.points.map((point) => round(point.x))).toEqual([-0.9, 0.9]);
+    });
+});
@@ -0,0 +1,71 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import { layoutTextPattern, type TextPatternOptions } from '../patternText';
+
+const layout = (overrides: Partial<TextPatternOptions>) =>
+    layoutTextPattern({
+        text: 'HI',
+        font: 'stroke',
+        letterSpacing: 1,
+        pointsPerGlyph: 10,
+        budget: 100,
+        targetAspect: 2,
+        ...overrides,
+    });
+
+describe('patternText', () => {
+    it('samples the same number of points for every glyph', () => {
+        const result = layout({ text: 'hi' });
+        expect(result.lines).toEqual(['HI']);
+        expect(result.pointsPerGlyph).toBe(10);
+        expect(result.points).toHaveLength(20);
+        // The second glyph starts one advance (5 columns + spacing 1) to the right
+        expect(result.points.slice(10).every((point) => point.x >= 6)).toBe(true);
+    });
+
+    it('keeps adjacent glyphs apart at the minimum spacing', () => {
+        const { points } = layout({
+            text: 'HH',
+            font: 'dot-matrix',
+            letterSpacing: 0,
+            pointsPerGlyph: 50,
+        });
+        const keys = points.map((point) => `${point.x},${point.y}`);
+        expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    it('lowers the density so the text fits the budget', () => {
+        const result = layout({ text: 'HELLO', budget: 22, targetAspect: 5 });
+        expect(result.pointsPerGlyph).toBe(4);
+        expect(result.points).toHaveLength(20);
+        expect(result.truncated).toBe(false);
+
+        const cut = layout({ text: 'ABC', budget: 2 });
+        expect(cut.points).toHaveLength(2);
+        expect(cut.truncated).toBe(true);
+    });
+
+    it('uses every lit dot of a dot-matrix glyph up to the density', () => {
+        expect(layout({ text: 'I', font: 'dot-matrix', pointsPerGlyph: 50 }).points).toHaveLength(
+            11,
+        );
+        const sparse = layout({ text: 'I', font: 'dot-matrix', pointsPerGlyph: 3 }).points;
+        expect(sparse).toHaveLength(3);
+        // Farthest-point selection keeps the top and bottom bars
+        expect(Math.min(...sparse.map((point) => point.y))).toBe(0);
+        expect(Math.max(...sparse.map((point) => point.y))).toBe(6);
+    });
+
+    it('wraps words to match the target aspect ratio', () => {
+        expect(layout({ text: 'HELLO WORLD', targetAspect: 8 }).lines).toEqual(['HELLO WORLD']);
+        expect(layout({ text: 'HELLO WORLD', targetAspect: 1 }).lines).toEqual(['HELLO', 'WORLD']);
+        expect(layout({ text: 'AB\nC', targetAspect: 10 }).lines).toEqual(['AB', 'C']);
+    });
+
+    it('skips and reports characters without a glyph', () => {
+        const result = layout({ text: 'A€B' });
+        expect(result.unsupported).toEqual(['€']);
+        expect(result.lines).toEqual(['AB']);
+    });
+});
@@ -115,4 +115,21 @@ describe('PendingCommandTracker', () => {
             responses: [{ status: 'done' }],
         });
     });
+
+    test('reports in-flight commands per node', async () => {
+        const tracker = new PendingCommandTracker({
+            ackTimeoutMs: 10_000,
+            completionTimeoutMs: 10_000,
+        });
+
+        const promise = tracker.register('cmd-6', { mac: 'aa' });
+
+        expect(tracker.hasPendingForMac('aa')).toBe(true);
+        expect(tracker.hasPendingForMac('bb')).toBe(false);
+
+        tracker.handleResponse(createResponse('cmd-6', 'done'));
+        await promise;
+
+        expect(tracker.hasPendingForMac('aa')).toBe(false);
+    });
 });
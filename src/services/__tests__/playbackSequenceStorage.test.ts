@@ -4,6 +4,7 @@ import { describe, expect, it, vi } from 'vitest';
 import type { PlaybackSequence } from '@/types';
 
 import {
+    createSequenceEntry,
     loadPlaybackSequences,
     persistPlaybackSequences,
     removePlaybackSequence,
@@ -45,7 +46,12 @@ const createSequence = (overrides?: Partial<PlaybackSequence>): PlaybackSequence
     name: 'Sequence 1',
     createdAt: new Date('2025-01-01T00:00:00.000Z').toISOString(),
     updatedAt: new Date('2025-01-01T00:00:00.000Z').toISOString(),
-    patternIds: ['a', 'b', 'c'],
+    entries: [
+        createSequenceEntry('a'),
+        createSequenceEntry('b', { transition: 'wave', staggerMs: 200 }),
+        createSequenceEntry('c', { transition: 'morph', transitionMs: 1500, holdMs: 2000 }),
+    ],
+    loopMode: 'loop',
     ...overrides,
 });
 
@@ -77,7 +83,7 @@ describe('playbackSequenceStorage', () => {
                 version: 1,
                 sequences: [
                     createSequence({ id: 'valid', name: 'Valid' }),
-                    { id: '', name: 'bad', patternIds: ['a'] },
+                    { id: '', name: 'bad', entries: [createSequenceEntry('a')] },
                     { id: 'missing-patterns', name: 'Bad 2' },
                 ],
             }),
@@ -88,6 +94,41 @@ describe('playbackSequenceStorage', () => {
         expect(loaded[0].id).toBe('valid');
     });
 
+    it('migrates pattern id lists and repairs invalid timing', () => {
+        const storage = new MemoryStorage();
+        const { createdAt, updatedAt } = createSequence();
+        storage.setItem(
+            STORAGE_KEY,
+            JSON.stringify({
+                version: 1,
+                sequences: [
+                    { id: 'legacy', name: 'Legacy', createdAt, updatedAt, patternIds: ['a', ''] },
+                    {
+                        id: 'timed',
+                        name: 'Timed',
+                        createdAt,
+                        updatedAt,
+                        loopMode: 'sometimes',
+                        entries: [
+                            { patternId: 'a', transition: 'teleport', holdMs: -5 },
+                            { patternId: 'b', transition: 'morph', transitionMs: 1e9 },
+                            { transition: 'wave' },
+                        ],
+                    },
+                ],
+            }),
+        );
+
+        const [legacy, timed] = loadPlaybackSequences(storage);
+        expect(legacy.entries).toEqual([createSequenceEntry('a')]);
+        expect(legacy.loopMode).toBe('once');
+        expect(timed.loopMode).toBe('once');
+        expect(timed.entries).toEqual([
+            createSequenceEntry('a', { holdMs: 0 }),
+            createSequenceEntry('b', { transition: 'morph', transitionMs: 60_000 }),
+        ]);
+    });
+
     it('drops payloads on version mismatch or parse error', () => {
         const storage = new MemoryStorage();
         storage.setItem(
@@ -112,7 +153,7 @@ describe('playbackSequenceStorage', () => {
     it('upserts and removes sequences', () => {
         const storage = new MemoryStorage();
         const sequenceA = createSequence({ id: 'a' });
-        const sequenceB = createSequence({ id: 'b', name: 'Seq B', patternIds: [] });
+        const sequenceB = createSequence({ id: 'b', name: 'Seq B', entries: [] });
 
         const saved = upsertPlaybackSequence(storage, sequenceA);
         expect(saved).toHaveLength(1);
@@ -2,6 +2,7 @@
 import { describe, expect, it } from 'vitest';
 
 import { planProfilePlayback } from '../profilePlaybackPlanner';
+import { getThermalMotorKey } from '../thermalBudget';
 
 import type {
     CalibrationProfile,
@@ -188,6 +189,69 @@ describe('profilePlaybackPlanner', () => {
         expect(result.errors).toHaveLength(0);
     });
 
+    it('converts targets through the axis response model when present', () => {
+        const targetStepsX = (profile: CalibrationProfile, x: number) =>
+            planProfilePlayback({
+                gridSize: { rows: 1, cols: 1 },
+                mirrorConfig: buildMirrorConfig(1, 1),
+                profile,
+                pattern: createPattern([{ x, y: 0 }]),
+            }).playableAxisTargets.find((target) => target.axis === 'x')?.targetSteps;
+
+        const linear = createProfile(1, 1);
+        const saturating = createProfile(1, 1);
+        // Same slope as the linear ratio near home, flattening towards the limits
+        saturating.tiles['0-0'].axes.x.responseModel = {
+            kind: 'piecewise-linear',
+            points: [
+                { steps: -1_200, displacement: -0.9 },
+                { steps: -600, displacement: -0.6 },
+                { steps: 0, displacement: 0 },
+                { steps: 600, displacement: 0.6 },
+                { steps: 1_200, displacement: 0.9 },
+            ],
+        };
+
+        expect(targetStepsX(saturating, 0.3)).toBe(targetStepsX(linear, 0.3));
+        expect(targetStepsX(linear, 0.75)).toBe(750);
+        expect(targetStepsX(saturating, 0.75)).toBe(900);
+    });
+
+    it('assesses thermal budgets against live telemetry when provided', () => {
+        const mirrorConfig = buildMirrorConfig(gridSize.rows, gridSize.cols);
+        const profile = createProfile(gridSize.rows, gridSize.cols);
+        const pattern = createPattern([{ x: 0.2, y: -0.1 }]);
+
+        const withoutTelemetry = planProfilePlayback({ gridSize, mirrorConfig, profile, pattern });
+        expect(withoutTelemetry.thermal).toBeUndefined();
+
+        const telemetry = new Map(
+            withoutTelemetry.playableAxisTargets.map((target) => [
+                getThermalMotorKey(target.motor.nodeMac, target.motor.motorIndex),
+                {
+                    position: 0,
+                    budgetSeconds: 0,
+                    ttfcSeconds: 0,
+                    maxBudgetSeconds: null,
+                    defaultSpeedSps: 100,
+                    accelSps2: null,
+                    limitingEnabled: true,
+                },
+            ]),
+        );
+        const result = planProfilePlayback({
+            gridSize,
+            mirrorConfig,
+            profile,
+            pattern,
+            thermalTelemetry: telemetry,
+        });
+
+        expect(result.thermal?.status).toBe('delay');
+        expect(result.thermal?.motors).toHaveLength(2);
+        expect(result.errors).toHaveLength(0);
+    });
+
     it('flags targets that exceed calibrated bounds or missing motors', () => {
         const mirrorConfig = buildMirrorConfig(gridSize.rows, gridSize.cols, { missingY: true });
         const profile = createProfile(gridSize.rows, gridSize.cols);
@@ -348,6 +412,98 @@ describe('profilePlaybackPlanner', () => {
         expect(p1Assignment!.mirrorId).toBe('0-1'); // P1 forced to 0-1
     });
 
+    it('finds a complete assignment where nearest-first matching runs out of tiles', () => {
+        const profile = createProfile(1, 3);
+        profile.tiles['0-0'].combinedBounds = {
+            x: { min: -1, max: 0.9 },
+            y: { min: -0.1, max: 1 },
+        };
+        profile.tiles['0-1'].combinedBounds = {
+            x: { min: -1, max: 0.6 },
+            y: { min: -1, max: 1 },
+        };
+        profile.tiles['0-2'].combinedBounds = {
+            x: { min: 0.2, max: 1 },
+            y: { min: -1, max: 0.2 },
+        };
+
+        // Each point fits exactly two tiles; taking the nearest tile for pt-0 and
+        // pt-1 would leave pt-2 without one
+        const pattern = createPattern([
+            { x: 0, y: 0.5 },
+            { x: 0.8, y: 0 },
+            { x: 0.5, y: -0.5 },
+        ]);
+
+        const result = planProfilePlayback({
+            gridSize: { rows: 1, cols: 3 },
+            mirrorConfig: buildMirrorConfig(1, 3),
+            profile,
+            pattern,
+        });
+
+        expect(result.errors).toHaveLength(0);
+        const assignments = Object.fromEntries(
+            result.tiles.map((tile) => [tile.patternPointId, tile.mirrorId]),
+        );
+        expect(assignments).toEqual({ 'pt-0': '0-0', 'pt-1': '0-2', 'pt-2': '0-1' });
+    });
+
+    it('assigns points to minimise travel from the starting steps', () => {
+        const profile = createProfile(1, 2);
+        const pattern = createPattern([
+            { x: -0.5, y: 0 },
+            { x: 0.5, y: 0 },
+        ]);
+        const plan = (left: number, right: number) =>
+            planProfilePlayback({
+                gridSize: { rows: 1, cols: 2 },
+                mirrorConfig: buildMirrorConfig(1, 2),
+                profile,
+                pattern,
+                startSteps: new Map([
+                    [getThermalMotorKey('AA:BB:CC:DD:EE:FF', 0), left],
+                    [getThermalMotorKey('AA:BB:CC:DD:EE:FF', 1), right],
+                ]),
+            }).tiles.map((tile) => tile.patternPointId);
+
+        expect(plan(500, -500)).toEqual(['pt-1', 'pt-0']);
+        expect(plan(-500, 500)).toEqual(['pt-0', 'pt-1']);
+    });
+
+    it('keeps tiles on the nearest spot when transitioning from a previous plan', () => {
+        const profile = createProfile(1, 2);
+        const params = {
+            gridSize: { rows: 1, cols: 2 },
+            mirrorConfig: buildMirrorConfig(1, 2),
+            profile,
+        };
+        const previousPlan = planProfilePlayback({
+            ...params,
+            pattern: createPattern([
+                { x: -0.5, y: 0 },
+                { x: 0.5, y: 0 },
+            ]),
+            startSteps: new Map([
+                [getThermalMotorKey('AA:BB:CC:DD:EE:FF', 0), 500],
+                [getThermalMotorKey('AA:BB:CC:DD:EE:FF', 1), -500],
+            ]),
+        });
+        expect(previousPlan.tiles.map((tile) => tile.target?.x)).toEqual([0.5, -0.5]);
+
+        // Same shape listed in the opposite order, nudged along y
+        const next = planProfilePlayback({
+            ...params,
+            pattern: createPattern([
+                { x: 0.4, y: 0.1 },
+                { x: -0.4, y: 0.1 },
+            ]),
+            previousPlan,
+        });
+        expect(next.errors).toHaveLength(0);
+        expect(next.tiles.map((tile) => tile.target?.x)).toEqual([0.4, -0.4]);
+    });
+
     it('allows playback with mismatched grid size if tiles are available', () => {
         // Profile is 8x8
         const profile = createProfile(8, 8);
@@ -0,0 +1,64 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { clampFrameIndex, RecordedCameraSource, selectRecordingFiles } from '../recordedCamera';
+
+const file = (name: string, type = '') => new File([name], name, { type });
+
+describe('recordedCamera', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('picks a video file, or orders image frames numerically', () => {
+        const video = file('session.webm', 'video/webm');
+        expect(selectRecordingFiles([file('notes.txt'), video])).toEqual({
+            kind: 'video',
+            files: [video],
+        });
+
+        const frames = ['frame-10.png', 'frame-9.png', 'readme.md', 'frame-1.JPG'].map((name) =>
+            file(name),
+        );
+        expect(selectRecordingFiles(frames)?.files.map((entry) => entry.name)).toEqual([
+            'frame-1.JPG',
+            'frame-9.png',
+            'frame-10.png',
+        ]);
+        expect(selectRecordingFiles([file('readme.md')])).toBeNull();
+    });
+
+    it('clamps frame indices to the recording', () => {
+        expect(clampFrameIndex(-3, 10)).toBe(0);
+        expect(clampFrameIndex(4.6, 10)).toBe(5);
+        expect(clampFrameIndex(12, 10)).toBe(9);
+        expect(clampFrameIndex(0, 0)).toBe(0);
+    });
+
+    it('steps through image frames and reports the current frame', async () => {
+        const decoded: string[] = [];
+        vi.stubGlobal('createImageBitmap', async (blob: File) => {
+            decoded.push(blob.name);
+            return { width: 640, height: 480, close: vi.fn() };
+        });
+        const source = await RecordedCameraSource.load(
+            ['b-2.png', 'b-1.png', 'b-3.png'].map((name) => file(name, 'image/png')),
+        );
+        const listener = vi.fn();
+        source.subscribe(listener);
+
+        expect(source.kind).toBe('images');
+        expect([source.width, source.height]).toEqual([640, 480]);
+        expect(source.getState()).toMatchObject({ frameIndex: 0, frameCount: 3 });
+
+        await source.step(1);
+        await source.step(5);
+        expect(source.getState().frameIndex).toBe(2);
+        await source.seek(0);
+        expect(source.getState().frameIndex).toBe(0);
+        expect(listener).toHaveBeenCalledTimes(3);
+        // First frame is decoded once for the size and once for display
+        expect(decoded).toEqual(['b-1.png', 'b-1.png', 'b-2.png', 'b-3.png', 'b-1.png']);
+        source.dispose();
+    });
+});
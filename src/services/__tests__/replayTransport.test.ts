@@ -0,0 +1,72 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ReplayMqttTransport } from '../replayTransport';
+
+import type { SessionRecording } from '../sessionRecording';
+
+const recording: SessionRecording = {
+    version: 1,
+    recordedAt: '2025-01-01T00:00:00.000Z',
+    source: 'ws://broker:9001/',
+    entries: [
+        { offsetMs: 0, direction: 'in', topic: 'devices/a/config', payload: '{"speed":4000}' },
+        { offsetMs: 1_000, direction: 'out', topic: 'devices/a/cmd', payload: '{"cmd_id":"1"}' },
+        { offsetMs: 1_000, direction: 'in', topic: 'devices/a/cmd/resp', payload: '{}' },
+        { offsetMs: 3_000, direction: 'in', topic: 'devices/a/status', payload: '{}' },
+    ],
+};
+
+describe('ReplayMqttTransport', () => {
+    let topics: string[];
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        topics = [];
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('delivers entries at their recorded offsets', () => {
+        const transport = new ReplayMqttTransport(recording);
+        transport.connect((message) => topics.push(message.topic));
+
+        vi.advanceTimersByTime(0);
+        expect(topics).toEqual(['devices/a/config']);
+        vi.advanceTimersByTime(1_000);
+        expect(topics).toEqual(['devices/a/config', 'devices/a/cmd', 'devices/a/cmd/resp']);
+        expect(transport.getProgress()).toMatchObject({ position: 3, total: 4, finished: false });
+        vi.advanceTimersByTime(2_000);
+        expect(transport.getProgress()).toMatchObject({
+            position: 4,
+            offsetMs: 3_000,
+            durationMs: 3_000,
+            finished: true,
+        });
+        expect(transport.getRetainedMessages().map((message) => message.topic)).toEqual([
+            'devices/a/config',
+        ]);
+    });
+
+    it('plays faster when the speed changes mid-replay', () => {
+        const transport = new ReplayMqttTransport(recording);
+        transport.connect((message) => topics.push(message.topic));
+        vi.advanceTimersByTime(1_000);
+        transport.setSpeed(4);
+        vi.advanceTimersByTime(499);
+        expect(topics).toHaveLength(3);
+        vi.advanceTimersByTime(1);
+        expect(topics).toHaveLength(4);
+    });
+
+    it('stops delivering after disconnect', () => {
+        const transport = new ReplayMqttTransport(recording, { speed: 10 });
+        transport.connect((message) => topics.push(message.topic));
+        vi.advanceTimersByTime(0);
+        transport.disconnect();
+        vi.advanceTimersByTime(10_000);
+        expect(topics).toEqual(['devices/a/config']);
+    });
+});
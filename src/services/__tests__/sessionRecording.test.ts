@@ -0,0 +1,63 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import {
+    buildSessionFileName,
+    getSessionDurationMs,
+    parseSessionRecording,
+    serializeSessionRecording,
+    SessionRecorder,
+} from '../sessionRecording';
+
+describe('SessionRecorder', () => {
+    it('stores offsets from the start and decodes binary payloads', () => {
+        const recorder = new SessionRecorder('mock://localhost:9001/', 1_000);
+        recorder.record('in', 'devices/a/status', new TextEncoder().encode('{"x":1}'), 1_250);
+        recorder.record('out', 'devices/a/cmd', '{"action":"MOVE"}', 1_500);
+
+        const recording = recorder.finish();
+        expect(recorder.size).toBe(2);
+        expect(recording).toEqual({
+            version: 1,
+            recordedAt: new Date(1_000).toISOString(),
+            source: 'mock://localhost:9001/',
+            entries: [
+                { offsetMs: 250, direction: 'in', topic: 'devices/a/status', payload: '{"x":1}' },
+                {
+                    offsetMs: 500,
+                    direction: 'out',
+                    topic: 'devices/a/cmd',
+                    payload: '{"action":"MOVE"}',
+                },
+            ],
+        });
+        expect(getSessionDurationMs(recording)).toBe(500);
+        expect(buildSessionFileName(recording)).toBe(
+            'mirror-session-1970-01-01T00-00-01-000Z.json',
+        );
+    });
+});
+
+describe('parseSessionRecording', () => {
+    it('round-trips serialized recordings and sorts entries', () => {
+        const text = serializeSessionRecording({
+            version: 1,
+            recordedAt: '2025-01-01T00:00:00.000Z',
+            source: 'ws://broker:9001/',
+            entries: [
+                { offsetMs: 20, direction: 'in', topic: 'b', payload: '{}' },
+                { offsetMs: 10, direction: 'out', topic: 'a', payload: '{}' },
+            ],
+        });
+        expect(parseSessionRecording(text).entries.map((entry) => entry.topic)).toEqual(['a', 'b']);
+    });
+
+    it('rejects files that are not recordings', () => {
+        expect(() => parseSessionRecording('not json')).toThrow(/not valid JSON/);
+        expect(() => parseSessionRecording('{"version":2,"entries":[]}')).toThrow(/version/);
+        expect(() => parseSessionRecording('{"version":1}')).toThrow(/no message entries/);
+        expect(() => parseSessionRecording('{"version":1,"entries":[{"offsetMs":"x"}]}')).toThrow(
+            /malformed/,
+        );
+    });
+});
@@ -0,0 +1,146 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import { createSequenceEntry } from '../playbackSequenceStorage';
+import {
+    planShowTransition,
+    readTelemetryPositions,
+    recordKeyframePositions,
+    resolveShowKeyframes,
+} from '../showScheduler';
+import { getThermalMotorKey, type ThermalTelemetryIndex } from '../thermalBudget';
+
+import type { Axis, Pattern } from '../../types';
+import type { ProfilePlaybackAxisTarget } from '../profilePlaybackPlanner';
+
+const MAC = 'AA:BB:CC:DD:EE:FF';
+const gridSize = { rows: 1, cols: 2 };
+
+const createTarget = (
+    col: number,
+    axis: Axis,
+    targetSteps: number,
+    normalizedTarget = targetSteps / 1000,
+): ProfilePlaybackAxisTarget => {
+    const motor = { nodeMac: MAC, motorIndex: col * 2 + (axis === 'x' ? 0 : 1) };
+    return {
+        key: `0-${col}:${axis}:${MAC}:${motor.motorIndex}`,
+        mirrorId: `0-${col}`,
+        row: 0,
+        col,
+        axis,
+        motor,
+        patternPointId: `p-${col}`,
+        normalizedTarget,
+        targetSteps,
+    };
+};
+
+const targets = [
+    createTarget(0, 'x', 400),
+    createTarget(0, 'y', 200),
+    createTarget(1, 'x', -400),
+    createTarget(1, 'y', 0),
+];
+
+const homePositions = recordKeyframePositions(
+    new Map(),
+    targets.map((target) => ({ ...target, targetSteps: 0, normalizedTarget: 0 })),
+);
+
+describe('showScheduler', () => {
+    it('pairs entries with patterns and skips missing ones', () => {
+        const pattern: Pattern = {
+            id: 'a',
+            name: 'A',
+            createdAt: '',
+            updatedAt: '',
+            points: [],
+        };
+        const keyframes = resolveShowKeyframes(
+            [createSequenceEntry('a'), createSequenceEntry('gone')],
+            new Map([['a', pattern]]),
+        );
+        expect(keyframes).toEqual([{ entry: createSequenceEntry('a'), pattern }]);
+    });
+
+    it('moves directly without planning a segment', () => {
+        const plan = planShowTransition({
+            entry: createSequenceEntry('a'),
+            targets,
+            positions: homePositions,
+            gridSize,
+        });
+        expect(plan.transition).toBe('direct');
+        expect(plan.segment).toBeNull();
+        expect(plan.fellBack).toBe(false);
+    });
+
+    it('morphs every axis so all mirrors arrive together', () => {
+        const plan = planShowTransition({
+            entry: createSequenceEntry('a', { transition: 'morph', transitionMs: 250 }),
+            targets,
+            positions: homePositions,
+            gridSize,
+        });
+        const moves = plan.segment?.subSteps.flatMap((step) => step.axisMoves) ?? [];
+
+        // The y axis of 0-1 is already in place
+        expect(moves).toHaveLength(3);
+        const speeds = Object.fromEntries(moves.map((move) => [move.key, move.speedSps]));
+        // Cruise speeds leave room for the accel ramps inside the 250 ms window
+        expect(speeds[targets[0].key]).toBe(2211);
+        expect(speeds[targets[1].key]).toBe(1067);
+        expect(speeds[targets[2].key]).toBe(2211);
+        expect(moves.find((move) => move.key === targets[0].key)?.normalizedTarget).toBe(0.4);
+        expect(plan.mirrorStartMs.size).toBe(0);
+    });
+
+    it('staggers wave starts in grid order', () => {
+        const plan = planShowTransition({
+            entry: createSequenceEntry('a', {
+                transition: 'wave',
+                transitionMs: 1000,
+                staggerMs: 250,
+            }),
+            targets,
+            positions: homePositions,
+            gridSize,
+        });
+        expect(plan.mirrorStartMs).toEqual(
+            new Map([
+                ['0-0', 0],
+                ['0-1', 250],
+            ]),
+        );
+        expect(plan.durationMs).toBe(250 + (plan.segment?.durationMs ?? 0));
+    });
+
+    it('falls back to a direct move when a position is unknown', () => {
+        const telemetry: ThermalTelemetryIndex = new Map([
+            [
+                getThermalMotorKey(MAC, 0),
+                {
+                    position: 100,
+                    budgetSeconds: 60,
+                    ttfcSeconds: 0,
+                    maxBudgetSeconds: null,
+                    defaultSpeedSps: null,
+                    accelSps2: null,
+                    limitingEnabled: true,
+                },
+            ],
+        ]);
+        const positions = readTelemetryPositions(telemetry);
+        expect(positions.get(getThermalMotorKey(MAC, 0))).toEqual({ steps: 100 });
+
+        const plan = planShowTransition({
+            entry: createSequenceEntry('a', { transition: 'morph' }),
+            targets,
+            positions,
+            gridSize,
+        });
+        expect(plan.transition).toBe('direct');
+        expect(plan.fellBack).toBe(true);
+    });
+});
@@ -1,7 +1,7 @@
 // @vitest-environment node
 import { describe, expect, it } from 'vitest';
 
-import { parseStatusMessage } from '../statusParser';
+import { parseConfigMessage, parseStatusMessage } from '../statusParser';
 
 const encode = (value: unknown): Uint8Array => new TextEncoder().encode(JSON.stringify(value));
 
@@ -148,3 +148,52 @@ describe('parseStatusMessage', () => {
         expect(result.value.motors['0'].actualMs).toBe(487);
     });
 });
+
+describe('parseConfigMessage', () => {
+    it('parses a retained config payload', () => {
+        const payload = {
+            thermal_limiting: 'ON',
+            max_budget_s: 90,
+            microstep: '1/16',
+            microstep_mult: 16,
+            speed: 4000,
+            accel: 16000,
+            decel: 12000,
+        };
+        const result = parseConfigMessage('devices/a1b2c3d4e5f6/config', encode(payload));
+        expect(result.ok).toBe(true);
+        if (!result.ok) {
+            return;
+        }
+        expect(result.value).toMatchObject({
+            mac: 'A1B2C3D4E5F6',
+            topicMac: 'a1b2c3d4e5f6',
+            thermalLimiting: 'ON',
+            maxBudgetSeconds: 90,
+            microstep: '1/16',
+            microstepMultiplier: 16,
+            speed: 4000,
+            accel: 16000,
+            decel: 12000,
+        });
+    });
+
+    it('rejects status topics', () => {
+        const result = parseConfigMessage('devices/abc/status', encode({ microstep: 'FULL' }));
+        expect(result.ok).toBe(false);
+        if (result.ok) {
+            return;
+        }
+        expect(result.error.reason).toBe('topic');
+    });
+
+    it('fails when microstep is missing', () => {
+        const result = parseConfigMessage('devices/abc/config', encode({ speed: 4000 }));
+        expect(result.ok).toBe(false);
+        if (result.ok) {
+            return;
+        }
+        expect(result.error.reason).toBe('schema');
+        expect(result.error.message).toContain('microstep');
+    });
+});
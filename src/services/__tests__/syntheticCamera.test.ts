@@ -0,0 +1,160 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_CALIBRATION_RUNNER_SETTINGS } from '@/constants/calibration';
+import type { MirrorConfig, Motor } from '@/types';
+
+import { evaluateStepResponse } from '../calibration/math/stepResponseModel';
+import { CalibrationExecutor } from '../calibration/script/executor';
+import { calibrationScript } from '../calibration/script/script';
+import {
+    computeSyntheticBlobs,
+    createSyntheticCameraAdapter,
+    createSyntheticCameraModel,
+    selectSyntheticBlob,
+    type MotorPositionReader,
+} from '../syntheticCamera';
+
+import type { ClockAdapter, MotorAdapter } from '../calibration/script/commands';
+
+const MAC = 'AA:11:BB:22:CC:33';
+
+const motor = (motorIndex: number): Motor => ({ nodeMac: MAC, motorIndex });
+
+const createMirrorConfig = (): MirrorConfig =>
+    new Map([
+        ['0-0', { x: motor(0), y: motor(1) }],
+        ['0-1', { x: motor(2), y: motor(3) }],
+        ['1-0', { x: motor(4), y: motor(5) }],
+        ['1-1', { x: motor(6), y: motor(7) }],
+    ]);
+
+/** Motor adapter that keeps the commanded positions, like the mock transport. */
+const createPositionMotorAdapter = (): MotorAdapter & { readPosition: MotorPositionReader } => {
+    const positions = new Map<string, number>();
+    const key = (mac: string, motorId: number) => `${mac}#${motorId}`;
+    return {
+        readPosition: (mac, motorId) => positions.get(key(mac, motorId)) ?? 0,
+        async homeAll() {
+            positions.clear();
+        },
+        async homeTile(xMotor, yMotor) {
+            for (const entry of [xMotor, yMotor]) {
+                if (entry) positions.set(key(entry.nodeMac, entry.motorIndex), 0);
+            }
+        },
+        async moveMotor(mac, motorId, positionSteps) {
+            positions.set(key(mac, motorId), positionSteps);
+        },
+    };
+};
+
+const createInstantClock = (): ClockAdapter => {
+    let time = 0;
+    return {
+        async delay(ms, signal) {
+            if (signal?.aborted) throw new Error('Aborted');
+            time += ms;
+        },
+        now: () => time,
+    };
+};
+
+describe('syntheticCamera', () => {
+    it('moves each reflection by its motors and drops those outside the frame', () => {
+        const model = createSyntheticCameraModel({ rows: 1, cols: 2 }, createMirrorConfig(), {
+            pitch: 0.5,
+            homeJitter: 0,
+            noise: 0,
+            stepToDisplacement: { x: -0.001, y: 0.001 },
+        });
+        const positions: Record<number, number> = { 0: 100, 1: -50, 2: -2000 };
+        const blobs = computeSyntheticBlobs(model, (_mac, motorId) => positions[motorId] ?? null);
+
+        expect(blobs).toHaveLength(1);
+        expect(blobs[0].x).toBeCloseTo(-0.35);
+        expect(blobs[0].y).toBeCloseTo(-0.05);
+    });
+
+    it('selects blobs the way the camera pipeline does', () => {
+        const blobs = [
+            { x: -0.5, y: 0, size: 0.04 },
+            { x: 0.5, y: 0, size: 0.04 },
+        ];
+        expect(selectSyntheticBlob(blobs, {})).toBe(blobs[1]);
+        expect(selectSyntheticBlob(blobs, { expectedPosition: { x: 0.3, y: 0.5 } })).toBe(blobs[0]);
+        expect(
+            selectSyntheticBlob(blobs, { expectedPosition: { x: 0.5, y: 0.9 }, maxDistance: 0.1 }),
+        ).toBeNull();
+    });
+
+    const runSyntheticCalibration = async (
+        settings: Partial<typeof DEFAULT_CALIBRATION_RUNNER_SETTINGS> = {},
+    ) => {
+        const mirrorConfig = createMirrorConfig();
+        const gridSize = { rows: 2, cols: 2 };
+        // Noise-free so recovered values can be compared tightly
+        const model = createSyntheticCameraModel(gridSize, mirrorConfig, { seed: 3, noise: 0 });
+        const motorAdapter = createPositionMotorAdapter();
+        const executor = new CalibrationExecutor(
+            {
+                gridSize,
+                mirrorConfig,
+                settings: {
+                    ...DEFAULT_CALIBRATION_RUNNER_SETTINGS,
+                    deltaSteps: 600,
+                    retryDelayMs: 0,
+                    ...settings,
+                },
+                arrayRotation: 0,
+                stagingPosition: 'corner',
+                // Left edge on the first tile, as the operator frames a real array
+                roi: { enabled: true, x: 0.42, y: 0.4, width: 0.2, height: 0.2 },
+                mode: 'auto',
+            },
+            {
+                motor: motorAdapter,
+                camera: createSyntheticCameraAdapter({
+                    model,
+                    readPosition: motorAdapter.readPosition,
+                }),
+                clock: createInstantClock(),
+            },
+            {},
+        );
+
+        await executor.run(calibrationScript);
+        return { model, state: executor.getState() };
+    };
+
+    it('lets a full calibration run recover the ground truth', async () => {
+        const { model, state } = await runSyntheticCalibration();
+
+        expect(state.phase).toBe('completed');
+        for (const truth of model.tiles) {
+            const tile = state.summary?.tiles[`${truth.row}-${truth.col}`];
+            expect(tile?.status).toBe('completed');
+            expect(tile?.homeMeasurement?.x).toBeCloseTo(truth.home.x, 2);
+            expect(tile?.homeMeasurement?.y).toBeCloseTo(truth.home.y, 2);
+            expect(tile?.stepToDisplacement?.x).toBeCloseTo(truth.stepToDisplacement.x, 5);
+            expect(tile?.stepToDisplacement?.y).toBeCloseTo(truth.stepToDisplacement.y, 5);
+            expect(tile?.stepResponse).toBeUndefined();
+        }
+    });
+
+    it('fits a response model per axis when extended sampling is enabled', async () => {
+        const { model, state } = await runSyntheticCalibration({ stepResponseSamples: 2 });
+
+        expect(state.phase).toBe('completed');
+        for (const truth of model.tiles) {
+            const tile = state.summary?.tiles[`${truth.row}-${truth.col}`];
+            const responseX = tile?.stepResponse?.x;
+            expect(responseX).toBeTruthy();
+            // The synthetic mount is linear, so the curve follows the true ratio
+            expect(evaluateStepResponse(responseX!, -600)).toBeCloseTo(
+                -600 * truth.stepToDisplacement.x,
+                4,
+            );
+        }
+    });
+});
@@ -0,0 +1,162 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import {
+    assessThermalBudget,
+    buildThermalTelemetryIndex,
+    estimateMoveSeconds,
+    getThermalMotorKey,
+    type MotorThermalTelemetry,
+    type ThermalTelemetryIndex,
+} from '../thermalBudget';
+
+import type { NormalizedConfigMessage, NormalizedStatusMessage } from '../statusParser';
+
+const MAC = 'AA:11:BB:22:CC:33';
+
+const createTelemetry = (
+    overrides: Partial<MotorThermalTelemetry> = {},
+): MotorThermalTelemetry => ({
+    position: 0,
+    budgetSeconds: 90,
+    ttfcSeconds: 0,
+    maxBudgetSeconds: 90,
+    defaultSpeedSps: 1000,
+    accelSps2: null,
+    limitingEnabled: true,
+    ...overrides,
+});
+
+const indexOf = (entries: Array<[number, Partial<MotorThermalTelemetry>]>): ThermalTelemetryIndex =>
+    new Map(
+        entries.map(([motorId, overrides]) => [
+            getThermalMotorKey(MAC, motorId),
+            createTelemetry(overrides),
+        ]),
+    );
+
+describe('estimateMoveSeconds', () => {
+    it('uses constant speed when acceleration is unknown', () => {
+        expect(estimateMoveSeconds(2000, 1000)).toBe(2);
+        expect(estimateMoveSeconds(-500, 1000)).toBe(0.5);
+        expect(estimateMoveSeconds(0, 1000)).toBe(0);
+    });
+
+    it('adds ramp time for trapezoidal and triangular profiles', () => {
+        // 1000 sps at 1000 sps² ramps over 1000 steps: 2 s of ramps + 1 s cruise
+        expect(estimateMoveSeconds(2000, 1000, 1000)).toBeCloseTo(3);
+        // Never reaches cruise speed
+        expect(estimateMoveSeconds(100, 1000, 1000)).toBeCloseTo(2 * Math.sqrt(0.1));
+    });
+});
+
+describe('buildThermalTelemetryIndex', () => {
+    it('merges status budgets with config limits', () => {
+        const snapshot = {
+            mac: MAC,
+            topicMac: MAC,
+            nodeState: 'ready',
+            motors: {
+                '0': { id: 0, position: 120, budgetSeconds: 12.5, ttfcSeconds: 30 },
+            },
+            raw: {},
+        } as unknown as NormalizedStatusMessage;
+        const config = {
+            thermalLimiting: 'OFF',
+            maxBudgetSeconds: 90,
+            speed: 4000,
+            accel: 16000,
+        } as NormalizedConfigMessage;
+
+        const index = buildThermalTelemetryIndex([{ topicMac: MAC, snapshot, config }]);
+
+        expect(index.get(getThermalMotorKey(MAC, 0))).toEqual({
+            position: 120,
+            budgetSeconds: 12.5,
+            ttfcSeconds: 30,
+            maxBudgetSeconds: 90,
+            defaultSpeedSps: 4000,
+            accelSps2: 16000,
+            limitingEnabled: false,
+        });
+    });
+});
+
+describe('assessThermalBudget', () => {
+    it('is ok when budgets cover the plan with reserve to spare', () => {
+        const result = assessThermalBudget(
+            [{ mac: MAC, motorId: 0, targetSteps: 1000 }],
+            indexOf([[0, {}]]),
+        );
+        expect(result.status).toBe('ok');
+        expect(result.motors[0].requiredSeconds).toBe(1);
+    });
+
+    it('sums moves per motor and measures from the live position', () => {
+        const result = assessThermalBudget(
+            [
+                { mac: MAC, motorId: 0, targetSteps: 1000 },
+                { mac: MAC, motorId: 0, targetSteps: -1000, speedSps: 2000 },
+            ],
+            indexOf([[0, { position: 500 }]]),
+        );
+        // 500 steps @ 1000 sps + 2000 steps @ 2000 sps
+        expect(result.motors[0].requiredSeconds).toBeCloseTo(1.5);
+    });
+
+    it('warns when the remaining budget drops below the reserve', () => {
+        const result = assessThermalBudget(
+            [{ mac: MAC, motorId: 0, targetSteps: 1000 }],
+            indexOf([[0, { budgetSeconds: 10 }]]),
+        );
+        expect(result.status).toBe('warn');
+        expect(result.blockedKeys.size).toBe(0);
+    });
+
+    it('delays motors until the budget recovers', () => {
+        const result = assessThermalBudget(
+            [{ mac: MAC, motorId: 0, targetSteps: 2000 }],
+            // 80 s to recover 90 s of budget -> 1.125 s/s
+            indexOf([[0, { budgetSeconds: 0, ttfcSeconds: 80 }]]),
+        );
+        expect(result.status).toBe('delay');
+        expect(result.waitMs).toBe(Math.ceil((2 / 1.125) * 1000));
+    });
+
+    it('blocks motors whose request exceeds the max budget or needs too long a cooldown', () => {
+        const result = assessThermalBudget(
+            [
+                { mac: MAC, motorId: 0, targetSteps: 1000, speedSps: 10 },
+                { mac: MAC, motorId: 1, targetSteps: 1000, speedSps: 20 },
+            ],
+            indexOf([
+                [0, {}],
+                [1, { budgetSeconds: 0, ttfcSeconds: 900 }],
+            ]),
+            { maxDelayMs: 10_000 },
+        );
+        expect(result.status).toBe('block');
+        expect(result.motors.map((motor) => motor.errorCode)).toEqual(['E10', 'E11']);
+        expect(result.blockedKeys).toEqual(
+            new Set([getThermalMotorKey(MAC, 0), getThermalMotorKey(MAC, 1)]),
+        );
+    });
+
+    it('downgrades to warnings when thermal limiting is off', () => {
+        const result = assessThermalBudget(
+            [{ mac: MAC, motorId: 0, targetSteps: 1000 }],
+            indexOf([[0, { budgetSeconds: 0, limitingEnabled: false }]]),
+        );
+        expect(result.status).toBe('warn');
+        expect(result.waitMs).toBe(0);
+    });
+
+    it('skips motors without telemetry', () => {
+        const result = assessThermalBudget(
+            [{ mac: MAC, motorId: 4, targetSteps: 1000 }],
+            new Map(),
+        );
+        expect(result.status).toBe('ok');
+        expect(result.motors[0].budgetSeconds).toBeNull();
+    });
+});
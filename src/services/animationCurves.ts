@@ -0,0 +1,375 @@
+/**
+ * Animation Curves Module
+ *
+ * Evaluates the curve joining consecutive waypoints of an animation path
+ * (polyline, Catmull-Rom, cubic bezier or circular arc) and samples it for the
+ * planner, bounds validation and the editor. Positions along curved segments
+ * are arc-length parameterised so equal progress covers equal distance.
+ */
+
+import type {
+    AnimationCurveType,
+    AnimationPath,
+    AnimationWaypoint,
+    AnimationPathCurve,
+} from '@/types/animation';
+import {
+    DEFAULT_CURVE_RESOLUTION,
+    MAX_CURVE_RESOLUTION,
+    MIN_CURVE_RESOLUTION,
+} from '@/types/animation';
+
+import { createWaypointId } from './animationStorage';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+/**
+ * A point on the sampled path. Waypoints keep their own id; interior samples
+ * reference the waypoint their segment starts from.
+ */
+export interface CurveSample extends Point {
+    id: string;
+    /** Waypoint the sample belongs to (segment start for interior samples) */
+    waypointId: string;
+    segmentIndex: number;
+    /** True for interior samples, false for the waypoints themselves */
+    interior: boolean;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const CURVE_LABELS: Record<AnimationCurveType, string> = {
+    polyline: 'Straight',
+    'catmull-rom': 'Spline',
+    bezier: 'Bezier',
+    arc: 'Arc',
+};
+
+/** Samples used to build the arc-length table of one segment. */
+const ARC_LENGTH_SAMPLES = 32;
+
+const CLOSED_EPSILON = 1e-9;
+const COLLINEAR_EPSILON = 1e-9;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const lerp = (from: Point, to: Point, t: number): Point => ({
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+});
+
+const distance = (a: Point, b: Point): number => Math.hypot(b.x - a.x, b.y - a.y);
+
+/**
+ * True when the curve joins consecutive waypoints with anything but straight lines.
+ */
+export const isCurvedPath = (path: AnimationPath): boolean =>
+    Boolean(path.curve) && path.curve!.type !== 'polyline';
+
+/**
+ * Samples per segment for a path; 1 for straight paths.
+ */
+export const resolveCurveResolution = (path: AnimationPath): number => {
+    if (!isCurvedPath(path)) return 1;
+    const requested = path.curve?.resolution ?? DEFAULT_CURVE_RESOLUTION;
+    return Math.max(MIN_CURVE_RESOLUTION, Math.min(MAX_CURVE_RESOLUTION, Math.round(requested)));
+};
+
+/**
+ * Closed paths end on their first waypoint; neighbours then wrap around.
+ */
+const isClosedPath = (waypoints: AnimationWaypoint[]): boolean => {
+    if (waypoints.length < 3) return false;
+    const first = waypoints[0];
+    const last = waypoints[waypoints.length - 1];
+    return distance(first, last) < CLOSED_EPSILON;
+};
+
+/**
+ * Waypoint at an index, wrapping on closed paths and clamping otherwise.
+ * Returns null past the ends of an open path.
+ */
+const neighbourAt = (waypoints: AnimationWaypoint[], index: number): AnimationWaypoint | null => {
+    if (isClosedPath(waypoints)) {
+        const unique = waypoints.length - 1;
+        return waypoints[((index % unique) + unique) % unique];
+    }
+    return waypoints[index] ?? null;
+};
+
+// =============================================================================
+// CURVE EVALUATION
+// =============================================================================
+
+const evaluateCatmullRom = (p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point => {
+    const t2 = t * t;
+    const t3 = t2 * t;
+    const axis = (a: number, b: number, c: number, d: number): number =>
+        0.5 *
+        (2 * b + (-a + c) * t + (2 * a - 5 * b + 4 * c - d) * t2 + (-a + 3 * b - 3 * c + d) * t3);
+    return { x: axis(p0.x, p1.x, p2.x, p3.x), y: axis(p0.y, p1.y, p2.y, p3.y) };
+};
+
+const evaluateCubic = (p0: Point, c0: Point, c1: Point, p1: Point, t: number): Point => {
+    const inv = 1 - t;
+    const a = inv * inv * inv;
+    const b = 3 * inv * inv * t;
+    const c = 3 * inv * t * t;
+    const d = t * t * t;
+    return {
+        x: a * p0.x + b * c0.x + c * c1.x + d * p1.x,
+        y: a * p0.y + b * c0.y + c * c1.y + d * p1.y,
+    };
+};
+
+/**
+ * Default bezier handle: the Catmull-Rom tangent, so unedited bezier paths
+ * match the spline.
+ */
+const defaultHandle = (prev: Point, next: Point, sign: 1 | -1): Point => ({
+    x: (sign * (next.x - prev.x)) / 6,
+    y: (sign * (next.y - prev.y)) / 6,
+});
+
+/**
+ * Effective bezier handles of a waypoint (offsets from the waypoint). Missing
+ * handles fall back to the spline tangent; path ends have no outer handle.
+ */
+export const getBezierHandles = (
+    waypoints: AnimationWaypoint[],
+    index: number,
+): { handleIn: Point | null; handleOut: Point | null } => {
+    const waypoint = waypoints[index];
+    const prev = neighbourAt(waypoints, index - 1);
+    const next = neighbourAt(waypoints, index + 1);
+    return {
+        handleIn: prev ? (waypoint.handleIn ?? defaultHandle(prev, next ?? waypoint, -1)) : null,
+        handleOut: next ? (waypoint.handleOut ?? defaultHandle(prev ?? waypoint, next, 1)) : null,
+    };
+};
+
+/**
+ * Circle through three points, or null when they are (nearly) collinear.
+ */
+const circumcircle = (a: Point, b: Point, c: Point): { center: Point; radius: number } | null => {
+    const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+    if (Math.abs(d) < COLLINEAR_EPSILON) return null;
+    const a2 = a.x * a.x + a.y * a.y;
+    const b2 = b.x * b.x + b.y * b.y;
+    const c2 = c.x * c.x + c.y * c.y;
+    const center = {
+        x: (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d,
+        y: (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d,
+    };
+    return { center, radius: distance(center, a) };
+};
+
+const normalizeAngle = (angle: number): number => {
+    const full = Math.PI * 2;
+    return ((angle % full) + full) % full;
+};
+
+/**
+ * Arc from `from` to `to` on the circle through `third`, taking the side that
+ * does not pass through `third`. Falls back to a straight line when collinear.
+ */
+const evaluateArc = (from: Point, to: Point, third: Point | null, t: number): Point => {
+    const circle = third ? circumcircle(from, to, third) : null;
+    if (!circle) return lerp(from, to, t);
+
+    const { center, radius } = circle;
+    const startAngle = Math.atan2(from.y - center.y, from.x - center.x);
+    const endAngle = Math.atan2(to.y - center.y, to.x - center.x);
+    const thirdAngle = Math.atan2(third!.y - center.y, third!.x - center.x);
+
+    const ccwSweep = normalizeAngle(endAngle - startAngle);
+    const thirdOnCcwSide = normalizeAngle(thirdAngle - startAngle) < ccwSweep;
+    const sweep = thirdOnCcwSide ? ccwSweep - Math.PI * 2 : ccwSweep;
+    const angle = startAngle + sweep * t;
+    return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+};
+
+/**
+ * Point on a segment at raw curve parameter t in [0, 1] (not arc-length).
+ */
+export const evaluateSegmentPoint = (
+    path: AnimationPath,
+    segmentIndex: number,
+    t: number,
+): Point => {
+    const { waypoints } = path;
+    const from = waypoints[segmentIndex];
+    const to = waypoints[segmentIndex + 1];
+    const type = path.curve?.type ?? 'polyline';
+
+    if (type === 'polyline') {
+        return lerp(from, to, t);
+    }
+
+    const prev = neighbourAt(waypoints, segmentIndex - 1) ?? from;
+    const next = neighbourAt(waypoints, segmentIndex + 2) ?? to;
+
+    if (type === 'catmull-rom') {
+        return evaluateCatmullRom(prev, from, to, next, t);
+    }
+
+    if (type === 'bezier') {
+        const out = getBezierHandles(waypoints, segmentIndex).handleOut ?? { x: 0, y: 0 };
+        const inHandle = getBezierHandles(waypoints, segmentIndex + 1).handleIn ?? { x: 0, y: 0 };
+        return evaluateCubic(
+            from,
+            { x: from.x + out.x, y: from.y + out.y },
+            { x: to.x + inHandle.x, y: to.y + inHandle.y },
+            to,
+            t,
+        );
+    }
+
+    const third =
+        neighbourAt(waypoints, segmentIndex + 2) ?? neighbourAt(waypoints, segmentIndex - 1);
+    return evaluateArc(from, to, third, t);
+};
+
+/**
+ * Point on a segment at progress in [0, 1] of its length. Straight segments
+ * extrapolate so overshooting easing still works; curves clamp to the segment.
+ */
+export const pointAtSegmentProgress = (
+    path: AnimationPath,
+    segmentIndex: number,
+    progress: number,
+): Point => {
+    if (!isCurvedPath(path)) {
+        return lerp(path.waypoints[segmentIndex], path.waypoints[segmentIndex + 1], progress);
+    }
+
+    const clamped = Math.max(0, Math.min(1, progress));
+    if (clamped === 0 || clamped === 1) {
+        return evaluateSegmentPoint(path, segmentIndex, clamped);
+    }
+
+    const lengths = [0];
+    let previous = evaluateSegmentPoint(path, segmentIndex, 0);
+    for (let i = 1; i <= ARC_LENGTH_SAMPLES; i++) {
+        const point = evaluateSegmentPoint(path, segmentIndex, i / ARC_LENGTH_SAMPLES);
+        lengths.push(lengths[i - 1] + distance(previous, point));
+        previous = point;
+    }
+
+    const total = lengths[ARC_LENGTH_SAMPLES];
+    if (total === 0) {
+        return evaluateSegmentPoint(path, segmentIndex, clamped);
+    }
+
+    const target = clamped * total;
+    let index = 1;
+    while (index < ARC_LENGTH_SAMPLES && lengths[index] < target) {
+        index += 1;
+    }
+    const span = lengths[index] - lengths[index - 1];
+    const fraction = span > 0 ? (target - lengths[index - 1]) / span : 0;
+    return evaluateSegmentPoint(path, segmentIndex, (index - 1 + fraction) / ARC_LENGTH_SAMPLES);
+};
+
+/**
+ * Sample the whole path: every waypoint plus `resolution - 1` interior samples
+ * per curved segment.
+ */
+export const sampleAnimationPath = (path: AnimationPath, resolution?: number): CurveSample[] => {
+    const { waypoints } = path;
+    const count = resolution ?? resolveCurveResolution(path);
+    const samples: CurveSample[] = [];
+
+    waypoints.forEach((waypoint, index) => {
+        samples.push({
+            id: waypoint.id,
+            x: waypoint.x,
+            y: waypoint.y,
+            waypointId: waypoint.id,
+            segmentIndex: index,
+            interior: false,
+        });
+        if (index === waypoints.length - 1 || !isCurvedPath(path)) return;
+        for (let k = 1; k < count; k++) {
+            const point = pointAtSegmentProgress(path, index, k / count);
+            samples.push({
+                id: `${waypoint.id}@${k}`,
+                ...point,
+                waypointId: waypoint.id,
+                segmentIndex: index,
+                interior: true,
+            });
+        }
+    });
+
+    return samples;
+};
+
+// =============================================================================
+// PRIMITIVES
+// =============================================================================
+
+export interface ArcPrimitiveParams {
+    center: Point;
+    radius: number;
+    /** Start angle in degrees (0 = +x, counterclockwise positive) */
+    startDeg: number;
+    /** Sweep in degrees; negative sweeps run clockwise */
+    sweepDeg: number;
+    /** Number of waypoints along the arc (at least 3) */
+    count?: number;
+}
+
+/**
+ * Waypoints on a circular arc, for use with the `arc` curve.
+ */
+export const createArcWaypoints = ({
+    center,
+    radius,
+    startDeg,
+    sweepDeg,
+    count = 5,
+}: ArcPrimitiveParams): AnimationWaypoint[] => {
+    const points = Math.max(3, Math.round(count));
+    return Array.from({ length: points }, (_, i) => {
+        const angle = ((startDeg + (sweepDeg * i) / (points - 1)) * Math.PI) / 180;
+        return {
+            id: createWaypointId(),
+            x: center.x + radius * Math.cos(angle),
+            y: center.y + radius * Math.sin(angle),
+        };
+    });
+};
+
+/**
+ * Closed circle: `count` waypoints plus a final waypoint back on the first.
+ */
+export const createCircleWaypoints = (
+    center: Point,
+    radius: number,
+    count = 4,
+): AnimationWaypoint[] => {
+    const points = Math.max(3, Math.round(count));
+    const waypoints = createArcWaypoints({
+        center,
+        radius,
+        startDeg: 0,
+        sweepDeg: 360 - 360 / points,
+        count: points,
+    });
+    return [...waypoints, { ...waypoints[0], id: createWaypointId() }];
+};
+
+/** Curve settings used for generated circles and arcs. */
+export const ARC_CURVE: AnimationPathCurve = { type: 'arc' };
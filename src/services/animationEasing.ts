@@ -0,0 +1,136 @@
+/**
+ * Animation Easing Module
+ *
+ * Maps linear segment progress to eased progress for animation paths. Cubic
+ * bezier curves follow the CSS `cubic-bezier()` convention: the curve runs from
+ * (0, 0) to (1, 1), x is time and y is progress.
+ */
+
+import type { AnimationEasing, AnimationEasingType } from '@/types/animation';
+
+// =============================================================================
+// PRESETS
+// =============================================================================
+
+export const LINEAR_EASING: AnimationEasing = { type: 'linear' };
+
+/** Control points used for `ease-in-out` (same as CSS). */
+export const EASE_IN_OUT_CONTROL_POINTS = { x1: 0.42, y1: 0, x2: 0.58, y2: 1 } as const;
+
+export const EASING_LABELS: Record<AnimationEasingType, string> = {
+    linear: 'Linear',
+    'ease-in-out': 'Ease in-out',
+    'cubic-bezier': 'Cubic bezier',
+};
+
+/**
+ * Default easing for a type; cubic bezier starts from the ease-in-out curve.
+ */
+export const createEasing = (type: AnimationEasingType): AnimationEasing => {
+    if (type === 'cubic-bezier') {
+        return { type, ...EASE_IN_OUT_CONTROL_POINTS };
+    }
+    return { type };
+};
+
+/**
+ * True when the easing keeps a constant speed, so segments need no subdivision.
+ */
+export const isLinearEasing = (easing: AnimationEasing | undefined): boolean =>
+    !easing || easing.type === 'linear';
+
+// =============================================================================
+// CUBIC BEZIER
+// =============================================================================
+
+const NEWTON_ITERATIONS = 8;
+const BISECTION_ITERATIONS = 30;
+const SOLVE_EPSILON = 1e-6;
+
+const clampUnit = (value: number): number => Math.max(0, Math.min(1, value));
+
+/** One coordinate of a cubic bezier anchored at 0 and 1. */
+const bezierCoordinate = (t: number, p1: number, p2: number): number => {
+    const inv = 1 - t;
+    return 3 * inv * inv * t * p1 + 3 * inv * t * t * p2 + t * t * t;
+};
+
+const bezierSlope = (t: number, p1: number, p2: number): number => {
+    const inv = 1 - t;
+    return 3 * inv * inv * p1 + 6 * inv * t * (p2 - p1) + 3 * t * t * (1 - p2);
+};
+
+/**
+ * Solve the curve parameter for a given x. Newton converges quickly on typical
+ * curves; bisection covers flat spots where the slope vanishes.
+ */
+const solveBezierParameter = (x: number, x1: number, x2: number): number => {
+    let t = x;
+    for (let i = 0; i < NEWTON_ITERATIONS; i++) {
+        const error = bezierCoordinate(t, x1, x2) - x;
+        if (Math.abs(error) < SOLVE_EPSILON) {
+            return t;
+        }
+        const slope = bezierSlope(t, x1, x2);
+        if (Math.abs(slope) < SOLVE_EPSILON) {
+            break;
+        }
+        t -= error / slope;
+    }
+
+    let low = 0;
+    let high = 1;
+    t = x;
+    for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+        const value = bezierCoordinate(t, x1, x2);
+        if (Math.abs(value - x) < SOLVE_EPSILON) {
+            break;
+        }
+        if (value < x) {
+            low = t;
+        } else {
+            high = t;
+        }
+        t = (low + high) / 2;
+    }
+    return t;
+};
+
+/**
+ * Evaluate a CSS-style cubic bezier at time x in [0, 1]. The x control points
+ * are clamped to [0, 1] so the curve stays a function of time.
+ */
+export const evaluateCubicBezier = (
+    x: number,
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+): number => {
+    const clampedX = clampUnit(x);
+    if (clampedX === 0 || clampedX === 1) {
+        return clampedX;
+    }
+    const t = solveBezierParameter(clampedX, clampUnit(x1), clampUnit(x2));
+    return bezierCoordinate(t, y1, y2);
+};
+
+// =============================================================================
+// EVALUATION
+// =============================================================================
+
+/**
+ * Eased progress for linear progress t in [0, 1]. Overshooting bezier curves
+ * may return values slightly outside [0, 1].
+ */
+export const evaluateEasing = (easing: AnimationEasing | undefined, t: number): number => {
+    const clamped = clampUnit(t);
+    if (!easing || easing.type === 'linear') {
+        return clamped;
+    }
+    if (easing.type === 'ease-in-out') {
+        const { x1, y1, x2, y2 } = EASE_IN_OUT_CONTROL_POINTS;
+        return evaluateCubicBezier(clamped, x1, y1, x2, y2);
+    }
+    return evaluateCubicBezier(clamped, easing.x1, easing.y1, easing.x2, easing.y2);
+};
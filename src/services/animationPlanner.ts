@@ -1,27 +1,60 @@
 import { MOTOR_MAX_POSITION_STEPS, MOTOR_MIN_POSITION_STEPS } from '@/constants/control';
-import type { Axis, CalibrationProfile, MirrorConfig, TileCalibrationResults } from '@/types';
+import { convertDisplacementToSteps } from '@/services/calibration/math/stepResponseModel';
+import type {
+    Axis,
+    CalibrationProfile,
+    MirrorConfig,
+    Motor,
+    TileCalibrationResults,
+} from '@/types';
 import type {
     Animation,
+    AnimationEasing,
     AnimationPath,
     AnimationWaypoint,
     AnimationPlaybackPlan,
+    AnimationSchedule,
+    AnimationScheduleEvent,
     AnimationSegmentPlan,
     AnimationPlanError,
     AnimationPlanErrorCode,
     SegmentAxisMove,
+    SegmentSubStep,
     MirrorOrderStrategy,
+    MirrorPathAssignment,
 } from '@/types/animation';
 import {
+    ACCEL_RAMP_FRACTION,
+    MAX_MOTOR_ACCEL_SPS2,
+    MAX_SUB_STEPS,
+    MIN_MOTOR_ACCEL_SPS2,
     MIN_MOTOR_SPEED_SPS,
+    MIN_SUB_STEPS,
     MAX_MOTOR_SPEED_SPS,
     SPEED_SAFETY_MARGIN,
     SEGMENT_BUFFER_MS,
+    SUB_STEP_TARGET_MS,
 } from '@/types/animation';
-import { convertDeltaToSteps } from '@/utils/calibrationMath';
+import type { ThermalPlanAssessment } from '@/types/thermal';
 import { getMirrorAssignment } from '@/utils/grid';
 
-import { validateWaypointsInProfile } from './boundsValidation';
+import { pointAtSegmentProgress, resolveCurveResolution } from './animationCurves';
+import { evaluateEasing, isLinearEasing } from './animationEasing';
+import { validateAnimationPathInProfile } from './boundsValidation';
+import {
+    planProfilePlayback,
+    type ProfilePlaybackPlanResult,
+    type ProfilePlaybackValidationError,
+} from './profilePlaybackPlanner';
 import { getSpaceParams, patternToCentered, type SpaceConversionParams } from './spaceConversion';
+import {
+    assessThermalBudget,
+    estimateMoveSeconds,
+    getThermalIssues,
+    getThermalMotorKey,
+    type ThermalMoveDemand,
+    type ThermalTelemetryIndex,
+} from './thermalBudget';
 
 // ============================================================================
 // Types
@@ -32,6 +65,8 @@ interface PlanAnimationParams {
     gridSize: { rows: number; cols: number };
     mirrorConfig: MirrorConfig;
     profile: CalibrationProfile;
+    /** Live thermal telemetry; when provided the plan includes a budget assessment. */
+    thermalTelemetry?: ThermalTelemetryIndex;
 }
 
 interface MirrorPathBinding {
@@ -100,7 +135,8 @@ interface StepsResult {
 
 /**
  * Convert a normalized coordinate to motor steps using calibration data.
- * Clamps the result to the valid step range for the axis.
+ * Follows the axis response model when one was fitted, otherwise the linear
+ * step ratio. Clamps the result to the valid step range for the axis.
  */
 const normalizedToSteps = (
     normalizedValue: number,
@@ -118,7 +154,12 @@ const normalizedToSteps = (
     if (typeof homeCoord !== 'number' || typeof homeSteps !== 'number') return null;
 
     const delta = normalizedValue - homeCoord;
-    const deltaSteps = convertDeltaToSteps(delta, perStep);
+    const deltaSteps = convertDisplacementToSteps(
+        delta,
+        perStep,
+        tile.axes?.[axis]?.responseModel,
+        homeSteps,
+    );
 
     if (deltaSteps === null) return null;
 
@@ -380,6 +421,88 @@ const resolveSequentialBindings = (
     return { bindings, errors };
 };
 
+// ============================================================================
+// Path Assignment
+// ============================================================================
+
+interface AssignPathsParams {
+    paths: AnimationPath[];
+    gridSize: { rows: number; cols: number };
+    mirrorConfig: MirrorConfig;
+    profile: CalibrationProfile;
+    /** Where each motor starts from, keyed by `getThermalMotorKey` */
+    startSteps?: ReadonlyMap<string, number>;
+    /** Plan of the pattern the mirrors are showing before the animation starts */
+    previousPlan?: ProfilePlaybackPlanResult | null;
+}
+
+/**
+ * Assign paths to mirrors for independent mode. Paths are handed out in turn
+ * until every playable mirror has one, and each copy goes to the tile that
+ * reaches its first waypoint with the shortest move from where the mirrors are,
+ * so the animation picks up the current formation instead of crossing it.
+ */
+export const assignPathsToMirrors = ({
+    paths,
+    gridSize,
+    mirrorConfig,
+    profile,
+    startSteps,
+    previousPlan,
+}: AssignPathsParams): {
+    assignments: MirrorPathAssignment[];
+    errors: ProfilePlaybackValidationError[];
+} => {
+    const usablePaths = paths.filter((path) => path.waypoints.length > 0);
+    let playableCount = 0;
+    for (let row = 0; row < gridSize.rows; row++) {
+        for (let col = 0; col < gridSize.cols; col++) {
+            const assignment = getMirrorAssignment(mirrorConfig, row, col);
+            if (
+                isTileCalibrated(profile.tiles[getTileKey(row, col)]) &&
+                assignment.x &&
+                assignment.y
+            ) {
+                playableCount++;
+            }
+        }
+    }
+    if (usablePaths.length === 0 || playableCount === 0) {
+        return { assignments: [], errors: [] };
+    }
+
+    const pathByPointId = new Map<string, AnimationPath>();
+    const points = Array.from({ length: playableCount }, (_, index) => {
+        const path = usablePaths[index % usablePaths.length];
+        const id = `${path.id}#${index}`;
+        pathByPointId.set(id, path);
+        return { id, x: path.waypoints[0].x, y: path.waypoints[0].y };
+    });
+
+    const plan = planProfilePlayback({
+        gridSize,
+        mirrorConfig,
+        profile,
+        pattern: {
+            id: 'animation-start',
+            name: 'Animation start',
+            createdAt: '',
+            updatedAt: '',
+            points,
+        },
+        startSteps,
+        previousPlan,
+    });
+
+    const assignments: MirrorPathAssignment[] = plan.tiles.flatMap((tile) => {
+        const path = tile.patternPointId ? pathByPointId.get(tile.patternPointId) : undefined;
+        return path
+            ? [{ mirrorId: tile.mirrorId, row: tile.row, col: tile.col, pathId: path.id }]
+            : [];
+    });
+    return { assignments, errors: plan.errors };
+};
+
 // ============================================================================
 // Segment Planning
 // ============================================================================
@@ -394,28 +517,174 @@ interface SegmentPlanContext {
 
 /**
  * Interpolate position between two waypoints at a given fraction t [0, 1].
- * Reserved for future use in smoother animations.
+ * Eased segments pass the eased progress, which may overshoot [0, 1].
  */
 export const interpolatePosition = (
-    from: AnimationWaypoint,
-    to: AnimationWaypoint,
+    from: Pick<AnimationWaypoint, 'x' | 'y'>,
+    to: Pick<AnimationWaypoint, 'x' | 'y'>,
     t: number,
 ): { x: number; y: number } => ({
     x: from.x + (to.x - from.x) * t,
     y: from.y + (to.y - from.y) * t,
 });
 
+/**
+ * One motor axis travelling through a segment.
+ */
+interface SegmentAxisTrack {
+    mirrorId: string;
+    row: number;
+    col: number;
+    axis: Axis;
+    motor: Motor;
+    /** Converts curve points to steps; absent for transitions planned in step space */
+    tile?: TileCalibrationResults;
+    fromSteps: number;
+    targetSteps: number;
+    /** Centered-space position at a progress along the segment */
+    pointAt: (progress: number) => { x: number; y: number };
+    /** Curve samples per segment; 1 for straight segments */
+    resolution: number;
+    easing: AnimationEasing | undefined;
+    range: { min: number; max: number };
+}
+
+const EFFECTIVE_MAX_SPEED_SPS = MAX_MOTOR_SPEED_SPS * SPEED_SAFETY_MARGIN;
+
+/**
+ * Speed and acceleration of a trapezoidal move that covers `distanceSteps` in
+ * exactly `sliceMs` (see `estimateMoveSeconds`). Each ramp takes
+ * ACCEL_RAMP_FRACTION of the slice, so consecutive slices blend, and the cruise
+ * speed is d / (T·(1 − ramp)). When the acceleration is clamped, the cruise
+ * speed is solved again for the clamped value so the duration stays the same.
+ * Short moves are never sped up to a minimum, or they would arrive early and
+ * fall out of sync with the other axes of the slice.
+ */
+const resolveSliceMotion = (
+    distanceSteps: number,
+    sliceMs: number,
+): { speedSps: number; accelSps2: number } => {
+    const seconds = Math.max(sliceMs / 1000, 1e-3);
+    const cruiseSps = distanceSteps / (seconds * (1 - ACCEL_RAMP_FRACTION));
+    const accelSps2 = Math.round(
+        Math.max(
+            MIN_MOTOR_ACCEL_SPS2,
+            Math.min(MAX_MOTOR_ACCEL_SPS2, cruiseSps / (seconds * ACCEL_RAMP_FRACTION)),
+        ),
+    );
+    // Smaller root of v/a + d/v = T, written to stay exact for tiny moves
+    const discriminant = Math.max(
+        0,
+        accelSps2 * accelSps2 * seconds * seconds - 4 * accelSps2 * distanceSteps,
+    );
+    const speedSps =
+        (2 * accelSps2 * distanceSteps) / (accelSps2 * seconds + Math.sqrt(discriminant));
+    return {
+        speedSps: Math.max(1, Math.round(Math.min(EFFECTIVE_MAX_SPEED_SPS, speedSps))),
+        accelSps2,
+    };
+};
+
+/**
+ * Number of slices for a segment. Straight linear segments stay a single move;
+ * curved segments get at least one slice per curve sample.
+ */
+const resolveSubStepCount = (tracks: SegmentAxisTrack[], travelMs: number): number => {
+    const curveCount = Math.max(1, ...tracks.map((track) => track.resolution));
+    if (tracks.every((track) => isLinearEasing(track.easing))) {
+        return curveCount;
+    }
+    const count = Math.round(travelMs / SUB_STEP_TARGET_MS);
+    return Math.max(curveCount, MIN_SUB_STEPS, Math.min(MAX_SUB_STEPS, count));
+};
+
+/**
+ * Step position of a track at a progress along its segment. Straight segments
+ * interpolate in step space; curves convert each curve point.
+ */
+const trackStepsAt = (track: SegmentAxisTrack, progress: number): number => {
+    const curved =
+        track.resolution > 1 && track.tile
+            ? normalizedToSteps(track.pointAt(progress)[track.axis], track.tile, track.axis)
+            : null;
+    const raw =
+        curved?.steps ??
+        Math.round(track.fromSteps + (track.targetSteps - track.fromSteps) * progress);
+    return Math.max(track.range.min, Math.min(track.range.max, raw));
+};
+
+/**
+ * Step positions of a track at the end of every slice (index 0 is the start).
+ */
+const sampleTrackSteps = (track: SegmentAxisTrack, count: number): number[] => {
+    const samples = [track.fromSteps];
+    for (let k = 1; k < count; k++) {
+        samples.push(trackStepsAt(track, evaluateEasing(track.easing, k / count)));
+    }
+    samples.push(track.targetSteps);
+    return samples;
+};
+
+/**
+ * Steps a track travels along its segment, following the curve when there is one.
+ */
+const trackTravelSteps = (track: SegmentAxisTrack): number => {
+    let total = 0;
+    let previous = track.fromSteps;
+    for (let k = 1; k <= track.resolution; k++) {
+        const steps =
+            k === track.resolution ? track.targetSteps : trackStepsAt(track, k / track.resolution);
+        total += Math.abs(steps - previous);
+        previous = steps;
+    }
+    return total;
+};
+
+const buildAxisMove = (
+    track: SegmentAxisTrack,
+    fromSteps: number,
+    targetSteps: number,
+    progressFrom: number,
+    progressTo: number,
+    sliceMs: number,
+): SegmentAxisMove => {
+    const distanceSteps = Math.abs(targetSteps - fromSteps);
+    const { speedSps, accelSps2 } = resolveSliceMotion(distanceSteps, sliceMs);
+    return {
+        key: `${track.mirrorId}:${track.axis}:${track.motor.nodeMac}:${track.motor.motorIndex}`,
+        mirrorId: track.mirrorId,
+        row: track.row,
+        col: track.col,
+        axis: track.axis,
+        motor: track.motor,
+        fromSteps,
+        targetSteps,
+        distanceSteps,
+        normalizedFrom: track.pointAt(progressFrom)[track.axis],
+        normalizedTarget: track.pointAt(progressTo)[track.axis],
+        speedSps,
+        accelSps2,
+    };
+};
+
 /**
  * Plan a single segment (transition from waypoint i to waypoint i+1).
  * For sequential mode with offsets, mirrors are at different waypoint indices.
+ *
+ * Travel time is the longest of the waypoints' arrival times and the time the
+ * animation speed implies, stretched when an eased slice would exceed the motor
+ * limit. Eased and curved segments are split into equal time slices whose
+ * targets follow the easing and the path curve; each move carries the speed
+ * that lands it at the slice end.
  */
-const planSegment = (
-    segmentIndex: number,
-    ctx: SegmentPlanContext,
-    // offsetMs is reserved for future sequential timing offset feature
-): AnimationSegmentPlan => {
+const planSegment = (segmentIndex: number, ctx: SegmentPlanContext): AnimationSegmentPlan => {
     const errors: AnimationPlanError[] = [];
-    const axisMoves: SegmentAxisMove[] = [];
+    const tracks: SegmentAxisTrack[] = [];
+    const travelSpeedSps = Math.max(MIN_MOTOR_SPEED_SPS, ctx.defaultSpeedSps);
+    const speedClamped = ctx.defaultSpeedSps < MIN_MOTOR_SPEED_SPS;
+    let travelMs = 0;
+    let dwellMs = 0;
+    let maxDistanceSteps = 0;
 
     for (const binding of ctx.bindings) {
         const { mirrorId, row, col, path, tile } = binding;
@@ -430,17 +699,25 @@ const planSegment = (
         const fromCentered = patternToCentered(fromWaypoint, ctx.spaceParams);
         const toCentered = patternToCentered(toWaypoint, ctx.spaceParams);
 
+        // Curved paths follow the curve; straight ones interpolate between the waypoints
+        const resolution = resolveCurveResolution(path);
+        const pointAt = (progress: number) =>
+            resolution > 1
+                ? patternToCentered(
+                      pointAtSegmentProgress(path, segmentIndex, progress),
+                      ctx.spaceParams,
+                  )
+                : interpolatePosition(fromCentered, toCentered, progress);
+
         const assignment = getMirrorAssignment(ctx.mirrorConfig, row, col);
+        let bindingDistance = 0;
 
         for (const axis of AXES) {
             const motor = assignment[axis];
             if (!motor) continue;
 
-            const fromNormalized = fromCentered[axis];
-            const toNormalized = toCentered[axis];
-
-            const fromResult = normalizedToSteps(fromNormalized, tile, axis);
-            const toResult = normalizedToSteps(toNormalized, tile, axis);
+            const fromResult = normalizedToSteps(fromCentered[axis], tile, axis);
+            const toResult = normalizedToSteps(toCentered[axis], tile, axis);
 
             if (fromResult === null || toResult === null) {
                 errors.push(
@@ -464,80 +741,330 @@ const planSegment = (
                 );
             }
 
-            const fromSteps = fromResult.steps;
-            const toSteps = toResult.steps;
-
             // Use previous end position if available (for continuity)
             const stateKey = `${mirrorId}:${axis}`;
-            const actualFromSteps = ctx.previousSteps.get(stateKey) ?? fromSteps;
-            const distanceSteps = Math.abs(toSteps - actualFromSteps);
+            const actualFromSteps = ctx.previousSteps.get(stateKey) ?? fromResult.steps;
 
             // Update state for next segment
-            ctx.previousSteps.set(stateKey, toSteps);
+            ctx.previousSteps.set(stateKey, toResult.steps);
 
-            if (distanceSteps === 0) continue; // Skip no-op moves
-
-            axisMoves.push({
-                key: `${mirrorId}:${axis}:${motor.nodeMac}:${motor.motorIndex}`,
+            const track: SegmentAxisTrack = {
                 mirrorId,
                 row,
                 col,
                 axis,
                 motor,
+                tile,
                 fromSteps: actualFromSteps,
-                targetSteps: toSteps,
-                distanceSteps,
-                normalizedFrom: fromNormalized,
-                normalizedTarget: toNormalized,
-            });
+                targetSteps: toResult.steps,
+                pointAt,
+                resolution,
+                easing: path.easing,
+                range: resolveAxisRange(tile, axis),
+            };
+            const travelSteps = trackTravelSteps(track);
+
+            if (travelSteps === 0) continue; // Skip no-op moves
+
+            bindingDistance = Math.max(bindingDistance, travelSteps);
+            tracks.push(track);
         }
-    }
 
-    // Calculate synchronized timing
-    const maxDistanceSteps =
-        axisMoves.length > 0 ? Math.max(...axisMoves.map((m) => m.distanceSteps)) : 0;
+        // Without an arrival time the default speed is the cruise speed between the ramps
+        const bindingTravelMs =
+            toWaypoint.arrivalMs !== undefined
+                ? toWaypoint.arrivalMs
+                : (bindingDistance / (travelSpeedSps * (1 - ACCEL_RAMP_FRACTION))) * 1000;
+        travelMs = Math.max(travelMs, bindingTravelMs);
+        maxDistanceSteps = Math.max(maxDistanceSteps, bindingDistance);
+        dwellMs = Math.max(dwellMs, toWaypoint.dwellMs ?? 0);
+    }
 
-    // Calculate speed: use default speed, but may need to clamp
-    const effectiveMaxSpeed = MAX_MOTOR_SPEED_SPS * SPEED_SAFETY_MARGIN;
-    let speedSps = ctx.defaultSpeedSps;
-    let speedClamped = false;
+    return sliceSegment(segmentIndex, tracks, {
+        travelMs,
+        dwellMs,
+        maxDistanceSteps,
+        speedClamped,
+        fallbackSpeedSps: travelSpeedSps,
+        errors,
+    });
+};
 
-    // Duration based on requested speed
-    let durationMs = maxDistanceSteps > 0 ? (maxDistanceSteps / speedSps) * 1000 : 0;
+interface SegmentTiming {
+    travelMs: number;
+    dwellMs: number;
+    maxDistanceSteps: number;
+    speedClamped: boolean;
+    /** Reported speed when no track moves */
+    fallbackSpeedSps: number;
+    errors: AnimationPlanError[];
+}
 
-    // Check if any motor would need to exceed max speed
-    for (const move of axisMoves) {
-        const requiredSpeed = durationMs > 0 ? move.distanceSteps / (durationMs / 1000) : 0;
-        if (requiredSpeed > effectiveMaxSpeed) {
-            // Need to slow down the entire segment
-            speedSps = effectiveMaxSpeed;
-            durationMs = (maxDistanceSteps / speedSps) * 1000;
-            speedClamped = true;
-            break;
+/**
+ * Split the tracks of a segment into equal time slices, stretching the travel
+ * time when the fastest slice would exceed the motor limit.
+ */
+const sliceSegment = (
+    segmentIndex: number,
+    tracks: SegmentAxisTrack[],
+    timing: SegmentTiming,
+): AnimationSegmentPlan => {
+    const { dwellMs, maxDistanceSteps, fallbackSpeedSps, errors } = timing;
+    let { travelMs, speedClamped } = timing;
+    const subStepCount = resolveSubStepCount(tracks, travelMs);
+    const samples = tracks.map((track) => sampleTrackSteps(track, subStepCount));
+
+    // Stretch the segment when the fastest slice cannot finish in time within
+    // the speed and acceleration limits, ramps included
+    let peakSliceSteps = 0;
+    for (const trackSamples of samples) {
+        for (let k = 1; k < trackSamples.length; k++) {
+            peakSliceSteps = Math.max(
+                peakSliceSteps,
+                Math.abs(trackSamples[k] - trackSamples[k - 1]),
+            );
         }
     }
+    const minSliceSeconds = estimateMoveSeconds(
+        peakSliceSteps,
+        EFFECTIVE_MAX_SPEED_SPS,
+        MAX_MOTOR_ACCEL_SPS2,
+    );
+    const minTravelMs = minSliceSeconds * 1000 * subStepCount;
+    if (minTravelMs > travelMs + 1e-6) {
+        // Only report a clamp when the cruise speed itself was over the limit
+        speedClamped ||=
+            (peakSliceSteps / EFFECTIVE_MAX_SPEED_SPS) * 1000 * subStepCount > travelMs;
+        travelMs = minTravelMs;
+    }
 
-    // Ensure minimum speed
-    if (speedSps < MIN_MOTOR_SPEED_SPS && maxDistanceSteps > 0) {
-        speedSps = MIN_MOTOR_SPEED_SPS;
-        durationMs = (maxDistanceSteps / speedSps) * 1000;
-        speedClamped = true;
+    const sliceMs = travelMs / subStepCount;
+    const subSteps: SegmentSubStep[] = [];
+    for (let k = 1; k <= subStepCount; k++) {
+        const axisMoves: SegmentAxisMove[] = [];
+        tracks.forEach((track, index) => {
+            const from = samples[index][k - 1];
+            const target = samples[index][k];
+            if (from === target) return;
+            axisMoves.push(
+                buildAxisMove(
+                    track,
+                    from,
+                    target,
+                    evaluateEasing(track.easing, (k - 1) / subStepCount),
+                    evaluateEasing(track.easing, k / subStepCount),
+                    sliceMs,
+                ),
+            );
+        });
+        subSteps.push({
+            index: k - 1,
+            startMs: Math.round((k - 1) * sliceMs),
+            durationMs: Math.round(sliceMs),
+            axisMoves,
+        });
     }
 
-    // Add buffer time
-    durationMs += SEGMENT_BUFFER_MS;
+    const axisMoves = tracks.map((track) =>
+        buildAxisMove(track, track.fromSteps, track.targetSteps, 0, 1, travelMs),
+    );
+    const subStepSpeeds = subSteps.flatMap((step) =>
+        step.axisMoves.map((move) => move.speedSps ?? 0),
+    );
+    const speedSps = subStepSpeeds.length > 0 ? Math.max(...subStepSpeeds) : fallbackSpeedSps;
 
     return {
         segmentIndex,
         axisMoves,
+        subSteps,
         maxDistanceSteps,
-        durationMs: Math.ceil(durationMs),
+        durationMs: Math.ceil(travelMs + SEGMENT_BUFFER_MS),
+        dwellMs,
         speedSps: Math.round(speedSps),
         speedClamped,
         errors,
     };
 };
 
+/**
+ * One motor axis moving from its current position to a new target, outside of
+ * any animation path.
+ */
+export interface StepTransitionAxis {
+    mirrorId: string;
+    row: number;
+    col: number;
+    axis: Axis;
+    motor: Motor;
+    fromSteps: number;
+    targetSteps: number;
+    normalizedFrom: number;
+    normalizedTarget: number;
+}
+
+/**
+ * Plan a straight move of every axis from its current steps to its target so
+ * that all motors arrive together after `durationMs`. Uses the same slicing as
+ * animation segments, so eased transitions get sub-steps and the duration is
+ * stretched when a motor cannot keep up.
+ */
+export const planStepTransition = (
+    axes: StepTransitionAxis[],
+    durationMs: number,
+    easing?: AnimationEasing,
+): AnimationSegmentPlan => {
+    const tracks: SegmentAxisTrack[] = axes
+        .filter((entry) => entry.fromSteps !== entry.targetSteps)
+        .map((entry) => ({
+            mirrorId: entry.mirrorId,
+            row: entry.row,
+            col: entry.col,
+            axis: entry.axis,
+            motor: entry.motor,
+            fromSteps: entry.fromSteps,
+            targetSteps: entry.targetSteps,
+            // Only this track's axis is read from the point
+            pointAt: (progress: number) => {
+                const value =
+                    entry.normalizedFrom +
+                    (entry.normalizedTarget - entry.normalizedFrom) * progress;
+                return { x: value, y: value };
+            },
+            resolution: 1,
+            easing,
+            range: { min: MOTOR_MIN_POSITION_STEPS, max: MOTOR_MAX_POSITION_STEPS },
+        }));
+    const maxDistanceSteps = Math.max(
+        0,
+        ...tracks.map((track) => Math.abs(track.targetSteps - track.fromSteps)),
+    );
+    return sliceSegment(0, tracks, {
+        travelMs: Math.max(0, durationMs),
+        dwellMs: 0,
+        maxDistanceSteps,
+        speedClamped: false,
+        fallbackSpeedSps: MIN_MOTOR_SPEED_SPS,
+        errors: [],
+    });
+};
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * Moves that take every axis from where a pass ends back to where it starts.
+ */
+const collectSeamAxes = (segments: AnimationSegmentPlan[]): StepTransitionAxis[] => {
+    const axes = new Map<string, StepTransitionAxis>();
+    for (const segment of segments) {
+        for (const move of segment.axisMoves) {
+            const existing = axes.get(move.key);
+            if (existing) {
+                existing.fromSteps = move.targetSteps;
+                existing.normalizedFrom = move.normalizedTarget;
+                continue;
+            }
+            axes.set(move.key, {
+                mirrorId: move.mirrorId,
+                row: move.row,
+                col: move.col,
+                axis: move.axis,
+                motor: move.motor,
+                fromSteps: move.targetSteps,
+                targetSteps: move.fromSteps,
+                normalizedFrom: move.normalizedTarget,
+                normalizedTarget: move.normalizedFrom,
+            });
+        }
+    }
+    return Array.from(axes.values());
+};
+
+/**
+ * Split the sub-steps of a segment into one event per mirror.
+ */
+const scheduleSegmentEvents = (
+    segment: AnimationSegmentPlan,
+    segmentIndex: number | null,
+    startMs: number,
+    mirrorStartMs: Record<string, number>,
+): AnimationScheduleEvent[] => {
+    const events: AnimationScheduleEvent[] = [];
+    for (const subStep of segment.subSteps) {
+        const movesByMirror = new Map<string, SegmentAxisMove[]>();
+        for (const move of subStep.axisMoves) {
+            const moves = movesByMirror.get(move.mirrorId) ?? [];
+            moves.push(move);
+            movesByMirror.set(move.mirrorId, moves);
+        }
+        movesByMirror.forEach((axisMoves, mirrorId) => {
+            events.push({
+                atMs: (mirrorStartMs[mirrorId] ?? 0) + startMs + subStep.startMs,
+                mirrorId,
+                segmentIndex,
+                subStepIndex: subStep.index,
+                durationMs: subStep.durationMs,
+                axisMoves,
+            });
+        });
+    }
+    return events;
+};
+
+/**
+ * Lay the planned segments out on one timeline. Every mirror runs the same
+ * segment timing, shifted by its stagger; the loop seam returns each mirror to
+ * its first waypoint at the default speed so the next pass keeps the stagger.
+ * The total duration runs until the last mirror has finished its pass.
+ */
+const buildAnimationSchedule = (
+    segments: AnimationSegmentPlan[],
+    mirrorIds: string[],
+    offsetMs: number,
+    travelSpeedSps: number,
+): { schedule: AnimationSchedule; totalDurationMs: number } => {
+    const mirrorStartMs: Record<string, number> = {};
+    mirrorIds.forEach((mirrorId, index) => {
+        mirrorStartMs[mirrorId] = index * offsetMs;
+    });
+
+    const events: AnimationScheduleEvent[] = [];
+    let passMs = 0;
+    for (const segment of segments) {
+        events.push(...scheduleSegmentEvents(segment, segment.segmentIndex, passMs, mirrorStartMs));
+        passMs += segment.durationMs + segment.dwellMs;
+    }
+
+    const seamAxes = collectSeamAxes(segments).filter(
+        (axis) => axis.fromSteps !== axis.targetSteps,
+    );
+    let seamMs = 0;
+    const seamEvents: AnimationScheduleEvent[] = [];
+    if (seamAxes.length > 0) {
+        const seamDistance = Math.max(
+            ...seamAxes.map((axis) => Math.abs(axis.targetSteps - axis.fromSteps)),
+        );
+        const seam = planStepTransition(
+            seamAxes,
+            (seamDistance / (travelSpeedSps * (1 - ACCEL_RAMP_FRACTION))) * 1000,
+        );
+        seamMs = seam.durationMs;
+        seamEvents.push(...scheduleSegmentEvents(seam, null, passMs, mirrorStartMs));
+    }
+
+    const byStart = (a: AnimationScheduleEvent, b: AnimationScheduleEvent) => a.atMs - b.atMs;
+    return {
+        schedule: {
+            events: events.sort(byStart),
+            seamEvents: seamEvents.sort(byStart),
+            mirrorStartMs,
+            loopPeriodMs: passMs + seamMs,
+        },
+        totalDurationMs: Math.max(0, ...Object.values(mirrorStartMs)) + passMs,
+    };
+};
+
 // ============================================================================
 // Main Planner
 // ============================================================================
@@ -547,7 +1074,7 @@ const planSegment = (
  * Resolves mirror-to-path bindings, calculates segments, and synchronizes timing.
  */
 export const planAnimation = (params: PlanAnimationParams): AnimationPlaybackPlan => {
-    const { animation, gridSize, mirrorConfig, profile } = params;
+    const { animation, gridSize, mirrorConfig, profile, thermalTelemetry } = params;
     const errors: AnimationPlanError[] = [];
     const warnings: AnimationPlanError[] = [];
 
@@ -626,9 +1153,9 @@ export const planAnimation = (params: PlanAnimationParams): AnimationPlaybackPla
     // Get space conversion params for transforming waypoints
     const spaceParams = getSpaceParams(profile);
 
-    // Validate waypoints against bounds
+    // Validate waypoints and curve samples against bounds
     for (const path of animation.paths) {
-        const validation = validateWaypointsInProfile(path.waypoints, { profile });
+        const validation = validateAnimationPathInProfile(path, { profile });
         for (const error of validation.errors) {
             errors.push(
                 createError('waypoint_out_of_bounds', error.message, {
@@ -649,9 +1176,6 @@ export const planAnimation = (params: PlanAnimationParams): AnimationPlaybackPla
         spaceParams,
     };
 
-    // offsetMs calculation reserved for future sequential timing offset feature
-    // const offsetMs = animation.mode === 'sequential' ? (animation.sequentialConfig?.offsetMs ?? 0) : 0;
-
     for (let i = 0; i < segmentCount; i++) {
         const segment = planSegment(i, ctx);
         segments.push(segment);
@@ -668,8 +1192,6 @@ export const planAnimation = (params: PlanAnimationParams): AnimationPlaybackPla
         }
     }
 
-    const totalDurationMs = segments.reduce((sum, s) => sum + s.durationMs, 0);
-
     // Compute mirror order for sequential mode
     const mirrorOrder =
         animation.mode === 'sequential' && animation.sequentialConfig
@@ -683,7 +1205,15 @@ export const planAnimation = (params: PlanAnimationParams): AnimationPlaybackPla
     const offsetMs =
         animation.mode === 'sequential' ? animation.sequentialConfig?.offsetMs : undefined;
 
-    return {
+    // Sequential bindings follow the mirror order, so each mirror's index is its stagger slot
+    const { schedule, totalDurationMs } = buildAnimationSchedule(
+        segments,
+        bindings.map((binding) => binding.mirrorId),
+        offsetMs ?? 0,
+        Math.max(MIN_MOTOR_SPEED_SPS, animation.defaultSpeedSps),
+    );
+
+    const plan: AnimationPlaybackPlan = {
         animationId: animation.id,
         segments,
         totalDurationMs,
@@ -692,26 +1222,109 @@ export const planAnimation = (params: PlanAnimationParams): AnimationPlaybackPla
         mode: animation.mode,
         mirrorOrder,
         offsetMs,
+        schedule,
     };
+
+    if (thermalTelemetry) {
+        plan.thermal = assessAnimationThermalBudget(plan, thermalTelemetry);
+        const mirrorByMotorKey = new Map(
+            segments
+                .flatMap((segment) => segment.axisMoves)
+                .map((move) => [
+                    getThermalMotorKey(move.motor.nodeMac, move.motor.motorIndex),
+                    move.mirrorId,
+                ]),
+        );
+        for (const issue of getThermalIssues(plan.thermal)) {
+            warnings.push(
+                createError('thermal_budget', issue.message ?? 'Thermal budget issue.', {
+                    mirrorId: mirrorByMotorKey.get(issue.key),
+                }),
+            );
+        }
+    }
+
+    return plan;
 };
 
 // ============================================================================
-// Utility Exports
+// Thermal Budget
 // ============================================================================
 
 /**
- * Calculate estimated duration for an animation without full planning.
+ * Every MOVE one pass of the plan sends, in execution order per motor.
+ * Sequential mode first drives all mirrors to their start position.
  */
-export const estimateAnimationDuration = (
-    animation: Animation,
-    profile: CalibrationProfile | null,
-): number => {
-    if (!animation || !profile || animation.paths.length === 0) return 0;
+export const buildAnimationThermalDemands = (plan: AnimationPlaybackPlan): ThermalMoveDemand[] => {
+    const demands: ThermalMoveDemand[] = [];
+    const startSegment = plan.segments[0];
+    if (plan.mode === 'sequential' && startSegment) {
+        for (const move of startSegment.axisMoves) {
+            demands.push({
+                mac: move.motor.nodeMac,
+                motorId: move.motor.motorIndex,
+                targetSteps: move.fromSteps,
+                speedSps: startSegment.speedSps,
+            });
+        }
+    }
+    for (const segment of plan.segments) {
+        for (const subStep of segment.subSteps) {
+            for (const move of subStep.axisMoves) {
+                demands.push({
+                    mac: move.motor.nodeMac,
+                    motorId: move.motor.motorIndex,
+                    fromSteps: move.fromSteps,
+                    targetSteps: move.targetSteps,
+                    speedSps: move.speedSps ?? segment.speedSps,
+                    accelSps2: move.accelSps2,
+                });
+            }
+        }
+    }
+    return demands;
+};
 
-    const maxWaypoints = Math.max(...animation.paths.map((p) => p.waypoints.length), 0);
-    const segmentCount = Math.max(0, maxWaypoints - 1);
+/**
+ * Assess one pass of the plan against live telemetry. Looping playback calls this
+ * again before every iteration so the loop is throttled as budgets drain.
+ */
+export const assessAnimationThermalBudget = (
+    plan: AnimationPlaybackPlan,
+    telemetry: ThermalTelemetryIndex,
+): ThermalPlanAssessment => assessThermalBudget(buildAnimationThermalDemands(plan), telemetry);
 
-    // Rough estimate: assume average speed for each segment
-    const avgSegmentDurationMs = 500; // Rough estimate
-    return segmentCount * avgSegmentDurationMs;
+/**
+ * Drop moves of motors the thermal assessment blocked. Segment timing is kept so
+ * the remaining mirrors stay in sync.
+ */
+export const excludeThermalBlockedMotors = (
+    plan: AnimationPlaybackPlan,
+    blockedKeys: Set<string>,
+): AnimationPlaybackPlan => {
+    if (blockedKeys.size === 0) {
+        return plan;
+    }
+    const isAllowed = (move: SegmentAxisMove): boolean =>
+        !blockedKeys.has(getThermalMotorKey(move.motor.nodeMac, move.motor.motorIndex));
+    const filterEvents = (events: AnimationScheduleEvent[]): AnimationScheduleEvent[] =>
+        events
+            .map((event) => ({ ...event, axisMoves: event.axisMoves.filter(isAllowed) }))
+            .filter((event) => event.axisMoves.length > 0);
+    return {
+        ...plan,
+        schedule: plan.schedule && {
+            ...plan.schedule,
+            events: filterEvents(plan.schedule.events),
+            seamEvents: filterEvents(plan.schedule.seamEvents),
+        },
+        segments: plan.segments.map((segment) => ({
+            ...segment,
+            axisMoves: segment.axisMoves.filter(isAllowed),
+            subSteps: segment.subSteps.map((subStep) => ({
+                ...subStep,
+                axisMoves: subStep.axisMoves.filter(isAllowed),
+            })),
+        })),
+    };
 };
@@ -1,6 +1,9 @@
 import type {
     Animation,
+    AnimationCurveType,
+    AnimationEasing,
     AnimationPath,
+    AnimationPathCurve,
     AnimationWaypoint,
     AnimationMode,
     IndependentModeConfig,
@@ -8,7 +11,12 @@ import type {
     MirrorPathAssignment,
     MirrorOrderStrategy,
 } from '@/types/animation';
-import { DEFAULT_MOTOR_SPEED_SPS } from '@/types/animation';
+import {
+    DEFAULT_MOTOR_SPEED_SPS,
+    MAX_CURVE_RESOLUTION,
+    MAX_WAYPOINT_TIME_MS,
+    MIN_CURVE_RESOLUTION,
+} from '@/types/animation';
 
 const STORAGE_KEY = 'mirror:animations';
 const STORAGE_VERSION = 1;
@@ -31,9 +39,22 @@ const isFiniteNumber = (value: unknown): value is number =>
 const isValidAnimationMode = (value: unknown): value is AnimationMode =>
     value === 'independent' || value === 'sequential';
 
+const isValidCurveType = (value: unknown): value is AnimationCurveType =>
+    value === 'polyline' || value === 'catmull-rom' || value === 'bezier' || value === 'arc';
+
 const isValidMirrorOrderStrategy = (value: unknown): value is MirrorOrderStrategy =>
     value === 'row-major' || value === 'col-major' || value === 'spiral' || value === 'custom';
 
+const parseWaypointTime = (value: unknown): number | undefined =>
+    isFiniteNumber(value) && value >= 0 ? Math.min(value, MAX_WAYPOINT_TIME_MS) : undefined;
+
+const parseHandle = (value: unknown): { x: number; y: number } | undefined => {
+    if (!value || typeof value !== 'object') return undefined;
+    const candidate = value as { x?: unknown; y?: unknown };
+    if (!isFiniteNumber(candidate.x) || !isFiniteNumber(candidate.y)) return undefined;
+    return { x: candidate.x, y: candidate.y };
+};
+
 const parseWaypoint = (input: unknown): AnimationWaypoint | null => {
     if (!input || typeof input !== 'object') return null;
     const candidate = input as Partial<AnimationWaypoint>;
@@ -42,11 +63,56 @@ const parseWaypoint = (input: unknown): AnimationWaypoint | null => {
     if (!isFiniteNumber(candidate.x) || candidate.x < -1 || candidate.x > 1) return null;
     if (!isFiniteNumber(candidate.y) || candidate.y < -1 || candidate.y > 1) return null;
 
-    return {
+    const waypoint: AnimationWaypoint = {
         id: candidate.id,
         x: candidate.x,
         y: candidate.y,
     };
+
+    const arrivalMs = parseWaypointTime(candidate.arrivalMs);
+    if (arrivalMs !== undefined) waypoint.arrivalMs = arrivalMs;
+    const dwellMs = parseWaypointTime(candidate.dwellMs);
+    if (dwellMs !== undefined) waypoint.dwellMs = dwellMs;
+    const handleIn = parseHandle(candidate.handleIn);
+    if (handleIn) waypoint.handleIn = handleIn;
+    const handleOut = parseHandle(candidate.handleOut);
+    if (handleOut) waypoint.handleOut = handleOut;
+
+    return waypoint;
+};
+
+const parseEasing = (input: unknown): AnimationEasing | undefined => {
+    if (!input || typeof input !== 'object') return undefined;
+    const candidate = input as Record<string, unknown>;
+
+    if (candidate.type === 'linear' || candidate.type === 'ease-in-out') {
+        return { type: candidate.type };
+    }
+    if (candidate.type !== 'cubic-bezier') return undefined;
+
+    const { x1, y1, x2, y2 } = candidate;
+    if (!isFiniteNumber(x1) || !isFiniteNumber(x2) || x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+        return undefined;
+    }
+    if (!isFiniteNumber(y1) || !isFiniteNumber(y2)) return undefined;
+
+    return { type: 'cubic-bezier', x1, y1, x2, y2 };
+};
+
+const parseCurve = (input: unknown): AnimationPathCurve | undefined => {
+    if (!input || typeof input !== 'object') return undefined;
+    const candidate = input as Partial<AnimationPathCurve>;
+
+    if (!isValidCurveType(candidate.type)) return undefined;
+
+    const curve: AnimationPathCurve = { type: candidate.type };
+    if (isFiniteNumber(candidate.resolution)) {
+        curve.resolution = Math.max(
+            MIN_CURVE_RESOLUTION,
+            Math.min(MAX_CURVE_RESOLUTION, Math.round(candidate.resolution)),
+        );
+    }
+    return curve;
 };
 
 const parsePath = (input: unknown): AnimationPath | null => {
@@ -63,11 +129,18 @@ const parsePath = (input: unknown): AnimationPath | null => {
         if (parsed) waypoints.push(parsed);
     }
 
-    return {
+    const path: AnimationPath = {
         id: candidate.id,
         name: candidate.name,
         waypoints,
     };
+
+    const easing = parseEasing(candidate.easing);
+    if (easing) path.easing = easing;
+    const curve = parseCurve(candidate.curve);
+    if (curve) path.curve = curve;
+
+    return path;
 };
 
 const parseMirrorPathAssignment = (input: unknown): MirrorPathAssignment | null => {
@@ -123,7 +196,7 @@ const parseSequentialConfig = (input: unknown): SequentialModeConfig | null => {
     return result;
 };
 
-const parseAnimation = (input: unknown): Animation | null => {
+export const parseAnimation = (input: unknown): Animation | null => {
     if (!input || typeof input !== 'object') return null;
     const candidate = input as Partial<Animation>;
 
@@ -210,6 +283,10 @@ const writeAnimations = (storage: Storage | undefined, animations: Animation[]):
     }
 };
 
+export const persistAnimations = (storage: Storage | undefined, animations: Animation[]): void => {
+    writeAnimations(storage, animations);
+};
+
 export const saveAnimation = (storage: Storage | undefined, animation: Animation): Animation[] => {
     const existing = loadAnimations(storage);
     const index = existing.findIndex((a) => a.id === animation.id);
@@ -7,8 +7,9 @@
  */
 
 import type { CalibrationProfile, PatternPoint } from '@/types';
-import type { AnimationWaypoint } from '@/types/animation';
+import type { AnimationPath, AnimationWaypoint } from '@/types/animation';
 
+import { sampleAnimationPath } from './animationCurves';
 import { getSpaceParams, patternToCentered } from './spaceConversion';
 
 /**
@@ -164,3 +165,52 @@ export function validateWaypointsInProfile(
 ): PatternValidationResult {
     return validatePointsAgainstBounds(waypoints, params);
 }
+
+/**
+ * Validate an animation path, including the samples along curved segments.
+ *
+ * A waypoint is reported invalid when it is out of bounds itself or when the
+ * curve leaving it crosses outside every tile, so the editor can flag it.
+ *
+ * @param path - Animation path to validate
+ * @param params - Validation parameters containing the calibration profile
+ * @returns Validation result keyed by waypoint id
+ */
+export function validateAnimationPathInProfile(
+    path: AnimationPath,
+    params: ValidationParams,
+): PatternValidationResult {
+    const samples = sampleAnimationPath(path);
+    const sampleResult = validatePointsAgainstBounds(samples, params);
+
+    const pointResults = new Map<string, PointValidationResult>();
+    const invalidPointIds = new Set<string>();
+    const errors: BoundsValidationError[] = [];
+
+    for (const sample of samples) {
+        const result = sampleResult.pointResults.get(sample.id);
+        if (!result) continue;
+
+        if (!sample.interior) {
+            pointResults.set(sample.id, result);
+        }
+        if (result.isValid || invalidPointIds.has(sample.waypointId)) continue;
+
+        const error: BoundsValidationError = sample.interior
+            ? {
+                  code: 'no_valid_tile_for_point',
+                  message: `Curve after waypoint "${sample.waypointId}" leaves all tile bounds near (${sample.x.toFixed(3)}, ${sample.y.toFixed(3)})`,
+                  pointId: sample.waypointId,
+              }
+            : result.error!;
+        errors.push(error);
+        invalidPointIds.add(sample.waypointId);
+    }
+
+    return {
+        isValid: invalidPointIds.size === 0,
+        invalidPointIds,
+        pointResults,
+        errors,
+    };
+}
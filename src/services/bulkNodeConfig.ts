@@ -0,0 +1,195 @@
+/**
+ * Bulk Node Configuration Module
+ *
+ * Plans and applies one configuration profile across every node referenced by a
+ * MirrorConfig. SET commands are sent one field at a time (firmware only accepts a
+ * single field per request). Values captured before the change are kept so that a
+ * partially failed rollout can be reverted.
+ */
+
+import { normalizeCommandError } from '../utils/commandErrors';
+
+import {
+    diffNodeConfigValues,
+    getMicrostepChangeBlocker,
+    type NodeConfigField,
+    type NodeConfigValues,
+} from './nodeConfig';
+
+import type { NormalizedMotorStatus } from './statusParser';
+import type { MirrorConfig } from '../types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BulkConfigFieldChange {
+    field: NodeConfigField;
+    from: NodeConfigValues[NodeConfigField] | undefined;
+    to: NodeConfigValues[NodeConfigField];
+}
+
+export interface BulkConfigNodeInput {
+    mac: string;
+    /** Current values; undefined when the node has not reported a config yet. */
+    current: Partial<NodeConfigValues> | undefined;
+    motors: NormalizedMotorStatus[];
+}
+
+export interface BulkConfigNodePlan {
+    mac: string;
+    changes: BulkConfigFieldChange[];
+    /** Reason the node cannot be configured; set nodes are reported as skipped. */
+    blocker: string | null;
+}
+
+export type BulkConfigNodeStatus = 'success' | 'failed' | 'skipped' | 'unchanged';
+
+export interface BulkConfigNodeReport {
+    mac: string;
+    status: BulkConfigNodeStatus;
+    /** Changes that the firmware confirmed, in the order they were applied. */
+    applied: BulkConfigFieldChange[];
+    failedField?: NodeConfigField;
+    error?: string;
+    errorCode?: string;
+}
+
+export interface BulkConfigReport {
+    nodes: BulkConfigNodeReport[];
+    hasFailures: boolean;
+}
+
+export type SetNodeConfigFn = (args: {
+    mac: string;
+    field: NodeConfigField;
+    value: NodeConfigValues[NodeConfigField];
+}) => Promise<unknown>;
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+/**
+ * Unique node MACs referenced by any axis assignment, in first-seen order.
+ */
+export const getMirrorConfigNodeMacs = (config: MirrorConfig): string[] => {
+    const macs = new Set<string>();
+    for (const assignment of config.values()) {
+        if (assignment.x) {
+            macs.add(assignment.x.nodeMac);
+        }
+        if (assignment.y) {
+            macs.add(assignment.y.nodeMac);
+        }
+    }
+    return Array.from(macs);
+};
+
+/**
+ * Build the per-node diff of current versus target values.
+ */
+export const planBulkConfigApply = (
+    nodes: BulkConfigNodeInput[],
+    target: Partial<NodeConfigValues>,
+): BulkConfigNodePlan[] =>
+    nodes.map((node) => {
+        if (!node.current) {
+            return {
+                mac: node.mac,
+                changes: [],
+                blocker: 'Current configuration unknown; rollback values cannot be captured',
+            };
+        }
+        const current = node.current;
+        const changes = diffNodeConfigValues(current, target).map<BulkConfigFieldChange>(
+            (field) => ({
+                field,
+                from: current[field],
+                to: target[field]!,
+            }),
+        );
+        const microstepBlocker = changes.some((change) => change.field === 'MICROSTEP')
+            ? getMicrostepChangeBlocker(node.motors)
+            : null;
+        return {
+            mac: node.mac,
+            changes,
+            blocker: microstepBlocker,
+        };
+    });
+
+// =============================================================================
+// EXECUTION
+// =============================================================================
+
+const applyNodePlan = async (
+    plan: BulkConfigNodePlan,
+    setNodeConfig: SetNodeConfigFn,
+): Promise<BulkConfigNodeReport> => {
+    if (plan.blocker) {
+        return { mac: plan.mac, status: 'skipped', applied: [], error: plan.blocker };
+    }
+    if (plan.changes.length === 0) {
+        return { mac: plan.mac, status: 'unchanged', applied: [] };
+    }
+    const applied: BulkConfigFieldChange[] = [];
+    for (const change of plan.changes) {
+        try {
+            await setNodeConfig({ mac: plan.mac, field: change.field, value: change.to });
+            applied.push(change);
+        } catch (error) {
+            const { message, code } = normalizeCommandError(error);
+            return {
+                mac: plan.mac,
+                status: 'failed',
+                applied,
+                failedField: change.field,
+                error: message,
+                errorCode: code,
+            };
+        }
+    }
+    return { mac: plan.mac, status: 'success', applied };
+};
+
+/**
+ * Apply every node plan. Nodes run in parallel; fields within a node run sequentially.
+ */
+export const executeBulkConfigApply = async (
+    plans: BulkConfigNodePlan[],
+    setNodeConfig: SetNodeConfigFn,
+): Promise<BulkConfigReport> => {
+    const nodes = await Promise.all(plans.map((plan) => applyNodePlan(plan, setNodeConfig)));
+    return {
+        nodes,
+        hasFailures: nodes.some((node) => node.status === 'failed' || node.status === 'skipped'),
+    };
+};
+
+/**
+ * Restore captured values on every node that had at least one change applied.
+ * Changes are reverted in reverse order so MICROSTEP is restored before speeds.
+ */
+export const rollbackBulkConfig = async (
+    report: BulkConfigReport,
+    setNodeConfig: SetNodeConfigFn,
+): Promise<BulkConfigReport> => {
+    const nodes = await Promise.all(
+        report.nodes.map((node) => {
+            const reverts = node.applied
+                .filter((change) => change.from !== undefined)
+                .reverse()
+                .map<BulkConfigFieldChange>((change) => ({
+                    field: change.field,
+                    from: change.to,
+                    to: change.from!,
+                }));
+            return applyNodePlan({ mac: node.mac, changes: reverts, blocker: null }, setNodeConfig);
+        }),
+    );
+    return {
+        nodes,
+        hasFailures: nodes.some((node) => node.status === 'failed'),
+    };
+};
@@ -0,0 +1,191 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import type { CalibrationProfile, TileCalibrationResults } from '@/types';
+
+import { compareCalibrationProfiles, computeValueDelta } from '../profileDiff';
+
+const createTile = (
+    row: number,
+    col: number,
+    overrides: Partial<TileCalibrationResults> = {},
+): TileCalibrationResults => ({
+    key: `${row}-${col}`,
+    row,
+    col,
+    status: 'completed',
+    error: null,
+    adjustedHome: { x: col * 0.3, y: row * 0.3, stepsX: 0, stepsY: 0 },
+    homeOffset: null,
+    homeMeasurement: {
+        x: 0,
+        y: 0,
+        size: 0.1,
+        response: 1,
+        capturedAt: 0,
+    },
+    stepToDisplacement: { x: 0.001, y: -0.001 },
+    sizeDeltaAtStepTest: 0,
+    axes: {
+        x: { stepRange: null, stepScale: null },
+        y: { stepRange: null, stepScale: null },
+    },
+    combinedBounds: {
+        x: { min: col * 0.3 - 0.1, max: col * 0.3 + 0.1 },
+        y: { min: row * 0.3 - 0.1, max: row * 0.3 + 0.1 },
+    },
+    ...overrides,
+});
+
+const createProfile = (
+    tileOverrides: Record<string, Partial<TileCalibrationResults>> = {},
+    options: { footprint?: number; shift?: { dx: number; dy: number } } = {},
+): CalibrationProfile => {
+    const shift = options.shift ?? { dx: 0, dy: 0 };
+    const tiles: Record<string, TileCalibrationResults> = {};
+    for (let row = 0; row < 3; row += 1) {
+        for (let col = 0; col < 3; col += 1) {
+            const base = createTile(row, col);
+            const key = base.key;
+            tiles[key] = {
+                ...base,
+                adjustedHome: {
+                    ...base.adjustedHome!,
+                    x: base.adjustedHome!.x + shift.dx,
+                    y: base.adjustedHome!.y + shift.dy,
+                },
+                ...tileOverrides[key],
+            };
+        }
+    }
+    const footprint = options.footprint ?? 0.2;
+    return {
+        id: 'profile',
+        schemaVersion: 3,
+        name: 'Profile',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-01T00:00:00.000Z',
+        arrayRotation: 0,
+        gridSize: { rows: 3, cols: 3 },
+        gridBlueprint: {
+            adjustedTileFootprint: { width: footprint, height: footprint },
+            tileGap: { x: 0.1, y: 0.1 },
+            gridOrigin: { x: 0, y: 0 },
+            cameraOriginOffset: { x: 0, y: 0 },
+        },
+        stepTestSettings: { deltaSteps: 400 },
+        gridStateFingerprint: {
+            hash: 'grid',
+            snapshot: { version: 1, gridSize: { rows: 3, cols: 3 }, assignments: {} },
+        },
+        calibrationSpace: { blobStats: null },
+        tiles,
+        metrics: { totalTiles: 9, completedTiles: 9, failedTiles: 0, skippedTiles: 0 },
+    };
+};
+
+describe('computeValueDelta', () => {
+    it('computes absolute and relative change', () => {
+        expect(computeValueDelta(2, 3)).toEqual({ before: 2, after: 3, delta: 1, relative: 0.5 });
+        expect(computeValueDelta(null, 3)).toEqual({
+            before: null,
+            after: 3,
+            delta: null,
+            relative: null,
+        });
+        expect(computeValueDelta(0, 1).relative).toBeNull();
+    });
+});
+
+describe('compareCalibrationProfiles', () => {
+    it('reports no drift for identical profiles', () => {
+        const report = compareCalibrationProfiles(createProfile(), createProfile());
+        expect(report.tiles).toHaveLength(9);
+        expect(report.flaggedTileKeys).toEqual([]);
+        expect(report.footprintChange).toBe(0);
+        expect(report.warnings).toEqual([]);
+        expect(report.advice).toBe('none');
+    });
+
+    it('ignores a common shift of the whole array', () => {
+        const report = compareCalibrationProfiles(
+            createProfile(),
+            createProfile({}, { shift: { dx: 0.05, dy: -0.02 } }),
+        );
+        expect(report.commonShift?.dx).toBeCloseTo(0.05);
+        expect(report.commonShift?.dy).toBeCloseTo(-0.02);
+        expect(report.tiles.every((tile) => (tile.residualDrift ?? 1) < 1e-9)).toBe(true);
+        expect(report.advice).toBe('none');
+    });
+
+    it('flags a tile that moved relative to its neighbours', () => {
+        const after = createProfile({
+            '1-1': { adjustedHome: { x: 0.3 + 0.03, y: 0.3, stepsX: 0, stepsY: 0 } },
+        });
+        const report = compareCalibrationProfiles(createProfile(), after);
+        const tile = report.tiles.find((entry) => entry.key === '1-1');
+        // 0.03 shift over a 0.2 footprint
+        expect(tile?.residualDrift).toBeCloseTo(0.15);
+        expect(tile?.reasons).toEqual(['home-drift']);
+        expect(report.flaggedTileKeys).toEqual(['1-1']);
+        expect(report.advice).toBe('tiles');
+    });
+
+    it('flags outliers that stay under the absolute threshold', () => {
+        // Small per-tile jitter, with one tile moving 0.007 (3.5% of the footprint)
+        const jitter = [0, 0.0004, -0.0003, 0.0002, -0.0001, 0.0003, -0.0004, 0.0001, 0];
+        const overrides: Record<string, Partial<TileCalibrationResults>> = {};
+        jitter.forEach((dx, index) => {
+            const row = Math.floor(index / 3);
+            const col = index % 3;
+            overrides[`${row}-${col}`] = {
+                adjustedHome: { x: col * 0.3 + dx, y: row * 0.3, stepsX: 0, stepsY: 0 },
+            };
+        });
+        overrides['0-0'] = { adjustedHome: { x: 0.007, y: 0, stepsX: 0, stepsY: 0 } };
+        const report = compareCalibrationProfiles(createProfile(), createProfile(overrides));
+        expect(report.tiles.find((entry) => entry.key === '0-0')?.reasons).toEqual([
+            'home-outlier',
+        ]);
+        expect(report.flaggedTileKeys).toEqual(['0-0']);
+        expect(report.residualDriftStats.count).toBe(9);
+    });
+
+    it('flags step scale, bounds, blob size and status changes', () => {
+        const after = createProfile({
+            '0-0': { stepToDisplacement: { x: 0.0012, y: -0.001 } },
+            '0-1': {
+                combinedBounds: { x: { min: 0.2, max: 0.45 }, y: { min: -0.1, max: 0.1 } },
+            },
+            '0-2': {
+                homeMeasurement: { x: 0, y: 0, size: 0.13, response: 1, capturedAt: 0 },
+            },
+            '1-0': { status: 'failed', adjustedHome: null },
+        });
+        const report = compareCalibrationProfiles(createProfile(), after);
+        const reasonsFor = (key: string) => report.tiles.find((tile) => tile.key === key)?.reasons;
+        expect(reasonsFor('0-0')).toEqual(['step-scale']);
+        expect(reasonsFor('0-1')).toEqual(['bounds']);
+        expect(reasonsFor('0-2')).toEqual(['blob-size']);
+        expect(reasonsFor('1-0')).toEqual(['status']);
+        // 4 of 9 tiles flagged
+        expect(report.advice).toBe('full');
+    });
+
+    it('summarises blueprint changes and advises full recalibration', () => {
+        const report = compareCalibrationProfiles(
+            createProfile(),
+            createProfile({}, { footprint: 0.22 }),
+        );
+        expect(report.blueprint?.footprintWidth.relative).toBeCloseTo(0.1);
+        expect(report.footprintChange).toBeCloseTo(0.1);
+        expect(report.advice).toBe('full');
+    });
+
+    it('warns when the profiles describe different layouts', () => {
+        const after = { ...createProfile(), arrayRotation: 90 as const };
+        const report = compareCalibrationProfiles(createProfile(), after);
+        expect(report.warnings).toEqual(['Array rotation differs (0° vs 90°).']);
+        expect(report.advice).toBe('full');
+    });
+});
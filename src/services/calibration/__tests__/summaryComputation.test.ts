@@ -3,9 +3,12 @@ import { describe, it, expect } from 'vitest';
 
 import type { BlobMeasurement } from '@/types';
 
+import { evaluateStepResponse, fitStepResponseModel } from '../math/stepResponseModel';
+import { buildWallHomography, homographyJacobian } from '../math/wallHomography';
 import {
     computeGridBlueprint,
     computeCalibrationSummary,
+    rectifyTileResult,
     type TileCalibrationResult,
     type SummaryConfig,
 } from '../summaryComputation';
@@ -276,5 +279,69 @@ describe('summaryComputation', () => {
 
             expect(tile.stepScale).toEqual({ x: 1000, y: -500 });
         });
+
+        it('rectifies measurements when a wall homography is set', () => {
+            // Keystoned 2x2 layout: the bottom row appears wider than the top row
+            const corners = [
+                { x: -0.25, y: -0.3 },
+                { x: 0.25, y: -0.3 },
+                { x: 0.35, y: 0.3 },
+                { x: -0.35, y: 0.3 },
+            ];
+            const wallHomography = buildWallHomography(
+                corners,
+                { width: 1, height: 1 },
+                { sourceWidth: 1000, sourceHeight: 1000 },
+                'manual',
+            );
+            const tileResults = new Map<string, TileCalibrationResult>();
+            const keys = ['0-0', '0-1', '1-1', '1-0'];
+            corners.forEach((corner, index) => {
+                const [row, col] = keys[index].split('-').map(Number);
+                tileResults.set(
+                    keys[index],
+                    createTileResult(row, col, createMeasurement(corner.x, corner.y, 0.2)),
+                );
+            });
+
+            const result = computeCalibrationSummary(tileResults, { ...config, wallHomography });
+
+            expect(result.wallHomography).toEqual(wallHomography);
+            const x = (key: string) => result.tiles[key].homeMeasurement!.x;
+            expect(x('0-0')).toBeCloseTo(x('1-0'), 9);
+            expect(x('0-1')).toBeCloseTo(x('1-1'), 9);
+        });
+    });
+
+    describe('rectifyTileResult', () => {
+        it('scales step response curves by the local wall-space derivative', () => {
+            const wallHomography = buildWallHomography(
+                [
+                    { x: -0.25, y: -0.3 },
+                    { x: 0.25, y: -0.3 },
+                    { x: 0.35, y: 0.3 },
+                    { x: -0.35, y: 0.3 },
+                ],
+                { width: 1, height: 1 },
+                { sourceWidth: 1000, sourceHeight: 1000 },
+                'manual',
+            )!;
+            const home = createMeasurement(0.1, 0.2, 0.2);
+            const model = fitStepResponseModel([
+                { steps: 600, displacement: 0.3 },
+                { steps: -600, displacement: -0.3 },
+            ])!;
+            const result = rectifyTileResult(
+                {
+                    ...createTileResult(0, 0, home),
+                    stepResponse: { x: model, y: model },
+                },
+                wallHomography,
+            );
+
+            const [[dudx], [, dvdy]] = homographyJacobian(wallHomography.matrix, home);
+            expect(evaluateStepResponse(result.stepResponse!.x!, 600)).toBeCloseTo(0.3 * dudx, 9);
+            expect(evaluateStepResponse(result.stepResponse!.y!, 600)).toBeCloseTo(0.3 * dvdy, 9);
+        });
     });
 });
@@ -5,6 +5,7 @@
 export {
     // Types
     type StepVector,
+    type StepResponseModels,
     // Functions
     computeAxisBounds,
     computeTileBounds,
@@ -52,8 +53,31 @@ export {
     // Functions
     computeGridBlueprint,
     computeCalibrationSummary,
+    rectifyTileResult,
 } from './summaryComputation';
 
+export {
+    solveHomography,
+    applyHomography,
+    invertHomography,
+    orderQuadCorners,
+    buildWallHomography,
+    isWallHomography,
+    rectifyMeasurement,
+    rectifyStepToDisplacement,
+    unrectifyPoint,
+    unrectifyStepToDisplacement,
+} from './math/wallHomography';
+
+export {
+    fitStepResponseModel,
+    evaluateStepResponse,
+    invertStepResponse,
+    convertDisplacementToSteps,
+    scaleStepResponseModel,
+    isAxisStepResponseModel,
+} from './math/stepResponseModel';
+
 export {
     // Types
     type Axis,
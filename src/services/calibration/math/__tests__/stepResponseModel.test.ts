@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+    convertDisplacementToSteps,
+    evaluateStepResponse,
+    fitStepResponseModel,
+    getStepResponseSamplePositions,
+    invertStepResponse,
+    isAxisStepResponseModel,
+    scaleStepResponseModel,
+} from '../stepResponseModel';
+
+// Saturating mount: 0.001/step near home, flattening towards the limits
+const SAMPLES = [
+    { steps: 1200, displacement: 0.9 },
+    { steps: 600, displacement: 0.6 },
+    { steps: -600, displacement: -0.6 },
+    { steps: -1200, displacement: -0.9 },
+];
+
+describe('stepResponseModel', () => {
+    describe('getStepResponseSamplePositions', () => {
+        it('spreads positions over both directions as one sweep', () => {
+            expect(getStepResponseSamplePositions(2, 1200)).toEqual([600, -600, -1200]);
+            expect(getStepResponseSamplePositions(2, -1200)).toEqual([-600, 600, 1200]);
+            expect(getStepResponseSamplePositions(0, 1200)).toEqual([]);
+        });
+    });
+
+    describe('fitStepResponseModel', () => {
+        it('adds home and sorts the knots by steps', () => {
+            const model = fitStepResponseModel(SAMPLES)!;
+            expect(model.points.map((p) => p.steps)).toEqual([-1200, -600, 0, 600, 1200]);
+            expect(evaluateStepResponse(model, 0)).toBe(0);
+        });
+
+        it('enforces a monotonic response for noisy samples', () => {
+            const model = fitStepResponseModel([
+                { steps: -400, displacement: 0.4 },
+                { steps: 400, displacement: -0.38 },
+                { steps: 800, displacement: -0.36 },
+            ])!;
+            const displacements = model.points.map((p) => p.displacement);
+            displacements.slice(1).forEach((value, index) => {
+                expect(value).toBeLessThanOrEqual(displacements[index]);
+            });
+            expect(evaluateStepResponse(model, 0)).toBe(0);
+        });
+
+        it('returns null without enough distinct positions or for a flat response', () => {
+            expect(fitStepResponseModel([{ steps: 600, displacement: 0.6 }])).toBeNull();
+            expect(
+                fitStepResponseModel([
+                    { steps: -600, displacement: 0 },
+                    { steps: 600, displacement: 0 },
+                ]),
+            ).toBeNull();
+        });
+    });
+
+    describe('evaluation', () => {
+        const model = fitStepResponseModel(SAMPLES)!;
+
+        it('interpolates between knots and extends the end segments', () => {
+            expect(evaluateStepResponse(model, 300)).toBeCloseTo(0.3, 9);
+            expect(evaluateStepResponse(model, 900)).toBeCloseTo(0.75, 9);
+            expect(evaluateStepResponse(model, 1500)).toBeCloseTo(1.05, 9);
+        });
+
+        it('inverts displacements back to steps', () => {
+            [-1500, -900, -100, 0, 450, 1100].forEach((steps) => {
+                const displacement = evaluateStepResponse(model, steps);
+                expect(invertStepResponse(model, displacement)).toBeCloseTo(steps, 6);
+            });
+        });
+
+        it('converts deltas relative to the starting position', () => {
+            expect(convertDisplacementToSteps(0.15, 0.001, model, 600)).toBeCloseTo(300, 6);
+            expect(convertDisplacementToSteps(0.15, 0.001, null, 600)).toBeCloseTo(150, 6);
+            expect(convertDisplacementToSteps(0.15, null, null)).toBeNull();
+        });
+
+        it('scales displacements and validates persisted models', () => {
+            const scaled = scaleStepResponseModel(model, 2);
+            expect(evaluateStepResponse(scaled, 900)).toBeCloseTo(1.5, 9);
+            expect(isAxisStepResponseModel(model)).toBe(true);
+            expect(isAxisStepResponseModel({ ...model, points: [...model.points].reverse() })).toBe(
+                false,
+            );
+            expect(isAxisStepResponseModel(null)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+
+import type { BlobMeasurement } from '@/types';
+
+import {
+    applyHomography,
+    buildWallHomography,
+    invertHomography,
+    isWallHomography,
+    orderQuadCorners,
+    rectifyMeasurement,
+    rectifyStepToDisplacement,
+    solveHomography,
+    unrectifyPoint,
+} from '../wallHomography';
+
+// Wall → camera projection of a camera looking at the wall from below and to the left
+const PROJECTION = [1, 0.1, 0.05, 0.02, 0.9, 0, 0.2, 0.1, 1];
+const toCamera = (x: number, y: number) => applyHomography(PROJECTION, { x, y });
+
+const SQUARE = [
+    { x: -0.5, y: -0.5 },
+    { x: 0.5, y: -0.5 },
+    { x: 0.5, y: 0.5 },
+    { x: -0.5, y: 0.5 },
+];
+const CAMERA = { sourceWidth: 1000, sourceHeight: 1000 };
+
+describe('wallHomography', () => {
+    describe('solveHomography', () => {
+        it('maps the four source points onto the destination points', () => {
+            const from = SQUARE.map((p) => toCamera(p.x, p.y));
+            const matrix = solveHomography(from, SQUARE)!;
+            from.forEach((point, index) => {
+                const mapped = applyHomography(matrix, point);
+                expect(mapped.x).toBeCloseTo(SQUARE[index].x, 9);
+                expect(mapped.y).toBeCloseTo(SQUARE[index].y, 9);
+            });
+        });
+
+        it('returns null for collinear points', () => {
+            const line = [0, 1, 2, 3].map((i) => ({ x: i * 0.1, y: i * 0.1 }));
+            expect(solveHomography(line, SQUARE)).toBeNull();
+        });
+
+        it('inverts back to the original points', () => {
+            const inverse = invertHomography(PROJECTION)!;
+            const camera = toCamera(0.3, -0.2);
+            const wall = applyHomography(inverse, camera);
+            expect(wall.x).toBeCloseTo(0.3, 9);
+            expect(wall.y).toBeCloseTo(-0.2, 9);
+        });
+    });
+
+    describe('orderQuadCorners', () => {
+        it('orders corners clockwise from top-left and ignores inner points', () => {
+            const corners = orderQuadCorners([
+                { x: 0.4, y: 0.5 },
+                { x: -0.5, y: -0.4 },
+                { x: 0, y: 0 },
+                { x: 0.5, y: -0.5 },
+                { x: -0.4, y: 0.4 },
+            ]);
+            expect(corners).toEqual([
+                { x: -0.5, y: -0.4 },
+                { x: 0.5, y: -0.5 },
+                { x: 0.4, y: 0.5 },
+                { x: -0.4, y: 0.4 },
+            ]);
+            expect(orderQuadCorners(SQUARE.slice(0, 3))).toBeNull();
+        });
+    });
+
+    describe('buildWallHomography', () => {
+        it('rectifies an evenly spaced wall grid back to even spacing', () => {
+            const cameraCorners = SQUARE.map((p) => toCamera(p.x, p.y));
+            const homography = buildWallHomography(
+                cameraCorners,
+                { width: 100, height: 100 },
+                CAMERA,
+                'manual',
+            )!;
+
+            const rectified = [-0.4, 0, 0.4].map((x) =>
+                applyHomography(homography.matrix, toCamera(x, 0.2)),
+            );
+            // Same row, equal spacing
+            expect(rectified[0].y).toBeCloseTo(rectified[2].y, 9);
+            expect(rectified[1].x - rectified[0].x).toBeCloseTo(rectified[2].x - rectified[1].x, 9);
+            expect(unrectifyPoint(rectified[1], homography).x).toBeCloseTo(toCamera(0, 0.2).x, 9);
+        });
+
+        it('keeps the reference aspect ratio in rectified space', () => {
+            const cameraCorners = SQUARE.map((p) => toCamera(p.x, p.y));
+            const homography = buildWallHomography(
+                cameraCorners,
+                { width: 200, height: 100 },
+                { sourceWidth: 1600, sourceHeight: 800 },
+                'fiducials',
+            )!;
+            const [tl, tr, , bl] = cameraCorners.map((p) => applyHomography(homography.matrix, p));
+            // 2:1 physically; centered units are half the frame size on each axis
+            const widthPx = (tr.x - tl.x) * 800;
+            const heightPx = (bl.y - tl.y) * 400;
+            expect(widthPx / heightPx).toBeCloseTo(2, 9);
+        });
+
+        it('rejects degenerate input and validates persisted values', () => {
+            expect(
+                buildWallHomography(SQUARE, { width: 0, height: 1 }, CAMERA, 'manual'),
+            ).toBeNull();
+            const homography = buildWallHomography(
+                SQUARE,
+                { width: 1, height: 1 },
+                CAMERA,
+                'manual',
+            );
+            expect(isWallHomography(homography)).toBe(true);
+            expect(isWallHomography({ ...homography, matrix: [1, 0, 0] })).toBe(false);
+            expect(isWallHomography(null)).toBe(false);
+        });
+    });
+
+    describe('rectification', () => {
+        const homography = buildWallHomography(
+            SQUARE.map((p) => toCamera(p.x, p.y)),
+            { width: 1, height: 1 },
+            CAMERA,
+            'manual',
+        )!;
+
+        it('maps measurement position and median together', () => {
+            const camera = toCamera(0.1, 0.1);
+            const measurement: BlobMeasurement = {
+                x: camera.x,
+                y: camera.y,
+                size: 0.05,
+                response: 1,
+                capturedAt: 0,
+                stats: {
+                    sampleCount: 3,
+                    thresholds: { minSamples: 3, maxMedianDeviationPt: 0.01 },
+                    median: { x: camera.x, y: camera.y, size: 0.05 },
+                    nMad: { x: 0, y: 0, size: 0 },
+                    passed: true,
+                },
+            };
+            const rectified = rectifyMeasurement(measurement, homography);
+            const expected = applyHomography(homography.matrix, camera);
+            expect(rectified.x).toBeCloseTo(expected.x, 9);
+            expect(rectified.stats?.median.y).toBeCloseTo(expected.y, 9);
+            expect(rectified.size).toBeGreaterThan(0);
+        });
+
+        it('linearises step displacements at the measured point', () => {
+            const at = toCamera(0, 0);
+            const perStep = rectifyStepToDisplacement({ x: 0.001, y: null }, at, homography);
+            const moved = applyHomography(homography.matrix, { x: at.x + 1, y: at.y });
+            const origin = applyHomography(homography.matrix, at);
+            // One thousandth of a unit step in camera x, matched to first order
+            expect(perStep.x).toBeCloseTo(((moved.x - origin.x) / 1) * 0.001, 3);
+            expect(perStep.y).toBeNull();
+        });
+    });
+});
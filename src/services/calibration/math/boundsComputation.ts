@@ -21,12 +21,15 @@
 
 import { MOTOR_MAX_POSITION_STEPS, MOTOR_MIN_POSITION_STEPS } from '@/constants/control';
 import type {
+    AxisStepResponseModel,
     CalibrationGridBlueprint,
     CalibrationProfileBounds,
     CalibrationTilePosition,
 } from '@/types';
 import { STEP_EPSILON, clampNormalized } from '@/utils/calibrationMath';
 
+import { evaluateStepResponse } from './stepResponseModel';
+
 /**
  * Step-to-displacement vector for X and Y axes.
  * Values are in centered coordinates per motor step.
@@ -36,6 +39,12 @@ export type StepVector = {
     y: number | null;
 };
 
+/** Optional per-axis response curves from a multi-point step test. */
+export type StepResponseModels = {
+    x: AxisStepResponseModel | null;
+    y: AxisStepResponseModel | null;
+};
+
 /**
  * Compute bounds for a single axis.
  * Returns the min/max normalized position the tile can reach based on motor limits.
@@ -43,12 +52,14 @@ export type StepVector = {
  * @param center - Current position in centered coordinates
  * @param centerSteps - Motor step position at the center position
  * @param perStep - Displacement per motor step (centered coords per step)
+ * @param model - Non-linear step response, used instead of perStep when present
  * @returns Bounds { min, max } or null if data is insufficient
  */
 export function computeAxisBounds(
     center: number | null,
     centerSteps: number | null,
     perStep: number | null,
+    model: AxisStepResponseModel | null = null,
 ): { min: number; max: number } | null {
     if (
         center == null ||
@@ -58,6 +69,16 @@ export function computeAxisBounds(
     ) {
         return null;
     }
+    if (model) {
+        const atCenter = evaluateStepResponse(model, centerSteps);
+        const reachA = clampNormalized(
+            center + evaluateStepResponse(model, MOTOR_MIN_POSITION_STEPS) - atCenter,
+        );
+        const reachB = clampNormalized(
+            center + evaluateStepResponse(model, MOTOR_MAX_POSITION_STEPS) - atCenter,
+        );
+        return { min: Math.min(reachA, reachB), max: Math.max(reachA, reachB) };
+    }
     const deltaMin = MOTOR_MIN_POSITION_STEPS - centerSteps;
     const deltaMax = MOTOR_MAX_POSITION_STEPS - centerSteps;
     const candidateA = clampNormalized(center + deltaMin * perStep);
@@ -74,17 +95,29 @@ export function computeAxisBounds(
  *
  * @param adjustedHome - Calibrated home position with motor step values
  * @param stepToDisplacement - Displacement per step for each axis
+ * @param stepResponse - Optional non-linear response per axis
  * @returns Bounds in centered coordinates or null if data is insufficient
  */
 export function computeTileBounds(
     adjustedHome: CalibrationTilePosition | null,
     stepToDisplacement: StepVector,
+    stepResponse?: StepResponseModels | null,
 ): CalibrationProfileBounds | null {
     if (!adjustedHome) {
         return null;
     }
-    const boundsX = computeAxisBounds(adjustedHome.x, adjustedHome.stepsX, stepToDisplacement.x);
-    const boundsY = computeAxisBounds(adjustedHome.y, adjustedHome.stepsY, stepToDisplacement.y);
+    const boundsX = computeAxisBounds(
+        adjustedHome.x,
+        adjustedHome.stepsX,
+        stepToDisplacement.x,
+        stepResponse?.x,
+    );
+    const boundsY = computeAxisBounds(
+        adjustedHome.y,
+        adjustedHome.stepsY,
+        stepToDisplacement.y,
+        stepResponse?.y,
+    );
     if (!boundsX || !boundsY) {
         return null;
     }
@@ -102,15 +135,17 @@ export function computeTileBounds(
  *
  * @param homePosition - Raw home measurement position (centered coords)
  * @param stepToDisplacement - Displacement per step for each axis (from step tests)
+ * @param stepResponse - Optional non-linear response per axis
  * @returns Bounds in centered coordinates or null if data is insufficient
  */
 export function computeLiveTileBounds(
     homePosition: { x: number; y: number },
     stepToDisplacement: StepVector,
+    stepResponse?: StepResponseModels | null,
 ): CalibrationProfileBounds | null {
     // Motors are at step 0 when home measurement is taken (after homing)
-    const boundsX = computeAxisBounds(homePosition.x, 0, stepToDisplacement.x);
-    const boundsY = computeAxisBounds(homePosition.y, 0, stepToDisplacement.y);
+    const boundsX = computeAxisBounds(homePosition.x, 0, stepToDisplacement.x, stepResponse?.x);
+    const boundsY = computeAxisBounds(homePosition.y, 0, stepToDisplacement.y, stepResponse?.y);
     if (!boundsX || !boundsY) {
         return null;
     }
@@ -0,0 +1,222 @@
+/**
+ * Step Response Model Module
+ *
+ * Pure functions for the non-linear displacement-versus-steps model of a motor
+ * axis, fitted from a multi-point step test.
+ *
+ * A single `deltaSteps` test gives one linear `perStep` ratio, but mirror-mount
+ * geometry bends the response near the travel limits. Sampling each axis at
+ * several step positions lets us fit a monotonic piecewise-linear curve and
+ * invert it when converting targets to steps.
+ *
+ * ## Coordinate Space
+ *
+ * Displacements are in **centered normalized coordinates** relative to the
+ * home measurement, so the curve passes through (0 steps, 0 displacement).
+ * Outside the sampled range the end segments are extended linearly.
+ */
+
+import { MOTOR_MAX_POSITION_STEPS, MOTOR_MIN_POSITION_STEPS } from '@/constants/control';
+import type { AxisStepResponseModel, StepResponsePoint } from '@/types';
+import { STEP_EPSILON, convertDeltaToSteps } from '@/utils/calibrationMath';
+
+/** Minimum distinct step positions (home included) needed to fit a curve */
+const MIN_MODEL_POINTS = 3;
+
+// =============================================================================
+// SAMPLING
+// =============================================================================
+
+/**
+ * Step positions for the extended step test: `samplesPerDirection` evenly
+ * spaced positions towards each travel limit. The position already covered by
+ * the full step test is left out. Positions are ordered as one sweep starting
+ * on the side of the full step test, so the motor never doubles back.
+ *
+ * @param samplesPerDirection - Positions per direction (0 disables sampling)
+ * @param fullDeltaSteps - Signed step position of the full step test
+ */
+export function getStepResponseSamplePositions(
+    samplesPerDirection: number,
+    fullDeltaSteps: number,
+): number[] {
+    const count = Math.max(0, Math.floor(samplesPerDirection));
+    const positions = new Set<number>();
+    for (let k = 1; k <= count; k++) {
+        positions.add(Math.round((MOTOR_MAX_POSITION_STEPS * k) / count));
+        positions.add(Math.round((MOTOR_MIN_POSITION_STEPS * k) / count));
+    }
+    positions.delete(fullDeltaSteps);
+    return Array.from(positions).sort((a, b) => (fullDeltaSteps >= 0 ? b - a : a - b));
+}
+
+// =============================================================================
+// FITTING
+// =============================================================================
+
+/**
+ * Pool-adjacent-violators: least-squares non-decreasing fit of `values`.
+ */
+function fitNonDecreasing(values: number[]): number[] {
+    const blocks: Array<{ mean: number; count: number }> = [];
+    for (const value of values) {
+        blocks.push({ mean: value, count: 1 });
+        while (
+            blocks.length > 1 &&
+            blocks[blocks.length - 2].mean > blocks[blocks.length - 1].mean
+        ) {
+            const last = blocks.pop()!;
+            const prev = blocks[blocks.length - 1];
+            const count = prev.count + last.count;
+            prev.mean = (prev.mean * prev.count + last.mean * last.count) / count;
+            prev.count = count;
+        }
+    }
+    return blocks.flatMap((block) => Array<number>(block.count).fill(block.mean));
+}
+
+/**
+ * Fit a monotonic piecewise-linear step response from measured samples.
+ *
+ * The direction (increasing or decreasing) follows the least-squares slope
+ * through home. Samples at the same step position are averaged, the home point
+ * is added when missing, and the curve is shifted so it passes through home.
+ *
+ * @param samples - Measured displacement at each step position
+ * @returns Fitted model, or null with fewer than three distinct positions or a flat response
+ */
+export function fitStepResponseModel(samples: StepResponsePoint[]): AxisStepResponseModel | null {
+    const byStep = new Map<number, number[]>([[0, [0]]]);
+    for (const { steps, displacement } of samples) {
+        if (!Number.isFinite(steps) || !Number.isFinite(displacement) || steps === 0) {
+            continue;
+        }
+        byStep.set(steps, [...(byStep.get(steps) ?? []), displacement]);
+    }
+    if (byStep.size < MIN_MODEL_POINTS) {
+        return null;
+    }
+    const sorted = Array.from(byStep.entries())
+        .map(([steps, values]) => ({
+            steps,
+            displacement: values.reduce((sum, value) => sum + value, 0) / values.length,
+        }))
+        .sort((a, b) => a.steps - b.steps);
+
+    const slopeNumerator = sorted.reduce((sum, p) => sum + p.steps * p.displacement, 0);
+    const direction = slopeNumerator >= 0 ? 1 : -1;
+    const fitted = fitNonDecreasing(sorted.map((p) => p.displacement * direction)).map(
+        (value) => value * direction,
+    );
+    const homeIndex = sorted.findIndex((p) => p.steps === 0);
+    const homeOffset = fitted[homeIndex];
+    const points = sorted.map((p, index) => ({
+        steps: p.steps,
+        displacement: fitted[index] - homeOffset,
+    }));
+
+    const span = Math.abs(points[points.length - 1].displacement - points[0].displacement);
+    return span < STEP_EPSILON ? null : { kind: 'piecewise-linear', points };
+}
+
+// =============================================================================
+// EVALUATION
+// =============================================================================
+
+/** Index of the segment used for `value` along `key`, extending the end segments. */
+function findSegment(points: StepResponsePoint[], value: number, key: keyof StepResponsePoint) {
+    const ascending = points[points.length - 1][key] >= points[0][key];
+    let index = 0;
+    while (
+        index < points.length - 2 &&
+        (ascending ? value > points[index + 1][key] : value < points[index + 1][key])
+    ) {
+        index += 1;
+    }
+    return index;
+}
+
+/** Displacement from home at a motor step position. */
+export function evaluateStepResponse(model: AxisStepResponseModel, steps: number): number {
+    const { points } = model;
+    const i = findSegment(points, steps, 'steps');
+    const a = points[i];
+    const b = points[i + 1];
+    return (
+        a.displacement +
+        ((steps - a.steps) * (b.displacement - a.displacement)) / (b.steps - a.steps)
+    );
+}
+
+/**
+ * Motor step position producing a displacement from home.
+ * Returns null when the curve is flat at that displacement.
+ */
+export function invertStepResponse(
+    model: AxisStepResponseModel,
+    displacement: number,
+): number | null {
+    const { points } = model;
+    const i = findSegment(points, displacement, 'displacement');
+    const a = points[i];
+    const b = points[i + 1];
+    const rise = b.displacement - a.displacement;
+    if (Math.abs(rise) < STEP_EPSILON) {
+        return null;
+    }
+    const steps = a.steps + ((displacement - a.displacement) * (b.steps - a.steps)) / rise;
+    return Number.isFinite(steps) ? steps : null;
+}
+
+/**
+ * Steps needed to move a displacement `delta` from the motor position
+ * `fromSteps`. Uses the response model when a valid one was fitted and falls
+ * back to the linear `perStep` ratio otherwise.
+ */
+export function convertDisplacementToSteps(
+    delta: number,
+    perStep: number | null,
+    model: AxisStepResponseModel | null | undefined,
+    fromSteps = 0,
+): number | null {
+    if (!isAxisStepResponseModel(model)) {
+        return convertDeltaToSteps(delta, perStep);
+    }
+    const targetSteps = invertStepResponse(model, evaluateStepResponse(model, fromSteps) + delta);
+    return targetSteps === null ? null : targetSteps - fromSteps;
+}
+
+/** Scale every displacement of a model, e.g. when rectifying to wall space. */
+export function scaleStepResponseModel(
+    model: AxisStepResponseModel,
+    factor: number,
+): AxisStepResponseModel {
+    return {
+        ...model,
+        points: model.points.map((p) => ({
+            steps: p.steps,
+            displacement: p.displacement * factor,
+        })),
+    };
+}
+
+/** Runtime check for persisted or imported models. */
+export function isAxisStepResponseModel(value: unknown): value is AxisStepResponseModel {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const candidate = value as Partial<AxisStepResponseModel>;
+    return (
+        candidate.kind === 'piecewise-linear' &&
+        Array.isArray(candidate.points) &&
+        candidate.points.length >= 2 &&
+        candidate.points.every(
+            (p, index, all) =>
+                typeof p === 'object' &&
+                p !== null &&
+                Number.isFinite(p.steps) &&
+                Number.isFinite(p.displacement) &&
+                (index === 0 || p.steps > all[index - 1].steps),
+        )
+    );
+}
@@ -0,0 +1,309 @@
+/**
+ * Wall Homography Module
+ *
+ * Pure functions for correcting camera perspective onto the wall plane.
+ *
+ * When the camera is not square-on to the wall, centered camera coordinates
+ * skew tile spacing and bounds. A homography fitted to four reference points
+ * on the wall maps every measurement into rectified wall space before the
+ * blueprint and bounds are computed.
+ *
+ * ## Coordinate Space
+ *
+ * Both sides use **centered normalized coordinates** (-1 to 1, +y down). The
+ * reference rectangle is placed at the centroid of its camera quad, with the
+ * quad's pixel area and the rectangle's physical aspect ratio. The rectified
+ * space therefore stays close to camera space around the array.
+ */
+
+import type { BlobMeasurement, WallHomography } from '@/types';
+
+type Point = { x: number; y: number };
+
+/** Pivot magnitude below which the reference points are treated as degenerate */
+const SINGULAR_EPSILON = 1e-12;
+
+// =============================================================================
+// MATRIX MATH
+// =============================================================================
+
+/**
+ * Solve the homography mapping four source points onto four destination points.
+ * Returns a row-major 3×3 matrix normalised so the last entry is 1, or null when
+ * three or more points are collinear.
+ */
+export function solveHomography(from: Point[], to: Point[]): number[] | null {
+    if (from.length !== 4 || to.length !== 4) {
+        return null;
+    }
+    // Two rows per correspondence of the DLT system A·h = b with h33 fixed to 1
+    const rows: number[][] = [];
+    for (let i = 0; i < 4; i++) {
+        const { x, y } = from[i];
+        const { x: u, y: v } = to[i];
+        rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+        rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+    }
+
+    // Gaussian elimination with partial pivoting
+    for (let col = 0; col < 8; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < 8; row++) {
+            if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) {
+                pivot = row;
+            }
+        }
+        if (Math.abs(rows[pivot][col]) < SINGULAR_EPSILON) {
+            return null;
+        }
+        [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+        for (let row = 0; row < 8; row++) {
+            if (row === col) {
+                continue;
+            }
+            const factor = rows[row][col] / rows[col][col];
+            for (let k = col; k < 9; k++) {
+                rows[row][k] -= factor * rows[col][k];
+            }
+        }
+    }
+    const h = rows.map((row, i) => row[8] / row[i]);
+    return [...h, 1];
+}
+
+/** Map a point through a homography. */
+export function applyHomography(matrix: number[], point: Point): Point {
+    const [a, b, c, d, e, f, g, h, i] = matrix;
+    const w = g * point.x + h * point.y + i;
+    return {
+        x: (a * point.x + b * point.y + c) / w,
+        y: (d * point.x + e * point.y + f) / w,
+    };
+}
+
+/** Inverse homography, normalised so the last entry is 1. Null when singular. */
+export function invertHomography(matrix: number[]): number[] | null {
+    const [a, b, c, d, e, f, g, h, i] = matrix;
+    const co00 = e * i - f * h;
+    const co01 = f * g - d * i;
+    const co02 = d * h - e * g;
+    const det = a * co00 + b * co01 + c * co02;
+    if (Math.abs(det) < SINGULAR_EPSILON) {
+        return null;
+    }
+    const adjugate = [
+        co00,
+        c * h - b * i,
+        b * f - c * e,
+        co01,
+        a * i - c * g,
+        c * d - a * f,
+        co02,
+        b * g - a * h,
+        a * e - b * d,
+    ];
+    const scale = adjugate[8];
+    return Math.abs(scale) < SINGULAR_EPSILON
+        ? adjugate.map((value) => value / det)
+        : adjugate.map((value) => value / scale);
+}
+
+/**
+ * Local linearisation of a homography at a point:
+ * `[[du/dx, du/dy], [dv/dx, dv/dy]]`.
+ */
+export function homographyJacobian(matrix: number[], point: Point): [number[], number[]] {
+    const [a, b, , d, e, , g, h, i] = matrix;
+    const w = g * point.x + h * point.y + i;
+    const { x: u, y: v } = applyHomography(matrix, point);
+    return [
+        [(a - u * g) / w, (b - u * h) / w],
+        [(d - v * g) / w, (e - v * h) / w],
+    ];
+}
+
+// =============================================================================
+// REFERENCE POINTS
+// =============================================================================
+
+/**
+ * Order four corner points as top-left, top-right, bottom-right, bottom-left.
+ * With more than four points (e.g. detected fiducials plus stray reflections)
+ * the outermost point in each diagonal direction is used. Returns null when
+ * the picks are not four distinct points.
+ */
+export function orderQuadCorners(points: Point[]): Point[] | null {
+    if (points.length < 4) {
+        return null;
+    }
+    const pick = (score: (point: Point) => number) =>
+        points.reduce((best, point) => (score(point) > score(best) ? point : best));
+    const corners = [
+        pick((p) => -(p.x + p.y)),
+        pick((p) => p.x - p.y),
+        pick((p) => p.x + p.y),
+        pick((p) => p.y - p.x),
+    ];
+    return new Set(corners).size === 4 ? corners : null;
+}
+
+/**
+ * Rectified reference rectangle for a camera quad: centred on the quad's
+ * centroid, with its pixel area and the physical aspect ratio.
+ */
+export function computeReferenceRectangle(
+    cameraPoints: Point[],
+    referenceSize: { width: number; height: number },
+    camera: { sourceWidth: number; sourceHeight: number },
+): Point[] {
+    const halfW = camera.sourceWidth / 2;
+    const halfH = camera.sourceHeight / 2;
+    const pixels = cameraPoints.map((p) => ({ x: p.x * halfW, y: p.y * halfH }));
+    const distance = (p: Point, q: Point) => Math.hypot(p.x - q.x, p.y - q.y);
+    const [tl, tr, br, bl] = pixels;
+    const widthPx = (distance(tl, tr) + distance(bl, br)) / 2;
+    const heightPx = (distance(tl, bl) + distance(tr, br)) / 2;
+    const scale = Math.sqrt((widthPx * heightPx) / (referenceSize.width * referenceSize.height));
+    const rectW = referenceSize.width * scale;
+    const rectH = referenceSize.height * scale;
+    const cx = pixels.reduce((sum, p) => sum + p.x, 0) / 4;
+    const cy = pixels.reduce((sum, p) => sum + p.y, 0) / 4;
+    return [
+        { x: cx - rectW / 2, y: cy - rectH / 2 },
+        { x: cx + rectW / 2, y: cy - rectH / 2 },
+        { x: cx + rectW / 2, y: cy + rectH / 2 },
+        { x: cx - rectW / 2, y: cy + rectH / 2 },
+    ].map((p) => ({ x: p.x / halfW, y: p.y / halfH }));
+}
+
+/**
+ * Fit a wall homography to four camera reference corners (top-left, top-right,
+ * bottom-right, bottom-left) of a rectangle with known physical size.
+ */
+export function buildWallHomography(
+    cameraPoints: Point[],
+    referenceSize: { width: number; height: number },
+    camera: { sourceWidth: number; sourceHeight: number },
+    method: WallHomography['method'],
+): WallHomography | null {
+    if (
+        cameraPoints.length !== 4 ||
+        !(referenceSize.width > 0) ||
+        !(referenceSize.height > 0) ||
+        !(camera.sourceWidth > 0) ||
+        !(camera.sourceHeight > 0)
+    ) {
+        return null;
+    }
+    const matrix = solveHomography(
+        cameraPoints,
+        computeReferenceRectangle(cameraPoints, referenceSize, camera),
+    );
+    if (!matrix) {
+        return null;
+    }
+    return {
+        matrix,
+        cameraPoints: cameraPoints.map(({ x, y }) => ({ x, y })),
+        referenceSize: { width: referenceSize.width, height: referenceSize.height },
+        method,
+    };
+}
+
+const isFinitePoint = (value: unknown): value is Point =>
+    typeof value === 'object' &&
+    value !== null &&
+    Number.isFinite((value as Point).x) &&
+    Number.isFinite((value as Point).y);
+
+/** Runtime check for persisted or imported homographies. */
+export function isWallHomography(value: unknown): value is WallHomography {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const candidate = value as Partial<WallHomography>;
+    return (
+        Array.isArray(candidate.matrix) &&
+        candidate.matrix.length === 9 &&
+        candidate.matrix.every(Number.isFinite) &&
+        Array.isArray(candidate.cameraPoints) &&
+        candidate.cameraPoints.length === 4 &&
+        candidate.cameraPoints.every(isFinitePoint) &&
+        typeof candidate.referenceSize === 'object' &&
+        candidate.referenceSize !== null &&
+        Number.isFinite(candidate.referenceSize.width) &&
+        Number.isFinite(candidate.referenceSize.height) &&
+        (candidate.method === 'manual' || candidate.method === 'fiducials')
+    );
+}
+
+// =============================================================================
+// RECTIFICATION
+// =============================================================================
+
+/**
+ * Map a blob measurement into rectified wall space. The size is scaled by the
+ * local area change so blob size stays comparable across the wall.
+ */
+export function rectifyMeasurement(
+    measurement: BlobMeasurement,
+    homography: WallHomography,
+): BlobMeasurement {
+    const { matrix } = homography;
+    const position = applyHomography(matrix, measurement);
+    const [[dudx, dudy], [dvdx, dvdy]] = homographyJacobian(matrix, measurement);
+    const sizeScale = Math.sqrt(Math.abs(dudx * dvdy - dudy * dvdx));
+    const stats = measurement.stats
+        ? {
+              ...measurement.stats,
+              median: {
+                  ...applyHomography(matrix, measurement.stats.median),
+                  size: measurement.stats.median.size * sizeScale,
+              },
+          }
+        : undefined;
+    return {
+        ...measurement,
+        x: position.x,
+        y: position.y,
+        size: measurement.size * sizeScale,
+        stats,
+    };
+}
+
+/**
+ * Map per-step displacements measured at `at` into rectified wall space. Each
+ * axis keeps the component along its own direction.
+ */
+export function rectifyStepToDisplacement(
+    stepToDisplacement: { x: number | null; y: number | null },
+    at: Point,
+    homography: WallHomography,
+): { x: number | null; y: number | null } {
+    const [[dudx], [, dvdy]] = homographyJacobian(homography.matrix, at);
+    return {
+        x: stepToDisplacement.x === null ? null : stepToDisplacement.x * dudx,
+        y: stepToDisplacement.y === null ? null : stepToDisplacement.y * dvdy,
+    };
+}
+
+/** Map a rectified point back to centered camera coordinates. */
+export function unrectifyPoint(point: Point, homography: WallHomography): Point {
+    const inverse = invertHomography(homography.matrix);
+    return inverse ? applyHomography(inverse, point) : point;
+}
+
+/** Inverse of `rectifyStepToDisplacement`, linearised at a rectified point. */
+export function unrectifyStepToDisplacement(
+    stepToDisplacement: { x: number | null; y: number | null },
+    rectifiedAt: Point,
+    homography: WallHomography,
+): { x: number | null; y: number | null } {
+    const inverse = invertHomography(homography.matrix);
+    return inverse
+        ? rectifyStepToDisplacement(stepToDisplacement, rectifiedAt, {
+              ...homography,
+              matrix: inverse,
+          })
+        : stepToDisplacement;
+}
@@ -0,0 +1,402 @@
+/**
+ * Profile Diff Module
+ *
+ * Pure functions for comparing two calibration profiles of the same array.
+ * Produces per-tile deltas (home position, step-to-displacement, bounds, blob size),
+ * flags tiles that drifted beyond a threshold and summarises blueprint changes.
+ * Used to decide whether an array needs recalibration after transport or a
+ * temperature change.
+ */
+
+import type {
+    CalibrationGridBlueprint,
+    CalibrationProfile,
+    CalibrationProfileBounds,
+    CalibrationTileStatus,
+    TileCalibrationResults,
+} from '@/types';
+
+import {
+    computeMedian,
+    computeNormalizedMAD,
+    DEFAULT_OUTLIER_MAD_THRESHOLD,
+    detectOutliersWithKeys,
+} from './math/robustStatistics';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Why a tile was flagged as drifted. */
+export type TileDriftReason =
+    | 'home-drift'
+    | 'home-outlier'
+    | 'step-scale'
+    | 'bounds'
+    | 'blob-size'
+    | 'status';
+
+/** Before/after pair for a scalar value. */
+export interface ValueDelta {
+    before: number | null;
+    after: number | null;
+    /** after − before, or null when either side is missing */
+    delta: number | null;
+    /** delta / |before|, or null when before is missing or zero */
+    relative: number | null;
+}
+
+export interface TileProfileDiff {
+    key: string;
+    row: number;
+    col: number;
+    statusBefore: CalibrationTileStatus | null;
+    statusAfter: CalibrationTileStatus | null;
+    /** Change in `adjustedHome` (centered coords). */
+    homeShift: { dx: number; dy: number; magnitude: number } | null;
+    /**
+     * Home shift after removing the array-wide shift, as a fraction of the tile
+     * footprint. This is what the mirror itself moved relative to its neighbours.
+     */
+    residualDrift: number | null;
+    stepToDisplacement: { x: ValueDelta; y: ValueDelta };
+    /** Largest edge movement of `combinedBounds`, as a fraction of the tile footprint. */
+    boundsShift: number | null;
+    blobSize: ValueDelta;
+    reasons: TileDriftReason[];
+}
+
+export interface BlueprintDiff {
+    footprintWidth: ValueDelta;
+    footprintHeight: ValueDelta;
+    tileGapX: ValueDelta;
+    tileGapY: ValueDelta;
+    gridOriginShift: { dx: number; dy: number };
+    cameraOriginShift: { dx: number; dy: number };
+}
+
+export interface ProfileDiffThresholds {
+    /** Residual home drift, as a fraction of the tile footprint. Default: 0.05 */
+    homeDrift: number;
+    /** Relative step-to-displacement change on either axis. Default: 0.1 */
+    stepScale: number;
+    /** Largest bounds edge movement, as a fraction of the tile footprint. Default: 0.1 */
+    bounds: number;
+    /** Relative blob size change. Default: 0.15 */
+    blobSize: number;
+    /** MAD multiplier for flagging tiles that drifted unlike the rest. Default: 3.0 */
+    madThreshold: number;
+}
+
+export type RecalibrationAdvice = 'none' | 'tiles' | 'full';
+
+export interface ProfileDiffReport {
+    tiles: TileProfileDiff[];
+    flaggedTileKeys: string[];
+    /** Median home shift across tiles (camera or whole array moved). */
+    commonShift: { dx: number; dy: number } | null;
+    /** Robust statistics of residual drift across compared tiles. */
+    residualDriftStats: { median: number; nMad: number; count: number };
+    blueprint: BlueprintDiff | null;
+    /** Relative footprint change, the headline blueprint number. */
+    footprintChange: number | null;
+    /** Reasons the comparison may be unreliable (different grid, rotation, wiring). */
+    warnings: string[];
+    advice: RecalibrationAdvice;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const DEFAULT_PROFILE_DIFF_THRESHOLDS: ProfileDiffThresholds = {
+    homeDrift: 0.05,
+    stepScale: 0.1,
+    bounds: 0.1,
+    blobSize: 0.15,
+    madThreshold: DEFAULT_OUTLIER_MAD_THRESHOLD,
+};
+
+/** Share of flagged tiles above which a full recalibration is advised. */
+const FULL_RECALIBRATION_TILE_SHARE = 0.25;
+
+/** Footprint change above which the blueprint is considered stale. */
+const FULL_RECALIBRATION_FOOTPRINT_CHANGE = 0.05;
+
+const CALIBRATED_STATUSES: ReadonlySet<CalibrationTileStatus> = new Set(['completed', 'partial']);
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function computeValueDelta(
+    before: number | null | undefined,
+    after: number | null | undefined,
+): ValueDelta {
+    const a = typeof before === 'number' && Number.isFinite(before) ? before : null;
+    const b = typeof after === 'number' && Number.isFinite(after) ? after : null;
+    const delta = a !== null && b !== null ? b - a : null;
+    return {
+        before: a,
+        after: b,
+        delta,
+        relative: delta !== null && a !== null && a !== 0 ? delta / Math.abs(a) : null,
+    };
+}
+
+const isCalibrated = (tile: TileCalibrationResults | undefined): boolean =>
+    Boolean(tile && CALIBRATED_STATUSES.has(tile.status));
+
+/**
+ * Characteristic tile size used to express drift as a fraction of a tile.
+ * Falls back to 1 (raw centered units) when neither profile has a blueprint.
+ */
+function resolveFootprintScale(
+    before: CalibrationGridBlueprint | null,
+    after: CalibrationGridBlueprint | null,
+): number {
+    const footprint = (after ?? before)?.adjustedTileFootprint;
+    if (!footprint) {
+        return 1;
+    }
+    const size = (footprint.width + footprint.height) / 2;
+    return size > 0 ? size : 1;
+}
+
+function computeBoundsShift(
+    before: CalibrationProfileBounds | null,
+    after: CalibrationProfileBounds | null,
+): number | null {
+    if (!before || !after) {
+        return null;
+    }
+    return Math.max(
+        Math.abs(after.x.min - before.x.min),
+        Math.abs(after.x.max - before.x.max),
+        Math.abs(after.y.min - before.y.min),
+        Math.abs(after.y.max - before.y.max),
+    );
+}
+
+function computeBlueprintDiff(
+    before: CalibrationGridBlueprint | null,
+    after: CalibrationGridBlueprint | null,
+): BlueprintDiff | null {
+    if (!before || !after) {
+        return null;
+    }
+    return {
+        footprintWidth: computeValueDelta(
+            before.adjustedTileFootprint.width,
+            after.adjustedTileFootprint.width,
+        ),
+        footprintHeight: computeValueDelta(
+            before.adjustedTileFootprint.height,
+            after.adjustedTileFootprint.height,
+        ),
+        tileGapX: computeValueDelta(before.tileGap.x, after.tileGap.x),
+        tileGapY: computeValueDelta(before.tileGap.y, after.tileGap.y),
+        gridOriginShift: {
+            dx: after.gridOrigin.x - before.gridOrigin.x,
+            dy: after.gridOrigin.y - before.gridOrigin.y,
+        },
+        cameraOriginShift: {
+            dx: after.cameraOriginOffset.x - before.cameraOriginOffset.x,
+            dy: after.cameraOriginOffset.y - before.cameraOriginOffset.y,
+        },
+    };
+}
+
+/** True when the profiles describe a different array layout or wiring. */
+const isDifferentLayout = (before: CalibrationProfile, after: CalibrationProfile): boolean =>
+    before.gridSize.rows !== after.gridSize.rows ||
+    before.gridSize.cols !== after.gridSize.cols ||
+    before.arrayRotation !== after.arrayRotation ||
+    before.gridStateFingerprint.hash !== after.gridStateFingerprint.hash;
+
+function collectWarnings(before: CalibrationProfile, after: CalibrationProfile): string[] {
+    const warnings: string[] = [];
+    if (
+        before.gridSize.rows !== after.gridSize.rows ||
+        before.gridSize.cols !== after.gridSize.cols
+    ) {
+        warnings.push(
+            `Grid size differs (${before.gridSize.rows}×${before.gridSize.cols} vs ${after.gridSize.rows}×${after.gridSize.cols}); only shared tiles are compared.`,
+        );
+    }
+    if (before.arrayRotation !== after.arrayRotation) {
+        warnings.push(
+            `Array rotation differs (${before.arrayRotation}° vs ${after.arrayRotation}°).`,
+        );
+    }
+    if (before.gridStateFingerprint.hash !== after.gridStateFingerprint.hash) {
+        warnings.push('Motor assignments differ between the profiles.');
+    }
+    if (before.stepTestSettings.deltaSteps !== after.stepTestSettings.deltaSteps) {
+        warnings.push('Step test distance differs; step-to-displacement may not be comparable.');
+    }
+    return warnings;
+}
+
+// =============================================================================
+// MAIN FUNCTION
+// =============================================================================
+
+/**
+ * Compare two calibration profiles tile by tile.
+ *
+ * Home drift is measured after removing the median shift of all tiles, so a
+ * camera that moved between runs does not flag every tile. Tiles whose residual
+ * drift is a robust outlier (MAD-based) are flagged even below the absolute
+ * threshold, provided they moved at least half of it.
+ */
+export function compareCalibrationProfiles(
+    before: CalibrationProfile,
+    after: CalibrationProfile,
+    thresholds: Partial<ProfileDiffThresholds> = {},
+): ProfileDiffReport {
+    const limits = { ...DEFAULT_PROFILE_DIFF_THRESHOLDS, ...thresholds };
+    const scale = resolveFootprintScale(before.gridBlueprint, after.gridBlueprint);
+
+    const keys = Array.from(
+        new Set([...Object.keys(before.tiles), ...Object.keys(after.tiles)]),
+    ).filter((key) => before.tiles[key] || after.tiles[key]);
+
+    // Home shifts of tiles calibrated in both profiles
+    const shifts = new Map<string, { dx: number; dy: number }>();
+    for (const key of keys) {
+        const a = before.tiles[key];
+        const b = after.tiles[key];
+        if (isCalibrated(a) && isCalibrated(b) && a.adjustedHome && b.adjustedHome) {
+            shifts.set(key, {
+                dx: b.adjustedHome.x - a.adjustedHome.x,
+                dy: b.adjustedHome.y - a.adjustedHome.y,
+            });
+        }
+    }
+    const shiftList = Array.from(shifts.values());
+    const commonShift =
+        shiftList.length > 0
+            ? {
+                  dx: computeMedian(shiftList.map((shift) => shift.dx)),
+                  dy: computeMedian(shiftList.map((shift) => shift.dy)),
+              }
+            : null;
+
+    const residuals = Array.from(shifts.entries()).map(([key, shift]) => ({
+        key,
+        value:
+            Math.hypot(shift.dx - (commonShift?.dx ?? 0), shift.dy - (commonShift?.dy ?? 0)) /
+            scale,
+    }));
+    const residualByKey = new Map(residuals.map((entry) => [entry.key, entry.value]));
+    const outlierAnalysis = detectOutliersWithKeys(residuals, (entry) => entry.value, {
+        madThreshold: limits.madThreshold,
+        direction: 'high',
+    });
+    const outlierKeys = new Set(outlierAnalysis.outliers.map((entry) => entry.key));
+    const residualMedian = computeMedian(residuals.map((entry) => entry.value));
+
+    const tiles = keys.map((key): TileProfileDiff => {
+        const a = before.tiles[key];
+        const b = after.tiles[key];
+        const reference = b ?? a;
+        const shift = shifts.get(key) ?? null;
+        const residualDrift = residualByKey.get(key) ?? null;
+        const stepToDisplacement = {
+            x: computeValueDelta(a?.stepToDisplacement.x, b?.stepToDisplacement.x),
+            y: computeValueDelta(a?.stepToDisplacement.y, b?.stepToDisplacement.y),
+        };
+        const rawBoundsShift = computeBoundsShift(
+            a?.combinedBounds ?? null,
+            b?.combinedBounds ?? null,
+        );
+        const boundsShift = rawBoundsShift === null ? null : rawBoundsShift / scale;
+        const blobSize = computeValueDelta(a?.homeMeasurement?.size, b?.homeMeasurement?.size);
+
+        const reasons: TileDriftReason[] = [];
+        if (isCalibrated(a) !== isCalibrated(b)) {
+            reasons.push('status');
+        }
+        if (residualDrift !== null && residualDrift > limits.homeDrift) {
+            reasons.push('home-drift');
+        } else if (
+            residualDrift !== null &&
+            outlierKeys.has(key) &&
+            residualDrift > limits.homeDrift / 2
+        ) {
+            reasons.push('home-outlier');
+        }
+        if (
+            [stepToDisplacement.x, stepToDisplacement.y].some(
+                (axis) => axis.relative !== null && Math.abs(axis.relative) > limits.stepScale,
+            )
+        ) {
+            reasons.push('step-scale');
+        }
+        if (boundsShift !== null && boundsShift > limits.bounds) {
+            reasons.push('bounds');
+        }
+        if (blobSize.relative !== null && Math.abs(blobSize.relative) > limits.blobSize) {
+            reasons.push('blob-size');
+        }
+
+        return {
+            key,
+            row: reference.row,
+            col: reference.col,
+            statusBefore: a?.status ?? null,
+            statusAfter: b?.status ?? null,
+            homeShift: shift ? { ...shift, magnitude: Math.hypot(shift.dx, shift.dy) } : null,
+            residualDrift,
+            stepToDisplacement,
+            boundsShift,
+            blobSize,
+            reasons,
+        };
+    });
+    tiles.sort((left, right) => left.row - right.row || left.col - right.col);
+
+    const blueprint = computeBlueprintDiff(before.gridBlueprint, after.gridBlueprint);
+    const footprintChanges = blueprint
+        ? [blueprint.footprintWidth.relative, blueprint.footprintHeight.relative].filter(
+              (value): value is number => value !== null,
+          )
+        : [];
+    const footprintChange =
+        footprintChanges.length > 0
+            ? Math.max(...footprintChanges.map((value) => Math.abs(value)))
+            : null;
+
+    const flaggedTileKeys = tiles.filter((tile) => tile.reasons.length > 0).map((tile) => tile.key);
+    const warnings = collectWarnings(before, after);
+
+    let advice: RecalibrationAdvice = 'none';
+    if (
+        isDifferentLayout(before, after) ||
+        (footprintChange !== null && footprintChange > FULL_RECALIBRATION_FOOTPRINT_CHANGE) ||
+        (tiles.length > 0 && flaggedTileKeys.length / tiles.length > FULL_RECALIBRATION_TILE_SHARE)
+    ) {
+        advice = 'full';
+    } else if (flaggedTileKeys.length > 0) {
+        advice = 'tiles';
+    }
+
+    return {
+        tiles,
+        flaggedTileKeys,
+        commonShift,
+        residualDriftStats: {
+            median: residualMedian,
+            nMad: computeNormalizedMAD(
+                residuals.map((entry) => entry.value),
+                residualMedian,
+            ),
+            count: residuals.length,
+        },
+        blueprint,
+        footprintChange,
+        warnings,
+        advice,
+    };
+}
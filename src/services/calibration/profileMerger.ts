@@ -10,8 +10,10 @@ import type { BlobMeasurement, CalibrationGridBlueprint } from '@/types';
 
 import { computeLiveTileBounds, computeBlueprintFootprintBounds } from './math/boundsComputation';
 import { computeHomeOffset, computeAdjustedCenter, buildStepScale } from './math/gridBlueprintMath';
+import { unrectifyPoint, unrectifyStepToDisplacement } from './math/wallHomography';
 import {
     computeCalibrationSummary,
+    rectifyTileResult,
     type TileCalibrationResult,
     type SummaryConfig,
     type CalibrationRunSummary,
@@ -38,6 +40,32 @@ export interface MergeResult {
 // INTERNAL HELPERS
 // =============================================================================
 
+/**
+ * Bring a new camera-space result into the profile's space. Profiles built with
+ * a wall homography keep it, so recalibrated tiles are rectified the same way.
+ */
+function toProfileSpace(
+    profile: CalibrationRunSummary,
+    result: TileCalibrationResult,
+): TileCalibrationResult {
+    return profile.wallHomography ? rectifyTileResult(result, profile.wallHomography) : result;
+}
+
+/**
+ * Recompute a summary from tiles already in the profile's space, carrying the
+ * profile's wall homography over instead of applying it a second time.
+ */
+function recomputeInProfileSpace(
+    profile: CalibrationRunSummary,
+    tileResults: Map<string, TileCalibrationResult>,
+    config: SummaryConfig,
+): CalibrationRunSummary {
+    const summary = computeCalibrationSummary(tileResults, { ...config, wallHomography: null });
+    return profile.wallHomography
+        ? { ...summary, wallHomography: profile.wallHomography }
+        : summary;
+}
+
 /**
  * Recenter a measurement relative to the camera origin offset.
  */
@@ -92,6 +120,7 @@ function computeTileDerivedValues(
         ? computeLiveTileBounds(
               { x: normalizedMeasurement.x, y: normalizedMeasurement.y },
               result.stepToDisplacement,
+              result.stepResponse,
           )
         : (result.motorReachBounds ?? null);
 
@@ -170,6 +199,7 @@ function convertSummaryTileToResult(
         motorReachBounds: summaryTile.motorReachBounds,
         footprintBounds: summaryTile.footprintBounds,
         combinedBounds: summaryTile.combinedBounds,
+        stepResponse: summaryTile.stepResponse,
     };
 }
 
@@ -196,10 +226,14 @@ export function extractFirstTilePerStep(profile: CalibrationRunSummary): {
     for (const key of sortedKeys) {
         const tile = profile.tiles[key];
         if ((tile.status === 'completed' || tile.status === 'partial') && tile.stepToDisplacement) {
-            return {
+            const perStep = {
                 x: tile.stepToDisplacement.x ?? null,
                 y: tile.stepToDisplacement.y ?? null,
             };
+            // Expected positions are estimated in camera space
+            return profile.wallHomography && tile.homeMeasurement
+                ? unrectifyStepToDisplacement(perStep, tile.homeMeasurement, profile.wallHomography)
+                : perStep;
         }
     }
 
@@ -232,13 +266,18 @@ export function extractExistingMeasurements(
             const [rowStr, colStr] = key.split('-');
             // Add back cameraOriginOffset to get original raw coordinates
             // (measurements in profile have offset subtracted for centered storage)
+            const stored = {
+                x: tile.homeMeasurement.x + offset.x,
+                y: tile.homeMeasurement.y + offset.y,
+            };
+            // Rectified profiles are mapped back to camera space
+            const raw = profile.wallHomography
+                ? unrectifyPoint(stored, profile.wallHomography)
+                : stored;
             measurements.push({
                 row: parseInt(rowStr, 10),
                 col: parseInt(colStr, 10),
-                position: asCentered(
-                    tile.homeMeasurement.x + offset.x,
-                    tile.homeMeasurement.y + offset.y,
-                ),
+                position: asCentered(raw.x, raw.y),
             });
         }
     }
@@ -295,8 +334,8 @@ export function mergeTileResult(
         for (const [key, summaryTile] of Object.entries(existingProfile.tiles)) {
             tileResults.set(key, convertSummaryTileToResult(summaryTile, key));
         }
-        tileResults.set(newTileResult.tile.key, newTileResult);
-        const summary = computeCalibrationSummary(tileResults, _summaryConfig);
+        tileResults.set(newTileResult.tile.key, toProfileSpace(existingProfile, newTileResult));
+        const summary = recomputeInProfileSpace(existingProfile, tileResults, _summaryConfig);
         return { updatedTiles: tileResults, summary };
     }
 
@@ -312,8 +351,9 @@ export function mergeTileResult(
     }
 
     // Replace target tile with new measurement and compute derived values
-    tileResults.set(newTileResult.tile.key, newTileResult);
-    const updatedTileResult = computeTileDerivedValues(newTileResult, existingBlueprint);
+    const profileResult = toProfileSpace(existingProfile, newTileResult);
+    tileResults.set(newTileResult.tile.key, profileResult);
+    const updatedTileResult = computeTileDerivedValues(profileResult, existingBlueprint);
     summaryTiles[newTileResult.tile.key] = updatedTileResult;
 
     // Build the merged summary preserving the existing blueprint
@@ -322,6 +362,9 @@ export function mergeTileResult(
         camera: existingProfile.camera,
         stepTestSettings: existingProfile.stepTestSettings,
         tiles: summaryTiles,
+        ...(existingProfile.wallHomography
+            ? { wallHomography: existingProfile.wallHomography }
+            : {}),
         outlierAnalysis: existingProfile.outlierAnalysis,
     };
 
@@ -357,9 +400,9 @@ export function mergeTileResults(
             tileResults.set(key, convertSummaryTileToResult(summaryTile, key));
         }
         for (const newResult of newTileResults) {
-            tileResults.set(newResult.tile.key, newResult);
+            tileResults.set(newResult.tile.key, toProfileSpace(existingProfile, newResult));
         }
-        const summary = computeCalibrationSummary(tileResults, _summaryConfig);
+        const summary = recomputeInProfileSpace(existingProfile, tileResults, _summaryConfig);
         return { updatedTiles: tileResults, summary };
     }
 
@@ -381,8 +424,9 @@ export function mergeTileResults(
 
     // Replace target tiles with new measurements and compute derived values
     for (const newResult of newTileResults) {
-        tileResults.set(newResult.tile.key, newResult);
-        const updatedTileResult = computeTileDerivedValues(newResult, existingBlueprint);
+        const profileResult = toProfileSpace(existingProfile, newResult);
+        tileResults.set(newResult.tile.key, profileResult);
+        const updatedTileResult = computeTileDerivedValues(profileResult, existingBlueprint);
         summaryTiles[newResult.tile.key] = updatedTileResult;
     }
 
@@ -392,6 +436,9 @@ export function mergeTileResults(
         camera: existingProfile.camera,
         stepTestSettings: existingProfile.stepTestSettings,
         tiles: summaryTiles,
+        ...(existingProfile.wallHomography
+            ? { wallHomography: existingProfile.wallHomography }
+            : {}),
         outlierAnalysis: existingProfile.outlierAnalysis,
     };
 
@@ -0,0 +1,246 @@
+/**
+ * Verify & Repair Script Tests
+ *
+ * Step through the verify-and-repair generator with scripted capture results
+ * and assert which tiles get recalibrated.
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { DEFAULT_CALIBRATION_RUNNER_SETTINGS, DEFAULT_ROI } from '@/constants/calibration';
+import type { BlobMeasurement, CalibrationGridBlueprint, MirrorConfig, Motor } from '@/types';
+
+import {
+    evaluateTileVerification,
+    resolveVerificationTarget,
+    verifyAndRepairScript,
+    type VerifyRepairConfig,
+} from '../verifyRepairScript';
+
+import type { CalibrationRunSummary } from '../../types';
+import type { CalibrationCommand, CommandResult } from '../commands';
+
+// =============================================================================
+// TEST HELPERS
+// =============================================================================
+
+const MAC = 'AA:BB:CC:DD:EE:01';
+
+const BLUEPRINT: CalibrationGridBlueprint = {
+    adjustedTileFootprint: { width: 0.2, height: 0.2 },
+    tileGap: { x: 0.05, y: 0.05 },
+    gridOrigin: { x: -0.25, y: -0.1 },
+    cameraOriginOffset: { x: 0.1, y: 0 },
+};
+
+function createMotor(index: number): Motor {
+    return { nodeMac: MAC, motorIndex: index };
+}
+
+function createMeasurement(x: number, y: number, size = 0.1): BlobMeasurement {
+    return { x, y, size, response: 0.8, capturedAt: 0 };
+}
+
+/**
+ * Two calibrated tiles side by side, each 0.02 right of its ideal position.
+ */
+function createProfile(): CalibrationRunSummary {
+    const tile = (col: number) => {
+        const adjustedX = -0.15 + col * 0.25;
+        return {
+            tile: { row: 0, col, key: `0-${col}` },
+            status: 'completed' as const,
+            homeMeasurement: createMeasurement(adjustedX + 0.02, 0),
+            homeOffset: { dx: 0.02, dy: 0 },
+            adjustedHome: { x: adjustedX, y: 0 },
+            stepToDisplacement: { x: 0.0001, y: -0.0001 },
+            sizeDeltaAtStepTest: 0,
+        };
+    };
+    return {
+        gridBlueprint: BLUEPRINT,
+        stepTestSettings: { deltaSteps: 1200 },
+        tiles: { '0-0': tile(0), '0-1': tile(1) },
+    };
+}
+
+function createConfig(overrides: Partial<VerifyRepairConfig> = {}): VerifyRepairConfig {
+    const mirrorConfig: MirrorConfig = new Map();
+    mirrorConfig.set('0-0', { x: createMotor(0), y: createMotor(1) });
+    mirrorConfig.set('0-1', { x: createMotor(2), y: createMotor(3) });
+    return {
+        gridSize: { rows: 1, cols: 2 },
+        mirrorConfig,
+        settings: DEFAULT_CALIBRATION_RUNNER_SETTINGS,
+        arrayRotation: 0,
+        stagingPosition: 'corner',
+        roi: DEFAULT_ROI,
+        mode: 'auto',
+        existingProfile: createProfile(),
+        ...overrides,
+    };
+}
+
+/**
+ * Run the script to completion, answering captures with the provider and
+ * everything else with success.
+ */
+function collectCommands(
+    config: VerifyRepairConfig,
+    captureProvider: (label: string) => BlobMeasurement | null,
+): CalibrationCommand[] {
+    const commands: CalibrationCommand[] = [];
+    const gen = verifyAndRepairScript(config);
+    let result: CommandResult = { type: 'LOG', success: true };
+    while (true) {
+        const { value: cmd, done } = gen.next(result);
+        if (done || cmd === undefined) break;
+        commands.push(cmd);
+        if (cmd.type === 'CAPTURE') {
+            result = { type: 'CAPTURE', measurement: captureProvider(cmd.label) };
+        } else if (cmd.type === 'AWAIT_DECISION') {
+            result = { type: 'AWAIT_DECISION', decision: 'abort' };
+        } else {
+            result = { type: cmd.type, success: true } as CommandResult;
+        }
+    }
+    return commands;
+}
+
+/** Raw capture for a tile sitting exactly at its adjustedHome. */
+function alignedCapture(col: number, offsetX = 0): BlobMeasurement {
+    return createMeasurement(-0.15 + col * 0.25 + BLUEPRINT.cameraOriginOffset.x + offsetX, 0);
+}
+
+function getCaptureLabels(commands: CalibrationCommand[]): string[] {
+    return commands.flatMap((cmd) => (cmd.type === 'CAPTURE' ? [cmd.label] : []));
+}
+
+function getPhases(commands: CalibrationCommand[]): string[] {
+    return commands.flatMap((cmd) => (cmd.type === 'UPDATE_PHASE' ? [cmd.phase] : []));
+}
+
+function getSummary(commands: CalibrationCommand[]): CalibrationRunSummary | null {
+    const summaries = commands.flatMap((cmd) =>
+        cmd.type === 'UPDATE_SUMMARY' ? [cmd.summary] : [],
+    );
+    return summaries.at(-1) ?? null;
+}
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('resolveVerificationTarget', () => {
+    it('drives completed tiles to their aligned position', () => {
+        const target = resolveVerificationTarget(createProfile().tiles['0-0']);
+        expect(target?.steps.x).toBe(-200);
+        expect(target?.steps.y).toBe(0);
+        expect(target?.expected).toEqual({ x: -0.15, y: 0 });
+    });
+
+    it('falls back to the home measurement without an offset', () => {
+        const tile = { ...createProfile().tiles['0-0'], homeOffset: undefined };
+        const target = resolveVerificationTarget(tile);
+        expect(target?.steps).toEqual({ x: null, y: null });
+        expect(target?.expected.x).toBeCloseTo(-0.13);
+    });
+
+    it('skips tiles that were not calibrated', () => {
+        const tile = { ...createProfile().tiles['0-0'], status: 'failed' as const };
+        expect(resolveVerificationTarget(tile)).toBeNull();
+        expect(resolveVerificationTarget(undefined)).toBeNull();
+    });
+});
+
+describe('evaluateTileVerification', () => {
+    const target = { steps: { x: 0, y: 0 }, expected: { x: -0.15, y: 0 } };
+
+    it('measures drift as a fraction of the footprint after removing the camera offset', () => {
+        const result = evaluateTileVerification(
+            '0-0',
+            alignedCapture(0, 0.01),
+            target,
+            BLUEPRINT,
+            0.1,
+        );
+        expect(result.drift).toBeCloseTo(0.05);
+        expect(result.withinTolerance).toBe(true);
+    });
+
+    it('rejects tiles outside tolerance or without a blob', () => {
+        expect(
+            evaluateTileVerification('0-0', alignedCapture(0, 0.03), target, BLUEPRINT, 0.1)
+                .withinTolerance,
+        ).toBe(false);
+        expect(evaluateTileVerification('0-0', null, target, BLUEPRINT, 0.1)).toEqual({
+            key: '0-0',
+            drift: null,
+            withinTolerance: false,
+        });
+    });
+});
+
+describe('verifyAndRepairScript', () => {
+    it('leaves the profile unchanged when every tile is within tolerance', () => {
+        const config = createConfig();
+        const commands = collectCommands(config, (label) =>
+            alignedCapture(label.endsWith('R0C0') ? 0 : 1),
+        );
+
+        expect(getCaptureLabels(commands)).toEqual(['Verify R0C0', 'Verify R0C1']);
+        expect(getSummary(commands)).toBe(config.existingProfile);
+        expect(getPhases(commands)).toEqual([
+            'homing',
+            'staging',
+            'measuring',
+            'aligning',
+            'completed',
+        ]);
+    });
+
+    it('drives each tile to its aligned steps before capturing', () => {
+        const commands = collectCommands(createConfig(), (label) =>
+            alignedCapture(label.endsWith('R0C0') ? 0 : 1),
+        );
+        const firstCapture = commands.findIndex((cmd) => cmd.type === 'CAPTURE');
+        const move = commands
+            .slice(0, firstCapture)
+            .filter((cmd) => cmd.type === 'MOVE_AXES_BATCH')
+            .at(-1);
+        expect(move?.type === 'MOVE_AXES_BATCH' && move.moves.map((m) => m.target)).toEqual([
+            -200, 0,
+        ]);
+    });
+
+    it('recalibrates only the drifted tile and merges it into the profile', () => {
+        const config = createConfig();
+        const commands = collectCommands(config, (label) => {
+            if (label === 'Verify R0C0') return alignedCapture(0);
+            if (label === 'Verify R0C1') return alignedCapture(1, 0.05);
+            // Recalibration of R0C1: home 0.05 right of where it used to be
+            if (label.startsWith('Home measurement')) return alignedCapture(1, 0.07);
+            if (label.startsWith('X full')) return alignedCapture(1, 0.19);
+            return createMeasurement(0.19, -0.12);
+        });
+
+        const labels = getCaptureLabels(commands);
+        expect(labels.filter((label) => label.includes('R0C0'))).toEqual(['Verify R0C0']);
+        expect(labels).toContain('Home measurement R0C1');
+
+        const summary = getSummary(commands);
+        expect(summary?.tiles['0-0']).toBe(config.existingProfile.tiles['0-0']);
+        expect(summary?.tiles['0-1'].homeOffset?.dx).toBeCloseTo(0.07);
+        expect(summary?.gridBlueprint).toBe(BLUEPRINT);
+        expect(getPhases(commands).at(-1)).toBe('completed');
+    });
+
+    it('errors out when the profile has no blueprint', () => {
+        const config = createConfig({
+            existingProfile: { ...createProfile(), gridBlueprint: null },
+        });
+        const commands = collectCommands(config, () => null);
+        expect(getPhases(commands)).toEqual(['error']);
+        expect(commands.some((cmd) => cmd.type === 'HOME_ALL')).toBe(false);
+    });
+});
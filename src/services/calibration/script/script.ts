@@ -10,7 +10,7 @@
  */
 
 import { asCentered } from '@/coords';
-import type { BlobMeasurement, Motor } from '@/types';
+import type { AxisStepResponseModel, BlobMeasurement, Motor } from '@/types';
 import { centeredToView } from '@/utils/coordinates';
 
 import { computeExpectedBlobPosition, type TileMeasurement } from '../math/expectedPosition';
@@ -27,6 +27,8 @@ import {
     type SummaryConfig,
 } from '../summaryComputation';
 
+import { sampleAxisResponse } from './tileCalibration';
+
 import type {
     AwaitDecisionCommand,
     CalibrationCommand,
@@ -334,6 +336,8 @@ interface AxisStepTestOutcome {
     ignored: boolean;
     interimPerStep: number | null;
     warnings: string[];
+    /** Fitted from the extended step test, when enabled */
+    responseModel: AxisStepResponseModel | null;
 }
 
 /**
@@ -354,7 +358,13 @@ function* runAxisStepTest(
 
     const motor = axis === 'x' ? tile.xMotor : tile.yMotor;
     if (!motor) {
-        return { result: null, ignored: false, interimPerStep: null, warnings: [] };
+        return {
+            result: null,
+            ignored: false,
+            interimPerStep: null,
+            warnings: [],
+            responseModel: null,
+        };
     }
 
     const { deltaSteps, firstTileInterimStepDelta, tileTolerance, firstTileTolerance } =
@@ -568,7 +578,21 @@ function* runAxisStepTest(
         );
     }
 
-    return { result, ignored, interimPerStep, warnings };
+    // --- EXTENDED RESPONSE SAMPLING (optional) ---
+    let responseModel: AxisStepResponseModel | null = null;
+    if (fullDelta !== null && result && !ignored && config.settings.stepResponseSamples > 0) {
+        responseModel = yield* sampleAxisResponse(
+            axis,
+            motor,
+            tile,
+            homeMeasurement,
+            { steps: fullDelta, displacement: result.displacement },
+            result.perStep,
+            config,
+        );
+    }
+
+    return { result, ignored, interimPerStep, warnings, responseModel };
 }
 
 /**
@@ -859,6 +883,7 @@ export function* calibrationScript(
             gridGapNormalized: config.settings.gridGapNormalized,
             deltaSteps: config.settings.deltaSteps,
             robustTileSize: config.settings.robustTileSize,
+            wallHomography: config.settings.wallHomography,
         };
         const wipSummary = computeCalibrationSummary(state.tileResults, wipSummaryConfig);
         yield updateSummary(wipSummary);
@@ -903,6 +928,10 @@ export function* calibrationScript(
 
         // Combine step test results
         const stepTestResults = combineStepTestResults(xResult, yResult);
+        const stepResponse =
+            xOutcome.responseModel || yOutcome.responseModel
+                ? { x: xOutcome.responseModel, y: yOutcome.responseModel }
+                : undefined;
 
         // Determine final status: 'partial' if any step test was ignored
         const hasInferredValues = xStepIgnored || yStepIgnored;
@@ -935,6 +964,7 @@ export function* calibrationScript(
             homeMeasurement,
             stepToDisplacement: stepTestResults.stepToDisplacement,
             sizeDeltaAtStepTest: stepTestResults.sizeDeltaAtStepTest,
+            ...(stepResponse ? { stepResponse } : {}),
         });
 
         // Add to completed measurements for expected position calculation
@@ -959,6 +989,7 @@ export function* calibrationScript(
             gridGapNormalized: config.settings.gridGapNormalized,
             deltaSteps: config.settings.deltaSteps,
             robustTileSize: config.settings.robustTileSize,
+            wallHomography: config.settings.wallHomography,
         };
         const progressiveSummary = computeCalibrationSummary(
             state.tileResults,
@@ -985,6 +1016,7 @@ export function* calibrationScript(
             gridGapNormalized: config.settings.gridGapNormalized,
             deltaSteps: config.settings.deltaSteps,
             robustTileSize: config.settings.robustTileSize,
+            wallHomography: config.settings.wallHomography,
         };
         const summary = computeCalibrationSummary(state.tileResults, summaryConfig);
 
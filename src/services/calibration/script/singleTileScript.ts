@@ -124,7 +124,7 @@ function checkpoint(
 /**
  * Build tile descriptors from grid config.
  */
-function buildTileDescriptors(config: ExecutorConfig): TileDescriptor[] {
+export function buildTileDescriptors(config: ExecutorConfig): TileDescriptor[] {
     const descriptors: TileDescriptor[] = [];
     for (let row = 0; row < config.gridSize.rows; row++) {
         for (let col = 0; col < config.gridSize.cols; col++) {
@@ -142,7 +142,7 @@ function buildTileDescriptors(config: ExecutorConfig): TileDescriptor[] {
 /**
  * Extract unique MAC addresses from tiles.
  */
-function extractMacAddresses(tiles: TileDescriptor[]): string[] {
+export function extractMacAddresses(tiles: TileDescriptor[]): string[] {
     const macs = new Set<string>();
     for (const tile of tiles) {
         if (tile.calibratable) {
@@ -160,7 +160,7 @@ function extractMacAddresses(tiles: TileDescriptor[]): string[] {
 /**
  * Align tiles to their ideal grid positions based on calibration summary.
  */
-function* alignTiles(
+export function* alignTiles(
     tiles: TileDescriptor[],
     summary: CalibrationRunSummary,
 ): Generator<CalibrationCommand, void, CommandResult> {
@@ -11,13 +11,15 @@
  * 1. Home measurement with retry/skip/abort
  * 2. X axis step test (interim + full for first tile)
  * 3. Y axis step test (interim + full for first tile)
+ *    - Optional extended sampling across the travel for a non-linear response model
  * 4. Returns complete tile result or abort signal
  */
 
-import type { BlobMeasurement, Motor } from '@/types';
+import type { AxisStepResponseModel, BlobMeasurement, Motor, StepResponsePoint } from '@/types';
 import { centeredToView } from '@/utils/coordinates';
 
 import { computeExpectedBlobPosition, type TileMeasurement } from '../math/expectedPosition';
+import { fitStepResponseModel, getStepResponseSamplePositions } from '../math/stepResponseModel';
 import {
     getAxisStepDelta,
     computeAxisStepTestResult,
@@ -94,6 +96,8 @@ interface AxisStepTestOutcome {
     ignored: boolean;
     interimPerStep: number | null;
     warnings: string[];
+    /** Fitted from the extended step test, when enabled */
+    responseModel: AxisStepResponseModel | null;
 }
 
 // =============================================================================
@@ -308,7 +312,13 @@ function* runAxisStepTest(
 
     const motor = axis === 'x' ? tile.xMotor : tile.yMotor;
     if (!motor) {
-        return { result: null, ignored: false, interimPerStep: null, warnings: [] };
+        return {
+            result: null,
+            ignored: false,
+            interimPerStep: null,
+            warnings: [],
+            responseModel: null,
+        };
     }
 
     const { deltaSteps, firstTileInterimStepDelta, tileTolerance, firstTileTolerance } =
@@ -521,7 +531,95 @@ function* runAxisStepTest(
         );
     }
 
-    return { result, ignored, interimPerStep, warnings };
+    // --- EXTENDED RESPONSE SAMPLING (optional) ---
+    let responseModel: AxisStepResponseModel | null = null;
+    if (fullDelta !== null && result && !ignored && config.settings.stepResponseSamples > 0) {
+        responseModel = yield* sampleAxisResponse(
+            axis,
+            motor,
+            tile,
+            homeMeasurement,
+            { steps: fullDelta, displacement: result.displacement },
+            result.perStep,
+            config,
+        );
+    }
+
+    return { result, ignored, interimPerStep, warnings, responseModel };
+}
+
+/**
+ * Sample an axis at several step positions across its travel and fit a
+ * monotonic response model. Missed captures are skipped rather than escalated,
+ * since the linear step test already succeeded. The motor is returned to the
+ * full step position afterwards so the following moves are unchanged.
+ */
+function* sampleAxisResponse(
+    axis: 'x' | 'y',
+    motor: Motor,
+    tile: TileDescriptor,
+    homeMeasurement: BlobMeasurement,
+    fullStep: StepResponsePoint,
+    perStep: number | null,
+    config: ExecutorConfig,
+): Generator<CalibrationCommand, AxisStepResponseModel | null, CommandResult> {
+    const tileAddress: TileAddress = { row: tile.row, col: tile.col, key: tile.key };
+    const tileLabel = `R${tile.row}C${tile.col}`;
+    const axisLabel = axis.toUpperCase();
+    const { stepResponseSamples, tileTolerance } = config.settings;
+
+    const positions = getStepResponseSamplePositions(stepResponseSamples, fullStep.steps);
+    yield log(
+        `${axisLabel} response sampling at ${positions.join(', ')} steps`,
+        tileAddress,
+        'step-test',
+    );
+
+    const samples: StepResponsePoint[] = [fullStep];
+    const homeCoord = axis === 'x' ? homeMeasurement.x : homeMeasurement.y;
+    for (const steps of positions) {
+        const estimate = centeredToView(homeCoord + steps * (perStep ?? 0));
+        const expected =
+            axis === 'x'
+                ? { x: estimate, y: centeredToView(homeMeasurement.y) }
+                : { x: centeredToView(homeMeasurement.x), y: estimate };
+        yield updateExpectedPosition(expected, tileTolerance);
+        yield moveAxis(motor, steps);
+
+        const sampleCaptureResult: CommandResult = yield capture(
+            `${axisLabel} response sample ${steps} ${tileLabel}`,
+            tileTolerance,
+            expected,
+        );
+        const { measurement } = getCaptureResult(sampleCaptureResult);
+        if (!measurement) {
+            yield log(
+                `${axisLabel} response sample at ${steps} steps not detected, skipping`,
+                tileAddress,
+                'step-test',
+            );
+            continue;
+        }
+        const { displacement } = computeAxisStepTestResult(
+            homeMeasurement,
+            measurement,
+            axis,
+            steps,
+        );
+        samples.push({ steps, displacement });
+    }
+
+    yield moveAxis(motor, fullStep.steps);
+
+    const model = fitStepResponseModel(samples);
+    yield log(
+        model
+            ? `${axisLabel} response model fitted from ${samples.length} samples`
+            : `${axisLabel} response model not fitted (${samples.length} samples), using linear perStep`,
+        tileAddress,
+        'step-test',
+    );
+    return model;
 }
 
 // =============================================================================
@@ -635,6 +733,10 @@ export function* calibrateTile(
 
     // Combine step test results
     const stepTestResults = combineStepTestResults(xResult, yResult);
+    const stepResponse =
+        xOutcome.responseModel || yOutcome.responseModel
+            ? { x: xOutcome.responseModel, y: yOutcome.responseModel }
+            : undefined;
 
     // Determine final status: 'partial' if any step test was ignored
     const hasInferredValues = xStepIgnored || yStepIgnored;
@@ -664,6 +766,7 @@ export function* calibrateTile(
             homeMeasurement,
             stepToDisplacement: stepTestResults.stepToDisplacement,
             sizeDeltaAtStepTest: stepTestResults.sizeDeltaAtStepTest,
+            ...(stepResponse ? { stepResponse } : {}),
         },
         homeMeasurement,
         stepTestResults: { x: xResult, y: yResult },
@@ -679,5 +782,5 @@ export function* calibrateTile(
 // EXPORTS FOR SCRIPT.TS
 // =============================================================================
 
-export { isMeasureHomeSkip };
+export { isMeasureHomeSkip, sampleAxisResponse };
 export type { MeasureHomeSkip };
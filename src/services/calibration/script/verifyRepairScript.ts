@@ -0,0 +1,490 @@
+/**
+ * Verify & Repair Script
+ *
+ * Generator script that checks an existing profile against the physical array and
+ * recalibrates only the tiles that no longer match it.
+ *
+ * Workflow:
+ * 1. Home all motors
+ * 2. Stage ALL tiles aside (parallel)
+ * 3. For each calibrated tile: move it to its aligned home, capture the blob and
+ *    compare it with the profile's adjustedHome, then move it aside again
+ * 4. Recalibrate the tiles outside tolerance (calibrateTile, one at a time)
+ * 5. Merge the new results into the profile (mergeTileResults)
+ * 6. Align ALL tiles to the grid
+ *
+ * A full recalibration of a large array takes a long time; this keeps the cost
+ * proportional to the number of mirrors that actually slipped.
+ */
+
+import type {
+    BlobMeasurement,
+    CalibrationGridBlueprint,
+    CalibrationSnapshotTile,
+    Motor,
+} from '@/types';
+import { centeredToView } from '@/utils/coordinates';
+
+import { computeAlignmentTargetSteps } from '../math/stepTestCalculations';
+import { rectifyMeasurement, unrectifyPoint } from '../math/wallHomography';
+import {
+    extractExistingMeasurements,
+    extractFirstTilePerStep,
+    mergeTileResults,
+} from '../profileMerger';
+
+import { alignTiles, buildTileDescriptors, extractMacAddresses } from './singleTileScript';
+import { calibrateTile, type TileDescriptor } from './tileCalibration';
+
+import type {
+    CalibrationRunnerPhase,
+    CalibrationRunSummary,
+    CalibrationStepKind,
+    TileAddress,
+    TileCalibrationResult,
+    TileRunState,
+} from '../types';
+import type { CalibrationCommand, CommandResult } from './commands';
+import type { ExecutorConfig } from './executor';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Configuration for verify-and-repair runs.
+ */
+export interface VerifyRepairConfig extends ExecutorConfig {
+    /** Existing calibration profile to verify */
+    existingProfile: CalibrationRunSummary;
+    /**
+     * Largest accepted distance between the measured and expected home,
+     * as a fraction of the tile footprint. Default: DEFAULT_VERIFY_TOLERANCE
+     */
+    verifyTolerance?: number;
+}
+
+/**
+ * Where a tile should be driven for verification and where its blob should land.
+ */
+export interface VerificationTarget {
+    /** Absolute step targets (null keeps the axis at home) */
+    steps: { x: number | null; y: number | null };
+    /** Expected blob position in profile (recentered) coordinates */
+    expected: { x: number; y: number };
+}
+
+export interface TileVerificationResult {
+    key: string;
+    /** Distance from the expected position as a fraction of the footprint, null if no blob */
+    drift: number | null;
+    withinTolerance: boolean;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Default verification tolerance: 10% of the tile footprint. */
+export const DEFAULT_VERIFY_TOLERANCE = 0.1;
+
+// =============================================================================
+// COMMAND BUILDERS
+// =============================================================================
+
+function homeAll(macAddresses: string[]): CalibrationCommand {
+    return { type: 'HOME_ALL', macAddresses };
+}
+
+function updatePhase(phase: CalibrationRunnerPhase): CalibrationCommand {
+    return { type: 'UPDATE_PHASE', phase };
+}
+
+function moveTilePose(tile: TileAddress, pose: 'home' | 'aside'): CalibrationCommand {
+    return { type: 'MOVE_TILE_POSE', tile, pose };
+}
+
+function moveTilesBatch(
+    moves: Array<{ tile: TileAddress; pose: 'home' | 'aside' }>,
+): CalibrationCommand {
+    return { type: 'MOVE_TILES_BATCH', moves };
+}
+
+function moveAxesBatch(moves: Array<{ motor: Motor; target: number }>): CalibrationCommand {
+    return { type: 'MOVE_AXES_BATCH', moves };
+}
+
+function updateTile(key: string, patch: Partial<TileRunState>): CalibrationCommand {
+    return { type: 'UPDATE_TILE', key, patch };
+}
+
+function updateSummary(summary: CalibrationRunSummary): CalibrationCommand {
+    return { type: 'UPDATE_SUMMARY', summary };
+}
+
+function updateProgress(
+    completed: number,
+    failed: number,
+    skipped: number,
+    total: number,
+): CalibrationCommand {
+    return { type: 'UPDATE_PROGRESS', progress: { completed, failed, skipped, total } };
+}
+
+function capture(
+    label: string,
+    tolerance: number,
+    expectedPosition: { x: number; y: number },
+): CalibrationCommand {
+    return { type: 'CAPTURE', label, tolerance, expectedPosition };
+}
+
+function updateExpectedPosition(
+    position: { x: number; y: number } | null,
+    tolerance: number,
+): CalibrationCommand {
+    return { type: 'UPDATE_EXPECTED_POSITION', position, tolerance };
+}
+
+function log(
+    hint: string,
+    tile?: TileAddress | null,
+    group?: string,
+    metadata?: Record<string, unknown>,
+): CalibrationCommand {
+    return { type: 'LOG', hint, tile, group, metadata };
+}
+
+function checkpoint(
+    kind: CalibrationStepKind,
+    label: string,
+    tile?: TileAddress | null,
+): CalibrationCommand {
+    return {
+        type: 'CHECKPOINT',
+        step: { kind, label, tile },
+    };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function getCaptureMeasurement(result: CommandResult): BlobMeasurement | null {
+    if (result.type !== 'CAPTURE') {
+        throw new Error(`Expected CAPTURE result, got ${result.type}`);
+    }
+    return result.measurement;
+}
+
+function toAddress(tile: TileDescriptor): TileAddress {
+    return { row: tile.row, col: tile.col, key: tile.key };
+}
+
+/**
+ * Resolve where a profile tile should be driven for verification.
+ *
+ * Completed tiles are driven to their aligned position (the same targets the
+ * alignment phase uses), so the blob should land on `adjustedHome`. Axes without
+ * a usable step scale stay at home, where the blob should land on the home
+ * measurement instead. Returns null for tiles that cannot be verified.
+ */
+export function resolveVerificationTarget(
+    tile: CalibrationSnapshotTile | undefined,
+): VerificationTarget | null {
+    if (!tile || (tile.status !== 'completed' && tile.status !== 'partial')) {
+        return null;
+    }
+    const home = tile.homeMeasurement;
+    if (!home) {
+        return null;
+    }
+    if (!tile.homeOffset || !tile.adjustedHome) {
+        return { steps: { x: null, y: null }, expected: { x: home.x, y: home.y } };
+    }
+    const stepsX = computeAlignmentTargetSteps(
+        -tile.homeOffset.dx,
+        tile.stepToDisplacement?.x ?? null,
+    );
+    const stepsY = computeAlignmentTargetSteps(
+        -tile.homeOffset.dy,
+        tile.stepToDisplacement?.y ?? null,
+    );
+    return {
+        steps: { x: stepsX, y: stepsY },
+        expected: {
+            x: stepsX !== null ? tile.adjustedHome.x : home.x,
+            y: stepsY !== null ? tile.adjustedHome.y : home.y,
+        },
+    };
+}
+
+/**
+ * Compare a raw capture with the expected (recentered) position.
+ * Drift is expressed as a fraction of the mean tile footprint.
+ */
+export function evaluateTileVerification(
+    key: string,
+    measurement: BlobMeasurement | null,
+    target: VerificationTarget,
+    blueprint: CalibrationGridBlueprint,
+    tolerance: number,
+): TileVerificationResult {
+    if (!measurement) {
+        return { key, drift: null, withinTolerance: false };
+    }
+    const footprint =
+        (blueprint.adjustedTileFootprint.width + blueprint.adjustedTileFootprint.height) / 2;
+    const dx = measurement.x - blueprint.cameraOriginOffset.x - target.expected.x;
+    const dy = measurement.y - blueprint.cameraOriginOffset.y - target.expected.y;
+    const distance = Math.hypot(dx, dy);
+    const drift = footprint > 0 ? distance / footprint : distance;
+    return { key, drift, withinTolerance: drift <= tolerance };
+}
+
+// =============================================================================
+// VERIFY & REPAIR SCRIPT
+// =============================================================================
+
+/**
+ * Verify every calibrated tile of a profile and recalibrate the ones that drifted.
+ *
+ * @param config - Executor configuration with the profile to verify
+ * @yields CalibrationCommand - Commands for the executor
+ */
+export function* verifyAndRepairScript(
+    config: VerifyRepairConfig,
+): Generator<CalibrationCommand, void, CommandResult> {
+    const { existingProfile } = config;
+    const verifyTolerance = config.verifyTolerance ?? DEFAULT_VERIFY_TOLERANCE;
+    const blueprint = existingProfile.gridBlueprint;
+    const wallHomography = existingProfile.wallHomography ?? null;
+
+    if (!blueprint) {
+        yield log('Profile has no grid blueprint; run a full calibration first', null, 'error');
+        yield updatePhase('error');
+        return;
+    }
+
+    const tiles = buildTileDescriptors(config);
+    const calibratableTiles = tiles.filter((t) => t.calibratable);
+    const verifiableTiles = calibratableTiles.filter(
+        (t) => resolveVerificationTarget(existingProfile.tiles[t.key]) !== null,
+    );
+
+    if (verifiableTiles.length === 0) {
+        yield log('No calibrated tiles to verify', null, 'error');
+        yield updatePhase('error');
+        return;
+    }
+
+    const macAddresses = extractMacAddresses(calibratableTiles);
+
+    // Initialize tile states from existing profile
+    for (const tile of calibratableTiles) {
+        const existingTile = existingProfile.tiles[tile.key];
+        if (existingTile) {
+            yield updateTile(tile.key, {
+                status: existingTile.status === 'measuring' ? 'pending' : existingTile.status,
+                error: undefined,
+                warnings: undefined,
+                metrics: {
+                    home: existingTile.homeMeasurement,
+                    homeOffset: existingTile.homeOffset,
+                    adjustedHome: existingTile.adjustedHome,
+                    stepToDisplacement: existingTile.stepToDisplacement,
+                    sizeDeltaAtStepTest: existingTile.sizeDeltaAtStepTest,
+                },
+            });
+        }
+    }
+
+    // === HOMING PHASE ===
+    yield updatePhase('homing');
+    yield log('Homing all motors for verification', null, 'homing', { macAddresses });
+    yield homeAll(macAddresses);
+    yield checkpoint('home-all', 'Home all tiles');
+
+    // === STAGING PHASE ===
+    yield updatePhase('staging');
+    yield log('Moving all tiles aside for verification', null, 'staging');
+    yield moveTilesBatch(
+        calibratableTiles.map((tile) => ({ tile: toAddress(tile), pose: 'aside' as const })),
+    );
+    yield checkpoint('stage-all', 'Move tiles aside');
+
+    // === VERIFICATION PHASE ===
+    yield updatePhase('measuring');
+    yield log(
+        `Verifying ${verifiableTiles.length} tiles (tolerance ${(verifyTolerance * 100).toFixed(0)}% of a tile)`,
+        null,
+        'verify',
+    );
+
+    const driftedTiles: TileDescriptor[] = [];
+    for (const tile of verifiableTiles) {
+        const tileAddress = toAddress(tile);
+        const tileLabel = `R${tile.row}C${tile.col}`;
+        const target = resolveVerificationTarget(existingProfile.tiles[tile.key])!;
+        const expectedStored = {
+            x: target.expected.x + blueprint.cameraOriginOffset.x,
+            y: target.expected.y + blueprint.cameraOriginOffset.y,
+        };
+        // Rectified profiles are compared in wall space but searched for in camera space
+        const expectedCamera = wallHomography
+            ? unrectifyPoint(expectedStored, wallHomography)
+            : expectedStored;
+        const expectedView = {
+            x: centeredToView(expectedCamera.x),
+            y: centeredToView(expectedCamera.y),
+        };
+
+        yield updateTile(tile.key, { status: 'measuring' });
+        yield updateExpectedPosition(expectedView, config.settings.tileTolerance);
+        const moves: Array<{ motor: Motor; target: number }> = [];
+        if (tile.xMotor) moves.push({ motor: tile.xMotor, target: target.steps.x ?? 0 });
+        if (tile.yMotor) moves.push({ motor: tile.yMotor, target: target.steps.y ?? 0 });
+        yield moveAxesBatch(moves);
+
+        const captureResult: CommandResult = yield capture(
+            `Verify ${tileLabel}`,
+            config.settings.tileTolerance,
+            expectedView,
+        );
+        const captured = getCaptureMeasurement(captureResult);
+        const verification = evaluateTileVerification(
+            tile.key,
+            captured && wallHomography ? rectifyMeasurement(captured, wallHomography) : captured,
+            target,
+            blueprint,
+            verifyTolerance,
+        );
+
+        const existingStatus = existingProfile.tiles[tile.key].status;
+        if (verification.withinTolerance) {
+            yield updateTile(tile.key, {
+                status: existingStatus === 'partial' ? 'partial' : 'completed',
+            });
+            yield log(
+                `${tileLabel} within tolerance (${((verification.drift ?? 0) * 100).toFixed(1)}%)`,
+                tileAddress,
+                'verify',
+                { drift: verification.drift },
+            );
+        } else {
+            driftedTiles.push(tile);
+            const reason =
+                verification.drift === null
+                    ? 'blob not found at expected home'
+                    : `drifted ${(verification.drift * 100).toFixed(1)}% of a tile`;
+            yield updateTile(tile.key, {
+                status: 'pending',
+                warnings: [`Verification: ${reason}`],
+            });
+            yield log(`${tileLabel} ${reason}; queued for recalibration`, tileAddress, 'verify', {
+                drift: verification.drift,
+            });
+        }
+
+        yield moveTilePose(tileAddress, 'aside');
+    }
+    yield updateExpectedPosition(null, 0);
+
+    // === REPAIR PHASE ===
+    const newResults: TileCalibrationResult[] = [];
+    let failedCount = 0;
+
+    if (driftedTiles.length === 0) {
+        yield log('All tiles within tolerance; profile unchanged', null, 'verify');
+    } else {
+        yield log(
+            `Recalibrating ${driftedTiles.length} drifted tile(s): ${driftedTiles.map((t) => t.key).join(', ')}`,
+            null,
+            'measure',
+        );
+
+        const driftedKeys = new Set(driftedTiles.map((t) => t.key));
+        const firstTilePerStep = extractFirstTilePerStep(existingProfile);
+        // Drifted tiles would mislead expected-position estimation
+        const completedMeasurements = extractExistingMeasurements(existingProfile).filter(
+            (measurement) => !driftedKeys.has(`${measurement.row}-${measurement.col}`),
+        );
+
+        for (const tile of driftedTiles) {
+            const tileAddress = toAddress(tile);
+            yield moveTilePose(tileAddress, 'home');
+
+            const outcome = yield* calibrateTile({
+                tile,
+                isFirstTile: false,
+                firstTilePerStep,
+                completedMeasurements,
+                config,
+            });
+
+            if (outcome === 'abort') {
+                yield updatePhase('aborted');
+                yield log('Verify & repair aborted by user', tileAddress, 'abort');
+                return;
+            }
+
+            if (outcome.status === 'skipped') {
+                // Keep the existing entry rather than replacing it with an empty result
+                failedCount += 1;
+                yield log(
+                    `Recalibration skipped for ${tile.key}; keeping previous values`,
+                    tileAddress,
+                    'measure',
+                );
+            } else {
+                newResults.push(outcome.result);
+            }
+
+            yield moveTilePose(tileAddress, 'aside');
+            yield updateProgress(newResults.length, failedCount, 0, driftedTiles.length);
+        }
+    }
+
+    // === SUMMARY & ALIGNMENT PHASE ===
+    let updatedSummary = existingProfile;
+    if (newResults.length > 0) {
+        yield log('Merging recalibrated tiles into profile', null, 'summary');
+        const summaryConfig = {
+            gridSize: config.gridSize,
+            gridGapNormalized: config.settings.gridGapNormalized,
+            deltaSteps: config.settings.deltaSteps,
+            robustTileSize: config.settings.robustTileSize,
+        };
+        updatedSummary = mergeTileResults(existingProfile, newResults, summaryConfig).summary;
+
+        for (const result of newResults) {
+            const tileSummary = updatedSummary.tiles[result.tile.key];
+            yield updateTile(result.tile.key, {
+                status: tileSummary.status,
+                warnings: tileSummary.warnings,
+                metrics: {
+                    home: tileSummary.homeMeasurement,
+                    homeOffset: tileSummary.homeOffset,
+                    adjustedHome: tileSummary.adjustedHome,
+                    stepToDisplacement: tileSummary.stepToDisplacement,
+                    sizeDeltaAtStepTest: tileSummary.sizeDeltaAtStepTest,
+                },
+            });
+        }
+    }
+    yield updateSummary(updatedSummary);
+
+    yield* alignTiles(calibratableTiles, updatedSummary);
+
+    // === COMPLETED ===
+    yield updatePhase('completed');
+    yield log(
+        `Verify & repair complete: ${verifiableTiles.length - driftedTiles.length} within tolerance, ${newResults.length} recalibrated, ${failedCount} skipped`,
+        null,
+        'complete',
+        {
+            verified: verifiableTiles.length,
+            recalibrated: newResults.map((result) => result.tile.key),
+        },
+    );
+}
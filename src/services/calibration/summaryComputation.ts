@@ -12,10 +12,12 @@ import {
 } from '@/constants/calibration';
 import { asCentered } from '@/coords';
 import type {
+    AxisStepResponseModel,
     BlobMeasurement,
     CalibrationGridBlueprint,
     CalibrationProfileBounds,
     CalibrationSnapshot,
+    WallHomography,
 } from '@/types';
 
 import { RobustMaxSizingStrategy, type TileEntry } from './math/blueprintStrategies';
@@ -29,6 +31,12 @@ import {
     computeHomeOffset,
     computeAdjustedCenter,
 } from './math/gridBlueprintMath';
+import { scaleStepResponseModel } from './math/stepResponseModel';
+import {
+    homographyJacobian,
+    rectifyMeasurement,
+    rectifyStepToDisplacement,
+} from './math/wallHomography';
 
 // =============================================================================
 // TYPES
@@ -53,6 +61,8 @@ export interface TileCalibrationResult {
     stepToDisplacement?: { x: number | null; y: number | null };
     sizeDeltaAtStepTest?: number | null;
     stepScale?: { x: number | null; y: number | null };
+    /** Per-axis response curves from the extended multi-point step test */
+    stepResponse?: { x: AxisStepResponseModel | null; y: AxisStepResponseModel | null };
     /** Motor-range bounds computed from step tests */
     motorReachBounds?: CalibrationProfileBounds | null;
     /** Footprint bounds derived from blueprint (if available) */
@@ -68,6 +78,11 @@ export interface SummaryConfig {
     deltaSteps: number;
     /** Configuration for robust tile sizing (outlier detection). */
     robustTileSize?: RobustTileSizeConfig;
+    /**
+     * Wall-plane correction. Raw camera measurements are rectified before the
+     * blueprint and bounds are computed.
+     */
+    wallHomography?: WallHomography | null;
 }
 
 /**
@@ -124,6 +139,37 @@ function recenterMeasurement(
     };
 }
 
+/**
+ * Map a tile's raw camera measurements into rectified wall space.
+ * Step displacements and response curves are linearised at the home measurement.
+ */
+export function rectifyTileResult(
+    result: TileCalibrationResult,
+    homography: WallHomography,
+): TileCalibrationResult {
+    const home = result.homeMeasurement;
+    if (!home) {
+        return result;
+    }
+    const stepResponse = result.stepResponse;
+    const [[dudx], [, dvdy]] = homographyJacobian(homography.matrix, home);
+    return {
+        ...result,
+        homeMeasurement: rectifyMeasurement(home, homography),
+        stepToDisplacement: result.stepToDisplacement
+            ? rectifyStepToDisplacement(result.stepToDisplacement, home, homography)
+            : result.stepToDisplacement,
+        ...(stepResponse
+            ? {
+                  stepResponse: {
+                      x: stepResponse.x && scaleStepResponseModel(stepResponse.x, dudx),
+                      y: stepResponse.y && scaleStepResponseModel(stepResponse.y, dvdy),
+                  },
+              }
+            : {}),
+    };
+}
+
 // =============================================================================
 // GRID BLUEPRINT COMPUTATION
 // =============================================================================
@@ -391,14 +437,24 @@ export function computeGridBlueprint(
  * Compute the full calibration run summary.
  * Calculates grid blueprint and home offsets for each tile.
  *
- * @param tileResults - Map of tile key to calibration result
+ * @param rawTileResults - Map of tile key to calibration result, in camera space
  * @param config - Summary configuration
  * @returns Complete calibration run summary
  */
 export function computeCalibrationSummary(
-    tileResults: Map<string, TileCalibrationResult>,
+    rawTileResults: Map<string, TileCalibrationResult>,
     config: SummaryConfig,
 ): CalibrationRunSummary {
+    const wallHomography = config.wallHomography ?? null;
+    const tileResults = wallHomography
+        ? new Map(
+              Array.from(rawTileResults, ([key, result]) => [
+                  key,
+                  rectifyTileResult(result, wallHomography),
+              ]),
+          )
+        : rawTileResults;
+
     // Filter to tiles with valid home measurements
     // Include 'partial' tiles (step test failures with inferred values) since they have valid home measurements
     const measuredTiles = Array.from(tileResults.values())
@@ -461,6 +517,7 @@ export function computeCalibrationSummary(
                 ? computeLiveTileBounds(
                       { x: normalizedMeasurement.x, y: normalizedMeasurement.y },
                       result.stepToDisplacement,
+                      result.stepResponse,
                   )
                 : (result.motorReachBounds ?? result.combinedBounds ?? null);
 
@@ -520,6 +577,7 @@ export function computeCalibrationSummary(
             deltaSteps: config.deltaSteps,
         },
         tiles: summaryTiles,
+        ...(wallHomography ? { wallHomography } : {}),
         outlierAnalysis,
     };
 }
@@ -6,6 +6,7 @@
  */
 
 import type {
+    AxisStepResponseModel,
     BlobMeasurement,
     CalibrationProfileBounds,
     CalibrationSnapshot,
@@ -60,6 +61,8 @@ export interface TileCalibrationResult {
     /** Combined bounds: union of motorReachBounds and footprintBounds. */
     combinedBounds?: CalibrationProfileBounds | null;
     stepScale?: { x: number | null; y: number | null };
+    /** Per-axis response curves from the extended multi-point step test */
+    stepResponse?: { x: AxisStepResponseModel | null; y: AxisStepResponseModel | null };
 }
 
 // =============================================================================
@@ -159,6 +162,16 @@ export type CaptureBlobMeasurement = (
     params: CaptureBlobMeasurementParams,
 ) => Promise<BlobMeasurement | null>;
 
+export interface CaptureBlobPositionsParams {
+    timeoutMs: number;
+    signal?: AbortSignal;
+}
+
+/** Resolves with every blob in the next detection frame (centered coords), or null on timeout. */
+export type CaptureBlobPositions = (
+    params: CaptureBlobPositionsParams,
+) => Promise<Array<{ x: number; y: number }> | null>;
+
 // =============================================================================
 // HELPERS
 // =============================================================================
@@ -2,6 +2,9 @@ import { MOTOR_MAX_POSITION_STEPS, MOTOR_MIN_POSITION_STEPS } from '@/constants/
 import {
     computeBlueprintFootprintBounds,
     computeTileBounds,
+    convertDisplacementToSteps,
+    isAxisStepResponseModel,
+    isWallHomography,
     mergeWithBlueprintFootprint,
 } from '@/services/calibration';
 import { computeMedian } from '@/services/calibration/math/robustStatistics';
@@ -14,6 +17,7 @@ import type {
 import { getGridStateFingerprint, type GridStateSnapshot } from '@/services/gridStorage';
 import type {
     ArrayRotation,
+    AxisStepResponseModel,
     BlobMeasurement,
     CalibrationGridBlueprint,
     CalibrationProfile,
@@ -49,6 +53,11 @@ type StepVector = {
     y: number | null;
 };
 
+type StepResponseModels = {
+    x: AxisStepResponseModel | null;
+    y: AxisStepResponseModel | null;
+};
+
 type PositionInput = {
     x: number;
     y: number;
@@ -72,6 +81,11 @@ const normalizeStepVector = (input?: StepVector | null): StepVector => ({
     y: input?.y ?? null,
 });
 
+const normalizeStepResponse = (input?: Partial<StepResponseModels> | null): StepResponseModels => ({
+    x: isAxisStepResponseModel(input?.x) ? input.x : null,
+    y: isAxisStepResponseModel(input?.y) ? input.y : null,
+});
+
 const buildVectorFromOffset = (
     offset: { dx: number; dy: number } | null | undefined,
     stepToDisplacement: StepVector,
@@ -91,6 +105,7 @@ const buildVectorFromPosition = (
     position: PositionInput | null | undefined,
     reference: BlobMeasurement | null,
     stepToDisplacement: StepVector,
+    stepResponse: StepResponseModels,
 ): CalibrationTilePosition | null => {
     if (!position) {
         return null;
@@ -102,21 +117,27 @@ const buildVectorFromPosition = (
         y: position.y,
         stepsX:
             position.stepsX ??
-            (deltaX !== null ? convertDeltaToSteps(deltaX, stepToDisplacement.x) : null),
+            (deltaX !== null
+                ? convertDisplacementToSteps(deltaX, stepToDisplacement.x, stepResponse.x)
+                : null),
         stepsY:
             position.stepsY ??
-            (deltaY !== null ? convertDeltaToSteps(deltaY, stepToDisplacement.y) : null),
+            (deltaY !== null
+                ? convertDisplacementToSteps(deltaY, stepToDisplacement.y, stepResponse.y)
+                : null),
     };
 };
 
 const computeAxisCalibration = (
     perStep: number | null,
     hasMotor: boolean,
+    responseModel: AxisStepResponseModel | null,
 ): TileAxisCalibration => ({
     stepRange: hasMotor
         ? { minSteps: MOTOR_MIN_POSITION_STEPS, maxSteps: MOTOR_MAX_POSITION_STEPS }
         : null,
     stepScale: perStep && Math.abs(perStep) >= STEP_EPSILON ? 1 / perStep : null,
+    ...(responseModel ? { responseModel } : {}),
 });
 
 const computeProfileBlobStats = (
@@ -189,20 +210,23 @@ const buildTileEntry = (
     const stepToDisplacement = normalizeStepVector(
         summaryTile?.stepToDisplacement ?? tile.metrics?.stepToDisplacement ?? null,
     );
+    const stepResponse = normalizeStepResponse(summaryTile?.stepResponse);
     const adjustedHomeSource = summaryTile?.adjustedHome ?? tile.metrics?.adjustedHome ?? null;
     const adjustedHome = buildVectorFromPosition(
         adjustedHomeSource ?? null,
         measurement,
         stepToDisplacement,
+        stepResponse,
     );
     const homeOffsetSource = summaryTile?.homeOffset ?? tile.metrics?.homeOffset ?? null;
     const homeOffset = buildVectorFromOffset(homeOffsetSource ?? null, stepToDisplacement);
     const axes = {
-        x: computeAxisCalibration(stepToDisplacement.x, Boolean(tile.assignment.x)),
-        y: computeAxisCalibration(stepToDisplacement.y, Boolean(tile.assignment.y)),
+        x: computeAxisCalibration(stepToDisplacement.x, Boolean(tile.assignment.x), stepResponse.x),
+        y: computeAxisCalibration(stepToDisplacement.y, Boolean(tile.assignment.y), stepResponse.y),
     };
     const motorReachBounds =
-        summaryTile?.motorReachBounds ?? computeTileBounds(adjustedHome, stepToDisplacement);
+        summaryTile?.motorReachBounds ??
+        computeTileBounds(adjustedHome, stepToDisplacement, stepResponse);
     const footprintBounds = summaryTile?.footprintBounds ?? null;
     const stepScaleFromAxes =
         axes.x.stepScale !== null || axes.y.stepScale !== null
@@ -438,6 +462,7 @@ export const saveCalibrationProfile = (
         calibrationCameraAspect,
         calibrationCameraResolution,
         calibrationSpace: buildCalibrationSpace(tiles),
+        wallHomography: summary.wallHomography ?? null,
         tiles,
         metrics,
     };
@@ -625,6 +650,13 @@ const validateCalibrationProfileCandidate = (
     if (!isRecord(input.calibrationSpace)) {
         return { profile: null, error: 'Calibration space is invalid.' };
     }
+    if (
+        input.wallHomography !== undefined &&
+        input.wallHomography !== null &&
+        !isWallHomography(input.wallHomography)
+    ) {
+        return { profile: null, error: 'Profile wall homography is invalid.' };
+    }
     if (!isTileResultsRecord(input.tiles)) {
         return { profile: null, error: 'Tile calibration data is invalid.' };
     }
@@ -688,6 +720,9 @@ const sanitizeImportedProfile = (
                   height: candidate.calibrationCameraResolution.height,
               }
             : null,
+        wallHomography: isWallHomography(candidate.wallHomography)
+            ? candidate.wallHomography
+            : null,
     };
     return {
         profile: sanitized,
@@ -781,6 +816,13 @@ export const profileToRunSummary = (profile: CalibrationProfile): CalibrationRun
         if (stepScale.x !== null || stepScale.y !== null) {
             result.stepScale = stepScale;
         }
+        const stepResponse = normalizeStepResponse({
+            x: entry.axes.x.responseModel,
+            y: entry.axes.y.responseModel,
+        });
+        if (stepResponse.x || stepResponse.y) {
+            result.stepResponse = stepResponse;
+        }
         tiles[entry.key] = result;
     });
     return {
@@ -794,5 +836,6 @@ export const profileToRunSummary = (profile: CalibrationProfile): CalibrationRun
                 : null,
         stepTestSettings: profile.stepTestSettings,
         tiles,
+        wallHomography: profile.wallHomography ?? null,
     };
 };
@@ -3,9 +3,12 @@ import {
     DEFAULT_FIRST_TILE_INTERIM_STEP_DELTA,
     DEFAULT_FIRST_TILE_TOLERANCE,
     DEFAULT_STAGING_POSITION,
+    DEFAULT_STEP_RESPONSE_SAMPLES,
     DEFAULT_TILE_TOLERANCE,
+    MAX_STEP_RESPONSE_SAMPLES,
 } from '@/constants/calibration';
-import type { ArrayRotation, StagingPosition } from '@/types';
+import { isWallHomography } from '@/services/calibration/math/wallHomography';
+import type { ArrayRotation, StagingPosition, WallHomography } from '@/types';
 
 const STORAGE_KEY = 'mirror:calibration:ui-settings';
 const CURRENT_VERSION = 1;
@@ -30,6 +33,8 @@ export interface CalibrationUISettings {
     firstTileInterimStepDelta: number;
     firstTileTolerance: number;
     tileTolerance: number;
+    stepResponseSamples: number;
+    wallHomography: WallHomography | null;
 }
 
 export const DEFAULT_CALIBRATION_UI_SETTINGS: CalibrationUISettings = {
@@ -40,6 +45,8 @@ export const DEFAULT_CALIBRATION_UI_SETTINGS: CalibrationUISettings = {
     firstTileInterimStepDelta: DEFAULT_FIRST_TILE_INTERIM_STEP_DELTA,
     firstTileTolerance: DEFAULT_FIRST_TILE_TOLERANCE,
     tileTolerance: DEFAULT_TILE_TOLERANCE,
+    stepResponseSamples: DEFAULT_STEP_RESPONSE_SAMPLES,
+    wallHomography: null,
 };
 
 interface StoredPayload {
@@ -98,6 +105,15 @@ export const loadCalibrationSettings = (
             tileTolerance: isFiniteNumber(settings.tileTolerance)
                 ? settings.tileTolerance
                 : DEFAULT_CALIBRATION_UI_SETTINGS.tileTolerance,
+            stepResponseSamples:
+                Number.isInteger(settings.stepResponseSamples) &&
+                settings.stepResponseSamples >= 0 &&
+                settings.stepResponseSamples <= MAX_STEP_RESPONSE_SAMPLES
+                    ? settings.stepResponseSamples
+                    : DEFAULT_CALIBRATION_UI_SETTINGS.stepResponseSamples,
+            wallHomography: isWallHomography(settings.wallHomography)
+                ? settings.wallHomography
+                : DEFAULT_CALIBRATION_UI_SETTINGS.wallHomography,
         };
 
         return result;
@@ -145,6 +161,8 @@ export const areSettingsDefault = (settings: CalibrationUISettings): boolean =>
         settings.firstTileInterimStepDelta ===
             DEFAULT_CALIBRATION_UI_SETTINGS.firstTileInterimStepDelta &&
         settings.firstTileTolerance === DEFAULT_CALIBRATION_UI_SETTINGS.firstTileTolerance &&
-        settings.tileTolerance === DEFAULT_CALIBRATION_UI_SETTINGS.tileTolerance
+        settings.tileTolerance === DEFAULT_CALIBRATION_UI_SETTINGS.tileTolerance &&
+        settings.stepResponseSamples === DEFAULT_CALIBRATION_UI_SETTINGS.stepResponseSamples &&
+        settings.wallHomography === DEFAULT_CALIBRATION_UI_SETTINGS.wallHomography
     );
 };
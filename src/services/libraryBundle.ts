@@ -0,0 +1,299 @@
+/**
+ * Library Bundle Module
+ *
+ * Versioned export/import of patterns, playback sequences and animations as a
+ * single JSON file. Exports pull in the patterns that selected sequences play so
+ * a bundle is self-contained; imports report id clashes with the local library
+ * and apply a per-item rename / replace / skip decision.
+ */
+
+import type { Pattern, PlaybackSequence } from '@/types';
+import type { Animation } from '@/types/animation';
+
+import {
+    createAnimationId,
+    loadAnimations,
+    parseAnimation,
+    persistAnimations,
+} from './animationStorage';
+import { loadPatterns, parsePattern, persistPatterns } from './patternStorage';
+import {
+    loadPlaybackSequences,
+    parseSequence,
+    persistPlaybackSequences,
+} from './playbackSequenceStorage';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const LIBRARY_BUNDLE_TYPE = 'mirror.library.bundle';
+export const LIBRARY_BUNDLE_VERSION = 1;
+
+/** Fired on `window` after an import rewrote library storage. */
+export const LIBRARY_CHANGED_EVENT = 'mirror:library-changed';
+
+export type LibraryItemKind = 'pattern' | 'sequence' | 'animation';
+
+export interface LibraryContents {
+    patterns: Pattern[];
+    sequences: PlaybackSequence[];
+    animations: Animation[];
+}
+
+export interface LibrarySelection {
+    patternIds: string[];
+    sequenceIds: string[];
+    animationIds: string[];
+}
+
+export interface LibraryBundle extends LibraryContents {
+    type: typeof LIBRARY_BUNDLE_TYPE;
+    version: number;
+    exportedAt: string;
+}
+
+export type BundleConflictResolution = 'rename' | 'replace' | 'skip';
+
+export interface BundleConflict {
+    kind: LibraryItemKind;
+    id: string;
+    /** Name in the bundle */
+    name: string;
+    /** Name of the local item with the same id */
+    existingName: string;
+}
+
+export interface LibraryMergeResult {
+    library: LibraryContents;
+    added: number;
+    replaced: number;
+    renamed: number;
+    skipped: number;
+}
+
+/** Key for a bundle item in a resolution map. */
+export const bundleItemKey = (kind: LibraryItemKind, id: string): string => `${kind}:${id}`;
+
+const IMPORTED_NAME_SUFFIX = ' (imported)';
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+export const loadLibraryContents = (storage: Storage | undefined): LibraryContents => ({
+    patterns: loadPatterns(storage),
+    sequences: loadPlaybackSequences(storage),
+    animations: loadAnimations(storage),
+});
+
+/**
+ * Add the patterns played by the selected sequences to the selection.
+ * References to patterns missing from the library are left out.
+ */
+export const resolveBundleDependencies = (
+    library: LibraryContents,
+    selection: LibrarySelection,
+): LibrarySelection => {
+    const knownPatternIds = new Set(library.patterns.map((pattern) => pattern.id));
+    const patternIds = new Set(selection.patternIds);
+    const sequenceIds = new Set(selection.sequenceIds);
+    for (const sequence of library.sequences) {
+        if (!sequenceIds.has(sequence.id)) continue;
+        for (const entry of sequence.entries) {
+            if (knownPatternIds.has(entry.patternId)) patternIds.add(entry.patternId);
+        }
+    }
+    return {
+        patternIds: Array.from(patternIds),
+        sequenceIds: selection.sequenceIds,
+        animationIds: selection.animationIds,
+    };
+};
+
+export const buildLibraryBundle = (
+    library: LibraryContents,
+    selection: LibrarySelection,
+    exportedAt: Date = new Date(),
+): LibraryBundle => {
+    const resolved = resolveBundleDependencies(library, selection);
+    const pick = <T extends { id: string }>(items: T[], ids: string[]): T[] => {
+        const wanted = new Set(ids);
+        return items.filter((item) => wanted.has(item.id));
+    };
+    return {
+        type: LIBRARY_BUNDLE_TYPE,
+        version: LIBRARY_BUNDLE_VERSION,
+        exportedAt: exportedAt.toISOString(),
+        patterns: pick(library.patterns, resolved.patternIds),
+        sequences: pick(library.sequences, resolved.sequenceIds),
+        animations: pick(library.animations, resolved.animationIds),
+    };
+};
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+const parseList = <T>(value: unknown, parse: (input: unknown) => T | null): T[] =>
+    Array.isArray(value) ? value.map(parse).filter((entry): entry is T => entry !== null) : [];
+
+export const parseLibraryBundle = (
+    json: string,
+): { bundle: LibraryBundle | null; error?: string } => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        return { bundle: null, error: 'Unable to parse the selected file as JSON.' };
+    }
+    if (!parsed || typeof parsed !== 'object') {
+        return { bundle: null, error: 'File is not a library bundle.' };
+    }
+    const candidate = parsed as Record<string, unknown>;
+    if (candidate.type !== LIBRARY_BUNDLE_TYPE) {
+        return { bundle: null, error: 'File is not a library bundle.' };
+    }
+    if (candidate.version !== LIBRARY_BUNDLE_VERSION) {
+        return {
+            bundle: null,
+            error: `Unsupported bundle version ${String(candidate.version)}.`,
+        };
+    }
+    const bundle: LibraryBundle = {
+        type: LIBRARY_BUNDLE_TYPE,
+        version: LIBRARY_BUNDLE_VERSION,
+        exportedAt: typeof candidate.exportedAt === 'string' ? candidate.exportedAt : '',
+        patterns: parseList(candidate.patterns, parsePattern),
+        sequences: parseList(candidate.sequences, parseSequence),
+        animations: parseList(candidate.animations, parseAnimation),
+    };
+    if (
+        bundle.patterns.length === 0 &&
+        bundle.sequences.length === 0 &&
+        bundle.animations.length === 0
+    ) {
+        return { bundle: null, error: 'Bundle does not contain any items.' };
+    }
+    return { bundle };
+};
+
+const ITEM_LISTS: Array<{ kind: LibraryItemKind; key: keyof LibraryContents }> = [
+    { kind: 'pattern', key: 'patterns' },
+    { kind: 'sequence', key: 'sequences' },
+    { kind: 'animation', key: 'animations' },
+];
+
+/**
+ * Bundle items whose id already exists in the local library.
+ */
+export const findBundleConflicts = (
+    bundle: LibraryContents,
+    library: LibraryContents,
+): BundleConflict[] =>
+    ITEM_LISTS.flatMap(({ kind, key }) => {
+        const existing = new Map<string, { name: string }>(
+            library[key].map((item) => [item.id, item]),
+        );
+        return bundle[key].flatMap((item) => {
+            const match = existing.get(item.id);
+            return match ? [{ kind, id: item.id, name: item.name, existingName: match.name }] : [];
+        });
+    });
+
+const defaultCreateId = (kind: LibraryItemKind): string => {
+    switch (kind) {
+        case 'pattern':
+            return `pattern-${globalThis.crypto.randomUUID()}`;
+        case 'sequence':
+            return `seq-${globalThis.crypto.randomUUID()}`;
+        case 'animation':
+            return createAnimationId();
+    }
+};
+
+/**
+ * Merge a bundle into the library. Items without a clash are added; clashing
+ * items follow `resolutions` (keyed by `bundleItemKey`), defaulting to rename.
+ * Renamed patterns get a new id, and bundle sequences are pointed at it.
+ * Skipped patterns leave bundle sequences playing the local pattern with that id.
+ */
+export const mergeLibraryBundle = (
+    library: LibraryContents,
+    bundle: LibraryContents,
+    resolutions: Record<string, BundleConflictResolution>,
+    createId: (kind: LibraryItemKind) => string = defaultCreateId,
+): LibraryMergeResult => {
+    const counts = { added: 0, replaced: 0, renamed: 0, skipped: 0 };
+    const patternIdMap = new Map<string, string>();
+
+    const mergeList = <T extends { id: string; name: string }>(
+        kind: LibraryItemKind,
+        existing: T[],
+        incoming: T[],
+        onRename?: (fromId: string, toId: string) => void,
+    ): T[] => {
+        const next = [...existing];
+        const indexById = new Map(existing.map((item, index) => [item.id, index]));
+        for (const item of incoming) {
+            const index = indexById.get(item.id);
+            if (index === undefined) {
+                indexById.set(item.id, next.length);
+                next.push(item);
+                counts.added += 1;
+                continue;
+            }
+            const resolution = resolutions[bundleItemKey(kind, item.id)] ?? 'rename';
+            if (resolution === 'skip') {
+                counts.skipped += 1;
+            } else if (resolution === 'replace') {
+                next[index] = item;
+                counts.replaced += 1;
+            } else {
+                const id = createId(kind);
+                onRename?.(item.id, id);
+                next.push({ ...item, id, name: `${item.name}${IMPORTED_NAME_SUFFIX}` });
+                counts.renamed += 1;
+            }
+        }
+        return next;
+    };
+
+    const patterns = mergeList('pattern', library.patterns, bundle.patterns, (from, to) =>
+        patternIdMap.set(from, to),
+    );
+    const remappedSequences = bundle.sequences.map((sequence) => ({
+        ...sequence,
+        entries: sequence.entries.map((entry) => ({
+            ...entry,
+            patternId: patternIdMap.get(entry.patternId) ?? entry.patternId,
+        })),
+    }));
+    const sequences = mergeList('sequence', library.sequences, remappedSequences);
+    const animations = mergeList('animation', library.animations, bundle.animations);
+
+    return { library: { patterns, sequences, animations }, ...counts };
+};
+
+const dispatchLibraryChangedEvent = () => {
+    if (typeof window === 'undefined' || typeof window.dispatchEvent !== 'function') {
+        return;
+    }
+    window.dispatchEvent(new Event(LIBRARY_CHANGED_EVENT));
+};
+
+/**
+ * Merge a bundle into stored library data and notify open views.
+ */
+export const importLibraryBundle = (
+    storage: Storage | undefined,
+    bundle: LibraryContents,
+    resolutions: Record<string, BundleConflictResolution>,
+): LibraryMergeResult => {
+    const result = mergeLibraryBundle(loadLibraryContents(storage), bundle, resolutions);
+    persistPatterns(storage, result.library.patterns);
+    persistPlaybackSequences(storage, result.library.sequences);
+    persistAnimations(storage, result.library.animations);
+    dispatchLibraryChangedEvent();
+    return result;
+};
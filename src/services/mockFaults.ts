@@ -0,0 +1,118 @@
+/**
+ * Mock Fault Injection Module
+ *
+ * Fault definitions for `MockMqttTransport`. Faults target a whole node or a single
+ * motor and let developers exercise timeout and recovery paths (ack/completion
+ * timeouts in `PendingCommandTracker`, calibration retry decisions) without real
+ * hardware misbehaving.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type MockFaultKind =
+    | 'drop-ack'
+    | 'delay-completion'
+    | 'stuck-moving'
+    | 'offline'
+    | 'position-drift'
+    | 'home-failure';
+
+export interface MockFaultInput {
+    kind: MockFaultKind;
+    mac: string;
+    /** Motor index, or null/undefined to affect every motor on the node. */
+    motorId?: number | null;
+    /**
+     * How many commands the fault applies to before it clears itself. Only used by
+     * per-command faults; null means until cleared.
+     */
+    count?: number | null;
+    /** Extra completion delay for `delay-completion`. */
+    delayMs?: number;
+    /** Maximum random step change per second for `position-drift`. */
+    driftSteps?: number;
+}
+
+export interface MockFault {
+    id: string;
+    kind: MockFaultKind;
+    mac: string;
+    motorId: number | null;
+    /** Remaining triggers for per-command faults; null when unlimited or persistent. */
+    remaining: number | null;
+    delayMs: number;
+    driftSteps: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const MOCK_FAULT_KINDS: MockFaultKind[] = [
+    'drop-ack',
+    'delay-completion',
+    'stuck-moving',
+    'offline',
+    'position-drift',
+    'home-failure',
+];
+
+export const MOCK_FAULT_LABELS: Record<MockFaultKind, string> = {
+    'drop-ack': 'Drop acks',
+    'delay-completion': 'Delay completions',
+    'stuck-moving': 'Stuck moving',
+    offline: 'Offline (Last Will)',
+    'position-drift': 'Position drift',
+    'home-failure': 'Homing failure',
+};
+
+export const MOCK_FAULT_DESCRIPTIONS: Record<MockFaultKind, string> = {
+    'drop-ack': 'MOVE/HOME run normally but never send their ack. Long moves hit the ack timeout.',
+    'delay-completion': 'Motion takes longer than estimated, so `done` arrives late.',
+    'stuck-moving':
+        'Motion never finishes: `moving` stays true, no `done` is sent and later commands get E04.',
+    offline: 'Node drops off the broker and its Last Will marks it offline until cleared.',
+    'position-drift': 'Idle motors randomly gain or lose steps, as if they were skipping.',
+    'home-failure': 'HOME runs but reports HOME_FAILED and leaves the motor un-homed.',
+};
+
+/** Faults consumed one command at a time; the rest persist until cleared. */
+export const PER_COMMAND_FAULT_KINDS: ReadonlySet<MockFaultKind> = new Set([
+    'drop-ack',
+    'delay-completion',
+    'home-failure',
+]);
+
+export const DEFAULT_FAULT_DELAY_MS = 20_000;
+export const DEFAULT_FAULT_DRIFT_STEPS = 20;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Fill defaults and drop options that do not apply to the fault kind.
+ */
+export const normalizeFaultInput = (input: MockFaultInput, id: string): MockFault => {
+    const perCommand = PER_COMMAND_FAULT_KINDS.has(input.kind);
+    const count = input.count ?? null;
+    return {
+        id,
+        kind: input.kind,
+        mac: input.mac,
+        // Offline always affects the whole node
+        motorId: input.kind === 'offline' ? null : (input.motorId ?? null),
+        remaining: perCommand && count !== null ? Math.max(1, Math.floor(count)) : null,
+        delayMs: Math.max(0, input.delayMs ?? DEFAULT_FAULT_DELAY_MS),
+        driftSteps: Math.max(1, Math.round(input.driftSteps ?? DEFAULT_FAULT_DRIFT_STEPS)),
+    };
+};
+
+/** True when the fault applies to any of the given motors on the node. */
+export const faultMatches = (fault: MockFault, mac: string, motorIds: number[]): boolean =>
+    fault.mac === mac && (fault.motorId === null || motorIds.includes(fault.motorId));
+
+export const describeFaultTarget = (fault: Pick<MockFault, 'mac' | 'motorId'>): string =>
+    fault.motorId === null ? `${fault.mac} (all motors)` : `${fault.mac} motor ${fault.motorId}`;
@@ -1,5 +1,23 @@
 import { MOTOR_MAX_POSITION_STEPS, MOTOR_MIN_POSITION_STEPS } from '../constants/control';
 
+import {
+    faultMatches,
+    normalizeFaultInput,
+    PER_COMMAND_FAULT_KINDS,
+    type MockFault,
+    type MockFaultInput,
+    type MockFaultKind,
+} from './mockFaults';
+import {
+    MICROSTEP_MODES,
+    NODE_CONFIG_FIELDS,
+    validateNodeConfigValue,
+    type MicrostepMode,
+    type NodeConfigField,
+    type ThermalLimitingMode,
+} from './nodeConfig';
+import { estimateMoveSeconds } from './thermalBudget';
+
 import type { Node } from '../types';
 
 export interface MockMotorState {
@@ -10,6 +28,32 @@ export interface MockMotorState {
     homed: boolean;
     stepsSinceHome: number;
     motionTimer: ReturnType<typeof setTimeout> | null;
+    /** Remaining thermal budget in seconds; negative when over budget with limiting OFF. */
+    budgetSeconds: number;
+    /** Set by WAKE so the driver stays powered after a move; otherwise it sleeps on completion. */
+    wakeHeld: boolean;
+    speed: number;
+    accel: number;
+    estMs: number;
+    startedMs: number;
+    actualMs: number | null;
+}
+
+export interface MockNodeConfig {
+    speed: number;
+    accel: number;
+    decel: number;
+    thermalLimiting: ThermalLimitingMode;
+    microstep: MicrostepMode;
+}
+
+export interface MockNetworkState {
+    ssid: string;
+    rssi: number;
+    brokerHost: string;
+    brokerPort: number;
+    brokerUser: string;
+    brokerPass: string;
 }
 
 export interface MockTileDriver {
@@ -17,50 +61,157 @@ export interface MockTileDriver {
     ip: string;
     status: 'ready' | 'offline';
     motors: MockMotorState[];
+    config: MockNodeConfig;
+    network: MockNetworkState;
 }
 
+// =============================================================================
+// FIRMWARE CONSTANTS
+// =============================================================================
+
+export const MOCK_MAX_BUDGET_SECONDS = 90;
+/** Budget seconds regained per second asleep (full cooldown from empty takes 180 s). */
+export const MOCK_COOLDOWN_RATE = 0.5;
+export const MOCK_STATUS_IDLE_INTERVAL_MS = 1_000;
+export const MOCK_STATUS_MOTION_INTERVAL_MS = 200;
+/** How long a node is silent while it reconnects after NET:SET / MQTT:SET_CONFIG. */
+export const MOCK_RECONNECT_DELAY_MS = 3_500;
+
+const DEFAULT_HOME_OVERSHOOT_STEPS = 600;
+const DEFAULT_HOME_BACKOFF_STEPS = 150;
+const DUPLICATE_CACHE_SIZE = 128;
+const FIRMWARE_VERSION = 'mock';
+const FIRMWARE_DATE = '2025-01-01T00:00:00Z';
+
+const DEFAULT_NODE_CONFIG: MockNodeConfig = {
+    speed: 4_000,
+    accel: 32_000,
+    decel: 32_000,
+    thermalLimiting: 'ON',
+    microstep: 'FULL',
+};
+
+const DEFAULT_BROKER = {
+    brokerHost: 'localhost',
+    brokerPort: 1883,
+    brokerUser: 'mirror',
+    brokerPass: 'steelthread',
+};
+
+const MICROSTEP_MULTIPLIERS: Record<MicrostepMode, number> = {
+    FULL: 1,
+    HALF: 2,
+    '1/4': 4,
+    '1/8': 8,
+    '1/16': 16,
+    '1/32': 32,
+};
+
+const ERROR_CATALOG: Record<string, { reason?: string; message: string }> = {
+    E01: { reason: 'BAD_CMD', message: 'Unknown or unsupported action.' },
+    E02: { reason: 'BAD_ID', message: 'Invalid motor ID or target mask.' },
+    E03: { reason: 'BAD_PARAM', message: 'Parameter validation failure.' },
+    E04: { reason: 'BUSY', message: 'Controller is busy executing another command.' },
+    E07: {
+        reason: 'POS_OUT_OF_RANGE',
+        message: 'Requested position is outside the allowed travel range.',
+    },
+    E10: {
+        reason: 'THERMAL_REQ_GT_MAX',
+        message: 'Requested move exceeds the max thermal budget.',
+    },
+    E11: {
+        reason: 'THERMAL_NO_BUDGET',
+        message: 'Insufficient thermal budget to run the command.',
+    },
+    E12: { reason: 'THERMAL_NO_BUDGET_WAKE', message: 'WAKE blocked by thermal limits.' },
+    NET_BAD_PARAM: { message: 'Wi-Fi credential payload invalid.' },
+    NET_SCAN_AP_ONLY: { message: 'Network scan only allowed in AP mode.' },
+    MQTT_UNSUPPORTED_ACTION: { message: 'Action not available via MQTT.' },
+    MQTT_BAD_PARAM: { message: 'MQTT parameters failed validation.' },
+    // Only produced by the `home-failure` fault
+    HOME_FAILED: { message: 'Home switch not detected before the travel limit.' },
+};
+
+const HELP_LINES = [
+    'HELP',
+    'MOVE:<id|ALL>,<abs_steps>[,<speed>][,<accel>]',
+    'HOME:<id|ALL>[,<overshoot>][,<backoff>][,<speed>][,<accel>][,<full_range>]',
+    'WAKE:<id|ALL>',
+    'SLEEP:<id|ALL>',
+    'GET <resource>',
+    'SET <field>=<value>',
+    'NET:STATUS',
+    'NET:SET,"<ssid>","<pass>"',
+    'NET:RESET',
+    'NET:LIST',
+    'MQTT:GET_CONFIG',
+    'MQTT:SET_CONFIG <key>=<val>...',
+];
+
+// =============================================================================
+// FIXTURES
+// =============================================================================
+
+const createMockMotor = (id: number, overrides: Partial<MockMotorState> = {}): MockMotorState => ({
+    id,
+    position: 0,
+    moving: false,
+    awake: false,
+    homed: true,
+    stepsSinceHome: 0,
+    motionTimer: null,
+    budgetSeconds: MOCK_MAX_BUDGET_SECONDS,
+    wakeHeld: false,
+    speed: DEFAULT_NODE_CONFIG.speed,
+    accel: DEFAULT_NODE_CONFIG.accel,
+    estMs: 0,
+    startedMs: 0,
+    actualMs: null,
+    ...overrides,
+});
+
+const createNetwork = (rssi: number): MockNetworkState => ({
+    ssid: 'MirrorLab',
+    rssi,
+    ...DEFAULT_BROKER,
+});
+
 const DEFAULT_TILE_DRIVERS: MockTileDriver[] = [
     {
         mac: 'AA:11:BB:22:CC:33',
         ip: '192.168.1.101',
         status: 'ready',
-        motors: Array.from({ length: 6 }, (_, index) => ({
-            id: index,
-            position: index * 75,
-            moving: false,
-            awake: true,
-            homed: true,
-            stepsSinceHome: Math.abs(index * 75),
-            motionTimer: null,
-        })),
+        motors: Array.from({ length: 6 }, (_, index) =>
+            createMockMotor(index, {
+                position: index * 75,
+                stepsSinceHome: Math.abs(index * 75),
+            }),
+        ),
+        config: { ...DEFAULT_NODE_CONFIG },
+        network: createNetwork(-52),
     },
     {
         mac: 'DD:44:EE:55:FF:66',
         ip: '192.168.1.102',
         status: 'ready',
-        motors: Array.from({ length: 6 }, (_, index) => ({
-            id: index,
-            position: index * -60,
-            moving: false,
-            awake: true,
-            homed: index % 2 === 0,
-            stepsSinceHome: index % 2 === 0 ? Math.abs(index * -60) : 6_500 + index * 120,
-            motionTimer: null,
-        })),
+        motors: Array.from({ length: 6 }, (_, index) =>
+            createMockMotor(index, {
+                position: index * -60,
+                homed: index % 2 === 0,
+                stepsSinceHome: index % 2 === 0 ? Math.abs(index * -60) : 6_500 + index * 120,
+            }),
+        ),
+        config: { ...DEFAULT_NODE_CONFIG },
+        network: createNetwork(-61),
     },
     {
         mac: '77:88:99:AA:BB:CC',
         ip: '192.168.1.103',
         status: 'offline',
-        motors: Array.from({ length: 4 }, (_, index) => ({
-            id: index,
-            position: 0,
-            moving: false,
-            awake: false,
-            homed: false,
-            stepsSinceHome: 0,
-            motionTimer: null,
-        })),
+        motors: Array.from({ length: 4 }, (_, index) => createMockMotor(index, { homed: false })),
+        config: { ...DEFAULT_NODE_CONFIG },
+        network: createNetwork(-78),
     },
 ];
 
@@ -68,6 +219,8 @@ export const getMockTileDrivers = (): MockTileDriver[] =>
     DEFAULT_TILE_DRIVERS.map((driver) => ({
         ...driver,
         motors: driver.motors.map((motor) => ({ ...motor, motionTimer: null })),
+        config: { ...driver.config },
+        network: { ...driver.network },
     }));
 
 export const getMockNodes = (): Node[] =>
@@ -90,8 +243,74 @@ const encodeJson = (value: unknown): Uint8Array => {
     return new TextEncoder().encode(text);
 };
 
+const quote = (value: string): string => `"${value}"`;
+
+const roundTenth = (value: number): number => Math.round(value * 10) / 10;
+
+const toInteger = (value: unknown): number | null => {
+    if (typeof value === 'number' && Number.isInteger(value)) {
+        return value;
+    }
+    if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) {
+        return Number.parseInt(value, 10);
+    }
+    return null;
+};
+
 type MessageHandler = (message: MockTransportMessage) => void;
 
+type ResponseWarning = Record<string, unknown>;
+
+interface DriverRuntime {
+    lastStatusAt: number;
+    /** Node publishes and answers nothing until this time (simulated reconnect). */
+    silentUntil: number;
+}
+
+interface MotionPlan {
+    motor: MockMotorState;
+    target: number;
+    /** Steps travelled, including any HOME overshoot/backoff. */
+    distance: number;
+    seconds: number;
+}
+
+interface MotionRequest {
+    action: 'MOVE' | 'HOME';
+    plans: MotionPlan[];
+    speed: number;
+    accel: number;
+    warnings: ResponseWarning[];
+    onComplete?: (motor: MockMotorState) => void;
+    /** Error code reported instead of `done` (injected homing failure). */
+    failureCode?: string;
+}
+
+interface StuckMotion {
+    faultId: string;
+    complete: () => void;
+}
+
+export interface MockTransportOptions {
+    /** Random source for injected faults; defaults to `Math.random`. */
+    random?: () => number;
+}
+
+interface ThermalDemand {
+    motor: MockMotorState;
+    seconds: number;
+}
+
+/**
+ * In-memory firmware simulator used for `mock://` connections. Models the MQTT
+ * command schema closely enough for offline demos and tests to exercise real
+ * failure paths: per-motor E04 BUSY, E07 range checks, thermal budget drain and
+ * recovery (E10/E11/E12), WAKE/SLEEP, GET/SET with a retained config topic,
+ * network commands and the 1 Hz idle / 5 Hz motion status cadence.
+ *
+ * Faults (see `mockFaults`) can be injected per node or motor to exercise timeout
+ * and recovery paths.
+ */
 export class MockMqttTransport {
     private readonly tileDrivers: MockTileDriver[];
 
@@ -99,15 +318,57 @@ export class MockMqttTransport {
 
     private interval: ReturnType<typeof setInterval> | null = null;
 
-    constructor(drivers: MockTileDriver[] = getMockTileDrivers()) {
+    private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+
+    private readonly runtime = new Map<string, DriverRuntime>();
+
+    private readonly retained = new Map<string, Uint8Array>();
+
+    private readonly responseCache = new Map<string, unknown[]>();
+
+    private bootAt = Date.now();
+
+    private thermalUpdatedAt = Date.now();
+
+    private readonly random: () => number;
+
+    private faults: MockFault[] = [];
+
+    private nextFaultId = 1;
+
+    private readonly faultListeners = new Set<() => void>();
+
+    /** Nodes taken offline by an `offline` fault, restored when it clears. */
+    private readonly faultOfflineMacs = new Set<string>();
+
+    private stuckMotions: StuckMotion[] = [];
+
+    private driftUpdatedAt = Date.now();
+
+    constructor(
+        drivers: MockTileDriver[] = getMockTileDrivers(),
+        options: MockTransportOptions = {},
+    ) {
         this.tileDrivers = drivers;
+        this.random = options.random ?? Math.random;
     }
 
     public connect(handler: MessageHandler): void {
         this.disconnect();
         this.handler = handler;
-        this.broadcastStatus();
-        this.interval = setInterval(() => this.broadcastStatus(), 5_000);
+        this.bootAt = Date.now();
+        this.thermalUpdatedAt = this.bootAt;
+        this.driftUpdatedAt = this.bootAt;
+        for (const driver of this.tileDrivers) {
+            this.runtime.set(driver.mac, { lastStatusAt: 0, silentUntil: 0 });
+            if (driver.status === 'offline') {
+                this.emitLastWill(driver);
+            } else {
+                this.publishConfig(driver);
+            }
+        }
+        this.broadcastStatus(true);
+        this.interval = setInterval(() => this.tick(), MOCK_STATUS_MOTION_INTERVAL_MS);
     }
 
     public disconnect(): void {
@@ -115,6 +376,11 @@ export class MockMqttTransport {
             clearInterval(this.interval);
             this.interval = null;
         }
+        for (const timer of this.timers) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+        this.stuckMotions = [];
         for (const driver of this.tileDrivers) {
             for (const motor of driver.motors) {
                 if (motor.motionTimer) {
@@ -127,6 +393,14 @@ export class MockMqttTransport {
         this.handler = null;
     }
 
+    /** Retained messages (config topic) a broker would replay to new subscribers. */
+    public getRetainedMessages(): MockTransportMessage[] {
+        return Array.from(this.retained.entries()).map(([topic, payload]) => ({
+            topic,
+            payload,
+        }));
+    }
+
     public publish(topic: string, payload: string): Promise<void> {
         if (!this.handler) {
             return Promise.resolve();
@@ -139,7 +413,7 @@ export class MockMqttTransport {
         }
 
         const driver = this.tileDrivers.find((entry) => entry.mac === mac);
-        if (!driver) {
+        if (!driver || driver.status === 'offline' || this.isSilent(driver, Date.now())) {
             return Promise.resolve();
         }
 
@@ -160,7 +434,24 @@ export class MockMqttTransport {
         const action =
             typeof envelope.action === 'string' ? envelope.action.toUpperCase() : 'UNKNOWN';
         const cmdId = envelope.cmd_id ?? this.generateCommandId();
-        const params = envelope.params ?? {};
+        const params =
+            envelope.params && typeof envelope.params === 'object' ? envelope.params : {};
+
+        // Firmware replays cached responses for a repeated cmd_id without re-executing
+        const cached = this.responseCache.get(cmdId);
+        if (cached) {
+            cached.forEach((response) => this.emit(`devices/${mac}/cmd/resp`, response));
+            return Promise.resolve();
+        }
+        this.responseCache.set(cmdId, []);
+        if (this.responseCache.size > DUPLICATE_CACHE_SIZE) {
+            const oldest = this.responseCache.keys().next().value;
+            if (oldest !== undefined) {
+                this.responseCache.delete(oldest);
+            }
+        }
+
+        this.advanceThermal(Date.now());
 
         switch (action) {
             case 'MOVE':
@@ -169,9 +460,51 @@ export class MockMqttTransport {
             case 'HOME':
                 this.handleHome(driver, mac, cmdId, params);
                 break;
+            case 'WAKE':
+                this.handleWake(driver, mac, cmdId, params);
+                break;
+            case 'SLEEP':
+                this.handleSleep(driver, mac, cmdId, params);
+                break;
+            case 'GET':
+                this.handleGet(driver, mac, cmdId, params);
+                break;
+            case 'SET':
+                this.handleSet(driver, mac, cmdId, params);
+                break;
+            case 'NET:STATUS':
+                this.emitDone(mac, cmdId, action, {
+                    sub_action: 'STATUS',
+                    state: 'CONNECTED',
+                    rssi: driver.network.rssi,
+                    ssid: quote(driver.network.ssid),
+                    ip: driver.ip,
+                });
+                break;
+            case 'NET:LIST':
+                // The simulated node is always in station mode
+                this.emitError(mac, cmdId, action, 'NET_SCAN_AP_ONLY');
+                break;
+            case 'NET:SET':
+                this.handleNetSet(driver, mac, cmdId, params);
+                break;
+            case 'NET:RESET':
+                this.handleNetReset(driver, mac, cmdId);
+                break;
+            case 'MQTT:GET_CONFIG':
+                this.emitDone(mac, cmdId, action, this.describeBroker(driver));
+                break;
+            case 'MQTT:SET_CONFIG':
+                this.handleMqttSetConfig(driver, mac, cmdId, params);
+                break;
+            case 'HELP':
+                this.emitDone(mac, cmdId, action, { lines: HELP_LINES });
+                break;
+            case 'STATUS':
+                this.emitError(mac, cmdId, action, 'MQTT_UNSUPPORTED_ACTION');
+                break;
             default:
-                this.emitAck(mac, cmdId, action, { est_ms: 100 });
-                this.emitDone(mac, cmdId, action, { actual_ms: 110 });
+                this.emitError(mac, cmdId, action, 'E01');
                 break;
         }
 
@@ -191,53 +524,317 @@ export class MockMqttTransport {
             }));
     }
 
-    private broadcastStatus(): void {
-        if (!this.handler) {
+    /** Online/offline state and motor ids of every simulated node. */
+    public describeNodes(): Array<{ mac: string; online: boolean; motorIds: number[] }> {
+        return this.tileDrivers.map((driver) => ({
+            mac: driver.mac,
+            online: driver.status !== 'offline',
+            motorIds: driver.motors.map((motor) => motor.id),
+        }));
+    }
+
+    /** Current step position of a simulated motor, or null for unknown motors. */
+    public getMotorPosition(mac: string, motorId: number): number | null {
+        const driver = this.tileDrivers.find((entry) => entry.mac === mac);
+        return driver?.motors.find((motor) => motor.id === motorId)?.position ?? null;
+    }
+
+    // =========================================================================
+    // FAULT INJECTION
+    // =========================================================================
+
+    /** Active faults. The array is replaced on every change, so it is safe as a snapshot. */
+    public getFaults = (): MockFault[] => this.faults;
+
+    public subscribeFaults = (listener: () => void): (() => void) => {
+        this.faultListeners.add(listener);
+        return () => {
+            this.faultListeners.delete(listener);
+        };
+    };
+
+    public injectFault(input: MockFaultInput): MockFault {
+        const driver = this.tileDrivers.find((entry) => entry.mac === input.mac);
+        if (!driver) {
+            throw new Error(`Unknown mock node ${input.mac}`);
+        }
+        const fault = normalizeFaultInput(input, `fault-${this.nextFaultId}`);
+        this.nextFaultId += 1;
+        this.setFaults([...this.faults, fault]);
+        if (fault.kind === 'offline' && driver.status !== 'offline') {
+            this.faultOfflineMacs.add(driver.mac);
+            this.takeOffline(driver);
+        }
+        return fault;
+    }
+
+    public clearFault(faultId: string): void {
+        const fault = this.faults.find((entry) => entry.id === faultId);
+        if (!fault) {
+            return;
+        }
+        this.setFaults(this.faults.filter((entry) => entry.id !== faultId));
+        this.releaseFault(fault);
+    }
+
+    public clearAllFaults(): void {
+        const cleared = this.faults;
+        this.setFaults([]);
+        cleared.forEach((fault) => this.releaseFault(fault));
+    }
+
+    private setFaults(next: MockFault[]): void {
+        this.faults = next;
+        this.faultListeners.forEach((listener) => listener());
+    }
+
+    /** Undo the lasting effects of a fault: finish stuck moves, bring nodes back. */
+    private releaseFault(fault: MockFault): void {
+        if (fault.kind === 'stuck-moving') {
+            const released = this.stuckMotions.filter((entry) => entry.faultId === fault.id);
+            this.stuckMotions = this.stuckMotions.filter((entry) => entry.faultId !== fault.id);
+            released.forEach((entry) => entry.complete());
+        }
+        if (fault.kind !== 'offline' || !this.faultOfflineMacs.has(fault.mac)) {
+            return;
+        }
+        const stillOffline = this.faults.some(
+            (entry) => entry.kind === 'offline' && entry.mac === fault.mac,
+        );
+        const driver = this.tileDrivers.find((entry) => entry.mac === fault.mac);
+        if (driver && !stillOffline) {
+            this.faultOfflineMacs.delete(fault.mac);
+            driver.status = 'ready';
+            this.publishConfig(driver);
+            this.publishStatusNow(driver);
+        }
+    }
+
+    /**
+     * Find a fault of the given kind affecting any of the motors. Per-command faults
+     * use up one trigger and disappear when exhausted.
+     */
+    private takeFault(kind: MockFaultKind, mac: string, motorIds: number[]): MockFault | null {
+        const fault = this.faults.find(
+            (entry) => entry.kind === kind && faultMatches(entry, mac, motorIds),
+        );
+        if (!fault || !PER_COMMAND_FAULT_KINDS.has(kind) || fault.remaining === null) {
+            return fault ?? null;
+        }
+        const remaining = fault.remaining - 1;
+        this.setFaults(
+            remaining > 0
+                ? this.faults.map((entry) =>
+                      entry.id === fault.id ? { ...entry, remaining } : entry,
+                  )
+                : this.faults.filter((entry) => entry.id !== fault.id),
+        );
+        return fault;
+    }
+
+    /** Idle motors under a `position-drift` fault gain or lose a few steps each second. */
+    private applyDrift(now: number): void {
+        if (now - this.driftUpdatedAt < MOCK_STATUS_IDLE_INTERVAL_MS) {
+            return;
+        }
+        this.driftUpdatedAt = now;
+        const driftFaults = this.faults.filter((fault) => fault.kind === 'position-drift');
+        if (driftFaults.length === 0) {
             return;
         }
         for (const driver of this.tileDrivers) {
-            const motorsPayload: Record<string, unknown> = {};
+            if (driver.status === 'offline') {
+                continue;
+            }
             for (const motor of driver.motors) {
-                motorsPayload[motor.id.toString()] = {
-                    id: motor.id,
-                    position: motor.position,
-                    moving: motor.moving,
-                    awake: motor.awake,
-                    homed: motor.homed,
-                    steps_since_home: motor.stepsSinceHome,
-                    budget_s: 120,
-                    ttfc_s: 0,
-                    speed: 4_000,
-                    accel: 16_000,
-                    est_ms: motor.moving ? 200 : 0,
-                    started_ms: 0,
-                    actual_ms: 0,
-                };
+                const fault = driftFaults.find((entry) =>
+                    faultMatches(entry, driver.mac, [motor.id]),
+                );
+                if (!fault || motor.moving) {
+                    continue;
+                }
+                const delta = Math.round((this.random() * 2 - 1) * fault.driftSteps);
+                const next = Math.min(
+                    MOTOR_MAX_POSITION_STEPS,
+                    Math.max(MOTOR_MIN_POSITION_STEPS, motor.position + delta),
+                );
+                motor.stepsSinceHome += Math.abs(next - motor.position);
+                motor.position = next;
             }
-            const payload = {
-                node_state: driver.status,
-                ip: driver.ip,
-                mac: driver.mac,
-                motors: motorsPayload,
-            };
-            this.emit(`devices/${driver.mac}/status`, payload);
         }
     }
 
-    private emit(topic: string, payload: unknown): void {
+    // =========================================================================
+    // STATUS & CONFIG TOPICS
+    // =========================================================================
+
+    private tick(): void {
+        const now = Date.now();
+        this.advanceThermal(now);
+        this.applyDrift(now);
+        this.broadcastStatus(false, now);
+    }
+
+    private isSilent(driver: MockTileDriver, now: number): boolean {
+        return (this.runtime.get(driver.mac)?.silentUntil ?? 0) > now;
+    }
+
+    /**
+     * Publish status for every online node whose cadence is due: 5 Hz while any of
+     * its motors moves, 1 Hz otherwise.
+     */
+    private broadcastStatus(force: boolean, now: number = Date.now()): void {
         if (!this.handler) {
             return;
         }
-        this.handler({ topic, payload: encodeJson(payload) });
+        for (const driver of this.tileDrivers) {
+            if (driver.status === 'offline' || this.isSilent(driver, now)) {
+                continue;
+            }
+            const runtime = this.runtime.get(driver.mac);
+            const moving = driver.motors.some((motor) => motor.moving);
+            const interval = moving ? MOCK_STATUS_MOTION_INTERVAL_MS : MOCK_STATUS_IDLE_INTERVAL_MS;
+            if (force || !runtime || now - runtime.lastStatusAt >= interval) {
+                this.publishStatus(driver, now);
+            }
+        }
     }
 
-    private generateCommandId(): string {
-        if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
-            return crypto.randomUUID();
+    private publishStatus(driver: MockTileDriver, now: number = Date.now()): void {
+        const runtime = this.runtime.get(driver.mac);
+        if (runtime) {
+            runtime.lastStatusAt = now;
         }
-        return `cmd-${Math.random().toString(16).slice(2)}`;
+        const motorsPayload: Record<string, unknown> = {};
+        for (const motor of driver.motors) {
+            motorsPayload[motor.id.toString()] = {
+                id: motor.id,
+                position: motor.position,
+                moving: motor.moving,
+                awake: motor.awake,
+                homed: motor.homed,
+                steps_since_home: motor.stepsSinceHome,
+                budget_s: roundTenth(motor.budgetSeconds),
+                ttfc_s: roundTenth(this.timeToFullCooldown(motor)),
+                speed: motor.speed,
+                accel: motor.accel,
+                est_ms: motor.estMs,
+                started_ms: motor.startedMs,
+                ...(motor.moving || motor.actualMs === null ? {} : { actual_ms: motor.actualMs }),
+            };
+        }
+        this.emit(`devices/${driver.mac}/status`, {
+            node_state: driver.status,
+            ip: driver.ip,
+            mac: driver.mac,
+            motors: motorsPayload,
+        });
     }
 
+    /** Immediate publish for state changes (wake/sleep, move start/end). */
+    private publishStatusNow(driver: MockTileDriver): void {
+        if (this.handler && driver.status !== 'offline' && !this.isSilent(driver, Date.now())) {
+            this.publishStatus(driver);
+        }
+    }
+
+    private emitLastWill(driver: MockTileDriver): void {
+        this.emit(`devices/${driver.mac}/status`, { node_state: 'offline', motors: {} });
+    }
+
+    private publishConfig(driver: MockTileDriver): void {
+        const { config } = driver;
+        const topic = `devices/${driver.mac}/config`;
+        const payload = encodeJson({
+            thermal_limiting: config.thermalLimiting,
+            max_budget_s: MOCK_MAX_BUDGET_SECONDS,
+            microstep: config.microstep,
+            microstep_mult: MICROSTEP_MULTIPLIERS[config.microstep],
+            speed: config.speed,
+            accel: config.accel,
+            decel: config.decel,
+        });
+        this.retained.set(topic, payload);
+        this.handler?.({ topic, payload });
+    }
+
+    // =========================================================================
+    // THERMAL MODEL
+    // =========================================================================
+
+    /** Awake drivers drain budget 1:1; sleeping drivers recover at the cooldown rate. */
+    private advanceThermal(now: number): void {
+        const elapsedSeconds = Math.max(0, (now - this.thermalUpdatedAt) / 1000);
+        this.thermalUpdatedAt = now;
+        if (elapsedSeconds === 0) {
+            return;
+        }
+        for (const driver of this.tileDrivers) {
+            const limiting = driver.config.thermalLimiting === 'ON';
+            for (const motor of driver.motors) {
+                if (motor.awake) {
+                    motor.budgetSeconds -= elapsedSeconds;
+                    // Limiting ON powers down an idle driver once its budget runs out
+                    if (limiting && !motor.moving && motor.budgetSeconds <= 0) {
+                        motor.budgetSeconds = Math.max(motor.budgetSeconds, 0);
+                        motor.awake = false;
+                        motor.wakeHeld = false;
+                    }
+                } else {
+                    motor.budgetSeconds = Math.min(
+                        MOCK_MAX_BUDGET_SECONDS,
+                        motor.budgetSeconds + elapsedSeconds * MOCK_COOLDOWN_RATE,
+                    );
+                }
+            }
+        }
+    }
+
+    private timeToFullCooldown(motor: MockMotorState): number {
+        return Math.max(0, (MOCK_MAX_BUDGET_SECONDS - motor.budgetSeconds) / MOCK_COOLDOWN_RATE);
+    }
+
+    /**
+     * Check thermal budgets for a command. Returns the error payload when limiting
+     * is ON and the command must be rejected, or warnings when limiting is OFF.
+     */
+    private checkThermal(
+        driver: MockTileDriver,
+        demands: ThermalDemand[],
+    ): {
+        error: { code: 'E10' | 'E11'; details: ResponseWarning } | null;
+        warnings: ResponseWarning[];
+    } {
+        const limiting = driver.config.thermalLimiting === 'ON';
+        const warnings: ResponseWarning[] = [];
+        for (const { motor, seconds } of demands) {
+            const details = {
+                id: motor.id,
+                req_ms: Math.round(seconds * 1000),
+                budget_s: roundTenth(Math.max(0, motor.budgetSeconds)),
+                ttfc_s: roundTenth(this.timeToFullCooldown(motor)),
+            };
+            const code =
+                seconds > MOCK_MAX_BUDGET_SECONDS
+                    ? 'E10'
+                    : seconds > motor.budgetSeconds
+                      ? 'E11'
+                      : null;
+            if (!code) {
+                continue;
+            }
+            if (limiting) {
+                return { error: { code, details }, warnings: [] };
+            }
+            warnings.push({ code: ERROR_CATALOG[code].reason, ...details });
+        }
+        return { error: null, warnings };
+    }
+
+    // =========================================================================
+    // MOTION COMMANDS
+    // =========================================================================
+
     private resolveTargets(driver: MockTileDriver, targetIds: unknown): MockMotorState[] {
         if (targetIds === 'ALL' || targetIds === 'all') {
             return driver.motors.slice();
@@ -266,59 +863,150 @@ export class MockMqttTransport {
         return [];
     }
 
+    /** Optional positive integer parameter; `undefined` when absent, `null` when invalid. */
+    private readPositiveInt(
+        params: Record<string, unknown>,
+        key: string,
+    ): number | null | undefined {
+        if (params[key] === undefined) {
+            return undefined;
+        }
+        const value = toInteger(params[key]);
+        return value !== null && value > 0 ? value : null;
+    }
+
+    private startMotion(
+        driver: MockTileDriver,
+        mac: string,
+        cmdId: string,
+        motion: MotionRequest,
+    ): void {
+        const { action, plans, speed, accel, warnings, onComplete, failureCode } = motion;
+        const now = Date.now();
+        const startedMs = now - this.bootAt;
+        const motorIds = plans.map(({ motor }) => motor.id);
+        const dropAck = this.takeFault('drop-ack', mac, motorIds);
+        const delay = this.takeFault('delay-completion', mac, motorIds);
+        const stuck = this.takeFault('stuck-moving', mac, motorIds);
+        const durationMs = Math.max(1, Math.round(Math.max(...plans.map((p) => p.seconds)) * 1000));
+        const actualMs = durationMs + (delay?.delayMs ?? 0);
+
+        plans.forEach(({ motor }) => {
+            if (motor.motionTimer) {
+                clearTimeout(motor.motionTimer);
+                motor.motionTimer = null;
+            }
+            motor.moving = true;
+            motor.awake = true;
+            motor.speed = speed;
+            motor.accel = accel;
+            motor.estMs = durationMs;
+            motor.startedMs = startedMs;
+        });
+
+        if (!dropAck) {
+            this.emitAck(mac, cmdId, action, { est_ms: durationMs }, warnings);
+        }
+        this.publishStatusNow(driver);
+
+        const complete = () => {
+            this.advanceThermal(Date.now());
+            plans.forEach(({ motor, target, distance }) => {
+                motor.moving = false;
+                motor.motionTimer = null;
+                motor.actualMs = actualMs;
+                if (!motor.wakeHeld) {
+                    motor.awake = false;
+                }
+                if (failureCode) {
+                    motor.homed = false;
+                    return;
+                }
+                motor.position = target;
+                motor.stepsSinceHome += distance;
+                onComplete?.(motor);
+            });
+            if (failureCode) {
+                this.emitError(mac, cmdId, action, failureCode);
+            } else {
+                this.emitDone(
+                    mac,
+                    cmdId,
+                    action,
+                    { actual_ms: actualMs, started_ms: startedMs },
+                    warnings,
+                );
+            }
+            this.publishStatusNow(driver);
+        };
+
+        // A stuck motion keeps `moving` set until its fault is cleared
+        if (stuck) {
+            this.stuckMotions.push({ faultId: stuck.id, complete });
+            return;
+        }
+
+        const timer = setTimeout(complete, actualMs);
+
+        plans.forEach(({ motor }) => {
+            motor.motionTimer = timer;
+        });
+    }
+
     private handleMove(
         driver: MockTileDriver,
         mac: string,
         cmdId: string,
         params: Record<string, unknown>,
     ): void {
-        const targetIds = params['target_ids'];
-        const position = params['position_steps'];
-        if (typeof position !== 'number' || Number.isNaN(position)) {
-            this.emitError(mac, cmdId, 'MOVE', 'E03', 'BAD_PARAM');
+        const position = toInteger(params['position_steps']);
+        const speed = this.readPositiveInt(params, 'speed');
+        const accel = this.readPositiveInt(params, 'accel');
+        if (position === null || speed === null || accel === null) {
+            this.emitError(mac, cmdId, 'MOVE', 'E03');
             return;
         }
 
-        const targets = this.resolveTargets(driver, targetIds);
+        const targets = this.resolveTargets(driver, params['target_ids'] ?? 0);
         if (targets.length === 0) {
-            this.emitError(mac, cmdId, 'MOVE', 'E02', 'BAD_ID');
+            this.emitError(mac, cmdId, 'MOVE', 'E02');
             return;
         }
 
-        if (targets.some((motor) => motor.moving)) {
-            this.emitError(mac, cmdId, 'MOVE', 'E04', 'BUSY');
+        if (position < MOTOR_MIN_POSITION_STEPS || position > MOTOR_MAX_POSITION_STEPS) {
+            this.emitError(mac, cmdId, 'MOVE', 'E07');
             return;
         }
 
-        const clampedPosition = Math.max(
-            MOTOR_MIN_POSITION_STEPS,
-            Math.min(MOTOR_MAX_POSITION_STEPS, position),
-        );
+        if (targets.some((motor) => motor.moving)) {
+            this.emitError(mac, cmdId, 'MOVE', 'E04');
+            return;
+        }
 
-        targets.forEach((motor) => {
-            if (motor.motionTimer) {
-                clearTimeout(motor.motionTimer);
-                motor.motionTimer = null;
-            }
-            motor.moving = true;
-            motor.awake = true;
+        const resolvedSpeed = speed ?? driver.config.speed;
+        const resolvedAccel = accel ?? driver.config.accel;
+        const plans = targets.map((motor): MotionPlan => {
+            const distance = Math.abs(position - motor.position);
+            return {
+                motor,
+                target: position,
+                distance,
+                seconds: estimateMoveSeconds(distance, resolvedSpeed, resolvedAccel),
+            };
         });
 
-        this.emitAck(mac, cmdId, 'MOVE', { est_ms: 220 });
-
-        const duration = 220 + Math.floor(Math.random() * 120);
-        const timer = setTimeout(() => {
-            targets.forEach((motor) => {
-                motor.position = clampedPosition;
-                motor.stepsSinceHome = Math.abs(clampedPosition);
-                motor.moving = false;
-                motor.motionTimer = null;
-            });
-            this.emitDone(mac, cmdId, 'MOVE', { actual_ms: duration });
-        }, duration);
+        const thermal = this.checkThermal(driver, plans);
+        if (thermal.error) {
+            this.emitError(mac, cmdId, 'MOVE', thermal.error.code, thermal.error.details);
+            return;
+        }
 
-        targets.forEach((motor) => {
-            motor.motionTimer = timer;
+        this.startMotion(driver, mac, cmdId, {
+            action: 'MOVE',
+            plans,
+            speed: resolvedSpeed,
+            accel: resolvedAccel,
+            warnings: thermal.warnings,
         });
     }
 
@@ -328,44 +1016,385 @@ export class MockMqttTransport {
         cmdId: string,
         params: Record<string, unknown>,
     ): void {
-        const targetIds = params['target_ids'];
-        const targets = this.resolveTargets(driver, targetIds);
+        const speed = this.readPositiveInt(params, 'speed');
+        const accel = this.readPositiveInt(params, 'accel');
+        const overshoot = params['overshoot_steps'] ?? DEFAULT_HOME_OVERSHOOT_STEPS;
+        const backoff = params['backoff_steps'] ?? DEFAULT_HOME_BACKOFF_STEPS;
+        const overshootSteps = toInteger(overshoot);
+        const backoffSteps = toInteger(backoff);
+        if (
+            speed === null ||
+            accel === null ||
+            overshootSteps === null ||
+            overshootSteps < 0 ||
+            backoffSteps === null ||
+            backoffSteps < 0
+        ) {
+            this.emitError(mac, cmdId, 'HOME', 'E03');
+            return;
+        }
+
+        const targets = this.resolveTargets(driver, params['target_ids']);
         if (targets.length === 0) {
-            this.emitError(mac, cmdId, 'HOME', 'E02', 'BAD_ID');
+            this.emitError(mac, cmdId, 'HOME', 'E02');
             return;
         }
 
         if (targets.some((motor) => motor.moving)) {
-            this.emitError(mac, cmdId, 'HOME', 'E04', 'BUSY');
+            this.emitError(mac, cmdId, 'HOME', 'E04');
             return;
         }
 
-        targets.forEach((motor) => {
-            if (motor.motionTimer) {
-                clearTimeout(motor.motionTimer);
-                motor.motionTimer = null;
+        const resolvedSpeed = speed ?? driver.config.speed;
+        const resolvedAccel = accel ?? driver.config.accel;
+        // Drive into the stop (plus overshoot), then back off to the home position
+        const plans = targets.map((motor): MotionPlan => {
+            const distance = Math.abs(motor.position) + overshootSteps + backoffSteps;
+            return {
+                motor,
+                target: 0,
+                distance,
+                seconds: estimateMoveSeconds(distance, resolvedSpeed, resolvedAccel),
+            };
+        });
+
+        const thermal = this.checkThermal(driver, plans);
+        if (thermal.error) {
+            this.emitError(mac, cmdId, 'HOME', thermal.error.code, thermal.error.details);
+            return;
+        }
+
+        const homeFailure = this.takeFault(
+            'home-failure',
+            mac,
+            targets.map((motor) => motor.id),
+        );
+        this.startMotion(driver, mac, cmdId, {
+            action: 'HOME',
+            plans,
+            speed: resolvedSpeed,
+            accel: resolvedAccel,
+            warnings: thermal.warnings,
+            failureCode: homeFailure ? 'HOME_FAILED' : undefined,
+            onComplete: (motor) => {
+                motor.homed = true;
+                motor.stepsSinceHome = 0;
+            },
+        });
+    }
+
+    // =========================================================================
+    // POWER COMMANDS
+    // =========================================================================
+
+    private handleWake(
+        driver: MockTileDriver,
+        mac: string,
+        cmdId: string,
+        params: Record<string, unknown>,
+    ): void {
+        const targets = this.resolveTargets(driver, params['target_ids']);
+        if (targets.length === 0) {
+            this.emitError(mac, cmdId, 'WAKE', 'E02');
+            return;
+        }
+        if (driver.config.thermalLimiting === 'ON') {
+            const exhausted = targets.find((motor) => !motor.awake && motor.budgetSeconds <= 0);
+            if (exhausted) {
+                this.emitError(mac, cmdId, 'WAKE', 'E12', {
+                    id: exhausted.id,
+                    budget_s: 0,
+                    ttfc_s: roundTenth(this.timeToFullCooldown(exhausted)),
+                });
+                return;
             }
-            motor.moving = true;
+        }
+        targets.forEach((motor) => {
             motor.awake = true;
+            motor.wakeHeld = true;
         });
+        this.emitDone(mac, cmdId, 'WAKE');
+        this.publishStatusNow(driver);
+    }
 
-        this.emitAck(mac, cmdId, 'HOME', { est_ms: 360 });
+    private handleSleep(
+        driver: MockTileDriver,
+        mac: string,
+        cmdId: string,
+        params: Record<string, unknown>,
+    ): void {
+        const targets = this.resolveTargets(driver, params['target_ids']);
+        if (targets.length === 0) {
+            this.emitError(mac, cmdId, 'SLEEP', 'E02');
+            return;
+        }
+        if (targets.some((motor) => motor.moving)) {
+            this.emitError(mac, cmdId, 'SLEEP', 'E04');
+            return;
+        }
+        targets.forEach((motor) => {
+            motor.awake = false;
+            motor.wakeHeld = false;
+        });
+        this.emitDone(mac, cmdId, 'SLEEP');
+        this.publishStatusNow(driver);
+    }
 
-        const duration = 360 + Math.floor(Math.random() * 160);
-        const timer = setTimeout(() => {
-            targets.forEach((motor) => {
-                motor.position = 0;
-                motor.stepsSinceHome = 0;
-                motor.homed = true;
-                motor.moving = false;
-                motor.motionTimer = null;
+    // =========================================================================
+    // CONFIG COMMANDS
+    // =========================================================================
+
+    private readConfigValue(driver: MockTileDriver, field: NodeConfigField): string | number {
+        switch (field) {
+            case 'SPEED':
+                return driver.config.speed;
+            case 'ACCEL':
+                return driver.config.accel;
+            case 'DECEL':
+                return driver.config.decel;
+            case 'THERMAL_LIMITING':
+                return driver.config.thermalLimiting;
+            case 'MICROSTEP':
+                return driver.config.microstep;
+        }
+    }
+
+    private handleGet(
+        driver: MockTileDriver,
+        mac: string,
+        cmdId: string,
+        params: Record<string, unknown>,
+    ): void {
+        const resource =
+            typeof params['resource'] === 'string' ? params['resource'].toUpperCase() : 'ALL';
+        if (resource === 'ALL') {
+            const result: Record<string, unknown> = {};
+            for (const field of NODE_CONFIG_FIELDS) {
+                result[field] = this.readConfigValue(driver, field);
+            }
+            this.emitDone(mac, cmdId, 'GET', {
+                ...result,
+                max_budget_s: MOCK_MAX_BUDGET_SECONDS,
+                free_heap_bytes: 51_264,
+                firmware_version: FIRMWARE_VERSION,
+                firmware_date: FIRMWARE_DATE,
+            });
+            return;
+        }
+        if (resource === 'LAST_OP_TIMING') {
+            const latest = driver.motors.reduce((acc, motor) =>
+                motor.startedMs > acc.startedMs ? motor : acc,
+            );
+            this.emitDone(mac, cmdId, 'GET', {
+                LAST_OP_TIMING: {
+                    ongoing: latest.moving,
+                    id: latest.id,
+                    est_ms: latest.estMs,
+                    started_ms: latest.startedMs,
+                    ...(latest.actualMs !== null && !latest.moving
+                        ? { actual_ms: latest.actualMs }
+                        : {}),
+                },
             });
-            this.emitDone(mac, cmdId, 'HOME', { actual_ms: duration });
-        }, duration);
+            return;
+        }
+        const field = NODE_CONFIG_FIELDS.find((entry) => entry === resource);
+        if (!field) {
+            this.emitError(mac, cmdId, 'GET', 'E03');
+            return;
+        }
+        this.emitDone(mac, cmdId, 'GET', { [field]: this.readConfigValue(driver, field) });
+    }
 
-        targets.forEach((motor) => {
-            motor.motionTimer = timer;
+    private handleSet(
+        driver: MockTileDriver,
+        mac: string,
+        cmdId: string,
+        params: Record<string, unknown>,
+    ): void {
+        const entries = Object.entries(params);
+        // Firmware accepts exactly one field per SET
+        if (entries.length !== 1) {
+            this.emitError(mac, cmdId, 'SET', 'E03');
+            return;
+        }
+        const [rawKey, rawValue] = entries[0];
+        const field = NODE_CONFIG_FIELDS.find((entry) => entry === rawKey.toUpperCase());
+        const value = typeof rawValue === 'string' ? rawValue.toUpperCase() : rawValue;
+        if (!field || validateNodeConfigValue(field, value) !== null) {
+            this.emitError(mac, cmdId, 'SET', 'E03');
+            return;
+        }
+
+        if (field === 'MICROSTEP' && driver.motors.some((motor) => motor.moving || motor.awake)) {
+            this.emitError(mac, cmdId, 'SET', 'E04');
+            return;
+        }
+
+        const before = JSON.stringify(driver.config);
+        switch (field) {
+            case 'SPEED':
+                driver.config.speed = value as number;
+                break;
+            case 'ACCEL':
+                driver.config.accel = value as number;
+                break;
+            case 'DECEL':
+                driver.config.decel = value as number;
+                break;
+            case 'THERMAL_LIMITING':
+                driver.config.thermalLimiting = value as ThermalLimitingMode;
+                break;
+            case 'MICROSTEP':
+                driver.config.microstep = MICROSTEP_MODES.find((mode) => mode === value)!;
+                break;
+        }
+
+        this.emitDone(
+            mac,
+            cmdId,
+            'SET',
+            field === 'MICROSTEP'
+                ? {
+                      MICROSTEP: driver.config.microstep,
+                      multiplier: MICROSTEP_MULTIPLIERS[driver.config.microstep],
+                  }
+                : { [field]: value },
+        );
+        // Hash-based dedup: only republish when the payload actually changed
+        if (JSON.stringify(driver.config) !== before) {
+            this.publishConfig(driver);
+        }
+    }
+
+    // =========================================================================
+    // NETWORK COMMANDS
+    // =========================================================================
+
+    private describeBroker(driver: MockTileDriver): Record<string, string> {
+        return {
+            host: quote(driver.network.brokerHost),
+            port: String(driver.network.brokerPort),
+            user: quote(driver.network.brokerUser),
+            pass: quote(driver.network.brokerPass),
+        };
+    }
+
+    /** Go quiet while "reconnecting", then republish config and status like a fresh MQTT session. */
+    private simulateReconnect(driver: MockTileDriver): void {
+        const runtime = this.runtime.get(driver.mac);
+        if (!runtime) {
+            return;
+        }
+        runtime.silentUntil = Date.now() + MOCK_RECONNECT_DELAY_MS;
+        this.schedule(() => {
+            if (driver.status === 'offline') {
+                return;
+            }
+            this.publishConfig(driver);
+            this.publishStatusNow(driver);
+        }, MOCK_RECONNECT_DELAY_MS);
+    }
+
+    /** Node leaves the broker for good; the broker publishes its Last Will. */
+    private takeOffline(driver: MockTileDriver): void {
+        driver.status = 'offline';
+        this.emitLastWill(driver);
+    }
+
+    private handleNetSet(
+        driver: MockTileDriver,
+        mac: string,
+        cmdId: string,
+        params: Record<string, unknown>,
+    ): void {
+        const ssid = params['ssid'];
+        const pass = params['pass'] ?? '';
+        if (
+            typeof ssid !== 'string' ||
+            ssid.length === 0 ||
+            ssid.length > 32 ||
+            typeof pass !== 'string' ||
+            pass.length > 63
+        ) {
+            this.emitError(mac, cmdId, 'NET:SET', 'NET_BAD_PARAM');
+            return;
+        }
+        driver.network.ssid = ssid;
+        this.emitDone(mac, cmdId, 'NET:SET', { sub_action: 'SET' });
+        this.simulateReconnect(driver);
+    }
+
+    private handleNetReset(driver: MockTileDriver, mac: string, cmdId: string): void {
+        this.emitAck(mac, cmdId, 'NET:RESET', { sub_action: 'RESET', state: 'CONNECTING' });
+        this.emitDone(mac, cmdId, 'NET:RESET', {
+            sub_action: 'RESET',
+            state: 'AP_ACTIVE',
+            ssid: quote(`Mirror-${mac.replace(/[^0-9A-Fa-f]/g, '').slice(-4)}`),
+            ip: '192.168.4.1',
         });
+        this.takeOffline(driver);
+    }
+
+    private handleMqttSetConfig(
+        driver: MockTileDriver,
+        mac: string,
+        cmdId: string,
+        params: Record<string, unknown>,
+    ): void {
+        const previousHost = driver.network.brokerHost;
+        if (params['reset'] === true) {
+            Object.assign(driver.network, DEFAULT_BROKER);
+        } else {
+            const host = params['host'];
+            const port = toInteger(params['port'] ?? driver.network.brokerPort);
+            const user = params['user'] ?? driver.network.brokerUser;
+            const pass = params['pass'] ?? driver.network.brokerPass;
+            if (
+                typeof host !== 'string' ||
+                host.trim().length === 0 ||
+                port === null ||
+                port < 1 ||
+                port > 65_535 ||
+                typeof user !== 'string' ||
+                typeof pass !== 'string'
+            ) {
+                this.emitError(mac, cmdId, 'MQTT:SET_CONFIG', 'MQTT_BAD_PARAM');
+                return;
+            }
+            Object.assign(driver.network, {
+                brokerHost: host.trim(),
+                brokerPort: port,
+                brokerUser: user,
+                brokerPass: pass,
+            });
+        }
+        this.emitDone(mac, cmdId, 'MQTT:SET_CONFIG', this.describeBroker(driver));
+        if (driver.network.brokerHost === previousHost) {
+            this.simulateReconnect(driver);
+        } else {
+            this.takeOffline(driver);
+        }
+    }
+
+    // =========================================================================
+    // RESPONSES
+    // =========================================================================
+
+    private schedule(callback: () => void, delayMs: number): void {
+        const timer = setTimeout(() => {
+            this.timers.delete(timer);
+            callback();
+        }, delayMs);
+        this.timers.add(timer);
+    }
+
+    private emitResponse(mac: string, response: Record<string, unknown>): void {
+        const cmdId = response['cmd_id'];
+        if (typeof cmdId === 'string') {
+            this.responseCache.get(cmdId)?.push(response);
+        }
+        this.emit(`devices/${mac}/cmd/resp`, response);
     }
 
     private emitAck(
@@ -373,12 +1402,14 @@ export class MockMqttTransport {
         cmdId: string,
         action: string,
         result: Record<string, unknown>,
+        warnings: ResponseWarning[] = [],
     ): void {
-        this.emit(`devices/${mac}/cmd/resp`, {
+        this.emitResponse(mac, {
             cmd_id: cmdId,
             action,
             status: 'ack',
             result,
+            ...(warnings.length > 0 ? { warnings } : {}),
         });
     }
 
@@ -386,13 +1417,15 @@ export class MockMqttTransport {
         mac: string,
         cmdId: string,
         action: string,
-        result: Record<string, unknown>,
+        result?: Record<string, unknown>,
+        warnings: ResponseWarning[] = [],
     ): void {
-        this.emit(`devices/${mac}/cmd/resp`, {
+        this.emitResponse(mac, {
             cmd_id: cmdId,
             action,
             status: 'done',
-            result,
+            ...(result ? { result } : {}),
+            ...(warnings.length > 0 ? { warnings } : {}),
         });
     }
 
@@ -401,18 +1434,35 @@ export class MockMqttTransport {
         cmdId: string,
         action: string,
         code: string,
-        message: string,
+        details: Record<string, unknown> = {},
     ): void {
-        this.emit(`devices/${mac}/cmd/resp`, {
+        const entry = ERROR_CATALOG[code];
+        this.emitResponse(mac, {
             cmd_id: cmdId,
             action,
             status: 'error',
             errors: [
                 {
                     code,
-                    message,
+                    ...(entry?.reason ? { reason: entry.reason } : {}),
+                    message: entry?.message ?? code,
+                    ...details,
                 },
             ],
         });
     }
+
+    private emit(topic: string, payload: unknown): void {
+        if (!this.handler) {
+            return;
+        }
+        this.handler({ topic, payload: encodeJson(payload) });
+    }
+
+    private generateCommandId(): string {
+        if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+            return crypto.randomUUID();
+        }
+        return `cmd-${Math.random().toString(16).slice(2)}`;
+    }
 }
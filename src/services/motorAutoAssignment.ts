@@ -0,0 +1,270 @@
+/**
+ * Motor Auto-Assignment Module
+ *
+ * Pure helpers for the camera-assisted assignment wizard. The wizard surveys
+ * every reflection with all motors at home, jogs one motor at a time and
+ * compares blob snapshots to find the reflection that moved. The home blob
+ * gives the grid cell, the dominant displacement gives the axis and its sign
+ * relative to the calibration jog direction gives the polarity.
+ *
+ * All positions are in centered camera coordinates (-1 to 1, +y down).
+ */
+
+import { transformTileToCamera } from '@/services/calibration/math/expectedPosition';
+import type { ArrayRotation, Axis, GridPosition, MirrorConfig, Motor } from '@/types';
+import { getAxisMapping, getStepTestJogDirection } from '@/utils/arrayRotation';
+import { moveMotorToPosition } from '@/utils/motorAssignmentOperations';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BlobPoint {
+    x: number;
+    y: number;
+}
+
+export type MotorPolarity = 'normal' | 'reversed';
+
+/** Reflection movement recorded for one motor jogged by a positive step count. */
+export interface MotorJogObservation {
+    motor: Motor;
+    /** Blob position before the jog, or null when no moved reflection was found */
+    from: BlobPoint | null;
+    /** Blob position after the jog */
+    to: BlobPoint | null;
+}
+
+export interface MotorAssignmentProposalEntry {
+    motor: Motor;
+    position: GridPosition;
+    axis: Axis;
+    polarity: MotorPolarity;
+    displacement: BlobPoint;
+}
+
+export interface MotorAssignmentProposal {
+    config: MirrorConfig;
+    entries: MotorAssignmentProposalEntry[];
+    /** Motors that could not be placed, with the reason shown to the user */
+    unresolved: Array<{ motor: Motor; reason: string }>;
+}
+
+export interface BuildAssignmentProposalParams {
+    /** Blob positions with every motor at home */
+    survey: BlobPoint[];
+    observations: MotorJogObservation[];
+    gridSize: { rows: number; cols: number };
+    arrayRotation: ArrayRotation;
+}
+
+// =============================================================================
+// BLOB MATCHING
+// =============================================================================
+
+const distanceBetween = (a: BlobPoint, b: BlobPoint): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+const nearestDistance = (point: BlobPoint, candidates: BlobPoint[]): number =>
+    candidates.reduce(
+        (best, candidate) => Math.min(best, distanceBetween(point, candidate)),
+        Number.POSITIVE_INFINITY,
+    );
+
+/**
+ * Find the reflection that moved between two snapshots: the blob in `before`
+ * farthest from anything in `after`, and the blob in `after` farthest from
+ * anything in `before`. Returns null when neither moved more than `minDistance`.
+ * `to` is null when the reflection left the camera view.
+ */
+export const findMovedBlob = (
+    before: BlobPoint[],
+    after: BlobPoint[],
+    minDistance: number,
+): { from: BlobPoint; to: BlobPoint | null } | null => {
+    const pickFarthest = (points: BlobPoint[], others: BlobPoint[]) => {
+        let best: BlobPoint | null = null;
+        let bestDistance = minDistance;
+        for (const point of points) {
+            const distance = nearestDistance(point, others);
+            if (distance > bestDistance) {
+                best = point;
+                bestDistance = distance;
+            }
+        }
+        return best;
+    };
+    const from = pickFarthest(before, after);
+    if (!from) {
+        return null;
+    }
+    return { from, to: pickFarthest(after, before) };
+};
+
+// =============================================================================
+// AXIS AND POLARITY
+// =============================================================================
+
+/**
+ * Classify a positive jog's displacement. The dominant camera direction picks
+ * the motor axis for the array rotation; polarity is normal when the sign
+ * matches the calibration step-test jog direction for that axis.
+ */
+export const classifyJogDisplacement = (
+    displacement: BlobPoint,
+    arrayRotation: ArrayRotation,
+): { axis: Axis; polarity: MotorPolarity } => {
+    const mapping = getAxisMapping(arrayRotation);
+    const horizontal = Math.abs(displacement.x) >= Math.abs(displacement.y);
+    const axis = horizontal ? mapping.logicalX : mapping.logicalY;
+    const observedSign = Math.sign(horizontal ? displacement.x : displacement.y);
+    const expectedSign = getStepTestJogDirection(axis, arrayRotation);
+    return { axis, polarity: observedSign === expectedSign ? 'normal' : 'reversed' };
+};
+
+// =============================================================================
+// GRID CELLS
+// =============================================================================
+
+/**
+ * Split values into `groups` clusters at the largest gaps between sorted
+ * values. Returns the cluster index (ascending) for each input value, or null
+ * when there are fewer values than groups.
+ */
+export const clusterByGaps = (values: number[], groups: number): number[] | null => {
+    if (groups < 1 || values.length < groups) {
+        return null;
+    }
+    const order = values
+        .map((value, index) => ({ value, index }))
+        .sort((a, b) => a.value - b.value);
+    const cuts = order
+        .slice(1)
+        .map((entry, i) => ({ after: i, gap: entry.value - order[i].value }))
+        .sort((a, b) => b.gap - a.gap || a.after - b.after)
+        .slice(0, groups - 1)
+        .map((cut) => cut.after)
+        .sort((a, b) => a - b);
+
+    const result = new Array<number>(values.length);
+    let cluster = 0;
+    order.forEach((entry, sortedIndex) => {
+        result[entry.index] = cluster;
+        if (cuts[cluster] === sortedIndex) {
+            cluster += 1;
+        }
+    });
+    return result;
+};
+
+/**
+ * Assign each surveyed home blob to a logical grid cell by clustering blob
+ * rows and columns as seen by the camera, then undoing the array rotation.
+ * Returns null when the survey cannot fill the camera grid's rows and columns.
+ */
+export const locateSurveyCells = (
+    survey: BlobPoint[],
+    gridSize: { rows: number; cols: number },
+    arrayRotation: ArrayRotation,
+): GridPosition[] | null => {
+    const swapped = arrayRotation === 90 || arrayRotation === 270;
+    const camRows = swapped ? gridSize.cols : gridSize.rows;
+    const camCols = swapped ? gridSize.rows : gridSize.cols;
+    const rowIndex = clusterByGaps(
+        survey.map((point) => point.y),
+        camRows,
+    );
+    const colIndex = clusterByGaps(
+        survey.map((point) => point.x),
+        camCols,
+    );
+    if (!rowIndex || !colIndex) {
+        return null;
+    }
+
+    const tileByCameraCell = new Map<string, GridPosition>();
+    for (let row = 0; row < gridSize.rows; row++) {
+        for (let col = 0; col < gridSize.cols; col++) {
+            const { camRow, camCol } = transformTileToCamera(row, col, gridSize, arrayRotation);
+            tileByCameraCell.set(`${camRow}-${camCol}`, { row, col });
+        }
+    }
+    return survey.map((_, index) => tileByCameraCell.get(`${rowIndex[index]}-${colIndex[index]}`)!);
+};
+
+// =============================================================================
+// PROPOSAL
+// =============================================================================
+
+const describeCell = (position: GridPosition, axis: Axis) =>
+    `[${position.row},${position.col}] ${axis.toUpperCase()}`;
+
+/**
+ * Turn jog observations into a proposed mirror config. Each observation's home
+ * blob is matched to the nearest surveyed blob to find its cell. When two
+ * motors land on the same cell and axis the larger movement wins.
+ */
+export const buildAssignmentProposal = ({
+    survey,
+    observations,
+    gridSize,
+    arrayRotation,
+}: BuildAssignmentProposalParams): MotorAssignmentProposal => {
+    const unresolved: MotorAssignmentProposal['unresolved'] = [];
+    const cells = locateSurveyCells(survey, gridSize, arrayRotation);
+    if (!cells) {
+        return {
+            config: new Map(),
+            entries: [],
+            unresolved: observations.map(({ motor }) => ({
+                motor,
+                reason: `Survey found ${survey.length} reflections, too few for a ${gridSize.rows}×${gridSize.cols} grid`,
+            })),
+        };
+    }
+
+    const bySlot = new Map<string, MotorAssignmentProposalEntry>();
+    for (const { motor, from, to } of observations) {
+        if (!from) {
+            unresolved.push({ motor, reason: 'No reflection moved' });
+            continue;
+        }
+        if (!to) {
+            unresolved.push({ motor, reason: 'Reflection left the camera view' });
+            continue;
+        }
+        let nearest = 0;
+        survey.forEach((point, index) => {
+            if (distanceBetween(point, from) < distanceBetween(survey[nearest], from)) {
+                nearest = index;
+            }
+        });
+        const displacement = { x: to.x - from.x, y: to.y - from.y };
+        const { axis, polarity } = classifyJogDisplacement(displacement, arrayRotation);
+        const entry = { motor, position: cells[nearest], axis, polarity, displacement };
+        const slot = describeCell(entry.position, axis);
+        const existing = bySlot.get(slot);
+        if (!existing) {
+            bySlot.set(slot, entry);
+            continue;
+        }
+        const [kept, dropped] =
+            Math.hypot(displacement.x, displacement.y) >
+            Math.hypot(existing.displacement.x, existing.displacement.y)
+                ? [entry, existing]
+                : [existing, entry];
+        bySlot.set(slot, kept);
+        unresolved.push({ motor: dropped.motor, reason: `Also moved ${slot}` });
+    }
+
+    const entries = Array.from(bySlot.values()).sort(
+        (a, b) =>
+            a.position.row - b.position.row ||
+            a.position.col - b.position.col ||
+            a.axis.localeCompare(b.axis),
+    );
+    const config = entries.reduce<MirrorConfig>(
+        (acc, entry) => moveMotorToPosition(acc, entry.motor, entry.position, entry.axis),
+        new Map(),
+    );
+    return { config, entries, unresolved };
+};
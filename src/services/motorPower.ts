@@ -0,0 +1,171 @@
+/**
+ * Motor Power Module
+ *
+ * Idle auto-sleep policy and helpers for WAKE/SLEEP commands. Awake drivers hold
+ * current (and drain thermal budget) even when parked, so motors are put to sleep
+ * once playback has been idle for a while and woken again right before the next
+ * planned move.
+ */
+
+import { extractCommandErrorDetail } from '../utils/commandErrors';
+
+import type { Motor } from '../types';
+import type { CommandErrorDetail } from '../types/commandError';
+
+// =============================================================================
+// POLICY
+// =============================================================================
+
+export interface IdleSleepPolicy {
+    /** Put motors to sleep after playback/animation has been idle for `idleSeconds`. */
+    enabled: boolean;
+    idleSeconds: number;
+    /** Send WAKE to sleeping motors before a planned move is dispatched. */
+    preWake: boolean;
+}
+
+export const MIN_IDLE_SLEEP_SECONDS = 5;
+export const MAX_IDLE_SLEEP_SECONDS = 3_600;
+
+export const DEFAULT_IDLE_SLEEP_POLICY: IdleSleepPolicy = {
+    enabled: true,
+    idleSeconds: 120,
+    preWake: true,
+};
+
+const STORAGE_KEY = 'mirror:power:idle-sleep-policy';
+const CURRENT_VERSION = 1;
+
+interface StoredPayload {
+    version: number;
+    policy: IdleSleepPolicy;
+}
+
+export const clampIdleSeconds = (value: number): number => {
+    if (!Number.isFinite(value)) {
+        return DEFAULT_IDLE_SLEEP_POLICY.idleSeconds;
+    }
+    return Math.min(MAX_IDLE_SLEEP_SECONDS, Math.max(MIN_IDLE_SLEEP_SECONDS, Math.round(value)));
+};
+
+/**
+ * Load the idle sleep policy from localStorage. Returns defaults when nothing valid is stored.
+ */
+export const loadIdleSleepPolicy = (storage: Storage | undefined): IdleSleepPolicy => {
+    if (!storage) {
+        return DEFAULT_IDLE_SLEEP_POLICY;
+    }
+    try {
+        const raw = storage.getItem(STORAGE_KEY);
+        if (!raw) {
+            return DEFAULT_IDLE_SLEEP_POLICY;
+        }
+        const payload = JSON.parse(raw) as Partial<StoredPayload> | null;
+        if (!payload || payload.version !== CURRENT_VERSION || !payload.policy) {
+            return DEFAULT_IDLE_SLEEP_POLICY;
+        }
+        const policy = payload.policy;
+        return {
+            enabled:
+                typeof policy.enabled === 'boolean'
+                    ? policy.enabled
+                    : DEFAULT_IDLE_SLEEP_POLICY.enabled,
+            idleSeconds: clampIdleSeconds(Number(policy.idleSeconds)),
+            preWake:
+                typeof policy.preWake === 'boolean'
+                    ? policy.preWake
+                    : DEFAULT_IDLE_SLEEP_POLICY.preWake,
+        };
+    } catch {
+        return DEFAULT_IDLE_SLEEP_POLICY;
+    }
+};
+
+/**
+ * Persist the idle sleep policy to localStorage.
+ */
+export const persistIdleSleepPolicy = (
+    storage: Storage | undefined,
+    policy: IdleSleepPolicy,
+): void => {
+    if (!storage) {
+        return;
+    }
+    const payload: StoredPayload = { version: CURRENT_VERSION, policy };
+    storage.setItem(STORAGE_KEY, JSON.stringify(payload));
+};
+
+// =============================================================================
+// TARGETING
+// =============================================================================
+
+/** Awake state lookup; `undefined` when the motor has not reported telemetry. */
+export type MotorAwakeLookup = (mac: string, motorId: number) => boolean | undefined;
+
+/**
+ * Group motors by node, de-duplicating motor indices (sorted ascending).
+ */
+export const groupMotorsByNode = (motors: Motor[]): Map<string, number[]> => {
+    const grouped = new Map<string, Set<number>>();
+    for (const motor of motors) {
+        const entry = grouped.get(motor.nodeMac) ?? new Set<number>();
+        entry.add(motor.motorIndex);
+        grouped.set(motor.nodeMac, entry);
+    }
+    return new Map(
+        Array.from(grouped.entries()).map(([mac, ids]) => [
+            mac,
+            Array.from(ids).sort((a, b) => a - b),
+        ]),
+    );
+};
+
+/**
+ * Motors that should receive WAKE before a move. Motors already reported awake are
+ * skipped; motors without telemetry are included since their state is unknown.
+ */
+export const selectMotorsToWake = (motors: Motor[], isAwake: MotorAwakeLookup): Motor[] => {
+    const result: Motor[] = [];
+    for (const [mac, motorIds] of groupMotorsByNode(motors)) {
+        for (const motorId of motorIds) {
+            if (isAwake(mac, motorId) !== true) {
+                result.push({ nodeMac: mac, motorIndex: motorId });
+            }
+        }
+    }
+    return result;
+};
+
+// =============================================================================
+// EXECUTION
+// =============================================================================
+
+export interface PowerCommandTarget {
+    mac: string;
+    motorId: number | 'ALL';
+}
+
+export type PowerCommandFn = (target: PowerCommandTarget) => Promise<unknown>;
+
+/**
+ * Send WAKE or SLEEP to every target in parallel and collect failures for toasts.
+ */
+export const executePowerCommands = async (
+    targets: PowerCommandTarget[],
+    send: PowerCommandFn,
+): Promise<CommandErrorDetail[]> => {
+    const settled = await Promise.allSettled(targets.map((target) => send(target)));
+    const failures: CommandErrorDetail[] = [];
+    settled.forEach((result, index) => {
+        if (result.status === 'rejected') {
+            const target = targets[index];
+            failures.push(
+                extractCommandErrorDetail(result.reason, {
+                    controller: target.mac,
+                    motorId: target.motorId === 'ALL' ? undefined : target.motorId,
+                }),
+            );
+        }
+    });
+    return failures;
+};
@@ -1,6 +1,8 @@
 import mqtt, { type IClientOptions, type MqttClient as MqttJsClient } from 'mqtt';
 
-import { MockMqttTransport } from './mockTransport';
+import { MockMqttTransport, type MockTransportMessage } from './mockTransport';
+import { ReplayMqttTransport } from './replayTransport';
+import { SessionRecorder, type SessionRecording } from './sessionRecording';
 
 export type ConnectionPhase = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
 
@@ -15,6 +17,8 @@ export interface ConnectRequest {
     url: string;
     username?: string;
     password?: string;
+    /** Session to play back for `replay://` URLs. */
+    replay?: { recording: SessionRecording; speed: number };
 }
 
 export type MessageHandler = (topic: string, payload: Uint8Array, packet: unknown) => void;
@@ -83,6 +87,14 @@ const matchesFilter = (filter: string, topic: string): boolean => {
 
 type StateListener = (state: ConnectionState) => void;
 
+/** In-memory stand-in for a broker (`mock://` simulator or `replay://` session). */
+interface LocalTransport {
+    connect(handler: (message: MockTransportMessage) => void): void;
+    disconnect(): void;
+    publish(topic: string, payload: string): Promise<void>;
+    getRetainedMessages(): MockTransportMessage[];
+}
+
 export class MirrorMqttClient {
     private readonly createClient: ClientFactory;
 
@@ -102,10 +114,15 @@ export class MirrorMqttClient {
 
     private disposed = false;
 
-    private mockMode = false;
-
     private mockTransport: MockMqttTransport | null = null;
 
+    private replayTransport: ReplayMqttTransport | null = null;
+
+    /** Transport serving the current `mock://` or `replay://` connection, if any. */
+    private localTransport: LocalTransport | null = null;
+
+    private recorder: SessionRecorder | null = null;
+
     constructor(factory: ClientFactory = defaultFactory) {
         this.createClient = factory;
     }
@@ -114,6 +131,34 @@ export class MirrorMqttClient {
         return this.currentState;
     }
 
+    /** The in-memory transport while connected in mock mode, for fault injection. */
+    public getMockTransport(): MockMqttTransport | null {
+        return this.localTransport !== null && this.localTransport === this.mockTransport
+            ? this.mockTransport
+            : null;
+    }
+
+    public getReplayTransport(): ReplayMqttTransport | null {
+        return this.localTransport !== null && this.localTransport === this.replayTransport
+            ? this.replayTransport
+            : null;
+    }
+
+    public isRecording(): boolean {
+        return this.recorder !== null;
+    }
+
+    /** Start capturing inbound and outbound messages; restarts any recording in progress. */
+    public startRecording(): void {
+        this.recorder = new SessionRecorder(this.lastConnectRequest?.url ?? '');
+    }
+
+    public stopRecording(): SessionRecording | null {
+        const recording = this.recorder?.finish() ?? null;
+        this.recorder = null;
+        return recording;
+    }
+
     public onStateChange(listener: StateListener): () => void {
         this.listeners.add(listener);
         listener(this.currentState);
@@ -125,20 +170,34 @@ export class MirrorMqttClient {
         this.lastConnectRequest = request;
         this.reconnectAttempts = 0;
 
-        const nextMockMode = request.url.startsWith('mock://');
-        const hasExistingConnection =
-            this.client !== null || (this.mockTransport !== null && this.mockMode);
+        const hasExistingConnection = this.client !== null || this.localTransport !== null;
         if (hasExistingConnection) {
             this.disconnect();
         }
 
         this.disposed = false;
-        this.mockMode = nextMockMode;
-        if (this.mockMode) {
+        this.localTransport = null;
+        if (request.url.startsWith('replay://')) {
+            if (!request.replay) {
+                this.updateState({
+                    status: 'disconnected',
+                    attempt: 0,
+                    lastError: 'No session recording loaded',
+                });
+                return;
+            }
+            this.replayTransport = new ReplayMqttTransport(request.replay.recording, {
+                speed: request.replay.speed,
+            });
+            this.localTransport = this.replayTransport;
+        } else if (request.url.startsWith('mock://')) {
             if (!this.mockTransport) {
                 this.mockTransport = new MockMqttTransport();
             }
-            this.mockTransport.connect((message) => {
+            this.localTransport = this.mockTransport;
+        }
+        if (this.localTransport) {
+            this.localTransport.connect((message) => {
                 this.handleMessage(message.topic, message.payload, null);
             });
             this.updateState({ status: 'connected', attempt: 0 });
@@ -154,8 +213,8 @@ export class MirrorMqttClient {
         }
         this.clearReconnectTimer();
         this.reconnectAttempts = 0;
-        if (this.mockMode) {
-            this.mockTransport?.disconnect();
+        if (this.localTransport) {
+            this.localTransport.disconnect();
             this.updateState({ status: 'connected', attempt: 0 });
             return;
         }
@@ -171,9 +230,7 @@ export class MirrorMqttClient {
             this.client.end(true);
             this.client = null;
         }
-        if (this.mockMode) {
-            this.mockTransport?.disconnect();
-        }
+        this.localTransport?.disconnect();
         this.updateState({ status: 'disconnected', attempt: 0 });
     }
 
@@ -193,6 +250,15 @@ export class MirrorMqttClient {
             });
         }
 
+        // A real broker replays retained messages (e.g. config) to new subscribers
+        if (this.localTransport && this.currentState.status === 'connected') {
+            for (const message of this.localTransport.getRetainedMessages()) {
+                if (matchesFilter(topic, message.topic)) {
+                    handler(message.topic, message.payload, null);
+                }
+            }
+        }
+
         return () => {
             const existing = this.messageListeners.get(topic);
             if (!existing) {
@@ -213,18 +279,18 @@ export class MirrorMqttClient {
     }
 
     public publish(topic: string, payload: string, options: PublishOptions = {}): Promise<void> {
-        if (this.mockMode) {
-            return (
-                this.mockTransport?.publish(
-                    topic,
-                    typeof payload === 'string' ? payload : String(payload),
-                ) ?? Promise.resolve()
+        if (this.localTransport) {
+            this.recorder?.record('out', topic, payload);
+            return this.localTransport.publish(
+                topic,
+                typeof payload === 'string' ? payload : String(payload),
             );
         }
 
         if (!this.client || this.currentState.status !== 'connected') {
             return Promise.reject(new Error('MQTT client is not connected'));
         }
+        this.recorder?.record('out', topic, payload);
 
         return new Promise((resolve, reject) => {
             this.client?.publish(topic, payload, options, (error) => {
@@ -307,6 +373,7 @@ export class MirrorMqttClient {
     };
 
     private handleMessage = (topic: string, payload: Uint8Array, packet: unknown): void => {
+        this.recorder?.record('in', topic, payload);
         for (const [filter, subscription] of this.messageListeners.entries()) {
             if (matchesFilter(filter, topic)) {
                 subscription.handlers.forEach((handler) => {
@@ -343,7 +410,7 @@ export class MirrorMqttClient {
     }
 
     private scheduleReconnect(status: ConnectionPhase, errorMessage?: string): void {
-        if (this.disposed || !this.lastConnectRequest || this.mockMode) {
+        if (this.disposed || !this.lastConnectRequest || this.localTransport) {
             this.updateState({ status: 'disconnected', attempt: 0, lastError: errorMessage });
             return;
         }
@@ -0,0 +1,299 @@
+/**
+ * Network Onboarding Module
+ *
+ * Helpers for the firmware's `NET:*` and `MQTT:*` commands used to move a node to
+ * new Wi-Fi credentials or a different broker. Firmware echoes stored strings in
+ * quotes (`"\"HomeNetwork\""`), so every parser unwraps them. Pure functions only -
+ * publishing is handled by `useMotorCommands`.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Wi-Fi state reported by `NET:STATUS` / `NET:RESET`. Unknown states pass through. */
+export type NetState = 'CONNECTED' | 'CONNECTING' | 'AP_ACTIVE' | (string & {});
+
+export interface NetStatusReport {
+    state: NetState | null;
+    ssid: string | null;
+    ip: string | null;
+    rssi: number | null;
+}
+
+export interface MqttBrokerConfig {
+    host: string;
+    port: number | null;
+    user: string;
+    pass: string;
+}
+
+export interface WifiNetwork {
+    ssid: string;
+    rssi: number | null;
+    /** Null when the firmware does not report the encryption type. */
+    secure: boolean | null;
+}
+
+export interface WifiCredentials {
+    ssid: string;
+    pass: string;
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/** Strip the surrounding quotes firmware adds to stored strings. */
+export const unquoteFirmwareString = (value: unknown): string | null => {
+    if (typeof value !== 'string') {
+        return null;
+    }
+    const trimmed = value.trim();
+    if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+        return trimmed.slice(1, -1);
+    }
+    return trimmed;
+};
+
+const toOptionalNumber = (value: unknown): number | null => {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return value;
+    }
+    const text = unquoteFirmwareString(value);
+    if (text && text.length > 0) {
+        const parsed = Number(text);
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+    return null;
+};
+
+const toOptionalString = (value: unknown): string | null => {
+    const text = unquoteFirmwareString(value);
+    return text && text.length > 0 ? text : null;
+};
+
+/** Normalize the `result` of a `NET:STATUS` (or `NET:RESET`) response. */
+export const parseNetStatusResult = (
+    result: Record<string, unknown> | undefined,
+): NetStatusReport => {
+    const source = result ?? {};
+    return {
+        state: toOptionalString(source['state'])?.toUpperCase() ?? null,
+        ssid: toOptionalString(source['ssid']),
+        ip: toOptionalString(source['ip']),
+        rssi: toOptionalNumber(source['rssi']),
+    };
+};
+
+/** Normalize the `result` of `MQTT:GET_CONFIG` / `MQTT:SET_CONFIG`. */
+export const parseMqttConfigResult = (
+    result: Record<string, unknown> | undefined,
+): MqttBrokerConfig => {
+    const source = result ?? {};
+    return {
+        host: unquoteFirmwareString(source['host']) ?? '',
+        port: toOptionalNumber(source['port']),
+        user: unquoteFirmwareString(source['user']) ?? '',
+        pass: unquoteFirmwareString(source['pass']) ?? '',
+    };
+};
+
+const parseNetworkEntry = (entry: unknown): WifiNetwork | null => {
+    if (typeof entry === 'string') {
+        const ssid = unquoteFirmwareString(entry);
+        return ssid ? { ssid, rssi: null, secure: null } : null;
+    }
+    if (!entry || typeof entry !== 'object') {
+        return null;
+    }
+    const record = entry as Record<string, unknown>;
+    const ssid = toOptionalString(record['ssid']);
+    if (!ssid) {
+        return null;
+    }
+    const secureRaw = record['secure'] ?? record['enc'] ?? record['auth'];
+    let secure: boolean | null = null;
+    if (typeof secureRaw === 'boolean') {
+        secure = secureRaw;
+    } else if (typeof secureRaw === 'string') {
+        secure = !['OPEN', 'NONE', ''].includes(secureRaw.trim().toUpperCase());
+    }
+    return { ssid, rssi: toOptionalNumber(record['rssi']), secure };
+};
+
+/**
+ * Normalize a `NET:LIST` completion. The schema does not pin down the result shape,
+ * so both `networks` and `aps` arrays (of objects or plain SSIDs) are accepted.
+ * Duplicate SSIDs keep the strongest signal; the list is sorted strongest first.
+ */
+export const parseNetworkList = (result: Record<string, unknown> | undefined): WifiNetwork[] => {
+    const source = result ?? {};
+    const raw = Array.isArray(source['networks'])
+        ? source['networks']
+        : Array.isArray(source['aps'])
+          ? source['aps']
+          : [];
+    const bySsid = new Map<string, WifiNetwork>();
+    for (const entry of raw) {
+        const network = parseNetworkEntry(entry);
+        if (!network) {
+            continue;
+        }
+        const existing = bySsid.get(network.ssid);
+        if (!existing || (network.rssi ?? -Infinity) > (existing.rssi ?? -Infinity)) {
+            bySsid.set(network.ssid, network);
+        }
+    }
+    return Array.from(bySsid.values()).sort(
+        (a, b) => (b.rssi ?? -Infinity) - (a.rssi ?? -Infinity),
+    );
+};
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Validate Wi-Fi credentials before `NET:SET`. Firmware stores them as quoted
+ * strings, so embedded double quotes are refused up front.
+ */
+export const validateWifiCredentials = ({ ssid, pass }: WifiCredentials): string[] => {
+    const errors: string[] = [];
+    if (ssid.length === 0) {
+        errors.push('SSID is required');
+    } else if (ssid.length > 32) {
+        errors.push('SSID must be at most 32 characters');
+    }
+    if (pass.length > 0 && (pass.length < 8 || pass.length > 63)) {
+        errors.push('Password must be 8-63 characters (or empty for an open network)');
+    }
+    if (ssid.includes('"') || pass.includes('"')) {
+        errors.push('SSID and password cannot contain double quotes');
+    }
+    return errors;
+};
+
+/** Validate broker settings before `MQTT:SET_CONFIG`. */
+export const validateBrokerConfig = (config: MqttBrokerConfig): string[] => {
+    const errors: string[] = [];
+    if (config.host.trim().length === 0) {
+        errors.push('Broker host is required');
+    } else if (/\s/.test(config.host.trim())) {
+        errors.push('Broker host cannot contain spaces');
+    }
+    if (
+        config.port === null ||
+        !Number.isInteger(config.port) ||
+        config.port < 1 ||
+        config.port > 65_535
+    ) {
+        errors.push('Broker port must be an integer between 1 and 65535');
+    }
+    if ([config.host, config.user, config.pass].some((value) => value.includes('"'))) {
+        errors.push('Broker settings cannot contain double quotes');
+    }
+    return errors;
+};
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+const NET_ERROR_DESCRIPTIONS: Record<string, string> = {
+    NET_BAD_PARAM: 'The node rejected the Wi-Fi details. Check the SSID and password length.',
+    NET_SAVE_FAILED:
+        'The node could not save the new Wi-Fi credentials to flash. Try again, or power-cycle the node.',
+    NET_SCAN_AP_ONLY:
+        'Scanning only works while the node runs its own setup access point. Type the network name instead, or reset the node to setup mode first.',
+    NET_BUSY_CONNECTING:
+        'The node is still busy joining a network. Wait a few seconds and try again.',
+    NET_CONNECT_FAILED:
+        'The node could not join that network. The password may be wrong or the access point out of range.',
+    MQTT_BAD_PAYLOAD: 'The node could not read the command. This is a UI bug - please report it.',
+    MQTT_UNSUPPORTED_ACTION:
+        "This node's firmware does not support the command over MQTT. Update the firmware or use the serial console.",
+    MQTT_BAD_PARAM: 'The node rejected the broker settings. Check the host and port.',
+    MQTT_CONFIG_SAVE_FAILED:
+        'The node could not save the broker settings to flash. Try again, or power-cycle the node.',
+};
+
+/**
+ * Plain-language explanation for `NET_*` / `MQTT_*` error codes. Returns null for
+ * codes without a specific explanation so callers can fall back to the firmware message.
+ */
+export const describeNetError = (code: string | undefined): string | null =>
+    code ? (NET_ERROR_DESCRIPTIONS[code.toUpperCase()] ?? null) : null;
+
+// =============================================================================
+// RECONNECT WATCH
+// =============================================================================
+
+/** A status gap longer than this counts as the node having left the broker. */
+export const RECONNECT_GAP_MS = 3_000;
+export const RECONNECT_TIMEOUT_MS = 90_000;
+
+export type ReconnectPhase = 'waiting' | 'dropped' | 'returned' | 'timed-out';
+
+export interface ReconnectWatchState {
+    startedAt: number;
+    /** Last status timestamp seen while watching. */
+    lastSeenAt: number | null;
+    sawDrop: boolean;
+    phase: ReconnectPhase;
+}
+
+export interface ReconnectDriverSample {
+    lastSeenAt: number;
+    /** Same values as `DriverView.presence`. */
+    presence: 'ready' | 'stale' | 'offline';
+}
+
+export const startReconnectWatch = (
+    startedAt: number,
+    driver: ReconnectDriverSample | null,
+): ReconnectWatchState => ({
+    startedAt,
+    lastSeenAt: driver?.lastSeenAt ?? null,
+    sawDrop: false,
+    phase: 'waiting',
+});
+
+/**
+ * Advance the reconnect watch with the latest status for the node. The node has
+ * "returned" once a fresh status arrives after it was seen to leave - either by
+ * going stale/offline (Last Will) or by a gap between status messages.
+ */
+export const updateReconnectWatch = (
+    state: ReconnectWatchState,
+    driver: ReconnectDriverSample | null,
+    now: number,
+    timeoutMs: number = RECONNECT_TIMEOUT_MS,
+): ReconnectWatchState => {
+    if (state.phase === 'returned' || state.phase === 'timed-out') {
+        return state;
+    }
+
+    let sawDrop = state.sawDrop;
+    let lastSeenAt = state.lastSeenAt;
+    let fresh = false;
+
+    if (!driver || driver.presence !== 'ready') {
+        sawDrop = true;
+    }
+    if (driver && (lastSeenAt === null || driver.lastSeenAt > lastSeenAt)) {
+        if (lastSeenAt !== null && driver.lastSeenAt - lastSeenAt > RECONNECT_GAP_MS) {
+            sawDrop = true;
+        }
+        lastSeenAt = driver.lastSeenAt;
+        fresh = true;
+    }
+
+    if (sawDrop && fresh && driver?.presence === 'ready' && driver.lastSeenAt > state.startedAt) {
+        return { ...state, sawDrop, lastSeenAt, phase: 'returned' };
+    }
+    if (now - state.startedAt > timeoutMs) {
+        return { ...state, sawDrop, lastSeenAt, phase: 'timed-out' };
+    }
+    return { ...state, sawDrop, lastSeenAt, phase: sawDrop ? 'dropped' : 'waiting' };
+};
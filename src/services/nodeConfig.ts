@@ -0,0 +1,179 @@
+/**
+ * Node Configuration Module
+ *
+ * Helpers for the firmware's global configuration values (GET/SET commands and the
+ * retained `devices/<node_id>/config` topic). Pure functions only - publishing is
+ * handled by `useMotorCommands`.
+ */
+
+import type { NormalizedConfigMessage, NormalizedMotorStatus } from './statusParser';
+
+export type NodeConfigField = 'SPEED' | 'ACCEL' | 'DECEL' | 'THERMAL_LIMITING' | 'MICROSTEP';
+
+export const NODE_CONFIG_FIELDS: NodeConfigField[] = [
+    'SPEED',
+    'ACCEL',
+    'DECEL',
+    'THERMAL_LIMITING',
+    'MICROSTEP',
+];
+
+export const MICROSTEP_MODES = ['FULL', 'HALF', '1/4', '1/8', '1/16', '1/32'] as const;
+
+export type MicrostepMode = (typeof MICROSTEP_MODES)[number];
+
+export type ThermalLimitingMode = 'ON' | 'OFF';
+
+export interface NodeConfigValues {
+    SPEED: number;
+    ACCEL: number;
+    DECEL: number;
+    THERMAL_LIMITING: ThermalLimitingMode;
+    MICROSTEP: MicrostepMode;
+}
+
+/**
+ * Result of `GET ALL`. Config values plus device metadata that is not part of the
+ * retained config topic.
+ */
+export interface NodeConfigReport {
+    values: Partial<NodeConfigValues>;
+    maxBudgetSeconds: number | null;
+    freeHeapBytes: number | null;
+    firmwareVersion: string | null;
+    firmwareDate: string | null;
+}
+
+export const NODE_CONFIG_FIELD_LABELS: Record<NodeConfigField, string> = {
+    SPEED: 'Speed (steps/s)',
+    ACCEL: 'Acceleration (steps/s²)',
+    DECEL: 'Deceleration (steps/s²)',
+    THERMAL_LIMITING: 'Thermal limiting',
+    MICROSTEP: 'Microstepping',
+};
+
+export const isMicrostepMode = (value: unknown): value is MicrostepMode =>
+    typeof value === 'string' && (MICROSTEP_MODES as readonly string[]).includes(value);
+
+export const isThermalMode = (value: unknown): value is ThermalLimitingMode =>
+    value === 'ON' || value === 'OFF';
+
+const toOptionalNumber = (value: unknown): number | null => {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return value;
+    }
+    if (typeof value === 'string' && value.trim().length > 0) {
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+    return null;
+};
+
+const toOptionalString = (value: unknown): string | null =>
+    typeof value === 'string' && value.trim().length > 0 ? value.trim() : null;
+
+/**
+ * Validate a single SET value against the firmware's accepted ranges.
+ * Returns an error message, or null when the value is acceptable.
+ */
+export const validateNodeConfigValue = (field: NodeConfigField, value: unknown): string | null => {
+    switch (field) {
+        case 'SPEED':
+        case 'ACCEL':
+            return typeof value === 'number' && Number.isInteger(value) && value > 0
+                ? null
+                : `${field} must be a positive integer`;
+        case 'DECEL':
+            return typeof value === 'number' && Number.isInteger(value) && value >= 0
+                ? null
+                : 'DECEL must be a non-negative integer';
+        case 'THERMAL_LIMITING':
+            return isThermalMode(value) ? null : 'THERMAL_LIMITING must be "ON" or "OFF"';
+        case 'MICROSTEP':
+            return isMicrostepMode(value)
+                ? null
+                : `MICROSTEP must be one of ${MICROSTEP_MODES.join(', ')}`;
+        default:
+            return `Unknown config field ${String(field)}`;
+    }
+};
+
+/**
+ * Firmware rejects SET MICROSTEP with E04 BUSY unless every motor is stopped and
+ * asleep. Returns a human-readable reason when the change must be refused.
+ */
+export const getMicrostepChangeBlocker = (motors: NormalizedMotorStatus[]): string | null => {
+    if (motors.length === 0) {
+        return 'No motor telemetry received from this node yet';
+    }
+    const moving = motors.filter((motor) => motor.moving).map((motor) => motor.id);
+    if (moving.length > 0) {
+        return `Motors still moving: ${moving.join(', ')}`;
+    }
+    const awake = motors.filter((motor) => motor.awake).map((motor) => motor.id);
+    if (awake.length > 0) {
+        return `Motors must be asleep before changing microstepping (awake: ${awake.join(', ')})`;
+    }
+    return null;
+};
+
+/** Map the retained config topic payload onto SET field names. */
+export const configMessageToValues = (
+    message: NormalizedConfigMessage,
+): Partial<NodeConfigValues> => {
+    const values: Partial<NodeConfigValues> = {
+        SPEED: message.speed,
+        ACCEL: message.accel,
+        DECEL: message.decel,
+    };
+    if (isThermalMode(message.thermalLimiting)) {
+        values.THERMAL_LIMITING = message.thermalLimiting;
+    }
+    if (isMicrostepMode(message.microstep)) {
+        values.MICROSTEP = message.microstep;
+    }
+    return values;
+};
+
+/** Normalize the `result` object of a `GET ALL` completion. */
+export const parseNodeConfigReport = (
+    result: Record<string, unknown> | undefined,
+): NodeConfigReport => {
+    const source = result ?? {};
+    const values: Partial<NodeConfigValues> = {};
+
+    for (const field of ['SPEED', 'ACCEL', 'DECEL'] as const) {
+        const numeric = toOptionalNumber(source[field]);
+        if (numeric !== null) {
+            values[field] = numeric;
+        }
+    }
+    const thermal = toOptionalString(source['THERMAL_LIMITING'])?.toUpperCase();
+    if (isThermalMode(thermal)) {
+        values.THERMAL_LIMITING = thermal;
+    }
+    const microstep = toOptionalString(source['MICROSTEP'])?.toUpperCase();
+    if (isMicrostepMode(microstep)) {
+        values.MICROSTEP = microstep;
+    }
+
+    return {
+        values,
+        maxBudgetSeconds: toOptionalNumber(source['max_budget_s']),
+        freeHeapBytes: toOptionalNumber(source['free_heap_bytes']),
+        firmwareVersion: toOptionalString(source['firmware_version']),
+        firmwareDate: toOptionalString(source['firmware_date']),
+    };
+};
+
+/**
+ * List the fields whose draft value differs from the current value, in the order
+ * SET commands should be sent (MICROSTEP last so speed changes land first).
+ */
+export const diffNodeConfigValues = (
+    current: Partial<NodeConfigValues>,
+    draft: Partial<NodeConfigValues>,
+): NodeConfigField[] =>
+    NODE_CONFIG_FIELDS.filter(
+        (field) => draft[field] !== undefined && draft[field] !== current[field],
+    );
@@ -0,0 +1,688 @@
+/**
+ * Pattern Import Module
+ *
+ * Turns vector outlines (SVG) and raster silhouettes (PNG/JPEG) into pattern
+ * points. Sources are flattened to polylines or a binary mask in their own
+ * coordinates, sampled down to the point budget, then fitted into the part of
+ * pattern space the calibrated tiles can reach.
+ */
+
+import type { CalibrationProfile, PatternPoint } from '@/types';
+
+import { validatePatternInProfile } from './boundsValidation';
+import { centeredBoundsToPattern, getSpaceParams } from './spaceConversion';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ImportPoint {
+    x: number;
+    y: number;
+}
+
+export interface ImportPolyline {
+    points: ImportPoint[];
+    closed: boolean;
+}
+
+/** Binary image: `data[y * width + x]` is 1 inside the shape. */
+export interface ImportMask {
+    width: number;
+    height: number;
+    data: Uint8Array;
+}
+
+export interface ImportBounds {
+    xMin: number;
+    xMax: number;
+    yMin: number;
+    yMax: number;
+}
+
+export interface ImportedPatternPoints {
+    points: PatternPoint[];
+    /** Samples that no tile could reach even after shrinking the fit */
+    droppedCount: number;
+}
+
+/** Line segments used to flatten each Bézier or arc command. */
+const CURVE_SEGMENTS = 16;
+
+/** Share of the target bounds left empty around the fitted shape. */
+const FIT_MARGIN = 0.05;
+
+/** Shrink steps tried when fitted samples fall outside every tile. */
+const FIT_SHRINK_FACTOR = 0.9;
+const FIT_SHRINK_ATTEMPTS = 8;
+
+const PATTERN_SPACE: ImportBounds = { xMin: -1, xMax: 1, yMin: -1, yMax: 1 };
+
+// =============================================================================
+// SVG PATH DATA
+// =============================================================================
+
+const PATH_TOKEN = /[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g;
+
+const isCommand = (token: string): boolean => /^[A-Za-z]$/.test(token);
+
+const cubicAt = (p0: number, p1: number, p2: number, p3: number, t: number): number => {
+    const u = 1 - t;
+    return u * u * u * p0 + 3 * u * u * t * p1 + 3 * u * t * t * p2 + t * t * t * p3;
+};
+
+const quadraticAt = (p0: number, p1: number, p2: number, t: number): number => {
+    const u = 1 - t;
+    return u * u * p0 + 2 * u * t * p1 + t * t * p2;
+};
+
+/**
+ * Points along an SVG elliptical arc, excluding the start point
+ * (endpoint-to-center conversion from the SVG spec, F.6.5).
+ */
+const flattenArc = (
+    from: ImportPoint,
+    to: ImportPoint,
+    radii: { rx: number; ry: number },
+    rotationDeg: number,
+    largeArc: boolean,
+    sweep: boolean,
+): ImportPoint[] => {
+    let rx = Math.abs(radii.rx);
+    let ry = Math.abs(radii.ry);
+    if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) {
+        return [to];
+    }
+    const phi = (rotationDeg * Math.PI) / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    const dx = (from.x - to.x) / 2;
+    const dy = (from.y - to.y) / 2;
+    const x1 = cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) {
+        rx *= Math.sqrt(lambda);
+        ry *= Math.sqrt(lambda);
+    }
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+    const cx1 = (factor * rx * y1) / ry;
+    const cy1 = (-factor * ry * x1) / rx;
+    const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+    const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) =>
+        Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const theta = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+    let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+    if (!sweep && delta > 0) delta -= 2 * Math.PI;
+    if (sweep && delta < 0) delta += 2 * Math.PI;
+
+    const points: ImportPoint[] = [];
+    for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+        const t = theta + (delta * i) / CURVE_SEGMENTS;
+        const ex = rx * Math.cos(t);
+        const ey = ry * Math.sin(t);
+        points.push({ x: cos * ex - sin * ey + cx, y: sin * ex + cos * ey + cy });
+    }
+    points[points.length - 1] = to;
+    return points;
+};
+
+/**
+ * Flatten SVG path data (`d`) into polylines, one per subpath. Curves and arcs
+ * are approximated with straight segments.
+ */
+export const parseSvgPathData = (d: string): ImportPolyline[] => {
+    const tokens = d.match(PATH_TOKEN) ?? [];
+    const polylines: ImportPolyline[] = [];
+    // Subpath being drawn; null until the first segment after a moveto
+    const open: { polyline: ImportPolyline | null } = { polyline: null };
+    let cursor: ImportPoint = { x: 0, y: 0 };
+    let subpathStart: ImportPoint = { x: 0, y: 0 };
+    // Reflected control points for S and T
+    let lastCubic: ImportPoint | null = null;
+    let lastQuadratic: ImportPoint | null = null;
+    let command = '';
+    let index = 0;
+
+    const hasNumbers = (count: number) =>
+        index + count <= tokens.length &&
+        tokens.slice(index, index + count).every((token) => !isCommand(token));
+    const take = () => Number(tokens[index++]);
+    const lineTo = (point: ImportPoint) => {
+        if (!open.polyline) {
+            open.polyline = { points: [cursor], closed: false };
+            polylines.push(open.polyline);
+        }
+        open.polyline.points.push(point);
+        cursor = point;
+    };
+
+    while (index < tokens.length) {
+        if (isCommand(tokens[index])) {
+            command = tokens[index++];
+        } else if (!command) {
+            index++;
+            continue;
+        }
+        const relative = command === command.toLowerCase();
+        const origin = relative ? cursor : { x: 0, y: 0 };
+        const upper = command.toUpperCase();
+
+        if (upper === 'Z') {
+            if (open.polyline) {
+                open.polyline.closed = true;
+            }
+            open.polyline = null;
+            cursor = subpathStart;
+            lastCubic = null;
+            lastQuadratic = null;
+            continue;
+        }
+
+        if (upper === 'M') {
+            if (!hasNumbers(2)) break;
+            cursor = { x: origin.x + take(), y: origin.y + take() };
+            subpathStart = cursor;
+            open.polyline = null;
+            // Further pairs after a moveto are implicit linetos
+            command = relative ? 'l' : 'L';
+        } else if (upper === 'L') {
+            if (!hasNumbers(2)) break;
+            lineTo({ x: origin.x + take(), y: origin.y + take() });
+        } else if (upper === 'H') {
+            if (!hasNumbers(1)) break;
+            lineTo({ x: origin.x + take(), y: cursor.y });
+        } else if (upper === 'V') {
+            if (!hasNumbers(1)) break;
+            lineTo({ x: cursor.x, y: origin.y + take() });
+        } else if (upper === 'C' || upper === 'S') {
+            const start = cursor;
+            let control1: ImportPoint;
+            if (upper === 'C') {
+                if (!hasNumbers(6)) break;
+                control1 = { x: origin.x + take(), y: origin.y + take() };
+            } else {
+                if (!hasNumbers(4)) break;
+                control1 = lastCubic
+                    ? { x: 2 * start.x - lastCubic.x, y: 2 * start.y - lastCubic.y }
+                    : start;
+            }
+            const control2 = { x: origin.x + take(), y: origin.y + take() };
+            const end = { x: origin.x + take(), y: origin.y + take() };
+            for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+                const t = i / CURVE_SEGMENTS;
+                lineTo({
+                    x: cubicAt(start.x, control1.x, control2.x, end.x, t),
+                    y: cubicAt(start.y, control1.y, control2.y, end.y, t),
+                });
+            }
+            lastCubic = control2;
+            lastQuadratic = null;
+            continue;
+        } else if (upper === 'Q' || upper === 'T') {
+            const start = cursor;
+            let control: ImportPoint;
+            if (upper === 'Q') {
+                if (!hasNumbers(4)) break;
+                control = { x: origin.x + take(), y: origin.y + take() };
+            } else {
+                if (!hasNumbers(2)) break;
+                control = lastQuadratic
+                    ? { x: 2 * start.x - lastQuadratic.x, y: 2 * start.y - lastQuadratic.y }
+                    : start;
+            }
+            const end = { x: origin.x + take(), y: origin.y + take() };
+            for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+                const t = i / CURVE_SEGMENTS;
+                lineTo({
+                    x: quadraticAt(start.x, control.x, end.x, t),
+                    y: quadraticAt(start.y, control.y, end.y, t),
+                });
+            }
+            lastQuadratic = control;
+            lastCubic = null;
+            continue;
+        } else if (upper === 'A') {
+            if (!hasNumbers(7)) break;
+            const rx = take();
+            const ry = take();
+            const rotation = take();
+            const largeArc = take() !== 0;
+            const sweep = take() !== 0;
+            const end = { x: origin.x + take(), y: origin.y + take() };
+            for (const point of flattenArc(cursor, end, { rx, ry }, rotation, largeArc, sweep)) {
+                lineTo(point);
+            }
+        } else {
+            // Unknown command: skip its arguments
+            while (index < tokens.length && !isCommand(tokens[index])) index++;
+        }
+        lastCubic = null;
+        lastQuadratic = null;
+    }
+
+    return polylines.filter((polyline) => polyline.points.length > 1);
+};
+
+// =============================================================================
+// SVG DOCUMENTS
+// =============================================================================
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+const applyMatrix = (m: Matrix, point: ImportPoint): ImportPoint => ({
+    x: m[0] * point.x + m[2] * point.y + m[4],
+    y: m[1] * point.x + m[3] * point.y + m[5],
+});
+
+/**
+ * Parse an SVG `transform` attribute into one affine matrix.
+ */
+export const parseSvgTransform = (value: string | null): Matrix => {
+    if (!value) return IDENTITY;
+    let matrix = IDENTITY;
+    for (const match of value.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+        const args = (match[2].match(PATH_TOKEN) ?? []).map(Number);
+        const [a = 0, b = 0, c = 0, d = 0, e = 0, f = 0] = args;
+        let next: Matrix = IDENTITY;
+        switch (match[1]) {
+            case 'matrix':
+                next = [a, b, c, d, e, f];
+                break;
+            case 'translate':
+                next = [1, 0, 0, 1, a, args.length > 1 ? b : 0];
+                break;
+            case 'scale':
+                next = [a, 0, 0, args.length > 1 ? b : a, 0, 0];
+                break;
+            case 'rotate': {
+                const rad = (a * Math.PI) / 180;
+                const cos = Math.cos(rad);
+                const sin = Math.sin(rad);
+                const rotation: Matrix = [cos, sin, -sin, cos, 0, 0];
+                next =
+                    args.length > 2
+                        ? multiply(multiply([1, 0, 0, 1, b, c], rotation), [1, 0, 0, 1, -b, -c])
+                        : rotation;
+                break;
+            }
+            case 'skewX':
+                next = [1, 0, Math.tan((a * Math.PI) / 180), 1, 0, 0];
+                break;
+            case 'skewY':
+                next = [1, Math.tan((a * Math.PI) / 180), 0, 1, 0, 0];
+                break;
+            default:
+                break;
+        }
+        matrix = multiply(matrix, next);
+    }
+    return matrix;
+};
+
+const numberAttr = (element: Element, name: string): number => {
+    const value = Number.parseFloat(element.getAttribute(name) ?? '');
+    return Number.isFinite(value) ? value : 0;
+};
+
+const parsePointList = (value: string | null): ImportPoint[] => {
+    const numbers = (value?.match(PATH_TOKEN) ?? []).map(Number);
+    const points: ImportPoint[] = [];
+    for (let i = 0; i + 1 < numbers.length; i += 2) {
+        points.push({ x: numbers[i], y: numbers[i + 1] });
+    }
+    return points;
+};
+
+const ellipsePolyline = (cx: number, cy: number, rx: number, ry: number): ImportPolyline => ({
+    points: Array.from({ length: CURVE_SEGMENTS * 2 }, (_, i) => {
+        const angle = (i / (CURVE_SEGMENTS * 2)) * Math.PI * 2;
+        return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+    }),
+    closed: true,
+});
+
+/**
+ * Polylines of a single shape element in its own coordinates.
+ */
+const elementToPolylines = (element: Element): ImportPolyline[] => {
+    switch (element.tagName.toLowerCase()) {
+        case 'path':
+            return parseSvgPathData(element.getAttribute('d') ?? '');
+        case 'polygon':
+        case 'polyline': {
+            const points = parsePointList(element.getAttribute('points'));
+            return points.length > 1
+                ? [{ points, closed: element.tagName.toLowerCase() === 'polygon' }]
+                : [];
+        }
+        case 'line':
+            return [
+                {
+                    points: [
+                        { x: numberAttr(element, 'x1'), y: numberAttr(element, 'y1') },
+                        { x: numberAttr(element, 'x2'), y: numberAttr(element, 'y2') },
+                    ],
+                    closed: false,
+                },
+            ];
+        case 'rect': {
+            const x = numberAttr(element, 'x');
+            const y = numberAttr(element, 'y');
+            const width = numberAttr(element, 'width');
+            const height = numberAttr(element, 'height');
+            if (width <= 0 || height <= 0) return [];
+            return [
+                {
+                    points: [
+                        { x, y },
+                        { x: x + width, y },
+                        { x: x + width, y: y + height },
+                        { x, y: y + height },
+                    ],
+                    closed: true,
+                },
+            ];
+        }
+        case 'circle': {
+            const r = numberAttr(element, 'r');
+            return r > 0
+                ? [ellipsePolyline(numberAttr(element, 'cx'), numberAttr(element, 'cy'), r, r)]
+                : [];
+        }
+        case 'ellipse': {
+            const rx = numberAttr(element, 'rx');
+            const ry = numberAttr(element, 'ry');
+            return rx > 0 && ry > 0
+                ? [ellipsePolyline(numberAttr(element, 'cx'), numberAttr(element, 'cy'), rx, ry)]
+                : [];
+        }
+        default:
+            return [];
+    }
+};
+
+const SKIPPED_ELEMENTS = new Set(['defs', 'clippath', 'mask', 'symbol', 'style', 'title', 'desc']);
+
+/**
+ * Outline polylines of every shape in an SVG document, with element and group
+ * transforms applied. Throws when the text is not a parsable SVG.
+ */
+export const extractSvgPolylines = (svgText: string): ImportPolyline[] => {
+    const document = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+    const root = document.documentElement;
+    if (root.tagName.toLowerCase() !== 'svg' || document.querySelector('parsererror')) {
+        throw new Error('File is not a valid SVG document.');
+    }
+
+    const polylines: ImportPolyline[] = [];
+    const visit = (element: Element, parentMatrix: Matrix) => {
+        const tag = element.tagName.toLowerCase();
+        if (SKIPPED_ELEMENTS.has(tag)) return;
+        const matrix = multiply(parentMatrix, parseSvgTransform(element.getAttribute('transform')));
+        for (const polyline of elementToPolylines(element)) {
+            polylines.push({
+                ...polyline,
+                points: polyline.points.map((point) => applyMatrix(matrix, point)),
+            });
+        }
+        for (const child of Array.from(element.children)) {
+            visit(child, matrix);
+        }
+    };
+    visit(root, IDENTITY);
+    return polylines;
+};
+
+// =============================================================================
+// RASTER IMAGES
+// =============================================================================
+
+/** Longest side, in pixels, images are scaled to before thresholding. */
+export const RASTER_SAMPLE_SIZE = 256;
+
+/**
+ * Threshold RGBA pixels into a mask. A pixel is inside when it is opaque and
+ * darker than the threshold, or lighter when `invert` is set.
+ */
+export const createImageMask = (
+    image: { width: number; height: number; data: Uint8ClampedArray },
+    threshold: number,
+    invert = false,
+): ImportMask => {
+    const data = new Uint8Array(image.width * image.height);
+    for (let i = 0; i < data.length; i++) {
+        const offset = i * 4;
+        if (image.data[offset + 3] < 128) continue;
+        const luminance =
+            0.2126 * image.data[offset] +
+            0.7152 * image.data[offset + 1] +
+            0.0722 * image.data[offset + 2];
+        data[i] = (invert ? luminance >= threshold : luminance < threshold) ? 1 : 0;
+    }
+    return { width: image.width, height: image.height, data };
+};
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Unable to decode image.'));
+        image.src = url;
+    });
+
+/**
+ * Decode an image file (PNG, JPEG or SVG) and read back its pixels, scaled so
+ * the longest side is `RASTER_SAMPLE_SIZE`.
+ */
+export const readImagePixels = async (file: Blob): Promise<ImageData> => {
+    const url = URL.createObjectURL(file);
+    try {
+        const image = await loadImage(url);
+        const sourceWidth = image.naturalWidth || RASTER_SAMPLE_SIZE;
+        const sourceHeight = image.naturalHeight || RASTER_SAMPLE_SIZE;
+        const scale = RASTER_SAMPLE_SIZE / Math.max(sourceWidth, sourceHeight);
+        const width = Math.max(1, Math.round(sourceWidth * scale));
+        const height = Math.max(1, Math.round(sourceHeight * scale));
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Canvas is not available.');
+        }
+        context.drawImage(image, 0, 0, width, height);
+        return context.getImageData(0, 0, width, height);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+// =============================================================================
+// SAMPLING
+// =============================================================================
+
+/**
+ * `count` points spaced evenly by arc length along all polylines. Closed
+ * polylines include their closing edge.
+ */
+export const sampleAlongPolylines = (polylines: ImportPolyline[], count: number): ImportPoint[] => {
+    const edges: Array<{ from: ImportPoint; to: ImportPoint; length: number }> = [];
+    for (const polyline of polylines) {
+        const points = polyline.closed ? [...polyline.points, polyline.points[0]] : polyline.points;
+        for (let i = 1; i < points.length; i++) {
+            const length = Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+            if (length > 0) {
+                edges.push({ from: points[i - 1], to: points[i], length });
+            }
+        }
+    }
+    const totalLength = edges.reduce((sum, edge) => sum + edge.length, 0);
+    if (count <= 0 || totalLength === 0) return [];
+
+    const spacing = totalLength / count;
+    const samples: ImportPoint[] = [];
+    let edgeIndex = 0;
+    let edgeStart = 0;
+    for (let i = 0; i < count; i++) {
+        const distance = (i + 0.5) * spacing;
+        while (edgeIndex < edges.length - 1 && edgeStart + edges[edgeIndex].length < distance) {
+            edgeStart += edges[edgeIndex].length;
+            edgeIndex++;
+        }
+        const edge = edges[edgeIndex];
+        const t = Math.min(1, (distance - edgeStart) / edge.length);
+        samples.push({
+            x: edge.from.x + (edge.to.x - edge.from.x) * t,
+            y: edge.from.y + (edge.to.y - edge.from.y) * t,
+        });
+    }
+    return samples;
+};
+
+const sampleMaskGrid = (mask: ImportMask, spacing: number): ImportPoint[] => {
+    const points: ImportPoint[] = [];
+    for (let y = spacing / 2; y < mask.height; y += spacing) {
+        for (let x = spacing / 2; x < mask.width; x += spacing) {
+            if (mask.data[Math.floor(y) * mask.width + Math.floor(x)]) {
+                points.push({ x: x + 0.5, y: y + 0.5 });
+            }
+        }
+    }
+    return points;
+};
+
+/**
+ * Up to `count` points on a regular grid inside the mask. The grid spacing is
+ * searched so the shape is covered as evenly as the budget allows.
+ */
+export const sampleInsideMask = (mask: ImportMask, count: number): ImportPoint[] => {
+    if (count <= 0 || mask.width === 0 || mask.height === 0) return [];
+    let best: ImportPoint[] = [];
+    let low = 1;
+    let high = Math.max(mask.width, mask.height) * 2;
+    for (let iteration = 0; iteration < 32 && high - low > 1e-3; iteration++) {
+        const spacing = (low + high) / 2;
+        const points = sampleMaskGrid(mask, spacing);
+        if (points.length > count) {
+            low = spacing;
+        } else {
+            if (points.length > best.length) best = points;
+            high = spacing;
+        }
+    }
+    return best;
+};
+
+// =============================================================================
+// FITTING
+// =============================================================================
+
+/**
+ * Pattern-space box covering every calibrated tile's reach, clipped to
+ * `[-1, 1]`. Falls back to the full pattern space without calibrated tiles.
+ */
+export const getPatternImportBounds = (profile: CalibrationProfile | null): ImportBounds => {
+    if (!profile) return PATTERN_SPACE;
+    const spaceParams = getSpaceParams(profile);
+    const tileBounds = Object.values(profile.tiles).flatMap((tile) =>
+        tile.combinedBounds ? [centeredBoundsToPattern(tile.combinedBounds, spaceParams)] : [],
+    );
+    if (tileBounds.length === 0) return PATTERN_SPACE;
+    return {
+        xMin: Math.max(PATTERN_SPACE.xMin, Math.min(...tileBounds.map((b) => b.xMin))),
+        xMax: Math.min(PATTERN_SPACE.xMax, Math.max(...tileBounds.map((b) => b.xMax))),
+        yMin: Math.max(PATTERN_SPACE.yMin, Math.min(...tileBounds.map((b) => b.yMin))),
+        yMax: Math.min(PATTERN_SPACE.yMax, Math.max(...tileBounds.map((b) => b.yMax))),
+    };
+};
+
+/**
+ * Scale and centre points into `bounds`, keeping their aspect ratio.
+ * `scale` below 1 shrinks the fit about the centre of the bounds.
+ */
+export const fitPointsToBounds = (
+    points: ImportPoint[],
+    bounds: ImportBounds,
+    scale = 1,
+): ImportPoint[] => {
+    if (points.length === 0) return [];
+    const xs = points.map((point) => point.x);
+    const ys = points.map((point) => point.y);
+    const source = {
+        xMin: Math.min(...xs),
+        xMax: Math.max(...xs),
+        yMin: Math.min(...ys),
+        yMax: Math.max(...ys),
+    };
+    const sourceWidth = source.xMax - source.xMin;
+    const sourceHeight = source.yMax - source.yMin;
+    const targetWidth = (bounds.xMax - bounds.xMin) * (1 - FIT_MARGIN * 2);
+    const targetHeight = (bounds.yMax - bounds.yMin) * (1 - FIT_MARGIN * 2);
+    const ratios = [
+        sourceWidth > 0 ? targetWidth / sourceWidth : Number.POSITIVE_INFINITY,
+        sourceHeight > 0 ? targetHeight / sourceHeight : Number.POSITIVE_INFINITY,
+    ];
+    const fit = Math.min(...ratios);
+    const factor = (Number.isFinite(fit) ? fit : 0) * scale;
+    const sourceCx = (source.xMin + source.xMax) / 2;
+    const sourceCy = (source.yMin + source.yMax) / 2;
+    const targetCx = (bounds.xMin + bounds.xMax) / 2;
+    const targetCy = (bounds.yMin + bounds.yMax) / 2;
+    return points.map((point) => ({
+        x: targetCx + (point.x - sourceCx) * factor,
+        y: targetCy + (point.y - sourceCy) * factor,
+    }));
+};
+
+/**
+ * Fit sampled points into the profile's reachable area and turn them into
+ * pattern points. When some samples fall between tile bounds the fit is
+ * shrunk step by step; samples still unreachable at the best fit are dropped.
+ */
+export const buildImportedPatternPoints = (
+    samples: ImportPoint[],
+    profile: CalibrationProfile | null,
+    createId: (index: number) => string,
+): ImportedPatternPoints => {
+    const bounds = getPatternImportBounds(profile);
+    const toPatternPoints = (points: ImportPoint[]): PatternPoint[] =>
+        points.map((point, index) => ({ id: createId(index), x: point.x, y: point.y }));
+
+    if (!profile || samples.length === 0) {
+        return { points: toPatternPoints(fitPointsToBounds(samples, bounds)), droppedCount: 0 };
+    }
+
+    let best: PatternPoint[] = [];
+    let scale = 1;
+    for (let attempt = 0; attempt <= FIT_SHRINK_ATTEMPTS; attempt++) {
+        const candidate = toPatternPoints(fitPointsToBounds(samples, bounds, scale));
+        const validation = validatePatternInProfile(candidate, { profile });
+        const valid = candidate.filter((point) => !validation.invalidPointIds.has(point.id));
+        if (valid.length > best.length) {
+            best = valid;
+        }
+        if (validation.isValid) break;
+        scale *= FIT_SHRINK_FACTOR;
+    }
+    return {
+        points: best.map((point, index) => ({ ...point, id: createId(index) })),
+        droppedCount: samples.length - best.length,
+    };
+};
@@ -49,7 +49,7 @@ const parsePoint = (input: unknown): StoredPatternPoint | null => {
     };
 };
 
-const parsePattern = (input: unknown): Pattern | null => {
+export const parsePattern = (input: unknown): Pattern | null => {
     if (!input || typeof input !== 'object') {
         return null;
     }
@@ -0,0 +1,241 @@
+/**
+ * Pattern Text Module
+ *
+ * Lays out a string with one of the built-in fonts and samples it down to
+ * pattern points. Lines are wrapped at spaces so the text block matches the
+ * aspect ratio of the area it will be fitted into; `patternImport` does the
+ * fitting against the calibrated tile bounds.
+ */
+
+import {
+    DOT_MATRIX_FONT,
+    GLYPH_HEIGHT,
+    GLYPH_LINE_GAP,
+    GLYPH_WIDTH,
+    STROKE_FONT,
+    type PatternFontId,
+} from '@/constants/patternFonts';
+
+import { sampleAlongPolylines, type ImportPoint, type ImportPolyline } from './patternImport';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface TextPatternOptions {
+    text: string;
+    font: PatternFontId;
+    /** Blank columns between glyphs, in glyph grid units */
+    letterSpacing: number;
+    /** Points per glyph; dot-matrix glyphs with fewer lit dots use all of them */
+    pointsPerGlyph: number;
+    /** Maximum number of points, normally the calibrated tile count */
+    budget: number;
+    /** Width / height of the area the text will be fitted into */
+    targetAspect: number;
+}
+
+export interface TextPatternLayout {
+    /** Sample points in glyph grid units, y down */
+    points: ImportPoint[];
+    /** Wrapped lines as laid out */
+    lines: string[];
+    /** Points per glyph after applying the budget */
+    pointsPerGlyph: number;
+    /** Characters the font has no glyph for; they are left out */
+    unsupported: string[];
+    /** True when there are more glyphs than the budget allows, so text was cut */
+    truncated: boolean;
+}
+
+// =============================================================================
+// GLYPHS
+// =============================================================================
+
+const hasGlyph = (font: PatternFontId, char: string): boolean =>
+    (font === 'stroke' ? STROKE_FONT : DOT_MATRIX_FONT)[char] !== undefined;
+
+const parseStrokes = (definition: string, offset: ImportPoint): ImportPolyline[] =>
+    definition.split('|').map((stroke) => ({
+        points: stroke
+            .trim()
+            .split(/\s+/)
+            .map((pair) => {
+                const [x, y] = pair.split(',').map(Number);
+                return { x: offset.x + x, y: offset.y + y };
+            }),
+        closed: false,
+    }));
+
+const litDots = (rows: string[], offset: ImportPoint): ImportPoint[] =>
+    rows.flatMap((row, y) =>
+        Array.from(row).flatMap((cell, x) =>
+            cell === '#' ? [{ x: offset.x + x, y: offset.y + y }] : [],
+        ),
+    );
+
+/**
+ * `count` points spread over `points` by farthest-point selection.
+ */
+const spreadSubset = (points: ImportPoint[], count: number): ImportPoint[] => {
+    if (points.length <= count) return points;
+    const chosen: ImportPoint[] = [points[0]];
+    const distances = points.map((point) =>
+        Math.hypot(point.x - points[0].x, point.y - points[0].y),
+    );
+    while (chosen.length < count) {
+        let farthest = 0;
+        for (let i = 1; i < points.length; i++) {
+            if (distances[i] > distances[farthest]) farthest = i;
+        }
+        const next = points[farthest];
+        chosen.push(next);
+        for (let i = 0; i < points.length; i++) {
+            distances[i] = Math.min(
+                distances[i],
+                Math.hypot(points[i].x - next.x, points[i].y - next.y),
+            );
+        }
+    }
+    return chosen;
+};
+
+const sampleGlyph = (
+    font: PatternFontId,
+    char: string,
+    offset: ImportPoint,
+    count: number,
+): ImportPoint[] =>
+    font === 'stroke'
+        ? sampleAlongPolylines(parseStrokes(STROKE_FONT[char], offset), count)
+        : spreadSubset(litDots(DOT_MATRIX_FONT[char], offset), count);
+
+// =============================================================================
+// LAYOUT
+// =============================================================================
+
+/**
+ * Greedily wrap words into lines of at most `maxChars` characters. Explicit
+ * newlines always break; words longer than the limit get a line of their own.
+ */
+const wrapWords = (paragraphs: string[][], maxChars: number): string[] => {
+    const lines: string[] = [];
+    for (const words of paragraphs) {
+        let line = '';
+        for (const word of words) {
+            if (line && line.length + 1 + word.length > maxChars) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = line ? `${line} ${word}` : word;
+            }
+        }
+        lines.push(line);
+    }
+    return lines;
+};
+
+/** Distance between glyph origins; a glyph covers GLYPH_WIDTH + 1 columns. */
+const glyphAdvance = (letterSpacing: number): number => GLYPH_WIDTH + 1 + letterSpacing;
+
+const lineWidth = (length: number, letterSpacing: number): number =>
+    (Math.max(1, length) - 1) * glyphAdvance(letterSpacing) + GLYPH_WIDTH;
+
+const blockSize = (lines: string[], letterSpacing: number) => {
+    const longest = Math.max(1, ...lines.map((line) => line.length));
+    return {
+        width: lineWidth(longest, letterSpacing),
+        height: lines.length * (GLYPH_HEIGHT + GLYPH_LINE_GAP) - GLYPH_LINE_GAP,
+    };
+};
+
+/**
+ * Wrapping whose block aspect ratio is closest to the target; ties keep fewer lines.
+ */
+const chooseLines = (paragraphs: string[][], letterSpacing: number, targetAspect: number) => {
+    const longestWord = Math.max(1, ...paragraphs.flat().map((word) => word.length));
+    const longestParagraph = Math.max(1, ...paragraphs.map((words) => words.join(' ').length));
+    let best: string[] = [];
+    let bestScore = Number.POSITIVE_INFINITY;
+    for (let maxChars = longestParagraph; maxChars >= longestWord; maxChars--) {
+        const lines = wrapWords(paragraphs, maxChars);
+        const { width, height } = blockSize(lines, letterSpacing);
+        const score = Math.abs(Math.log(width / height / targetAspect));
+        if (score < bestScore - 1e-9) {
+            best = lines;
+            bestScore = score;
+        }
+    }
+    return best;
+};
+
+/**
+ * Lay out `text` and sample every glyph with the same number of points, lowered
+ * so the whole text fits the budget. Letters are upper-cased; characters
+ * without a glyph are skipped and reported.
+ */
+export const layoutTextPattern = (options: TextPatternOptions): TextPatternLayout => {
+    const { font, targetAspect } = options;
+    const letterSpacing = Math.max(0, options.letterSpacing);
+    const unsupported = new Set<string>();
+    const paragraphs = options.text
+        .toUpperCase()
+        .split('\n')
+        .map((paragraph) =>
+            Array.from(paragraph)
+                .filter((char) => {
+                    if (char === ' ' || hasGlyph(font, char)) return true;
+                    unsupported.add(char);
+                    return false;
+                })
+                .join('')
+                .split(' ')
+                .filter((word) => word.length > 0),
+        )
+        .filter((words) => words.length > 0);
+
+    const glyphCount = paragraphs.flat().reduce((sum, word) => sum + word.length, 0);
+    const budget = Math.max(0, Math.floor(options.budget));
+    if (glyphCount === 0 || budget === 0) {
+        return {
+            points: [],
+            lines: [],
+            pointsPerGlyph: 0,
+            unsupported: Array.from(unsupported),
+            truncated: glyphCount > 0,
+        };
+    }
+
+    const lines = chooseLines(
+        paragraphs,
+        letterSpacing,
+        targetAspect > 0 && Number.isFinite(targetAspect) ? targetAspect : 1,
+    );
+    const pointsPerGlyph = Math.max(
+        1,
+        Math.min(Math.floor(options.pointsPerGlyph), Math.floor(budget / glyphCount)),
+    );
+
+    const advance = glyphAdvance(letterSpacing);
+    const { width } = blockSize(lines, letterSpacing);
+    const points: ImportPoint[] = [];
+    lines.forEach((line, lineIndex) => {
+        // Centre each line within the block
+        const startX = (width - lineWidth(line.length, letterSpacing)) / 2;
+        const y = lineIndex * (GLYPH_HEIGHT + GLYPH_LINE_GAP);
+        Array.from(line).forEach((char, charIndex) => {
+            if (char === ' ') return;
+            points.push(
+                ...sampleGlyph(font, char, { x: startX + charIndex * advance, y }, pointsPerGlyph),
+            );
+        });
+    });
+
+    return {
+        points: points.slice(0, budget),
+        lines,
+        pointsPerGlyph,
+        unsupported: Array.from(unsupported),
+        truncated: points.length > budget,
+    };
+};
@@ -76,6 +76,16 @@ export class PendingCommandTracker {
         this.rejectCommand(record, reason, cmdId);
     }
 
+    /** True while a command sent to `mac` is still waiting for completion. */
+    public hasPendingForMac(mac: string): boolean {
+        for (const record of this.pending.values()) {
+            if (!record.settled && record.mac === mac) {
+                return true;
+            }
+        }
+        return false;
+    }
+
     public register(
         cmdId: string,
         options: { expectAck?: boolean; mac?: string } = {},
@@ -1,4 +1,16 @@
-import type { PlaybackSequence } from '@/types';
+import {
+    DEFAULT_SEQUENCE_HOLD_MS,
+    DEFAULT_SEQUENCE_TRANSITION_MS,
+    DEFAULT_WAVE_STAGGER_MS,
+    MAX_SEQUENCE_TIME_MS,
+    PLAYBACK_TRANSITION_LABELS,
+} from '@/constants/playback';
+import type {
+    PlaybackLoopMode,
+    PlaybackSequence,
+    PlaybackSequenceEntry,
+    PlaybackTransitionType,
+} from '@/types';
 
 const STORAGE_KEY = 'mirror:playback:sequences';
 const STORAGE_VERSION = 1;
@@ -8,30 +20,91 @@ interface StoredPayload {
     sequences: PlaybackSequence[];
 }
 
+/** Sequences saved before the timeline only stored an ordered list of pattern ids. */
+interface LegacySequenceFields {
+    patternIds?: unknown;
+}
+
 const isNonEmptyString = (value: unknown): value is string =>
     typeof value === 'string' && value.trim().length > 0;
 
-const parseSequence = (input: unknown): PlaybackSequence | null => {
+const isTransitionType = (value: unknown): value is PlaybackTransitionType =>
+    typeof value === 'string' && value in PLAYBACK_TRANSITION_LABELS;
+
+/** Clamp a stored duration, falling back when it is missing or invalid. */
+const parseDuration = (value: unknown, fallback: number): number =>
+    typeof value === 'number' && Number.isFinite(value)
+        ? Math.max(0, Math.min(MAX_SEQUENCE_TIME_MS, Math.round(value)))
+        : fallback;
+
+export const createSequenceEntry = (
+    patternId: string,
+    overrides: Partial<Omit<PlaybackSequenceEntry, 'patternId'>> = {},
+): PlaybackSequenceEntry => ({
+    patternId,
+    transition: 'direct',
+    transitionMs: DEFAULT_SEQUENCE_TRANSITION_MS,
+    staggerMs: DEFAULT_WAVE_STAGGER_MS,
+    holdMs: DEFAULT_SEQUENCE_HOLD_MS,
+    ...overrides,
+});
+
+const parseEntry = (input: unknown): PlaybackSequenceEntry | null => {
+    if (!input || typeof input !== 'object') {
+        return null;
+    }
+    const candidate = input as Record<string, unknown>;
+    if (!isNonEmptyString(candidate.patternId)) {
+        return null;
+    }
+    return {
+        patternId: candidate.patternId,
+        transition: isTransitionType(candidate.transition) ? candidate.transition : 'direct',
+        transitionMs: parseDuration(candidate.transitionMs, DEFAULT_SEQUENCE_TRANSITION_MS),
+        staggerMs: parseDuration(candidate.staggerMs, DEFAULT_WAVE_STAGGER_MS),
+        holdMs: parseDuration(candidate.holdMs, DEFAULT_SEQUENCE_HOLD_MS),
+    };
+};
+
+const parseEntries = (
+    candidate: Partial<PlaybackSequence> & LegacySequenceFields,
+): PlaybackSequenceEntry[] | null => {
+    if (Array.isArray(candidate.entries)) {
+        return candidate.entries
+            .map(parseEntry)
+            .filter((entry): entry is PlaybackSequenceEntry => entry !== null);
+    }
+    if (Array.isArray(candidate.patternIds)) {
+        return candidate.patternIds
+            .filter((id): id is string => isNonEmptyString(id))
+            .map((id) => createSequenceEntry(id));
+    }
+    return null;
+};
+
+export const parseSequence = (input: unknown): PlaybackSequence | null => {
     if (!input || typeof input !== 'object') {
         return null;
     }
-    const candidate = input as Partial<PlaybackSequence>;
+    const candidate = input as Partial<PlaybackSequence> & LegacySequenceFields;
     if (!isNonEmptyString(candidate.id) || !isNonEmptyString(candidate.name)) {
         return null;
     }
     if (!isNonEmptyString(candidate.createdAt) || !isNonEmptyString(candidate.updatedAt)) {
         return null;
     }
-    if (!Array.isArray(candidate.patternIds)) {
+    const entries = parseEntries(candidate);
+    if (!entries) {
         return null;
     }
-    const patternIds = candidate.patternIds.filter((id): id is string => isNonEmptyString(id));
+    const loopMode: PlaybackLoopMode = candidate.loopMode === 'loop' ? 'loop' : 'once';
     return {
         id: candidate.id,
         name: candidate.name,
         createdAt: candidate.createdAt,
         updatedAt: candidate.updatedAt,
-        patternIds,
+        entries,
+        loopMode,
     };
 };
 
@@ -70,7 +143,14 @@ const serializeSequence = (sequence: PlaybackSequence): PlaybackSequence => ({
     name: sequence.name,
     createdAt: sequence.createdAt,
     updatedAt: sequence.updatedAt,
-    patternIds: sequence.patternIds,
+    entries: sequence.entries.map((entry) => ({
+        patternId: entry.patternId,
+        transition: entry.transition,
+        transitionMs: entry.transitionMs,
+        staggerMs: entry.staggerMs,
+        holdMs: entry.holdMs,
+    })),
+    loopMode: sequence.loopMode,
 });
 
 const writeSequences = (storage: Storage | undefined, sequences: PlaybackSequence[]): void => {
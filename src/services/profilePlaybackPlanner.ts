@@ -1,9 +1,16 @@
 import { MOTOR_MAX_POSITION_STEPS, MOTOR_MIN_POSITION_STEPS } from '@/constants/control';
-import { convertDeltaToSteps } from '@/utils/calibrationMath';
+import { convertDisplacementToSteps } from '@/services/calibration/math/stepResponseModel';
+import type { ThermalPlanAssessment } from '@/types/thermal';
+import { solveBottleneckAssignment, solveLinearAssignment } from '@/utils/linearAssignment';
 
 import { getMirrorAssignment } from '../utils/grid';
 
 import { getSpaceParams, patternToCentered } from './spaceConversion';
+import {
+    assessThermalBudget,
+    getThermalMotorKey,
+    type ThermalTelemetryIndex,
+} from './thermalBudget';
 
 import type {
     Axis,
@@ -22,6 +29,20 @@ export interface ProfilePlaybackParams {
     mirrorConfig: MirrorConfig;
     profile: CalibrationProfile | null;
     pattern: Pattern | null;
+    /** Live thermal telemetry; when provided the plan includes a budget assessment. */
+    thermalTelemetry?: ThermalTelemetryIndex;
+    /**
+     * Where each motor starts from, keyed by `getThermalMotorKey`. Used to pick the
+     * tile assignment with the least travel; falls back to telemetry, then home.
+     */
+    startSteps?: ReadonlyMap<string, number>;
+    /**
+     * Plan of the pattern the mirrors are showing now; motors start from its
+     * targets. With a previous plan or start steps the assignment is
+     * transition-aware: it minimises the largest single-axis move, so each tile
+     * moves to the nearest spot of the new pattern.
+     */
+    previousPlan?: ProfilePlaybackPlanResult | null;
 }
 
 export type ProfilePlaybackErrorCode =
@@ -73,6 +94,8 @@ export interface ProfilePlaybackPlanResult {
     tiles: ProfilePlaybackTilePlan[];
     playableAxisTargets: ProfilePlaybackAxisTarget[];
     errors: ProfilePlaybackValidationError[];
+    /** Thermal budget assessment of `playableAxisTargets` (requires `thermalTelemetry`). */
+    thermal?: ThermalPlanAssessment;
 }
 
 const AXES: Axis[] = ['x', 'y'];
@@ -87,6 +110,13 @@ const axisStepsKey: Record<Axis, 'stepsX' | 'stepsY'> = {
     y: 'stepsY',
 };
 
+/** Targets closer than this fraction of the bounds span to an edge are penalised. */
+const EDGE_MARGIN_FRACTION = 0.1;
+/** Cost, in steps, of a target sitting exactly on a bounds edge. */
+const EDGE_PENALTY_STEPS = 100;
+/** Cost of a pairing whose targets fall outside the motor step range. */
+const UNREACHABLE_PENALTY_STEPS = (MOTOR_MAX_POSITION_STEPS - MOTOR_MIN_POSITION_STEPS) * 10;
+
 const getTileKey = (row: number, col: number): string => `${row}-${col}`;
 
 const createError = (
@@ -198,8 +228,14 @@ const computeAxisTarget = ({
         };
     }
 
+    const baseSteps = adjustedHome[axisStepsKey[axis]] as number;
     const delta = normalizedTarget - (adjustedHome[axisCoordKey[axis]] as number);
-    const deltaSteps = convertDeltaToSteps(delta, perStep);
+    const deltaSteps = convertDisplacementToSteps(
+        delta,
+        perStep,
+        tile.axes?.[axis]?.responseModel,
+        baseSteps,
+    );
     if (deltaSteps === null) {
         return {
             error: createError(
@@ -214,7 +250,6 @@ const computeAxisTarget = ({
         };
     }
 
-    const baseSteps = adjustedHome[axisStepsKey[axis]] as number;
     const rawTargetSteps = baseSteps + deltaSteps;
     const axisRange = resolveAxisRange(tile, axis);
 
@@ -253,6 +288,9 @@ export const planProfilePlayback = ({
     mirrorConfig,
     profile,
     pattern,
+    thermalTelemetry,
+    startSteps,
+    previousPlan,
 }: ProfilePlaybackParams): ProfilePlaybackPlanResult => {
     if (!pattern) {
         return {
@@ -321,8 +359,6 @@ export const planProfilePlayback = ({
         col: number;
         tile: TileCalibrationResults;
         assignment: MirrorAssignment;
-        idealX: number;
-        idealY: number;
     }[] = [];
 
     for (let row = 0; row < gridSize.rows; row += 1) {
@@ -331,20 +367,7 @@ export const planProfilePlayback = ({
             const tile = profile.tiles[key];
             const assignment = getMirrorAssignment(mirrorConfig, row, col);
             if (isTileCalibrated(tile) && assignment.x && assignment.y) {
-                // Calculate ideal normalized position [-1, 1]
-                // If cols=1, x=0. Else map 0..cols-1 to -1..1
-                const idealX = gridSize.cols > 1 ? (col / (gridSize.cols - 1)) * 2 - 1 : 0;
-                const idealY = gridSize.rows > 1 ? (row / (gridSize.rows - 1)) * 2 - 1 : 0;
-
-                availableTiles.push({
-                    key,
-                    row,
-                    col,
-                    tile,
-                    assignment,
-                    idealX,
-                    idealY,
-                });
+                availableTiles.push({ key, row, col, tile, assignment });
             }
         }
     }
@@ -359,67 +382,99 @@ export const planProfilePlayback = ({
     }
 
     // 2. Pre-calculate valid tiles for each point (using rotated coordinates)
-    // We want to assign points that have FEWER options first.
-    const pointOptions = rotatedPoints.map((point) => {
-        const validTiles = availableTiles.filter((t) => {
-            const bounds = t.tile.combinedBounds;
-            if (!bounds) return true; // No bounds = assume valid
-            // Check X
-            if (point.x < bounds.x.min || point.x > bounds.x.max) return false;
-            // Check Y
-            if (point.y < bounds.y.min || point.y > bounds.y.max) return false;
-            return true;
-        });
-        return {
-            point,
-            validTiles,
-        };
-    });
-
-    // 3. Sort points by flexibility (ascending number of valid tiles)
-    // This ensures we handle constrained points first.
-    // Stable tie-break on point ID for deterministic results.
-    pointOptions.sort((a, b) => {
-        const flexDiff = a.validTiles.length - b.validTiles.length;
-        if (flexDiff !== 0) return flexDiff;
-        return a.point.id.localeCompare(b.point.id);
-    });
-
-    // 4. Assign tiles
-    const assignedTileKeys = new Set<string>();
-    const pointAssignments = new Map<string, string>(); // pointId -> tileKey
-
-    for (const { point, validTiles } of pointOptions) {
-        // Filter out already assigned tiles
-        const candidates = validTiles.filter((t) => !assignedTileKeys.has(t.key));
+    const fitsBounds = (point: PatternPoint, bounds: CalibrationProfileBounds | null) =>
+        !bounds || // No bounds = assume valid
+        (point.x >= bounds.x.min &&
+            point.x <= bounds.x.max &&
+            point.y >= bounds.y.min &&
+            point.y <= bounds.y.max);
+    const pointOptions = rotatedPoints.map((point) => ({
+        point,
+        validTiles: availableTiles.filter((t) => fitsBounds(point, t.tile.combinedBounds)),
+    }));
+
+    // 3. Cost of each point/tile pairing: travel from where the motors are now, plus
+    // a penalty near the bounds edges. Points outside a tile's bounds cannot use it.
+    const previousSteps = new Map(
+        (previousPlan?.playableAxisTargets ?? []).map((target) => [
+            getThermalMotorKey(target.motor.nodeMac, target.motor.motorIndex),
+            target.targetSteps,
+        ]),
+    );
+    const resolveStartSteps = (motor: Motor, fallback: number): number => {
+        const key = getThermalMotorKey(motor.nodeMac, motor.motorIndex);
+        return (
+            previousSteps.get(key) ??
+            startSteps?.get(key) ??
+            thermalTelemetry?.get(key)?.position ??
+            fallback
+        );
+    };
 
-        if (candidates.length === 0) {
-            // Cannot assign this point
-            // We will handle the error generation when constructing the final plan
-            continue;
+    const evaluatePairing = (
+        point: PatternPoint,
+        candidate: (typeof availableTiles)[number],
+    ): { cost: number; maxAxisSteps: number } => {
+        if (!fitsBounds(point, candidate.tile.combinedBounds)) {
+            return { cost: Number.POSITIVE_INFINITY, maxAxisSteps: Number.POSITIVE_INFINITY };
         }
-
-        // Find the "closest" candidate
-        // Stable tie-break on tile key for deterministic results when distances are equal.
-        let bestCandidate = candidates[0];
-        let minDistanceSq = Number.POSITIVE_INFINITY;
-
-        for (const candidate of candidates) {
-            const dx = point.x - candidate.idealX;
-            const dy = point.y - candidate.idealY;
-            const distSq = dx * dx + dy * dy;
-            if (
-                distSq < minDistanceSq ||
-                (distSq === minDistanceSq && candidate.key < bestCandidate.key)
-            ) {
-                minDistanceSq = distSq;
-                bestCandidate = candidate;
+        let cost = 0;
+        let maxAxisSteps = 0;
+        for (const axis of AXES) {
+            const result = computeAxisTarget({
+                axis,
+                tile: candidate.tile,
+                assignment: candidate.assignment,
+                patternPoint: point,
+                mirrorId: candidate.key,
+                row: candidate.row,
+                col: candidate.col,
+            });
+            if ('error' in result) {
+                cost += UNREACHABLE_PENALTY_STEPS;
+                maxAxisSteps = UNREACHABLE_PENALTY_STEPS;
+                continue;
+            }
+            const home = candidate.tile.adjustedHome?.[axisStepsKey[axis]] ?? 0;
+            const travel = Math.abs(
+                result.target.targetSteps - resolveStartSteps(result.target.motor, home),
+            );
+            cost += travel;
+            maxAxisSteps = Math.max(maxAxisSteps, travel);
+
+            const bounds = resolveAxisBounds(candidate.tile.combinedBounds, axis);
+            const span = bounds ? bounds.max - bounds.min : 0;
+            if (bounds && span > 0) {
+                const margin = Math.min(point[axis] - bounds.min, bounds.max - point[axis]) / span;
+                if (margin < EDGE_MARGIN_FRACTION) {
+                    cost += EDGE_PENALTY_STEPS * (1 - margin / EDGE_MARGIN_FRACTION);
+                }
             }
         }
+        return { cost, maxAxisSteps };
+    };
 
-        assignedTileKeys.add(bestCandidate.key);
-        pointAssignments.set(point.id, bestCandidate.key);
-    }
+    // 4. Assign tiles with a minimum-cost matching, which finds a feasible assignment
+    // whenever one exists and keeps the total motion low. Transitions from a previous
+    // pattern first minimise the longest single-axis move so no reflection flies
+    // across the wall while the others barely move.
+    const pairings = rotatedPoints.map((point) =>
+        availableTiles.map((tile) => evaluatePairing(point, tile)),
+    );
+    const costs = pairings.map((row) => row.map((pairing) => pairing.cost));
+    const assignedColumns =
+        previousPlan || startSteps
+            ? solveBottleneckAssignment(
+                  costs,
+                  pairings.map((row) => row.map((pairing) => pairing.maxAxisSteps)),
+              )
+            : solveLinearAssignment(costs);
+    const pointAssignments = new Map<string, string>(); // pointId -> tileKey
+    assignedColumns.forEach((column, index) => {
+        if (column !== null) {
+            pointAssignments.set(rotatedPoints[index].id, availableTiles[column].key);
+        }
+    });
 
     // 5. Construct the result
     const tiles: ProfilePlaybackTilePlan[] = [];
@@ -530,10 +585,23 @@ export const planProfilePlayback = ({
         .flatMap((tile) => AXES.map((axis) => tile.axisTargets[axis]).filter(Boolean))
         .map((entry) => entry!) as ProfilePlaybackAxisTarget[];
 
+    // Moves start from the live position, so runtime is measured against current telemetry
+    const thermal = thermalTelemetry
+        ? assessThermalBudget(
+              playableAxisTargets.map((target) => ({
+                  mac: target.motor.nodeMac,
+                  motorId: target.motor.motorIndex,
+                  targetSteps: target.targetSteps,
+              })),
+              thermalTelemetry,
+          )
+        : undefined;
+
     return {
         patternId: pattern.id,
         tiles,
         playableAxisTargets,
         errors: [...globalErrors, ...tiles.flatMap((tile) => tile.errors)],
+        thermal,
     };
 };
@@ -0,0 +1,339 @@
+/**
+ * Recorded Camera Module
+ *
+ * Replays a recorded calibration session as a camera device. The recording is
+ * either a single video file or a folder of stills. Each frame is redrawn onto a
+ * canvas stream that the camera pipeline selects like a real device. While the
+ * source is paused, the pipeline keeps processing the same frame through the
+ * OpenCV worker, so detection and processing settings can be tuned against it.
+ * Playback can also be stepped one frame at a time.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RecordingKind = 'video' | 'images';
+
+export interface RecordedCameraState {
+    frameIndex: number;
+    frameCount: number;
+    playing: boolean;
+    /** Set when the last frame could not be decoded */
+    error: string | null;
+}
+
+interface FrameReader {
+    width: number;
+    height: number;
+    frameCount: number;
+    readFrame: (index: number) => Promise<ImageBitmap>;
+    dispose: () => void;
+}
+
+/** Fired on `window` when a recording is loaded or cleared. */
+export const RECORDED_CAMERA_CHANGED_EVENT = 'mirror:recorded-camera-changed';
+
+export const RECORDED_CAMERA_DEVICE_ID = 'recorded-camera';
+
+/** Frame rate assumed for video files, which do not expose their own. */
+export const DEFAULT_RECORDING_FPS = 30;
+
+const VIDEO_EXTENSIONS = /\.(mp4|m4v|mov|webm|mkv|ogv)$/i;
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|bmp|gif|webp)$/i;
+
+// =============================================================================
+// FILE SELECTION
+// =============================================================================
+
+const isVideoFile = (file: File) =>
+    file.type.startsWith('video/') || VIDEO_EXTENSIONS.test(file.name);
+
+const isImageFile = (file: File) =>
+    file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+
+/** Folder uploads carry the relative path; plain multi-selects only the name. */
+const framePath = (file: File) =>
+    (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+
+/**
+ * Pick the frames to replay from a file selection. A single video file wins.
+ * Otherwise the images are ordered by path with numeric runs compared by
+ * value, so `frame-9.png` comes before `frame-10.png`.
+ */
+export const selectRecordingFiles = (
+    files: File[],
+): { kind: RecordingKind; files: File[] } | null => {
+    const video = files.find(isVideoFile);
+    if (video) {
+        return { kind: 'video', files: [video] };
+    }
+    const images = files.filter(isImageFile).sort((a, b) =>
+        framePath(a).localeCompare(framePath(b), undefined, {
+            numeric: true,
+            sensitivity: 'base',
+        }),
+    );
+    return images.length > 0 ? { kind: 'images', files: images } : null;
+};
+
+export const clampFrameIndex = (index: number, frameCount: number): number =>
+    Math.min(Math.max(0, Math.round(index)), Math.max(0, frameCount - 1));
+
+// =============================================================================
+// FRAME READERS
+// =============================================================================
+
+const createImageFrameReader = async (files: File[]): Promise<FrameReader> => {
+    const first = await createImageBitmap(files[0]);
+    const { width, height } = first;
+    first.close();
+    return {
+        width,
+        height,
+        frameCount: files.length,
+        readFrame: (index) => createImageBitmap(files[index]),
+        dispose: () => undefined,
+    };
+};
+
+const waitForVideoEvent = (video: HTMLVideoElement, event: 'loadedmetadata' | 'seeked') =>
+    new Promise<void>((resolve, reject) => {
+        const cleanup = () => {
+            video.removeEventListener(event, handleDone);
+            video.removeEventListener('error', handleError);
+        };
+        const handleDone = () => {
+            cleanup();
+            resolve();
+        };
+        const handleError = () => {
+            cleanup();
+            reject(new Error('Unable to decode the video file.'));
+        };
+        video.addEventListener(event, handleDone);
+        video.addEventListener('error', handleError);
+    });
+
+const createVideoFrameReader = async (file: File, fps: number): Promise<FrameReader> => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.src = url;
+    try {
+        await waitForVideoEvent(video, 'loadedmetadata');
+    } catch (error) {
+        URL.revokeObjectURL(url);
+        throw error;
+    }
+    return {
+        width: video.videoWidth,
+        height: video.videoHeight,
+        frameCount: Math.max(1, Math.floor(video.duration * fps)),
+        async readFrame(index) {
+            // Seek to the middle of the frame so rounding never lands on its neighbour
+            const seeked = waitForVideoEvent(video, 'seeked');
+            video.currentTime = (index + 0.5) / fps;
+            await seeked;
+            return createImageBitmap(video);
+        },
+        dispose: () => {
+            video.removeAttribute('src');
+            video.load();
+            URL.revokeObjectURL(url);
+        },
+    };
+};
+
+// =============================================================================
+// SOURCE
+// =============================================================================
+
+export class RecordedCameraSource {
+    public readonly name: string;
+
+    public readonly kind: RecordingKind;
+
+    public readonly fps: number;
+
+    private readonly reader: FrameReader;
+
+    private frame: ImageBitmap | null = null;
+
+    private state: RecordedCameraState;
+
+    private readonly listeners = new Set<() => void>();
+
+    private playTimer: ReturnType<typeof setInterval> | null = null;
+
+    /** Latest requested frame; older reads are dropped when they resolve */
+    private requestedIndex = 0;
+
+    private constructor(name: string, kind: RecordingKind, fps: number, reader: FrameReader) {
+        this.name = name;
+        this.kind = kind;
+        this.fps = fps;
+        this.reader = reader;
+        this.state = { frameIndex: 0, frameCount: reader.frameCount, playing: false, error: null };
+    }
+
+    /** Load a recording from a file selection and decode its first frame. */
+    public static async load(
+        files: File[],
+        { fps = DEFAULT_RECORDING_FPS }: { fps?: number } = {},
+    ): Promise<RecordedCameraSource> {
+        const selection = selectRecordingFiles(files);
+        if (!selection) {
+            throw new Error('Choose a video file or a folder of images.');
+        }
+        const reader =
+            selection.kind === 'video'
+                ? await createVideoFrameReader(selection.files[0], fps)
+                : await createImageFrameReader(selection.files);
+        // Folder uploads are named after the folder, everything else after the first file
+        const name = framePath(selection.files[0]).split('/')[0];
+        const source = new RecordedCameraSource(name, selection.kind, fps, reader);
+        await source.seek(0);
+        return source;
+    }
+
+    public get width(): number {
+        return this.reader.width;
+    }
+
+    public get height(): number {
+        return this.reader.height;
+    }
+
+    public getState = (): RecordedCameraState => this.state;
+
+    public subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    public async seek(frameIndex: number): Promise<void> {
+        const index = clampFrameIndex(frameIndex, this.reader.frameCount);
+        this.requestedIndex = index;
+        try {
+            const bitmap = await this.reader.readFrame(index);
+            if (this.requestedIndex !== index) {
+                bitmap.close();
+                return;
+            }
+            this.frame?.close();
+            this.frame = bitmap;
+            this.setState({ frameIndex: index, error: null });
+        } catch (error) {
+            this.setState({
+                error:
+                    error instanceof Error ? error.message : `Unable to read frame ${index + 1}.`,
+            });
+        }
+    }
+
+    public step(delta: number): Promise<void> {
+        return this.seek(this.requestedIndex + delta);
+    }
+
+    /** Advance one frame per tick at the recording's frame rate, stopping at the end. */
+    public setPlaying(playing: boolean): void {
+        if (this.playTimer) {
+            clearInterval(this.playTimer);
+            this.playTimer = null;
+        }
+        if (playing) {
+            let busy = false;
+            this.playTimer = setInterval(() => {
+                if (busy) {
+                    return;
+                }
+                if (this.requestedIndex >= this.reader.frameCount - 1) {
+                    this.setPlaying(false);
+                    return;
+                }
+                busy = true;
+                void this.step(1).finally(() => {
+                    busy = false;
+                });
+            }, 1000 / this.fps);
+        }
+        this.setState({ playing });
+    }
+
+    /**
+     * Start a canvas-backed video stream showing the current frame. Drawing stops
+     * once every track of the returned stream has been stopped.
+     */
+    public startStream(): MediaStream {
+        const canvas = document.createElement('canvas');
+        canvas.width = this.reader.width;
+        canvas.height = this.reader.height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Canvas 2D context is unavailable');
+        }
+        const stream = canvas.captureStream(this.fps);
+        const draw = () => {
+            if (this.frame) {
+                ctx.drawImage(this.frame, 0, 0, canvas.width, canvas.height);
+            }
+        };
+        draw();
+        const timer = window.setInterval(() => {
+            if (stream.getTracks().every((track) => track.readyState === 'ended')) {
+                window.clearInterval(timer);
+                return;
+            }
+            draw();
+        }, 1000 / this.fps);
+        return stream;
+    }
+
+    public dispose(): void {
+        this.setPlaying(false);
+        this.frame?.close();
+        this.frame = null;
+        this.reader.dispose();
+        this.listeners.clear();
+    }
+
+    private setState(patch: Partial<RecordedCameraState>): void {
+        this.state = { ...this.state, ...patch };
+        this.listeners.forEach((listener) => listener());
+    }
+}
+
+// =============================================================================
+// ACTIVE SOURCE
+// =============================================================================
+
+let activeSource: RecordedCameraSource | null = null;
+
+export const getRecordedCameraSource = (): RecordedCameraSource | null => activeSource;
+
+/** Replace the loaded recording, releasing the previous one. */
+export const configureRecordedCamera = (source: RecordedCameraSource | null): void => {
+    if (activeSource && activeSource !== source) {
+        activeSource.dispose();
+    }
+    activeSource = source;
+    if (typeof window !== 'undefined' && typeof window.dispatchEvent === 'function') {
+        window.dispatchEvent(new Event(RECORDED_CAMERA_CHANGED_EVENT));
+    }
+};
+
+/** Device entry listed next to real cameras while a recording is loaded. */
+export const createRecordedCameraDeviceInfo = (source: RecordedCameraSource): MediaDeviceInfo =>
+    ({
+        deviceId: RECORDED_CAMERA_DEVICE_ID,
+        groupId: RECORDED_CAMERA_DEVICE_ID,
+        kind: 'videoinput',
+        label: `Recording: ${source.name}`,
+        toJSON() {
+            return { deviceId: RECORDED_CAMERA_DEVICE_ID, kind: 'videoinput' };
+        },
+    }) as MediaDeviceInfo;
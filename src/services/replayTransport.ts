@@ -0,0 +1,162 @@
+import { getSessionDurationMs, type SessionRecording } from './sessionRecording';
+
+import type { MockTransportMessage } from './mockTransport';
+
+export interface ReplayProgress {
+    /** Entries delivered so far. */
+    position: number;
+    total: number;
+    /** Recording time reached, in milliseconds. */
+    offsetMs: number;
+    durationMs: number;
+    finished: boolean;
+}
+
+export interface ReplayTransportOptions {
+    /** Playback rate: 1 is real time, 10 is ten times faster. */
+    speed?: number;
+}
+
+type MessageHandler = (message: MockTransportMessage) => void;
+
+const encoder = new TextEncoder();
+
+/**
+ * Feeds a recorded session back through the client for `replay://` connections.
+ * Inbound messages are re-delivered on their topics; recorded outbound commands
+ * are delivered on their `cmd` topic so the command tracker can register them.
+ * Live publishes are dropped since there is no device on the other end.
+ */
+export class ReplayMqttTransport {
+    private readonly recording: SessionRecording;
+
+    private speed: number;
+
+    private handler: MessageHandler | null = null;
+
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    private index = 0;
+
+    /** Recording offset and wall clock at the last (re)anchor, for speed changes. */
+    private anchorOffsetMs = 0;
+
+    private anchorWallMs = 0;
+
+    private readonly retained = new Map<string, Uint8Array>();
+
+    private progress: ReplayProgress;
+
+    private readonly progressListeners = new Set<() => void>();
+
+    constructor(recording: SessionRecording, options: ReplayTransportOptions = {}) {
+        this.recording = recording;
+        this.speed = Math.max(0.1, options.speed ?? 1);
+        this.progress = this.buildProgress(0);
+    }
+
+    public connect(handler: MessageHandler): void {
+        this.disconnect();
+        this.handler = handler;
+        this.index = 0;
+        this.retained.clear();
+        this.anchorOffsetMs = 0;
+        this.anchorWallMs = Date.now();
+        this.updateProgress(0);
+        this.scheduleNext();
+    }
+
+    public disconnect(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.handler = null;
+    }
+
+    public publish(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    /** Latest config messages replayed so far, for subscribers that arrive late. */
+    public getRetainedMessages(): MockTransportMessage[] {
+        return Array.from(this.retained.entries()).map(([topic, payload]) => ({
+            topic,
+            payload,
+        }));
+    }
+
+    public setSpeed(speed: number): void {
+        const offset = this.currentOffset();
+        this.speed = Math.max(0.1, speed);
+        this.anchorOffsetMs = offset;
+        this.anchorWallMs = Date.now();
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+            this.scheduleNext();
+        }
+    }
+
+    public getProgress = (): ReplayProgress => this.progress;
+
+    public subscribeProgress = (listener: () => void): (() => void) => {
+        this.progressListeners.add(listener);
+        return () => {
+            this.progressListeners.delete(listener);
+        };
+    };
+
+    private currentOffset(): number {
+        return this.anchorOffsetMs + (Date.now() - this.anchorWallMs) * this.speed;
+    }
+
+    private scheduleNext(): void {
+        const next = this.recording.entries[this.index];
+        if (!this.handler || !next) {
+            return;
+        }
+        const delayMs = Math.max(0, (next.offsetMs - this.currentOffset()) / this.speed);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.deliverDue();
+            this.scheduleNext();
+        }, delayMs);
+    }
+
+    private deliverDue(): void {
+        const offset = this.currentOffset();
+        const { entries } = this.recording;
+        let reached = this.progress.offsetMs;
+        while (this.index < entries.length && entries[this.index].offsetMs <= offset) {
+            const entry = entries[this.index];
+            this.index += 1;
+            reached = entry.offsetMs;
+            const message = { topic: entry.topic, payload: encoder.encode(entry.payload) };
+            if (entry.direction === 'in' && entry.topic.endsWith('/config')) {
+                this.retained.set(entry.topic, message.payload);
+            }
+            this.handler?.(message);
+            if (!this.handler) {
+                break;
+            }
+        }
+        this.updateProgress(reached);
+    }
+
+    private buildProgress(offsetMs: number): ReplayProgress {
+        const total = this.recording.entries.length;
+        return {
+            position: this.index,
+            total,
+            offsetMs,
+            durationMs: getSessionDurationMs(this.recording),
+            finished: this.index >= total,
+        };
+    }
+
+    private updateProgress(offsetMs: number): void {
+        this.progress = this.buildProgress(offsetMs);
+        this.progressListeners.forEach((listener) => listener());
+    }
+}
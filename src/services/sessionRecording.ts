@@ -0,0 +1,159 @@
+/**
+ * Session Recording Module
+ *
+ * Captures every MQTT message `MirrorMqttClient` sends or receives, with offsets
+ * from the start of the recording, into a downloadable JSON file. The `replay://`
+ * scheme feeds such a file back through the same handlers (see `replayTransport`).
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SessionMessageDirection = 'in' | 'out';
+
+export interface SessionRecordingEntry {
+    /** Milliseconds since the recording started. */
+    offsetMs: number;
+    direction: SessionMessageDirection;
+    topic: string;
+    /** UTF-8 payload text (all mirror topics carry JSON). */
+    payload: string;
+}
+
+export interface SessionRecording {
+    version: typeof SESSION_RECORDING_VERSION;
+    /** ISO timestamp of the first recorded moment. */
+    recordedAt: string;
+    /** Connection URL the session was recorded against. */
+    source: string;
+    entries: SessionRecordingEntry[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const SESSION_RECORDING_VERSION = 1;
+
+const decoder = new TextDecoder();
+
+// =============================================================================
+// RECORDER
+// =============================================================================
+
+/**
+ * Accumulates messages in memory until stopped. Payloads are decoded eagerly so
+ * the recording does not hold onto transport buffers.
+ */
+export class SessionRecorder {
+    private readonly entries: SessionRecordingEntry[] = [];
+
+    private readonly startedAt: number;
+
+    private readonly source: string;
+
+    constructor(source: string, startedAt: number = Date.now()) {
+        this.source = source;
+        this.startedAt = startedAt;
+    }
+
+    public get size(): number {
+        return this.entries.length;
+    }
+
+    public record(
+        direction: SessionMessageDirection,
+        topic: string,
+        payload: string | Uint8Array,
+        now: number = Date.now(),
+    ): void {
+        this.entries.push({
+            offsetMs: Math.max(0, now - this.startedAt),
+            direction,
+            topic,
+            payload: typeof payload === 'string' ? payload : decoder.decode(payload),
+        });
+    }
+
+    public finish(): SessionRecording {
+        return {
+            version: SESSION_RECORDING_VERSION,
+            recordedAt: new Date(this.startedAt).toISOString(),
+            source: this.source,
+            entries: this.entries.slice(),
+        };
+    }
+}
+
+// =============================================================================
+// FILE FORMAT
+// =============================================================================
+
+export const serializeSessionRecording = (recording: SessionRecording): string =>
+    JSON.stringify(recording);
+
+const isEntry = (value: unknown): value is SessionRecordingEntry => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const entry = value as Record<string, unknown>;
+    return (
+        typeof entry['offsetMs'] === 'number' &&
+        Number.isFinite(entry['offsetMs']) &&
+        (entry['direction'] === 'in' || entry['direction'] === 'out') &&
+        typeof entry['topic'] === 'string' &&
+        typeof entry['payload'] === 'string'
+    );
+};
+
+/**
+ * Parse a session file. Throws with a user-facing message when the file is not a
+ * recording this version understands. Entries are returned sorted by offset.
+ */
+export const parseSessionRecording = (text: string): SessionRecording => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('Session file is not valid JSON.');
+    }
+    if (!parsed || typeof parsed !== 'object') {
+        throw new Error('Session file is not a recording.');
+    }
+    const record = parsed as Record<string, unknown>;
+    if (record['version'] !== SESSION_RECORDING_VERSION) {
+        throw new Error(`Unsupported session file version: ${String(record['version'])}.`);
+    }
+    if (!Array.isArray(record['entries'])) {
+        throw new Error('Session file has no message entries.');
+    }
+    const entries = record['entries'].filter(isEntry);
+    if (entries.length !== record['entries'].length) {
+        throw new Error('Session file contains malformed message entries.');
+    }
+    return {
+        version: SESSION_RECORDING_VERSION,
+        recordedAt: typeof record['recordedAt'] === 'string' ? record['recordedAt'] : '',
+        source: typeof record['source'] === 'string' ? record['source'] : '',
+        entries: entries
+            .map((entry) => ({
+                offsetMs: entry.offsetMs,
+                direction: entry.direction,
+                topic: entry.topic,
+                payload: entry.payload,
+            }))
+            .sort((a, b) => a.offsetMs - b.offsetMs),
+    };
+};
+
+export const getSessionDurationMs = (recording: SessionRecording): number =>
+    recording.entries.at(-1)?.offsetMs ?? 0;
+
+export const buildSessionFileName = (recording: SessionRecording): string => {
+    const date = new Date(recording.recordedAt);
+    const timestamp = Number.isNaN(date.getTime())
+        ? 'session'
+        : date.toISOString().replace(/[:.]/g, '-');
+    return `mirror-session-${timestamp}.json`;
+};
@@ -0,0 +1,190 @@
+/**
+ * Show Scheduler Module
+ *
+ * Plans the keyframes of a playback sequence. Each entry's pattern is resolved
+ * by the profile playback planner; the transition into it is planned from the
+ * mirrors' current positions with the animation segment machinery, so morphs
+ * arrive together and waves start mirror by mirror on time.
+ */
+
+import type { Pattern, PlaybackSequenceEntry, PlaybackTransitionType } from '@/types';
+import type { AnimationSegmentPlan } from '@/types/animation';
+
+import {
+    generateMirrorOrder,
+    planStepTransition,
+    type StepTransitionAxis,
+} from './animationPlanner';
+import { getThermalMotorKey, type ThermalTelemetryIndex } from './thermalBudget';
+
+import type { ProfilePlaybackAxisTarget } from './profilePlaybackPlanner';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ShowKeyframe {
+    entry: PlaybackSequenceEntry;
+    pattern: Pattern;
+}
+
+export interface ShowAxisPosition {
+    steps: number;
+    /** Normalized coordinate, known once a keyframe has placed the axis */
+    normalized?: number;
+}
+
+/** Last known position of each motor, keyed by `getThermalMotorKey`. */
+export type ShowPositionIndex = Map<string, ShowAxisPosition>;
+
+export interface ShowTransitionPlan {
+    /** Transition that will run; wave and morph fall back to direct without positions */
+    transition: PlaybackTransitionType;
+    /** True when the requested transition had to fall back to a direct move */
+    fellBack: boolean;
+    /** Straight-line moves into the keyframe; null for direct transitions */
+    segment: AnimationSegmentPlan | null;
+    /** Start delay per mirror from the beginning of the transition (ms) */
+    mirrorStartMs: Map<string, number>;
+    /** Time until the last mirror arrives (ms); 0 when motors use their default speed */
+    durationMs: number;
+}
+
+interface PlanShowTransitionParams {
+    entry: PlaybackSequenceEntry;
+    targets: ProfilePlaybackAxisTarget[];
+    positions: ShowPositionIndex;
+    gridSize: { rows: number; cols: number };
+}
+
+// =============================================================================
+// KEYFRAMES
+// =============================================================================
+
+/**
+ * Pair sequence entries with their patterns, dropping entries whose pattern
+ * no longer exists.
+ */
+export const resolveShowKeyframes = (
+    entries: PlaybackSequenceEntry[],
+    patternLookup: Map<string, Pattern>,
+): ShowKeyframe[] =>
+    entries.flatMap((entry) => {
+        const pattern = patternLookup.get(entry.patternId);
+        return pattern ? [{ entry, pattern }] : [];
+    });
+
+/**
+ * Seed positions from live telemetry so the first keyframe can morph from
+ * wherever the mirrors currently point.
+ */
+export const readTelemetryPositions = (telemetry: ThermalTelemetryIndex): ShowPositionIndex => {
+    const positions: ShowPositionIndex = new Map();
+    telemetry.forEach((motor, key) => {
+        positions.set(key, { steps: motor.position });
+    });
+    return positions;
+};
+
+/**
+ * Step positions for the profile planner, so tiles are assigned with the least
+ * travel from where the previous keyframe left them.
+ */
+export const toStartSteps = (positions: ShowPositionIndex): Map<string, number> =>
+    new Map(Array.from(positions, ([key, position]) => [key, position.steps]));
+
+/**
+ * Positions after a keyframe. Pass only the targets whose moves were sent and
+ * completed; skipped, failed or stopped motors keep their last known position.
+ */
+export const recordKeyframePositions = (
+    positions: ShowPositionIndex,
+    targets: ProfilePlaybackAxisTarget[],
+): ShowPositionIndex => {
+    const next: ShowPositionIndex = new Map(positions);
+    for (const target of targets) {
+        next.set(getThermalMotorKey(target.motor.nodeMac, target.motor.motorIndex), {
+            steps: target.targetSteps,
+            normalized: target.normalizedTarget,
+        });
+    }
+    return next;
+};
+
+// =============================================================================
+// TRANSITIONS
+// =============================================================================
+
+const directTransition = (fellBack: boolean): ShowTransitionPlan => ({
+    transition: 'direct',
+    fellBack,
+    segment: null,
+    mirrorStartMs: new Map(),
+    durationMs: 0,
+});
+
+/**
+ * Start delay per mirror for a wave, following the grid in row-major order.
+ */
+const resolveWaveStarts = (
+    targets: ProfilePlaybackAxisTarget[],
+    gridSize: { rows: number; cols: number },
+    staggerMs: number,
+): Map<string, number> => {
+    const present = new Set(targets.map((target) => target.mirrorId));
+    const order = generateMirrorOrder(gridSize, 'row-major').filter((id) => present.has(id));
+    return new Map(order.map((mirrorId, index) => [mirrorId, index * staggerMs]));
+};
+
+/**
+ * Plan the transition into a keyframe. Morph and wave move every axis along a
+ * straight line over the entry's transition time; a wave additionally delays
+ * each mirror by the stagger. Both need every axis's current position and fall
+ * back to a direct move when one is unknown.
+ */
+export const planShowTransition = ({
+    entry,
+    targets,
+    positions,
+    gridSize,
+}: PlanShowTransitionParams): ShowTransitionPlan => {
+    if (entry.transition === 'direct') {
+        return directTransition(false);
+    }
+
+    const axes: StepTransitionAxis[] = [];
+    for (const target of targets) {
+        const position = positions.get(
+            getThermalMotorKey(target.motor.nodeMac, target.motor.motorIndex),
+        );
+        if (!position) {
+            return directTransition(true);
+        }
+        axes.push({
+            mirrorId: target.mirrorId,
+            row: target.row,
+            col: target.col,
+            axis: target.axis,
+            motor: target.motor,
+            fromSteps: position.steps,
+            targetSteps: target.targetSteps,
+            normalizedFrom: position.normalized ?? target.normalizedTarget,
+            normalizedTarget: target.normalizedTarget,
+        });
+    }
+
+    const segment = planStepTransition(axes, entry.transitionMs);
+    const mirrorStartMs =
+        entry.transition === 'wave'
+            ? resolveWaveStarts(targets, gridSize, entry.staggerMs)
+            : new Map<string, number>();
+    const lastStartMs = Math.max(0, ...mirrorStartMs.values());
+
+    return {
+        transition: entry.transition,
+        fellBack: false,
+        segment,
+        mirrorStartMs,
+        durationMs: lastStartMs + segment.durationMs,
+    };
+};
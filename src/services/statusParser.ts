@@ -37,7 +37,29 @@ export type StatusParseResult =
     | { ok: true; value: NormalizedStatusMessage }
     | { ok: false; error: StatusParseError };
 
+/**
+ * Retained device configuration published on `devices/<node_id>/config`.
+ * See docs/mqtt-config-schema.md.
+ */
+export interface NormalizedConfigMessage {
+    mac: string;
+    topicMac: string;
+    thermalLimiting: string;
+    maxBudgetSeconds: number;
+    microstep: string;
+    microstepMultiplier: number;
+    speed: number;
+    accel: number;
+    decel: number;
+    raw: Record<string, unknown>;
+}
+
+export type ConfigParseResult =
+    | { ok: true; value: NormalizedConfigMessage }
+    | { ok: false; error: StatusParseError };
+
 const STATUS_TOPIC_REGEX = /^devices\/([^/]+)\/status$/i;
+const CONFIG_TOPIC_REGEX = /^devices\/([^/]+)\/config$/i;
 
 const decoder = new TextDecoder();
 
@@ -73,21 +95,10 @@ const toBoolean = (value: unknown): boolean => {
     return Boolean(value);
 };
 
-export const parseStatusMessage = (topic: string, payload: Uint8Array): StatusParseResult => {
-    const match = STATUS_TOPIC_REGEX.exec(topic);
-    if (!match) {
-        return {
-            ok: false,
-            error: {
-                reason: 'topic',
-                message: `Topic "${topic}" does not match expected status pattern`,
-            },
-        };
-    }
-
-    const topicMac = match[1].trim();
-    const displayMac = topicMac.toUpperCase();
-
+const decodeJsonObject = (
+    payload: Uint8Array,
+    label: string,
+): { ok: true; value: Record<string, unknown> } | { ok: false; error: StatusParseError } => {
     let jsonText: string;
     try {
         jsonText = decoder.decode(payload);
@@ -96,7 +107,7 @@ export const parseStatusMessage = (topic: string, payload: Uint8Array): StatusPa
             ok: false,
             error: {
                 reason: 'decode',
-                message: 'Unable to decode status payload as UTF-8',
+                message: `Unable to decode ${label} payload as UTF-8`,
                 cause: error,
             },
         };
@@ -110,23 +121,46 @@ export const parseStatusMessage = (topic: string, payload: Uint8Array): StatusPa
             ok: false,
             error: {
                 reason: 'decode',
-                message: 'Unable to parse status payload as JSON',
+                message: `Unable to parse ${label} payload as JSON`,
                 cause: error,
             },
         };
     }
 
-    if (!parsedValue || typeof parsedValue !== 'object') {
+    if (!parsedValue || typeof parsedValue !== 'object' || Array.isArray(parsedValue)) {
         return {
             ok: false,
             error: {
                 reason: 'schema',
-                message: 'Status payload must be an object',
+                message: `${label.charAt(0).toUpperCase()}${label.slice(1)} payload must be an object`,
             },
         };
     }
 
-    const parsed = parsedValue as Record<string, unknown>;
+    return { ok: true, value: parsedValue as Record<string, unknown> };
+};
+
+export const parseStatusMessage = (topic: string, payload: Uint8Array): StatusParseResult => {
+    const match = STATUS_TOPIC_REGEX.exec(topic);
+    if (!match) {
+        return {
+            ok: false,
+            error: {
+                reason: 'topic',
+                message: `Topic "${topic}" does not match expected status pattern`,
+            },
+        };
+    }
+
+    const topicMac = match[1].trim();
+    const displayMac = topicMac.toUpperCase();
+
+    const decoded = decodeJsonObject(payload, 'status');
+    if (!decoded.ok) {
+        return decoded;
+    }
+
+    const parsed = decoded.value;
 
     const nodeState = parsed['node_state'];
     if (typeof nodeState !== 'string') {
@@ -210,3 +244,59 @@ export const parseStatusMessage = (topic: string, payload: Uint8Array): StatusPa
         },
     };
 };
+
+export const parseConfigMessage = (topic: string, payload: Uint8Array): ConfigParseResult => {
+    const match = CONFIG_TOPIC_REGEX.exec(topic);
+    if (!match) {
+        return {
+            ok: false,
+            error: {
+                reason: 'topic',
+                message: `Topic "${topic}" does not match expected config pattern`,
+            },
+        };
+    }
+
+    const topicMac = match[1].trim();
+
+    const decoded = decodeJsonObject(payload, 'config');
+    if (!decoded.ok) {
+        return decoded;
+    }
+    const parsed = decoded.value;
+
+    const microstep = parsed['microstep'];
+    if (typeof microstep !== 'string') {
+        return {
+            ok: false,
+            error: {
+                reason: 'schema',
+                message: 'Config payload missing string "microstep"',
+            },
+        };
+    }
+
+    const thermalValue = parsed['thermal_limiting'];
+    const thermalLimiting =
+        typeof thermalValue === 'string'
+            ? thermalValue.trim().toUpperCase()
+            : toBoolean(thermalValue)
+              ? 'ON'
+              : 'OFF';
+
+    return {
+        ok: true,
+        value: {
+            mac: topicMac.toUpperCase(),
+            topicMac,
+            thermalLimiting,
+            maxBudgetSeconds: toFiniteNumber(parsed['max_budget_s']),
+            microstep: microstep.trim().toUpperCase(),
+            microstepMultiplier: toFiniteNumber(parsed['microstep_mult'], 1),
+            speed: toFiniteNumber(parsed['speed']),
+            accel: toFiniteNumber(parsed['accel']),
+            decel: toFiniteNumber(parsed['decel']),
+            raw: parsed,
+        },
+    };
+};
@@ -0,0 +1,312 @@
+/**
+ * Synthetic Camera Module
+ *
+ * A stand-in for the calibration camera when running against the mock
+ * transport. A ground-truth model places one reflection per tile from the
+ * simulated motor positions: home position, displacement per step, blob size
+ * and per-frame position noise. The model is either rendered as bright spots
+ * onto a canvas stream the camera pipeline can select like a real device, or
+ * measured directly through a `CameraAdapter` so the calibration executor can
+ * run end-to-end in tests.
+ *
+ * Positions and sizes are in centered coordinates (-1 to 1, +y down).
+ */
+
+import type { BlobMeasurement, MirrorConfig, Motor } from '@/types';
+import { createSeededRandom } from '@/utils/random';
+
+import type { CameraAdapter, CaptureParams } from './calibration/script/commands';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SyntheticTileTruth {
+    row: number;
+    col: number;
+    xMotor: Motor | null;
+    yMotor: Motor | null;
+    /** Reflection position with both motors at step 0 */
+    home: { x: number; y: number };
+    /** Displacement per step of the x motor (along x) and y motor (along y) */
+    stepToDisplacement: { x: number; y: number };
+}
+
+export interface SyntheticCameraModel {
+    tiles: SyntheticTileTruth[];
+    /** Blob diameter */
+    blobSize: number;
+    /** Standard deviation of per-frame position noise */
+    noise: number;
+}
+
+export interface SyntheticModelOptions {
+    /** Spacing between neighbouring home positions */
+    pitch?: number;
+    /** Largest random home offset from the regular grid */
+    homeJitter?: number;
+    stepToDisplacement?: { x: number; y: number };
+    blobSize?: number;
+    noise?: number;
+    seed?: number;
+}
+
+export interface SyntheticBlob {
+    x: number;
+    y: number;
+    size: number;
+}
+
+/** Current step position of a motor, or null when it is unknown. */
+export type MotorPositionReader = (mac: string, motorId: number) => number | null;
+
+export interface SyntheticCameraSource {
+    model: SyntheticCameraModel;
+    readPosition: MotorPositionReader;
+}
+
+/** Fired on `window` when the synthetic source is configured or cleared. */
+export const SYNTHETIC_CAMERA_CHANGED_EVENT = 'mirror:synthetic-camera-changed';
+
+export const SYNTHETIC_CAMERA_DEVICE_ID = 'synthetic-camera';
+export const SYNTHETIC_CAMERA_LABEL = 'Synthetic camera (mock transport)';
+
+/** Signs match the calibration step-test jog directions at 0° rotation. */
+const DEFAULT_STEP_TO_DISPLACEMENT = { x: -0.0004, y: 0.0004 };
+const DEFAULT_BLOB_SIZE = 0.04;
+const DEFAULT_NOISE = 0.001;
+const DEFAULT_HOME_JITTER = 0.01;
+
+// =============================================================================
+// GROUND TRUTH
+// =============================================================================
+
+/**
+ * Ground truth for every tile in the grid, centred in view. Tiles without
+ * motors keep a home position but never move.
+ */
+export const createSyntheticCameraModel = (
+    gridSize: { rows: number; cols: number },
+    mirrorConfig: MirrorConfig,
+    options: SyntheticModelOptions = {},
+): SyntheticCameraModel => {
+    const random = createSeededRandom(options.seed ?? 1);
+    const pitch = options.pitch ?? Math.min(0.15, 1 / Math.max(gridSize.rows, gridSize.cols));
+    const jitter = options.homeJitter ?? DEFAULT_HOME_JITTER;
+    const tiles: SyntheticTileTruth[] = [];
+    for (let row = 0; row < gridSize.rows; row++) {
+        for (let col = 0; col < gridSize.cols; col++) {
+            const assignment = mirrorConfig.get(`${row}-${col}`);
+            tiles.push({
+                row,
+                col,
+                xMotor: assignment?.x ?? null,
+                yMotor: assignment?.y ?? null,
+                home: {
+                    x: (col - (gridSize.cols - 1) / 2) * pitch + (random() * 2 - 1) * jitter,
+                    y: (row - (gridSize.rows - 1) / 2) * pitch + (random() * 2 - 1) * jitter,
+                },
+                stepToDisplacement: options.stepToDisplacement ?? DEFAULT_STEP_TO_DISPLACEMENT,
+            });
+        }
+    }
+    return {
+        tiles,
+        blobSize: options.blobSize ?? DEFAULT_BLOB_SIZE,
+        noise: options.noise ?? DEFAULT_NOISE,
+    };
+};
+
+const gaussian = (random: () => number): number => {
+    // Box–Muller; 1 - u keeps the logarithm finite
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/**
+ * Reflections visible for the current motor positions, with noise applied.
+ * Blobs whose centre falls outside the frame are dropped.
+ */
+export const computeSyntheticBlobs = (
+    model: SyntheticCameraModel,
+    readPosition: MotorPositionReader,
+    random: () => number = Math.random,
+): SyntheticBlob[] => {
+    const stepsOf = (motor: Motor | null) =>
+        motor ? (readPosition(motor.nodeMac, motor.motorIndex) ?? 0) : 0;
+    return model.tiles.flatMap((tile) => {
+        const x =
+            tile.home.x +
+            stepsOf(tile.xMotor) * tile.stepToDisplacement.x +
+            gaussian(random) * model.noise;
+        const y =
+            tile.home.y +
+            stepsOf(tile.yMotor) * tile.stepToDisplacement.y +
+            gaussian(random) * model.noise;
+        return Math.abs(x) <= 1 && Math.abs(y) <= 1 ? [{ x, y, size: model.blobSize }] : [];
+    });
+};
+
+// =============================================================================
+// MEASUREMENT
+// =============================================================================
+
+/**
+ * Pick a blob the way the camera pipeline does: closest to the expected
+ * position (viewport coords) within `maxDistance`, else the rightmost blob.
+ */
+export const selectSyntheticBlob = (
+    blobs: SyntheticBlob[],
+    params: Pick<CaptureParams, 'expectedPosition' | 'maxDistance'>,
+): SyntheticBlob | null => {
+    const { expectedPosition, maxDistance } = params;
+    if (!expectedPosition) {
+        return blobs.reduce<SyntheticBlob | null>(
+            (best, blob) => (!best || blob.x > best.x ? blob : best),
+            null,
+        );
+    }
+    let best: SyntheticBlob | null = null;
+    let bestDistance = Number.POSITIVE_INFINITY;
+    for (const blob of blobs) {
+        const distance = Math.hypot(
+            (blob.x + 1) / 2 - expectedPosition.x,
+            (blob.y + 1) / 2 - expectedPosition.y,
+        );
+        if (distance < bestDistance) {
+            best = blob;
+            bestDistance = distance;
+        }
+    }
+    return maxDistance !== undefined && bestDistance > maxDistance ? null : best;
+};
+
+/**
+ * Camera adapter that measures the model directly, skipping rendering and
+ * blob detection. Used to drive `CalibrationExecutor` without a browser.
+ */
+export const createSyntheticCameraAdapter = (
+    source: SyntheticCameraSource,
+    options: { seed?: number; sourceWidth?: number; sourceHeight?: number } = {},
+): CameraAdapter => {
+    const random = createSeededRandom(options.seed ?? 1);
+    return {
+        async capture(params: CaptureParams): Promise<BlobMeasurement | null> {
+            if (params.signal?.aborted) {
+                throw new Error('Calibration measurement aborted');
+            }
+            const blob = selectSyntheticBlob(
+                computeSyntheticBlobs(source.model, source.readPosition, random),
+                params,
+            );
+            if (!blob) {
+                return null;
+            }
+            return {
+                x: blob.x,
+                y: blob.y,
+                size: blob.size,
+                response: 1,
+                capturedAt: Date.now(),
+                sourceWidth: options.sourceWidth ?? 1280,
+                sourceHeight: options.sourceHeight ?? 720,
+            };
+        },
+    };
+};
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+/**
+ * Draw blobs as soft bright spots on black. Sizes are converted the way the
+ * pipeline normalizes them: against the larger frame dimension.
+ */
+export const renderSyntheticFrame = (
+    ctx: CanvasRenderingContext2D,
+    blobs: SyntheticBlob[],
+    width: number,
+    height: number,
+): void => {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+    const maxDim = Math.max(width, height);
+    for (const blob of blobs) {
+        const cx = ((blob.x + 1) / 2) * width;
+        const cy = ((blob.y + 1) / 2) * height;
+        const radius = Math.max(2, (blob.size / 2) * maxDim);
+        // Falloff approximates a Gaussian whose bright core spans the blob size
+        const gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, radius * 1.5);
+        gradient.addColorStop(0, 'rgba(255,255,255,1)');
+        gradient.addColorStop(0.35, 'rgba(255,255,255,0.85)');
+        gradient.addColorStop(0.7, 'rgba(255,255,255,0.2)');
+        gradient.addColorStop(1, 'rgba(255,255,255,0)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(cx - radius * 1.5, cy - radius * 1.5, radius * 3, radius * 3);
+    }
+};
+
+/**
+ * Start a canvas-backed video stream of the source. Rendering stops once every
+ * track of the returned stream has been stopped.
+ */
+export const startSyntheticCameraStream = (
+    source: SyntheticCameraSource,
+    { width, height, fps = 30 }: { width: number; height: number; fps?: number },
+): MediaStream => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas 2D context is unavailable');
+    }
+    const stream = canvas.captureStream(fps);
+    const draw = () => {
+        renderSyntheticFrame(
+            ctx,
+            computeSyntheticBlobs(source.model, source.readPosition),
+            width,
+            height,
+        );
+    };
+    draw();
+    const timer = window.setInterval(() => {
+        if (stream.getTracks().every((track) => track.readyState === 'ended')) {
+            window.clearInterval(timer);
+            return;
+        }
+        draw();
+    }, 1000 / fps);
+    return stream;
+};
+
+// =============================================================================
+// ACTIVE SOURCE
+// =============================================================================
+
+let activeSource: SyntheticCameraSource | null = null;
+
+export const getSyntheticCameraSource = (): SyntheticCameraSource | null => activeSource;
+
+/** Set or clear the source behind the synthetic camera device. */
+export const configureSyntheticCamera = (source: SyntheticCameraSource | null): void => {
+    activeSource = source;
+    if (typeof window !== 'undefined' && typeof window.dispatchEvent === 'function') {
+        window.dispatchEvent(new Event(SYNTHETIC_CAMERA_CHANGED_EVENT));
+    }
+};
+
+/** Device entry listed next to real cameras while a synthetic source is configured. */
+export const createSyntheticCameraDeviceInfo = (): MediaDeviceInfo =>
+    ({
+        deviceId: SYNTHETIC_CAMERA_DEVICE_ID,
+        groupId: SYNTHETIC_CAMERA_DEVICE_ID,
+        kind: 'videoinput',
+        label: SYNTHETIC_CAMERA_LABEL,
+        toJSON() {
+            return { deviceId: SYNTHETIC_CAMERA_DEVICE_ID, kind: 'videoinput' };
+        },
+    }) as MediaDeviceInfo;
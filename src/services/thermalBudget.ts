@@ -0,0 +1,310 @@
+/**
+ * Thermal Budget Module
+ *
+ * Estimates how much motor runtime a plan needs and compares it with the live
+ * `budget_s` / `ttfc_s` telemetry from `devices/<node_id>/status`. Firmware rejects
+ * moves with E10 (request larger than the max budget) or E11 (not enough budget
+ * left) when thermal limiting is ON, so planners use this to warn, delay or block
+ * motors before anything is dispatched.
+ */
+
+import { DEFAULT_MOTOR_SPEED_SPS } from '@/types/animation';
+import type { MotorThermalAssessment, ThermalPlanAssessment, ThermalStatus } from '@/types/thermal';
+
+import type { NormalizedConfigMessage, NormalizedStatusMessage } from './statusParser';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Live thermal state of a single motor, merged from status and config topics. */
+export interface MotorThermalTelemetry {
+    position: number;
+    budgetSeconds: number;
+    ttfcSeconds: number;
+    maxBudgetSeconds: number | null;
+    /** Firmware default speed used when a MOVE omits `speed`. */
+    defaultSpeedSps: number | null;
+    accelSps2: number | null;
+    /** False when the node reports THERMAL_LIMITING=OFF (moves run with warnings). */
+    limitingEnabled: boolean;
+}
+
+/** Keyed by `getThermalMotorKey(mac, motorId)`. */
+export type ThermalTelemetryIndex = Map<string, MotorThermalTelemetry>;
+
+export interface ThermalTelemetrySource {
+    topicMac: string;
+    snapshot: NormalizedStatusMessage;
+    config: NormalizedConfigMessage | null;
+}
+
+/** One MOVE a plan intends to send. */
+export interface ThermalMoveDemand {
+    mac: string;
+    motorId: number;
+    targetSteps: number;
+    /** Start position; defaults to the live telemetry position. */
+    fromSteps?: number;
+    /** Commanded speed; defaults to the node's configured speed. */
+    speedSps?: number;
+    /** Commanded acceleration; defaults to the node's configured accel. */
+    accelSps2?: number;
+}
+
+export interface ThermalAssessmentOptions {
+    /** Warn when less than this fraction of the max budget would remain. Default 0.2. */
+    warnReserveRatio?: number;
+    /** Delays longer than this turn into blocks. Default 60 s. */
+    maxDelayMs?: number;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Reserve used when the node has not published `max_budget_s` yet. */
+const FALLBACK_WARN_RESERVE_SECONDS = 5;
+
+/** Budget regained per idle second when telemetry does not allow deriving a rate. */
+const FALLBACK_RECOVERY_RATE = 0.5;
+
+const DEFAULT_WARN_RESERVE_RATIO = 0.2;
+const DEFAULT_MAX_DELAY_MS = 60_000;
+
+const STATUS_RANK: Record<ThermalStatus, number> = { ok: 0, warn: 1, delay: 2, block: 3 };
+
+// =============================================================================
+// TELEMETRY
+// =============================================================================
+
+export const getThermalMotorKey = (mac: string, motorId: number): string => `${mac}:${motorId}`;
+
+/**
+ * Flatten driver snapshots into a per-motor telemetry index.
+ */
+export const buildThermalTelemetryIndex = (
+    drivers: ThermalTelemetrySource[],
+): ThermalTelemetryIndex => {
+    const index: ThermalTelemetryIndex = new Map();
+    for (const driver of drivers) {
+        const config = driver.config;
+        for (const motor of Object.values(driver.snapshot.motors)) {
+            index.set(getThermalMotorKey(driver.topicMac, motor.id), {
+                position: motor.position,
+                budgetSeconds: motor.budgetSeconds,
+                ttfcSeconds: motor.ttfcSeconds,
+                maxBudgetSeconds: config?.maxBudgetSeconds ?? null,
+                defaultSpeedSps: config?.speed ?? null,
+                accelSps2: config?.accel ?? null,
+                limitingEnabled: config?.thermalLimiting !== 'OFF',
+            });
+        }
+    }
+    return index;
+};
+
+// =============================================================================
+// ESTIMATION
+// =============================================================================
+
+/**
+ * Estimated move duration in seconds for a symmetric trapezoidal profile.
+ * Falls back to constant speed when acceleration is unknown.
+ */
+export const estimateMoveSeconds = (
+    distanceSteps: number,
+    speedSps: number,
+    accelSps2: number | null = null,
+): number => {
+    const distance = Math.abs(distanceSteps);
+    if (distance === 0 || speedSps <= 0) {
+        return 0;
+    }
+    if (!accelSps2 || accelSps2 <= 0) {
+        return distance / speedSps;
+    }
+    const rampDistance = (speedSps * speedSps) / accelSps2; // accel + decel ramps
+    if (rampDistance >= distance) {
+        // Triangular profile - cruise speed is never reached
+        return 2 * Math.sqrt(distance / accelSps2);
+    }
+    return (2 * speedSps) / accelSps2 + (distance - rampDistance) / speedSps;
+};
+
+/**
+ * Budget seconds regained per idle second. Derived from the time-to-full-cooldown
+ * when the max budget is known, otherwise a conservative constant.
+ */
+export const estimateRecoveryRate = (telemetry: MotorThermalTelemetry): number => {
+    const { maxBudgetSeconds, budgetSeconds, ttfcSeconds } = telemetry;
+    if (maxBudgetSeconds !== null && ttfcSeconds > 0 && budgetSeconds < maxBudgetSeconds) {
+        return (maxBudgetSeconds - budgetSeconds) / ttfcSeconds;
+    }
+    return FALLBACK_RECOVERY_RATE;
+};
+
+const worstStatus = (a: ThermalStatus, b: ThermalStatus): ThermalStatus =>
+    STATUS_RANK[a] >= STATUS_RANK[b] ? a : b;
+
+const formatSeconds = (seconds: number): string => `${seconds.toFixed(1)}s`;
+
+// =============================================================================
+// ASSESSMENT
+// =============================================================================
+
+interface MotorDemandTotals {
+    mac: string;
+    motorId: number;
+    requiredSeconds: number;
+    longestMoveSeconds: number;
+}
+
+const classifyMotor = (
+    key: string,
+    totals: MotorDemandTotals,
+    telemetry: MotorThermalTelemetry | undefined,
+    options: Required<ThermalAssessmentOptions>,
+): MotorThermalAssessment => {
+    const base: MotorThermalAssessment = {
+        key,
+        mac: totals.mac,
+        motorId: totals.motorId,
+        requiredSeconds: totals.requiredSeconds,
+        longestMoveSeconds: totals.longestMoveSeconds,
+        budgetSeconds: telemetry?.budgetSeconds ?? null,
+        maxBudgetSeconds: telemetry?.maxBudgetSeconds ?? null,
+        status: 'ok',
+        waitMs: 0,
+        errorCode: null,
+        message: null,
+    };
+    // Without telemetry there is nothing to compare against; firmware still enforces limits
+    if (!telemetry) {
+        return base;
+    }
+
+    const label = `${totals.mac} motor ${totals.motorId}`;
+    const required = totals.requiredSeconds;
+    const budget = telemetry.budgetSeconds;
+    const maxBudget = telemetry.maxBudgetSeconds;
+
+    if (maxBudget !== null && (totals.longestMoveSeconds > maxBudget || required > maxBudget)) {
+        const message =
+            `${label} needs ${formatSeconds(required)} of runtime but its max thermal budget ` +
+            `is ${formatSeconds(maxBudget)}.`;
+        return telemetry.limitingEnabled
+            ? { ...base, status: 'block', errorCode: 'E10', message }
+            : { ...base, status: 'warn', message: `${message} Thermal limiting is OFF.` };
+    }
+
+    if (required > budget) {
+        const shortfall = required - budget;
+        if (!telemetry.limitingEnabled) {
+            return {
+                ...base,
+                status: 'warn',
+                message:
+                    `${label} is ${formatSeconds(shortfall)} over its thermal budget. ` +
+                    'Thermal limiting is OFF.',
+            };
+        }
+        const waitMs = Math.ceil((shortfall / estimateRecoveryRate(telemetry)) * 1000);
+        if (waitMs > options.maxDelayMs) {
+            return {
+                ...base,
+                status: 'block',
+                errorCode: 'E11',
+                message:
+                    `${label} needs ${formatSeconds(required)} but only ` +
+                    `${formatSeconds(Math.max(0, budget))} is left; cooldown would take ` +
+                    `${formatSeconds(waitMs / 1000)}.`,
+            };
+        }
+        return {
+            ...base,
+            status: 'delay',
+            waitMs,
+            message: `${label} needs ${formatSeconds(waitMs / 1000)} of cooldown before moving.`,
+        };
+    }
+
+    const reserve =
+        maxBudget !== null ? maxBudget * options.warnReserveRatio : FALLBACK_WARN_RESERVE_SECONDS;
+    if (budget - required < reserve) {
+        return {
+            ...base,
+            status: 'warn',
+            message: `${label} will have ${formatSeconds(budget - required)} of thermal budget left.`,
+        };
+    }
+    return base;
+};
+
+/**
+ * Compare the runtime each motor needs for a set of moves with its live budget.
+ * Moves for the same motor are summed, so pass every move of a plan (or of one
+ * loop iteration) at once.
+ */
+export const assessThermalBudget = (
+    moves: ThermalMoveDemand[],
+    telemetry: ThermalTelemetryIndex,
+    options: ThermalAssessmentOptions = {},
+): ThermalPlanAssessment => {
+    const resolved: Required<ThermalAssessmentOptions> = {
+        warnReserveRatio: options.warnReserveRatio ?? DEFAULT_WARN_RESERVE_RATIO,
+        maxDelayMs: options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    };
+
+    const totals = new Map<string, MotorDemandTotals>();
+    const lastPosition = new Map<string, number>();
+    for (const move of moves) {
+        const key = getThermalMotorKey(move.mac, move.motorId);
+        const motorTelemetry = telemetry.get(key);
+        const from = move.fromSteps ?? lastPosition.get(key) ?? motorTelemetry?.position ?? null;
+        lastPosition.set(key, move.targetSteps);
+
+        const speed = move.speedSps ?? motorTelemetry?.defaultSpeedSps ?? DEFAULT_MOTOR_SPEED_SPS;
+        const seconds =
+            from === null
+                ? 0
+                : estimateMoveSeconds(
+                      move.targetSteps - from,
+                      speed,
+                      move.accelSps2 ?? motorTelemetry?.accelSps2 ?? null,
+                  );
+        const entry = totals.get(key) ?? {
+            mac: move.mac,
+            motorId: move.motorId,
+            requiredSeconds: 0,
+            longestMoveSeconds: 0,
+        };
+        entry.requiredSeconds += seconds;
+        entry.longestMoveSeconds = Math.max(entry.longestMoveSeconds, seconds);
+        totals.set(key, entry);
+    }
+
+    const motors = Array.from(totals.entries()).map(([key, entry]) =>
+        classifyMotor(key, entry, telemetry.get(key), resolved),
+    );
+
+    return {
+        motors,
+        status: motors.reduce<ThermalStatus>((acc, motor) => worstStatus(acc, motor.status), 'ok'),
+        waitMs: motors.reduce(
+            (acc, motor) => (motor.status === 'delay' ? Math.max(acc, motor.waitMs) : acc),
+            0,
+        ),
+        blockedKeys: new Set(
+            motors.filter((motor) => motor.status === 'block').map((motor) => motor.key),
+        ),
+    };
+};
+
+/**
+ * Motors that need attention (anything other than `ok`), worst first.
+ */
+export const getThermalIssues = (assessment: ThermalPlanAssessment): MotorThermalAssessment[] =>
+    assessment.motors
+        .filter((motor) => motor.status !== 'ok')
+        .sort((a, b) => STATUS_RANK[b.status] - STATUS_RANK[a.status]);
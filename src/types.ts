@@ -83,12 +83,35 @@ export interface Pattern {
     points: PatternPoint[];
 }
 
+/**
+ * How mirrors travel into an entry's pattern.
+ * - direct: every motor moves at once at its default speed
+ * - wave: mirrors start one after another in grid order
+ * - morph: each mirror follows a straight line and all arrive together
+ */
+export type PlaybackTransitionType = 'direct' | 'wave' | 'morph';
+
+export type PlaybackLoopMode = 'once' | 'loop';
+
+/** One keyframe on a sequence timeline. */
+export interface PlaybackSequenceEntry {
+    patternId: string;
+    transition: PlaybackTransitionType;
+    /** Travel time for wave and morph transitions (ms) */
+    transitionMs: number;
+    /** Delay between successive mirrors starting a wave (ms) */
+    staggerMs: number;
+    /** Time to hold the pattern once every mirror has arrived (ms) */
+    holdMs: number;
+}
+
 export interface PlaybackSequence {
     id: string;
     name: string;
     createdAt: string;
     updatedAt: string;
-    patternIds: string[];
+    entries: PlaybackSequenceEntry[];
+    loopMode: PlaybackLoopMode;
 }
 
 export type DriverPresenceSummary = 'ready' | 'stale' | 'offline';
@@ -285,6 +308,8 @@ export interface CalibrationSnapshotTile {
     combinedBounds?: CalibrationProfileBounds | null;
     footprintBounds?: CalibrationProfileBounds | null;
     stepScale?: { x: number | null; y: number | null };
+    /** Per-axis response curves from the extended multi-point step test */
+    stepResponse?: { x: AxisStepResponseModel | null; y: AxisStepResponseModel | null };
 }
 
 export interface CalibrationSnapshot {
@@ -292,6 +317,8 @@ export interface CalibrationSnapshot {
     camera?: CalibrationSnapshotCameraMeta | null;
     stepTestSettings: { deltaSteps: number };
     tiles: Record<string, CalibrationSnapshotTile>;
+    /** Wall-plane correction the tile measurements were rectified with */
+    wallHomography?: WallHomography | null;
     outlierAnalysis?: {
         enabled: boolean;
         outlierTileKeys: string[];
@@ -368,9 +395,27 @@ export interface CalibrationProfileBounds {
     y: CalibrationProfileBoundsAxis;
 }
 
+export interface StepResponsePoint {
+    steps: number;
+    /** Displacement from home in centered coordinates */
+    displacement: number;
+}
+
+/**
+ * Monotonic displacement-versus-steps curve for one motor axis, fitted from a
+ * multi-point step test. Knots are sorted by steps and pass through home
+ * (0 steps, 0 displacement); the end segments extend linearly.
+ */
+export interface AxisStepResponseModel {
+    kind: 'piecewise-linear';
+    points: StepResponsePoint[];
+}
+
 export interface TileAxisCalibration {
     stepRange: { minSteps: number; maxSteps: number } | null;
     stepScale: number | null;
+    /** Non-linear step response; when absent the linear `stepScale` applies. */
+    responseModel?: AxisStepResponseModel | null;
 }
 
 export interface CalibrationTileOffset {
@@ -450,6 +495,24 @@ export type ArrayRotation = 0 | 90 | 180 | 270;
  */
 export type StagingPosition = 'nearest-corner' | 'corner' | 'bottom' | 'left';
 
+/**
+ * Perspective correction from the camera image to the wall plane.
+ *
+ * Rectified wall space keeps the centered coordinate convention and roughly the
+ * camera's scale around the reference rectangle, so blueprint and bounds math
+ * run unchanged on rectified measurements.
+ */
+export interface WallHomography {
+    /** Row-major 3×3 matrix mapping centered camera coords to rectified coords */
+    matrix: number[];
+    /** Reference corners in centered camera coords: top-left, top-right, bottom-right, bottom-left */
+    cameraPoints: Array<{ x: number; y: number }>;
+    /** Physical size of the reference rectangle, in any unit */
+    referenceSize: { width: number; height: number };
+    /** How the reference corners were located */
+    method: 'manual' | 'fiducials';
+}
+
 export interface CalibrationProfile {
     id: string;
     schemaVersion: number;
@@ -468,6 +531,8 @@ export interface CalibrationProfile {
     calibrationCameraAspect?: number | null;
     calibrationCameraResolution?: CalibrationCameraResolution | null;
     calibrationSpace: CalibrationProfileCalibrationSpace;
+    /** Set when measurements were rectified onto the wall plane before the blueprint was computed */
+    wallHomography?: WallHomography | null;
     tiles: Record<string, TileCalibrationResults>;
     metrics: CalibrationProfileMetrics;
 }
@@ -1,4 +1,5 @@
 import type { Axis, Motor } from '../types';
+import type { ThermalPlanAssessment } from './thermal';
 
 // ============================================================================
 // Core Animation Types
@@ -14,8 +15,45 @@ export interface AnimationWaypoint {
     x: number;
     /** Normalized Y coordinate [-1, 1] */
     y: number;
+    /**
+     * Travel time from the previous waypoint in milliseconds. When omitted the
+     * time follows from the animation speed. Ignored on the first waypoint.
+     */
+    arrivalMs?: number;
+    /** Time to hold at this waypoint after arriving, in milliseconds. */
+    dwellMs?: number;
+    /** Bezier handle towards the previous waypoint, as an offset from this waypoint */
+    handleIn?: { x: number; y: number };
+    /** Bezier handle towards the next waypoint, as an offset from this waypoint */
+    handleOut?: { x: number; y: number };
 }
 
+/**
+ * How consecutive waypoints are joined.
+ * - polyline: straight lines
+ * - catmull-rom: smooth spline through every waypoint
+ * - bezier: cubic curves shaped by per-waypoint handles
+ * - arc: circular arcs through each waypoint and its neighbour
+ */
+export type AnimationCurveType = 'polyline' | 'catmull-rom' | 'bezier' | 'arc';
+
+export interface AnimationPathCurve {
+    type: AnimationCurveType;
+    /** Samples per segment when planning and validating curves. Default: 8 */
+    resolution?: number;
+}
+
+/**
+ * Easing curve applied to travel between consecutive waypoints.
+ * Cubic bezier control points follow the CSS `cubic-bezier()` convention.
+ */
+export type AnimationEasing =
+    | { type: 'linear' }
+    | { type: 'ease-in-out' }
+    | { type: 'cubic-bezier'; x1: number; y1: number; x2: number; y2: number };
+
+export type AnimationEasingType = AnimationEasing['type'];
+
 /**
  * A path that defines movement through a series of waypoints.
  * In independent mode, each path is assigned to a specific mirror.
@@ -26,6 +64,10 @@ export interface AnimationPath {
     name: string;
     /** Ordered waypoints defining the path. Minimum 2 required. */
     waypoints: AnimationWaypoint[];
+    /** Easing between waypoints. Default: linear (one constant-speed move per segment) */
+    easing?: AnimationEasing;
+    /** Curve joining the waypoints. Default: polyline */
+    curve?: AnimationPathCurve;
 }
 
 /**
@@ -116,7 +158,8 @@ export type AnimationPlanErrorCode =
     | 'speed_exceeds_limit'
     | 'steps_out_of_range'
     | 'no_assignments'
-    | 'no_mirrors_in_sequence';
+    | 'no_mirrors_in_sequence'
+    | 'thermal_budget';
 
 /**
  * Error encountered during animation planning.
@@ -151,6 +194,25 @@ export interface SegmentAxisMove {
     normalizedFrom: number;
     /** Normalized coordinate at target */
     normalizedTarget: number;
+    /** Speed for this move (steps per second); falls back to the segment speed */
+    speedSps?: number;
+    /** Acceleration for this move (steps per second squared); firmware default when omitted */
+    accelSps2?: number;
+}
+
+/**
+ * One time slice of an eased segment. Sub-steps run back to back; each move
+ * carries its own speed so every motor reaches the slice target together.
+ */
+export interface SegmentSubStep {
+    /** Zero-based index within the segment */
+    index: number;
+    /** Offset from the start of the segment in milliseconds */
+    startMs: number;
+    /** Slice duration in milliseconds */
+    durationMs: number;
+    /** Moves to the interpolated positions at the end of the slice */
+    axisMoves: SegmentAxisMove[];
 }
 
 /**
@@ -160,13 +222,17 @@ export interface SegmentAxisMove {
 export interface AnimationSegmentPlan {
     /** Zero-based segment index */
     segmentIndex: number;
-    /** All motor moves for this segment */
+    /** All motor moves for this segment, from segment start to segment end */
     axisMoves: SegmentAxisMove[];
+    /** Interpolated slices to execute in order. A single slice for linear easing. */
+    subSteps: SegmentSubStep[];
     /** Maximum travel distance among all motors (steps) */
     maxDistanceSteps: number;
-    /** Calculated segment duration in milliseconds */
+    /** Travel duration in milliseconds, excluding the dwell */
     durationMs: number;
-    /** Synchronized speed for all motors (steps per second) */
+    /** Hold after the segment completes in milliseconds */
+    dwellMs: number;
+    /** Peak speed among all moves (steps per second) */
     speedSps: number;
     /** True if speed was clamped to hardware limits */
     speedClamped: boolean;
@@ -174,6 +240,44 @@ export interface AnimationSegmentPlan {
     errors: AnimationPlanError[];
 }
 
+/**
+ * Moves one mirror issues at a fixed time. Events of a mirror never overlap;
+ * each starts after the previous one is due to finish.
+ */
+export interface AnimationScheduleEvent {
+    /** Start time from the beginning of the pass in milliseconds */
+    atMs: number;
+    mirrorId: string;
+    /** Segment the moves belong to; null for the loop seam */
+    segmentIndex: number | null;
+    /** Zero-based sub-step within the segment or seam */
+    subStepIndex: number;
+    /** Planned duration in milliseconds */
+    durationMs: number;
+    axisMoves: SegmentAxisMove[];
+}
+
+/**
+ * Absolute-time schedule of one pass through the animation. Sequential mode
+ * staggers each mirror's events by its position in the mirror order.
+ */
+export interface AnimationSchedule {
+    /** Events of one pass, ordered by start time */
+    events: AnimationScheduleEvent[];
+    /**
+     * Moves from the last waypoint back to the first, run only when looping.
+     * Times continue from the end of each mirror's pass.
+     */
+    seamEvents: AnimationScheduleEvent[];
+    /** Start delay of each mirror within a pass (ms) */
+    mirrorStartMs: Record<string, number>;
+    /**
+     * Time between the starts of consecutive passes (ms). A staggered mirror's
+     * pass may still be running when the next pass starts.
+     */
+    loopPeriodMs: number;
+}
+
 /**
  * Complete animation execution plan.
  */
@@ -181,8 +285,10 @@ export interface AnimationPlaybackPlan {
     animationId: string;
     /** Ordered segments to execute */
     segments: AnimationSegmentPlan[];
-    /** Total animation duration in milliseconds */
+    /** Total animation duration in milliseconds, including dwells and stagger */
     totalDurationMs: number;
+    /** When every mirror issues its moves (absent when planning failed early) */
+    schedule?: AnimationSchedule;
     /** Planning errors that may prevent playback */
     errors: AnimationPlanError[];
     /** Non-fatal warnings */
@@ -193,6 +299,8 @@ export interface AnimationPlaybackPlan {
     mirrorOrder?: string[];
     /** Time offset between successive mirrors in sequential mode (ms) */
     offsetMs?: number;
+    /** Thermal budget assessment of one pass (present when live telemetry was supplied) */
+    thermal?: ThermalPlanAssessment;
 }
 
 // ============================================================================
@@ -233,3 +341,27 @@ export const SPEED_SAFETY_MARGIN = 0.9;
 
 /** Minimum buffer time between segments in milliseconds */
 export const SEGMENT_BUFFER_MS = 50;
+
+/** Minimum acceleration sent with animation moves (steps per second squared) */
+export const MIN_MOTOR_ACCEL_SPS2 = 1_000;
+
+/** Maximum acceleration sent with animation moves (steps per second squared) */
+export const MAX_MOTOR_ACCEL_SPS2 = 32_000;
+
+/** Fraction of a slice a motor may spend ramping to its slice speed */
+export const ACCEL_RAMP_FRACTION = 0.25;
+
+/** Preferred duration of one eased sub-step in milliseconds */
+export const SUB_STEP_TARGET_MS = 150;
+
+/** Bounds on the number of sub-steps an eased segment is split into */
+export const MIN_SUB_STEPS = 4;
+export const MAX_SUB_STEPS = 12;
+
+/** Curve samples per segment */
+export const DEFAULT_CURVE_RESOLUTION = 8;
+export const MIN_CURVE_RESOLUTION = 2;
+export const MAX_CURVE_RESOLUTION = 32;
+
+/** Upper bound for waypoint arrival and dwell times in milliseconds */
+export const MAX_WAYPOINT_TIME_MS = 60_000;
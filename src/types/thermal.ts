@@ -0,0 +1,28 @@
+export type ThermalStatus = 'ok' | 'warn' | 'delay' | 'block';
+
+export interface MotorThermalAssessment {
+    key: string;
+    mac: string;
+    motorId: number;
+    /** Runtime the plan needs from this motor (seconds). */
+    requiredSeconds: number;
+    /** Longest single move (seconds); compared against the max budget for E10. */
+    longestMoveSeconds: number;
+    budgetSeconds: number | null;
+    maxBudgetSeconds: number | null;
+    status: ThermalStatus;
+    /** Cooldown needed before the plan fits the budget (only for `delay`). */
+    waitMs: number;
+    /** Firmware error the move would trigger, for blocked motors. */
+    errorCode: 'E10' | 'E11' | null;
+    message: string | null;
+}
+
+export interface ThermalPlanAssessment {
+    motors: MotorThermalAssessment[];
+    /** Worst status across all motors. */
+    status: ThermalStatus;
+    /** Longest cooldown among delayed motors. */
+    waitMs: number;
+    blockedKeys: Set<string>;
+}
@@ -0,0 +1,54 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import { solveBottleneckAssignment, solveLinearAssignment } from '../linearAssignment';
+
+const INF = Number.POSITIVE_INFINITY;
+
+describe('solveLinearAssignment', () => {
+    it('finds the minimum-cost matching', () => {
+        const costs = [
+            [4, 1, 3],
+            [2, 0, 5],
+            [3, 2, 2],
+        ];
+        // Row 0 -> 1, row 1 -> 0, row 2 -> 2 costs 5; greedy on row 1 would cost 7
+        expect(solveLinearAssignment(costs)).toEqual([1, 0, 2]);
+    });
+
+    it('matches as many rows as possible before minimising cost', () => {
+        const costs = [
+            [1, INF],
+            [0, 100],
+        ];
+        expect(solveLinearAssignment(costs)).toEqual([0, 1]);
+    });
+
+    it('handles rectangular matrices and unmatched rows', () => {
+        expect(solveLinearAssignment([[5, 1, 3]])).toEqual([1]);
+        expect(solveLinearAssignment([[2], [1], [3]])).toEqual([null, 0, null]);
+        expect(solveLinearAssignment([[INF, INF]])).toEqual([null]);
+        expect(solveLinearAssignment([])).toEqual([]);
+    });
+});
+
+describe('solveBottleneckAssignment', () => {
+    it('prefers a smaller largest move over a smaller total', () => {
+        // Matching [0, 1] totals 10 but moves one row by 9; [1, 0] totals 12 with max 6
+        const costs = [
+            [1, 6],
+            [6, 9],
+        ];
+        expect(solveLinearAssignment(costs)).toEqual([0, 1]);
+        expect(solveBottleneckAssignment(costs, costs)).toEqual([1, 0]);
+    });
+
+    it('keeps the matched count of the unconstrained solution', () => {
+        const costs = [
+            [1, INF],
+            [0, 100],
+        ];
+        expect(solveBottleneckAssignment(costs, costs)).toEqual([0, 1]);
+        expect(solveBottleneckAssignment([[INF]], [[0]])).toEqual([null]);
+    });
+});
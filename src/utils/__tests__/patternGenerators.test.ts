@@ -0,0 +1,151 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import {
+    DEFAULT_GENERATOR_PARAMS,
+    generatePatternPoints,
+    generatePatternPositions,
+    sampleClosedOutline,
+    type PatternGeneratorParams,
+} from '../patternGenerators';
+
+const UNIT_BOUNDS = { xMin: -1, xMax: 1, yMin: -1, yMax: 1 };
+
+const params = (overrides: Partial<PatternGeneratorParams>): PatternGeneratorParams => ({
+    ...DEFAULT_GENERATOR_PARAMS,
+    size: 1,
+    ...overrides,
+});
+
+const minPairDistance = (points: Array<{ x: number; y: number }>): number => {
+    let min = Number.POSITIVE_INFINITY;
+    for (let i = 0; i < points.length; i++) {
+        for (let j = i + 1; j < points.length; j++) {
+            min = Math.min(min, Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y));
+        }
+    }
+    return min;
+};
+
+describe('patternGenerators', () => {
+    it('places grid points at cell centres of the bounds', () => {
+        const points = generatePatternPositions(
+            params({ kind: 'grid', rows: 2, cols: 2 }),
+            UNIT_BOUNDS,
+        );
+        expect(points).toEqual([
+            { x: -0.5, y: -0.5 },
+            { x: 0.5, y: -0.5 },
+            { x: -0.5, y: 0.5 },
+            { x: 0.5, y: 0.5 },
+        ]);
+    });
+
+    it('places ring points on the largest circle that fits', () => {
+        const bounds = { xMin: -1, xMax: 1, yMin: -0.5, yMax: 0.5 };
+        const points = generatePatternPositions(params({ kind: 'ring', count: 8 }), bounds);
+        expect(points).toHaveLength(8);
+        for (const point of points) {
+            expect(Math.hypot(point.x, point.y)).toBeCloseTo(0.5);
+        }
+        expect(points[0].x).toBeCloseTo(0);
+        expect(points[0].y).toBeCloseTo(-0.5);
+    });
+
+    it('includes every polygon vertex when the count is a multiple of the sides', () => {
+        const points = generatePatternPositions(
+            params({ kind: 'polygon', sides: 4, count: 8 }),
+            UNIT_BOUNDS,
+        );
+        const vertices = points.filter(
+            (point) => Math.abs(Math.hypot(point.x, point.y) - 1) < 1e-9,
+        );
+        expect(vertices).toHaveLength(4);
+    });
+
+    it('alternates outer and inner radii for stars', () => {
+        const points = generatePatternPositions(
+            params({ kind: 'star', sides: 5, count: 10, innerRatio: 0.5 }),
+            UNIT_BOUNDS,
+        );
+        const radii = points.map((point) => Math.hypot(point.x, point.y));
+        radii.forEach((radius, index) => {
+            expect(radius).toBeCloseTo(index % 2 === 0 ? 1 : 0.5);
+        });
+    });
+
+    it('grows the spiral outward from the centre', () => {
+        const points = generatePatternPositions(
+            params({ kind: 'spiral', count: 20, turns: 2 }),
+            UNIT_BOUNDS,
+        );
+        const radii = points.map((point) => Math.hypot(point.x, point.y));
+        expect(radii[0]).toBeCloseTo(0);
+        expect(radii[radii.length - 1]).toBeCloseTo(1);
+        for (let i = 1; i < radii.length; i++) {
+            expect(radii[i]).toBeGreaterThan(radii[i - 1]);
+        }
+    });
+
+    it('rotates shapes about the bounds centre', () => {
+        const [first] = generatePatternPositions(
+            params({ kind: 'ring', count: 4, rotationDeg: 90 }),
+            UNIT_BOUNDS,
+        );
+        expect(first.x).toBeCloseTo(1);
+        expect(first.y).toBeCloseTo(0);
+    });
+
+    it('fills the allowed area with reproducible, well spread random points', () => {
+        const fill = params({ kind: 'poisson', count: 30, seed: 7 });
+        const insideRightHalf = (point: { x: number }) => point.x > 0;
+        const first = generatePatternPositions(fill, UNIT_BOUNDS, insideRightHalf);
+        const second = generatePatternPositions(fill, UNIT_BOUNDS, insideRightHalf);
+
+        expect(first).toHaveLength(30);
+        expect(second).toEqual(first);
+        expect(first.every(insideRightHalf)).toBe(true);
+        // Uniform random points would routinely fall much closer than this
+        expect(minPairDistance(first)).toBeGreaterThan(0.1);
+
+        const otherSeed = generatePatternPositions({ ...fill, seed: 8 }, UNIT_BOUNDS);
+        expect(otherSeed).not.toEqual(first);
+    });
+
+    it('stops the random fill when nothing lies inside the allowed area', () => {
+        const points = generatePatternPositions(
+            params({ kind: 'poisson', count: 5 }),
+            UNIT_BOUNDS,
+            () => false,
+        );
+        expect(points).toEqual([]);
+    });
+
+    it('spaces samples evenly along a closed outline', () => {
+        const square = [
+            { x: 0, y: 0 },
+            { x: 1, y: 0 },
+            { x: 1, y: 1 },
+            { x: 0, y: 1 },
+        ];
+        expect(sampleClosedOutline(square, 8)).toEqual([
+            { x: 0, y: 0 },
+            { x: 0.5, y: 0 },
+            { x: 1, y: 0 },
+            { x: 1, y: 0.5 },
+            { x: 1, y: 1 },
+            { x: 0.5, y: 1 },
+            { x: 0, y: 1 },
+            { x: 0, y: 0.5 },
+        ]);
+    });
+
+    it('assigns ids to generated points', () => {
+        const points = generatePatternPoints(
+            params({ kind: 'ring', count: 3 }),
+            UNIT_BOUNDS,
+            (index) => `gen-${index}`,
+        );
+        expect(points.map((point) => point.id)).toEqual(['gen-0', 'gen-1', 'gen-2']);
+    });
+});
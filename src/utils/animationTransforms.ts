@@ -1,6 +1,29 @@
-import type { AnimationPath } from '@/types/animation';
+import type { AnimationPath, AnimationWaypoint } from '@/types/animation';
 
-import { rotateCoordinates, scaleCoordinates, shiftCoordinates } from './coordinateTransforms';
+import {
+    rotateCoordinates,
+    scaleCoordinates,
+    shiftCoordinates,
+    type Coordinate,
+} from './coordinateTransforms';
+
+/**
+ * Apply a vector transform to the bezier handles of each waypoint. Handles are
+ * offsets from their waypoint, so shifts leave them unchanged.
+ */
+function transformHandles(
+    waypoints: AnimationWaypoint[],
+    transform: (handle: Coordinate) => Coordinate,
+): AnimationWaypoint[] {
+    return waypoints.map((waypoint) => {
+        if (!waypoint.handleIn && !waypoint.handleOut) return waypoint;
+        return {
+            ...waypoint,
+            ...(waypoint.handleIn && { handleIn: transform(waypoint.handleIn) }),
+            ...(waypoint.handleOut && { handleOut: transform(waypoint.handleOut) }),
+        };
+    });
+}
 
 /**
  * Shift all waypoints in a path by the given delta.
@@ -29,7 +52,10 @@ export function transformPathScale(
 ): AnimationPath {
     return {
         ...path,
-        waypoints: scaleCoordinates(path.waypoints, scaleX, scaleY, centerX, centerY),
+        waypoints: transformHandles(
+            scaleCoordinates(path.waypoints, scaleX, scaleY, centerX, centerY),
+            (handle) => scaleCoordinates([handle], scaleX, scaleY)[0],
+        ),
     };
 }
 
@@ -47,6 +73,9 @@ export function transformPathRotate(
 ): AnimationPath {
     return {
         ...path,
-        waypoints: rotateCoordinates(path.waypoints, angleDeg, centerX, centerY),
+        waypoints: transformHandles(
+            rotateCoordinates(path.waypoints, angleDeg, centerX, centerY),
+            (handle) => rotateCoordinates([handle], angleDeg)[0],
+        ),
     };
 }
@@ -0,0 +1,138 @@
+/**
+ * Minimum-cost bipartite matching (Hungarian algorithm, O(n³)).
+ *
+ * `costs[row][col]` must be non-negative; `Infinity` marks a forbidden pair.
+ * Matrices may be rectangular. The solver first maximises the number of
+ * allowed pairs and then minimises their total cost.
+ *
+ * Returns the matched column for every row, or `null` when the row could not
+ * be matched to an allowed column.
+ */
+export const solveLinearAssignment = (costs: number[][]): (number | null)[] => {
+    const rowCount = costs.length;
+    const colCount = Math.max(0, ...costs.map((row) => row.length));
+    if (rowCount === 0 || colCount === 0) {
+        return costs.map(() => null);
+    }
+
+    const size = Math.max(rowCount, colCount);
+    const finiteCosts = costs.flat().filter((cost) => Number.isFinite(cost));
+    const maxFinite = Math.max(0, ...finiteCosts);
+    // Larger than any total made of allowed pairs, so fewer forbidden pairs always wins
+    const forbiddenCost = (maxFinite + 1) * (size + 1);
+
+    const costAt = (row: number, col: number): number => {
+        if (row >= rowCount || col >= colCount) return 0;
+        const cost = costs[row][col];
+        return cost === undefined || !Number.isFinite(cost) ? forbiddenCost : cost;
+    };
+
+    // Potentials and matching use 1-based indices; index 0 is the virtual start column
+    const u = new Array<number>(size + 1).fill(0);
+    const v = new Array<number>(size + 1).fill(0);
+    const matchedRow = new Array<number>(size + 1).fill(0);
+    const way = new Array<number>(size + 1).fill(0);
+
+    for (let row = 1; row <= size; row++) {
+        matchedRow[0] = row;
+        let col0 = 0;
+        const minSlack = new Array<number>(size + 1).fill(Number.POSITIVE_INFINITY);
+        const used = new Array<boolean>(size + 1).fill(false);
+
+        do {
+            used[col0] = true;
+            const row0 = matchedRow[col0];
+            let delta = Number.POSITIVE_INFINITY;
+            let col1 = 0;
+            for (let col = 1; col <= size; col++) {
+                if (used[col]) continue;
+                const slack = costAt(row0 - 1, col - 1) - u[row0] - v[col];
+                if (slack < minSlack[col]) {
+                    minSlack[col] = slack;
+                    way[col] = col0;
+                }
+                if (minSlack[col] < delta) {
+                    delta = minSlack[col];
+                    col1 = col;
+                }
+            }
+            for (let col = 0; col <= size; col++) {
+                if (used[col]) {
+                    u[matchedRow[col]] += delta;
+                    v[col] -= delta;
+                } else {
+                    minSlack[col] -= delta;
+                }
+            }
+            col0 = col1;
+        } while (matchedRow[col0] !== 0);
+
+        do {
+            const col1 = way[col0];
+            matchedRow[col0] = matchedRow[col1];
+            col0 = col1;
+        } while (col0 !== 0);
+    }
+
+    const result: (number | null)[] = costs.map(() => null);
+    for (let col = 1; col <= size; col++) {
+        const row = matchedRow[col] - 1;
+        if (row < rowCount && col - 1 < colCount && Number.isFinite(costs[row][col - 1])) {
+            result[row] = col - 1;
+        }
+    }
+    return result;
+};
+
+const countMatched = (assignment: (number | null)[]): number =>
+    assignment.filter((column) => column !== null).length;
+
+/**
+ * Matching that first minimises the largest `bottlenecks[row][col]` among the
+ * matched pairs, then the total cost among matchings with that bottleneck.
+ * Matches as many rows as `solveLinearAssignment` would.
+ */
+export const solveBottleneckAssignment = (
+    costs: number[][],
+    bottlenecks: number[][],
+): (number | null)[] => {
+    const baseline = solveLinearAssignment(costs);
+    const targetCount = countMatched(baseline);
+    if (targetCount === 0) {
+        return baseline;
+    }
+
+    const thresholds = Array.from(
+        new Set(
+            costs.flatMap((row, rowIndex) =>
+                row.flatMap((cost, col) =>
+                    Number.isFinite(cost) ? [bottlenecks[rowIndex][col]] : [],
+                ),
+            ),
+        ),
+    ).sort((a, b) => a - b);
+
+    const solveWithin = (limit: number) =>
+        solveLinearAssignment(
+            costs.map((row, rowIndex) =>
+                row.map((cost, col) =>
+                    bottlenecks[rowIndex][col] <= limit ? cost : Number.POSITIVE_INFINITY,
+                ),
+            ),
+        );
+
+    let best = baseline;
+    let low = 0;
+    let high = thresholds.length - 1;
+    while (low <= high) {
+        const mid = Math.floor((low + high) / 2);
+        const candidate = solveWithin(thresholds[mid]);
+        if (countMatched(candidate) === targetCount) {
+            best = candidate;
+            high = mid - 1;
+        } else {
+            low = mid + 1;
+        }
+    }
+    return best;
+};
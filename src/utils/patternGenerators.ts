@@ -0,0 +1,273 @@
+import type { PatternPoint } from '@/types';
+
+import { rotateCoordinates } from './coordinateTransforms';
+import { createSeededRandom } from './random';
+
+export type PatternGeneratorKind = 'grid' | 'ring' | 'spiral' | 'polygon' | 'star' | 'poisson';
+
+export const PATTERN_GENERATOR_LABELS: Record<PatternGeneratorKind, string> = {
+    grid: 'Grid',
+    ring: 'Ring',
+    spiral: 'Spiral',
+    polygon: 'Polygon',
+    star: 'Star',
+    poisson: 'Random fill',
+};
+
+/**
+ * Parameters for every generator. Each kind reads only the fields it needs so
+ * switching kinds in the UI keeps the other values.
+ */
+export interface PatternGeneratorParams {
+    kind: PatternGeneratorKind;
+    /** Number of points (all kinds except grid) */
+    count: number;
+    /** Grid rows and columns */
+    rows: number;
+    cols: number;
+    /** Polygon sides / star arms */
+    sides: number;
+    /** Spiral turns */
+    turns: number;
+    /** Star inner radius as a fraction of the outer radius */
+    innerRatio: number;
+    /** Rotation about the bounds centre, as in `rotatePoints` */
+    rotationDeg: number;
+    /** Fraction of the bounds the shape spans, 0..1 */
+    size: number;
+    /** Random fill seed; the same seed gives the same points */
+    seed: number;
+}
+
+export interface GeneratorBounds {
+    xMin: number;
+    xMax: number;
+    yMin: number;
+    yMax: number;
+}
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+export const DEFAULT_GENERATOR_PARAMS: PatternGeneratorParams = {
+    kind: 'ring',
+    count: 12,
+    rows: 3,
+    cols: 4,
+    sides: 5,
+    turns: 3,
+    innerRatio: 0.45,
+    rotationDeg: 0,
+    size: 0.9,
+    seed: 1,
+};
+
+/** Candidates drawn per random-fill point; more gives a more even spread. */
+const BEST_CANDIDATE_SAMPLES = 24;
+/** Attempts to find a candidate accepted by `contains` before giving up. */
+const CANDIDATE_ATTEMPTS = 200;
+
+/**
+ * `count` points evenly spaced along a closed outline, starting at its first vertex.
+ */
+export function sampleClosedOutline(vertices: Point[], count: number): Point[] {
+    if (vertices.length === 0 || count <= 0) return [];
+    const edges = vertices.map((start, index) => {
+        const end = vertices[(index + 1) % vertices.length];
+        return { start, end, length: Math.hypot(end.x - start.x, end.y - start.y) };
+    });
+    const perimeter = edges.reduce((sum, edge) => sum + edge.length, 0);
+    if (perimeter === 0) return Array.from({ length: count }, () => ({ ...vertices[0] }));
+
+    const spacing = perimeter / count;
+    const points: Point[] = [];
+    let edgeIndex = 0;
+    let edgeStart = 0;
+    for (let i = 0; i < count; i++) {
+        const distance = i * spacing;
+        while (
+            edgeIndex < edges.length - 1 &&
+            distance > edgeStart + edges[edgeIndex].length - 1e-12
+        ) {
+            edgeStart += edges[edgeIndex].length;
+            edgeIndex++;
+        }
+        const edge = edges[edgeIndex];
+        const t = edge.length > 0 ? (distance - edgeStart) / edge.length : 0;
+        points.push({
+            x: edge.start.x + (edge.end.x - edge.start.x) * t,
+            y: edge.start.y + (edge.end.y - edge.start.y) * t,
+        });
+    }
+    return points;
+}
+
+const regularVertices = (center: Point, radii: number[], sides: number): Point[] => {
+    const total = sides * radii.length;
+    // First vertex points straight up
+    return Array.from({ length: total }, (_, index) => {
+        const angle = -Math.PI / 2 + (index * 2 * Math.PI) / total;
+        const radius = radii[index % radii.length];
+        return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+    });
+};
+
+const generateGrid = (bounds: GeneratorBounds, rows: number, cols: number): Point[] => {
+    const width = bounds.xMax - bounds.xMin;
+    const height = bounds.yMax - bounds.yMin;
+    const points: Point[] = [];
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            points.push({
+                x: bounds.xMin + ((col + 0.5) * width) / cols,
+                y: bounds.yMin + ((row + 0.5) * height) / rows,
+            });
+        }
+    }
+    return points;
+};
+
+/**
+ * Archimedean spiral from the centre outwards. Points are placed at roughly
+ * equal arc length, which for r ∝ θ means θ ∝ √i.
+ */
+const generateSpiral = (center: Point, radius: number, count: number, turns: number) => {
+    if (count === 1) return [{ ...center }];
+    const maxAngle = turns * 2 * Math.PI;
+    return Array.from({ length: count }, (_, index) => {
+        const angle = maxAngle * Math.sqrt(index / (count - 1));
+        const r = (radius * angle) / maxAngle;
+        return {
+            x: center.x + r * Math.cos(angle - Math.PI / 2),
+            y: center.y + r * Math.sin(angle - Math.PI / 2),
+        };
+    });
+};
+
+/**
+ * Blue-noise fill using Mitchell's best-candidate approximation of Poisson-disk
+ * sampling: each new point is the candidate farthest from all points so far.
+ * Unlike classic Poisson-disk sampling it always yields exactly `count` points.
+ */
+const generatePoissonFill = (
+    bounds: GeneratorBounds,
+    count: number,
+    seed: number,
+    contains?: (point: Point) => boolean,
+): Point[] => {
+    const random = createSeededRandom(seed);
+    const width = bounds.xMax - bounds.xMin;
+    const height = bounds.yMax - bounds.yMin;
+    const drawCandidate = (): Point | null => {
+        for (let attempt = 0; attempt < CANDIDATE_ATTEMPTS; attempt++) {
+            const candidate = {
+                x: bounds.xMin + random() * width,
+                y: bounds.yMin + random() * height,
+            };
+            if (!contains || contains(candidate)) return candidate;
+        }
+        return null;
+    };
+
+    const points: Point[] = [];
+    while (points.length < count) {
+        let best: Point | null = null;
+        let bestDistance = -1;
+        const samples = points.length === 0 ? 1 : BEST_CANDIDATE_SAMPLES;
+        for (let i = 0; i < samples; i++) {
+            const candidate = drawCandidate();
+            if (!candidate) continue;
+            let nearest = Number.POSITIVE_INFINITY;
+            for (const point of points) {
+                nearest = Math.min(
+                    nearest,
+                    Math.hypot(point.x - candidate.x, point.y - candidate.y),
+                );
+            }
+            if (nearest > bestDistance) {
+                best = candidate;
+                bestDistance = nearest;
+            }
+        }
+        // Nothing inside the allowed area; stop rather than spin
+        if (!best) break;
+        points.push(best);
+    }
+    return points;
+};
+
+/**
+ * Generate pattern point positions for the given shape inside `bounds`.
+ * Grid and random fill stretch to the bounds; the round shapes use the largest
+ * circle that fits. `contains` restricts the random fill to an arbitrary area,
+ * such as the union of calibrated tile bounds.
+ */
+export function generatePatternPositions(
+    params: PatternGeneratorParams,
+    bounds: GeneratorBounds,
+    contains?: (point: Point) => boolean,
+): Point[] {
+    const size = Math.max(0, Math.min(1, params.size));
+    const center = { x: (bounds.xMin + bounds.xMax) / 2, y: (bounds.yMin + bounds.yMax) / 2 };
+    const halfWidth = ((bounds.xMax - bounds.xMin) / 2) * size;
+    const halfHeight = ((bounds.yMax - bounds.yMin) / 2) * size;
+    const scaled = {
+        xMin: center.x - halfWidth,
+        xMax: center.x + halfWidth,
+        yMin: center.y - halfHeight,
+        yMax: center.y + halfHeight,
+    };
+    const radius = Math.min(halfWidth, halfHeight);
+    const count = Math.max(0, Math.floor(params.count));
+    const sides = Math.max(3, Math.floor(params.sides));
+
+    let points: Point[];
+    switch (params.kind) {
+        case 'grid':
+            points = generateGrid(
+                scaled,
+                Math.max(1, Math.floor(params.rows)),
+                Math.max(1, Math.floor(params.cols)),
+            );
+            break;
+        case 'ring':
+            points = sampleClosedOutline(regularVertices(center, [radius], count), count);
+            break;
+        case 'spiral':
+            points =
+                count > 0
+                    ? generateSpiral(center, radius, count, Math.max(0.25, params.turns))
+                    : [];
+            break;
+        case 'polygon':
+            points = sampleClosedOutline(regularVertices(center, [radius], sides), count);
+            break;
+        case 'star': {
+            const inner = radius * Math.max(0.05, Math.min(1, params.innerRatio));
+            points = sampleClosedOutline(regularVertices(center, [radius, inner], sides), count);
+            break;
+        }
+        case 'poisson':
+            // Rotation has no visible effect on a random fill
+            return generatePoissonFill(scaled, count, params.seed, contains);
+    }
+    return rotateCoordinates(points, params.rotationDeg, center.x, center.y);
+}
+
+/**
+ * Generate pattern points, assigning ids with `createId`.
+ */
+export function generatePatternPoints(
+    params: PatternGeneratorParams,
+    bounds: GeneratorBounds,
+    createId: (index: number) => string,
+    contains?: (point: Point) => boolean,
+): PatternPoint[] {
+    return generatePatternPositions(params, bounds, contains).map((point, index) => ({
+        id: createId(index),
+        x: point.x,
+        y: point.y,
+    }));
+}